@@ -0,0 +1,34 @@
+-- Batches of questions queued for AI metadata generation and exam assignment, worked through by the
+-- server's background worker one question at a time
+CREATE TABLE IF NOT EXISTS ai_enrichment_jobs (
+    id SERIAL PRIMARY KEY,
+    requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    tasks TEXT[] NOT NULL DEFAULT '{metadata,exams}',
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'cancelled')),
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_enrichment_jobs_created ON ai_enrichment_jobs(created_at DESC);
+
+-- One question in a job. metadata_done and exams_done let a retry pick up after the step that failed.
+CREATE TABLE IF NOT EXISTS ai_enrichment_items (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES ai_enrichment_jobs(id) ON DELETE CASCADE,
+    question_id INTEGER NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'cancelled')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    metadata_done BOOLEAN NOT NULL DEFAULT false,
+    exams_done BOOLEAN NOT NULL DEFAULT false,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (job_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_enrichment_items_pending ON ai_enrichment_items(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_ai_enrichment_items_question ON ai_enrichment_items(question_id, updated_at DESC);
@@ -0,0 +1,28 @@
+-- One request to draft questions from selected images, with the tokens it used and what they cost
+CREATE TABLE IF NOT EXISTS ai_generation_runs (
+    id SERIAL PRIMARY KEY,
+    requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    client VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    image_ids INTEGER[] NOT NULL DEFAULT '{}',
+    questions_per_image INTEGER NOT NULL DEFAULT 1 CHECK (questions_per_image > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+    -- Images that produced nothing usable, as [{ image_id, error }]
+    failures JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_generation_runs_created ON ai_generation_runs(created_at DESC);
+
+-- Which run drafted a question, and from which image
+CREATE TABLE IF NOT EXISTS ai_generated_questions (
+    question_id INTEGER PRIMARY KEY REFERENCES questions(id) ON DELETE CASCADE,
+    run_id INTEGER NOT NULL REFERENCES ai_generation_runs(id) ON DELETE CASCADE,
+    image_id INTEGER REFERENCES images(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_generated_questions_run ON ai_generated_questions(run_id);
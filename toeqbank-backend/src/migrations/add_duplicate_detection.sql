@@ -0,0 +1,5 @@
+-- Trigram similarity for spotting duplicate and near-duplicate questions at import and on create
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lets the % operator find candidate stems without scanning every question
+CREATE INDEX IF NOT EXISTS idx_questions_question_trgm ON questions USING GIN (question gin_trgm_ops);
@@ -0,0 +1,8 @@
+-- How often each user is emailed; users without a row get the daily digest
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    -- immediate: returned questions are emailed as they happen, plus the daily digest
+    email_frequency VARCHAR(20) NOT NULL DEFAULT 'daily' CHECK (email_frequency IN ('immediate', 'daily', 'weekly', 'never')),
+    last_digest_sent_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,177 @@
+-- Exam structure in one place: the categories and exam types users pick, and the blueprints
+-- (syllabi) questions are mapped to in question_exam_assignments. Codes and blueprint names are
+-- stored on users, questions and assignments, so they are permanent; retire rows with is_active.
+CREATE TABLE IF NOT EXISTS exam_categories (
+    code VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    icon VARCHAR(16),
+    display_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS exam_types (
+    code VARCHAR(50) PRIMARY KEY,
+    category_code VARCHAR(50) NOT NULL REFERENCES exam_categories(code) ON UPDATE CASCADE,
+    name VARCHAR(150) NOT NULL,
+    description TEXT,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS exam_blueprints (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(50) NOT NULL UNIQUE,
+    description TEXT,
+    category_code VARCHAR(50) REFERENCES exam_categories(code) ON UPDATE CASCADE,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Shown as "<number>. <title>", e.g. "1. Basic TEE"
+CREATE TABLE IF NOT EXISTS exam_blueprint_sections (
+    id SERIAL PRIMARY KEY,
+    blueprint_id INTEGER NOT NULL REFERENCES exam_blueprints(id) ON DELETE CASCADE,
+    number VARCHAR(10) NOT NULL,
+    title VARCHAR(150) NOT NULL,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    UNIQUE (blueprint_id, number)
+);
+
+-- Stored on assignments as "<number>: <name>" or just the name, e.g. "1.2: Basic TEE Views and Anatomy"
+CREATE TABLE IF NOT EXISTS exam_blueprint_subtopics (
+    id SERIAL PRIMARY KEY,
+    section_id INTEGER NOT NULL REFERENCES exam_blueprint_sections(id) ON DELETE CASCADE,
+    number VARCHAR(20) NOT NULL,
+    name VARCHAR(150) NOT NULL,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    UNIQUE (section_id, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exam_types_category ON exam_types(category_code);
+CREATE INDEX IF NOT EXISTS idx_exam_blueprint_sections_blueprint ON exam_blueprint_sections(blueprint_id);
+CREATE INDEX IF NOT EXISTS idx_exam_blueprint_subtopics_section ON exam_blueprint_subtopics(section_id);
+
+INSERT INTO exam_categories (code, name, description, icon, display_order) VALUES
+    ('echocardiography', 'Echocardiography', 'Cardiac imaging and ultrasound exams', '🫀', 1),
+    ('usmle', 'USMLE', 'United States Medical Licensing Examination', '🩺', 2)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO exam_types (code, category_code, name, display_order) VALUES
+    ('eacvi_toe', 'echocardiography', 'EACVI TOE (Transesophageal Echocardiography)', 1),
+    ('tte', 'echocardiography', 'TTE (Transthoracic Echocardiography)', 2),
+    ('step1', 'usmle', 'Step 1', 1),
+    ('step2', 'usmle', 'Step 2', 2),
+    ('step3', 'usmle', 'Step 3', 3)
+ON CONFLICT (code) DO NOTHING;
+
+-- The sign-up form offered 'advance_pteexam', which the server never accepted; profile edits could still
+-- save it. It is the same TOE question bank.
+UPDATE users SET exam_type = 'eacvi_toe' WHERE exam_type = 'advance_pteexam';
+
+
+-- PTEeXAM blueprint
+INSERT INTO exam_blueprints (name, category_code, display_order) VALUES ('PTEeXAM', 'echocardiography', 1)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO exam_blueprint_sections (blueprint_id, number, title, display_order)
+SELECT b.id, s.number, s.title, s.display_order
+FROM exam_blueprints b, (VALUES
+    ('1', 'Basic TEE', 1),
+    ('2', 'Cardiac Anatomy and Physiology', 2),
+    ('3', 'Valvular Disease', 3),
+    ('4', 'Hemodynamic Assessment', 4),
+    ('5', 'TEE in Cardiac Surgery', 5),
+    ('6', 'Advanced TEE Applications', 6)
+) AS s(number, title, display_order)
+WHERE b.name = 'PTEeXAM'
+ON CONFLICT (blueprint_id, number) DO NOTHING;
+
+INSERT INTO exam_blueprint_subtopics (section_id, number, name, display_order)
+SELECT s.id, t.number, t.name, t.display_order
+FROM exam_blueprint_sections s
+JOIN exam_blueprints b ON s.blueprint_id = b.id
+JOIN (VALUES
+    ('1', '1.1', 'TEE Probe Insertion and Safety', 1),
+    ('1', '1.2', 'Basic TEE Views and Anatomy', 2),
+    ('1', '1.3', 'Standard TEE Examination', 3),
+    ('1', '1.4', 'TEE Equipment and Technology', 4),
+    ('2', '2.1', 'Chamber Assessment', 1),
+    ('2', '2.2', 'Valvular Anatomy', 2),
+    ('2', '2.3', 'Great Vessel Assessment', 3),
+    ('2', '2.4', 'Congenital Heart Disease', 4),
+    ('3', '3.1', 'Mitral Valve Disease', 1),
+    ('3', '3.2', 'Aortic Valve Disease', 2),
+    ('3', '3.3', 'Tricuspid Valve Disease', 3),
+    ('3', '3.4', 'Pulmonary Valve Disease', 4),
+    ('3', '3.5', 'Prosthetic Valves', 5),
+    ('4', '4.1', 'Doppler Principles', 1),
+    ('4', '4.2', 'Pressure Gradients', 2),
+    ('4', '4.3', 'Cardiac Output Assessment', 3),
+    ('4', '4.4', 'Diastolic Function', 4),
+    ('5', '5.1', 'Intraoperative TEE', 1),
+    ('5', '5.2', 'Post-surgical Assessment', 2),
+    ('5', '5.3', 'Surgical Planning', 3),
+    ('6', '6.1', '3D TEE', 1),
+    ('6', '6.2', 'Strain Imaging', 2),
+    ('6', '6.3', 'Contrast Enhancement', 3),
+    ('6', '6.4', 'Interventional Guidance', 4)
+) AS t(section_number, number, name, display_order) ON t.section_number = s.number
+WHERE b.name = 'PTEeXAM'
+ON CONFLICT (section_id, number) DO NOTHING;
+
+-- EACTVI blueprint
+INSERT INTO exam_blueprints (name, category_code, display_order) VALUES ('EACTVI', 'echocardiography', 2)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO exam_blueprint_sections (blueprint_id, number, title, display_order)
+SELECT b.id, s.number, s.title, s.display_order
+FROM exam_blueprints b, (VALUES
+    ('1', 'Basic Echocardiography', 1),
+    ('2', 'Left Heart Assessment', 2),
+    ('3', 'Right Heart Assessment', 3),
+    ('4', 'Hemodynamics and Flow', 4),
+    ('5', 'Advanced Techniques', 5),
+    ('6', 'Clinical Applications', 6)
+) AS s(number, title, display_order)
+WHERE b.name = 'EACTVI'
+ON CONFLICT (blueprint_id, number) DO NOTHING;
+
+INSERT INTO exam_blueprint_subtopics (section_id, number, name, display_order)
+SELECT s.id, t.number, t.name, t.display_order
+FROM exam_blueprint_sections s
+JOIN exam_blueprints b ON s.blueprint_id = b.id
+JOIN (VALUES
+    ('1', '1.1', 'Ultrasound Physics', 1),
+    ('1', '1.2', 'Image Optimization', 2),
+    ('1', '1.3', 'Standard Views', 3),
+    ('1', '1.4', 'Doppler Techniques', 4),
+    ('2', '2.1', 'LV Function and Geometry', 1),
+    ('2', '2.2', 'LA Assessment', 2),
+    ('2', '2.3', 'Mitral Valve Evaluation', 3),
+    ('2', '2.4', 'Aortic Valve Assessment', 4),
+    ('3', '3.1', 'RV Function Assessment', 1),
+    ('3', '3.2', 'RA Evaluation', 2),
+    ('3', '3.3', 'Tricuspid Valve Assessment', 3),
+    ('3', '3.4', 'Pulmonary Assessment', 4),
+    ('4', '4.1', 'Pressure Measurements', 1),
+    ('4', '4.2', 'Flow Quantification', 2),
+    ('4', '4.3', 'Shunt Assessment', 3),
+    ('4', '4.4', 'Valve Stenosis/Regurgitation', 4),
+    ('5', '5.1', 'Tissue Doppler', 1),
+    ('5', '5.2', 'Strain Echocardiography', 2),
+    ('5', '5.3', '3D Echocardiography', 3),
+    ('5', '5.4', 'Contrast Echocardiography', 4),
+    ('6', '6.1', 'Heart Failure Assessment', 1),
+    ('6', '6.2', 'Ischemic Heart Disease', 2),
+    ('6', '6.3', 'Cardioembolic Source', 3),
+    ('6', '6.4', 'Critical Care Echocardiography', 4)
+) AS t(section_number, number, name, display_order) ON t.section_number = s.number
+WHERE b.name = 'EACTVI'
+ON CONFLICT (section_id, number) DO NOTHING;
@@ -0,0 +1,13 @@
+-- How many approved questions each part of a blueprint should have, for the coverage report.
+-- A section or subtopic either gets a fixed target_count or a weight: weights share out the
+-- parent's target (the blueprint's target_total for sections, the section's target for subtopics).
+ALTER TABLE exam_blueprints
+ADD COLUMN IF NOT EXISTS target_total INTEGER CHECK (target_total >= 0);
+
+ALTER TABLE exam_blueprint_sections
+ADD COLUMN IF NOT EXISTS target_count INTEGER CHECK (target_count >= 0),
+ADD COLUMN IF NOT EXISTS weight NUMERIC(6,2) CHECK (weight >= 0);
+
+ALTER TABLE exam_blueprint_subtopics
+ADD COLUMN IF NOT EXISTS target_count INTEGER CHECK (target_count >= 0),
+ADD COLUMN IF NOT EXISTS weight NUMERIC(6,2) CHECK (weight >= 0);
@@ -0,0 +1,22 @@
+-- Vector markup (arrows, circles, labels) drawn over an image. A layer with no question_image_id
+-- belongs to the image itself; one tied to a question_images row only shows with that question and
+-- takes precedence over the image's own layer there.
+CREATE TABLE IF NOT EXISTS image_annotations (
+    id SERIAL PRIMARY KEY,
+    image_id INTEGER NOT NULL REFERENCES images(id) ON DELETE CASCADE,
+    question_image_id INTEGER REFERENCES question_images(id) ON DELETE CASCADE,
+    -- Array of shapes with coordinates as fractions (0-1) of the image's width and height
+    shapes JSONB NOT NULL DEFAULT '[]',
+    -- Keep the markup hidden in question views until the explanation is shown
+    reveal_after_answer BOOLEAN NOT NULL DEFAULT true,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One layer per image and one per question association
+CREATE UNIQUE INDEX IF NOT EXISTS idx_image_annotations_image_layer
+    ON image_annotations(image_id) WHERE question_image_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_image_annotations_question_layer
+    ON image_annotations(question_image_id) WHERE question_image_id IS NOT NULL;
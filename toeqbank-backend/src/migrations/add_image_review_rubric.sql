@@ -0,0 +1,20 @@
+-- Notes to the contributor for the latest image review, and when the file was last replaced
+ALTER TABLE images ADD COLUMN IF NOT EXISTS review_notes TEXT;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS replaced_at TIMESTAMP WITH TIME ZONE;
+
+-- Every review of an image with a score from 0 to 10 per criterion. The images row keeps the latest
+-- outcome; a replacement file sends the image back to pending and earlier reviews stay here.
+CREATE TABLE IF NOT EXISTS image_reviews (
+    id SERIAL PRIMARY KEY,
+    image_id INTEGER NOT NULL REFERENCES images(id) ON DELETE CASCADE,
+    reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('approved', 'returned', 'rejected')),
+    diagnostic_quality INTEGER NOT NULL CHECK (diagnostic_quality BETWEEN 0 AND 10),
+    deidentification INTEGER NOT NULL CHECK (deidentification BETWEEN 0 AND 10),
+    view_labelling INTEGER NOT NULL CHECK (view_labelling BETWEEN 0 AND 10),
+    licensing_clarity INTEGER NOT NULL CHECK (licensing_clarity BETWEEN 0 AND 10),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_reviews_image ON image_reviews(image_id, created_at DESC);
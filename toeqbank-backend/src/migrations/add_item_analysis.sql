@@ -0,0 +1,22 @@
+-- Classical test theory statistics per question, refreshed whenever a test session is completed
+CREATE TABLE IF NOT EXISTS question_item_statistics (
+    question_id INTEGER PRIMARY KEY REFERENCES questions(id) ON DELETE CASCADE,
+    responses INTEGER NOT NULL DEFAULT 0,
+    correct INTEGER NOT NULL DEFAULT 0,
+    -- Proportion of responses that were correct (item difficulty)
+    p_value DECIMAL(5,4),
+    -- Correlation between getting this item right and the rest of the session's score
+    point_biserial DECIMAL(5,4),
+    -- Selection count for each choice letter, e.g. {"A": 12, "B": 3}
+    choice_counts JSONB NOT NULL DEFAULT '{}',
+    -- e.g. 'negative_discrimination', 'unused_distractor:C'
+    flag_reasons TEXT[] NOT NULL DEFAULT '{}',
+    flagged_at TIMESTAMP WITH TIME ZONE,
+    -- A reviewer can dismiss a flag; it only comes back if new reasons appear
+    dismissed_reasons TEXT[] NOT NULL DEFAULT '{}',
+    dismissed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    dismissed_at TIMESTAMP WITH TIME ZONE,
+    computed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_item_statistics_flagged ON question_item_statistics(flagged_at) WHERE flagged_at IS NOT NULL;
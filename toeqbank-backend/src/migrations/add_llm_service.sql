@@ -0,0 +1,53 @@
+-- Versioned prompts for each LLM feature. The server stores its built-in prompt as version 1 the first
+-- time a feature runs; admins add versions and choose which one is live.
+CREATE TABLE IF NOT EXISTS llm_prompt_templates (
+    id SERIAL PRIMARY KEY,
+    feature VARCHAR(50) NOT NULL,
+    version INTEGER NOT NULL,
+    template TEXT NOT NULL,
+    output_schema JSONB,
+    max_tokens INTEGER NOT NULL DEFAULT 1000 CHECK (max_tokens > 0),
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (feature, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_llm_prompt_templates_active ON llm_prompt_templates(feature) WHERE is_active;
+
+-- Responses keyed by a hash of the client, model, template version and rendered prompt, so the same
+-- question sent twice is only paid for once
+CREATE TABLE IF NOT EXISTS llm_response_cache (
+    request_hash CHAR(64) PRIMARY KEY,
+    feature VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    response TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    hits INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_hit_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_response_cache_feature ON llm_response_cache(feature, created_at);
+
+-- One row per LLM call, including cache hits and failures, for metering by user and feature
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    feature VARCHAR(50) NOT NULL,
+    client VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    template_version INTEGER,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+    cached BOOLEAN NOT NULL DEFAULT false,
+    outcome VARCHAR(20) NOT NULL DEFAULT 'ok' CHECK (outcome IN ('ok', 'invalid', 'error')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user ON llm_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_feature ON llm_usage(feature, created_at);
@@ -0,0 +1,7 @@
+-- Timed mock exam mode for test sessions
+ALTER TABLE test_sessions
+ADD COLUMN IF NOT EXISTS mode VARCHAR(20) NOT NULL DEFAULT 'practice' CHECK (mode IN ('practice', 'exam')),
+ADD COLUMN IF NOT EXISTS time_limit_seconds INTEGER,
+ADD COLUMN IF NOT EXISTS flagged_question_ids INTEGER[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS paused_seconds INTEGER NOT NULL DEFAULT 0;
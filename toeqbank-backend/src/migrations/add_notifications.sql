@@ -0,0 +1,21 @@
+-- In-app notifications for authors, reviewers and admins
+CREATE TABLE IF NOT EXISTS notifications (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL CHECK (type IN (
+        'question_approved', 'question_returned', 'question_rejected', 'question_escalated',
+        'image_reviewed', 'image_supplied', 'batch_uploaded', 'batch_assigned'
+    )),
+    title VARCHAR(255) NOT NULL,
+    message TEXT,
+    -- Frontend path the notification opens
+    link VARCHAR(500),
+    question_id INTEGER REFERENCES questions(id) ON DELETE CASCADE,
+    image_id INTEGER REFERENCES images(id) ON DELETE CASCADE,
+    batch_id INTEGER REFERENCES upload_batches(id) ON DELETE CASCADE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
@@ -0,0 +1,10 @@
+-- Burned-in patient details check for uploaded images. New stills are OCR'd after upload; flagged
+-- regions are fractions of the image size and the text that was read is never stored.
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phi_status VARCHAR(20) NOT NULL DEFAULT 'unscanned'
+    CHECK (phi_status IN ('pending', 'flagged', 'clear', 'redacted', 'unscanned'));
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phi_regions JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phi_checked_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE images ADD COLUMN IF NOT EXISTS phi_checked_at TIMESTAMP WITH TIME ZONE;
+
+-- Images already approved were looked at by a reviewer before this check existed
+UPDATE images SET phi_status = 'clear' WHERE review_status = 'approved' AND phi_status = 'unscanned';
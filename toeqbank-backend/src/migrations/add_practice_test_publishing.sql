@@ -0,0 +1,13 @@
+-- Curated, publishable named practice tests
+ALTER TABLE practice_tests
+ADD COLUMN IF NOT EXISTS exam_category VARCHAR(50),
+ADD COLUMN IF NOT EXISTS exam_type VARCHAR(50),
+ADD COLUMN IF NOT EXISTS time_limit_minutes INTEGER,
+ADD COLUMN IF NOT EXISTS is_published BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+-- Students list the published tests for their exam
+CREATE INDEX IF NOT EXISTS idx_practice_tests_published ON practice_tests(exam_category, exam_type, is_published);
+CREATE INDEX IF NOT EXISTS idx_test_questions_test_order ON test_questions(test_id, question_order);
+CREATE INDEX IF NOT EXISTS idx_test_sessions_test_id ON test_sessions(test_id);
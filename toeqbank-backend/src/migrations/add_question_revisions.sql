@@ -0,0 +1,72 @@
+-- Immutable revision history for questions, their metadata, exam assignments and image links
+CREATE TABLE IF NOT EXISTS question_revisions (
+    id SERIAL PRIMARY KEY,
+    question_id INTEGER NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    snapshot JSONB NOT NULL,
+    change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('initial', 'create', 'edit', 'metadata', 'exams', 'images', 'restore')),
+    restored_from INTEGER REFERENCES question_revisions(id),
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(question_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_revisions_question_id ON question_revisions(question_id, revision_number DESC);
+
+-- Everything a revision captures about one question, in a stable order so snapshots compare equal when nothing changed
+CREATE OR REPLACE FUNCTION question_revision_snapshot(p_question_id INTEGER) RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'question', jsonb_build_object(
+            'question', q.question,
+            'choice_a', q.choice_a,
+            'choice_b', q.choice_b,
+            'choice_c', q.choice_c,
+            'choice_d', q.choice_d,
+            'choice_e', q.choice_e,
+            'choice_f', q.choice_f,
+            'choice_g', q.choice_g,
+            'correct_answer', q.correct_answer,
+            'explanation', q.explanation,
+            'source_folder', q.source_folder
+        ),
+        'metadata', (
+            SELECT jsonb_build_object(
+                'difficulty', m.difficulty,
+                'category', m.category,
+                'topic', m.topic,
+                'keywords', m.keywords,
+                'question_type', m.question_type,
+                'view_type', m.view_type,
+                'major_structures', m.major_structures,
+                'minor_structures', m.minor_structures,
+                'modalities', m.modalities
+            )
+            FROM question_metadata m WHERE m.question_id = q.id
+        ),
+        'exams', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'exam_name', e.exam_name,
+                'subtopics', e.subtopics,
+                'reasoning', e.reasoning
+            ) ORDER BY e.exam_name)
+            FROM question_exam_assignments e WHERE e.question_id = q.id
+        ), '[]'::jsonb),
+        'images', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'image_id', qi.image_id,
+                'display_order', qi.display_order,
+                'usage_type', qi.usage_type
+            ) ORDER BY qi.image_id)
+            FROM question_images qi
+            WHERE qi.question_id = q.id
+        ), '[]'::jsonb)
+    )
+    FROM questions q
+    WHERE q.id = p_question_id
+$$ LANGUAGE sql STABLE;
+
+-- Starting point for questions that existed before revisions were recorded
+INSERT INTO question_revisions (question_id, revision_number, snapshot, change_type, created_by, created_at)
+SELECT q.id, 1, question_revision_snapshot(q.id), 'initial', q.uploaded_by, COALESCE(q.updated_at, q.created_at)
+FROM questions q
+WHERE NOT EXISTS (SELECT 1 FROM question_revisions r WHERE r.question_id = q.id);
@@ -0,0 +1,75 @@
+-- Full-text search over questions, their choices and explanation, metadata keywords and image descriptions
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Weighted document for one question: stem A, choices and keywords B, explanation C, image descriptions D
+CREATE OR REPLACE FUNCTION question_search_document(
+    p_question_id INTEGER,
+    p_question TEXT,
+    p_choices TEXT,
+    p_explanation TEXT
+) RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('english', COALESCE(p_question, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(p_choices, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE((
+            SELECT array_to_string(keywords, ' ') FROM question_metadata WHERE question_id = p_question_id
+        ), '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(p_explanation, '')), 'C') ||
+        setweight(to_tsvector('english', COALESCE((
+            SELECT string_agg(description, ' ') FROM image_descriptions WHERE question_id = p_question_id
+        ), '')), 'D')
+$$ LANGUAGE sql STABLE;
+
+-- Keep the choices in one place so the triggers and the backfill agree
+CREATE OR REPLACE FUNCTION question_choices_text(q questions) RETURNS TEXT AS $$
+    SELECT concat_ws(' ', q.choice_a, q.choice_b, q.choice_c, q.choice_d, q.choice_e, q.choice_f, q.choice_g)
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION refresh_question_search_vector(p_question_id INTEGER) RETURNS VOID AS $$
+    UPDATE questions q
+    SET search_vector = question_search_document(q.id, q.question, question_choices_text(q), q.explanation)
+    WHERE q.id = p_question_id
+$$ LANGUAGE sql;
+
+-- Questions: rebuild on insert and whenever searchable text changes
+CREATE OR REPLACE FUNCTION questions_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+    NEW.search_vector := question_search_document(NEW.id, NEW.question, question_choices_text(NEW), NEW.explanation);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS questions_search_vector_update ON questions;
+CREATE TRIGGER questions_search_vector_update
+    BEFORE INSERT OR UPDATE OF question, choice_a, choice_b, choice_c, choice_d, choice_e, choice_f, choice_g, explanation
+    ON questions
+    FOR EACH ROW EXECUTE FUNCTION questions_search_vector_trigger();
+
+-- Metadata keywords and image descriptions live in other tables; refresh the owning question
+CREATE OR REPLACE FUNCTION related_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM refresh_question_search_vector(OLD.question_id);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM refresh_question_search_vector(NEW.question_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS question_metadata_search_vector_update ON question_metadata;
+CREATE TRIGGER question_metadata_search_vector_update
+    AFTER INSERT OR UPDATE OR DELETE ON question_metadata
+    FOR EACH ROW EXECUTE FUNCTION related_search_vector_trigger();
+
+DROP TRIGGER IF EXISTS image_descriptions_search_vector_update ON image_descriptions;
+CREATE TRIGGER image_descriptions_search_vector_update
+    AFTER INSERT OR UPDATE OR DELETE ON image_descriptions
+    FOR EACH ROW EXECUTE FUNCTION related_search_vector_trigger();
+
+-- Backfill existing questions
+UPDATE questions q
+SET search_vector = question_search_document(q.id, q.question, question_choices_text(q), q.explanation);
+
+CREATE INDEX IF NOT EXISTS idx_questions_search_vector ON questions USING GIN(search_vector);
@@ -0,0 +1,23 @@
+-- Threaded review comments, each thread anchored to a part of the question
+CREATE TABLE IF NOT EXISTS review_comments (
+    id SERIAL PRIMARY KEY,
+    question_id INTEGER NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    -- NULL for the comment that starts a thread; replies point at it
+    parent_id INTEGER REFERENCES review_comments(id) ON DELETE CASCADE,
+    -- Anchor and resolution only apply to the thread's first comment
+    anchor_type VARCHAR(20) CHECK (anchor_type IN ('question', 'choice', 'explanation', 'image', 'general')),
+    anchor_choice CHAR(1) CHECK (anchor_choice IN ('A', 'B', 'C', 'D', 'E', 'F', 'G')),
+    anchor_image_id INTEGER REFERENCES images(id) ON DELETE SET NULL,
+    -- Set when the thread was started by a review decision's notes
+    review_decision VARCHAR(20) CHECK (review_decision IN ('approved', 'rejected', 'returned')),
+    body TEXT NOT NULL,
+    author_id INTEGER REFERENCES users(id),
+    resolved_by INTEGER REFERENCES users(id),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((parent_id IS NULL) = (anchor_type IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_comments_question_id ON review_comments(question_id);
+CREATE INDEX IF NOT EXISTS idx_review_comments_parent_id ON review_comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_review_comments_open ON review_comments(question_id) WHERE parent_id IS NULL AND resolved_at IS NULL;
@@ -0,0 +1,3 @@
+-- The review round a thread was started in, so reviewers can't read each other's threads on a
+-- question before voting on it. Threads from before this have no round and stay visible.
+ALTER TABLE review_comments ADD COLUMN IF NOT EXISTS review_round INTEGER;
@@ -0,0 +1,45 @@
+-- Multi-reviewer consensus: each reviewer votes independently and a question's
+-- review status is derived from the votes cast in its current review round
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_review_status_check;
+ALTER TABLE questions ADD CONSTRAINT questions_review_status_check
+    CHECK (review_status IN ('pending', 'pending submission', 'approved', 'rejected', 'returned', 'escalated'));
+
+-- A returned or rejected question starts a new round, so reviewers can vote on the reworked version
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS review_round INTEGER NOT NULL DEFAULT 1;
+
+-- Approvals needed per exam type; exam types without a row need one
+CREATE TABLE IF NOT EXISTS review_quorums (
+    exam_type VARCHAR(50) PRIMARY KEY,
+    required_approvals INTEGER NOT NULL DEFAULT 1 CHECK (required_approvals BETWEEN 1 AND 5),
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS question_review_votes (
+    id SERIAL PRIMARY KEY,
+    question_id INTEGER NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    review_round INTEGER NOT NULL,
+    reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    decision VARCHAR(20) NOT NULL CHECK (decision IN ('approved', 'rejected', 'returned')),
+    notes TEXT,
+    difficulty_rating INTEGER CHECK (difficulty_rating BETWEEN 1 AND 5),
+    -- An admin's ruling on an escalated question, which overrides the round's votes
+    is_adjudication BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One vote per reviewer per round
+CREATE UNIQUE INDEX IF NOT EXISTS idx_question_review_votes_reviewer
+    ON question_review_votes(question_id, review_round, reviewer_id) WHERE NOT is_adjudication;
+CREATE INDEX IF NOT EXISTS idx_question_review_votes_question ON question_review_votes(question_id, review_round);
+
+-- Decisions made before consensus become the only vote of round 1
+INSERT INTO question_review_votes (question_id, review_round, reviewer_id, decision, notes, difficulty_rating, created_at)
+SELECT q.id, 1, q.reviewed_by, q.review_status, NULLIF(q.review_notes, ''), q.difficulty_rating, COALESCE(q.reviewed_at, q.updated_at)
+FROM questions q
+WHERE q.review_status IN ('approved', 'rejected', 'returned')
+  AND NOT EXISTS (SELECT 1 FROM question_review_votes v WHERE v.question_id = q.id);
+
+UPDATE questions SET review_round = 2
+WHERE review_status IN ('rejected', 'returned') AND review_round = 1;
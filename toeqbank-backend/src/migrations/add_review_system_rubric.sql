@@ -0,0 +1,32 @@
+-- Configurable rubric of reasons a reviewer can give for returning or rejecting a question
+CREATE TABLE IF NOT EXISTS review_rubric_criteria (
+    code VARCHAR(50) PRIMARY KEY,
+    label VARCHAR(100) NOT NULL,
+    description TEXT,
+    -- Reviewers may score each selected criterion from 1 (minor) to max_score (severe)
+    max_score INTEGER NOT NULL DEFAULT 5 CHECK (max_score BETWEEN 1 AND 10),
+    display_order INTEGER NOT NULL DEFAULT 0,
+    -- Retired criteria stay for past reviews but are no longer offered
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO review_rubric_criteria (code, label, description, display_order) VALUES
+    ('factual_error', 'Factual error', 'The stem, answer or explanation states something incorrect', 1),
+    ('ambiguous_stem', 'Ambiguous stem', 'The question can reasonably be read more than one way', 2),
+    ('multiple_correct_answers', 'More than one correct answer', 'A distractor is also defensible as correct', 3),
+    ('poor_image_quality', 'Poor image quality', 'The image is unclear, mislabelled or does not show the finding', 4),
+    ('copyright_concern', 'Copyright concern', 'Text or images may be copied from a protected source', 5),
+    ('off_blueprint', 'Off blueprint', 'The topic is outside the exam''s blueprint', 6)
+ON CONFLICT (code) DO NOTHING;
+
+-- Criteria selected with each review vote
+CREATE TABLE IF NOT EXISTS question_review_vote_reasons (
+    vote_id INTEGER NOT NULL REFERENCES question_review_votes(id) ON DELETE CASCADE,
+    criterion_code VARCHAR(50) NOT NULL REFERENCES review_rubric_criteria(code) ON UPDATE CASCADE,
+    score INTEGER,
+    PRIMARY KEY (vote_id, criterion_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_review_vote_reasons_code ON question_review_vote_reasons(criterion_code);
@@ -0,0 +1,21 @@
+-- Review queue assignment: reviewers claim one question at a time under an expiring lease,
+-- and admins can route whole upload batches to a reviewer
+
+-- One claim per question; an expired claim counts as free and is overwritten by the next reviewer
+CREATE TABLE IF NOT EXISTS review_claims (
+    question_id INTEGER PRIMARY KEY REFERENCES questions(id) ON DELETE CASCADE,
+    reviewer_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_claims_reviewer ON review_claims(reviewer_id, expires_at);
+
+-- Batches assigned to a reviewer are only offered to that reviewer
+ALTER TABLE upload_batches
+ADD COLUMN IF NOT EXISTS assigned_reviewer_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE;
+
+-- When the vote's claim started, for reviewer turnaround times
+ALTER TABLE question_review_votes
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
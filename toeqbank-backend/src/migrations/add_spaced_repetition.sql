@@ -0,0 +1,19 @@
+-- Per-user, per-question SM-2 scheduling state for spaced-repetition review
+CREATE TABLE IF NOT EXISTS question_review_schedules (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+    question_id INTEGER REFERENCES questions(id) ON DELETE CASCADE NOT NULL,
+    ease_factor DECIMAL(4,2) NOT NULL DEFAULT 2.50,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    lapses INTEGER NOT NULL DEFAULT 0,
+    due_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    last_quality INTEGER CHECK (last_quality BETWEEN 0 AND 5),
+    last_reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, question_id)
+);
+
+-- The due queue is always read per user, ordered by due date
+CREATE INDEX IF NOT EXISTS idx_question_review_schedules_user_due ON question_review_schedules(user_id, due_date);
@@ -0,0 +1,11 @@
+-- Track practice test sessions server-side so answers survive refreshes and device changes
+ALTER TABLE test_sessions
+ADD COLUMN IF NOT EXISTS question_ids INTEGER[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS current_question_index INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_time_seconds INTEGER;
+
+-- One stored answer per question per session (changing an answer overwrites it)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_responses_session_question ON user_responses(session_id, question_id);
+
+-- Fast lookup of a user's unfinished sessions
+CREATE INDEX IF NOT EXISTS idx_test_sessions_user_active ON test_sessions(user_id, started_at DESC) WHERE completed_at IS NULL;
@@ -0,0 +1,361 @@
+import pool, { query } from './database';
+import { QuestionMetadata } from './QuestionMetadata';
+
+export type EnrichmentTask = 'metadata' | 'exams';
+
+export const ENRICHMENT_TASKS: EnrichmentTask[] = ['metadata', 'exams'];
+
+export type EnrichmentJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+export type EnrichmentItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface EnrichmentJob {
+  id: number;
+  requested_by?: number | null;
+  requested_by_username?: string | null;
+  tasks: EnrichmentTask[];
+  status: EnrichmentJobStatus;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  // Item counts by status
+  total: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  created_at: Date;
+  started_at?: Date | null;
+  finished_at?: Date | null;
+}
+
+export interface EnrichmentItem {
+  id: number;
+  job_id: number;
+  question_id: number;
+  question_number?: string | null;
+  status: EnrichmentItemStatus;
+  attempts: number;
+  metadata_done: boolean;
+  exams_done: boolean;
+  last_error?: string | null;
+  next_attempt_at: Date;
+  updated_at: Date;
+}
+
+// What the AI Manipulation page shows per question, straight from the tables the job writes to
+export interface EnrichmentQuestionStatus {
+  id: number;
+  question_number?: string | null;
+  question: string;
+  has_metadata: boolean;
+  has_exam_mapping: boolean;
+  // The question's item in its most recent job, if any
+  last_job_id?: number | null;
+  last_status?: EnrichmentItemStatus | null;
+  last_error?: string | null;
+}
+
+// Exam assignments as the questions route stores them: subtopics as "section: name"
+export interface EnrichmentExamAssignment {
+  examName: string;
+  subtopics: { name: string; section?: string }[];
+  reasoning?: string;
+}
+
+const JOB_SELECT = `
+  SELECT j.*, u.username as requested_by_username, counts.*
+  FROM ai_enrichment_jobs j
+  LEFT JOIN users u ON u.id = j.requested_by
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) as total,
+      COUNT(*) FILTER (WHERE i.status = 'pending') as pending,
+      COUNT(*) FILTER (WHERE i.status = 'running') as running,
+      COUNT(*) FILTER (WHERE i.status = 'succeeded') as succeeded,
+      COUNT(*) FILTER (WHERE i.status = 'failed') as failed,
+      COUNT(*) FILTER (WHERE i.status = 'cancelled') as cancelled
+    FROM ai_enrichment_items i
+    WHERE i.job_id = j.id
+  ) counts
+`;
+
+// COUNT and NUMERIC come back from pg as strings
+const jobFromRow = (row: any): EnrichmentJob => ({
+  ...row,
+  cost_usd: parseFloat(row.cost_usd),
+  total: parseInt(row.total),
+  pending: parseInt(row.pending),
+  running: parseInt(row.running),
+  succeeded: parseInt(row.succeeded),
+  failed: parseInt(row.failed),
+  cancelled: parseInt(row.cancelled)
+});
+
+export class AIEnrichmentJobModel {
+  // Returns null if none of the questions exist
+  static async create(requestedBy: number, questionIds: number[], tasks: EnrichmentTask[]): Promise<EnrichmentJob | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const jobResult = await client.query(
+        'INSERT INTO ai_enrichment_jobs (requested_by, tasks) VALUES ($1, $2) RETURNING id',
+        [requestedBy, tasks]
+      );
+      const jobId = jobResult.rows[0].id;
+
+      // Ids that no longer exist are dropped rather than failing the whole batch
+      const itemResult = await client.query(`
+        INSERT INTO ai_enrichment_items (job_id, question_id)
+        SELECT $1, q.id FROM questions q WHERE q.id = ANY($2::int[])
+        ON CONFLICT (job_id, question_id) DO NOTHING
+      `, [jobId, questionIds]);
+      if (itemResult.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query('COMMIT');
+      return (await AIEnrichmentJobModel.findById(jobId))!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async findById(id: number): Promise<EnrichmentJob | null> {
+    const result = await query(`${JOB_SELECT} WHERE j.id = $1`, [id]);
+    return result.rows[0] ? jobFromRow(result.rows[0]) : null;
+  }
+
+  static async findRecent(limit = 10): Promise<EnrichmentJob[]> {
+    const result = await query(`${JOB_SELECT} ORDER BY j.created_at DESC LIMIT $1`, [limit]);
+    return result.rows.map(jobFromRow);
+  }
+
+  static async getFailedItems(jobId: number): Promise<EnrichmentItem[]> {
+    const result = await query(`
+      SELECT i.*, q.question_number
+      FROM ai_enrichment_items i
+      JOIN questions q ON q.id = i.question_id
+      WHERE i.job_id = $1 AND i.status = 'failed'
+      ORDER BY i.id
+    `, [jobId]);
+    return result.rows;
+  }
+
+  // Take the next question that is due, oldest job first. SKIP LOCKED keeps two workers off the same item.
+  static async claimNextItem(): Promise<(EnrichmentItem & { tasks: EnrichmentTask[]; requested_by: number | null }) | null> {
+    const result = await query(`
+      WITH next_item AS (
+        SELECT i.id
+        FROM ai_enrichment_items i
+        JOIN ai_enrichment_jobs j ON j.id = i.job_id
+        WHERE i.status = 'pending' AND i.next_attempt_at <= NOW() AND j.status IN ('queued', 'running')
+        ORDER BY j.created_at, i.id
+        LIMIT 1
+        FOR UPDATE OF i SKIP LOCKED
+      )
+      UPDATE ai_enrichment_items i
+      SET status = 'running', attempts = i.attempts + 1, updated_at = NOW()
+      FROM next_item
+      WHERE i.id = next_item.id
+      RETURNING i.*
+    `);
+    const item = result.rows[0];
+    if (!item) {
+      return null;
+    }
+
+    const jobResult = await query(`
+      UPDATE ai_enrichment_jobs
+      SET status = 'running', started_at = COALESCE(started_at, NOW())
+      WHERE id = $1 AND status IN ('queued', 'running')
+      RETURNING tasks, requested_by
+    `, [item.job_id]);
+    if (!jobResult.rows[0]) {
+      // Cancelled between the two statements
+      await query(`UPDATE ai_enrichment_items SET status = 'cancelled', updated_at = NOW() WHERE id = $1`, [item.id]);
+      return null;
+    }
+    return { ...item, ...jobResult.rows[0] };
+  }
+
+  static async saveMetadata(itemId: number, metadata: Omit<QuestionMetadata, 'id' | 'created_at' | 'updated_at'>): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`
+        INSERT INTO question_metadata (
+          question_id, difficulty, category, topic, keywords,
+          question_type, view_type, major_structures, minor_structures, modalities
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (question_id)
+        DO UPDATE SET
+          difficulty = EXCLUDED.difficulty,
+          category = EXCLUDED.category,
+          topic = EXCLUDED.topic,
+          keywords = EXCLUDED.keywords,
+          question_type = EXCLUDED.question_type,
+          view_type = EXCLUDED.view_type,
+          major_structures = EXCLUDED.major_structures,
+          minor_structures = EXCLUDED.minor_structures,
+          modalities = EXCLUDED.modalities,
+          updated_at = CURRENT_TIMESTAMP
+      `, [
+        metadata.question_id,
+        metadata.difficulty,
+        metadata.category,
+        metadata.topic,
+        metadata.keywords || [],
+        metadata.question_type,
+        metadata.view_type || null,
+        metadata.major_structures || [],
+        metadata.minor_structures || [],
+        metadata.modalities || []
+      ]);
+      await client.query('UPDATE ai_enrichment_items SET metadata_done = true, updated_at = NOW() WHERE id = $1', [itemId]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Replaces the question's assignments, like saving them from the question editor
+  static async saveExamAssignments(itemId: number, questionId: number, exams: EnrichmentExamAssignment[]): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM question_exam_assignments WHERE question_id = $1', [questionId]);
+      for (const exam of exams) {
+        await client.query(`
+          INSERT INTO question_exam_assignments (question_id, exam_name, subtopics, reasoning, updated_at)
+          VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+        `, [
+          questionId,
+          exam.examName,
+          exam.subtopics.map(subtopic => subtopic.section ? `${subtopic.section}: ${subtopic.name}` : subtopic.name),
+          exam.reasoning || null
+        ]);
+      }
+      await client.query('UPDATE ai_enrichment_items SET exams_done = true, updated_at = NOW() WHERE id = $1', [itemId]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async addUsage(jobId: number, inputTokens: number, outputTokens: number, costUsd: number): Promise<void> {
+    await query(`
+      UPDATE ai_enrichment_jobs
+      SET input_tokens = input_tokens + $2, output_tokens = output_tokens + $3, cost_usd = cost_usd + $4
+      WHERE id = $1
+    `, [jobId, inputTokens, outputTokens, costUsd]);
+  }
+
+  // An item cancelled while it was running stays cancelled
+  static async finishItem(itemId: number, status: 'succeeded' | 'failed', error?: string | null): Promise<void> {
+    await query(`
+      UPDATE ai_enrichment_items
+      SET status = $2, last_error = $3, updated_at = NOW()
+      WHERE id = $1 AND status = 'running'
+    `, [itemId, status, error || null]);
+  }
+
+  // Put an item back in the queue to try again after the delay. Rate limits don't count as an attempt.
+  static async requeueItem(itemId: number, delayMs: number, error: string, countAttempt: boolean): Promise<void> {
+    await query(`
+      UPDATE ai_enrichment_items
+      SET status = 'pending', last_error = $2, attempts = attempts - $3,
+        next_attempt_at = NOW() + ($4 || ' milliseconds')::interval, updated_at = NOW()
+      WHERE id = $1 AND status = 'running'
+    `, [itemId, error, countAttempt ? 0 : 1, Math.round(delayMs)]);
+  }
+
+  // Mark the job done once nothing is left to do
+  static async completeIfFinished(jobId: number): Promise<void> {
+    await query(`
+      UPDATE ai_enrichment_jobs
+      SET status = 'completed', finished_at = NOW()
+      WHERE id = $1 AND status = 'running'
+        AND NOT EXISTS (
+          SELECT 1 FROM ai_enrichment_items i WHERE i.job_id = $1 AND i.status IN ('pending', 'running')
+        )
+    `, [jobId]);
+  }
+
+  // Stops the job after the question in progress; returns null if it had already finished
+  static async cancel(jobId: number): Promise<EnrichmentJob | null> {
+    const result = await query(`
+      UPDATE ai_enrichment_jobs
+      SET status = 'cancelled', finished_at = NOW()
+      WHERE id = $1 AND status IN ('queued', 'running')
+      RETURNING id
+    `, [jobId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    await query(`
+      UPDATE ai_enrichment_items SET status = 'cancelled', updated_at = NOW()
+      WHERE job_id = $1 AND status = 'pending'
+    `, [jobId]);
+    return AIEnrichmentJobModel.findById(jobId);
+  }
+
+  // Queue the failed and cancelled questions again with a fresh set of attempts. Steps that already
+  // succeeded are not repeated.
+  static async retry(jobId: number): Promise<EnrichmentJob | null> {
+    const result = await query(`
+      UPDATE ai_enrichment_items
+      SET status = 'pending', attempts = 0, last_error = NULL, next_attempt_at = NOW(), updated_at = NOW()
+      WHERE job_id = $1 AND status IN ('failed', 'cancelled')
+    `, [jobId]);
+    if (result.rowCount === 0) {
+      return null;
+    }
+    await query(`
+      UPDATE ai_enrichment_jobs
+      SET status = CASE WHEN status = 'running' THEN 'running' ELSE 'queued' END, finished_at = NULL
+      WHERE id = $1
+    `, [jobId]);
+    return AIEnrichmentJobModel.findById(jobId);
+  }
+
+  // Items left running by a server that stopped mid-question
+  static async requeueInterrupted(): Promise<number> {
+    const result = await query(`
+      UPDATE ai_enrichment_items SET status = 'pending', attempts = GREATEST(attempts - 1, 0), updated_at = NOW()
+      WHERE status = 'running'
+    `);
+    return result.rowCount;
+  }
+
+  static async getQuestionStatuses(limit = 1000): Promise<EnrichmentQuestionStatus[]> {
+    const result = await query(`
+      SELECT q.id, q.question_number, q.question,
+        EXISTS (SELECT 1 FROM question_metadata m WHERE m.question_id = q.id) as has_metadata,
+        EXISTS (SELECT 1 FROM question_exam_assignments qea WHERE qea.question_id = q.id) as has_exam_mapping,
+        latest.job_id as last_job_id, latest.status as last_status, latest.last_error
+      FROM questions q
+      LEFT JOIN LATERAL (
+        SELECT i.job_id, i.status, i.last_error
+        FROM ai_enrichment_items i
+        WHERE i.question_id = q.id
+        ORDER BY i.job_id DESC
+        LIMIT 1
+      ) latest ON true
+      ORDER BY q.created_at DESC
+      LIMIT $1
+    `, [limit]);
+    return result.rows;
+  }
+}
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PoolClient } from 'pg';
+import pool from './database';
+import { AIGenerationRunModel, QuestionDraft } from './AIGenerationRun';
+
+// No database here: record each statement and answer inserts into questions with a new id
+const statements: { sql: string; params: any[] }[] = [];
+let released = false;
+let nextQuestionId = 40;
+
+const client = {
+  query: async (sql: string, params: any[] = []) => {
+    statements.push({ sql: sql.replace(/\s+/g, ' ').trim(), params });
+    if (sql.includes('INSERT INTO questions')) {
+      return { rows: [{ id: nextQuestionId++, question: params[0], review_status: 'pending submission', uploaded_by: params[10] }] };
+    }
+    return { rows: [] };
+  },
+  release: () => { released = true; }
+};
+pool.connect = async () => client as unknown as PoolClient;
+
+const draft = (question: string): QuestionDraft => ({
+  question,
+  choice_a: 'ME four-chamber',
+  choice_b: 'ME two-chamber',
+  choice_c: 'TG mid-papillary',
+  choice_d: 'ME AV short axis',
+  choice_e: 'UE aortic arch',
+  correct_answer: 'A',
+  explanation: 'Four chambers are seen'
+});
+
+test('saveDrafts stores each draft as a pending submission linked to its image and run', async () => {
+  const saved = await AIGenerationRunModel.saveDrafts(3, 12, [draft('First'), draft('Second')], {
+    uploaded_by: 5,
+    exam_category: 'echocardiography',
+    exam_type: 'eacvi_toe'
+  });
+
+  assert.deepEqual(saved.map(question => [question.id, question.question, question.source_image_id]), [[40, 'First', 12], [41, 'Second', 12]]);
+
+  const inserts = statements.filter(statement => statement.sql.startsWith('INSERT'));
+  assert.deepEqual(inserts.map(statement => statement.sql.split(' ')[2]), [
+    'questions', 'question_images', 'ai_generated_questions',
+    'questions', 'question_images', 'ai_generated_questions'
+  ]);
+  assert.ok(inserts[0].sql.includes("'pending submission'"));
+  assert.deepEqual(inserts[0].params, [
+    'First', 'ME four-chamber', 'ME two-chamber', 'TG mid-papillary', 'ME AV short axis', 'UE aortic arch',
+    'A', 'Four chambers are seen', 'echocardiography', 'eacvi_toe', 5
+  ]);
+  assert.ok(inserts[1].sql.includes("VALUES ($1, $2, 1, 'question')"));
+  assert.deepEqual(inserts[1].params, [40, 12]);
+  assert.deepEqual(inserts[2].params, [40, 3, 12]);
+  assert.deepEqual(inserts[4].params, [41, 12]);
+
+  assert.equal(statements[0].sql, 'BEGIN');
+  assert.equal(statements[statements.length - 1].sql, 'COMMIT');
+  assert.ok(released);
+});
@@ -0,0 +1,178 @@
+import pool, { query } from './database';
+import { Question } from './Question';
+
+export type AIGenerationRunStatus = 'running' | 'completed' | 'failed';
+
+export interface AIGenerationFailure {
+  image_id: number;
+  error: string;
+}
+
+export interface AIGenerationRun {
+  id: number;
+  requested_by?: number | null;
+  requested_by_username?: string | null;
+  client: string;
+  model: string;
+  image_ids: number[];
+  questions_per_image: number;
+  status: AIGenerationRunStatus;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  failures: AIGenerationFailure[];
+  question_count?: number;
+  created_at: Date;
+  completed_at?: Date | null;
+}
+
+export interface AIGenerationTotals {
+  runs: number;
+  questions: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export type GeneratedQuestion = Question & { source_image_id: number | null };
+
+// A single-best-answer question ready to be stored
+export type QuestionDraft = Pick<Question, 'question' | 'choice_a' | 'choice_b' | 'choice_c' | 'choice_d' | 'choice_e' | 'correct_answer' | 'explanation'>;
+
+// NUMERIC comes back from pg as a string
+const runFromRow = (row: any): AIGenerationRun => ({
+  ...row,
+  cost_usd: parseFloat(row.cost_usd),
+  question_count: row.question_count === undefined ? undefined : parseInt(row.question_count)
+});
+
+const RUN_SELECT = `
+  SELECT r.*, u.username as requested_by_username,
+    (SELECT COUNT(*) FROM ai_generated_questions g WHERE g.run_id = r.id) as question_count
+  FROM ai_generation_runs r
+  LEFT JOIN users u ON u.id = r.requested_by
+`;
+
+export class AIGenerationRunModel {
+  static async start(requestedBy: number, client: string, model: string, imageIds: number[], questionsPerImage: number): Promise<AIGenerationRun> {
+    const result = await query(`
+      INSERT INTO ai_generation_runs (requested_by, client, model, image_ids, questions_per_image)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `, [requestedBy, client, model, imageIds, questionsPerImage]);
+    return runFromRow(result.rows[0]);
+  }
+
+  // Store one image's drafts as questions waiting for their author to submit them, linked to the image
+  static async saveDrafts(
+    runId: number,
+    imageId: number,
+    drafts: QuestionDraft[],
+    owner: Pick<Question, 'uploaded_by' | 'exam_category' | 'exam_type'>
+  ): Promise<GeneratedQuestion[]> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const saved: GeneratedQuestion[] = [];
+
+      for (const draft of drafts) {
+        const questionResult = await client.query(`
+          INSERT INTO questions (question, choice_a, choice_b, choice_c, choice_d, choice_e, correct_answer, explanation, exam_category, exam_type, review_status, uploaded_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending submission', $11)
+          RETURNING *
+        `, [
+          draft.question,
+          draft.choice_a || null,
+          draft.choice_b || null,
+          draft.choice_c || null,
+          draft.choice_d || null,
+          draft.choice_e || null,
+          draft.correct_answer,
+          draft.explanation || null,
+          owner.exam_category || 'echocardiography',
+          owner.exam_type || 'eacvi_toe',
+          owner.uploaded_by
+        ]);
+        const question = questionResult.rows[0];
+
+        await client.query(`
+          INSERT INTO question_images (question_id, image_id, display_order, usage_type)
+          VALUES ($1, $2, 1, 'question')
+        `, [question.id, imageId]);
+        await client.query(`
+          INSERT INTO ai_generated_questions (question_id, run_id, image_id)
+          VALUES ($1, $2, $3)
+        `, [question.id, runId, imageId]);
+
+        saved.push({ ...question, source_image_id: imageId });
+      }
+
+      await client.query('COMMIT');
+      return saved;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Add one call's usage as it happens, so a run that dies part way still shows what it spent
+  static async addUsage(runId: number, inputTokens: number, outputTokens: number, costUsd: number): Promise<void> {
+    await query(`
+      UPDATE ai_generation_runs
+      SET input_tokens = input_tokens + $2, output_tokens = output_tokens + $3, cost_usd = cost_usd + $4
+      WHERE id = $1
+    `, [runId, inputTokens, outputTokens, costUsd]);
+  }
+
+  static async finish(runId: number, status: Exclude<AIGenerationRunStatus, 'running'>, failures: AIGenerationFailure[]): Promise<AIGenerationRun> {
+    await query(`
+      UPDATE ai_generation_runs
+      SET status = $2, failures = $3, completed_at = NOW()
+      WHERE id = $1
+    `, [runId, status, JSON.stringify(failures)]);
+    return (await AIGenerationRunModel.findById(runId))!;
+  }
+
+  static async findById(id: number): Promise<AIGenerationRun | null> {
+    const result = await query(`${RUN_SELECT} WHERE r.id = $1`, [id]);
+    return result.rows[0] ? runFromRow(result.rows[0]) : null;
+  }
+
+  static async findRecent(limit = 20): Promise<AIGenerationRun[]> {
+    const result = await query(`${RUN_SELECT} ORDER BY r.created_at DESC LIMIT $1`, [limit]);
+    return result.rows.map(runFromRow);
+  }
+
+  static async getQuestions(runId: number): Promise<GeneratedQuestion[]> {
+    const result = await query(`
+      SELECT q.*, g.image_id as source_image_id
+      FROM ai_generated_questions g
+      JOIN questions q ON q.id = g.question_id
+      WHERE g.run_id = $1
+      ORDER BY q.id ASC
+    `, [runId]);
+    return result.rows;
+  }
+
+  // Everything spent on generation so far
+  static async getTotals(): Promise<AIGenerationTotals> {
+    const result = await query(`
+      SELECT COUNT(*) as runs,
+        COALESCE(SUM(input_tokens), 0) as input_tokens,
+        COALESCE(SUM(output_tokens), 0) as output_tokens,
+        COALESCE(SUM(cost_usd), 0) as cost_usd,
+        (SELECT COUNT(*) FROM ai_generated_questions) as questions
+      FROM ai_generation_runs
+    `);
+    const row = result.rows[0];
+    return {
+      runs: parseInt(row.runs),
+      questions: parseInt(row.questions),
+      input_tokens: parseInt(row.input_tokens),
+      output_tokens: parseInt(row.output_tokens),
+      cost_usd: parseFloat(row.cost_usd)
+    };
+  }
+}
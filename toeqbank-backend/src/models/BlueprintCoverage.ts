@@ -0,0 +1,58 @@
+import { query } from './database';
+import { Question } from './Question';
+
+// Where a question stands for coverage purposes. Rejected questions don't count towards anything.
+export type CoverageStatus = 'approved' | 'pending' | 'needs_images';
+
+export const COVERAGE_STATUSES: CoverageStatus[] = ['approved', 'pending', 'needs_images'];
+
+export interface CoverageAssignment {
+  question_id: number;
+  subtopics: string[];
+  status: CoverageStatus;
+}
+
+// A question with image descriptions but no images can't be used until someone supplies them,
+// whatever its review status. The rest are approved, or still somewhere in review.
+const COVERAGE_STATUS_SQL = `
+  CASE
+    WHEN EXISTS (SELECT 1 FROM image_descriptions id WHERE id.question_id = q.id)
+      AND NOT EXISTS (SELECT 1 FROM question_images qi WHERE qi.question_id = q.id) THEN 'needs_images'
+    WHEN q.review_status = 'approved' THEN 'approved'
+    WHEN q.review_status IN ('pending', 'escalated', 'returned', 'pending submission') THEN 'pending'
+  END
+`;
+
+export class BlueprintCoverageModel {
+  // Every question assigned to the exam, with its stored subtopics and coverage status
+  static async getAssignments(examName: string): Promise<CoverageAssignment[]> {
+    const result = await query(`
+      SELECT question_id, subtopics, status FROM (
+        SELECT qea.question_id, COALESCE(qea.subtopics, '{}') as subtopics, ${COVERAGE_STATUS_SQL} as status
+        FROM question_exam_assignments qea
+        JOIN questions q ON q.id = qea.question_id
+        WHERE qea.exam_name = $1
+      ) assignments
+      WHERE status IS NOT NULL
+    `, [examName]);
+    return result.rows;
+  }
+
+  // The questions behind one cell of the coverage report, picked out of getAssignments by findCellQuestionIds
+  static async findQuestions(questionIds: number[]): Promise<Question[]> {
+    const sql = `
+      SELECT q.*, ${COVERAGE_STATUS_SQL} as coverage_status
+      FROM questions q
+      WHERE q.id = ANY($1::int[])
+      ORDER BY
+        CASE
+          WHEN q.question_number IS NULL THEN 0
+          WHEN q.question_number ~ '^Q?[0-9]+$' THEN CAST(REGEXP_REPLACE(q.question_number, '^Q', '') AS INTEGER)
+          ELSE 0
+        END DESC,
+        q.created_at DESC
+    `;
+    const result = await query(sql, [questionIds]);
+    return result.rows;
+  }
+}
@@ -0,0 +1,280 @@
+import { PoolClient } from 'pg';
+import pool, { query } from './database';
+
+export interface ExamCategory {
+  code: string;
+  name: string;
+  description?: string | null;
+  icon?: string | null;
+  display_order: number;
+  is_active: boolean;
+}
+
+export interface ExamType {
+  code: string;
+  category_code: string;
+  name: string;
+  description?: string | null;
+  display_order: number;
+  is_active: boolean;
+}
+
+// A fixed number of approved questions wanted, or a share of the parent's target
+export interface CoverageTarget {
+  target_count?: number | null;
+  weight?: number | null;
+}
+
+export interface BlueprintSubtopic extends CoverageTarget {
+  number: string;
+  name: string;
+}
+
+export interface BlueprintSection extends CoverageTarget {
+  number: string;
+  title: string;
+  subtopics: BlueprintSubtopic[];
+}
+
+export interface ExamBlueprint {
+  id: number;
+  name: string;
+  description?: string | null;
+  category_code?: string | null;
+  display_order: number;
+  is_active: boolean;
+  // Approved questions wanted across the whole blueprint; section weights share it out
+  target_total?: number | null;
+  sections: BlueprintSection[];
+}
+
+export interface ExamRegistryData {
+  categories: ExamCategory[];
+  types: ExamType[];
+  blueprints: ExamBlueprint[];
+}
+
+const CATEGORY_FIELDS = ['name', 'description', 'icon', 'display_order', 'is_active'] as const;
+const TYPE_FIELDS = ['category_code', 'name', 'description', 'display_order', 'is_active'] as const;
+const BLUEPRINT_FIELDS = ['description', 'category_code', 'display_order', 'is_active', 'target_total'] as const;
+
+// NUMERIC comes back from pg as a string
+const targetFromRow = (row: any): CoverageTarget => ({
+  target_count: row.target_count,
+  weight: row.weight === null ? null : parseFloat(row.weight)
+});
+
+// UPDATE ... SET for whichever of the given fields are present; returns null if there is nothing to set
+const updateFields = <T extends Record<string, any>>(
+  fields: readonly (keyof T & string)[],
+  updates: Partial<T>
+): { set: string; values: any[] } | null => {
+  const assignments: string[] = [];
+  const values: any[] = [];
+  for (const field of fields) {
+    if (updates[field] !== undefined) {
+      values.push(updates[field]);
+      assignments.push(`${field} = $${values.length}`);
+    }
+  }
+  return assignments.length > 0 ? { set: assignments.join(', '), values } : null;
+};
+
+export class ExamRegistryModel {
+  // Everything, active or not; callers decide what to offer
+  static async getAll(): Promise<ExamRegistryData> {
+    const [categoriesResult, typesResult, blueprintsResult, sectionsResult, subtopicsResult] = await Promise.all([
+      query('SELECT code, name, description, icon, display_order, is_active FROM exam_categories ORDER BY display_order, name'),
+      query('SELECT code, category_code, name, description, display_order, is_active FROM exam_types ORDER BY display_order, name'),
+      query('SELECT id, name, description, category_code, display_order, is_active, target_total FROM exam_blueprints ORDER BY display_order, name'),
+      query('SELECT id, blueprint_id, number, title, target_count, weight FROM exam_blueprint_sections ORDER BY display_order, id'),
+      query('SELECT section_id, number, name, target_count, weight FROM exam_blueprint_subtopics ORDER BY display_order, id')
+    ]);
+
+    const subtopicsBySection = new Map<number, BlueprintSubtopic[]>();
+    for (const row of subtopicsResult.rows) {
+      if (!subtopicsBySection.has(row.section_id)) subtopicsBySection.set(row.section_id, []);
+      subtopicsBySection.get(row.section_id)!.push({ number: row.number, name: row.name, ...targetFromRow(row) });
+    }
+
+    const sectionsByBlueprint = new Map<number, BlueprintSection[]>();
+    for (const row of sectionsResult.rows) {
+      if (!sectionsByBlueprint.has(row.blueprint_id)) sectionsByBlueprint.set(row.blueprint_id, []);
+      sectionsByBlueprint.get(row.blueprint_id)!.push({
+        number: row.number,
+        title: row.title,
+        ...targetFromRow(row),
+        subtopics: subtopicsBySection.get(row.id) || []
+      });
+    }
+
+    return {
+      categories: categoriesResult.rows,
+      types: typesResult.rows,
+      blueprints: blueprintsResult.rows.map((row: any) => ({ ...row, sections: sectionsByBlueprint.get(row.id) || [] }))
+    };
+  }
+
+  static async createCategory(category: Omit<ExamCategory, 'is_active'>): Promise<ExamCategory> {
+    const result = await query(`
+      INSERT INTO exam_categories (code, name, description, icon, display_order)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING code, name, description, icon, display_order, is_active
+    `, [category.code, category.name, category.description || null, category.icon || null, category.display_order]);
+    return result.rows[0];
+  }
+
+  static async updateCategory(code: string, updates: Partial<Omit<ExamCategory, 'code'>>): Promise<ExamCategory | null> {
+    const update = updateFields<ExamCategory>(CATEGORY_FIELDS, updates);
+    if (!update) {
+      const result = await query('SELECT code, name, description, icon, display_order, is_active FROM exam_categories WHERE code = $1', [code]);
+      return result.rows[0] || null;
+    }
+    const result = await query(`
+      UPDATE exam_categories SET ${update.set}, updated_at = CURRENT_TIMESTAMP
+      WHERE code = $${update.values.length + 1}
+      RETURNING code, name, description, icon, display_order, is_active
+    `, [...update.values, code]);
+    return result.rows[0] || null;
+  }
+
+  static async createType(type: Omit<ExamType, 'is_active'>): Promise<ExamType> {
+    const result = await query(`
+      INSERT INTO exam_types (code, category_code, name, description, display_order)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING code, category_code, name, description, display_order, is_active
+    `, [type.code, type.category_code, type.name, type.description || null, type.display_order]);
+    return result.rows[0];
+  }
+
+  static async updateType(code: string, updates: Partial<Omit<ExamType, 'code'>>): Promise<ExamType | null> {
+    const update = updateFields<ExamType>(TYPE_FIELDS, updates);
+    if (!update) {
+      const result = await query('SELECT code, category_code, name, description, display_order, is_active FROM exam_types WHERE code = $1', [code]);
+      return result.rows[0] || null;
+    }
+    const result = await query(`
+      UPDATE exam_types SET ${update.set}, updated_at = CURRENT_TIMESTAMP
+      WHERE code = $${update.values.length + 1}
+      RETURNING code, category_code, name, description, display_order, is_active
+    `, [...update.values, code]);
+    return result.rows[0] || null;
+  }
+
+  // Replace a blueprint's sections and subtopics inside the caller's transaction
+  private static async writeSections(client: PoolClient, blueprintId: number, sections: BlueprintSection[]): Promise<void> {
+    await client.query('DELETE FROM exam_blueprint_sections WHERE blueprint_id = $1', [blueprintId]);
+    for (const [sectionIndex, section] of sections.entries()) {
+      const sectionResult = await client.query(`
+        INSERT INTO exam_blueprint_sections (blueprint_id, number, title, display_order, target_count, weight)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING id
+      `, [blueprintId, section.number, section.title, sectionIndex + 1, section.target_count ?? null, section.weight ?? null]);
+
+      for (const [subtopicIndex, subtopic] of section.subtopics.entries()) {
+        await client.query(`
+          INSERT INTO exam_blueprint_subtopics (section_id, number, name, display_order, target_count, weight)
+          VALUES ($1, $2, $3, $4, $5, $6)
+        `, [sectionResult.rows[0].id, subtopic.number, subtopic.name, subtopicIndex + 1, subtopic.target_count ?? null, subtopic.weight ?? null]);
+      }
+    }
+  }
+
+  static async createBlueprint(blueprint: Omit<ExamBlueprint, 'id' | 'is_active'>): Promise<number> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(`
+        INSERT INTO exam_blueprints (name, description, category_code, display_order, target_total)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id
+      `, [blueprint.name, blueprint.description || null, blueprint.category_code || null, blueprint.display_order, blueprint.target_total ?? null]);
+      const id = result.rows[0].id;
+      await this.writeSections(client, id, blueprint.sections);
+      await client.query('COMMIT');
+      return id;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Sections are replaced wholesale when given. Questions keep their stored subtopic text, so renumbering
+  // or renaming a subtopic leaves existing assignments pointing at the old wording.
+  static async updateBlueprint(
+    id: number,
+    updates: Partial<Omit<ExamBlueprint, 'id' | 'name'>>
+  ): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const update = updateFields<ExamBlueprint>(BLUEPRINT_FIELDS, updates);
+      const result = await client.query(
+        update
+          ? `UPDATE exam_blueprints SET ${update.set}, updated_at = CURRENT_TIMESTAMP WHERE id = $${update.values.length + 1} RETURNING id`
+          : 'SELECT id FROM exam_blueprints WHERE id = $1',
+        update ? [...update.values, id] : [id]
+      );
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+      if (updates.sections) {
+        await this.writeSections(client, id, updates.sections);
+      }
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Set targets on existing sections and subtopics, matched by number, without touching the outline
+  static async updateTargets(
+    blueprintId: number,
+    targetTotal: number | null,
+    sections: (CoverageTarget & { number: string; subtopics: (CoverageTarget & { number: string })[] })[]
+  ): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        'UPDATE exam_blueprints SET target_total = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING id',
+        [targetTotal, blueprintId]
+      );
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      for (const section of sections) {
+        const sectionResult = await client.query(`
+          UPDATE exam_blueprint_sections SET target_count = $1, weight = $2
+          WHERE blueprint_id = $3 AND number = $4
+          RETURNING id
+        `, [section.target_count ?? null, section.weight ?? null, blueprintId, section.number]);
+        if (sectionResult.rows.length === 0) continue;
+
+        for (const subtopic of section.subtopics) {
+          await client.query(`
+            UPDATE exam_blueprint_subtopics SET target_count = $1, weight = $2
+            WHERE section_id = $3 AND number = $4
+          `, [subtopic.target_count ?? null, subtopic.weight ?? null, sectionResult.rows[0].id, subtopic.number]);
+        }
+      }
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { query } from './database';
+import { ImageAnnotation } from './ImageAnnotation';
 
 export type LicenseType = 
   | 'mit' 
@@ -14,6 +15,25 @@ export type LicenseType =
   | 'copyright-borrowed' 
   | 'user-contributed';
 
+export type PhiReason = 'name' | 'date' | 'id';
+
+// A box on the image in fractions of its width and height (0-1), like annotation shapes. The text that
+// was read is deliberately not kept - it may be the very patient details we are trying to remove.
+export interface PhiRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  reason?: PhiReason;
+}
+
+// Burned-in patient details check: 'pending' while the OCR pass runs, 'unscanned' when it couldn't run
+// (cine clips, other formats, OCR failure) and a reviewer has to look for themselves
+export type PhiStatus = 'pending' | 'flagged' | 'clear' | 'redacted' | 'unscanned';
+
+// Statuses a reviewer may approve from
+export const PHI_CLEARED_STATUSES: PhiStatus[] = ['clear', 'redacted'];
+
 export interface Image {
   id?: number;
   filename: string;
@@ -35,8 +55,15 @@ export interface Image {
   uploaded_by?: number;
   review_status?: string;
   review_rating?: number;
+  // Feedback for the contributor from the latest review
+  review_notes?: string | null;
   reviewed_by?: number;
   reviewed_at?: Date;
+  replaced_at?: Date | null;
+  phi_status?: PhiStatus;
+  phi_regions?: PhiRegion[];
+  phi_checked_by?: number | null;
+  phi_checked_at?: Date | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -53,8 +80,8 @@ export interface QuestionImage {
 export class ImageModel {
   static async create(imageData: Omit<Image, 'id' | 'created_at' | 'updated_at'>): Promise<Image> {
     const sql = `
-      INSERT INTO images (filename, original_name, file_path, file_size, mime_type, image_type, width, height, duration_seconds, description, tags, license, license_details, source_url, exam_category, exam_type, uploaded_by)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      INSERT INTO images (filename, original_name, file_path, file_size, mime_type, image_type, width, height, duration_seconds, description, tags, license, license_details, source_url, exam_category, exam_type, uploaded_by, phi_status)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
       RETURNING *
     `;
     
@@ -75,7 +102,8 @@ export class ImageModel {
       imageData.source_url || null,
       imageData.exam_category || 'echocardiography',
       imageData.exam_type || 'eacvi_toe',
-      imageData.uploaded_by || null
+      imageData.uploaded_by || null,
+      imageData.phi_status || 'unscanned'
     ];
     
     const result = await query(sql, values);
@@ -224,9 +252,20 @@ export class ImageModel {
     return result.rowCount > 0;
   }
 
-  static async findByQuestionId(questionId: number): Promise<(Image & {usage_type?: 'question' | 'explanation'})[]> {
+  // Each image carries the annotation layer for this question, falling back to the image's own layer
+  static async findByQuestionId(questionId: number): Promise<(Image & {
+    usage_type?: 'question' | 'explanation';
+    annotation?: Pick<ImageAnnotation, 'shapes' | 'reveal_after_answer'> | null;
+  })[]> {
     const sql = `
-      SELECT i.*, qi.display_order, COALESCE(qi.usage_type, 'question') as usage_type 
+      SELECT i.*, qi.display_order, COALESCE(qi.usage_type, 'question') as usage_type,
+        (
+          SELECT json_build_object('shapes', a.shapes, 'reveal_after_answer', a.reveal_after_answer)
+          FROM image_annotations a
+          WHERE a.image_id = i.id AND (a.question_image_id = qi.id OR a.question_image_id IS NULL)
+          ORDER BY a.question_image_id NULLS LAST
+          LIMIT 1
+        ) as annotation
       FROM images i
       JOIN question_images qi ON i.id = qi.image_id
       WHERE qi.question_id = $1
@@ -354,14 +393,59 @@ export class ImageModel {
     };
   }
 
-  static async submitReview(imageId: number, reviewerId: number, rating: number, status: string): Promise<any> {
+  // Swap in a new file for the same image, keeping its id and question links, and send it back for review
+  static async replaceFile(
+    id: number,
+    file: Pick<Image, 'filename' | 'original_name' | 'file_path' | 'file_size' | 'mime_type' | 'image_type' | 'width' | 'height' | 'duration_seconds' | 'phi_status'>
+  ): Promise<Image | null> {
     const sql = `
-      UPDATE images 
-      SET review_status = $1, review_rating = $2, reviewed_by = $3, reviewed_at = NOW()
-      WHERE id = $4 AND review_status = 'pending'
+      UPDATE images
+      SET filename = $2, original_name = $3, file_path = $4, file_size = $5, mime_type = $6, image_type = $7,
+        width = $8, height = $9, duration_seconds = $10,
+        review_status = 'pending', review_rating = NULL, review_notes = NULL, reviewed_by = NULL, reviewed_at = NULL,
+        phi_status = $11, phi_regions = '[]'::jsonb, phi_checked_by = NULL, phi_checked_at = NULL,
+        replaced_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
       RETURNING *
     `;
-    const result = await query(sql, [status, rating, reviewerId, imageId]);
+    const result = await query(sql, [
+      id, file.filename, file.original_name, file.file_path, file.file_size, file.mime_type, file.image_type,
+      file.width || null, file.height || null, file.duration_seconds || null, file.phi_status || 'unscanned'
+    ]);
+    return result.rows[0] || null;
+  }
+
+  // Record the OCR result, unless the file was replaced while the scan ran
+  static async setPhiScan(id: number, filename: string, status: PhiStatus, regions: PhiRegion[]): Promise<void> {
+    await query(`
+      UPDATE images SET phi_status = $3, phi_regions = $4
+      WHERE id = $1 AND filename = $2 AND phi_status = 'pending'
+    `, [id, filename, status, JSON.stringify(regions)]);
+  }
+
+  // A reviewer has looked and there is nothing identifying on the image
+  static async clearPhi(id: number, reviewerId: number): Promise<Image | null> {
+    const result = await query(`
+      UPDATE images SET phi_status = 'clear', phi_checked_by = $2, phi_checked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `, [id, reviewerId]);
+    return result.rows[0] || null;
+  }
+
+  // Point the image at its redacted copy. Dimensions don't change, so annotations still line up.
+  static async saveRedactedFile(
+    id: number,
+    file: Pick<Image, 'filename' | 'file_path' | 'file_size'>,
+    reviewerId: number
+  ): Promise<Image | null> {
+    const result = await query(`
+      UPDATE images
+      SET filename = $2, file_path = $3, file_size = $4, phi_status = 'redacted', phi_regions = '[]'::jsonb,
+        phi_checked_by = $5, phi_checked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `, [id, file.filename, file.file_path, file.file_size, reviewerId]);
     return result.rows[0] || null;
   }
 
@@ -0,0 +1,97 @@
+import { query } from './database';
+
+export const ANNOTATION_SHAPE_TYPES = ['arrow', 'circle', 'label'] as const;
+export type AnnotationShapeType = typeof ANNOTATION_SHAPE_TYPES[number];
+
+// Coordinates are fractions (0-1) of the image's width and height so the markup scales with the image
+export interface ArrowShape {
+  type: 'arrow';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+}
+
+export interface CircleShape {
+  type: 'circle';
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+  color: string;
+}
+
+export interface LabelShape {
+  type: 'label';
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+}
+
+export type AnnotationShape = ArrowShape | CircleShape | LabelShape;
+
+export interface ImageAnnotation {
+  id: number;
+  image_id: number;
+  // Set when the layer only applies to the image as used by one question
+  question_image_id?: number | null;
+  shapes: AnnotationShape[];
+  reveal_after_answer: boolean;
+  created_by?: number | null;
+  updated_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const MAX_ANNOTATION_SHAPES = 50;
+export const MAX_LABEL_LENGTH = 60;
+
+export class ImageAnnotationModel {
+  // The image's own layer, or the layer for one question's use of it
+  static async findLayer(imageId: number, questionImageId?: number | null): Promise<ImageAnnotation | null> {
+    const sql = questionImageId
+      ? 'SELECT * FROM image_annotations WHERE image_id = $1 AND question_image_id = $2'
+      : 'SELECT * FROM image_annotations WHERE image_id = $1 AND question_image_id IS NULL';
+    const result = await query(sql, questionImageId ? [imageId, questionImageId] : [imageId]);
+    return result.rows[0] || null;
+  }
+
+  static async findQuestionImageId(questionId: number, imageId: number): Promise<number | null> {
+    const result = await query('SELECT id FROM question_images WHERE question_id = $1 AND image_id = $2', [questionId, imageId]);
+    return result.rows[0]?.id || null;
+  }
+
+  static async save(
+    imageId: number,
+    questionImageId: number | null,
+    shapes: AnnotationShape[],
+    revealAfterAnswer: boolean,
+    userId: number
+  ): Promise<ImageAnnotation> {
+    const conflictTarget = questionImageId
+      ? '(question_image_id) WHERE question_image_id IS NOT NULL'
+      : '(image_id) WHERE question_image_id IS NULL';
+    const sql = `
+      INSERT INTO image_annotations (image_id, question_image_id, shapes, reveal_after_answer, created_by, updated_by)
+      VALUES ($1, $2, $3, $4, $5, $5)
+      ON CONFLICT ${conflictTarget} DO UPDATE SET
+        shapes = EXCLUDED.shapes,
+        reveal_after_answer = EXCLUDED.reveal_after_answer,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    const result = await query(sql, [imageId, questionImageId, JSON.stringify(shapes), revealAfterAnswer, userId]);
+    return result.rows[0];
+  }
+
+  static async delete(imageId: number, questionImageId?: number | null): Promise<boolean> {
+    const sql = questionImageId
+      ? 'DELETE FROM image_annotations WHERE image_id = $1 AND question_image_id = $2'
+      : 'DELETE FROM image_annotations WHERE image_id = $1 AND question_image_id IS NULL';
+    const result = await query(sql, questionImageId ? [imageId, questionImageId] : [imageId]);
+    return result.rowCount > 0;
+  }
+}
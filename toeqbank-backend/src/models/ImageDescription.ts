@@ -142,7 +142,8 @@ export class ImageDescriptionModel {
     return result.rows;
   }
 
-  static async findByFilters(filters: { batchId?: number; echoView?: string }): Promise<ImageDescription[]> {
+  // examName with storedSubtopics limits to questions assigned any of those subtopics in that exam
+  static async findByFilters(filters: { batchId?: number; echoView?: string; examName?: string; storedSubtopics?: string[] }): Promise<ImageDescription[]> {
     let whereConditions: string[] = [];
     let values: any[] = [];
     let paramIndex = 1;
@@ -157,6 +158,14 @@ export class ImageDescriptionModel {
       values.push(filters.echoView);
     }
 
+    if (filters.examName && filters.storedSubtopics) {
+      whereConditions.push(`EXISTS (
+        SELECT 1 FROM question_exam_assignments qea
+        WHERE qea.question_id = id.question_id AND qea.exam_name = $${paramIndex++} AND qea.subtopics && $${paramIndex++}::text[]
+      )`);
+      values.push(filters.examName, filters.storedSubtopics);
+    }
+
     const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
 
     const result = await query(`
@@ -0,0 +1,104 @@
+import pool, { query } from './database';
+import { Image, PHI_CLEARED_STATUSES } from './Image';
+
+export type ImageReviewStatus = 'approved' | 'returned' | 'rejected';
+
+export const IMAGE_REVIEW_CRITERIA = [
+  { key: 'diagnostic_quality', label: 'Diagnostic quality' },
+  { key: 'deidentification', label: 'De-identification' },
+  { key: 'view_labelling', label: 'Correct view labelling' },
+  { key: 'licensing_clarity', label: 'Licensing clarity' }
+] as const;
+
+export type ImageReviewCriterion = typeof IMAGE_REVIEW_CRITERIA[number]['key'];
+
+export type ImageReviewScores = Record<ImageReviewCriterion, number>;
+
+export const MAX_IMAGE_SCORE = 10;
+
+export interface ImageReview extends ImageReviewScores {
+  id: number;
+  image_id: number;
+  reviewer_id?: number | null;
+  reviewer_name?: string | null;
+  status: ImageReviewStatus;
+  notes?: string | null;
+  created_at: Date;
+}
+
+// The single rating kept on the image is the average criterion score
+export const overallRating = (scores: ImageReviewScores): number =>
+  Math.round(IMAGE_REVIEW_CRITERIA.reduce((sum, criterion) => sum + scores[criterion.key], 0) / IMAGE_REVIEW_CRITERIA.length);
+
+export class ImageReviewModel {
+  // Record the review and make it the image's current outcome. Returns null if the image isn't
+  // waiting for review (someone else got there first, or it was never submitted).
+  static async submit(
+    imageId: number,
+    reviewerId: number,
+    status: ImageReviewStatus,
+    scores: ImageReviewScores,
+    notes?: string | null
+  ): Promise<(Image & { review_notes?: string | null }) | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Approval re-checks the PHI status in the same statement, so a file replaced or re-scanned since
+      // the reviewer looked can't slip through
+      const values: any[] = [status, overallRating(scores), notes || null, reviewerId, imageId];
+      let phiCondition = '';
+      if (status === 'approved') {
+        values.push(PHI_CLEARED_STATUSES);
+        phiCondition = `AND phi_status = ANY($${values.length})`;
+      }
+
+      const imageResult = await client.query(`
+        UPDATE images
+        SET review_status = $1, review_rating = $2, review_notes = $3, reviewed_by = $4, reviewed_at = NOW()
+        WHERE id = $5 AND review_status = 'pending' ${phiCondition}
+        RETURNING *
+      `, values);
+
+      if (imageResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(`
+        INSERT INTO image_reviews (image_id, reviewer_id, status, diagnostic_quality, deidentification, view_labelling, licensing_clarity, notes)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [
+        imageId,
+        reviewerId,
+        status,
+        scores.diagnostic_quality,
+        scores.deidentification,
+        scores.view_labelling,
+        scores.licensing_clarity,
+        notes || null
+      ]);
+
+      await client.query('COMMIT');
+      return imageResult.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Newest first
+  static async findForImage(imageId: number): Promise<ImageReview[]> {
+    const sql = `
+      SELECT r.*, u.username as reviewer_name
+      FROM image_reviews r
+      LEFT JOIN users u ON r.reviewer_id = u.id
+      WHERE r.image_id = $1
+      ORDER BY r.created_at DESC, r.id DESC
+    `;
+    const result = await query(sql, [imageId]);
+    return result.rows;
+  }
+}
@@ -0,0 +1,217 @@
+import { query } from './database';
+
+export const CHOICE_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G'] as const;
+
+// Too few responses make both statistics noise; don't flag below this
+export const MIN_RESPONSES_FOR_FLAGGING = 20;
+
+export interface ItemStatistics {
+  question_id: number;
+  responses: number;
+  correct: number;
+  p_value: number | null;
+  point_biserial: number | null;
+  choice_counts: Record<string, number>;
+  // Share of responses that picked each choice, 0-1
+  choice_rates: Record<string, number>;
+  flag_reasons: string[];
+  is_flagged: boolean;
+  flagged_at: Date | null;
+  dismissed_reasons: string[];
+  dismissed_at: Date | null;
+  computed_at: Date | null;
+}
+
+export interface FlaggedItem extends ItemStatistics {
+  question_number?: string;
+  question: string;
+  review_status?: string;
+}
+
+const toNumber = (value: any): number | null => value === null || value === undefined ? null : parseFloat(value);
+
+const formatStatistics = (row: any): ItemStatistics => {
+  const responses = parseInt(row.responses || '0');
+  const choiceCounts: Record<string, number> = row.choice_counts || {};
+  const choiceRates: Record<string, number> = {};
+  for (const letter of CHOICE_LETTERS) {
+    choiceRates[letter] = responses > 0 ? (choiceCounts[letter] || 0) / responses : 0;
+  }
+
+  return {
+    question_id: row.question_id,
+    responses,
+    correct: parseInt(row.correct || '0'),
+    p_value: toNumber(row.p_value),
+    point_biserial: toNumber(row.point_biserial),
+    choice_counts: choiceCounts,
+    choice_rates: choiceRates,
+    flag_reasons: row.flag_reasons || [],
+    is_flagged: !!row.flagged_at,
+    flagged_at: row.flagged_at || null,
+    dismissed_reasons: row.dismissed_reasons || [],
+    dismissed_at: row.dismissed_at || null,
+    computed_at: row.computed_at || null
+  };
+};
+
+// Statistics for a question nobody has answered yet
+const emptyStatistics = (questionId: number): ItemStatistics => formatStatistics({ question_id: questionId });
+
+export class ItemAnalysisModel {
+  // Work out why a question should be re-reviewed, from freshly computed numbers
+  static getFlagReasons(stats: {
+    responses: number;
+    point_biserial: number | null;
+    choice_counts: Record<string, number>;
+    correct_answer: string;
+    choices: Record<string, string | null>;
+  }): string[] {
+    if (stats.responses < MIN_RESPONSES_FOR_FLAGGING) return [];
+
+    const reasons: string[] = [];
+    if (stats.point_biserial !== null && stats.point_biserial < 0) {
+      reasons.push('negative_discrimination');
+    }
+    for (const letter of CHOICE_LETTERS) {
+      const text = stats.choices[letter];
+      if (letter !== stats.correct_answer && text && text.trim() !== '' && !stats.choice_counts[letter]) {
+        reasons.push(`unused_distractor:${letter}`);
+      }
+    }
+    return reasons;
+  }
+
+  // Recompute statistics from completed sessions for the given questions (or every answered question)
+  static async refresh(questionIds?: number[]): Promise<ItemStatistics[]> {
+    // The rest score is the session's score without this item, so an item isn't correlated with itself
+    const sql = `
+      SELECT
+        q.id as question_id,
+        q.correct_answer,
+        q.choice_a, q.choice_b, q.choice_c, q.choice_d, q.choice_e, q.choice_f, q.choice_g,
+        COUNT(*) as responses,
+        COUNT(CASE WHEN ur.is_correct THEN 1 END) as correct,
+        corr(
+          CASE WHEN ur.is_correct THEN 1.0 ELSE 0.0 END,
+          (ts.correct_answers - CASE WHEN ur.is_correct THEN 1 ELSE 0 END)::float / NULLIF(ts.total_questions - 1, 0)
+        ) as point_biserial,
+        ${CHOICE_LETTERS.map(letter => `COUNT(CASE WHEN ur.selected_answer = '${letter}' THEN 1 END) as choice_${letter.toLowerCase()}_count`).join(',\n        ')}
+      FROM user_responses ur
+      JOIN test_sessions ts ON ts.id = ur.session_id AND ts.completed_at IS NOT NULL
+      JOIN questions q ON q.id = ur.question_id
+      WHERE ($1::int[] IS NULL OR ur.question_id = ANY($1::int[]))
+      GROUP BY q.id
+    `;
+    const result = await query(sql, [questionIds && questionIds.length > 0 ? questionIds : null]);
+
+    const updated: ItemStatistics[] = [];
+    for (const row of result.rows) {
+      const responses = parseInt(row.responses);
+      const correct = parseInt(row.correct);
+      const pointBiserial = toNumber(row.point_biserial);
+      const choiceCounts: Record<string, number> = {};
+      const choices: Record<string, string | null> = {};
+      for (const letter of CHOICE_LETTERS) {
+        const key = letter.toLowerCase();
+        choiceCounts[letter] = parseInt(row[`choice_${key}_count`]);
+        choices[letter] = row[`choice_${key}`];
+      }
+
+      const reasons = this.getFlagReasons({
+        responses,
+        point_biserial: pointBiserial,
+        choice_counts: choiceCounts,
+        correct_answer: row.correct_answer,
+        choices
+      });
+
+      updated.push(await this.save(row.question_id, {
+        responses,
+        correct,
+        p_value: responses > 0 ? correct / responses : null,
+        point_biserial: pointBiserial,
+        choice_counts: choiceCounts,
+        flag_reasons: reasons
+      }));
+    }
+    return updated;
+  }
+
+  // Store computed statistics; a dismissed flag stays dismissed unless a new reason turns up
+  private static async save(questionId: number, stats: {
+    responses: number;
+    correct: number;
+    p_value: number | null;
+    point_biserial: number | null;
+    choice_counts: Record<string, number>;
+    flag_reasons: string[];
+  }): Promise<ItemStatistics> {
+    const sql = `
+      INSERT INTO question_item_statistics
+        (question_id, responses, correct, p_value, point_biserial, choice_counts, flag_reasons, flagged_at, computed_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7::text[], CASE WHEN cardinality($7::text[]) > 0 THEN CURRENT_TIMESTAMP END, CURRENT_TIMESTAMP)
+      ON CONFLICT (question_id) DO UPDATE SET
+        responses = EXCLUDED.responses,
+        correct = EXCLUDED.correct,
+        p_value = EXCLUDED.p_value,
+        point_biserial = EXCLUDED.point_biserial,
+        choice_counts = EXCLUDED.choice_counts,
+        flag_reasons = EXCLUDED.flag_reasons,
+        flagged_at = CASE
+          WHEN NOT (EXCLUDED.flag_reasons <@ question_item_statistics.dismissed_reasons)
+          THEN COALESCE(question_item_statistics.flagged_at, CURRENT_TIMESTAMP)
+        END,
+        computed_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    const result = await query(sql, [
+      questionId,
+      stats.responses,
+      stats.correct,
+      stats.p_value,
+      stats.point_biserial,
+      JSON.stringify(stats.choice_counts),
+      stats.flag_reasons
+    ]);
+    return formatStatistics(result.rows[0]);
+  }
+
+  static async findByQuestion(questionId: number): Promise<ItemStatistics> {
+    const result = await query('SELECT * FROM question_item_statistics WHERE question_id = $1', [questionId]);
+    return result.rows[0] ? formatStatistics(result.rows[0]) : emptyStatistics(questionId);
+  }
+
+  // Questions currently flagged for re-review within an exam
+  static async findFlagged(examCategory: string, examType: string): Promise<FlaggedItem[]> {
+    const sql = `
+      SELECT s.*, q.question_number, q.question, q.review_status
+      FROM question_item_statistics s
+      JOIN questions q ON q.id = s.question_id
+      WHERE s.flagged_at IS NOT NULL AND q.exam_category = $1 AND q.exam_type = $2
+      ORDER BY s.flagged_at DESC
+    `;
+    const result = await query(sql, [examCategory, examType]);
+    return result.rows.map((row: any) => ({
+      ...formatStatistics(row),
+      question_number: row.question_number,
+      question: row.question,
+      review_status: row.review_status
+    }));
+  }
+
+  // Clear a question's flag; the current reasons won't flag it again
+  static async dismissFlag(questionId: number, userId: number): Promise<ItemStatistics | null> {
+    const sql = `
+      UPDATE question_item_statistics
+      SET flagged_at = NULL,
+          dismissed_reasons = flag_reasons,
+          dismissed_by = $2,
+          dismissed_at = CURRENT_TIMESTAMP
+      WHERE question_id = $1
+      RETURNING *
+    `;
+    const result = await query(sql, [questionId, userId]);
+    return result.rows[0] ? formatStatistics(result.rows[0]) : null;
+  }
+}
@@ -0,0 +1,45 @@
+import { query } from './database';
+
+export interface CachedLlmResponse {
+  request_hash: string;
+  feature: string;
+  model: string;
+  response: string;
+  input_tokens: number;
+  output_tokens: number;
+  hits: number;
+  created_at: Date;
+  last_hit_at?: Date | null;
+}
+
+export class LlmResponseCacheModel {
+  // A stored response younger than maxAgeHours, counting the hit
+  static async get(requestHash: string, maxAgeHours: number): Promise<CachedLlmResponse | null> {
+    const result = await query(`
+      UPDATE llm_response_cache
+      SET hits = hits + 1, last_hit_at = NOW()
+      WHERE request_hash = $1 AND created_at >= NOW() - make_interval(hours => $2)
+      RETURNING *
+    `, [requestHash, maxAgeHours]);
+    return result.rows[0] || null;
+  }
+
+  static async put(entry: Pick<CachedLlmResponse, 'request_hash' | 'feature' | 'model' | 'response' | 'input_tokens' | 'output_tokens'>): Promise<void> {
+    await query(`
+      INSERT INTO llm_response_cache (request_hash, feature, model, response, input_tokens, output_tokens)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (request_hash) DO UPDATE
+      SET response = EXCLUDED.response, model = EXCLUDED.model,
+        input_tokens = EXCLUDED.input_tokens, output_tokens = EXCLUDED.output_tokens,
+        hits = 0, created_at = NOW(), last_hit_at = NULL
+    `, [entry.request_hash, entry.feature, entry.model, entry.response, entry.input_tokens, entry.output_tokens]);
+  }
+
+  // Drop cached responses, for one feature or all of them. Returns how many were removed.
+  static async clear(feature?: string): Promise<number> {
+    const result = feature
+      ? await query('DELETE FROM llm_response_cache WHERE feature = $1', [feature])
+      : await query('DELETE FROM llm_response_cache');
+    return result.rowCount || 0;
+  }
+}
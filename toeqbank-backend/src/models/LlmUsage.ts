@@ -0,0 +1,110 @@
+import { query } from './database';
+
+export type LlmOutcome = 'ok' | 'invalid' | 'error';
+
+export interface LlmUsageEntry {
+  user_id?: number | null;
+  feature: string;
+  client: string;
+  model: string;
+  template_version?: number | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  cached: boolean;
+  outcome: LlmOutcome;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  cached_calls: number;
+  failed_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface LlmFeatureUsage extends LlmUsageTotals {
+  feature: string;
+}
+
+export interface LlmUserUsage extends LlmUsageTotals {
+  user_id: number | null;
+  username: string | null;
+}
+
+export interface LlmUsageSummary {
+  days: number;
+  totals: LlmUsageTotals;
+  by_feature: LlmFeatureUsage[];
+  by_user: LlmUserUsage[];
+}
+
+const TOTALS_COLUMNS = `
+  COUNT(*) as calls,
+  COUNT(*) FILTER (WHERE l.cached) as cached_calls,
+  COUNT(*) FILTER (WHERE l.outcome <> 'ok') as failed_calls,
+  COALESCE(SUM(l.input_tokens), 0) as input_tokens,
+  COALESCE(SUM(l.output_tokens), 0) as output_tokens,
+  COALESCE(SUM(l.cost_usd), 0) as cost_usd
+`;
+
+// COUNT, SUM and NUMERIC all come back from pg as strings
+const totalsFromRow = (row: any): LlmUsageTotals => ({
+  calls: parseInt(row.calls),
+  cached_calls: parseInt(row.cached_calls),
+  failed_calls: parseInt(row.failed_calls),
+  input_tokens: parseInt(row.input_tokens),
+  output_tokens: parseInt(row.output_tokens),
+  cost_usd: parseFloat(row.cost_usd)
+});
+
+export class LlmUsageModel {
+  static async record(entry: LlmUsageEntry): Promise<void> {
+    await query(`
+      INSERT INTO llm_usage (user_id, feature, client, model, template_version, input_tokens, output_tokens, cost_usd, cached, outcome)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `, [
+      entry.user_id || null,
+      entry.feature,
+      entry.client,
+      entry.model,
+      entry.template_version ?? null,
+      entry.input_tokens,
+      entry.output_tokens,
+      entry.cost_usd,
+      entry.cached,
+      entry.outcome
+    ]);
+  }
+
+  // Tokens and spend over the last `days` days, overall, per feature and per user
+  static async summarize(days: number): Promise<LlmUsageSummary> {
+    const since = `l.created_at >= NOW() - make_interval(days => $1)`;
+    const [totals, byFeature, byUser] = await Promise.all([
+      query(`SELECT ${TOTALS_COLUMNS} FROM llm_usage l WHERE ${since}`, [days]),
+      query(`
+        SELECT l.feature, ${TOTALS_COLUMNS}
+        FROM llm_usage l
+        WHERE ${since}
+        GROUP BY l.feature
+        ORDER BY cost_usd DESC, calls DESC
+      `, [days]),
+      query(`
+        SELECT l.user_id, u.username, ${TOTALS_COLUMNS}
+        FROM llm_usage l
+        LEFT JOIN users u ON u.id = l.user_id
+        WHERE ${since}
+        GROUP BY l.user_id, u.username
+        ORDER BY cost_usd DESC, calls DESC
+      `, [days])
+    ]);
+
+    return {
+      days,
+      totals: totalsFromRow(totals.rows[0]),
+      by_feature: byFeature.rows.map((row: any) => ({ feature: row.feature, ...totalsFromRow(row) })),
+      by_user: byUser.rows.map((row: any) => ({ user_id: row.user_id, username: row.username, ...totalsFromRow(row) }))
+    };
+  }
+}
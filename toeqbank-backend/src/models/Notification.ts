@@ -0,0 +1,279 @@
+import { query } from './database';
+import { Question } from './Question';
+import { UploadBatch } from './UploadBatch';
+
+export type NotificationType =
+  | 'question_approved'
+  | 'question_returned'
+  | 'question_rejected'
+  | 'question_escalated'
+  | 'image_reviewed'
+  | 'image_supplied'
+  | 'batch_uploaded'
+  | 'batch_assigned';
+
+export interface Notification {
+  id: number;
+  user_id: number;
+  type: NotificationType;
+  title: string;
+  message?: string | null;
+  // Frontend path the notification opens
+  link?: string | null;
+  question_id?: number | null;
+  image_id?: number | null;
+  batch_id?: number | null;
+  read_at?: Date | null;
+  created_at: Date;
+}
+
+export type NewNotification = Omit<Notification, 'id' | 'user_id' | 'read_at' | 'created_at'>;
+
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+export type EmailFrequency = 'immediate' | 'daily' | 'weekly' | 'never';
+
+export const EMAIL_FREQUENCIES: EmailFrequency[] = ['immediate', 'daily', 'weekly', 'never'];
+export const DEFAULT_EMAIL_FREQUENCY: EmailFrequency = 'daily';
+
+export interface NotificationPreferences {
+  user_id: number;
+  email_frequency: EmailFrequency;
+  last_digest_sent_at?: Date | null;
+}
+
+// A user whose digest is due, with what's needed to build it
+export interface DigestRecipient {
+  id: number;
+  username: string;
+  email: string;
+  first_name?: string | null;
+  is_admin: boolean;
+  is_reviewer: boolean;
+  exam_category?: string | null;
+  exam_type?: string | null;
+  email_frequency: EmailFrequency;
+  last_digest_sent_at?: Date | null;
+}
+
+const questionLabel = (question: Pick<Question, 'id' | 'question_number'>) =>
+  `Question #${question.question_number || question.id}`;
+
+// Notifications are a side effect of the action that raised them, so a failure is logged rather than
+// failing the request
+const deliver = async (
+  userIds: (number | null | undefined)[] | Promise<number[]>,
+  notification: NewNotification
+): Promise<void> => {
+  try {
+    const recipients = Array.from(new Set((await userIds).filter((id): id is number => !!id)));
+    if (recipients.length === 0) return;
+
+    await query(`
+      INSERT INTO notifications (user_id, type, title, message, link, question_id, image_id, batch_id)
+      SELECT recipient, $2, $3, $4, $5, $6, $7, $8
+      FROM unnest($1::int[]) as recipient
+    `, [
+      recipients,
+      notification.type,
+      notification.title,
+      notification.message || null,
+      notification.link || null,
+      notification.question_id || null,
+      notification.image_id || null,
+      notification.batch_id || null
+    ]);
+  } catch (error) {
+    console.error(`Error delivering ${notification.type} notification:`, error);
+  }
+};
+
+// Whether a digest is due for that frequency and last send. The hour of slack keeps an hourly job from
+// drifting a day's digest to the following run.
+const digestDue = (frequency: string, lastSentAt: string) => `(
+  (${frequency} IN ('immediate', 'daily')
+    AND (${lastSentAt} IS NULL OR ${lastSentAt} <= CURRENT_TIMESTAMP - INTERVAL '23 hours'))
+  OR (${frequency} = 'weekly'
+    AND (${lastSentAt} IS NULL OR ${lastSentAt} <= CURRENT_TIMESTAMP - INTERVAL '167 hours'))
+)`;
+
+export class NotificationModel {
+  static async findForUser(userId: number, unreadOnly = false, limit = NOTIFICATION_PAGE_SIZE): Promise<Notification[]> {
+    const sql = `
+      SELECT * FROM notifications
+      WHERE user_id = $1 ${unreadOnly ? 'AND read_at IS NULL' : ''}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $2
+    `;
+    const result = await query(sql, [userId, limit]);
+    return result.rows;
+  }
+
+  static async countUnread(userId: number): Promise<number> {
+    const result = await query('SELECT COUNT(*) as count FROM notifications WHERE user_id = $1 AND read_at IS NULL', [userId]);
+    return parseInt(result.rows[0].count);
+  }
+
+  static async markRead(id: number, userId: number): Promise<Notification | null> {
+    const sql = `
+      UPDATE notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+      WHERE id = $1 AND user_id = $2
+      RETURNING *
+    `;
+    const result = await query(sql, [id, userId]);
+    return result.rows[0] || null;
+  }
+
+  static async markAllRead(userId: number): Promise<number> {
+    const result = await query('UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND read_at IS NULL', [userId]);
+    return result.rowCount;
+  }
+
+  static async getPreferences(userId: number): Promise<NotificationPreferences> {
+    const result = await query('SELECT * FROM notification_preferences WHERE user_id = $1', [userId]);
+    return result.rows[0] || { user_id: userId, email_frequency: DEFAULT_EMAIL_FREQUENCY, last_digest_sent_at: null };
+  }
+
+  static async setEmailFrequency(userId: number, emailFrequency: EmailFrequency): Promise<NotificationPreferences> {
+    const sql = `
+      INSERT INTO notification_preferences (user_id, email_frequency)
+      VALUES ($1, $2)
+      ON CONFLICT (user_id) DO UPDATE SET
+        email_frequency = EXCLUDED.email_frequency,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    const result = await query(sql, [userId, emailFrequency]);
+    return result.rows[0];
+  }
+
+  // Users with an email address whose last digest is older than their frequency allows, stamped as sent in
+  // the same statement so an overlapping run can't pick them too. last_digest_sent_at is the previous send,
+  // which the digest uses to mark what's new.
+  static async claimDigestRecipients(): Promise<DigestRecipient[]> {
+    const sql = `
+      WITH due AS (
+        SELECT u.id, u.username, u.email, u.first_name, u.is_admin, u.is_reviewer, u.exam_category, u.exam_type,
+          COALESCE(p.email_frequency, $1) as email_frequency, p.last_digest_sent_at
+        FROM users u
+        LEFT JOIN notification_preferences p ON p.user_id = u.id
+        WHERE u.is_active AND u.email IS NOT NULL AND u.email <> ''
+          AND ${digestDue('COALESCE(p.email_frequency, $1)', 'p.last_digest_sent_at')}
+      ),
+      claimed AS (
+        INSERT INTO notification_preferences (user_id, email_frequency, last_digest_sent_at)
+        SELECT id, $1, CURRENT_TIMESTAMP FROM due
+        ON CONFLICT (user_id) DO UPDATE SET last_digest_sent_at = CURRENT_TIMESTAMP
+        WHERE ${digestDue('notification_preferences.email_frequency', 'notification_preferences.last_digest_sent_at')}
+        RETURNING user_id
+      )
+      SELECT due.* FROM due
+      JOIN claimed ON claimed.user_id = due.id
+      ORDER BY due.id
+    `;
+    const result = await query(sql, [DEFAULT_EMAIL_FREQUENCY]);
+    return result.rows;
+  }
+
+  // Put back the previous send time when a claimed digest couldn't be sent, so the next run retries it
+  static async releaseDigestClaim(userId: number, previousSentAt: Date | null | undefined): Promise<void> {
+    await query('UPDATE notification_preferences SET last_digest_sent_at = $2 WHERE user_id = $1', [userId, previousSentAt || null]);
+  }
+
+  // Reviewers and admins working on an exam (omit examType for the whole category)
+  static async findReviewerIds(examCategory: string, examType?: string, adminsOnly = false): Promise<number[]> {
+    const values: any[] = [examCategory];
+    let sql = `
+      SELECT id FROM users
+      WHERE is_active AND ${adminsOnly ? 'is_admin' : '(is_reviewer OR is_admin)'}
+        AND COALESCE(exam_category, 'echocardiography') = $1
+    `;
+    if (examType) {
+      values.push(examType);
+      sql += ` AND COALESCE(exam_type, 'eacvi_toe') = $2`;
+    }
+    const result = await query(sql, values);
+    return result.rows.map((row: any) => row.id);
+  }
+
+  // Tell the author how the review of their question came out
+  static async notifyQuestionDecision(question: Question, decision: 'approved' | 'returned' | 'rejected'): Promise<void> {
+    const titles = {
+      approved: `${questionLabel(question)} was approved`,
+      returned: `${questionLabel(question)} needs work`,
+      rejected: `${questionLabel(question)} was rejected`
+    };
+    await deliver([question.uploaded_by], {
+      type: `question_${decision}` as NotificationType,
+      title: titles[decision],
+      message: question.review_notes || null,
+      link: decision === 'returned' ? '/my-returned-questions' : `/question/${question.id}`,
+      question_id: question.id
+    });
+  }
+
+  // Ask the exam's admins to settle a reviewer disagreement
+  static async notifyEscalated(question: Question): Promise<void> {
+    const examCategory = question.exam_category || 'echocardiography';
+    await deliver(NotificationModel.findReviewerIds(examCategory, examCategory === 'usmle' ? undefined : question.exam_type, true), {
+      type: 'question_escalated',
+      title: `Reviewers disagree on ${questionLabel(question)}`,
+      link: '/admin/review-consensus',
+      question_id: question.id
+    });
+  }
+
+  static async notifyImageReviewed(
+    image: { id?: number; original_name?: string; uploaded_by?: number | null; review_notes?: string | null },
+    status: string,
+    rating: number
+  ): Promise<void> {
+    await deliver([image.uploaded_by], {
+      type: 'image_reviewed',
+      title: `Your image ${image.original_name || `#${image.id}`} was ${status}`,
+      message: image.review_notes ? `Rated ${rating}/10: ${image.review_notes}` : `Rated ${rating}/10`,
+      // Returned images are reworked from the contributor's list
+      link: status === 'returned' ? '/my-contributions' : `/image/${image.id}`,
+      image_id: image.id
+    });
+  }
+
+  // Tell the author when someone else attaches an image their question asked for
+  static async notifyImageSupplied(question: Question, imageId: number, suppliedBy?: number): Promise<void> {
+    if (!question.uploaded_by || question.uploaded_by === suppliedBy) return;
+    await deliver([question.uploaded_by], {
+      type: 'image_supplied',
+      title: `An image was supplied for ${questionLabel(question)}`,
+      link: `/question/${question.id}`,
+      question_id: question.id,
+      image_id: imageId
+    });
+  }
+
+  // Let the exam's reviewers know new questions are waiting
+  static async notifyBatchUploaded(
+    batch: UploadBatch,
+    uploaderId: number,
+    examCategory: string,
+    examType?: string
+  ): Promise<void> {
+    const reviewerIds = NotificationModel.findReviewerIds(examCategory, examCategory === 'usmle' ? undefined : examType)
+      .then(ids => ids.filter(id => id !== uploaderId));
+    await deliver(reviewerIds, {
+      type: 'batch_uploaded',
+      title: `New batch uploaded: ${batch.batch_name || `#${batch.id}`}`,
+      message: batch.question_count ? `${batch.question_count} new question${batch.question_count !== 1 ? 's' : ''} for your exam` : null,
+      link: '/reviewer/dashboard',
+      batch_id: batch.id
+    });
+  }
+
+  static async notifyBatchAssigned(batch: UploadBatch, reviewerId: number): Promise<void> {
+    await deliver([reviewerId], {
+      type: 'batch_assigned',
+      title: `Batch ${batch.batch_name || `#${batch.id}`} was assigned to you`,
+      link: '/reviewer/dashboard',
+      batch_id: batch.id
+    });
+  }
+}
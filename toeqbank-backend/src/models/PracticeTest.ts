@@ -0,0 +1,287 @@
+import { PoolClient } from 'pg';
+import pool, { query } from './database';
+
+export interface PracticeTest {
+  id?: number;
+  name: string;
+  description?: string | null;
+  exam_category?: string | null;
+  exam_type?: string | null;
+  time_limit_minutes?: number | null;
+  is_published?: boolean;
+  published_at?: Date | null;
+  created_by?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+  question_count?: number;
+  attempt_count?: number;
+  creator_username?: string;
+}
+
+export interface PracticeTestQuestion {
+  question_id: number;
+  question_order: number;
+  question_number?: string;
+  question: string;
+  review_status?: string;
+}
+
+export interface PracticeTestResults {
+  attempts: number;
+  unique_users: number;
+  average_score: number | null;
+  highest_score: number | null;
+  lowest_score: number | null;
+  average_time_seconds: number | null;
+  questions: {
+    question_id: number;
+    question_order: number;
+    question_number?: string;
+    responses: number;
+    correct: number;
+    percent_correct: number | null;
+  }[];
+  recent_attempts: {
+    session_id: string;
+    username: string;
+    completed_at: Date;
+    score_percentage: number | null;
+    correct_answers: number;
+    total_questions: number;
+  }[];
+}
+
+const toNumber = (value: any): number | null => value === null || value === undefined ? null : parseFloat(value);
+
+// Listing columns shared by the admin and student queries
+const LIST_SELECT = `
+  SELECT pt.*,
+    u.username as creator_username,
+    (SELECT COUNT(*) FROM test_questions tq WHERE tq.test_id = pt.id) as question_count,
+    (SELECT COUNT(*) FROM test_sessions ts WHERE ts.test_id = pt.id AND ts.completed_at IS NOT NULL) as attempt_count
+  FROM practice_tests pt
+  LEFT JOIN users u ON u.id = pt.created_by
+`;
+
+const formatTest = (row: any): PracticeTest => ({
+  ...row,
+  question_count: parseInt(row.question_count || '0'),
+  attempt_count: parseInt(row.attempt_count || '0')
+});
+
+const insertQuestions = async (client: PoolClient, testId: number, questionIds: number[]) => {
+  if (questionIds.length === 0) return;
+  await client.query(`
+    INSERT INTO test_questions (test_id, question_id, question_order)
+    SELECT $1, question_id, question_order
+    FROM unnest($2::int[]) WITH ORDINALITY AS t(question_id, question_order)
+  `, [testId, questionIds]);
+};
+
+export class PracticeTestModel {
+  // Create the test and its ordered questions together, so a bad question list leaves nothing behind
+  static async create(
+    test: Omit<PracticeTest, 'id' | 'created_at' | 'updated_at' | 'is_published' | 'published_at'>,
+    questionIds: number[] = []
+  ): Promise<PracticeTest> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(`
+        INSERT INTO practice_tests (name, description, exam_category, exam_type, time_limit_minutes, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *
+      `, [
+        test.name,
+        test.description || null,
+        test.exam_category || null,
+        test.exam_type || null,
+        test.time_limit_minutes || null,
+        test.created_by || null
+      ]);
+      await insertQuestions(client, result.rows[0].id, questionIds);
+      await client.query('COMMIT');
+      return formatTest(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async findById(id: number): Promise<PracticeTest | null> {
+    const result = await query(`${LIST_SELECT} WHERE pt.id = $1`, [id]);
+    return result.rows[0] ? formatTest(result.rows[0]) : null;
+  }
+
+  static async findAll(): Promise<PracticeTest[]> {
+    const result = await query(`${LIST_SELECT} ORDER BY pt.updated_at DESC`);
+    return result.rows.map(formatTest);
+  }
+
+  static async findPublished(examCategory: string, examType: string): Promise<PracticeTest[]> {
+    const sql = `
+      ${LIST_SELECT}
+      WHERE pt.is_published = true AND pt.exam_category = $1 AND pt.exam_type = $2
+      ORDER BY pt.published_at DESC, pt.name ASC
+    `;
+    const result = await query(sql, [examCategory, examType]);
+    return result.rows.map(formatTest);
+  }
+
+  static async update(id: number, data: Partial<Pick<PracticeTest, 'name' | 'description' | 'exam_category' | 'exam_type' | 'time_limit_minutes'>>): Promise<PracticeTest | null> {
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    for (const field of ['name', 'description', 'exam_category', 'exam_type', 'time_limit_minutes'] as const) {
+      if (data[field] !== undefined) {
+        updates.push(`${field} = $${paramIndex++}`);
+        values.push(data[field]);
+      }
+    }
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    const sql = `UPDATE practice_tests SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING id`;
+    const result = await query(sql, values);
+    return result.rows[0] ? this.findById(id) : null;
+  }
+
+  static async setPublished(id: number, published: boolean): Promise<PracticeTest | null> {
+    const sql = `
+      UPDATE practice_tests
+      SET is_published = $2,
+          published_at = CASE WHEN $2 THEN COALESCE(published_at, CURRENT_TIMESTAMP) ELSE NULL END,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING id
+    `;
+    const result = await query(sql, [id, published]);
+    return result.rows[0] ? this.findById(id) : null;
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM practice_tests WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+
+  static async getQuestions(testId: number): Promise<PracticeTestQuestion[]> {
+    const sql = `
+      SELECT tq.question_id, tq.question_order, q.question_number, q.question, q.review_status
+      FROM test_questions tq
+      JOIN questions q ON q.id = tq.question_id
+      WHERE tq.test_id = $1
+      ORDER BY tq.question_order ASC
+    `;
+    const result = await query(sql, [testId]);
+    return result.rows;
+  }
+
+  static async getQuestionIds(testId: number): Promise<number[]> {
+    const questions = await this.getQuestions(testId);
+    return questions.map(q => q.question_id);
+  }
+
+  // The ids that don't belong to any question
+  static async findMissingQuestions(questionIds: number[]): Promise<number[]> {
+    const result = await query(`
+      SELECT t.id FROM unnest($1::int[]) AS t(id)
+      WHERE NOT EXISTS (SELECT 1 FROM questions q WHERE q.id = t.id)
+    `, [questionIds]);
+    return result.rows.map((row: any) => row.id);
+  }
+
+  // Replace the test's questions with the given ids, in order
+  static async setQuestions(testId: number, questionIds: number[]): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM test_questions WHERE test_id = $1', [testId]);
+      await insertQuestions(client, testId, questionIds);
+      await client.query('UPDATE practice_tests SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [testId]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Aggregate scores over completed sessions of this test, plus per-question accuracy
+  static async getResults(testId: number): Promise<PracticeTestResults> {
+    const summarySql = `
+      SELECT
+        COUNT(*) as attempts,
+        COUNT(DISTINCT user_id) as unique_users,
+        AVG(score_percentage) as average_score,
+        MAX(score_percentage) as highest_score,
+        MIN(score_percentage) as lowest_score,
+        AVG(total_time_seconds) as average_time_seconds
+      FROM test_sessions
+      WHERE test_id = $1 AND completed_at IS NOT NULL
+    `;
+    const questionSql = `
+      SELECT
+        tq.question_id,
+        tq.question_order,
+        q.question_number,
+        COUNT(ur.id) as responses,
+        COUNT(CASE WHEN ur.is_correct THEN 1 END) as correct
+      FROM test_questions tq
+      JOIN questions q ON q.id = tq.question_id
+      LEFT JOIN test_sessions ts ON ts.test_id = tq.test_id AND ts.completed_at IS NOT NULL
+      LEFT JOIN user_responses ur ON ur.session_id = ts.id AND ur.question_id = tq.question_id
+      WHERE tq.test_id = $1
+      GROUP BY tq.question_id, tq.question_order, q.question_number
+      ORDER BY tq.question_order ASC
+    `;
+    const recentSql = `
+      SELECT ts.id as session_id, u.username, ts.completed_at, ts.score_percentage, ts.correct_answers, ts.total_questions
+      FROM test_sessions ts
+      JOIN users u ON u.id = ts.user_id
+      WHERE ts.test_id = $1 AND ts.completed_at IS NOT NULL
+      ORDER BY ts.completed_at DESC
+      LIMIT 20
+    `;
+
+    const [summary, questions, recent] = await Promise.all([
+      query(summarySql, [testId]),
+      query(questionSql, [testId]),
+      query(recentSql, [testId])
+    ]);
+
+    const row = summary.rows[0];
+    return {
+      attempts: parseInt(row.attempts),
+      unique_users: parseInt(row.unique_users),
+      average_score: toNumber(row.average_score),
+      highest_score: toNumber(row.highest_score),
+      lowest_score: toNumber(row.lowest_score),
+      average_time_seconds: toNumber(row.average_time_seconds),
+      questions: questions.rows.map((q: any) => {
+        const responses = parseInt(q.responses);
+        const correct = parseInt(q.correct);
+        return {
+          question_id: q.question_id,
+          question_order: q.question_order,
+          question_number: q.question_number,
+          responses,
+          correct,
+          percent_correct: responses > 0 ? Math.round((correct / responses) * 1000) / 10 : null
+        };
+      }),
+      recent_attempts: recent.rows.map((r: any) => ({
+        ...r,
+        score_percentage: toNumber(r.score_percentage)
+      }))
+    };
+  }
+}
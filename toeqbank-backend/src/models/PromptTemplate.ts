@@ -0,0 +1,107 @@
+import pool, { query } from './database';
+import { JsonSchema } from '../utils/jsonSchema';
+
+export interface PromptTemplate {
+  id: number;
+  feature: string;
+  version: number;
+  template: string;
+  output_schema: JsonSchema | null;
+  max_tokens: number;
+  notes?: string | null;
+  is_active: boolean;
+  created_by?: number | null;
+  created_by_username?: string | null;
+  created_at: Date;
+}
+
+export type PromptTemplateInput = Pick<PromptTemplate, 'template' | 'output_schema' | 'max_tokens'> & { notes?: string | null };
+
+const TEMPLATE_SELECT = `
+  SELECT t.*, u.username as created_by_username
+  FROM llm_prompt_templates t
+  LEFT JOIN users u ON u.id = t.created_by
+`;
+
+export class PromptTemplateModel {
+  static async findActive(feature: string): Promise<PromptTemplate | null> {
+    const result = await query(`${TEMPLATE_SELECT} WHERE t.feature = $1 AND t.is_active`, [feature]);
+    return result.rows[0] || null;
+  }
+
+  static async findVersions(feature: string): Promise<PromptTemplate[]> {
+    const result = await query(`${TEMPLATE_SELECT} WHERE t.feature = $1 ORDER BY t.version DESC`, [feature]);
+    return result.rows;
+  }
+
+  // Store the built-in prompt as version 1 if the feature has none yet, and return whichever is live
+  static async seed(feature: string, input: PromptTemplateInput): Promise<PromptTemplate> {
+    await query(`
+      INSERT INTO llm_prompt_templates (feature, version, template, output_schema, max_tokens, notes, is_active)
+      SELECT $1, 1, $2, $3, $4, $5, true
+      WHERE NOT EXISTS (SELECT 1 FROM llm_prompt_templates WHERE feature = $1)
+      ON CONFLICT DO NOTHING
+    `, [feature, input.template, JSON.stringify(input.output_schema), input.max_tokens, input.notes || null]);
+    return (await PromptTemplateModel.findActive(feature))!;
+  }
+
+  // Add the next version; activating it retires the one that was live
+  static async create(feature: string, input: PromptTemplateInput, createdBy: number, activate: boolean): Promise<PromptTemplate> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      // Lock the feature's versions so two saves can't take the same number
+      await client.query('SELECT id FROM llm_prompt_templates WHERE feature = $1 FOR UPDATE', [feature]);
+
+      if (activate) {
+        await client.query('UPDATE llm_prompt_templates SET is_active = false WHERE feature = $1 AND is_active', [feature]);
+      }
+      const result = await client.query(`
+        INSERT INTO llm_prompt_templates (feature, version, template, output_schema, max_tokens, notes, is_active, created_by)
+        SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6, $7
+        FROM llm_prompt_templates WHERE feature = $1
+        RETURNING id
+      `, [
+        feature,
+        input.template,
+        input.output_schema ? JSON.stringify(input.output_schema) : null,
+        input.max_tokens,
+        input.notes || null,
+        activate,
+        createdBy
+      ]);
+
+      await client.query('COMMIT');
+      const created = await query(`${TEMPLATE_SELECT} WHERE t.id = $1`, [result.rows[0].id]);
+      return created.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Make an existing version the live one, e.g. to roll back an edit
+  static async activate(feature: string, version: number): Promise<PromptTemplate | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const exists = await client.query('SELECT id FROM llm_prompt_templates WHERE feature = $1 AND version = $2', [feature, version]);
+      if (exists.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query('UPDATE llm_prompt_templates SET is_active = false WHERE feature = $1 AND is_active', [feature]);
+      await client.query('UPDATE llm_prompt_templates SET is_active = true WHERE id = $1', [exists.rows[0].id]);
+      await client.query('COMMIT');
+      return PromptTemplateModel.findActive(feature);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
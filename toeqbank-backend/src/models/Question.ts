@@ -16,8 +16,9 @@ export interface Question {
   source_folder?: string;
   exam_category?: string;
   exam_type?: string;
-  review_status?: 'pending' | 'approved' | 'rejected' | 'returned' | 'pending submission';
+  review_status?: 'pending' | 'approved' | 'rejected' | 'returned' | 'pending submission' | 'escalated';
   review_notes?: string;
+  review_round?: number;
   reviewed_by?: number;
   reviewed_at?: Date;
   uploaded_by?: number;
@@ -27,6 +28,53 @@ export interface Question {
   updated_at?: Date;
 }
 
+// Pending questions with every requested image supplied; questions must be aliased as q
+export const REVIEW_READY_CONDITION = `
+  q.review_status = 'pending'
+  AND (
+    -- Questions with no image descriptions (don't need images)
+    NOT EXISTS (
+      SELECT 1 FROM image_descriptions id WHERE id.question_id = q.id
+    )
+    OR
+    -- Questions where all image descriptions have been fulfilled with actual images
+    NOT EXISTS (
+      SELECT 1 FROM image_descriptions id 
+      WHERE id.question_id = q.id 
+      AND NOT EXISTS (
+        SELECT 1 FROM question_images qi 
+        WHERE qi.question_id = q.id 
+        AND qi.usage_type = id.usage_type
+      )
+    )
+  )
+`;
+
+// Questions the reviewer in the given parameter may be routed to: not their own, not voted on by
+// them this round, not claimed by another reviewer, and not in a batch assigned to someone else.
+// Once the assignee has voted the rest of the quorum may vote too, or the question could never be decided.
+export const reviewerRoutingCondition = (reviewerParam: string) => `
+  q.uploaded_by IS DISTINCT FROM ${reviewerParam}
+  AND NOT EXISTS (
+    SELECT 1 FROM question_review_votes v
+    WHERE v.question_id = q.id AND v.review_round = q.review_round
+      AND v.reviewer_id = ${reviewerParam} AND NOT v.is_adjudication
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM review_claims c
+    WHERE c.question_id = q.id AND c.reviewer_id <> ${reviewerParam} AND c.expires_at > CURRENT_TIMESTAMP
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM upload_batches ub
+    WHERE ub.id = q.batch_id AND ub.assigned_reviewer_id IS NOT NULL AND ub.assigned_reviewer_id <> ${reviewerParam}
+      AND NOT EXISTS (
+        SELECT 1 FROM question_review_votes av
+        WHERE av.question_id = q.id AND av.review_round = q.review_round
+          AND av.reviewer_id = ub.assigned_reviewer_id AND NOT av.is_adjudication
+      )
+  )
+`;
+
 export class QuestionModel {
   static async create(questionData: Omit<Question, 'id' | 'created_at' | 'updated_at' | 'question_number'>): Promise<Question> {
     const sql = `
@@ -132,6 +180,20 @@ export class QuestionModel {
     return result.rows[0] || null;
   }
 
+  // Merge an imported duplicate into an existing question, filling only fields the existing question left blank
+  static async mergeDuplicate(id: number, duplicate: Pick<Question, 'explanation' | 'source_folder'>): Promise<Question | null> {
+    const sql = `
+      UPDATE questions
+      SET explanation = COALESCE(NULLIF(explanation, ''), NULLIF($2, '')),
+          source_folder = COALESCE(NULLIF(source_folder, ''), NULLIF($3, '')),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `;
+    const result = await query(sql, [id, duplicate.explanation || '', duplicate.source_folder || '']);
+    return result.rows[0] || null;
+  }
+
   static async delete(id: number): Promise<boolean> {
     const sql = 'DELETE FROM questions WHERE id = $1';
     const result = await query(sql, [id]);
@@ -259,9 +321,10 @@ export class QuestionModel {
   }
 
   // Review system methods
-  static async getPendingReview(examCategory?: string, examType?: string): Promise<Question[]> {
+  // Questions awaiting review; a reviewer only sees the ones they may be routed to
+  static async getPendingReview(examCategory?: string, examType?: string, reviewerId?: number): Promise<Question[]> {
     let sql = `
-      SELECT DISTINCT 
+      SELECT 
         q.*,
         CASE 
           WHEN q.question_number IS NULL THEN 0
@@ -269,7 +332,7 @@ export class QuestionModel {
           ELSE 0
         END as sort_number
       FROM questions q
-      WHERE q.review_status = 'pending'`;
+      WHERE ${REVIEW_READY_CONDITION}`;
     
     const params: any[] = [];
     
@@ -283,25 +346,13 @@ export class QuestionModel {
       sql += ` AND q.exam_type = $${params.length + 1}`;
       params.push(examType);
     }
+
+    if (reviewerId) {
+      params.push(reviewerId);
+      sql += ` AND ${reviewerRoutingCondition(`$${params.length}`)}`;
+    }
     
     sql += `
-      AND (
-        -- Questions with no image descriptions (don't need images)
-        NOT EXISTS (
-          SELECT 1 FROM image_descriptions id WHERE id.question_id = q.id
-        )
-        OR
-        -- Questions where all image descriptions have been fulfilled with actual images
-        NOT EXISTS (
-          SELECT 1 FROM image_descriptions id 
-          WHERE id.question_id = q.id 
-          AND NOT EXISTS (
-            SELECT 1 FROM question_images qi 
-            WHERE qi.question_id = q.id 
-            AND qi.usage_type = id.usage_type
-          )
-        )
-      )
       ORDER BY 
         sort_number DESC,
         q.created_at DESC
@@ -353,23 +404,6 @@ export class QuestionModel {
     return result.rows;
   }
 
-  static async updateReviewStatus(
-    id: number, 
-    status: 'pending' | 'approved' | 'rejected' | 'returned', 
-    reviewNotes: string, 
-    reviewerId: number,
-    difficultyRating?: number
-  ): Promise<Question | null> {
-    const sql = `
-      UPDATE questions 
-      SET review_status = $1, review_notes = $2, reviewed_by = $3, reviewed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP, difficulty_rating = $5
-      WHERE id = $4 
-      RETURNING *
-    `;
-    const result = await query(sql, [status, reviewNotes, reviewerId, id, difficultyRating || null]);
-    return result.rows[0] || null;
-  }
-
   static async getByUploader(uploaderId: number): Promise<Question[]> {
     const sql = `
       SELECT q.*, u.username as uploader_name
@@ -384,7 +418,15 @@ export class QuestionModel {
 
   static async getReturnedForUploader(uploaderId: number): Promise<Question[]> {
     const sql = `
-      SELECT q.*, u.username as uploader_name, r.username as reviewer_name
+      SELECT q.*, u.username as uploader_name, r.username as reviewer_name,
+        -- Rubric criteria cited in the round that returned the question
+        COALESCE((
+          SELECT json_agg(DISTINCT jsonb_build_object('code', c.code, 'label', c.label))
+          FROM question_review_votes v
+          JOIN question_review_vote_reasons vr ON vr.vote_id = v.id
+          JOIN review_rubric_criteria c ON c.code = vr.criterion_code
+          WHERE v.question_id = q.id AND v.review_round = q.review_round - 1
+        ), '[]') as review_reasons
       FROM questions q
       LEFT JOIN users u ON u.id = q.uploaded_by
       LEFT JOIN users r ON r.id = q.reviewed_by
@@ -395,7 +437,7 @@ export class QuestionModel {
     return result.rows;
   }
 
-  static async getReviewStats(examCategory?: string, examType?: string): Promise<{ total: number, pending: number, approved: number, rejected: number, returned: number, pending_submission: number }> {
+  static async getReviewStats(examCategory?: string, examType?: string): Promise<{ total: number, pending: number, approved: number, rejected: number, returned: number, pending_submission: number, escalated: number }> {
     let sql = `
       SELECT 
         COUNT(*) as total,
@@ -403,7 +445,8 @@ export class QuestionModel {
         COUNT(CASE WHEN review_status = 'approved' THEN 1 END) as approved,
         COUNT(CASE WHEN review_status = 'rejected' THEN 1 END) as rejected,
         COUNT(CASE WHEN review_status = 'returned' THEN 1 END) as returned,
-        COUNT(CASE WHEN review_status = 'pending submission' THEN 1 END) as pending_submission
+        COUNT(CASE WHEN review_status = 'pending submission' THEN 1 END) as pending_submission,
+        COUNT(CASE WHEN review_status = 'escalated' THEN 1 END) as escalated
       FROM questions
       WHERE 1=1
     `;
@@ -425,7 +468,8 @@ export class QuestionModel {
       approved: parseInt(stats.approved),
       rejected: parseInt(stats.rejected),
       returned: parseInt(stats.returned),
-      pending_submission: parseInt(stats.pending_submission)
+      pending_submission: parseInt(stats.pending_submission),
+      escalated: parseInt(stats.escalated)
     };
   }
 }
\ No newline at end of file
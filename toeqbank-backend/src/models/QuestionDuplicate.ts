@@ -0,0 +1,157 @@
+import { query } from './database';
+import { Question } from './Question';
+
+// Combined similarity at or above which a question is reported as a likely duplicate
+export const DUPLICATE_THRESHOLD = 0.6;
+
+// The stem carries most of the weight; reworded stems with identical choices still score well
+const STEM_WEIGHT = 0.7;
+const CHOICES_WEIGHT = 0.3;
+const MAX_MATCHES = 3;
+
+const CHOICE_COLUMNS = ['choice_a', 'choice_b', 'choice_c', 'choice_d', 'choice_e', 'choice_f', 'choice_g'] as const;
+
+export type DuplicateCandidate = Pick<Question, 'question'> & Partial<Pick<Question, typeof CHOICE_COLUMNS[number]>>;
+
+export interface DuplicateScope {
+  exam_category: string;
+  // Omitted to compare against the whole category
+  exam_type?: string;
+  // Existing question to leave out, e.g. the one being edited
+  exclude_question_id?: number;
+}
+
+export interface DuplicateMatch {
+  // Set when the match is an existing question
+  question_id?: number;
+  question_number?: string;
+  review_status?: string;
+  uploaded_by?: number | null;
+  // Set when the match is an earlier row of the same import
+  row?: number;
+  question: string;
+  similarity: number;
+  stem_similarity: number;
+  choices_similarity: number;
+}
+
+const choicesText = (candidate: DuplicateCandidate) =>
+  CHOICE_COLUMNS.map(column => candidate[column]?.trim()).filter(Boolean).join(' ');
+
+// Weighted score; when either side has no choices only the stem is compared
+const scoreSql = (stem: string, choices: string, leftChoices: string, rightChoices: string) => `
+  CASE WHEN ${leftChoices} = '' OR ${rightChoices} = '' THEN ${stem}
+    ELSE ${STEM_WEIGHT} * ${stem} + ${CHOICES_WEIGHT} * ${choices} END
+`;
+
+const toNumber = (value: any) => parseFloat(value);
+
+export class QuestionDuplicateModel {
+  // Likely duplicates for each candidate, strongest first: existing questions in scope, then earlier candidates in the list
+  static async findDuplicates(
+    candidates: DuplicateCandidate[],
+    scope: DuplicateScope,
+    threshold: number = DUPLICATE_THRESHOLD
+  ): Promise<DuplicateMatch[][]> {
+    const matches: DuplicateMatch[][] = candidates.map(() => []);
+    if (candidates.length === 0) return matches;
+
+    const stems = candidates.map(candidate => candidate.question || '');
+    const choices = candidates.map(choicesText);
+    const values: any[] = [stems, choices, threshold, MAX_MATCHES, scope.exam_category];
+    const conditions = ['q.question % i.stem', 'q.exam_category = $5'];
+
+    if (scope.exam_type) {
+      values.push(scope.exam_type);
+      conditions.push(`q.exam_type = $${values.length}`);
+    }
+    if (scope.exclude_question_id) {
+      values.push(scope.exclude_question_id);
+      conditions.push(`q.id <> $${values.length}`);
+    }
+
+    // The % prefilter uses pg_trgm's default 0.3 threshold, which is below the
+    // stem similarity any match at DUPLICATE_THRESHOLD needs
+    const existingSql = `
+      WITH input AS (
+        SELECT (i.ord - 1)::int as idx, i.stem, i.choices
+        FROM unnest($1::text[], $2::text[]) WITH ORDINALITY AS i(stem, choices, ord)
+      ),
+      scored AS (
+        SELECT input_idx, id, question_number, question, review_status, uploaded_by, stem_similarity, choices_similarity,
+          ${scoreSql('stem_similarity', 'choices_similarity', 'input_choices', 'existing_choices')} as similarity
+        FROM (
+          SELECT i.idx as input_idx, i.choices as input_choices, q.id, q.question_number, q.question, q.review_status, q.uploaded_by,
+            concat_ws(' ', q.choice_a, q.choice_b, q.choice_c, q.choice_d, q.choice_e, q.choice_f, q.choice_g) as existing_choices,
+            similarity(q.question, i.stem) as stem_similarity,
+            similarity(concat_ws(' ', q.choice_a, q.choice_b, q.choice_c, q.choice_d, q.choice_e, q.choice_f, q.choice_g), i.choices) as choices_similarity
+          FROM input i
+          JOIN questions q ON ${conditions.join(' AND ')}
+        ) pairs
+      )
+      SELECT * FROM (
+        SELECT scored.*, ROW_NUMBER() OVER (PARTITION BY input_idx ORDER BY similarity DESC, id ASC) as match_rank
+        FROM scored
+        WHERE similarity >= $3
+      ) ranked
+      WHERE match_rank <= $4
+      ORDER BY input_idx, match_rank
+    `;
+
+    // Rows repeated within the same import, each compared with the rows before it
+    const withinSql = `
+      WITH input AS (
+        SELECT (i.ord - 1)::int as idx, i.stem, i.choices
+        FROM unnest($1::text[], $2::text[]) WITH ORDINALITY AS i(stem, choices, ord)
+      ),
+      scored AS (
+        SELECT later.idx as input_idx, earlier.idx as row_idx, earlier.stem as question,
+          similarity(earlier.stem, later.stem) as stem_similarity,
+          similarity(earlier.choices, later.choices) as choices_similarity,
+          later.choices as later_choices, earlier.choices as earlier_choices
+        FROM input later
+        JOIN input earlier ON earlier.idx < later.idx AND earlier.stem % later.stem
+      )
+      SELECT * FROM (
+        SELECT input_idx, row_idx, question, stem_similarity, choices_similarity, similarity,
+          ROW_NUMBER() OVER (PARTITION BY input_idx ORDER BY similarity DESC, row_idx ASC) as match_rank
+        FROM (
+          SELECT scored.*, ${scoreSql('stem_similarity', 'choices_similarity', 'later_choices', 'earlier_choices')} as similarity
+          FROM scored
+        ) with_score
+        WHERE similarity >= $3
+      ) ranked
+      WHERE match_rank <= $4
+      ORDER BY input_idx, match_rank
+    `;
+
+    const [existing, within] = await Promise.all([
+      query(existingSql, values),
+      candidates.length > 1 ? query(withinSql, [stems, choices, threshold, MAX_MATCHES]) : Promise.resolve({ rows: [] })
+    ]);
+
+    for (const row of existing.rows) {
+      matches[row.input_idx].push({
+        question_id: row.id,
+        question_number: row.question_number,
+        review_status: row.review_status,
+        uploaded_by: row.uploaded_by,
+        question: row.question,
+        similarity: toNumber(row.similarity),
+        stem_similarity: toNumber(row.stem_similarity),
+        choices_similarity: toNumber(row.choices_similarity)
+      });
+    }
+    for (const row of within.rows) {
+      matches[row.input_idx].push({
+        row: row.row_idx,
+        question: row.question,
+        similarity: toNumber(row.similarity),
+        stem_similarity: toNumber(row.stem_similarity),
+        choices_similarity: toNumber(row.choices_similarity)
+      });
+    }
+
+    return matches;
+  }
+}
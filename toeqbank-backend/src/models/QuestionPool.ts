@@ -0,0 +1,152 @@
+import { query } from './database';
+
+export interface QuestionPoolFilters {
+  status: 'approved' | 'pending';
+  exam_category?: string;
+  exam_type?: string;
+  exam_name?: string;
+  // Raw stored subtopic strings; a question matches if it has any of them for exam_name
+  subtopics?: string[];
+  view_types?: string[];
+  modalities?: string[];
+  difficulty_min?: number;
+  difficulty_max?: number;
+  // Full-text search, same syntax as the question search box
+  search?: string;
+  // Both need user_id
+  unseen_only?: boolean;
+  missed_only?: boolean;
+  user_id?: number;
+}
+
+export interface PoolCandidate {
+  id: number;
+  exam_subtopics: string[];
+}
+
+export class QuestionPoolModel {
+  // Find the ids of questions matching every given filter (plus their subtopics for exam_name, if set)
+  static async findCandidates(filters: QuestionPoolFilters): Promise<PoolCandidate[]> {
+    const values: any[] = [filters.status];
+    let paramCounter = 2;
+
+    const examNameParam = filters.exam_name ? `$${paramCounter++}` : null;
+    if (filters.exam_name) values.push(filters.exam_name);
+
+    let sql = `
+      SELECT q.id,
+        ${examNameParam
+          ? `COALESCE((SELECT qea.subtopics FROM question_exam_assignments qea
+              WHERE qea.question_id = q.id AND qea.exam_name = ${examNameParam}), '{}') as exam_subtopics`
+          : `'{}'::text[] as exam_subtopics`}
+      FROM questions q
+      WHERE q.review_status = $1
+      -- Exclude questions that have image descriptions but no actual images
+      AND NOT EXISTS (
+        SELECT 1 FROM image_descriptions id
+        WHERE id.question_id = q.id
+        AND NOT EXISTS (
+          SELECT 1 FROM question_images qi
+          WHERE qi.question_id = q.id
+        )
+      )
+    `;
+
+    if (filters.exam_category && filters.exam_type) {
+      sql += ` AND q.exam_category = $${paramCounter++} AND q.exam_type = $${paramCounter++}`;
+      values.push(filters.exam_category, filters.exam_type);
+    }
+
+    if (examNameParam) {
+      sql += ` AND EXISTS (
+        SELECT 1 FROM question_exam_assignments qea
+        WHERE qea.question_id = q.id AND qea.exam_name = ${examNameParam}`;
+      if (filters.subtopics && filters.subtopics.length > 0) {
+        sql += ` AND qea.subtopics && $${paramCounter++}::text[]`;
+        values.push(filters.subtopics);
+      }
+      sql += ')';
+    }
+
+    if (filters.view_types && filters.view_types.length > 0) {
+      sql += ` AND EXISTS (
+        SELECT 1 FROM question_metadata qm
+        WHERE qm.question_id = q.id AND qm.view_type = ANY($${paramCounter++}::text[])
+      )`;
+      values.push(filters.view_types);
+    }
+
+    if (filters.modalities && filters.modalities.length > 0) {
+      sql += ` AND EXISTS (
+        SELECT 1 FROM question_metadata qm
+        WHERE qm.question_id = q.id AND qm.modalities && $${paramCounter++}::text[]
+      )`;
+      values.push(filters.modalities);
+    }
+
+    if (filters.difficulty_min !== undefined) {
+      sql += ` AND q.difficulty_rating >= $${paramCounter++}`;
+      values.push(filters.difficulty_min);
+    }
+    if (filters.difficulty_max !== undefined) {
+      sql += ` AND q.difficulty_rating <= $${paramCounter++}`;
+      values.push(filters.difficulty_max);
+    }
+
+    if (filters.search) {
+      sql += ` AND q.search_vector @@ websearch_to_tsquery('english', $${paramCounter++})`;
+      values.push(filters.search);
+    }
+
+    if (filters.user_id && (filters.unseen_only || filters.missed_only)) {
+      const userParam = `$${paramCounter++}`;
+      values.push(filters.user_id);
+
+      if (filters.unseen_only) {
+        sql += ` AND NOT EXISTS (
+          SELECT 1 FROM user_responses ur WHERE ur.user_id = ${userParam} AND ur.question_id = q.id
+        )`;
+      }
+      if (filters.missed_only) {
+        sql += ` AND EXISTS (
+          SELECT 1 FROM user_responses ur WHERE ur.user_id = ${userParam} AND ur.question_id = q.id AND NOT ur.is_correct
+        )`;
+      }
+    }
+
+    const result = await query(sql, values);
+    return result.rows;
+  }
+
+  // Distinct view types and modalities in use, for the test builder's filter options
+  static async getFilterOptions(examCategory?: string, examType?: string): Promise<{ view_types: string[]; modalities: string[] }> {
+    const values: any[] = [];
+    let examFilter = '';
+    if (examCategory && examType) {
+      examFilter = 'AND q.exam_category = $1 AND q.exam_type = $2';
+      values.push(examCategory, examType);
+    }
+
+    const viewSql = `
+      SELECT DISTINCT qm.view_type as value
+      FROM question_metadata qm
+      JOIN questions q ON q.id = qm.question_id
+      WHERE q.review_status = 'approved' AND qm.view_type IS NOT NULL AND qm.view_type <> '' ${examFilter}
+      ORDER BY value
+    `;
+    const modalitySql = `
+      SELECT DISTINCT m as value
+      FROM question_metadata qm
+      JOIN questions q ON q.id = qm.question_id
+      CROSS JOIN LATERAL unnest(qm.modalities) AS m
+      WHERE q.review_status = 'approved' AND m <> '' ${examFilter}
+      ORDER BY value
+    `;
+
+    const [views, modalities] = await Promise.all([query(viewSql, values), query(modalitySql, values)]);
+    return {
+      view_types: views.rows.map((row: any) => row.value),
+      modalities: modalities.rows.map((row: any) => row.value)
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { query } from './database';
+
+export interface QuestionReviewSchedule {
+  id?: number;
+  user_id: number;
+  question_id: number;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_date?: Date;
+  last_quality?: number | null;
+  last_reviewed_at?: Date | null;
+  is_due?: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type ScheduleUpdate = Pick<QuestionReviewSchedule, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapses'>;
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// pg returns DECIMAL columns as strings
+const formatSchedule = (row: any): QuestionReviewSchedule => ({
+  ...row,
+  ease_factor: parseFloat(row.ease_factor)
+});
+
+export class QuestionReviewScheduleModel {
+  /**
+   * SM-2: quality is 0-5; anything below 3 is a lapse that restarts the card at a one-day interval.
+   * Returns the new ease factor, interval (days until due) and repetition count.
+   */
+  static calculateNext(current: ScheduleUpdate | null, quality: number): ScheduleUpdate {
+    const previous = current || { ease_factor: DEFAULT_EASE_FACTOR, interval_days: 0, repetitions: 0, lapses: 0 };
+
+    const easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      previous.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    if (quality < 3) {
+      return {
+        ease_factor: Math.round(easeFactor * 100) / 100,
+        interval_days: 1,
+        repetitions: 0,
+        lapses: previous.lapses + (previous.repetitions > 0 ? 1 : 0)
+      };
+    }
+
+    const repetitions = previous.repetitions + 1;
+    let intervalDays: number;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(previous.interval_days * easeFactor);
+    }
+
+    return {
+      ease_factor: Math.round(easeFactor * 100) / 100,
+      interval_days: intervalDays,
+      repetitions,
+      lapses: previous.lapses
+    };
+  }
+
+  static async findByUser(userId: number): Promise<QuestionReviewSchedule[]> {
+    const sql = `
+      SELECT *, due_date <= CURRENT_DATE as is_due
+      FROM question_review_schedules
+      WHERE user_id = $1
+      ORDER BY due_date ASC, ease_factor ASC
+    `;
+    const result = await query(sql, [userId]);
+    return result.rows.map(formatSchedule);
+  }
+
+  static async findOne(userId: number, questionId: number): Promise<QuestionReviewSchedule | null> {
+    const sql = 'SELECT * FROM question_review_schedules WHERE user_id = $1 AND question_id = $2';
+    const result = await query(sql, [userId, questionId]);
+    return result.rows[0] ? formatSchedule(result.rows[0]) : null;
+  }
+
+  // Grade one review and store the resulting schedule
+  static async recordReview(userId: number, questionId: number, quality: number): Promise<QuestionReviewSchedule> {
+    const current = await this.findOne(userId, questionId);
+    const next = this.calculateNext(current, quality);
+
+    const sql = `
+      INSERT INTO question_review_schedules
+        (user_id, question_id, ease_factor, interval_days, repetitions, lapses, due_date, last_quality, last_reviewed_at)
+      VALUES ($1, $2, $3, $4, $5, $6, CURRENT_DATE + $4::int, $7, CURRENT_TIMESTAMP)
+      ON CONFLICT (user_id, question_id)
+      DO UPDATE SET
+        ease_factor = EXCLUDED.ease_factor,
+        interval_days = EXCLUDED.interval_days,
+        repetitions = EXCLUDED.repetitions,
+        lapses = EXCLUDED.lapses,
+        due_date = EXCLUDED.due_date,
+        last_quality = EXCLUDED.last_quality,
+        last_reviewed_at = EXCLUDED.last_reviewed_at,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    const result = await query(sql, [
+      userId,
+      questionId,
+      next.ease_factor,
+      next.interval_days,
+      next.repetitions,
+      next.lapses,
+      quality
+    ]);
+    return formatSchedule(result.rows[0]);
+  }
+
+  static async reset(userId: number, questionId: number): Promise<boolean> {
+    const sql = 'DELETE FROM question_review_schedules WHERE user_id = $1 AND question_id = $2';
+    const result = await query(sql, [userId, questionId]);
+    return result.rowCount > 0;
+  }
+}
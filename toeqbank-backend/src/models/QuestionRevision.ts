@@ -0,0 +1,224 @@
+import pool, { query } from './database';
+
+export type RevisionChangeType = 'initial' | 'create' | 'edit' | 'metadata' | 'exams' | 'images' | 'restore';
+
+export interface RevisionSnapshot {
+  question: {
+    question: string;
+    choice_a: string | null;
+    choice_b: string | null;
+    choice_c: string | null;
+    choice_d: string | null;
+    choice_e: string | null;
+    choice_f: string | null;
+    choice_g: string | null;
+    correct_answer: string;
+    explanation: string | null;
+    source_folder: string | null;
+  };
+  metadata: {
+    difficulty: string | null;
+    category: string | null;
+    topic: string | null;
+    keywords: string[] | null;
+    question_type: string | null;
+    view_type: string | null;
+    major_structures: string[] | null;
+    minor_structures: string[] | null;
+    modalities: string[] | null;
+  } | null;
+  exams: { exam_name: string; subtopics: string[] | null; reasoning: string | null }[];
+  images: { image_id: number; display_order: number; usage_type: string }[];
+}
+
+// One changed field between two revisions: question fields by column name,
+// metadata as metadata.<column>, exam assignments as exam:<name>, image links as image:<id>
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface QuestionRevision {
+  id: number;
+  question_id: number;
+  revision_number: number;
+  change_type: RevisionChangeType;
+  restored_from?: number | null;
+  restored_from_number?: number | null;
+  created_by?: number | null;
+  created_by_username?: string | null;
+  created_at: Date;
+  snapshot?: RevisionSnapshot;
+  // Differences from the previous revision; empty for the first one
+  changes?: FieldChange[];
+}
+
+const METADATA_FIELDS = [
+  'difficulty', 'category', 'topic', 'keywords', 'question_type',
+  'view_type', 'major_structures', 'minor_structures', 'modalities'
+] as const;
+
+// Appends the question's current state, unless it matches the latest revision
+const RECORD_SQL = `
+  INSERT INTO question_revisions (question_id, revision_number, snapshot, change_type, created_by, restored_from)
+  SELECT ids.question_id, COALESCE(latest.revision_number, 0) + 1, current.snapshot, $2, $3, $4
+  FROM unnest($1::int[]) AS ids(question_id)
+  CROSS JOIN LATERAL (SELECT question_revision_snapshot(ids.question_id) AS snapshot) current
+  LEFT JOIN LATERAL (
+    SELECT r.revision_number, r.snapshot
+    FROM question_revisions r
+    WHERE r.question_id = ids.question_id
+    ORDER BY r.revision_number DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE current.snapshot IS NOT NULL
+    AND latest.snapshot IS DISTINCT FROM current.snapshot
+  RETURNING *
+`;
+
+// Flatten a snapshot into comparable fields
+const flattenSnapshot = (snapshot: RevisionSnapshot): Record<string, any> => {
+  const fields: Record<string, any> = { ...snapshot.question };
+  for (const field of METADATA_FIELDS) {
+    fields[`metadata.${field}`] = snapshot.metadata?.[field] ?? null;
+  }
+  for (const exam of snapshot.exams) {
+    fields[`exam:${exam.exam_name}`] = { subtopics: exam.subtopics, reasoning: exam.reasoning };
+  }
+  for (const image of snapshot.images) {
+    fields[`image:${image.image_id}`] = { display_order: image.display_order, usage_type: image.usage_type };
+  }
+  return fields;
+};
+
+export class QuestionRevisionModel {
+  // Record a revision for each question whose state changed since its latest revision
+  static async recordMany(questionIds: number[], changeType: RevisionChangeType, userId?: number | null): Promise<QuestionRevision[]> {
+    if (questionIds.length === 0) return [];
+    const result = await query(RECORD_SQL, [questionIds, changeType, userId || null, null]);
+    return result.rows;
+  }
+
+  static async record(questionId: number, changeType: RevisionChangeType, userId?: number | null): Promise<QuestionRevision | null> {
+    const [revision] = await this.recordMany([questionId], changeType, userId);
+    return revision || null;
+  }
+
+  // Revisions newest first, each with its field-level changes from the one before
+  static async findByQuestion(questionId: number): Promise<QuestionRevision[]> {
+    const sql = `
+      SELECT r.*, u.username as created_by_username, rr.revision_number as restored_from_number
+      FROM question_revisions r
+      LEFT JOIN users u ON u.id = r.created_by
+      LEFT JOIN question_revisions rr ON rr.id = r.restored_from
+      WHERE r.question_id = $1
+      ORDER BY r.revision_number ASC
+    `;
+    const result = await query(sql, [questionId]);
+
+    const revisions: QuestionRevision[] = result.rows.map((row: any, index: number) => {
+      const { snapshot, ...revision } = row;
+      return {
+        ...revision,
+        changes: index === 0 ? [] : this.diff(result.rows[index - 1].snapshot, snapshot)
+      };
+    });
+    return revisions.reverse();
+  }
+
+  static async findById(questionId: number, revisionId: number): Promise<QuestionRevision | null> {
+    const sql = `
+      SELECT r.*, u.username as created_by_username, rr.revision_number as restored_from_number
+      FROM question_revisions r
+      LEFT JOIN users u ON u.id = r.created_by
+      LEFT JOIN question_revisions rr ON rr.id = r.restored_from
+      WHERE r.question_id = $1 AND r.id = $2
+    `;
+    const result = await query(sql, [questionId, revisionId]);
+    return result.rows[0] || null;
+  }
+
+  // Field-level differences between two snapshots
+  static diff(before: RevisionSnapshot, after: RevisionSnapshot): FieldChange[] {
+    const beforeFields = flattenSnapshot(before);
+    const afterFields = flattenSnapshot(after);
+    const fields = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]));
+
+    return fields
+      .filter(field => JSON.stringify(beforeFields[field] ?? null) !== JSON.stringify(afterFields[field] ?? null))
+      .map(field => ({ field, before: beforeFields[field] ?? null, after: afterFields[field] ?? null }));
+  }
+
+  // Write a revision's snapshot back to the question and record the result as a new revision;
+  // returns null when the question already matched it
+  static async restore(revision: QuestionRevision, userId: number): Promise<QuestionRevision | null> {
+    const { question_id: questionId } = revision;
+    const { question, metadata, exams, images } = revision.snapshot!;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(`
+        UPDATE questions
+        SET question = $2, choice_a = $3, choice_b = $4, choice_c = $5, choice_d = $6, choice_e = $7,
+            choice_f = $8, choice_g = $9, correct_answer = $10, explanation = $11, source_folder = $12,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [
+        questionId, question.question, question.choice_a, question.choice_b, question.choice_c, question.choice_d,
+        question.choice_e, question.choice_f, question.choice_g, question.correct_answer, question.explanation,
+        question.source_folder
+      ]);
+
+      if (metadata) {
+        await client.query(`
+          INSERT INTO question_metadata (
+            question_id, difficulty, category, topic, keywords, question_type,
+            view_type, major_structures, minor_structures, modalities
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          ON CONFLICT (question_id) DO UPDATE SET
+            difficulty = EXCLUDED.difficulty,
+            category = EXCLUDED.category,
+            topic = EXCLUDED.topic,
+            keywords = EXCLUDED.keywords,
+            question_type = EXCLUDED.question_type,
+            view_type = EXCLUDED.view_type,
+            major_structures = EXCLUDED.major_structures,
+            minor_structures = EXCLUDED.minor_structures,
+            modalities = EXCLUDED.modalities,
+            updated_at = CURRENT_TIMESTAMP
+        `, [questionId, ...METADATA_FIELDS.map(field => metadata[field])]);
+      } else {
+        await client.query('DELETE FROM question_metadata WHERE question_id = $1', [questionId]);
+      }
+
+      await client.query('DELETE FROM question_exam_assignments WHERE question_id = $1', [questionId]);
+      for (const exam of exams) {
+        await client.query(`
+          INSERT INTO question_exam_assignments (question_id, exam_name, subtopics, reasoning)
+          VALUES ($1, $2, $3, $4)
+        `, [questionId, exam.exam_name, exam.subtopics, exam.reasoning]);
+      }
+
+      // Images deleted since the revision was taken cannot be linked again
+      await client.query('DELETE FROM question_images WHERE question_id = $1', [questionId]);
+      for (const image of images) {
+        await client.query(`
+          INSERT INTO question_images (question_id, image_id, display_order, usage_type)
+          SELECT $1, id, $3, $4 FROM images WHERE id = $2
+        `, [questionId, image.image_id, image.display_order, image.usage_type]);
+      }
+
+      const result = await client.query(RECORD_SQL, [[questionId], 'restore', userId, revision.id]);
+      await client.query('COMMIT');
+      return result.rows[0] || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
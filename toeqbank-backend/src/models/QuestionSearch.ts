@@ -0,0 +1,187 @@
+import { query } from './database';
+
+export type SearchFacet = 'review_status' | 'category' | 'view_type';
+
+export interface QuestionSearchFilters {
+  text: string;
+  // Statuses the caller may see; review_status narrows within them
+  allowed_statuses: string[];
+  exam_category: string;
+  // Omitted to search the whole category (USMLE users see every step)
+  exam_type?: string;
+  review_status?: string;
+  category?: string;
+  view_type?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface SearchSnippet {
+  field: 'question' | 'choices' | 'explanation' | 'keywords' | 'image_descriptions';
+  // Matched terms are wrapped in <mark></mark>; everything else is plain text
+  text: string;
+}
+
+export interface QuestionSearchResult {
+  id: number;
+  question_number?: string;
+  question: string;
+  review_status: string;
+  exam_category?: string;
+  exam_type?: string;
+  category: string | null;
+  view_type: string | null;
+  rank: number;
+  snippets: SearchSnippet[];
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface QuestionSearchResponse {
+  results: QuestionSearchResult[];
+  total: number;
+  facets: Record<SearchFacet, FacetCount[]>;
+}
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Column each facet counts and filters on
+const FACET_COLUMNS: Record<SearchFacet, string> = {
+  review_status: 'q.review_status',
+  category: 'qm.category',
+  view_type: 'qm.view_type'
+};
+
+const SEARCH_FROM = `
+  FROM questions q
+  LEFT JOIN question_metadata qm ON qm.question_id = q.id
+  CROSS JOIN (SELECT websearch_to_tsquery('english', $1) AS query) s
+`;
+
+// WHERE clause for the search; `omit` leaves out one facet's own filter so its counts show the alternatives
+const buildConditions = (filters: QuestionSearchFilters, omit?: SearchFacet) => {
+  const values: any[] = [filters.text, filters.allowed_statuses, filters.exam_category];
+  const conditions = [
+    'q.search_vector @@ s.query',
+    'q.review_status = ANY($2::text[])',
+    'q.exam_category = $3'
+  ];
+
+  if (filters.exam_type) {
+    values.push(filters.exam_type);
+    conditions.push(`q.exam_type = $${values.length}`);
+  }
+
+  for (const facet of Object.keys(FACET_COLUMNS) as SearchFacet[]) {
+    const value = filters[facet];
+    if (value && facet !== omit) {
+      values.push(value);
+      conditions.push(`${FACET_COLUMNS[facet]} = $${values.length}`);
+    }
+  }
+
+  return { where: `WHERE ${conditions.join(' AND ')}`, values };
+};
+
+export class QuestionSearchModel {
+  static async search(filters: QuestionSearchFilters): Promise<QuestionSearchResponse> {
+    const { where, values } = buildConditions(filters);
+    const limitParam = values.length + 1;
+    const optionsParam = values.length + 3;
+
+    // Rank and page first, then build snippets only for the rows being returned
+    const sql = `
+      WITH matches AS (
+        SELECT q.id, q.question_number, q.question, q.explanation, q.review_status, q.exam_category, q.exam_type,
+          concat_ws(' ', q.choice_a, q.choice_b, q.choice_c, q.choice_d, q.choice_e, q.choice_f, q.choice_g) as choices,
+          qm.category, qm.view_type, array_to_string(qm.keywords, ', ') as keywords,
+          s.query,
+          ts_rank_cd(q.search_vector, s.query) as rank,
+          COUNT(*) OVER () as total
+        ${SEARCH_FROM}
+        ${where}
+        ORDER BY rank DESC, q.id ASC
+        LIMIT $${limitParam} OFFSET $${limitParam + 1}
+      )
+      SELECT m.id, m.question_number, m.question, m.review_status, m.exam_category, m.exam_type,
+        m.category, m.view_type, m.rank, m.total,
+        ts_headline('english', m.question, m.query, $${optionsParam}) as question_snippet,
+        CASE WHEN to_tsvector('english', m.choices) @@ m.query
+          THEN ts_headline('english', m.choices, m.query, $${optionsParam}) END as choices_snippet,
+        CASE WHEN to_tsvector('english', COALESCE(m.explanation, '')) @@ m.query
+          THEN ts_headline('english', m.explanation, m.query, $${optionsParam}) END as explanation_snippet,
+        CASE WHEN to_tsvector('english', COALESCE(m.keywords, '')) @@ m.query
+          THEN ts_headline('english', m.keywords, m.query, $${optionsParam}) END as keywords_snippet,
+        (
+          SELECT ts_headline('english', string_agg(d.description, ' '), m.query, $${optionsParam})
+          FROM image_descriptions d
+          WHERE d.question_id = m.id
+          HAVING to_tsvector('english', string_agg(d.description, ' ')) @@ m.query
+        ) as image_descriptions_snippet
+      FROM matches m
+      ORDER BY m.rank DESC, m.id ASC
+    `;
+
+    const [result, facets] = await Promise.all([
+      query(sql, [...values, filters.limit, filters.offset, HEADLINE_OPTIONS]),
+      this.getFacets(filters)
+    ]);
+
+    const results: QuestionSearchResult[] = result.rows.map((row: any) => {
+      // The stem is always shown; other fields only when they matched
+      const snippets: SearchSnippet[] = [{ field: 'question', text: row.question_snippet }];
+      for (const field of ['choices', 'explanation', 'keywords', 'image_descriptions'] as const) {
+        if (row[`${field}_snippet`]) {
+          snippets.push({ field, text: row[`${field}_snippet`] });
+        }
+      }
+
+      return {
+        id: row.id,
+        question_number: row.question_number,
+        question: row.question,
+        review_status: row.review_status,
+        exam_category: row.exam_category,
+        exam_type: row.exam_type,
+        category: row.category,
+        view_type: row.view_type,
+        rank: parseFloat(row.rank),
+        snippets
+      };
+    });
+
+    // With an offset past the last match there are no rows to read the total from
+    const statusCounts = facets.review_status.filter(facet => !filters.review_status || facet.value === filters.review_status);
+    const total = result.rows[0]
+      ? parseInt(result.rows[0].total)
+      : statusCounts.reduce((sum, facet) => sum + facet.count, 0);
+
+    return { results, total, facets };
+  }
+
+  // Match counts per review status, category and view
+  static async getFacets(filters: QuestionSearchFilters): Promise<Record<SearchFacet, FacetCount[]>> {
+    const facetNames = Object.keys(FACET_COLUMNS) as SearchFacet[];
+    const counts = await Promise.all(facetNames.map(facet => {
+      const { where, values } = buildConditions(filters, facet);
+      const column = FACET_COLUMNS[facet];
+      const sql = `
+        SELECT ${column} as value, COUNT(*) as count
+        ${SEARCH_FROM}
+        ${where} AND ${column} IS NOT NULL AND ${column} <> ''
+        GROUP BY ${column}
+        ORDER BY count DESC, value ASC
+      `;
+      return query(sql, values);
+    }));
+
+    const facets = {} as Record<SearchFacet, FacetCount[]>;
+    facetNames.forEach((facet, index) => {
+      facets[facet] = counts[index].rows.map((row: any) => ({ value: row.value, count: parseInt(row.count) }));
+    });
+    return facets;
+  }
+}
@@ -0,0 +1,84 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Pool } from 'pg';
+import pool from './database';
+import { ReviewAssignmentModel } from './ReviewAssignment';
+import { ReviewVoteModel } from './ReviewVote';
+import { QuestionModel } from './Question';
+
+// Routing is all SQL, so these run against a real database: set TEST_DATABASE_URL to run them.
+// Everything is created in a throwaway schema that is dropped afterwards.
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const schema = `review_routing_test_${process.pid}`;
+let testPool: Pool;
+
+const AUTHOR = 1;
+const ASSIGNEE = 2;
+const SECOND_REVIEWER = 3;
+
+before(async () => {
+  if (!databaseUrl) return;
+  testPool = new Pool({ connectionString: databaseUrl, options: `-c search_path=${schema}` });
+  pool.connect = () => testPool.connect();
+
+  await testPool.query(`
+    CREATE SCHEMA ${schema};
+    SET search_path = ${schema};
+    CREATE TABLE users (id INTEGER PRIMARY KEY, username VARCHAR(50));
+    CREATE TABLE upload_batches (id INTEGER PRIMARY KEY, assigned_reviewer_id INTEGER);
+    CREATE TABLE questions (
+      id INTEGER PRIMARY KEY, question_number VARCHAR(20), question TEXT, correct_answer VARCHAR(1),
+      exam_category VARCHAR(50), exam_type VARCHAR(50), review_status VARCHAR(20), review_notes TEXT,
+      review_round INTEGER NOT NULL DEFAULT 1, reviewed_by INTEGER, reviewed_at TIMESTAMP, difficulty_rating INTEGER,
+      uploaded_by INTEGER, batch_id INTEGER, created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, updated_at TIMESTAMP
+    );
+    CREATE TABLE image_descriptions (question_id INTEGER, usage_type VARCHAR(20));
+    CREATE TABLE question_images (question_id INTEGER, usage_type VARCHAR(20));
+    CREATE TABLE review_quorums (exam_type VARCHAR(50) PRIMARY KEY, required_approvals INTEGER NOT NULL);
+    CREATE TABLE review_claims (
+      question_id INTEGER PRIMARY KEY, reviewer_id INTEGER NOT NULL, claimed_at TIMESTAMP, expires_at TIMESTAMP
+    );
+    CREATE TABLE question_review_votes (
+      id SERIAL PRIMARY KEY, question_id INTEGER NOT NULL, review_round INTEGER NOT NULL, reviewer_id INTEGER,
+      decision VARCHAR(20) NOT NULL, notes TEXT, difficulty_rating INTEGER, is_adjudication BOOLEAN NOT NULL DEFAULT false,
+      claimed_at TIMESTAMP, created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE question_review_vote_reasons (vote_id INTEGER, criterion_code VARCHAR(50), score INTEGER);
+
+    INSERT INTO users VALUES (${AUTHOR}, 'author'), (${ASSIGNEE}, 'assignee'), (${SECOND_REVIEWER}, 'second');
+    INSERT INTO review_quorums VALUES ('eacvi_toe', 2);
+    INSERT INTO upload_batches VALUES (1, ${ASSIGNEE});
+    INSERT INTO questions (id, question_number, question, correct_answer, exam_category, exam_type, review_status, uploaded_by, batch_id)
+    VALUES (10, 'Q0010', 'Which view is shown?', 'A', 'echocardiography', 'eacvi_toe', 'pending', ${AUTHOR}, 1);
+  `);
+});
+
+after(async () => {
+  if (!databaseUrl) return;
+  await testPool.query(`DROP SCHEMA ${schema} CASCADE`);
+  await testPool.end();
+});
+
+const queueFor = async (reviewerId: number) =>
+  (await QuestionModel.getPendingReview('echocardiography', 'eacvi_toe', reviewerId)).map(question => question.id);
+
+test('an assigned question in a quorum-2 exam type reaches a decision', { skip: !databaseUrl && 'TEST_DATABASE_URL is not set' }, async () => {
+  // Until the assignee votes, the batch is theirs alone
+  assert.deepEqual(await queueFor(SECOND_REVIEWER), []);
+  assert.equal(await ReviewAssignmentModel.claimNext(SECOND_REVIEWER), null);
+  assert.equal((await ReviewAssignmentModel.claimNext(ASSIGNEE))?.question.id, 10);
+
+  const first = await ReviewVoteModel.castVote(10, ASSIGNEE, 'approved', '');
+  assert.equal(first.status, 'pending');
+  assert.equal(first.votes_cast, 1);
+
+  // The assignee has had their say, so the second approval must come from someone else
+  assert.deepEqual(await queueFor(ASSIGNEE), []);
+  assert.deepEqual(await queueFor(SECOND_REVIEWER), [10]);
+  assert.equal((await ReviewAssignmentModel.claimNext(SECOND_REVIEWER))?.question.id, 10);
+
+  const second = await ReviewVoteModel.castVote(10, SECOND_REVIEWER, 'approved', '');
+  assert.equal(second.status, 'approved');
+  assert.equal(second.question.review_status, 'approved');
+  assert.deepEqual(await queueFor(SECOND_REVIEWER), []);
+});
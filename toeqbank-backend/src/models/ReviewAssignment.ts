@@ -0,0 +1,194 @@
+import pool, { query } from './database';
+import { Question, REVIEW_READY_CONDITION, reviewerRoutingCondition } from './Question';
+
+// How long a claimed question stays reserved for its reviewer
+export const REVIEW_CLAIM_MINUTES = 30;
+
+export interface ReviewClaim {
+  question_id: number;
+  reviewer_id: number;
+  reviewer_username?: string;
+  claimed_at: Date;
+  expires_at: Date;
+}
+
+export interface ClaimedQuestion {
+  question: Question;
+  claim: ReviewClaim;
+}
+
+export interface ReviewerWorkload {
+  reviewer_id: number;
+  username: string;
+  votes_last_7_days: number;
+  votes_last_30_days: number;
+  votes_total: number;
+  // Average minutes from claiming a question to voting on it
+  avg_turnaround_minutes: number | null;
+  active_claims: number;
+  assigned_batches: number;
+  assigned_pending: number;
+}
+
+const CLAIM_SQL = `
+  INSERT INTO review_claims (question_id, reviewer_id, claimed_at, expires_at)
+  VALUES ($1, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP + make_interval(mins => $3))
+  ON CONFLICT (question_id) DO UPDATE SET
+    reviewer_id = EXCLUDED.reviewer_id,
+    claimed_at = CASE WHEN review_claims.reviewer_id = EXCLUDED.reviewer_id THEN review_claims.claimed_at ELSE EXCLUDED.claimed_at END,
+    expires_at = EXCLUDED.expires_at
+  WHERE review_claims.reviewer_id = EXCLUDED.reviewer_id OR review_claims.expires_at <= CURRENT_TIMESTAMP
+  RETURNING *
+`;
+
+export class ReviewAssignmentModel {
+  // Claim the reviewer's next question, renewing the lease on one they already hold.
+  // Questions from batches assigned to them come first; returns null when nothing is left.
+  static async claimNext(reviewerId: number, examCategory?: string, examType?: string): Promise<ClaimedQuestion | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const values: any[] = [reviewerId];
+      let filters = '';
+      if (examCategory) {
+        values.push(examCategory);
+        filters += ` AND q.exam_category = $${values.length}`;
+      }
+      if (examType) {
+        values.push(examType);
+        filters += ` AND q.exam_type = $${values.length}`;
+      }
+
+      // Locked rows are being claimed by someone else right now, so skip them rather than wait
+      const candidate = await client.query(`
+        SELECT q.*
+        FROM questions q
+        LEFT JOIN upload_batches ub ON ub.id = q.batch_id
+        LEFT JOIN review_claims c ON c.question_id = q.id AND c.reviewer_id = $1 AND c.expires_at > CURRENT_TIMESTAMP
+        WHERE ${REVIEW_READY_CONDITION}
+          AND ${reviewerRoutingCondition('$1')}
+          ${filters}
+        ORDER BY
+          (c.question_id IS NOT NULL) DESC,
+          (ub.assigned_reviewer_id IS NOT NULL) DESC,
+          CASE
+            WHEN q.question_number IS NULL THEN 0
+            WHEN q.question_number ~ '^Q?[0-9]+$' THEN CAST(REGEXP_REPLACE(q.question_number, '^Q', '') AS INTEGER)
+            ELSE 0
+          END DESC,
+          q.created_at DESC
+        LIMIT 1
+        FOR UPDATE OF q SKIP LOCKED
+      `, values);
+
+      const question: Question | undefined = candidate.rows[0];
+      if (!question) {
+        await client.query('COMMIT');
+        return null;
+      }
+
+      const claim = await client.query(CLAIM_SQL, [question.id, reviewerId, REVIEW_CLAIM_MINUTES]);
+      await client.query('COMMIT');
+      return { question, claim: claim.rows[0] };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // The unexpired claim on a question, if any
+  static async findActiveClaim(questionId: number): Promise<ReviewClaim | null> {
+    const sql = `
+      SELECT c.*, u.username as reviewer_username
+      FROM review_claims c
+      JOIN users u ON u.id = c.reviewer_id
+      WHERE c.question_id = $1 AND c.expires_at > CURRENT_TIMESTAMP
+    `;
+    const result = await query(sql, [questionId]);
+    return result.rows[0] || null;
+  }
+
+  static async release(questionId: number, reviewerId: number): Promise<boolean> {
+    const result = await query('DELETE FROM review_claims WHERE question_id = $1 AND reviewer_id = $2', [questionId, reviewerId]);
+    return result.rowCount > 0;
+  }
+
+  // Route a batch to one reviewer, or back to the shared queue with null
+  static async assignBatch(batchId: number, reviewerId: number | null): Promise<boolean> {
+    const sql = `
+      UPDATE upload_batches
+      SET assigned_reviewer_id = $2, assigned_at = CASE WHEN $2::int IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END
+      WHERE id = $1
+    `;
+    const result = await query(sql, [batchId, reviewerId]);
+    return result.rowCount > 0;
+  }
+
+  // Throughput and turnaround for every reviewer, counting votes on questions in an exam
+  // (omit examType for the whole category)
+  static async getWorkload(examCategory: string, examType?: string): Promise<ReviewerWorkload[]> {
+    const values: any[] = [examCategory];
+    let examFilter = 'q.exam_category = $1';
+    if (examType) {
+      values.push(examType);
+      examFilter += ' AND q.exam_type = $2';
+    }
+
+    const sql = `
+      SELECT
+        u.id as reviewer_id,
+        u.username,
+        COALESCE(v.last_7_days, 0) as votes_last_7_days,
+        COALESCE(v.last_30_days, 0) as votes_last_30_days,
+        COALESCE(v.total, 0) as votes_total,
+        v.avg_turnaround_minutes,
+        COALESCE(c.active_claims, 0) as active_claims,
+        COALESCE(b.assigned_batches, 0) as assigned_batches,
+        COALESCE(b.assigned_pending, 0) as assigned_pending
+      FROM users u
+      LEFT JOIN (
+        SELECT v.reviewer_id,
+          COUNT(*) FILTER (WHERE v.created_at > CURRENT_TIMESTAMP - INTERVAL '7 days') as last_7_days,
+          COUNT(*) FILTER (WHERE v.created_at > CURRENT_TIMESTAMP - INTERVAL '30 days') as last_30_days,
+          COUNT(*) as total,
+          AVG(EXTRACT(EPOCH FROM (v.created_at - v.claimed_at)) / 60) as avg_turnaround_minutes
+        FROM question_review_votes v
+        JOIN questions q ON q.id = v.question_id
+        WHERE NOT v.is_adjudication AND ${examFilter}
+        GROUP BY v.reviewer_id
+      ) v ON v.reviewer_id = u.id
+      LEFT JOIN (
+        SELECT reviewer_id, COUNT(*) as active_claims
+        FROM review_claims
+        WHERE expires_at > CURRENT_TIMESTAMP
+        GROUP BY reviewer_id
+      ) c ON c.reviewer_id = u.id
+      LEFT JOIN (
+        SELECT ub.assigned_reviewer_id,
+          COUNT(DISTINCT ub.id) as assigned_batches,
+          COUNT(q.id) FILTER (WHERE q.review_status = 'pending') as assigned_pending
+        FROM upload_batches ub
+        JOIN questions q ON q.batch_id = ub.id
+        WHERE ub.assigned_reviewer_id IS NOT NULL AND ${examFilter}
+        GROUP BY ub.assigned_reviewer_id
+      ) b ON b.assigned_reviewer_id = u.id
+      WHERE u.is_reviewer OR u.is_admin
+      ORDER BY votes_last_30_days DESC, u.username
+    `;
+    const result = await query(sql, values);
+    return result.rows.map((row: any) => ({
+      reviewer_id: row.reviewer_id,
+      username: row.username,
+      votes_last_7_days: parseInt(row.votes_last_7_days),
+      votes_last_30_days: parseInt(row.votes_last_30_days),
+      votes_total: parseInt(row.votes_total),
+      avg_turnaround_minutes: row.avg_turnaround_minutes === null ? null : parseFloat(row.avg_turnaround_minutes),
+      active_claims: parseInt(row.active_claims),
+      assigned_batches: parseInt(row.assigned_batches),
+      assigned_pending: parseInt(row.assigned_pending)
+    }));
+  }
+}
@@ -0,0 +1,89 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Pool } from 'pg';
+import pool from './database';
+import { ReviewCommentModel } from './ReviewComment';
+
+// Blinding is all SQL, so these run against a real database: set TEST_DATABASE_URL to run them.
+// Everything is created in a throwaway schema that is dropped afterwards.
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const schema = `review_comment_test_${process.pid}`;
+let testPool: Pool;
+
+const AUTHOR = 1;
+const FIRST_REVIEWER = 2;
+const SECOND_REVIEWER = 3;
+
+before(async () => {
+  if (!databaseUrl) return;
+  testPool = new Pool({ connectionString: databaseUrl, options: `-c search_path=${schema}` });
+  pool.connect = () => testPool.connect();
+
+  await testPool.query(`
+    CREATE SCHEMA ${schema};
+    SET search_path = ${schema};
+    CREATE TABLE users (id INTEGER PRIMARY KEY, username VARCHAR(50), is_reviewer BOOLEAN, is_admin BOOLEAN);
+    CREATE TABLE images (id INTEGER PRIMARY KEY, original_name VARCHAR(255));
+    CREATE TABLE questions (
+      id INTEGER PRIMARY KEY, question_number VARCHAR(20), question TEXT, exam_category VARCHAR(50), exam_type VARCHAR(50),
+      review_status VARCHAR(20), review_round INTEGER NOT NULL DEFAULT 1, uploaded_by INTEGER
+    );
+    CREATE TABLE question_review_votes (
+      id SERIAL PRIMARY KEY, question_id INTEGER NOT NULL, review_round INTEGER NOT NULL, reviewer_id INTEGER,
+      decision VARCHAR(20) NOT NULL, is_adjudication BOOLEAN NOT NULL DEFAULT false
+    );
+    CREATE TABLE review_comments (
+      id SERIAL PRIMARY KEY, question_id INTEGER NOT NULL, parent_id INTEGER, anchor_type VARCHAR(20), anchor_choice CHAR(1),
+      anchor_image_id INTEGER, review_decision VARCHAR(20), review_round INTEGER, body TEXT NOT NULL, author_id INTEGER,
+      resolved_by INTEGER, resolved_at TIMESTAMP WITH TIME ZONE, created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    INSERT INTO users VALUES (${AUTHOR}, 'author', false, false), (${FIRST_REVIEWER}, 'first', true, false), (${SECOND_REVIEWER}, 'second', true, false);
+    INSERT INTO questions VALUES (10, 'Q0010', 'Which view is shown?', 'echocardiography', 'eacvi_toe', 'pending', 2, ${AUTHOR});
+  `);
+});
+
+after(async () => {
+  if (!databaseUrl) return;
+  await testPool.query(`DROP SCHEMA ${schema} CASCADE`);
+  await testPool.end();
+});
+
+const bodies = (threads: { body: string }[]) => threads.map(thread => thread.body).sort();
+
+test('reviewers only see each other\'s current-round threads once they have voted', { skip: !databaseUrl && 'TEST_DATABASE_URL is not set' }, async () => {
+  const thread = await ReviewCommentModel.createThread(10, FIRST_REVIEWER, { anchor_type: 'choice', anchor_choice: 'B' }, 'B is also defensible');
+  assert.equal(thread.review_round, 2);
+  await ReviewCommentModel.reply(thread, AUTHOR, 'Reworded B');
+  await testPool.query(`
+    INSERT INTO review_comments (question_id, anchor_type, body, author_id, review_round)
+    VALUES (10, 'general', 'From round 1', ${FIRST_REVIEWER}, 1), (10, 'general', 'From before rounds', ${FIRST_REVIEWER}, NULL)
+  `);
+  await ReviewCommentModel.createThread(10, FIRST_REVIEWER, { anchor_type: 'general' }, 'Returned: fix B', 'returned');
+
+  const visible = ['From before rounds', 'From round 1', 'Returned: fix B'];
+  assert.deepEqual(bodies(await ReviewCommentModel.findThreads(10, SECOND_REVIEWER)), visible);
+  assert.deepEqual(bodies(await ReviewCommentModel.findOpenThreads({ exam_category: 'echocardiography', reviewer_id: SECOND_REVIEWER })), visible);
+  assert.equal(await ReviewCommentModel.findById(thread.id, SECOND_REVIEWER), null);
+
+  // The thread's own author, the question's author and anyone not asking as a reviewer see it all
+  assert.equal((await ReviewCommentModel.findThreads(10, FIRST_REVIEWER)).length, 4);
+  assert.equal((await ReviewCommentModel.findThreads(10, AUTHOR)).length, 4);
+  const all = await ReviewCommentModel.findThreads(10);
+  assert.deepEqual(all.find(entry => entry.id === thread.id)?.replies.map(reply => reply.body), ['Reworded B']);
+
+  await testPool.query(`INSERT INTO question_review_votes (question_id, review_round, reviewer_id, decision) VALUES (10, 2, ${SECOND_REVIEWER}, 'approved')`);
+  assert.equal((await ReviewCommentModel.findThreads(10, SECOND_REVIEWER)).length, 4);
+  assert.equal((await ReviewCommentModel.findById(thread.id, SECOND_REVIEWER))?.id, thread.id);
+});
+
+test('only the reviewer\'s own open threads count', { skip: !databaseUrl && 'TEST_DATABASE_URL is not set' }, async () => {
+  await testPool.query(`
+    INSERT INTO questions VALUES (11, 'Q0011', 'Which valve?', 'echocardiography', 'eacvi_toe', 'pending', 1, ${AUTHOR});
+    INSERT INTO review_comments (question_id, anchor_type, body, author_id, review_round, resolved_at)
+    VALUES (11, 'general', 'Open', ${FIRST_REVIEWER}, 1, NULL), (11, 'general', 'Resolved', ${SECOND_REVIEWER}, 1, CURRENT_TIMESTAMP)
+  `);
+
+  assert.equal(await ReviewCommentModel.countOpen(11, FIRST_REVIEWER), 1);
+  assert.equal(await ReviewCommentModel.countOpen(11, SECOND_REVIEWER), 0);
+});
@@ -0,0 +1,213 @@
+import { query } from './database';
+
+export type CommentAnchorType = 'question' | 'choice' | 'explanation' | 'image' | 'general';
+
+export interface CommentAnchor {
+  anchor_type: CommentAnchorType;
+  // Letter of the choice, for choice anchors
+  anchor_choice?: string | null;
+  // Attached image, for image anchors
+  anchor_image_id?: number | null;
+}
+
+export interface ReviewComment extends Partial<CommentAnchor> {
+  id: number;
+  question_id: number;
+  parent_id?: number | null;
+  review_decision?: 'approved' | 'rejected' | 'returned' | null;
+  // Round of the question's review the thread was started in
+  review_round?: number | null;
+  body: string;
+  author_id?: number | null;
+  author_username?: string | null;
+  author_is_reviewer?: boolean;
+  resolved_by?: number | null;
+  resolved_by_username?: string | null;
+  resolved_at?: Date | null;
+  created_at: Date;
+}
+
+export interface ReviewThread extends ReviewComment {
+  anchor_type: CommentAnchorType;
+  anchor_image_name?: string | null;
+  replies: ReviewComment[];
+}
+
+// Open threads listed outside the question itself carry enough of it to identify it
+export interface OpenReviewThread extends ReviewThread {
+  question_number?: string;
+  question: string;
+  review_status?: string;
+}
+
+const COMMENT_SELECT = `
+  SELECT c.*, u.username as author_username, (u.is_reviewer OR u.is_admin) as author_is_reviewer,
+    ru.username as resolved_by_username, i.original_name as anchor_image_name
+  FROM review_comments c
+  LEFT JOIN users u ON u.id = c.author_id
+  LEFT JOIN users ru ON ru.id = c.resolved_by
+  LEFT JOIN images i ON i.id = c.anchor_image_id
+`;
+
+// Reviews are blind: a reviewer who can still vote on a pending question doesn't see threads other
+// reviewers started in its current round. Threads are aliased r and their questions q.
+const hiddenFrom = (userParam: string) => `
+  q.review_status = 'pending' AND r.review_round IS NOT NULL AND r.review_round = q.review_round
+  AND r.review_decision IS NULL
+  AND r.author_id IS DISTINCT FROM ${userParam}
+  AND q.uploaded_by IS DISTINCT FROM ${userParam}
+  AND NOT EXISTS (
+    SELECT 1 FROM question_review_votes v
+    WHERE v.question_id = q.id AND v.review_round = q.review_round
+      AND v.reviewer_id = ${userParam} AND NOT v.is_adjudication
+  )
+`;
+
+// Comments whose thread is hidden from the reviewer in the given parameter; comments are aliased c
+const inHiddenThread = (userParam: string) => `
+  EXISTS (
+    SELECT 1 FROM review_comments r
+    JOIN questions q ON q.id = r.question_id
+    WHERE r.id = COALESCE(c.parent_id, c.id) AND ${hiddenFrom(userParam)}
+  )
+`;
+
+// Group comments (roots and replies, oldest first) into threads
+const buildThreads = <T extends ReviewThread>(rows: any[]): T[] => {
+  const threads = new Map<number, T>();
+  for (const row of rows) {
+    if (row.parent_id === null) {
+      threads.set(row.id, { ...row, replies: [] });
+    }
+  }
+  for (const row of rows) {
+    if (row.parent_id !== null) {
+      threads.get(row.parent_id)?.replies.push(row);
+    }
+  }
+  return Array.from(threads.values());
+};
+
+export class ReviewCommentModel {
+  // Every thread on a question, open ones first, each with its replies in order. Pass the reviewer
+  // asking to leave out the threads hidden from them until they vote.
+  static async findThreads(questionId: number, reviewerId?: number): Promise<ReviewThread[]> {
+    const sql = `
+      ${COMMENT_SELECT}
+      WHERE c.question_id = $1 ${reviewerId ? `AND NOT ${inHiddenThread('$2')}` : ''}
+      ORDER BY c.created_at ASC, c.id ASC
+    `;
+    const result = await query(sql, reviewerId ? [questionId, reviewerId] : [questionId]);
+    const threads = buildThreads<ReviewThread>(result.rows);
+    return threads.sort((a, b) => Number(!!a.resolved_at) - Number(!!b.resolved_at));
+  }
+
+  // Open threads on questions in an exam (omit examType for the whole category), or on one uploader's
+  // questions, leaving out those hidden from the reviewer asking
+  static async findOpenThreads(filters: { exam_category?: string; exam_type?: string; uploaded_by?: number; reviewer_id?: number }): Promise<OpenReviewThread[]> {
+    const values: any[] = [];
+    const conditions: string[] = [];
+    if (filters.exam_category) {
+      values.push(filters.exam_category);
+      conditions.push(`q.exam_category = $${values.length}`);
+    }
+    if (filters.exam_type) {
+      values.push(filters.exam_type);
+      conditions.push(`q.exam_type = $${values.length}`);
+    }
+    if (filters.uploaded_by) {
+      values.push(filters.uploaded_by);
+      conditions.push(`q.uploaded_by = $${values.length}`);
+    }
+    if (filters.reviewer_id) {
+      values.push(filters.reviewer_id);
+      conditions.push(`NOT (${hiddenFrom(`$${values.length}`)})`);
+    }
+
+    const sql = `
+      WITH open_threads AS (
+        SELECT r.id
+        FROM review_comments r
+        JOIN questions q ON q.id = r.question_id
+        WHERE r.parent_id IS NULL AND r.resolved_at IS NULL
+          ${conditions.map(condition => `AND ${condition}`).join(' ')}
+      )
+      SELECT c.*, u.username as author_username, (u.is_reviewer OR u.is_admin) as author_is_reviewer,
+        ru.username as resolved_by_username, i.original_name as anchor_image_name,
+        q.question_number, q.question, q.review_status
+      FROM review_comments c
+      JOIN questions q ON q.id = c.question_id
+      LEFT JOIN users u ON u.id = c.author_id
+      LEFT JOIN users ru ON ru.id = c.resolved_by
+      LEFT JOIN images i ON i.id = c.anchor_image_id
+      WHERE c.id IN (SELECT id FROM open_threads) OR c.parent_id IN (SELECT id FROM open_threads)
+      ORDER BY c.created_at ASC, c.id ASC
+    `;
+    const result = await query(sql, values);
+    return buildThreads<OpenReviewThread>(result.rows);
+  }
+
+  static async findById(id: number, reviewerId?: number): Promise<ReviewComment | null> {
+    const result = reviewerId
+      ? await query(`${COMMENT_SELECT} WHERE c.id = $1 AND NOT ${inHiddenThread('$2')}`, [id, reviewerId])
+      : await query(`${COMMENT_SELECT} WHERE c.id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Open threads one user started on a question
+  static async countOpen(questionId: number, authorId: number): Promise<number> {
+    const sql = `
+      SELECT COUNT(*) as count FROM review_comments
+      WHERE question_id = $1 AND author_id = $2 AND parent_id IS NULL AND resolved_at IS NULL
+    `;
+    const result = await query(sql, [questionId, authorId]);
+    return parseInt(result.rows[0].count);
+  }
+
+  static async createThread(
+    questionId: number,
+    authorId: number,
+    anchor: CommentAnchor,
+    body: string,
+    reviewDecision?: 'approved' | 'rejected' | 'returned'
+  ): Promise<ReviewComment> {
+    const sql = `
+      INSERT INTO review_comments (question_id, anchor_type, anchor_choice, anchor_image_id, review_decision, body, author_id, review_round)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, (SELECT review_round FROM questions WHERE id = $1))
+      RETURNING id
+    `;
+    const result = await query(sql, [
+      questionId,
+      anchor.anchor_type,
+      anchor.anchor_type === 'choice' ? anchor.anchor_choice : null,
+      anchor.anchor_type === 'image' ? anchor.anchor_image_id : null,
+      reviewDecision || null,
+      body,
+      authorId
+    ]);
+    return (await this.findById(result.rows[0].id))!;
+  }
+
+  static async reply(thread: ReviewComment, authorId: number, body: string): Promise<ReviewComment> {
+    const sql = `
+      INSERT INTO review_comments (question_id, parent_id, body, author_id)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id
+    `;
+    const result = await query(sql, [thread.question_id, thread.id, body, authorId]);
+    return (await this.findById(result.rows[0].id))!;
+  }
+
+  // Resolve or reopen a thread
+  static async setResolved(threadId: number, userId: number, resolved: boolean): Promise<ReviewComment | null> {
+    const sql = `
+      UPDATE review_comments
+      SET resolved_at = CASE WHEN $2 THEN CURRENT_TIMESTAMP END,
+          resolved_by = CASE WHEN $2 THEN $3::int END
+      WHERE id = $1 AND parent_id IS NULL
+      RETURNING id
+    `;
+    const result = await query(sql, [threadId, resolved, userId]);
+    return result.rows[0] ? this.findById(threadId) : null;
+  }
+}
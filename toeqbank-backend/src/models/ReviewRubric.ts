@@ -0,0 +1,188 @@
+import { PoolClient } from 'pg';
+import { query } from './database';
+
+export interface RubricCriterion {
+  code: string;
+  label: string;
+  description?: string | null;
+  max_score: number;
+  display_order: number;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// A criterion a reviewer selected, with an optional severity from 1 to the criterion's max_score
+export interface ReviewReason {
+  code: string;
+  score?: number | null;
+}
+
+export interface ReasonCount {
+  code: string;
+  label: string;
+  count: number;
+  avg_score: number | null;
+}
+
+export interface GroupedReasonCounts {
+  id: number;
+  name: string;
+  // Reviews of the group's questions that gave at least one reason
+  reviews: number;
+  reasons: { code: string; count: number }[];
+}
+
+export interface ReasonStats {
+  reasons: ReasonCount[];
+  batches: GroupedReasonCounts[];
+  authors: GroupedReasonCounts[];
+}
+
+export const MAX_CRITERION_SCORE = 10;
+
+// Collapse per-(group, code) rows into one entry per group, busiest first
+const groupReasonRows = (rows: any[]): GroupedReasonCounts[] => {
+  const groups = new Map<number, GroupedReasonCounts>();
+  for (const row of rows) {
+    let group = groups.get(row.id);
+    if (!group) {
+      group = { id: row.id, name: row.name, reviews: parseInt(row.reviews), reasons: [] };
+      groups.set(row.id, group);
+    }
+    group.reasons.push({ code: row.code, count: parseInt(row.count) });
+  }
+  return Array.from(groups.values()).sort((a, b) => b.reviews - a.reviews);
+};
+
+export class ReviewRubricModel {
+  static async getCriteria(includeInactive = false): Promise<RubricCriterion[]> {
+    const sql = `
+      SELECT * FROM review_rubric_criteria
+      ${includeInactive ? '' : 'WHERE is_active'}
+      ORDER BY display_order, label
+    `;
+    const result = await query(sql);
+    return result.rows;
+  }
+
+  static async findByCode(code: string): Promise<RubricCriterion | null> {
+    const result = await query('SELECT * FROM review_rubric_criteria WHERE code = $1', [code]);
+    return result.rows[0] || null;
+  }
+
+  static async create(criterion: Omit<RubricCriterion, 'is_active' | 'created_at' | 'updated_at'>): Promise<RubricCriterion> {
+    const sql = `
+      INSERT INTO review_rubric_criteria (code, label, description, max_score, display_order)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+    const result = await query(sql, [
+      criterion.code,
+      criterion.label,
+      criterion.description || null,
+      criterion.max_score,
+      criterion.display_order
+    ]);
+    return result.rows[0];
+  }
+
+  static async update(code: string, updates: Partial<Omit<RubricCriterion, 'code' | 'created_at' | 'updated_at'>>): Promise<RubricCriterion | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    for (const key of ['label', 'description', 'max_score', 'display_order', 'is_active'] as const) {
+      if (updates[key] !== undefined) {
+        fields.push(`${key} = $${paramCounter++}`);
+        values.push(updates[key]);
+      }
+    }
+    if (fields.length === 0) {
+      return this.findByCode(code);
+    }
+
+    values.push(code);
+    const sql = `
+      UPDATE review_rubric_criteria
+      SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE code = $${paramCounter}
+      RETURNING *
+    `;
+    const result = await query(sql, values);
+    return result.rows[0] || null;
+  }
+
+  // Store the reasons given with a vote, inside the caller's transaction
+  static async recordReasons(client: PoolClient, voteId: number, reasons: ReviewReason[]): Promise<void> {
+    for (const reason of reasons) {
+      await client.query(
+        'INSERT INTO question_review_vote_reasons (vote_id, criterion_code, score) VALUES ($1, $2, $3)',
+        [voteId, reason.code, reason.score || null]
+      );
+    }
+  }
+
+  // How often each criterion was cited on questions in an exam (omit examType for the whole category),
+  // overall and broken down by upload batch and by author
+  static async getReasonStats(examCategory: string, examType?: string): Promise<ReasonStats> {
+    const values: any[] = [examCategory];
+    let examFilter = 'q.exam_category = $1';
+    if (examType) {
+      values.push(examType);
+      examFilter += ' AND q.exam_type = $2';
+    }
+
+    const reasonsResult = await query(`
+      SELECT c.code, c.label, COUNT(r.vote_id) as count, AVG(r.score) as avg_score
+      FROM review_rubric_criteria c
+      LEFT JOIN (
+        SELECT r.*
+        FROM question_review_vote_reasons r
+        JOIN question_review_votes v ON v.id = r.vote_id
+        JOIN questions q ON q.id = v.question_id
+        WHERE ${examFilter}
+      ) r ON r.criterion_code = c.code
+      GROUP BY c.code, c.label, c.display_order, c.is_active
+      HAVING c.is_active OR COUNT(r.vote_id) > 0
+      ORDER BY count DESC, c.display_order
+    `, values);
+
+    // Reasons per group alongside the number of distinct reviews that cited any reason
+    const groupedSql = (idColumn: string, nameColumn: string, join: string) => `
+      WITH cited AS (
+        SELECT ${idColumn} as id, ${nameColumn} as name, r.vote_id, r.criterion_code
+        FROM question_review_vote_reasons r
+        JOIN question_review_votes v ON v.id = r.vote_id
+        JOIN questions q ON q.id = v.question_id
+        ${join}
+        WHERE ${examFilter}
+      )
+      SELECT cited.id, cited.name, cited.criterion_code as code, COUNT(*) as count, totals.reviews
+      FROM cited
+      JOIN (SELECT id, COUNT(DISTINCT vote_id) as reviews FROM cited GROUP BY id) totals ON totals.id = cited.id
+      GROUP BY cited.id, cited.name, cited.criterion_code, totals.reviews
+      ORDER BY count DESC
+    `;
+
+    const batchesResult = await query(
+      groupedSql('ub.id', "COALESCE(ub.batch_name, ub.file_name, 'Batch ' || ub.id)", 'JOIN upload_batches ub ON ub.id = q.batch_id'),
+      values
+    );
+    const authorsResult = await query(
+      groupedSql('u.id', 'u.username', 'JOIN users u ON u.id = q.uploaded_by'),
+      values
+    );
+
+    return {
+      reasons: reasonsResult.rows.map((row: any) => ({
+        code: row.code,
+        label: row.label,
+        count: parseInt(row.count),
+        avg_score: row.avg_score === null ? null : parseFloat(row.avg_score)
+      })),
+      batches: groupReasonRows(batchesResult.rows),
+      authors: groupReasonRows(authorsResult.rows)
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import { PoolClient } from 'pg';
+import pool, { query } from './database';
+import { Question } from './Question';
+import { ReviewRubricModel, ReviewReason } from './ReviewRubric';
+
+export type ReviewDecision = 'approved' | 'rejected' | 'returned';
+
+export type ConsensusStatus = 'pending' | 'escalated' | ReviewDecision;
+
+// Exam types without a configured quorum keep single-reviewer approval
+export const DEFAULT_REQUIRED_APPROVALS = 1;
+export const MAX_REQUIRED_APPROVALS = 5;
+
+export interface ReviewVote {
+  id: number;
+  question_id: number;
+  review_round: number;
+  reviewer_id?: number | null;
+  reviewer_username?: string | null;
+  decision: ReviewDecision;
+  notes?: string | null;
+  difficulty_rating?: number | null;
+  is_adjudication: boolean;
+  claimed_at?: Date | null;
+  created_at: Date;
+  // Rubric criteria the reviewer cited
+  reasons?: ReviewReason[];
+}
+
+export interface ReviewQuorum {
+  exam_type: string;
+  required_approvals: number;
+  updated_by?: number | null;
+  updated_at?: Date | null;
+}
+
+export interface ReviewOutcome {
+  question: Question;
+  // Votes that decided the outcome: the round's votes, or the admin's ruling
+  votes: ReviewVote[];
+}
+
+export interface ConsensusResult extends ReviewOutcome {
+  status: ConsensusStatus;
+  required_approvals: number;
+  votes_cast: number;
+}
+
+export interface EscalatedQuestion extends Question {
+  votes: ReviewVote[];
+}
+
+// Votes must agree; any disagreement escalates straight away, without waiting for the rest of the quorum
+export const deriveConsensus = (votes: Pick<ReviewVote, 'decision'>[], requiredApprovals: number): ConsensusStatus => {
+  const decisions = new Set(votes.map(vote => vote.decision));
+  if (decisions.size > 1) return 'escalated';
+  if (votes.length < requiredApprovals) return 'pending';
+  return votes[0].decision;
+};
+
+const VOTE_SELECT = `
+  SELECT v.*, u.username as reviewer_username,
+    COALESCE((
+      SELECT json_agg(json_build_object('code', r.criterion_code, 'score', r.score) ORDER BY r.criterion_code)
+      FROM question_review_vote_reasons r
+      WHERE r.vote_id = v.id
+    ), '[]') as reasons
+  FROM question_review_votes v
+  LEFT JOIN users u ON u.id = v.reviewer_id
+`;
+
+// Write a decision to the question; notes from every vote go to the author, ratings are averaged,
+// and anything but an approval opens a new round for the reworked question
+const applyDecision = async (client: PoolClient, questionId: number, decision: ReviewDecision, votes: ReviewVote[]): Promise<Question> => {
+  const notes = votes.map(vote => vote.notes?.trim()).filter(Boolean).join('\n\n');
+  const ratings = votes.map(vote => vote.difficulty_rating).filter((rating): rating is number => !!rating);
+  const rating = ratings.length > 0 ? Math.round(ratings.reduce((sum, value) => sum + value, 0) / ratings.length) : null;
+
+  const result = await client.query(`
+    UPDATE questions
+    SET review_status = $2, review_notes = $3, reviewed_by = $4, reviewed_at = CURRENT_TIMESTAMP,
+        difficulty_rating = $5, review_round = review_round + $6,
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+    RETURNING *
+  `, [questionId, decision, notes, votes[votes.length - 1].reviewer_id || null, rating, decision === 'approved' ? 0 : 1]);
+  return result.rows[0];
+};
+
+export class ReviewVoteModel {
+  // Quorum for every exam type that has questions or a configured quorum
+  static async getQuorums(): Promise<ReviewQuorum[]> {
+    const sql = `
+      SELECT t.exam_type, COALESCE(r.required_approvals, $1) as required_approvals, r.updated_by, r.updated_at
+      FROM (
+        SELECT DISTINCT exam_type FROM questions WHERE exam_type IS NOT NULL
+        UNION
+        SELECT exam_type FROM review_quorums
+      ) t
+      LEFT JOIN review_quorums r ON r.exam_type = t.exam_type
+      ORDER BY t.exam_type
+    `;
+    const result = await query(sql, [DEFAULT_REQUIRED_APPROVALS]);
+    return result.rows;
+  }
+
+  static async setQuorum(examType: string, requiredApprovals: number, userId: number): Promise<ReviewQuorum> {
+    const sql = `
+      INSERT INTO review_quorums (exam_type, required_approvals, updated_by)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (exam_type) DO UPDATE SET
+        required_approvals = EXCLUDED.required_approvals,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    const result = await query(sql, [examType, requiredApprovals, userId]);
+    return result.rows[0];
+  }
+
+  static async hasVoted(questionId: number, reviewerId: number): Promise<boolean> {
+    const sql = `
+      SELECT 1
+      FROM question_review_votes v
+      JOIN questions q ON q.id = v.question_id AND q.review_round = v.review_round
+      WHERE v.question_id = $1 AND v.reviewer_id = $2 AND NOT v.is_adjudication
+    `;
+    const result = await query(sql, [questionId, reviewerId]);
+    return result.rows.length > 0;
+  }
+
+  // Record a reviewer's vote and update the question if the round now has a consensus or a disagreement
+  static async castVote(
+    questionId: number,
+    reviewerId: number,
+    decision: ReviewDecision,
+    notes: string,
+    difficultyRating?: number,
+    claimedAt?: Date | null,
+    reasons: ReviewReason[] = []
+  ): Promise<ConsensusResult> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the question so concurrent votes are counted one at a time
+      const questionResult = await client.query('SELECT * FROM questions WHERE id = $1 FOR UPDATE', [questionId]);
+      let question: Question = questionResult.rows[0];
+      const round = questionResult.rows[0].review_round;
+
+      const voteResult = await client.query(`
+        INSERT INTO question_review_votes (question_id, review_round, reviewer_id, decision, notes, difficulty_rating, claimed_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING id
+      `, [questionId, round, reviewerId, decision, notes || null, difficultyRating || null, claimedAt || null]);
+      await ReviewRubricModel.recordReasons(client, voteResult.rows[0].id, reasons);
+
+      // The vote ends the reviewer's claim
+      await client.query('DELETE FROM review_claims WHERE question_id = $1 AND reviewer_id = $2', [questionId, reviewerId]);
+
+      const votesResult = await client.query(`
+        ${VOTE_SELECT}
+        WHERE v.question_id = $1 AND v.review_round = $2 AND NOT v.is_adjudication
+        ORDER BY v.created_at ASC, v.id ASC
+      `, [questionId, round]);
+      const votes: ReviewVote[] = votesResult.rows;
+
+      const quorumResult = await client.query('SELECT required_approvals FROM review_quorums WHERE exam_type = $1', [question.exam_type]);
+      const requiredApprovals = quorumResult.rows[0]?.required_approvals || DEFAULT_REQUIRED_APPROVALS;
+      const status = deriveConsensus(votes, requiredApprovals);
+
+      if (status === 'escalated') {
+        const result = await client.query(`
+          UPDATE questions SET review_status = 'escalated', updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+          RETURNING *
+        `, [questionId]);
+        question = result.rows[0];
+      } else if (status !== 'pending') {
+        question = await applyDecision(client, questionId, status, votes);
+      }
+
+      await client.query('COMMIT');
+      return { status, required_approvals: requiredApprovals, votes_cast: votes.length, question, votes };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // An admin's final decision on an escalated question
+  static async adjudicate(
+    questionId: number,
+    adminId: number,
+    decision: ReviewDecision,
+    notes: string,
+    difficultyRating?: number,
+    reasons: ReviewReason[] = []
+  ): Promise<ReviewOutcome> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const questionResult = await client.query('SELECT review_round FROM questions WHERE id = $1 FOR UPDATE', [questionId]);
+      const round = questionResult.rows[0].review_round;
+
+      const voteResult = await client.query(`
+        INSERT INTO question_review_votes (question_id, review_round, reviewer_id, decision, notes, difficulty_rating, is_adjudication)
+        VALUES ($1, $2, $3, $4, $5, $6, true)
+        RETURNING *
+      `, [questionId, round, adminId, decision, notes || null, difficultyRating || null]);
+      await ReviewRubricModel.recordReasons(client, voteResult.rows[0].id, reasons);
+      const votes: ReviewVote[] = voteResult.rows.map((vote: any) => ({ ...vote, reasons }));
+
+      // The ruling decides the outcome; its notes and rating stand in for the reviewers'
+      const question = await applyDecision(client, questionId, decision, votes);
+
+      await client.query('COMMIT');
+      return { question, votes };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Escalated questions in an exam (omit examType for the whole category), with the votes that disagreed
+  static async findEscalated(examCategory: string, examType?: string): Promise<EscalatedQuestion[]> {
+    const values: any[] = [examCategory];
+    let sql = `
+      SELECT q.*
+      FROM questions q
+      WHERE q.review_status = 'escalated' AND q.exam_category = $1
+    `;
+    if (examType) {
+      values.push(examType);
+      sql += ` AND q.exam_type = $2`;
+    }
+    sql += ' ORDER BY q.updated_at ASC';
+
+    const result = await query(sql, values);
+    if (result.rows.length === 0) return [];
+
+    const votesResult = await query(`
+      ${VOTE_SELECT}
+      JOIN questions q ON q.id = v.question_id AND q.review_round = v.review_round
+      WHERE v.question_id = ANY($1::int[]) AND NOT v.is_adjudication
+      ORDER BY v.created_at ASC, v.id ASC
+    `, [result.rows.map((row: any) => row.id)]);
+
+    return result.rows.map((question: any) => ({
+      ...question,
+      votes: votesResult.rows.filter((vote: any) => vote.question_id === question.id)
+    }));
+  }
+}
@@ -0,0 +1,240 @@
+import { query } from './database';
+import { Question } from './Question';
+import { ImageModel } from './Image';
+
+export type TestSessionMode = 'practice' | 'exam';
+
+export interface TestSession {
+  id?: string;
+  user_id: number;
+  test_id?: number | null;
+  question_ids: number[];
+  current_question_index?: number;
+  mode?: TestSessionMode;
+  time_limit_seconds?: number | null;
+  flagged_question_ids?: number[];
+  paused_at?: Date | null;
+  paused_seconds?: number;
+  started_at?: Date;
+  completed_at?: Date | null;
+  total_questions: number;
+  correct_answers?: number;
+  score_percentage?: number | null;
+  total_time_seconds?: number | null;
+  test_name?: string | null;
+}
+
+export interface UserResponse {
+  id?: number;
+  user_id: number;
+  test_id?: number | null;
+  question_id: number;
+  selected_answer: string;
+  is_correct: boolean;
+  response_time_seconds?: number | null;
+  session_id: string;
+  created_at?: Date;
+}
+
+export class TestSessionModel {
+  static async create(
+    userId: number,
+    questionIds: number[],
+    testId?: number,
+    options: { mode?: TestSessionMode; timeLimitSeconds?: number | null } = {}
+  ): Promise<TestSession> {
+    const sql = `
+      INSERT INTO test_sessions (user_id, test_id, question_ids, total_questions, current_question_index, mode, time_limit_seconds)
+      VALUES ($1, $2, $3, $4, 0, $5, $6)
+      RETURNING *
+    `;
+    const result = await query(sql, [
+      userId,
+      testId || null,
+      questionIds,
+      questionIds.length,
+      options.mode || 'practice',
+      options.timeLimitSeconds || null
+    ]);
+    return result.rows[0];
+  }
+
+  // Seconds left on a timed session's clock (null if untimed); time spent paused doesn't count
+  static getRemainingSeconds(session: TestSession, now: Date = new Date()): number | null {
+    if (!session.time_limit_seconds || !session.started_at) return null;
+
+    const end = session.completed_at ? new Date(session.completed_at) : now;
+    const pausedNow = session.paused_at && !session.completed_at
+      ? (now.getTime() - new Date(session.paused_at).getTime()) / 1000
+      : 0;
+    const elapsed = (end.getTime() - new Date(session.started_at).getTime()) / 1000
+      - (session.paused_seconds || 0)
+      - pausedNow;
+
+    return Math.max(0, Math.floor(session.time_limit_seconds - elapsed));
+  }
+
+  static async setFlagged(id: string, questionId: number, flagged: boolean): Promise<TestSession | null> {
+    const sql = flagged
+      ? `UPDATE test_sessions
+         SET flagged_question_ids = array_append(array_remove(flagged_question_ids, $2), $2)
+         WHERE id = $1 AND completed_at IS NULL
+         RETURNING *`
+      : `UPDATE test_sessions
+         SET flagged_question_ids = array_remove(flagged_question_ids, $2)
+         WHERE id = $1 AND completed_at IS NULL
+         RETURNING *`;
+    const result = await query(sql, [id, questionId]);
+    return result.rows[0] || null;
+  }
+
+  static async pause(id: string): Promise<TestSession | null> {
+    const sql = `
+      UPDATE test_sessions
+      SET paused_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND completed_at IS NULL AND paused_at IS NULL
+      RETURNING *
+    `;
+    const result = await query(sql, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Add the paused time to paused_seconds so it is excluded from the clock
+  static async resume(id: string): Promise<TestSession | null> {
+    const sql = `
+      UPDATE test_sessions
+      SET paused_seconds = paused_seconds + FLOOR(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - paused_at)))::int,
+          paused_at = NULL
+      WHERE id = $1 AND completed_at IS NULL AND paused_at IS NOT NULL
+      RETURNING *
+    `;
+    const result = await query(sql, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findById(id: string): Promise<TestSession | null> {
+    const sql = 'SELECT * FROM test_sessions WHERE id = $1';
+    const result = await query(sql, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findActiveForUser(userId: number): Promise<TestSession | null> {
+    const sql = `
+      SELECT * FROM test_sessions
+      WHERE user_id = $1 AND completed_at IS NULL
+      ORDER BY started_at DESC
+      LIMIT 1
+    `;
+    const result = await query(sql, [userId]);
+    return result.rows[0] || null;
+  }
+
+  static async findByUser(userId: number, limit = 20): Promise<TestSession[]> {
+    const sql = `
+      SELECT ts.*, pt.name as test_name, COUNT(ur.id) as answered_count
+      FROM test_sessions ts
+      LEFT JOIN practice_tests pt ON pt.id = ts.test_id
+      LEFT JOIN user_responses ur ON ur.session_id = ts.id
+      WHERE ts.user_id = $1
+      GROUP BY ts.id, pt.name
+      ORDER BY ts.started_at DESC
+      LIMIT $2
+    `;
+    const result = await query(sql, [userId, limit]);
+    return result.rows.map((row: any) => ({
+      ...row,
+      answered_count: parseInt(row.answered_count)
+    }));
+  }
+
+  // Load the session's questions in their stored order, with images attached
+  static async getQuestions(session: TestSession): Promise<Question[]> {
+    if (!session.question_ids || session.question_ids.length === 0) return [];
+
+    const sql = 'SELECT * FROM questions WHERE id = ANY($1::int[])';
+    const result = await query(sql, [session.question_ids]);
+    const byId = new Map<number, Question>(result.rows.map((q: Question) => [q.id!, q]));
+
+    const ordered = session.question_ids
+      .map(id => byId.get(id))
+      .filter((q): q is Question => !!q);
+
+    return Promise.all(ordered.map(async question => ({
+      ...question,
+      images: await ImageModel.findByQuestionId(question.id!)
+    })));
+  }
+
+  static async getResponses(sessionId: string): Promise<UserResponse[]> {
+    const sql = 'SELECT * FROM user_responses WHERE session_id = $1 ORDER BY created_at ASC';
+    const result = await query(sql, [sessionId]);
+    return result.rows;
+  }
+
+  static async recordResponse(response: Omit<UserResponse, 'id' | 'created_at'>): Promise<UserResponse> {
+    const sql = `
+      INSERT INTO user_responses (user_id, test_id, question_id, selected_answer, is_correct, response_time_seconds, session_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (session_id, question_id)
+      DO UPDATE SET
+        selected_answer = EXCLUDED.selected_answer,
+        is_correct = EXCLUDED.is_correct,
+        response_time_seconds = EXCLUDED.response_time_seconds,
+        created_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+    const result = await query(sql, [
+      response.user_id,
+      response.test_id || null,
+      response.question_id,
+      response.selected_answer,
+      response.is_correct,
+      response.response_time_seconds ?? null,
+      response.session_id
+    ]);
+    return result.rows[0];
+  }
+
+  static async updateProgress(id: string, currentQuestionIndex: number): Promise<TestSession | null> {
+    const sql = `
+      UPDATE test_sessions
+      SET current_question_index = $2
+      WHERE id = $1 AND completed_at IS NULL
+      RETURNING *
+    `;
+    const result = await query(sql, [id, currentQuestionIndex]);
+    return result.rows[0] || null;
+  }
+
+  // Score the session from its stored responses and mark it completed
+  static async complete(id: string): Promise<TestSession | null> {
+    const sql = `
+      UPDATE test_sessions ts
+      SET completed_at = CURRENT_TIMESTAMP,
+          correct_answers = totals.correct,
+          score_percentage = CASE WHEN ts.total_questions > 0
+            THEN ROUND(totals.correct * 100.0 / ts.total_questions, 2)
+            ELSE 0 END,
+          total_time_seconds = totals.total_time,
+          paused_seconds = ts.paused_seconds + COALESCE(FLOOR(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - ts.paused_at)))::int, 0),
+          paused_at = NULL
+      FROM (
+        SELECT
+          COUNT(CASE WHEN is_correct THEN 1 END) as correct,
+          COALESCE(SUM(response_time_seconds), 0) as total_time
+        FROM user_responses
+        WHERE session_id = $1
+      ) totals
+      WHERE ts.id = $1 AND ts.completed_at IS NULL
+      RETURNING ts.*
+    `;
+    const result = await query(sql, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    await query('DELETE FROM user_responses WHERE session_id = $1', [id]);
+    const result = await query('DELETE FROM test_sessions WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+}
@@ -13,6 +13,9 @@ export interface UploadBatch {
   ending_page?: number;
   chapter?: string;
   uploader_username?: string;
+  assigned_reviewer_id?: number | null;
+  assigned_reviewer_username?: string | null;
+  assigned_at?: Date | null;
 }
 
 export class UploadBatchModel {
@@ -44,13 +47,15 @@ export class UploadBatchModel {
       SELECT 
         ub.*,
         u.username as uploader_username,
+        ar.username as assigned_reviewer_username,
         COUNT(DISTINCT q.id) as actual_question_count,
         COUNT(DISTINCT imgd.id) as image_description_count
       FROM upload_batches ub
       LEFT JOIN users u ON u.id = ub.uploaded_by
+      LEFT JOIN users ar ON ar.id = ub.assigned_reviewer_id
       LEFT JOIN questions q ON q.batch_id = ub.id
       LEFT JOIN image_descriptions imgd ON imgd.question_id = q.id
-      GROUP BY ub.id, u.username
+      GROUP BY ub.id, u.username, ar.username
       HAVING COUNT(q.id) > 0
       ORDER BY ub.upload_date DESC
     `;
@@ -63,13 +68,15 @@ export class UploadBatchModel {
       SELECT 
         ub.*,
         u.username as uploader_username,
+        ar.username as assigned_reviewer_username,
         COUNT(DISTINCT q.id) as actual_question_count,
         COUNT(DISTINCT imgd.id) as image_description_count
       FROM upload_batches ub
       LEFT JOIN users u ON u.id = ub.uploaded_by
+      LEFT JOIN users ar ON ar.id = ub.assigned_reviewer_id
       LEFT JOIN questions q ON q.batch_id = ub.id AND q.exam_category = $1
       LEFT JOIN image_descriptions imgd ON imgd.question_id = q.id
-      GROUP BY ub.id, u.username
+      GROUP BY ub.id, u.username, ar.username
       HAVING COUNT(q.id) > 0
       ORDER BY ub.upload_date DESC
     `;
@@ -82,14 +89,16 @@ export class UploadBatchModel {
       SELECT 
         ub.*,
         u.username as uploader_username,
+        ar.username as assigned_reviewer_username,
         COUNT(DISTINCT q.id) as actual_question_count,
         COUNT(DISTINCT imgd.id) as image_description_count
       FROM upload_batches ub
       LEFT JOIN users u ON u.id = ub.uploaded_by
+      LEFT JOIN users ar ON ar.id = ub.assigned_reviewer_id
       LEFT JOIN questions q ON q.batch_id = ub.id
       LEFT JOIN image_descriptions imgd ON imgd.question_id = q.id
       WHERE ub.id = $1
-      GROUP BY ub.id, u.username
+      GROUP BY ub.id, u.username, ar.username
     `;
     const result = await query(sql, [id]);
     return result.rows[0] || null;
@@ -1,23 +1,6 @@
 import { query } from './database';
 import bcrypt from 'bcryptjs';
-
-export const EXAM_CATEGORIES = {
-  ECHOCARDIOGRAPHY: 'echocardiography',
-  USMLE: 'usmle'
-} as const;
-
-export const EXAM_TYPES = {
-  EACVI_TOE: 'eacvi_toe',
-  TTE: 'tte',
-  STEP_1: 'step1',
-  STEP_2: 'step2',
-  STEP_3: 'step3'
-} as const;
-
-export const EXAM_CATEGORY_TYPES = {
-  [EXAM_CATEGORIES.ECHOCARDIOGRAPHY]: [EXAM_TYPES.EACVI_TOE, EXAM_TYPES.TTE],
-  [EXAM_CATEGORIES.USMLE]: [EXAM_TYPES.STEP_1, EXAM_TYPES.STEP_2, EXAM_TYPES.STEP_3]
-} as const;
+import { getExamRegistry } from '../utils/examRegistry';
 
 export interface User {
   id?: number;
@@ -56,35 +39,16 @@ export interface LoginRequest {
 }
 
 export class UserModel {
-  static validateExamSelection(examCategory?: string, examType?: string): boolean {
-    // Allow empty/null exam category and type (user can select on first login)
-    if (!examCategory || !examType) {
-      return true;
-    }
-
-    const validCategories = Object.values(EXAM_CATEGORIES) as string[];
-    const validTypes = Object.values(EXAM_TYPES) as string[];
-    
-    if (!validCategories.includes(examCategory)) {
-      return false;
-    }
-    
-    if (!validTypes.includes(examType)) {
-      return false;
-    }
-    
-    const allowedTypesForCategory = EXAM_CATEGORY_TYPES[examCategory as keyof typeof EXAM_CATEGORY_TYPES];
-    if (!allowedTypesForCategory) {
-      return false;
-    }
-    
-    return (allowedTypesForCategory as readonly string[]).includes(examType);
+  // Exam categories and types come from the exam registry tables
+  static async validateExamSelection(examCategory?: string, examType?: string): Promise<boolean> {
+    const registry = await getExamRegistry();
+    return registry.isValidExamSelection(examCategory, examType);
   }
 
   static async create(userData: CreateUserRequest): Promise<User> {
     try {
       // Validate exam selection
-      if (!this.validateExamSelection(userData.exam_category, userData.exam_type)) {
+      if (!(await this.validateExamSelection(userData.exam_category, userData.exam_type))) {
         throw new Error('Invalid exam category and type combination');
       }
 
@@ -0,0 +1,158 @@
+import { query } from './database';
+
+export type PerformanceDimension = 'category' | 'view_type' | 'major_structure' | 'subtopic';
+
+export interface AreaPerformance {
+  dimension: PerformanceDimension;
+  area: string;
+  exam_name?: string;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  avg_time_seconds: number | null;
+}
+
+export interface PerformanceTrendPoint {
+  period_start: Date;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  avg_time_seconds: number | null;
+}
+
+export interface PerformanceSummary {
+  total_attempts: number;
+  correct: number;
+  accuracy: number;
+  avg_time_seconds: number | null;
+  questions_seen: number;
+  completed_sessions: number;
+}
+
+// Shared aggregate columns; every breakdown query aliases user_responses as ur
+const AGGREGATES = `
+  COUNT(*) as attempts,
+  COUNT(CASE WHEN ur.is_correct THEN 1 END) as correct,
+  AVG(ur.response_time_seconds) as avg_time_seconds
+`;
+
+// How each breakdown finds its area label(s) for a response
+const DIMENSION_SOURCES: Record<PerformanceDimension, { from: string; area: string; extra?: string }> = {
+  category: {
+    from: 'JOIN question_metadata qm ON qm.question_id = ur.question_id',
+    area: 'qm.category'
+  },
+  view_type: {
+    from: 'JOIN question_metadata qm ON qm.question_id = ur.question_id',
+    area: 'qm.view_type'
+  },
+  major_structure: {
+    from: `JOIN question_metadata qm ON qm.question_id = ur.question_id
+      CROSS JOIN LATERAL unnest(qm.major_structures) AS structure(name)`,
+    area: 'structure.name'
+  },
+  subtopic: {
+    from: `JOIN question_exam_assignments qea ON qea.question_id = ur.question_id
+      CROSS JOIN LATERAL unnest(qea.subtopics) AS subtopic(name)`,
+    area: 'subtopic.name',
+    extra: 'qea.exam_name'
+  }
+};
+
+const toNumber = (value: any): number | null => value === null || value === undefined ? null : parseFloat(value);
+
+const accuracyOf = (correct: number, attempts: number): number =>
+  attempts > 0 ? Math.round((correct / attempts) * 1000) / 10 : 0;
+
+export class UserPerformanceModel {
+  static async getSummary(userId: number): Promise<PerformanceSummary> {
+    const sql = `
+      SELECT
+        ${AGGREGATES},
+        COUNT(DISTINCT ur.question_id) as questions_seen,
+        (SELECT COUNT(*) FROM test_sessions WHERE user_id = $1 AND completed_at IS NOT NULL) as completed_sessions
+      FROM user_responses ur
+      WHERE ur.user_id = $1
+    `;
+    const result = await query(sql, [userId]);
+    const row = result.rows[0];
+    const attempts = parseInt(row.attempts);
+    const correct = parseInt(row.correct);
+    return {
+      total_attempts: attempts,
+      correct,
+      accuracy: accuracyOf(correct, attempts),
+      avg_time_seconds: toNumber(row.avg_time_seconds),
+      questions_seen: parseInt(row.questions_seen),
+      completed_sessions: parseInt(row.completed_sessions)
+    };
+  }
+
+  // Accuracy and average response time per area for one dimension
+  static async getBreakdown(userId: number, dimension: PerformanceDimension): Promise<AreaPerformance[]> {
+    const source = DIMENSION_SOURCES[dimension];
+    const groupColumns = source.extra ? `${source.area}, ${source.extra}` : source.area;
+
+    const sql = `
+      SELECT
+        ${source.area} as area,
+        ${source.extra ? `${source.extra} as exam_name,` : ''}
+        ${AGGREGATES}
+      FROM user_responses ur
+      ${source.from}
+      WHERE ur.user_id = $1
+        AND ${source.area} IS NOT NULL
+        AND ${source.area} <> ''
+      GROUP BY ${groupColumns}
+      ORDER BY attempts DESC, area ASC
+    `;
+    const result = await query(sql, [userId]);
+    return result.rows.map((row: any) => {
+      const attempts = parseInt(row.attempts);
+      const correct = parseInt(row.correct);
+      return {
+        dimension,
+        area: row.area,
+        ...(row.exam_name ? { exam_name: row.exam_name } : {}),
+        attempts,
+        correct,
+        accuracy: accuracyOf(correct, attempts),
+        avg_time_seconds: toNumber(row.avg_time_seconds)
+      };
+    });
+  }
+
+  // Accuracy per week (or day) over the last `periods` periods
+  static async getTrend(userId: number, interval: 'day' | 'week' = 'week', periods = 12): Promise<PerformanceTrendPoint[]> {
+    const sql = `
+      SELECT
+        date_trunc('${interval}', ur.created_at) as period_start,
+        ${AGGREGATES}
+      FROM user_responses ur
+      WHERE ur.user_id = $1
+        AND ur.created_at >= date_trunc('${interval}', CURRENT_TIMESTAMP) - ($2 * INTERVAL '1 ${interval}')
+      GROUP BY period_start
+      ORDER BY period_start ASC
+    `;
+    const result = await query(sql, [userId, periods - 1]);
+    return result.rows.map((row: any) => {
+      const attempts = parseInt(row.attempts);
+      const correct = parseInt(row.correct);
+      return {
+        period_start: row.period_start,
+        attempts,
+        correct,
+        accuracy: accuracyOf(correct, attempts),
+        avg_time_seconds: toNumber(row.avg_time_seconds)
+      };
+    });
+  }
+
+  // Lowest-accuracy areas across all dimensions, ignoring areas with too few attempts to be meaningful
+  static getWeakestAreas(breakdowns: AreaPerformance[], limit = 5, minAttempts = 3): AreaPerformance[] {
+    return breakdowns
+      .filter(area => area.attempts >= minAttempts)
+      .sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,123 @@
+import { Router, Request, Response } from 'express';
+import { requireAdmin } from '../middleware/auth';
+import { AIEnrichmentJobModel, EnrichmentTask, ENRICHMENT_TASKS } from '../models/AIEnrichmentJob';
+import { getRateLimitedUntil } from '../utils/enrichmentQueue';
+import { Llm } from '../utils/llm';
+
+const router = Router();
+
+const MAX_QUESTIONS_PER_JOB = 1000;
+
+// Every question with whether it has metadata and exam assignments, and how its last job went (admin only)
+router.get('/questions', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 1000, 5000);
+    const questions = await AIEnrichmentJobModel.getQuestionStatuses(limit);
+    res.json({ questions });
+  } catch (error) {
+    console.error('Error fetching enrichment status:', error);
+    res.status(500).json({ error: 'Failed to fetch enrichment status' });
+  }
+});
+
+// Queue questions for metadata generation and/or exam assignment (admin only)
+router.post('/jobs', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const questionIds: number[] = Array.isArray(req.body.question_ids)
+      ? Array.from(new Set(req.body.question_ids.map((id: any) => parseInt(id)).filter((id: number) => !isNaN(id))))
+      : [];
+    const tasks: EnrichmentTask[] = req.body.tasks === undefined ? ENRICHMENT_TASKS : req.body.tasks;
+
+    if (questionIds.length === 0) {
+      return res.status(400).json({ error: 'Select at least one question' });
+    }
+    if (questionIds.length > MAX_QUESTIONS_PER_JOB) {
+      return res.status(400).json({ error: `At most ${MAX_QUESTIONS_PER_JOB} questions can be queued in one job` });
+    }
+    if (!Array.isArray(tasks) || tasks.length === 0 || tasks.some(task => !ENRICHMENT_TASKS.includes(task))) {
+      return res.status(400).json({ error: `tasks must be one or more of ${ENRICHMENT_TASKS.join(', ')}` });
+    }
+
+    const job = await AIEnrichmentJobModel.create(req.user.id, questionIds, Array.from(new Set(tasks)));
+    if (!job) {
+      return res.status(404).json({ error: 'None of the selected questions exist' });
+    }
+    res.status(201).json({ job });
+  } catch (error) {
+    console.error('Error creating enrichment job:', error);
+    res.status(500).json({ error: 'Failed to create enrichment job' });
+  }
+});
+
+// Recent jobs with their progress (admin only)
+router.get('/jobs', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+    const jobs = await AIEnrichmentJobModel.findRecent(limit);
+    const client = Llm.getClient();
+    res.json({ jobs, rate_limited_until: getRateLimitedUntil(), client: { name: client.name, model: client.model } });
+  } catch (error) {
+    console.error('Error fetching enrichment jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch enrichment jobs' });
+  }
+});
+
+// One job's progress and the questions that failed (admin only)
+router.get('/jobs/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await AIEnrichmentJobModel.findById(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Enrichment job not found' });
+    }
+    const failures = await AIEnrichmentJobModel.getFailedItems(id);
+    res.json({ job, failures, rate_limited_until: getRateLimitedUntil() });
+  } catch (error) {
+    console.error('Error fetching enrichment job:', error);
+    res.status(500).json({ error: 'Failed to fetch enrichment job' });
+  }
+});
+
+// Stop a job; the question being worked on finishes first (admin only)
+router.post('/jobs/:id/cancel', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await AIEnrichmentJobModel.cancel(id);
+    if (!job) {
+      return res.status(409).json({ error: 'Job has already finished' });
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error('Error cancelling enrichment job:', error);
+    res.status(500).json({ error: 'Failed to cancel enrichment job' });
+  }
+});
+
+// Queue a job's failed and cancelled questions again (admin only)
+router.post('/jobs/:id/retry', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await AIEnrichmentJobModel.retry(id);
+    if (!job) {
+      return res.status(409).json({ error: 'Nothing in this job to retry' });
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error('Error retrying enrichment job:', error);
+    res.status(500).json({ error: 'Failed to retry enrichment job' });
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import { requireAdmin } from '../middleware/auth';
+import { ImageModel } from '../models/Image';
+import { AIGenerationRunModel } from '../models/AIGenerationRun';
+import { generateQuestions, GenerationImage, ImageModality, IMAGE_MODALITIES, MAX_QUESTIONS_PER_IMAGE } from '../utils/questionGenerator';
+import { Llm } from '../utils/llm';
+
+const router = Router();
+
+// Each image is a separate model call made while the request waits
+const MAX_IMAGES_PER_RUN = 20;
+
+const isModality = (value: unknown): value is ImageModality => IMAGE_MODALITIES.includes(value as ImageModality);
+
+// Draft questions from selected images (admin only). Each image may carry the description, tags,
+// modality and view the page knows about; anything left out is taken from the stored image.
+router.post('/questions', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const requested: any[] = Array.isArray(req.body.images) ? req.body.images : [];
+    const questionsPerImage = req.body.questions_per_image === undefined ? 1 : parseInt(req.body.questions_per_image);
+
+    if (requested.length === 0) {
+      return res.status(400).json({ error: 'Select at least one image' });
+    }
+    if (requested.length > MAX_IMAGES_PER_RUN) {
+      return res.status(400).json({ error: `At most ${MAX_IMAGES_PER_RUN} images can be used in one run` });
+    }
+    if (isNaN(questionsPerImage) || questionsPerImage < 1 || questionsPerImage > MAX_QUESTIONS_PER_IMAGE) {
+      return res.status(400).json({ error: `questions_per_image must be between 1 and ${MAX_QUESTIONS_PER_IMAGE}` });
+    }
+
+    const images: GenerationImage[] = [];
+    for (const entry of requested) {
+      const id = parseInt(entry?.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Every image needs an id' });
+      }
+      if (images.some(image => image.id === id)) {
+        continue;
+      }
+
+      const stored = await ImageModel.findById(id);
+      if (!stored) {
+        return res.status(404).json({ error: `Image ${id} not found` });
+      }
+      if (stored.phi_status === 'flagged') {
+        return res.status(409).json({ error: `Image ${stored.filename} has unresolved patient details and can't be used yet` });
+      }
+
+      if (entry.modality && !isModality(entry.modality)) {
+        return res.status(400).json({ error: `modality must be one of ${IMAGE_MODALITIES.join(', ')}` });
+      }
+
+      const tags: string[] = Array.isArray(entry.tags) ? entry.tags.filter((tag: unknown) => typeof tag === 'string') : stored.tags || [];
+      const modality = isModality(entry.modality) ? entry.modality : tags.find(isModality) || null;
+
+      images.push({
+        id,
+        filename: stored.filename,
+        image_type: stored.image_type,
+        exam_category: stored.exam_category,
+        exam_type: stored.exam_type,
+        description: typeof entry.description === 'string' ? entry.description.trim() : stored.description,
+        tags,
+        modality,
+        echo_view: typeof entry.echo_view === 'string' && entry.echo_view.trim() ? entry.echo_view.trim() : null
+      });
+    }
+
+    if (images.every(image => !image.description && image.tags.length === 0 && !image.echo_view)) {
+      return res.status(400).json({ error: 'The selected images have no description, tags or view to write questions from' });
+    }
+
+    const { run, questions } = await generateQuestions(req.user.id, images, questionsPerImage);
+    res.status(questions.length > 0 ? 201 : 502).json({ run, questions });
+  } catch (error) {
+    console.error('Error generating questions from images:', error);
+    res.status(500).json({ error: 'Failed to generate questions' });
+  }
+});
+
+// Recent runs with what each one used, and the running total (admin only)
+router.get('/runs', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const [runs, totals] = await Promise.all([
+      AIGenerationRunModel.findRecent(limit),
+      AIGenerationRunModel.getTotals()
+    ]);
+    const client = Llm.getClient();
+    res.json({ runs, totals, client: { name: client.name, model: client.model } });
+  } catch (error) {
+    console.error('Error fetching generation runs:', error);
+    res.status(500).json({ error: 'Failed to fetch generation runs' });
+  }
+});
+
+// One run with the questions it drafted (admin only)
+router.get('/runs/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid run ID' });
+    }
+
+    const run = await AIGenerationRunModel.findById(id);
+    if (!run) {
+      return res.status(404).json({ error: 'Generation run not found' });
+    }
+    const questions = await AIGenerationRunModel.getQuestions(id);
+    res.json({ run, questions });
+  } catch (error) {
+    console.error('Error fetching generation run:', error);
+    res.status(500).json({ error: 'Failed to fetch generation run' });
+  }
+});
+
+export default router;
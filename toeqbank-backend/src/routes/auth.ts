@@ -167,6 +167,15 @@ router.put('/profile', requireAuth, async (req: Request, res: Response) => {
       }
     });
     
+    if (filteredUpdates.exam_category !== undefined || filteredUpdates.exam_type !== undefined) {
+      const user = await UserModel.findById(userId);
+      const examCategory = filteredUpdates.exam_category ?? user?.exam_category;
+      const examType = filteredUpdates.exam_type ?? user?.exam_type;
+      if (!(await UserModel.validateExamSelection(examCategory, examType))) {
+        return res.status(400).json({ error: 'Invalid exam category and type combination' });
+      }
+    }
+
     // Validate email if provided
     if (filteredUpdates.email) {
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -1,149 +1,16 @@
 import { Router, Request, Response } from 'express';
-import { optionalAuth } from '../middleware/auth';
-import fetch from 'node-fetch';
+import { optionalAuth, requireAdmin } from '../middleware/auth';
+import { getExamRegistry, invalidateExamRegistry } from '../utils/examRegistry';
+import { assignExams, assignFallbackExams, AssignExamsRequest, ApplicableExam } from '../utils/examAssignment';
+import { ExamRegistryModel, BlueprintSection, CoverageTarget } from '../models/ExamRegistry';
+import { BlueprintCoverageModel, CoverageStatus, COVERAGE_STATUSES } from '../models/BlueprintCoverage';
+import { buildCoverage, findCellQuestionIds } from '../utils/blueprintCoverage';
 
 const router = Router();
 
 // Apply optional authentication
 router.use(optionalAuth);
 
-const CLAUDE_API_KEY = process.env.CLAUDE_API_KEY;
-const CLAUDE_API_URL = 'https://api.anthropic.com/v1/messages';
-
-interface AssignExamsRequest {
-  question: string;
-  choice_a?: string;
-  choice_b?: string;
-  choice_c?: string;
-  choice_d?: string;
-  choice_e?: string;
-  correct_answer: string;
-  explanation?: string;
-  imageCount?: number;
-}
-
-interface SubtopicWithSection {
-  name: string;
-  section: string;
-}
-
-interface ApplicableExam {
-  examName: string;
-  subtopics: SubtopicWithSection[];
-  reasoning?: string;
-}
-
-// Exam topics structure with section numbers
-const EXAM_TOPICS = {
-  "PTEeXAM": {
-    "1. Basic TEE": {
-      "1.1": "TEE Probe Insertion and Safety",
-      "1.2": "Basic TEE Views and Anatomy",
-      "1.3": "Standard TEE Examination",
-      "1.4": "TEE Equipment and Technology"
-    },
-    "2. Cardiac Anatomy and Physiology": {
-      "2.1": "Chamber Assessment",
-      "2.2": "Valvular Anatomy",
-      "2.3": "Great Vessel Assessment",
-      "2.4": "Congenital Heart Disease"
-    },
-    "3. Valvular Disease": {
-      "3.1": "Mitral Valve Disease",
-      "3.2": "Aortic Valve Disease",
-      "3.3": "Tricuspid Valve Disease",
-      "3.4": "Pulmonary Valve Disease",
-      "3.5": "Prosthetic Valves"
-    },
-    "4. Hemodynamic Assessment": {
-      "4.1": "Doppler Principles",
-      "4.2": "Pressure Gradients",
-      "4.3": "Cardiac Output Assessment",
-      "4.4": "Diastolic Function"
-    },
-    "5. TEE in Cardiac Surgery": {
-      "5.1": "Intraoperative TEE",
-      "5.2": "Post-surgical Assessment",
-      "5.3": "Surgical Planning"
-    },
-    "6. Advanced TEE Applications": {
-      "6.1": "3D TEE",
-      "6.2": "Strain Imaging",
-      "6.3": "Contrast Enhancement",
-      "6.4": "Interventional Guidance"
-    }
-  },
-  "EACTVI": {
-    "1. Basic Echocardiography": {
-      "1.1": "Ultrasound Physics",
-      "1.2": "Image Optimization",
-      "1.3": "Standard Views",
-      "1.4": "Doppler Techniques"
-    },
-    "2. Left Heart Assessment": {
-      "2.1": "LV Function and Geometry",
-      "2.2": "LA Assessment",
-      "2.3": "Mitral Valve Evaluation",
-      "2.4": "Aortic Valve Assessment"
-    },
-    "3. Right Heart Assessment": {
-      "3.1": "RV Function Assessment",
-      "3.2": "RA Evaluation",
-      "3.3": "Tricuspid Valve Assessment",
-      "3.4": "Pulmonary Assessment"
-    },
-    "4. Hemodynamics and Flow": {
-      "4.1": "Pressure Measurements",
-      "4.2": "Flow Quantification",
-      "4.3": "Shunt Assessment",
-      "4.4": "Valve Stenosis/Regurgitation"
-    },
-    "5. Advanced Techniques": {
-      "5.1": "Tissue Doppler",
-      "5.2": "Strain Echocardiography",
-      "5.3": "3D Echocardiography",
-      "5.4": "Contrast Echocardiography"
-    },
-    "6. Clinical Applications": {
-      "6.1": "Heart Failure Assessment",
-      "6.2": "Ischemic Heart Disease",
-      "6.3": "Cardioembolic Source",
-      "6.4": "Critical Care Echocardiography"
-    }
-  }
-};
-
-// Helper function to create a flat lookup of subtopics with their sections
-function createSubtopicLookup() {
-  const lookup: Record<string, Record<string, string>> = {};
-  
-  Object.entries(EXAM_TOPICS).forEach(([examName, categories]) => {
-    lookup[examName] = {};
-    Object.entries(categories).forEach(([categoryName, subtopics]) => {
-      Object.entries(subtopics).forEach(([section, subtopicName]) => {
-        lookup[examName][subtopicName as string] = section;
-      });
-    });
-  });
-  
-  return lookup;
-}
-
-// Get all subtopic names for the prompt
-function getSubtopicNamesForExam(examName: string): string[] {
-  const subtopics: string[] = [];
-  const categories = EXAM_TOPICS[examName as keyof typeof EXAM_TOPICS];
-  
-  if (categories) {
-    Object.values(categories).forEach(subtopicsObj => {
-      const subtopicValues = Object.values(subtopicsObj as Record<string, string>);
-      subtopics.push(...subtopicValues);
-    });
-  }
-  
-  return subtopics;
-}
-
 // Assign applicable exams for a question using Claude API
 router.post('/assign', async (req: Request, res: Response) => {
   try {
@@ -153,211 +20,446 @@ router.post('/assign', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Question and correct_answer are required' });
     }
 
+    const registry = await getExamRegistry();
     let applicableExams: ApplicableExam[];
 
-    if (CLAUDE_API_KEY) {
-      // Use Claude API
-      applicableExams = await assignExamsWithClaude(questionData);
-    } else {
-      // Fallback to basic assignment
-      applicableExams = assignFallbackExams(questionData);
+    try {
+      applicableExams = (await assignExams(questionData, registry, req.user?.id)).exams;
+    } catch (claudeError) {
+      console.error('Error assigning exams with Claude:', claudeError);
+
+      // Return fallback exam assignments if Claude API fails
+      applicableExams = assignFallbackExams(questionData, registry);
     }
 
     res.json(applicableExams);
   } catch (error) {
     console.error('Error assigning exams:', error);
-    
-    // Return fallback exam assignments if Claude API fails
-    const fallbackExams = assignFallbackExams(req.body);
-    res.json(fallbackExams);
+    res.status(500).json({ error: 'Failed to assign exams' });
   }
 });
 
-async function assignExamsWithClaude(questionData: AssignExamsRequest): Promise<ApplicableExam[]> {
-  // Build context about the question
-  let questionContext = `Question: ${questionData.question}\n\n`;
-  
-  if (questionData.choice_a) questionContext += `A) ${questionData.choice_a}\n`;
-  if (questionData.choice_b) questionContext += `B) ${questionData.choice_b}\n`;
-  if (questionData.choice_c) questionContext += `C) ${questionData.choice_c}\n`;
-  if (questionData.choice_d) questionContext += `D) ${questionData.choice_d}\n`;
-  if (questionData.choice_e) questionContext += `E) ${questionData.choice_e}\n`;
-  
-  questionContext += `\nCorrect Answer: ${questionData.correct_answer}\n`;
-  
-  if (questionData.explanation) {
-    questionContext += `\nExplanation: ${questionData.explanation}\n`;
+// Get the exam categories, exam types and blueprints. Admins can include retired entries with ?all=true.
+router.get('/registry', async (req: Request, res: Response) => {
+  try {
+    const registry = await getExamRegistry();
+    res.json(req.user?.is_admin && req.query.all === 'true' ? registry.data : registry.active);
+  } catch (error) {
+    console.error('Error fetching exam registry:', error);
+    res.status(500).json({ error: 'Failed to fetch exam registry' });
   }
+});
 
-  if (questionData.imageCount && questionData.imageCount > 0) {
-    questionContext += `\nThis question includes ${questionData.imageCount} image(s) that are relevant to the medical context.\n`;
-  }
+const CODE_PATTERN = /^[a-z][a-z0-9_]{1,49}$/;
+const CODE_ERROR = 'Code must be lowercase letters, digits and underscores, starting with a letter';
 
-  const examTopicsText = JSON.stringify(EXAM_TOPICS, null, 2);
+const optionalText = (value: any) => value === undefined ? undefined : (typeof value === 'string' && value.trim()) || null;
 
-  const prompt = `You are an expert in echocardiography and TEE education who specializes in exam curriculum mapping.
+const optionalOrder = (value: any) => value === undefined ? undefined : parseInt(value);
 
-Analyze the following TEE/echocardiography question and assign it to appropriate exam syllabi with specific subtopics:
+// Shared checks for the name and order of a category, type or blueprint; returns an error message, or null if valid
+const validateRegistryEntry = (body: any, isNew: boolean, nameField = 'name'): string | null => {
+  const name = body[nameField];
+  if ((isNew || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+    return `${nameField === 'name' ? 'Name' : nameField} is required`;
+  }
+  if (body.display_order !== undefined && isNaN(parseInt(body.display_order))) {
+    return 'Display order must be a number';
+  }
+  return null;
+};
 
-${questionContext}
+const parseCount = (value: any) => value === undefined || value === null || value === '' ? null : Number(value);
 
-Available Exam Syllabi:
-${examTopicsText}
+// A target count and weight; returns an error message, or the parsed target
+const parseTarget = (value: any, label: string): CoverageTarget | string => {
+  const target_count = parseCount(value?.target_count);
+  const weight = parseCount(value?.weight);
+  if (target_count !== null && (!Number.isInteger(target_count) || target_count < 0)) {
+    return `Target for ${label} must be a whole number of questions`;
+  }
+  if (weight !== null && (isNaN(weight) || weight < 0 || weight > 9999)) {
+    return `Weight for ${label} must be a number between 0 and 9999`;
+  }
+  return { target_count, weight };
+};
 
-Based on this question's content, determine which exams (PTEeXAM and/or EACTVI) this question is suitable for and identify the specific subtopics within each exam that this question addresses.
+// Sections must be numbered uniquely, and so must the subtopics inside each one
+const parseSections = (value: any): BlueprintSection[] | string => {
+  if (!Array.isArray(value)) {
+    return 'Sections must be a list';
+  }
+  const sections: BlueprintSection[] = [];
+  for (const section of value) {
+    const number = String(section?.number ?? '').trim();
+    const title = typeof section?.title === 'string' ? section.title.trim() : '';
+    if (!number || !title) {
+      return 'Every section needs a number and a title';
+    }
+    if (sections.some(existing => existing.number === number)) {
+      return `Section ${number} appears more than once`;
+    }
+    if (!Array.isArray(section.subtopics)) {
+      return `Section ${number} needs a list of subtopics`;
+    }
 
-Most questions will be applicable to BOTH exams but may map to different subtopic areas within each syllabus.
+    const subtopics: BlueprintSection['subtopics'] = [];
+    for (const subtopic of section.subtopics) {
+      const subtopicNumber = String(subtopic?.number ?? '').trim();
+      const name = typeof subtopic?.name === 'string' ? subtopic.name.trim() : '';
+      if (!subtopicNumber || !name) {
+        return `Every subtopic in section ${number} needs a number and a name`;
+      }
+      if (subtopics.some(existing => existing.number === subtopicNumber)) {
+        return `Subtopic ${subtopicNumber} appears more than once in section ${number}`;
+      }
+      const subtopicTarget = parseTarget(subtopic, `subtopic ${subtopicNumber}`);
+      if (typeof subtopicTarget === 'string') {
+        return subtopicTarget;
+      }
+      subtopics.push({ number: subtopicNumber, name, ...subtopicTarget });
+    }
+    const sectionTarget = parseTarget(section, `section ${number}`);
+    if (typeof sectionTarget === 'string') {
+      return sectionTarget;
+    }
+    sections.push({ number, title, ...sectionTarget, subtopics });
+  }
+  return sections;
+};
 
-Provide your response in the following JSON format:
+// Add an exam category (admin only)
+router.post('/categories', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { code, name, description, icon, display_order } = req.body;
 
-[
-  {
-    "examName": "PTEeXAM",
-    "subtopics": ["specific subtopic 1", "specific subtopic 2"],
-    "reasoning": "Brief explanation of why this question fits these subtopics"
-  },
-  {
-    "examName": "EACTVI", 
-    "subtopics": ["specific subtopic 1", "specific subtopic 2"],
-    "reasoning": "Brief explanation of why this question fits these subtopics"
-  }
-]
-
-Guidelines:
-- Only include exams where the question is truly relevant
-- Select 1-3 most relevant subtopics per exam (be specific, don't overassign)
-- Subtopics must exactly match those listed in the exam syllabi (use the exact text, not the section numbers)
-- Provide brief reasoning for each exam assignment
-- Focus on the core concepts being tested in the question
-- Consider both the question content AND the explanation when making assignments
-
-Respond only with the JSON array, no additional text.`;
-
-  const response = await fetch(CLAUDE_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': CLAUDE_API_KEY!,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-haiku-20240307',
-      max_tokens: 1000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ]
-    })
-  });
+    if (!code || !CODE_PATTERN.test(code)) {
+      return res.status(400).json({ error: CODE_ERROR });
+    }
+    const validationError = validateRegistryEntry(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const registry = await getExamRegistry();
+    if (registry.data.categories.some(category => category.code === code)) {
+      return res.status(409).json({ error: `A category with code ${code} already exists` });
+    }
 
-  if (!response.ok) {
-    throw new Error(`Claude API error: ${response.status} ${response.statusText}`);
+    const category = await ExamRegistryModel.createCategory({
+      code,
+      name: name.trim(),
+      description: optionalText(description),
+      icon: optionalText(icon),
+      display_order: optionalOrder(display_order) ?? 0
+    });
+    invalidateExamRegistry();
+    res.status(201).json({ category });
+  } catch (error) {
+    console.error('Error creating exam category:', error);
+    res.status(500).json({ error: 'Failed to create exam category' });
   }
+});
 
-  const data = await response.json() as any;
-  const responseText = data.content[0].text;
-  
-  // Extract JSON if it's wrapped in other text
-  let jsonStr = responseText.trim();
-  const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-  if (jsonMatch) {
-    jsonStr = jsonMatch[0];
-  }
-  
-  const applicableExams = JSON.parse(jsonStr);
-  
-  // Validate the response structure
-  if (!Array.isArray(applicableExams)) {
-    throw new Error('Invalid response format from Claude API');
+// Edit or retire an exam category (admin only); codes are permanent because users store them
+router.put('/categories/:code', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { name, description, icon, display_order, is_active } = req.body;
+
+    const validationError = validateRegistryEntry(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const category = await ExamRegistryModel.updateCategory(req.params.code, {
+      name: name?.trim(),
+      description: optionalText(description),
+      icon: optionalText(icon),
+      display_order: optionalOrder(display_order),
+      is_active: is_active !== undefined ? Boolean(is_active) : undefined
+    });
+    if (!category) {
+      return res.status(404).json({ error: 'Exam category not found' });
+    }
+    invalidateExamRegistry();
+    res.json({ category });
+  } catch (error) {
+    console.error('Error updating exam category:', error);
+    res.status(500).json({ error: 'Failed to update exam category' });
   }
-  
-  const subtopicLookup = createSubtopicLookup();
-  
-  return applicableExams.map((exam: any) => ({
-    examName: exam.examName || 'Unknown',
-    subtopics: Array.isArray(exam.subtopics) 
-      ? exam.subtopics.map((subtopic: string) => ({
-          name: subtopic,
-          section: subtopicLookup[exam.examName]?.[subtopic] || 'Unknown'
-        }))
-      : [],
-    reasoning: exam.reasoning || ''
-  }));
-}
-
-function assignFallbackExams(questionData: AssignExamsRequest): ApplicableExam[] {
-  const questionText = questionData.question.toLowerCase();
-  const explanationText = questionData.explanation?.toLowerCase() || '';
-  const fullText = `${questionText} ${explanationText}`;
-  
-  const applicableExams: ApplicableExam[] = [];
-  const subtopicLookup = createSubtopicLookup();
-  
-  // Default assignments based on keywords
-  let pteexamSubtopics: string[] = [];
-  let eactviSubtopics: string[] = [];
-  
-  // TEE-specific content
-  if (fullText.includes('tee') || fullText.includes('transesophageal') || fullText.includes('probe')) {
-    pteexamSubtopics.push('Basic TEE Views and Anatomy');
-    eactviSubtopics.push('Standard Views');
+});
+
+// Add an exam type to a category (admin only)
+router.post('/types', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { code, category_code, name, description, display_order } = req.body;
+
+    if (!code || !CODE_PATTERN.test(code)) {
+      return res.status(400).json({ error: CODE_ERROR });
+    }
+    const validationError = validateRegistryEntry(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const registry = await getExamRegistry();
+    if (!registry.data.categories.some(category => category.code === category_code)) {
+      return res.status(400).json({ error: 'Unknown exam category' });
+    }
+    if (registry.data.types.some(type => type.code === code)) {
+      return res.status(409).json({ error: `An exam type with code ${code} already exists` });
+    }
+
+    const type = await ExamRegistryModel.createType({
+      code,
+      category_code,
+      name: name.trim(),
+      description: optionalText(description),
+      display_order: optionalOrder(display_order) ?? 0
+    });
+    invalidateExamRegistry();
+    res.status(201).json({ type });
+  } catch (error) {
+    console.error('Error creating exam type:', error);
+    res.status(500).json({ error: 'Failed to create exam type' });
   }
-  
-  // Valve-related content
-  if (fullText.includes('mitral') || fullText.includes('valve')) {
-    pteexamSubtopics.push('Mitral Valve Disease');
-    eactviSubtopics.push('Mitral Valve Evaluation');
+});
+
+// Edit, move or retire an exam type (admin only)
+router.put('/types/:code', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { category_code, name, description, display_order, is_active } = req.body;
+
+    const validationError = validateRegistryEntry(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (category_code !== undefined) {
+      const registry = await getExamRegistry();
+      if (!registry.data.categories.some(category => category.code === category_code)) {
+        return res.status(400).json({ error: 'Unknown exam category' });
+      }
+    }
+
+    const type = await ExamRegistryModel.updateType(req.params.code, {
+      category_code,
+      name: name?.trim(),
+      description: optionalText(description),
+      display_order: optionalOrder(display_order),
+      is_active: is_active !== undefined ? Boolean(is_active) : undefined
+    });
+    if (!type) {
+      return res.status(404).json({ error: 'Exam type not found' });
+    }
+    invalidateExamRegistry();
+    res.json({ type });
+  } catch (error) {
+    console.error('Error updating exam type:', error);
+    res.status(500).json({ error: 'Failed to update exam type' });
   }
-  
-  if (fullText.includes('aortic')) {
-    pteexamSubtopics.push('Aortic Valve Disease');
-    eactviSubtopics.push('Aortic Valve Assessment');
+});
+
+// Add an exam blueprint with its sections and subtopics (admin only)
+router.post('/blueprints', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { name, description, category_code, display_order } = req.body;
+    const target_total = parseCount(req.body.target_total);
+
+    if (typeof name !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9 _-]{0,49}$/.test(name.trim())) {
+      return res.status(400).json({ error: 'Name must be up to 50 letters, digits, spaces, dashes or underscores' });
+    }
+    const validationError = validateRegistryEntry(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (target_total !== null && (!Number.isInteger(target_total) || target_total < 0)) {
+      return res.status(400).json({ error: 'Target total must be a whole number of questions' });
+    }
+    const sections = parseSections(req.body.sections || []);
+    if (typeof sections === 'string') {
+      return res.status(400).json({ error: sections });
+    }
+    const registry = await getExamRegistry();
+    if (category_code && !registry.data.categories.some(category => category.code === category_code)) {
+      return res.status(400).json({ error: 'Unknown exam category' });
+    }
+    if (registry.getBlueprint(name.trim())) {
+      return res.status(409).json({ error: `A blueprint named ${name.trim()} already exists` });
+    }
+
+    await ExamRegistryModel.createBlueprint({
+      name: name.trim(),
+      description: optionalText(description),
+      category_code: category_code || null,
+      display_order: optionalOrder(display_order) ?? 0,
+      target_total,
+      sections
+    });
+    invalidateExamRegistry();
+    const blueprint = (await getExamRegistry()).getBlueprint(name.trim());
+    res.status(201).json({ blueprint });
+  } catch (error) {
+    console.error('Error creating exam blueprint:', error);
+    res.status(500).json({ error: 'Failed to create exam blueprint' });
   }
-  
-  // Doppler/hemodynamics
-  if (fullText.includes('doppler') || fullText.includes('gradient') || fullText.includes('flow')) {
-    pteexamSubtopics.push('Doppler Principles');
-    eactviSubtopics.push('Doppler Techniques');
+});
+
+// Edit, retire or restructure a blueprint (admin only). Names are permanent because question
+// assignments store them; sections, when given, replace the existing outline.
+router.put('/blueprints/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { description, category_code, display_order, is_active } = req.body;
+
+    const validationError = validateRegistryEntry(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    let sections: BlueprintSection[] | undefined;
+    if (req.body.sections !== undefined) {
+      const parsed = parseSections(req.body.sections);
+      if (typeof parsed === 'string') {
+        return res.status(400).json({ error: parsed });
+      }
+      sections = parsed;
+    }
+    if (category_code) {
+      const registry = await getExamRegistry();
+      if (!registry.data.categories.some(category => category.code === category_code)) {
+        return res.status(400).json({ error: 'Unknown exam category' });
+      }
+    }
+
+    const blueprintId = parseInt(req.params.id);
+    const updated = await ExamRegistryModel.updateBlueprint(blueprintId, {
+      description: optionalText(description),
+      category_code: category_code === undefined ? undefined : category_code || null,
+      display_order: optionalOrder(display_order),
+      is_active: is_active !== undefined ? Boolean(is_active) : undefined,
+      sections
+    });
+    if (!updated) {
+      return res.status(404).json({ error: 'Exam blueprint not found' });
+    }
+    invalidateExamRegistry();
+    const blueprint = (await getExamRegistry()).data.blueprints.find(candidate => candidate.id === blueprintId);
+    res.json({ blueprint });
+  } catch (error) {
+    console.error('Error updating exam blueprint:', error);
+    res.status(500).json({ error: 'Failed to update exam blueprint' });
   }
-  
-  // LV function
-  if (fullText.includes('left ventricle') || fullText.includes('lv') || fullText.includes('systolic')) {
-    pteexamSubtopics.push('Chamber Assessment');
-    eactviSubtopics.push('LV Function and Geometry');
+});
+
+// Set a blueprint's coverage targets (admin only). Sections and subtopics are matched by number;
+// anything left out has its target cleared.
+router.put('/blueprints/:id/targets', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const target_total = parseCount(req.body.target_total);
+    if (target_total !== null && (!Number.isInteger(target_total) || target_total < 0)) {
+      return res.status(400).json({ error: 'Target total must be a whole number of questions' });
+    }
+    if (!Array.isArray(req.body.sections)) {
+      return res.status(400).json({ error: 'Sections must be a list' });
+    }
+
+    const sections: (CoverageTarget & { number: string; subtopics: (CoverageTarget & { number: string })[] })[] = [];
+    for (const section of req.body.sections) {
+      const number = String(section?.number ?? '');
+      const sectionTarget = parseTarget(section, `section ${number}`);
+      if (typeof sectionTarget === 'string') {
+        return res.status(400).json({ error: sectionTarget });
+      }
+      const subtopics: (CoverageTarget & { number: string })[] = [];
+      for (const subtopic of Array.isArray(section.subtopics) ? section.subtopics : []) {
+        const subtopicNumber = String(subtopic?.number ?? '');
+        const subtopicTarget = parseTarget(subtopic, `subtopic ${subtopicNumber}`);
+        if (typeof subtopicTarget === 'string') {
+          return res.status(400).json({ error: subtopicTarget });
+        }
+        subtopics.push({ number: subtopicNumber, ...subtopicTarget });
+      }
+      sections.push({ number, ...sectionTarget, subtopics });
+    }
+
+    const blueprintId = parseInt(req.params.id);
+    const existing = (await getExamRegistry()).data.blueprints.find(candidate => candidate.id === blueprintId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Exam blueprint not found' });
+    }
+
+    // Sections and subtopics not mentioned are cleared rather than left with stale targets
+    const targets = existing.sections.map(section => {
+      const given = sections.find(candidate => candidate.number === section.number);
+      return {
+        number: section.number,
+        target_count: given?.target_count ?? null,
+        weight: given?.weight ?? null,
+        subtopics: section.subtopics.map(subtopic => {
+          const givenSubtopic = given?.subtopics.find(candidate => candidate.number === subtopic.number);
+          return { number: subtopic.number, target_count: givenSubtopic?.target_count ?? null, weight: givenSubtopic?.weight ?? null };
+        })
+      };
+    });
+
+    await ExamRegistryModel.updateTargets(blueprintId, target_total, targets);
+    invalidateExamRegistry();
+    const registry = await getExamRegistry();
+    const blueprint = registry.data.blueprints.find(candidate => candidate.id === blueprintId)!;
+    res.json({ coverage: buildCoverage(registry, blueprint, await BlueprintCoverageModel.getAssignments(blueprint.name)) });
+  } catch (error) {
+    console.error('Error updating blueprint targets:', error);
+    res.status(500).json({ error: 'Failed to update blueprint targets' });
   }
-  
-  // Default to basic topics if nothing specific found
-  if (pteexamSubtopics.length === 0) {
-    pteexamSubtopics.push('Standard TEE Examination');
+});
+
+// Approved, pending and needs-images question counts per section and subtopic, against the targets (admin only)
+router.get('/blueprints/:id/coverage', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const registry = await getExamRegistry();
+    const blueprint = registry.data.blueprints.find(candidate => candidate.id === parseInt(req.params.id));
+    if (!blueprint) {
+      return res.status(404).json({ error: 'Exam blueprint not found' });
+    }
+
+    const assignments = await BlueprintCoverageModel.getAssignments(blueprint.name);
+    res.json({ coverage: buildCoverage(registry, blueprint, assignments) });
+  } catch (error) {
+    console.error('Error building blueprint coverage:', error);
+    res.status(500).json({ error: 'Failed to build blueprint coverage' });
   }
-  
-  if (eactviSubtopics.length === 0) {
-    eactviSubtopics.push('Standard Views');
+});
+
+// The questions behind one cell of the coverage report: a section, or one subtopic with ?subtopic=,
+// optionally narrowed to one status (admin only)
+router.get('/blueprints/:id/coverage/questions', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const section = req.query.section as string | undefined;
+    const subtopic = req.query.subtopic as string | undefined;
+    const status = req.query.status as CoverageStatus | undefined;
+
+    if (!section) {
+      return res.status(400).json({ error: 'Section is required' });
+    }
+    if (status && !COVERAGE_STATUSES.includes(status)) {
+      return res.status(400).json({ error: 'Invalid coverage status' });
+    }
+
+    const registry = await getExamRegistry();
+    const blueprint = registry.data.blueprints.find(candidate => candidate.id === parseInt(req.params.id));
+    if (!blueprint) {
+      return res.status(404).json({ error: 'Exam blueprint not found' });
+    }
+    const blueprintSection = blueprint.sections.find(candidate => candidate.number === section);
+    if (!blueprintSection || (subtopic && !blueprintSection.subtopics.some(candidate => candidate.number === subtopic))) {
+      return res.status(404).json({ error: 'Section or subtopic not found' });
+    }
+
+    // Stored subtopics are matched by number, as the coverage counts are, so renamed subtopics still line up
+    const assignments = await BlueprintCoverageModel.getAssignments(blueprint.name);
+    const questionIds = findCellQuestionIds(registry, blueprint, assignments, section, subtopic, status);
+    const questions = await BlueprintCoverageModel.findQuestions(questionIds);
+    res.json({ questions });
+  } catch (error) {
+    console.error('Error fetching coverage questions:', error);
+    res.status(500).json({ error: 'Failed to fetch questions' });
   }
-  
-  // Add PTEeXAM
-  applicableExams.push({
-    examName: 'PTEeXAM',
-    subtopics: Array.from(new Set(pteexamSubtopics)).slice(0, 3).map(subtopic => ({
-      name: subtopic,
-      section: subtopicLookup['PTEeXAM']?.[subtopic] || 'Unknown'
-    })),
-    reasoning: 'Assigned based on TEE/echocardiography content analysis'
-  });
-  
-  // Add EACTVI
-  applicableExams.push({
-    examName: 'EACTVI',
-    subtopics: Array.from(new Set(eactviSubtopics)).slice(0, 3).map(subtopic => ({
-      name: subtopic,
-      section: subtopicLookup['EACTVI']?.[subtopic] || 'Unknown'
-    })),
-    reasoning: 'Assigned based on echocardiography principles and techniques'
-  });
-  
-  return applicableExams;
-}
+});
 
 export default router;
\ No newline at end of file
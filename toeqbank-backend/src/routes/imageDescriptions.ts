@@ -2,18 +2,32 @@ import { Router, Request, Response } from 'express';
 import { ImageDescriptionModel } from '../models/ImageDescription';
 import { ImageModel } from '../models/Image';
 import { requireAuth } from '../middleware/auth';
+import { getExamRegistry } from '../utils/examRegistry';
 
 const router = Router();
 
-// Get all image descriptions (optionally filtered by batch and/or echo_view)
+// Get all image descriptions (optionally filtered by batch, echo_view and/or an exam section or subtopic)
 router.get('/', async (req: Request, res: Response) => {
   try {
     const batchId = req.query.batch_id ? parseInt(req.query.batch_id as string) : undefined;
     const echoView = req.query.echo_view as string | undefined;
+    const examName = req.query.exam_name as string | undefined;
+    const section = req.query.section as string | undefined;
+    const subtopic = req.query.subtopic as string | undefined;
+
+    // Resolve the section or subtopic to the ways it can be stored on assignments
+    let storedSubtopics: string[] | undefined;
+    if (examName && section) {
+      const registry = await getExamRegistry();
+      storedSubtopics = registry.getStoredSubtopics(examName, section, subtopic);
+      if (storedSubtopics.length === 0) {
+        return res.status(404).json({ error: 'Section or subtopic not found' });
+      }
+    }
     
     let descriptions;
-    if (batchId || echoView) {
-      descriptions = await ImageDescriptionModel.findByFilters({ batchId, echoView });
+    if (batchId || echoView || storedSubtopics) {
+      descriptions = await ImageDescriptionModel.findByFilters({ batchId, echoView, examName, storedSubtopics });
       console.log(`Fetched image descriptions with filters (batch: ${batchId}, view: ${echoView}):`, descriptions.length, 'items');
     } else {
       descriptions = await ImageDescriptionModel.findAll();
@@ -4,9 +4,23 @@ import path from 'path';
 import fs from 'fs';
 import https from 'https';
 import http from 'http';
-import { ImageModel } from '../models/Image';
-import { requireAuth } from '../middleware/auth';
+import { ImageModel, PhiRegion, PhiStatus, PHI_CLEARED_STATUSES } from '../models/Image';
+import { QuestionRevisionModel } from '../models/QuestionRevision';
+import { QuestionModel } from '../models/Question';
+import { ImageDescriptionModel } from '../models/ImageDescription';
+import { NotificationModel } from '../models/Notification';
+import {
+  ImageAnnotationModel,
+  AnnotationShape,
+  ANNOTATION_SHAPE_TYPES,
+  MAX_ANNOTATION_SHAPES,
+  MAX_LABEL_LENGTH
+} from '../models/ImageAnnotation';
+import { ImageReviewModel, ImageReviewScores, IMAGE_REVIEW_CRITERIA, MAX_IMAGE_SCORE } from '../models/ImageReview';
+import { requireAuth, optionalAuth } from '../middleware/auth';
 import { StorageService } from '../utils/storage';
+import { isDicomFile, probeDicom, convertDicom, DicomConversionError, DicomProbe } from '../utils/dicom';
+import { canScanForPhi, scanImageForPhi, redactImage, PhiRedactionError, MAX_REDACTION_REGIONS } from '../utils/phi';
 import { query } from '../models/database';
 import pool from '../models/database';
 
@@ -15,19 +29,47 @@ const router = Router();
 // Use memory storage since all uploads go to Spaces
 const storage = multer.memoryStorage();
 
+// Types stored as uploaded; DICOM files are converted to one of these first
+const allowedTypes = [
+  'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp',
+  'video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo'
+];
+
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedTypes = [
-    'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp',
-    'video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo'
-  ];
-  
-  if (allowedTypes.includes(file.mimetype)) {
+  // Echo machines often export DICOM without an extension, so untyped files are let through and
+  // checked for the DICOM signature once they're read
+  if (allowedTypes.includes(file.mimetype) || file.mimetype === 'application/dicom' || file.mimetype === 'application/octet-stream' || /\.(dcm|dicom)$/i.test(file.originalname)) {
     cb(null, true);
   } else {
-    cb(new Error('Invalid file type. Only images and videos are allowed.'));
+    cb(new Error('Invalid file type. Only images, videos and DICOM files are allowed.'));
   }
 };
 
+// DICOM uploads are converted to a still or cine before storing; anything else must be a browser-viewable type
+const prepareUploadedFile = async (file: Express.Multer.File): Promise<{
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  dicom?: DicomProbe;
+}> => {
+  if (isDicomFile(file.buffer)) {
+    const converted = await convertDicom(file.buffer);
+    // Exported file names can carry patient details, so the stored name is generic
+    const originalName = `dicom-${converted.probe.image_type}-${converted.probe.width}x${converted.probe.height}${converted.extension}`;
+    return { buffer: converted.buffer, originalName, mimeType: converted.mime_type, size: converted.buffer.length, dicom: converted.probe };
+  }
+  // A .dcm name lets any claimed type through the filter, so only the allowed types may be stored as-is
+  if (!allowedTypes.includes(file.mimetype)) {
+    throw new DicomConversionError('This file is neither an image, a video nor a DICOM file');
+  }
+  return { buffer: file.buffer, originalName: file.originalname, mimeType: file.mimetype, size: file.size };
+};
+
+// Stills we can OCR start out pending and are scanned once the upload has been answered
+const initialPhiStatus = (mimeType: string, imageType: 'still' | 'cine'): PhiStatus =>
+  imageType === 'still' && canScanForPhi(mimeType) ? 'pending' : 'unscanned';
+
 const upload = multer({ 
   storage,
   fileFilter,
@@ -66,7 +108,19 @@ router.post('/upload', requireAuth, upload.single('image'), async (req: Request,
     console.log('User:', req.user.username, 'ID:', req.user.id);
 
     const { description, tags, image_type, license, license_details } = req.body;
-    const imageType = image_type || (req.file.mimetype.startsWith('video/') ? 'cine' : 'still');
+
+    let prepared;
+    try {
+      prepared = await prepareUploadedFile(req.file);
+    } catch (conversionError) {
+      if (conversionError instanceof DicomConversionError) {
+        return res.status(422).json({ error: conversionError.message });
+      }
+      throw conversionError;
+    }
+
+    // A DICOM's frame count decides still vs cine, whatever the form said
+    const imageType = prepared.dicom?.image_type || image_type || (prepared.mimeType.startsWith('video/') ? 'cine' : 'still');
     
     // FORCE all uploads to DigitalOcean Spaces - no local storage fallback
     if (!StorageService.isConfigured()) {
@@ -83,9 +137,9 @@ router.post('/upload', requireAuth, upload.single('image'), async (req: Request,
     try {
       console.log('Uploading to DigitalOcean Spaces...');
       const uploadResult = await StorageService.uploadFile(
-        req.file.buffer,
-        req.file.originalname,
-        req.file.mimetype
+        prepared.buffer,
+        prepared.originalName,
+        prepared.mimeType
       );
       
       finalFilename = uploadResult.filename;
@@ -103,29 +157,33 @@ router.post('/upload', requireAuth, upload.single('image'), async (req: Request,
 
     const imageData = {
       filename: finalFilename,
-      original_name: req.file.originalname,
+      original_name: prepared.originalName,
       file_path: finalFilePath,
-      file_size: req.file.size,
-      mime_type: req.file.mimetype,
+      file_size: prepared.size,
+      mime_type: prepared.mimeType,
       image_type: imageType as 'still' | 'cine',
       description: description || null,
       tags: tags ? (Array.isArray(tags) ? tags : tags.split(',').map((t: string) => t.trim())) : [],
       license: license || 'user-contributed',
       license_details: license_details || null,
-      width: undefined,  // Use undefined instead of null for optional fields
-      height: undefined,
-      duration_seconds: undefined,
+      width: prepared.dicom?.width,  // Use undefined instead of null for optional fields
+      height: prepared.dicom?.height,
+      duration_seconds: prepared.dicom?.duration_seconds ?? undefined,
       source_url: undefined,
       uploaded_by: req.user.id,
       exam_category: req.user.exam_category,
-      exam_type: req.user.exam_type
+      exam_type: req.user.exam_type,
+      phi_status: initialPhiStatus(prepared.mimeType, imageType)
     };
 
     console.log('Image data to save:', imageData);
 
     const image = await ImageModel.create(imageData);
     console.log('Image saved successfully:', image.id);
-    res.status(201).json(image);
+    if (image.phi_status === 'pending') {
+      scanImageForPhi(image, prepared.buffer, prepared.mimeType);
+    }
+    res.status(201).json(prepared.dicom ? { ...image, dicom: prepared.dicom } : image);
   } catch (error: any) {
     console.error('Upload error:', error);
     console.error('Error stack:', error.stack);
@@ -138,6 +196,26 @@ router.post('/upload', requireAuth, upload.single('image'), async (req: Request,
   }
 });
 
+// Read a DICOM header without storing anything, so the upload form can pre-fill type, modality and view
+router.post('/dicom/probe', requireAuth, upload.single('image'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    if (!isDicomFile(req.file.buffer)) {
+      return res.status(400).json({ error: 'This is not a DICOM file' });
+    }
+
+    res.json(probeDicom(req.file.buffer));
+  } catch (error) {
+    if (error instanceof DicomConversionError) {
+      return res.status(422).json({ error: error.message });
+    }
+    console.error('Probe DICOM error:', error);
+    res.status(500).json({ error: 'Failed to read DICOM file' });
+  }
+});
+
 // URL upload endpoint
 router.post('/upload-url', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -284,7 +362,8 @@ router.post('/upload-url', requireAuth, async (req: Request, res: Response) => {
       source_url: source_url || url, // Store the original URL
       uploaded_by: req.user.id,
       exam_category: req.user.exam_category,
-      exam_type: req.user.exam_type
+      exam_type: req.user.exam_type,
+      phi_status: initialPhiStatus(mimetype, imageType)
     };
 
     console.log('Creating image in database with data:', JSON.stringify(imageData, null, 2));
@@ -314,6 +393,10 @@ router.post('/upload-url', requireAuth, async (req: Request, res: Response) => {
       });
     }
     
+    if (image.phi_status === 'pending') {
+      scanImageForPhi(image, buffer, mimetype);
+    }
+
     res.status(201).json(image);
   } catch (error: any) {
     console.error('=== UPLOAD-URL ERROR ===');
@@ -525,21 +608,40 @@ router.post('/:id/review', requireAuth, async (req: Request, res: Response) => {
     }
 
     const imageId = parseInt(req.params.id);
-    const { rating, status } = req.body;
-
-    if (!rating || rating < 0 || rating > 10) {
-      return res.status(400).json({ error: 'Rating must be between 0 and 10' });
-    }
+    const { status, scores, notes } = req.body;
 
     if (!['approved', 'rejected', 'returned'].includes(status)) {
       return res.status(400).json({ error: 'Invalid status. Must be approved, rejected, or returned' });
     }
 
-    // Submit the review
-    const result = await ImageModel.submitReview(imageId, req.user.id, rating, status);
+    const reviewScores = {} as ImageReviewScores;
+    for (const criterion of IMAGE_REVIEW_CRITERIA) {
+      const score = parseInt(scores?.[criterion.key]);
+      if (isNaN(score) || score < 0 || score > MAX_IMAGE_SCORE) {
+        return res.status(400).json({ error: `${criterion.label} must be scored between 0 and ${MAX_IMAGE_SCORE}` });
+      }
+      reviewScores[criterion.key] = score;
+    }
+
+    if (status !== 'approved' && !notes?.trim()) {
+      return res.status(400).json({ error: 'Notes for the contributor are required when returning or rejecting an image' });
+    }
+
+    const result = await ImageReviewModel.submit(imageId, req.user.id, status, reviewScores, notes?.trim());
     
     if (!result) {
-      return res.status(404).json({ error: 'Image not found or already reviewed' });
+      const image = await ImageModel.findById(imageId);
+      if (!image) {
+        return res.status(404).json({ error: 'Image not found' });
+      }
+      if (status === 'approved' && !PHI_CLEARED_STATUSES.includes(image.phi_status || 'unscanned')) {
+        return res.status(409).json({ error: 'Redact or clear burned-in patient details before approving this image' });
+      }
+      return res.status(409).json({ error: 'This image has already been reviewed' });
+    }
+
+    if (result.uploaded_by !== req.user.id) {
+      await NotificationModel.notifyImageReviewed(result, status, result.review_rating || 0);
     }
 
     res.json({ 
@@ -552,6 +654,211 @@ router.post('/:id/review', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+// Review history for an image, for its contributor and for reviewers (Must come before /:id route)
+router.get('/:id/reviews', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const imageId = parseInt(req.params.id);
+    const image = await ImageModel.findById(imageId);
+
+    if (!image) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    if (image.uploaded_by !== req.user.id && !req.user.is_admin && !req.user.is_reviewer) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const reviews = await ImageReviewModel.findForImage(imageId);
+    res.json({ criteria: IMAGE_REVIEW_CRITERIA, max_score: MAX_IMAGE_SCORE, reviews });
+  } catch (error) {
+    console.error('Get image reviews error:', error);
+    res.status(500).json({ error: 'Failed to fetch image reviews' });
+  }
+});
+
+// Upload a new file for an image that was sent back. The image keeps its id, so questions using it
+// pick up the new file, and it goes back into the review queue.
+router.post('/:id/replace', requireAuth, upload.single('image'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const imageId = parseInt(req.params.id);
+    const image = await ImageModel.findById(imageId);
+
+    if (!image) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    if (!req.user.is_admin) {
+      if (image.uploaded_by !== req.user.id) {
+        return res.status(403).json({ error: 'You can only replace your own images' });
+      }
+      if (image.review_status !== 'returned' && image.review_status !== 'pending') {
+        return res.status(409).json({ error: 'Only images that are pending or returned for revision can be replaced' });
+      }
+    }
+
+    if (!StorageService.isConfigured()) {
+      return res.status(500).json({ 
+        error: 'Storage service not configured', 
+        message: 'DigitalOcean Spaces configuration is required for file uploads'
+      });
+    }
+
+    let prepared;
+    try {
+      prepared = await prepareUploadedFile(req.file);
+    } catch (conversionError) {
+      if (conversionError instanceof DicomConversionError) {
+        return res.status(422).json({ error: conversionError.message });
+      }
+      throw conversionError;
+    }
+
+    const imageType = prepared.dicom?.image_type || (prepared.mimeType.startsWith('video/') ? 'cine' : 'still');
+    const uploadResult = await StorageService.uploadFile(prepared.buffer, prepared.originalName, prepared.mimeType);
+    const replaced = await ImageModel.replaceFile(imageId, {
+      filename: uploadResult.filename,
+      original_name: prepared.originalName,
+      file_path: uploadResult.url,
+      file_size: prepared.size,
+      mime_type: prepared.mimeType,
+      image_type: imageType,
+      width: prepared.dicom?.width,
+      height: prepared.dicom?.height,
+      duration_seconds: prepared.dicom?.duration_seconds ?? undefined,
+      phi_status: initialPhiStatus(prepared.mimeType, imageType)
+    });
+    if (replaced?.phi_status === 'pending') {
+      scanImageForPhi(replaced, prepared.buffer, prepared.mimeType);
+    }
+
+    // The old file is no longer referenced; failing to remove it only leaves an orphan in Spaces
+    if (image.file_path.startsWith('http')) {
+      try {
+        await StorageService.deleteFile(image.filename);
+      } catch (err) {
+        console.warn('Failed to delete replaced Spaces file:', image.filename, err);
+      }
+    }
+
+    res.json(replaced);
+  } catch (error) {
+    console.error('Replace image error:', error);
+    res.status(500).json({ error: 'Failed to replace image' });
+  }
+});
+
+const validateRedactionRegions = (regions: any): string | null => {
+  if (!Array.isArray(regions) || regions.length === 0) {
+    return 'At least one region is required';
+  }
+  if (regions.length > MAX_REDACTION_REGIONS) {
+    return `An image can have at most ${MAX_REDACTION_REGIONS} redacted regions`;
+  }
+  for (const region of regions) {
+    const { x, y, width, height } = region || {};
+    if (![x, y, width, height].every(value => typeof value === 'number' && value >= 0 && value <= 1)) {
+      return 'Region coordinates must be fractions of the image size between 0 and 1';
+    }
+    if (width === 0 || height === 0 || x + width > 1 || y + height > 1) {
+      return 'Regions must have a size and lie within the image';
+    }
+  }
+  return null;
+};
+
+// A reviewer has checked the image and it shows nothing identifying (Must come before /:id route)
+router.post('/:id/phi/clear', requireAuth, async (req: Request, res: Response) => {
+  try {
+    if (!req.user.is_admin && !req.user.is_reviewer) {
+      return res.status(403).json({ error: 'Access denied. Admin or reviewer role required.' });
+    }
+
+    const image = await ImageModel.clearPhi(parseInt(req.params.id), req.user.id);
+    if (!image) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    res.json(image);
+  } catch (error) {
+    console.error('Clear PHI error:', error);
+    res.status(500).json({ error: 'Failed to clear image' });
+  }
+});
+
+// Black out rectangles on a still and swap in the redacted copy. The original file is deleted so the
+// unredacted pixels don't linger at their public URL. (Must come before /:id route)
+router.post('/:id/redact', requireAuth, async (req: Request, res: Response) => {
+  try {
+    if (!req.user.is_admin && !req.user.is_reviewer) {
+      return res.status(403).json({ error: 'Access denied. Admin or reviewer role required.' });
+    }
+
+    const validationError = validateRedactionRegions(req.body.regions);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const imageId = parseInt(req.params.id);
+    const image = await ImageModel.findById(imageId);
+    if (!image) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    if (image.image_type !== 'still' || !canScanForPhi(image.mime_type)) {
+      return res.status(422).json({ error: 'Only PNG and JPEG stills can be redacted here. Return the image to the contributor instead.' });
+    }
+
+    if (!StorageService.isConfigured()) {
+      return res.status(500).json({ 
+        error: 'Storage service not configured', 
+        message: 'DigitalOcean Spaces configuration is required for file uploads'
+      });
+    }
+
+    const isSpacesFile = image.file_path.startsWith('http');
+    const original = isSpacesFile
+      ? await StorageService.downloadFile(image.filename)
+      : fs.readFileSync(path.join(__dirname, '../../uploads/images', image.filename));
+
+    const regions: PhiRegion[] = req.body.regions.map((region: any) => ({
+      x: region.x, y: region.y, width: region.width, height: region.height
+    }));
+
+    let redacted: Buffer;
+    try {
+      redacted = redactImage(original, image.mime_type, regions);
+    } catch (redactionError) {
+      if (redactionError instanceof PhiRedactionError) {
+        return res.status(422).json({ error: redactionError.message });
+      }
+      throw redactionError;
+    }
+
+    const uploadResult = await StorageService.uploadFile(redacted, image.filename, image.mime_type);
+    const updated = await ImageModel.saveRedactedFile(imageId, {
+      filename: uploadResult.filename,
+      file_path: uploadResult.url,
+      file_size: uploadResult.size
+    }, req.user.id);
+
+    try {
+      if (isSpacesFile) {
+        await StorageService.deleteFile(image.filename);
+      } else {
+        fs.unlinkSync(path.join(__dirname, '../../uploads/images', image.filename));
+      }
+    } catch (err) {
+      console.warn('Failed to delete unredacted file:', image.filename, err);
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Redact image error:', error);
+    res.status(500).json({ error: 'Failed to redact image' });
+  }
+});
+
 // Get users who have uploaded images (for admin filtering)
 router.get('/uploaders', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -577,7 +884,16 @@ router.get('/my-images', requireAuth, async (req: Request, res: Response) => {
       SELECT 
         i.*,
         u.username as uploader_username,
-        r.username as reviewer_name
+        r.username as reviewer_name,
+        (
+          SELECT row_to_json(ir) FROM (
+            SELECT status, diagnostic_quality, deidentification, view_labelling, licensing_clarity, notes, created_at
+            FROM image_reviews
+            WHERE image_id = i.id
+            ORDER BY created_at DESC, id DESC
+            LIMIT 1
+          ) ir
+        ) as latest_review
       FROM images i
       LEFT JOIN users u ON i.uploaded_by = u.id
       LEFT JOIN users r ON i.reviewed_by = r.id
@@ -651,7 +967,7 @@ router.put('/:id', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', optionalAuth, async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const image = await ImageModel.findById(id);
@@ -660,9 +976,13 @@ router.delete('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Image not found' });
     }
     
+    // Deleting the image drops its question links, which changes those questions' history
+    const linkedQuestions = await ImageModel.findQuestionsForImage(id);
     const deleted = await ImageModel.delete(id);
     
     if (deleted) {
+      await QuestionRevisionModel.recordMany(linkedQuestions.map(question => question.id), 'images', req.user?.id);
+
       // Delete from Spaces if it's a Spaces URL, otherwise try local cleanup for legacy files
       if (image.file_path.startsWith('http')) {
         try {
@@ -689,7 +1009,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/:id/associate/:questionId', async (req: Request, res: Response) => {
+router.post('/:id/associate/:questionId', optionalAuth, async (req: Request, res: Response) => {
   try {
     const imageId = parseInt(req.params.id);
     const questionId = parseInt(req.params.questionId);
@@ -705,6 +1025,16 @@ router.post('/:id/associate/:questionId', async (req: Request, res: Response) =>
     
     const association = await ImageModel.associateWithQuestion(questionId, imageId, displayOrder, usageType);
     console.log('Association created:', association);
+    await QuestionRevisionModel.record(questionId, 'images', req.user?.id);
+
+    // Only images the question's author asked for are news to them
+    const neededImages = await ImageDescriptionModel.findByQuestionIdAndUsageType(questionId, usageType);
+    if (neededImages.length > 0) {
+      const question = await QuestionModel.findById(questionId);
+      if (question) {
+        await NotificationModel.notifyImageSupplied(question, imageId, req.user?.id);
+      }
+    }
     res.status(201).json(association);
   } catch (error) {
     console.error('Associate image error:', error);
@@ -712,7 +1042,7 @@ router.post('/:id/associate/:questionId', async (req: Request, res: Response) =>
   }
 });
 
-router.put('/:id/usage/:questionId', async (req: Request, res: Response) => {
+router.put('/:id/usage/:questionId', optionalAuth, async (req: Request, res: Response) => {
   try {
     const imageId = parseInt(req.params.id);
     const questionId = parseInt(req.params.questionId);
@@ -728,6 +1058,7 @@ router.put('/:id/usage/:questionId', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Association not found' });
     }
     
+    await QuestionRevisionModel.record(questionId, 'images', req.user?.id);
     res.json(updated);
   } catch (error) {
     console.error('Update image usage error:', error);
@@ -735,7 +1066,7 @@ router.put('/:id/usage/:questionId', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/:id/associate/:questionId', async (req: Request, res: Response) => {
+router.delete('/:id/associate/:questionId', optionalAuth, async (req: Request, res: Response) => {
   try {
     const imageId = parseInt(req.params.id);
     const questionId = parseInt(req.params.questionId);
@@ -746,6 +1077,7 @@ router.delete('/:id/associate/:questionId', async (req: Request, res: Response)
       return res.status(404).json({ error: 'Association not found' });
     }
     
+    await QuestionRevisionModel.record(questionId, 'images', req.user?.id);
     res.json({ success: true });
   } catch (error) {
     console.error('Remove association error:', error);
@@ -764,6 +1096,139 @@ router.get('/:id/questions', async (req: Request, res: Response) => {
   }
 });
 
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const isFraction = (value: any) => typeof value === 'number' && value >= 0 && value <= 1;
+
+// Returns an error message, or null when every shape is well formed
+const validateAnnotationShapes = (shapes: any): string | null => {
+  if (!Array.isArray(shapes)) {
+    return 'Shapes must be a list';
+  }
+  if (shapes.length > MAX_ANNOTATION_SHAPES) {
+    return `An image can have at most ${MAX_ANNOTATION_SHAPES} annotations`;
+  }
+
+  for (const shape of shapes) {
+    if (!ANNOTATION_SHAPE_TYPES.includes(shape?.type)) {
+      return `Unknown annotation type: ${shape?.type}`;
+    }
+    if (!HEX_COLOR.test(shape.color || '')) {
+      return 'Annotation colors must be hex values like #ff0000';
+    }
+    const coordinates = shape.type === 'arrow' ? [shape.x1, shape.y1, shape.x2, shape.y2]
+      : shape.type === 'circle' ? [shape.cx, shape.cy, shape.rx, shape.ry]
+      : [shape.x, shape.y];
+    if (!coordinates.every(isFraction)) {
+      return `Annotation coordinates must be fractions of the image size between 0 and 1`;
+    }
+    if (shape.type === 'label' && (typeof shape.text !== 'string' || !shape.text.trim() || shape.text.length > MAX_LABEL_LENGTH)) {
+      return `Labels need between 1 and ${MAX_LABEL_LENGTH} characters of text`;
+    }
+  }
+  return null;
+};
+
+// Keep only the fields each shape type uses
+const toAnnotationShapes = (shapes: any[]): AnnotationShape[] => shapes.map(shape => {
+  switch (shape.type) {
+    case 'arrow':
+      return { type: 'arrow', x1: shape.x1, y1: shape.y1, x2: shape.x2, y2: shape.y2, color: shape.color };
+    case 'circle':
+      return { type: 'circle', cx: shape.cx, cy: shape.cy, rx: shape.rx, ry: shape.ry, color: shape.color };
+    default:
+      return { type: 'label', x: shape.x, y: shape.y, text: shape.text.trim(), color: shape.color };
+  }
+});
+
+// Resolve the image and, when question_id is given, its association with that question. Reviewers and
+// admins can mark up anything; authors can mark up their own images and their own questions' images.
+const resolveAnnotationScope = async (req: Request, res: Response, forEditing: boolean) => {
+  const imageId = parseInt(req.params.id);
+  const image = await ImageModel.findById(imageId);
+  if (!image) {
+    res.status(404).json({ error: 'Image not found' });
+    return null;
+  }
+
+  const rawQuestionId = req.query.question_id ?? req.body?.question_id;
+  let questionImageId: number | null = null;
+  let question = null;
+  if (rawQuestionId !== undefined && rawQuestionId !== null && rawQuestionId !== '') {
+    const questionId = parseInt(rawQuestionId as string);
+    questionImageId = await ImageAnnotationModel.findQuestionImageId(questionId, imageId);
+    if (!questionImageId) {
+      res.status(404).json({ error: 'This image is not attached to that question' });
+      return null;
+    }
+    question = await QuestionModel.findById(questionId);
+  }
+
+  if (forEditing && !req.user.is_admin && !req.user.is_reviewer) {
+    const ownsTarget = question ? question.uploaded_by === req.user.id : image.uploaded_by === req.user.id;
+    if (!ownsTarget) {
+      res.status(403).json({ error: 'You can only annotate your own images and questions' });
+      return null;
+    }
+  }
+
+  return { imageId, questionImageId };
+};
+
+router.get('/:id/annotations', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveAnnotationScope(req, res, false);
+    if (!scope) return;
+
+    const annotation = await ImageAnnotationModel.findLayer(scope.imageId, scope.questionImageId);
+    res.json({ annotation });
+  } catch (error) {
+    console.error('Get image annotations error:', error);
+    res.status(500).json({ error: 'Failed to fetch image annotations' });
+  }
+});
+
+router.put('/:id/annotations', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { shapes, reveal_after_answer } = req.body;
+    const shapeError = validateAnnotationShapes(shapes);
+    if (shapeError) {
+      return res.status(400).json({ error: shapeError });
+    }
+
+    const scope = await resolveAnnotationScope(req, res, true);
+    if (!scope) return;
+
+    const annotation = await ImageAnnotationModel.save(
+      scope.imageId,
+      scope.questionImageId,
+      toAnnotationShapes(shapes),
+      reveal_after_answer !== false,
+      req.user.id
+    );
+    res.json({ annotation });
+  } catch (error) {
+    console.error('Save image annotations error:', error);
+    res.status(500).json({ error: 'Failed to save image annotations' });
+  }
+});
+
+// Removing a question's layer lets the image's own layer show with that question again
+router.delete('/:id/annotations', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveAnnotationScope(req, res, true);
+    if (!scope) return;
+
+    const deleted = await ImageAnnotationModel.delete(scope.imageId, scope.questionImageId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'No annotations to remove' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete image annotations error:', error);
+    res.status(500).json({ error: 'Failed to delete image annotations' });
+  }
+});
 
 // Legacy endpoint for local file serving - redirect to Spaces
 router.get('/serve/:filename', async (req: Request, res: Response) => {
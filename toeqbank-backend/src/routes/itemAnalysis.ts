@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+import { ItemAnalysisModel, MIN_RESPONSES_FOR_FLAGGING } from '../models/ItemAnalysis';
+import { requireAdmin, requireReviewer } from '../middleware/auth';
+
+const router = Router();
+
+// Questions flagged for re-review in the reviewer's exam
+router.get('/flagged', requireReviewer, async (req: Request, res: Response) => {
+  try {
+    const items = await ItemAnalysisModel.findFlagged(
+      req.user.exam_category || 'echocardiography',
+      req.user.exam_type || 'eacvi_toe'
+    );
+    res.json({ items, min_responses: MIN_RESPONSES_FOR_FLAGGING });
+  } catch (error) {
+    console.error('Error fetching flagged questions:', error);
+    res.status(500).json({ error: 'Failed to fetch flagged questions' });
+  }
+});
+
+// Get a question's statistics
+router.get('/questions/:questionId', requireReviewer, async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.params.questionId);
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'Invalid question ID' });
+    }
+
+    const statistics = await ItemAnalysisModel.findByQuestion(questionId);
+    res.json({ statistics, min_responses: MIN_RESPONSES_FOR_FLAGGING });
+  } catch (error) {
+    console.error('Error fetching item statistics:', error);
+    res.status(500).json({ error: 'Failed to fetch item statistics' });
+  }
+});
+
+// Dismiss a question's flag after re-reviewing it
+router.post('/questions/:questionId/dismiss', requireReviewer, async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.params.questionId);
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'Invalid question ID' });
+    }
+
+    const statistics = await ItemAnalysisModel.dismissFlag(questionId, req.user.id);
+    if (!statistics) {
+      return res.status(404).json({ error: 'No statistics recorded for this question' });
+    }
+    res.json({ statistics });
+  } catch (error) {
+    console.error('Error dismissing item flag:', error);
+    res.status(500).json({ error: 'Failed to dismiss flag' });
+  }
+});
+
+// Recompute statistics for every answered question (admin only)
+router.post('/refresh', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const updated = await ItemAnalysisModel.refresh();
+    res.json({
+      updated: updated.length,
+      flagged: updated.filter(s => s.is_flagged).length
+    });
+  } catch (error) {
+    console.error('Error refreshing item statistics:', error);
+    res.status(500).json({ error: 'Failed to refresh item statistics' });
+  }
+});
+
+export default router;
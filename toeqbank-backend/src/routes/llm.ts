@@ -0,0 +1,145 @@
+import { Router, Request, Response } from 'express';
+import { requireAdmin } from '../middleware/auth';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { LlmUsageModel } from '../models/LlmUsage';
+import { LlmResponseCacheModel } from '../models/LlmResponseCache';
+import { Llm, getPromptTemplate, invalidatePromptTemplates } from '../utils/llm';
+import { DEFAULT_PROMPTS, LLM_FEATURES, isLlmFeature, templateVariables } from '../utils/prompts';
+import { checkSchema } from '../utils/jsonSchema';
+
+const router = Router();
+
+const MAX_TOKENS_LIMIT = 8000;
+
+// Every LLM feature with its live prompt and the placeholders it can use (admin only)
+router.get('/prompts', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const features = await Promise.all(LLM_FEATURES.map(async feature => ({
+      feature,
+      description: DEFAULT_PROMPTS[feature].description,
+      variables: DEFAULT_PROMPTS[feature].variables,
+      active: await getPromptTemplate(feature)
+    })));
+    const client = Llm.getClient();
+    res.json({ features, client: { name: client.name, model: client.model } });
+  } catch (error) {
+    console.error('Error fetching prompt templates:', error);
+    res.status(500).json({ error: 'Failed to fetch prompt templates' });
+  }
+});
+
+// Every version of one feature's prompt, newest first (admin only)
+router.get('/prompts/:feature', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { feature } = req.params;
+    if (!isLlmFeature(feature)) {
+      return res.status(404).json({ error: 'Unknown LLM feature' });
+    }
+
+    // Make sure version 1 exists before listing
+    await getPromptTemplate(feature);
+    const versions = await PromptTemplateModel.findVersions(feature);
+    res.json({ versions });
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error);
+    res.status(500).json({ error: 'Failed to fetch prompt versions' });
+  }
+});
+
+// Save a new version of a feature's prompt, live straight away unless activate is false (admin only)
+router.post('/prompts/:feature', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { feature } = req.params;
+    if (!isLlmFeature(feature)) {
+      return res.status(404).json({ error: 'Unknown LLM feature' });
+    }
+
+    const { template, output_schema, notes, activate } = req.body;
+    const maxTokens = req.body.max_tokens === undefined ? DEFAULT_PROMPTS[feature].max_tokens : parseInt(req.body.max_tokens);
+
+    if (typeof template !== 'string' || !template.trim()) {
+      return res.status(400).json({ error: 'Template is required' });
+    }
+    const unknown = templateVariables(template).filter(name => !(name in DEFAULT_PROMPTS[feature].variables));
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown placeholder(s): ${unknown.map(name => `{{${name}}}`).join(', ')}` });
+    }
+    if (isNaN(maxTokens) || maxTokens < 1 || maxTokens > MAX_TOKENS_LIMIT) {
+      return res.status(400).json({ error: `max_tokens must be between 1 and ${MAX_TOKENS_LIMIT}` });
+    }
+    if (output_schema !== undefined && output_schema !== null) {
+      const problems = checkSchema(output_schema);
+      if (problems.length > 0) {
+        return res.status(400).json({ error: `Invalid output schema: ${problems.join('; ')}` });
+      }
+    }
+
+    // Version 1 is the built-in prompt, so make sure it exists before adding to it
+    await getPromptTemplate(feature);
+    const created = await PromptTemplateModel.create(
+      feature,
+      { template, output_schema: output_schema || null, max_tokens: maxTokens, notes: notes || null },
+      req.user.id,
+      activate !== false
+    );
+    invalidatePromptTemplates();
+    res.status(201).json({ template: created });
+  } catch (error) {
+    console.error('Error saving prompt template:', error);
+    res.status(500).json({ error: 'Failed to save prompt template' });
+  }
+});
+
+// Make an earlier version live again (admin only)
+router.post('/prompts/:feature/versions/:version/activate', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { feature } = req.params;
+    const version = parseInt(req.params.version);
+    if (!isLlmFeature(feature)) {
+      return res.status(404).json({ error: 'Unknown LLM feature' });
+    }
+    if (isNaN(version)) {
+      return res.status(400).json({ error: 'Invalid version' });
+    }
+
+    const template = await PromptTemplateModel.activate(feature, version);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt version not found' });
+    }
+    invalidatePromptTemplates();
+    res.json({ template });
+  } catch (error) {
+    console.error('Error activating prompt template:', error);
+    res.status(500).json({ error: 'Failed to activate prompt template' });
+  }
+});
+
+// Tokens and spend per feature and per user over the last N days (admin only)
+router.get('/usage', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const usage = await LlmUsageModel.summarize(days);
+    res.json(usage);
+  } catch (error) {
+    console.error('Error fetching LLM usage:', error);
+    res.status(500).json({ error: 'Failed to fetch LLM usage' });
+  }
+});
+
+// Forget cached responses, for one feature or all of them (admin only)
+router.delete('/cache', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const feature = req.query.feature as string | undefined;
+    if (feature !== undefined && !isLlmFeature(feature)) {
+      return res.status(404).json({ error: 'Unknown LLM feature' });
+    }
+
+    const cleared = await LlmResponseCacheModel.clear(feature);
+    res.json({ cleared });
+  } catch (error) {
+    console.error('Error clearing LLM cache:', error);
+    res.status(500).json({ error: 'Failed to clear LLM cache' });
+  }
+});
+
+export default router;
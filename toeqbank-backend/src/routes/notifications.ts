@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import { NotificationModel, NOTIFICATION_PAGE_SIZE, EMAIL_FREQUENCIES, EmailFrequency } from '../models/Notification';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { buildDigest, sendDueDigests } from '../utils/emailDigest';
+
+const router = Router();
+
+// The user's latest notifications, optionally only unread ones, with their unread count for the bell
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const unreadOnly = req.query.unread === 'true';
+    const limit = Math.min(parseInt(req.query.limit as string) || NOTIFICATION_PAGE_SIZE, 100);
+
+    const notifications = await NotificationModel.findForUser(req.user.id, unreadOnly, limit);
+    const unreadCount = await NotificationModel.countUnread(req.user.id);
+    res.json({ notifications, unread_count: unreadCount });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// Just the unread count, for polling
+router.get('/unread-count', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const count = await NotificationModel.countUnread(req.user.id);
+    res.json({ count });
+  } catch (error) {
+    console.error('Error counting notifications:', error);
+    res.status(500).json({ error: 'Failed to count notifications' });
+  }
+});
+
+// How often the user is emailed
+router.get('/preferences', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const preferences = await NotificationModel.getPreferences(req.user.id);
+    res.json({ preferences });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+router.put('/preferences', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const emailFrequency = req.body.email_frequency as EmailFrequency;
+    if (!EMAIL_FREQUENCIES.includes(emailFrequency)) {
+      return res.status(400).json({ error: `Email frequency must be one of: ${EMAIL_FREQUENCIES.join(', ')}` });
+    }
+
+    const preferences = await NotificationModel.setEmailFrequency(req.user.id, emailFrequency);
+    res.json({ preferences });
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+// The digest the user would get now, without sending it
+router.get('/digest/preview', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const preferences = await NotificationModel.getPreferences(req.user.id);
+    const digest = await buildDigest({
+      ...req.user,
+      is_admin: !!req.user.is_admin,
+      is_reviewer: !!req.user.is_reviewer,
+      email_frequency: preferences.email_frequency,
+      last_digest_sent_at: preferences.last_digest_sent_at
+    });
+    res.json({ digest });
+  } catch (error) {
+    console.error('Error building digest preview:', error);
+    res.status(500).json({ error: 'Failed to build digest preview' });
+  }
+});
+
+// Send due digests now rather than waiting for the hourly run (admin only)
+router.post('/digest/run', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const totals = await sendDueDigests();
+    res.json(totals);
+  } catch (error) {
+    console.error('Error sending digests:', error);
+    res.status(500).json({ error: 'Failed to send digests' });
+  }
+});
+
+// Must come before /:id/read
+router.post('/read-all', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const updated = await NotificationModel.markAllRead(req.user.id);
+    res.json({ updated });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+router.post('/:id/read', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const notificationId = parseInt(req.params.id);
+    if (isNaN(notificationId)) {
+      return res.status(400).json({ error: 'Invalid notification ID' });
+    }
+
+    const notification = await NotificationModel.markRead(notificationId, req.user.id);
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+    res.json({ notification });
+  } catch (error) {
+    console.error('Error marking notification read:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { UserPerformanceModel, PerformanceDimension } from '../models/UserPerformance';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+const DIMENSIONS: PerformanceDimension[] = ['category', 'view_type', 'major_structure', 'subtopic'];
+
+const buildReport = async (userId: number, interval: 'day' | 'week') => {
+  const [summary, trend, breakdowns] = await Promise.all([
+    UserPerformanceModel.getSummary(userId),
+    UserPerformanceModel.getTrend(userId, interval),
+    Promise.all(DIMENSIONS.map(dimension => UserPerformanceModel.getBreakdown(userId, dimension)))
+  ]);
+
+  const [byCategory, byViewType, byMajorStructure, bySubtopic] = breakdowns;
+
+  return {
+    summary,
+    trend,
+    by_category: byCategory,
+    by_view_type: byViewType,
+    by_major_structure: byMajorStructure,
+    by_subtopic: bySubtopic,
+    weakest_areas: UserPerformanceModel.getWeakestAreas(breakdowns.flat())
+  };
+};
+
+const parseInterval = (value: unknown): 'day' | 'week' => value === 'day' ? 'day' : 'week';
+
+// Get the current user's performance report
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const report = await buildReport(req.user.id, parseInterval(req.query.interval));
+    res.json(report);
+  } catch (error) {
+    console.error('Error fetching performance report:', error);
+    res.status(500).json({ error: 'Failed to fetch performance report' });
+  }
+});
+
+// Get another user's performance report (admin only)
+router.get('/users/:userId', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    const report = await buildReport(userId, parseInterval(req.query.interval));
+    res.json(report);
+  } catch (error) {
+    console.error('Error fetching performance report:', error);
+    res.status(500).json({ error: 'Failed to fetch performance report' });
+  }
+});
+
+export default router;
@@ -0,0 +1,294 @@
+import { Router, Request, Response } from 'express';
+import { PracticeTestModel, PracticeTest } from '../models/PracticeTest';
+import { QuestionModel } from '../models/Question';
+import { UserModel } from '../models/User';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+const MAX_TIME_LIMIT_MINUTES = 600;
+
+// Can the current user take this test?
+const isAvailableTo = (test: PracticeTest, req: Request) =>
+  test.is_published &&
+  test.exam_category === (req.user.exam_category || 'echocardiography') &&
+  test.exam_type === (req.user.exam_type || 'eacvi_toe');
+
+// Validate the editable fields of a create/update body; returns an error message or null
+const validateTestFields = async (body: any, requireName: boolean): Promise<string | null> => {
+  if (requireName || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return 'Test name is required';
+    }
+    if (body.name.length > 255) {
+      return 'Test name must be 255 characters or fewer';
+    }
+  }
+
+  if (body.exam_category !== undefined || body.exam_type !== undefined) {
+    if (!(await UserModel.validateExamSelection(body.exam_category || undefined, body.exam_type || undefined))) {
+      return 'Invalid exam category and type combination';
+    }
+  }
+
+  if (body.time_limit_minutes !== undefined && body.time_limit_minutes !== null && body.time_limit_minutes !== '') {
+    const minutes = parseInt(body.time_limit_minutes);
+    if (isNaN(minutes) || minutes < 1 || minutes > MAX_TIME_LIMIT_MINUTES) {
+      return `time_limit_minutes must be between 1 and ${MAX_TIME_LIMIT_MINUTES}`;
+    }
+  }
+
+  return null;
+};
+
+// Validate an ordered question list; returns the ids, or an error message
+const parseQuestionIds = async (value: any): Promise<{ questionIds: number[] } | { error: string }> => {
+  if (!Array.isArray(value)) {
+    return { error: 'question_ids must be an array' };
+  }
+
+  const questionIds = value.map((qid: any) => parseInt(qid));
+  if (questionIds.some(qid => isNaN(qid))) {
+    return { error: 'question_ids must be numbers' };
+  }
+  if (new Set(questionIds).size !== questionIds.length) {
+    return { error: 'A question can only appear once in a test' };
+  }
+
+  const missing = questionIds.length > 0 ? await PracticeTestModel.findMissingQuestions(questionIds) : [];
+  if (missing.length > 0) {
+    return { error: `Question(s) ${missing.join(', ')} do not exist` };
+  }
+  return { questionIds };
+};
+
+const parseTimeLimit = (value: any): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return parseInt(value);
+};
+
+// List tests: every test for admins, published tests for the user's exam otherwise
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const tests = req.user.is_admin
+      ? await PracticeTestModel.findAll()
+      : await PracticeTestModel.findPublished(
+          req.user.exam_category || 'echocardiography',
+          req.user.exam_type || 'eacvi_toe'
+        );
+    res.json({ tests });
+  } catch (error) {
+    console.error('Error fetching practice tests:', error);
+    res.status(500).json({ error: 'Failed to fetch practice tests' });
+  }
+});
+
+// Get a test; admins also get its ordered question list
+router.get('/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid test ID' });
+    }
+
+    const test = await PracticeTestModel.findById(id);
+    if (!test || (!req.user.is_admin && !isAvailableTo(test, req))) {
+      return res.status(404).json({ error: 'Practice test not found' });
+    }
+
+    if (!req.user.is_admin) {
+      return res.json({ test });
+    }
+
+    const questions = await PracticeTestModel.getQuestions(id);
+    res.json({ test, questions });
+  } catch (error) {
+    console.error('Error fetching practice test:', error);
+    res.status(500).json({ error: 'Failed to fetch practice test' });
+  }
+});
+
+// Create a test (admin only)
+router.post('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const validationError = await validateTestFields(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const parsedIds = req.body.question_ids === undefined ? { questionIds: [] } : await parseQuestionIds(req.body.question_ids);
+    if ('error' in parsedIds) {
+      return res.status(400).json({ error: parsedIds.error });
+    }
+
+    const test = await PracticeTestModel.create({
+      name: req.body.name.trim(),
+      description: req.body.description || null,
+      exam_category: req.body.exam_category || null,
+      exam_type: req.body.exam_type || null,
+      time_limit_minutes: parseTimeLimit(req.body.time_limit_minutes) ?? null,
+      created_by: req.user.id
+    }, parsedIds.questionIds);
+
+    res.status(201).json({ test: await PracticeTestModel.findById(test.id!) });
+  } catch (error) {
+    console.error('Error creating practice test:', error);
+    res.status(500).json({ error: 'Failed to create practice test' });
+  }
+});
+
+// Update a test's details (admin only)
+router.put('/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid test ID' });
+    }
+
+    const validationError = await validateTestFields(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const test = await PracticeTestModel.update(id, {
+      name: req.body.name !== undefined ? req.body.name.trim() : undefined,
+      description: req.body.description,
+      exam_category: req.body.exam_category,
+      exam_type: req.body.exam_type,
+      time_limit_minutes: parseTimeLimit(req.body.time_limit_minutes)
+    });
+    if (!test) {
+      return res.status(404).json({ error: 'Practice test not found' });
+    }
+
+    res.json({ test });
+  } catch (error) {
+    console.error('Error updating practice test:', error);
+    res.status(500).json({ error: 'Failed to update practice test' });
+  }
+});
+
+// Replace the ordered question list (admin only)
+router.put('/:id/questions', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid test ID' });
+    }
+
+    const parsedIds = await parseQuestionIds(req.body.question_ids);
+    if ('error' in parsedIds) {
+      return res.status(400).json({ error: parsedIds.error });
+    }
+    const { questionIds } = parsedIds;
+
+    const test = await PracticeTestModel.findById(id);
+    if (!test) {
+      return res.status(404).json({ error: 'Practice test not found' });
+    }
+
+    // Published tests must stay answerable: only approved questions can be added
+    if (test.is_published) {
+      for (const questionId of questionIds) {
+        const question = await QuestionModel.findById(questionId);
+        if (!question || question.review_status !== 'approved') {
+          return res.status(400).json({ error: `Question ${questionId} is not approved; unpublish the test to add it` });
+        }
+      }
+    }
+
+    await PracticeTestModel.setQuestions(id, questionIds);
+    const questions = await PracticeTestModel.getQuestions(id);
+    res.json({ test: await PracticeTestModel.findById(id), questions });
+  } catch (error) {
+    console.error('Error updating practice test questions:', error);
+    res.status(500).json({ error: 'Failed to update practice test questions' });
+  }
+});
+
+// Publish or unpublish a test (admin only)
+router.put('/:id/publish', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid test ID' });
+    }
+
+    const test = await PracticeTestModel.findById(id);
+    if (!test) {
+      return res.status(404).json({ error: 'Practice test not found' });
+    }
+
+    const published = req.body.published !== false;
+    if (published) {
+      if (!test.exam_category || !test.exam_type) {
+        return res.status(400).json({ error: 'Set an exam category and type before publishing' });
+      }
+
+      const questions = await PracticeTestModel.getQuestions(id);
+      if (questions.length === 0) {
+        return res.status(400).json({ error: 'Add at least one question before publishing' });
+      }
+      const notApproved = questions.filter(q => q.review_status !== 'approved');
+      if (notApproved.length > 0) {
+        return res.status(400).json({
+          error: `${notApproved.length} question(s) are not approved`,
+          question_ids: notApproved.map(q => q.question_id)
+        });
+      }
+    }
+
+    res.json({ test: await PracticeTestModel.setPublished(id, published) });
+  } catch (error) {
+    console.error('Error publishing practice test:', error);
+    res.status(500).json({ error: 'Failed to publish practice test' });
+  }
+});
+
+// Aggregate results across everyone who has taken the test (admin only)
+router.get('/:id/results', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid test ID' });
+    }
+
+    const test = await PracticeTestModel.findById(id);
+    if (!test) {
+      return res.status(404).json({ error: 'Practice test not found' });
+    }
+
+    const results = await PracticeTestModel.getResults(id);
+    res.json({ test, results });
+  } catch (error) {
+    console.error('Error fetching practice test results:', error);
+    res.status(500).json({ error: 'Failed to fetch practice test results' });
+  }
+});
+
+// Delete a test (admin only); tests that have been taken are kept so student history survives
+router.delete('/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid test ID' });
+    }
+
+    const test = await PracticeTestModel.findById(id);
+    if (!test) {
+      return res.status(404).json({ error: 'Practice test not found' });
+    }
+    if ((test.attempt_count || 0) > 0) {
+      return res.status(409).json({ error: 'This test has been taken and cannot be deleted; unpublish it instead' });
+    }
+
+    await PracticeTestModel.delete(id);
+    res.json({ message: 'Practice test deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting practice test:', error);
+    res.status(500).json({ error: 'Failed to delete practice test' });
+  }
+});
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { QuestionMetadataModel } from '../models/QuestionMetadata';
+import { QuestionRevisionModel } from '../models/QuestionRevision';
+import { optionalAuth } from '../middleware/auth';
 
 const router = Router();
 
@@ -21,7 +23,7 @@ router.get('/question/:questionId', async (req: Request, res: Response) => {
 });
 
 // Create or update metadata for a question
-router.post('/question/:questionId', async (req: Request, res: Response) => {
+router.post('/question/:questionId', optionalAuth, async (req: Request, res: Response) => {
   try {
     const questionId = parseInt(req.params.questionId);
     const metadataData = req.body;
@@ -35,6 +37,7 @@ router.post('/question/:questionId', async (req: Request, res: Response) => {
     });
     
     console.log('Metadata saved successfully:', metadata);
+    await QuestionRevisionModel.record(questionId, 'metadata', req.user?.id);
     res.status(201).json(metadata);
   } catch (error) {
     console.error('Create/update question metadata error:', error);
@@ -44,12 +47,13 @@ router.post('/question/:questionId', async (req: Request, res: Response) => {
 });
 
 // Update metadata for a question
-router.put('/question/:questionId', async (req: Request, res: Response) => {
+router.put('/question/:questionId', optionalAuth, async (req: Request, res: Response) => {
   try {
     const questionId = parseInt(req.params.questionId);
     const metadataData = req.body;
     
     const metadata = await QuestionMetadataModel.update(questionId, metadataData);
+    await QuestionRevisionModel.record(questionId, 'metadata', req.user?.id);
     res.json(metadata);
   } catch (error) {
     console.error('Update question metadata error:', error);
@@ -58,7 +62,7 @@ router.put('/question/:questionId', async (req: Request, res: Response) => {
 });
 
 // Delete metadata for a question
-router.delete('/question/:questionId', async (req: Request, res: Response) => {
+router.delete('/question/:questionId', optionalAuth, async (req: Request, res: Response) => {
   try {
     const questionId = parseInt(req.params.questionId);
     const deleted = await QuestionMetadataModel.delete(questionId);
@@ -67,6 +71,7 @@ router.delete('/question/:questionId', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Metadata not found for this question' });
     }
     
+    await QuestionRevisionModel.record(questionId, 'metadata', req.user?.id);
     res.json({ success: true });
   } catch (error) {
     console.error('Delete question metadata error:', error);
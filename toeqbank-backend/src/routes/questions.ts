@@ -3,7 +3,17 @@ import { QuestionModel, Question } from '../models/Question';
 import { ImageDescriptionModel } from '../models/ImageDescription';
 import { ImageModel } from '../models/Image';
 import { UploadBatchModel } from '../models/UploadBatch';
-import { requireAuth, optionalAuth } from '../middleware/auth';
+import { UserModel } from '../models/User';
+import { QuestionSearchModel } from '../models/QuestionSearch';
+import { QuestionDuplicateModel, DuplicateScope, DuplicateMatch } from '../models/QuestionDuplicate';
+import { QuestionRevisionModel } from '../models/QuestionRevision';
+import { ReviewCommentModel } from '../models/ReviewComment';
+import { ReviewVoteModel, ReviewDecision, ReviewVote, MAX_REQUIRED_APPROVALS } from '../models/ReviewVote';
+import { ReviewAssignmentModel, REVIEW_CLAIM_MINUTES } from '../models/ReviewAssignment';
+import { ReviewRubricModel, ReviewReason, MAX_CRITERION_SCORE } from '../models/ReviewRubric';
+import { NotificationModel } from '../models/Notification';
+import { sendReturnedEmail } from '../utils/emailDigest';
+import { requireAuth, requireAdmin, optionalAuth } from '../middleware/auth';
 import { query } from '../models/database';
 import multer from 'multer';
 import csv from 'csv-parser';
@@ -172,6 +182,251 @@ function standardizeEchoView(rawView: string): string {
   return normalized;
 }
 
+type NewQuestion = Omit<Question, 'id' | 'created_at' | 'updated_at' | 'question_number'>;
+
+interface ParsedCSV {
+  questions: NewQuestion[];
+  // Each entry carries the questionIndex of the row it belongs to
+  imageDescriptions: any[];
+}
+
+// What the uploader decided for a CSV row flagged as a likely duplicate
+interface DuplicateAction {
+  action: 'keep' | 'skip' | 'merge';
+  // Existing question to merge into
+  question_id?: number;
+}
+
+// Existing questions new ones are compared against; USMLE questions are checked across every step
+function duplicateScope(examCategory: string, examType: string): DuplicateScope {
+  return {
+    exam_category: examCategory,
+    exam_type: examCategory === 'usmle' ? undefined : examType
+  };
+}
+
+// Merging writes into the existing question without review, so authors may only merge into their own
+function canMergeInto(user: any, match: DuplicateMatch): boolean {
+  return !!(user?.is_reviewer || user?.is_admin || (user && match.uploaded_by === user.id));
+}
+
+// Parse an uploaded question CSV, with or without a header row; returns null for an empty file
+async function parseQuestionCSV(filePath: string, uploadedBy?: number): Promise<ParsedCSV | null> {
+  const questions: NewQuestion[] = [];
+  const imageDescriptions: any[] = [];
+  
+  // Read the entire file first to detect if it has headers
+  const fileContent = fs.readFileSync(filePath, 'utf-8');
+  const lines = fileContent.split('\n').filter(line => line.trim());
+  
+  if (lines.length === 0) {
+    return null;
+  }
+  
+  // Check if first line looks like a header
+  const firstLine = lines[0];
+  // A header line typically contains these keywords and doesn't start with a number
+  const lowerFirst = firstLine.toLowerCase();
+  const hasHeader = (lowerFirst.includes('question') && 
+                    lowerFirst.includes('choice') &&
+                    lowerFirst.includes('correct_answer')) ||
+                   (lowerFirst.includes('question_number') && 
+                    lowerFirst.includes('question'));
+  
+  // Additional check: if first field is a number, it's probably NOT a header
+  const firstField = firstLine.split(',')[0].trim();
+  const startsWithNumber = /^\d+$/.test(firstField) || /^"\d+"$/.test(firstField);
+  
+  const isHeader = hasHeader && !startsWithNumber;
+  
+  console.log('CSV upload: First line:', firstLine.substring(0, 100));
+  console.log('CSV upload: First field:', firstField);
+  console.log('CSV upload: Starts with number:', startsWithNumber);
+  console.log('CSV upload: Detected header:', isHeader);
+  
+  // If has header, use csv-parser; otherwise, parse manually
+  if (isHeader) {
+    // Parse with headers using csv-parser
+    await new Promise<void>((resolve, reject) => {
+      fs.createReadStream(filePath)
+        .pipe(csv())
+        .on('data', (row) => {
+          // Map CSV columns to question fields
+          const question: NewQuestion = {
+            question: row.question || '',
+            choice_a: row.choice_a || '',
+            choice_b: row.choice_b || '',
+            choice_c: row.choice_c || '',
+            choice_d: row.choice_d || '',
+            choice_e: row.choice_e || '',
+            choice_f: row.choice_f || '',
+            choice_g: row.choice_g || '',
+            correct_answer: row.correct_answer || '',
+            explanation: row.explanation || '',
+            source_folder: row.source_folder || '',
+            uploaded_by: uploadedBy
+          };
+        
+        // Handle image descriptions - check for image fields regardless of withImages flag
+        // This allows mixed CSV files with some questions needing images and others not
+        if (row.image_description || row.image_modality || row.image_view) {
+          // Validate and sanitize enum values
+          const validModalities = ['transthoracic', 'transesophageal', 'non-echo'];
+          const validUsageTypes = ['question', 'explanation'];
+          const validImageTypes = ['still', 'cine'];
+          
+          const modality = row.image_modality?.toLowerCase();
+          const usageType = row.image_usage?.toLowerCase();
+          const imageType = row.image_type?.toLowerCase();
+          
+          const imageDesc = {
+            description: row.image_description || '',
+            modality: validModalities.includes(modality) ? modality : null,
+            echo_view: standardizeEchoView(row.image_view || ''),
+            usage_type: validUsageTypes.includes(usageType) ? usageType : 'question',
+            image_type: validImageTypes.includes(imageType) ? imageType : 'still',
+            questionIndex: questions.length // Track which question this belongs to
+          };
+          imageDescriptions.push(imageDesc);
+
+          // Set review status to 'pending submission' for questions needing images
+          question.review_status = 'pending submission';
+          question.review_notes = 'Question needs image to be uploaded before review';
+        } else {
+          // No image fields provided - question is ready for review
+          question.review_status = 'pending';
+        }
+        
+          // Validate required fields
+          if (question.question && question.correct_answer && 
+              ['A', 'B', 'C', 'D', 'E', 'F', 'G'].includes(question.correct_answer)) {
+            questions.push(question);
+          }
+        })
+        .on('end', resolve)
+        .on('error', reject);
+    });
+  } else {
+    // Parse without headers - assume standard column order
+    // Column order: question_number, question, choice_a, choice_b, choice_c, choice_d, choice_e, correct_answer, explanation, source_folder
+    // Additional image columns if present: image_description, image_modality, image_view, image_usage, image_type, image_url
+    
+    const parseCSVLine = (line: string): string[] => {
+      const result: string[] = [];
+      let current = '';
+      let inQuotes = false;
+      
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        const nextChar = line[i + 1];
+        
+        if (char === '"') {
+          if (inQuotes && nextChar === '"') {
+            // Escaped quote
+            current += '"';
+            i++; // Skip next quote
+          } else {
+            // Toggle quote mode
+            inQuotes = !inQuotes;
+          }
+        } else if (char === ',' && !inQuotes) {
+          // End of field
+          result.push(current.trim());
+          current = '';
+        } else {
+          current += char;
+        }
+      }
+      
+      // Add last field
+      result.push(current.trim());
+      return result;
+    };
+    
+    // Process each line as a data row
+    for (const line of lines) {
+      const columns = parseCSVLine(line);
+      
+      console.log(`Processing line with ${columns.length} columns:`, columns.slice(0, 3).join(' | '));
+      
+      // Skip if line doesn't have enough columns
+      if (columns.length < 8) {
+        console.log('Skipping line - not enough columns');
+        continue;
+      }
+      
+      // Map columns to question fields (adjusted for 0-based index)
+      // Expecting: question_number(0), question(1), choice_a(2), choice_b(3), choice_c(4), choice_d(5), choice_e(6), correct_answer(7), explanation(8), source_folder(9)
+      const question: NewQuestion = {
+        question: columns[1] || '',
+        choice_a: columns[2] || '',
+        choice_b: columns[3] || '',
+        choice_c: columns[4] || '',
+        choice_d: columns[5] || '',
+        choice_e: columns[6] || '',
+        choice_f: columns[7] || '', // This might be correct_answer if no choice_f
+        choice_g: '', // Usually not present in standard format
+        correct_answer: columns[7] || columns[8] || '', // Could be at position 7 or 8 depending on number of choices
+        explanation: columns[8] || columns[9] || '',
+        source_folder: columns[9] || columns[10] || '',
+        uploaded_by: uploadedBy
+      };
+      
+      // Adjust for cases where there are fewer choice columns
+      // If column 7 is a single letter (A-G), it's likely the correct_answer
+      if (columns[7] && columns[7].length === 1 && ['A', 'B', 'C', 'D', 'E', 'F', 'G'].includes(columns[7])) {
+        question.correct_answer = columns[7];
+        question.choice_f = '';
+        question.choice_g = '';
+        question.explanation = columns[8] || '';
+        question.source_folder = columns[9] || '';
+      }
+      
+      // Handle image descriptions if present (columns 10-15)
+      if (columns.length > 10 && (columns[10] || columns[11] || columns[12])) {
+        const validModalities = ['transthoracic', 'transesophageal', 'non-echo'];
+        const validUsageTypes = ['question', 'explanation'];
+        const validImageTypes = ['still', 'cine'];
+        
+        const modality = columns[11]?.toLowerCase();
+        const usageType = columns[13]?.toLowerCase();
+        const imageType = columns[14]?.toLowerCase();
+        
+        const imageDesc = {
+          description: columns[10] || '',
+          modality: validModalities.includes(modality) ? modality : null,
+          echo_view: standardizeEchoView(columns[12] || ''),
+          usage_type: validUsageTypes.includes(usageType) ? usageType : 'question',
+          image_type: validImageTypes.includes(imageType) ? imageType : 'still',
+          questionIndex: questions.length
+        };
+        imageDescriptions.push(imageDesc);
+
+        question.review_status = 'pending submission';
+        question.review_notes = 'Question needs image to be uploaded before review';
+      } else {
+        question.review_status = 'pending';
+      }
+      
+      // Validate required fields
+      if (question.question && question.correct_answer && 
+          ['A', 'B', 'C', 'D', 'E', 'F', 'G'].includes(question.correct_answer)) {
+        console.log(`Adding question: "${question.question.substring(0, 50)}..." with answer ${question.correct_answer}`);
+        questions.push(question);
+      } else {
+        console.log('Skipping invalid question:', {
+          hasQuestion: !!question.question,
+          correctAnswer: question.correct_answer,
+          isValidAnswer: ['A', 'B', 'C', 'D', 'E', 'F', 'G'].includes(question.correct_answer)
+        });
+      }
+    }
+  }
+
+  console.log(`Total questions parsed: ${questions.length}`);
+  return { questions, imageDescriptions };
+}
+
 // Get list of users who have submitted questions
 router.get('/submitters', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -370,6 +625,49 @@ router.get('/my-returned', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+// Full-text search over question text, choices, explanations, keywords and image descriptions
+// - Anyone can search approved questions
+// - Reviewers/admins can search every review status
+router.get('/search', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const text = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!text) {
+      return res.status(400).json({ error: 'Search text is required' });
+    }
+    if (text.length > 200) {
+      return res.status(400).json({ error: 'Search text must be 200 characters or fewer' });
+    }
+
+    const canSeeAllStatuses = req.user.is_reviewer || req.user.is_admin;
+    const allowedStatuses = canSeeAllStatuses ? ['approved', 'pending', 'returned', 'rejected'] : ['approved'];
+    const reviewStatus = req.query.status as string | undefined;
+    if (reviewStatus && !allowedStatuses.includes(reviewStatus)) {
+      return res.status(canSeeAllStatuses ? 400 : 403).json({ error: 'Invalid review status' });
+    }
+
+    // Same exam scoping as the question list: USMLE users search every step
+    const examCategory = req.user.exam_category || 'echocardiography';
+    const examType = req.user.exam_type || 'eacvi_toe';
+
+    const results = await QuestionSearchModel.search({
+      text,
+      allowed_statuses: allowedStatuses,
+      exam_category: examCategory,
+      exam_type: examCategory === 'usmle' ? undefined : examType,
+      review_status: reviewStatus || undefined,
+      category: (req.query.category as string) || undefined,
+      view_type: (req.query.view_type as string) || undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 20, 100),
+      offset: Math.max(parseInt(req.query.offset as string) || 0, 0)
+    });
+
+    res.json(results);
+  } catch (error) {
+    console.error('Error searching questions:', error);
+    res.status(500).json({ error: 'Failed to search questions' });
+  }
+});
+
 // Get question by ID with associated images
 router.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -420,8 +718,22 @@ router.post('/', async (req: Request, res: Response) => {
       questionData.exam_category = user.exam_category;
       questionData.exam_type = user.exam_type;
     }
+
+    // Likely duplicates are returned for confirmation unless the caller already chose to keep the question
+    const allowDuplicate = req.body.allow_duplicate === true;
+    delete (questionData as any).allow_duplicate;
+    if (!allowDuplicate) {
+      const [matches] = await QuestionDuplicateModel.findDuplicates(
+        [questionData],
+        duplicateScope(questionData.exam_category || 'echocardiography', questionData.exam_type || 'eacvi_toe')
+      );
+      if (matches.length > 0) {
+        return res.status(409).json({ error: 'This question looks like a duplicate of an existing question', duplicates: matches });
+      }
+    }
     
     const question = await QuestionModel.create(questionData);
+    await QuestionRevisionModel.record(question.id!, 'create', user?.id);
     res.status(201).json(question);
   } catch (error) {
     console.error('Error creating question:', error);
@@ -446,6 +758,7 @@ router.put('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Question not found' });
     }
     
+    await QuestionRevisionModel.record(id, 'edit', req.user?.id);
     res.json(question);
   } catch (error) {
     console.error('Error updating question:', error);
@@ -491,6 +804,89 @@ router.delete('/:id/with-images', requireAuth, async (req: Request, res: Respons
   }
 });
 
+// Assign a batch's questions to one reviewer, or return them to the shared queue (admin only)
+router.put('/batches/:id/reviewer', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const batchId = parseInt(req.params.id);
+    const reviewerId = req.body.reviewer_id ? parseInt(req.body.reviewer_id) : null;
+    if (isNaN(batchId) || (reviewerId !== null && isNaN(reviewerId))) {
+      return res.status(400).json({ error: 'Invalid batch or reviewer ID' });
+    }
+
+    const existing = await UploadBatchModel.getById(batchId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    if (reviewerId !== null) {
+      const reviewer = await UserModel.findById(reviewerId);
+      if (!reviewer || (!reviewer.is_reviewer && !reviewer.is_admin)) {
+        return res.status(400).json({ error: 'Batches can only be assigned to reviewers' });
+      }
+      // Reviewers are never routed their own questions, so the batch would never be reviewed
+      if (reviewerId === existing.uploaded_by) {
+        return res.status(400).json({ error: 'A batch cannot be assigned to the person who uploaded it' });
+      }
+    }
+
+    const assigned = await ReviewAssignmentModel.assignBatch(batchId, reviewerId);
+    if (!assigned) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const batch = await UploadBatchModel.getById(batchId);
+    if (batch && reviewerId !== null && reviewerId !== req.user.id) {
+      await NotificationModel.notifyBatchAssigned(batch, reviewerId);
+    }
+    res.json({ batch });
+  } catch (error) {
+    console.error('Error assigning batch reviewer:', error);
+    res.status(500).json({ error: 'Failed to assign batch' });
+  }
+});
+
+// Preview a CSV upload's likely duplicates before anything is inserted
+router.post('/upload/check-duplicates', requireAuth, upload.single('csvFile'), async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const parsed = await parseQuestionCSV(req.file.path, req.user?.id);
+    fs.unlinkSync(req.file.path);
+
+    if (!parsed) {
+      return res.status(400).json({ error: 'CSV file is empty' });
+    }
+
+    const user = (req as any).user;
+    const matches = await QuestionDuplicateModel.findDuplicates(
+      parsed.questions,
+      duplicateScope(user?.exam_category || 'echocardiography', user?.exam_type || 'NBE')
+    );
+
+    // Only rows with matches are returned; row is the index upload's duplicateActions refer to
+    const duplicates = parsed.questions
+      .map((question, row) => ({
+        row,
+        question: question.question,
+        correct_answer: question.correct_answer,
+        matches: matches[row].map(match => ({ ...match, can_merge: !!match.question_id && canMergeInto(user, match) }))
+      }))
+      .filter(entry => entry.matches.length > 0);
+
+    res.json({ total_rows: parsed.questions.length, duplicates });
+  } catch (error) {
+    console.error('Error checking upload for duplicates:', error);
+
+    if (req.file && fs.existsSync(req.file.path)) {
+      fs.unlinkSync(req.file.path);
+    }
+
+    res.status(500).json({ error: 'Failed to check upload for duplicates' });
+  }
+});
+
 // Batch upload questions from CSV
 router.post('/upload', requireAuth, upload.single('csvFile'), async (req: Request, res: Response) => {
   try {
@@ -505,261 +901,119 @@ router.post('/upload', requireAuth, upload.single('csvFile'), async (req: Reques
     const endingPage = req.body.endingPage ? parseInt(req.body.endingPage) : undefined;
     const chapter = req.body.chapter || '';
     console.log('CSV upload started with withImages:', withImages);
-    const questions: Omit<Question, 'id' | 'created_at' | 'updated_at' | 'question_number'>[] = [];
-    const imageDescriptions: any[] = [];
-    
-    // Read the entire file first to detect if it has headers
-    const fileContent = fs.readFileSync(req.file.path, 'utf-8');
-    const lines = fileContent.split('\n').filter(line => line.trim());
-    
-    if (lines.length === 0) {
-      fs.unlinkSync(req.file.path);
+    const parsed = await parseQuestionCSV(req.file.path, req.user?.id);
+
+    // Clean up uploaded file
+    fs.unlinkSync(req.file.path);
+
+    if (!parsed) {
       return res.status(400).json({ error: 'CSV file is empty' });
     }
-    
-    // Check if first line looks like a header
-    const firstLine = lines[0];
-    // A header line typically contains these keywords and doesn't start with a number
-    const lowerFirst = firstLine.toLowerCase();
-    const hasHeader = (lowerFirst.includes('question') && 
-                      lowerFirst.includes('choice') &&
-                      lowerFirst.includes('correct_answer')) ||
-                     (lowerFirst.includes('question_number') && 
-                      lowerFirst.includes('question'));
-    
-    // Additional check: if first field is a number, it's probably NOT a header
-    const firstField = firstLine.split(',')[0].trim();
-    const startsWithNumber = /^\d+$/.test(firstField) || /^"\d+"$/.test(firstField);
-    
-    const isHeader = hasHeader && !startsWithNumber;
-    
-    console.log('CSV upload: First line:', firstLine.substring(0, 100));
-    console.log('CSV upload: First field:', firstField);
-    console.log('CSV upload: Starts with number:', startsWithNumber);
-    console.log('CSV upload: Detected header:', isHeader);
-    
-    // If has header, use csv-parser; otherwise, parse manually
-    if (isHeader) {
-      // Parse with headers using csv-parser
-      await new Promise<void>((resolve, reject) => {
-        fs.createReadStream(req.file!.path)
-          .pipe(csv())
-          .on('data', (row) => {
-            // Map CSV columns to question fields
-            const question: Omit<Question, 'id' | 'created_at' | 'updated_at' | 'question_number'> = {
-              question: row.question || '',
-              choice_a: row.choice_a || '',
-              choice_b: row.choice_b || '',
-              choice_c: row.choice_c || '',
-              choice_d: row.choice_d || '',
-              choice_e: row.choice_e || '',
-              choice_f: row.choice_f || '',
-              choice_g: row.choice_g || '',
-              correct_answer: row.correct_answer || '',
-              explanation: row.explanation || '',
-              source_folder: row.source_folder || '',
-              uploaded_by: req.user?.id
-            };
-          
-          // Handle image descriptions - check for image fields regardless of withImages flag
-          // This allows mixed CSV files with some questions needing images and others not
-          if (row.image_description || row.image_modality || row.image_view) {
-            // Validate and sanitize enum values
-            const validModalities = ['transthoracic', 'transesophageal', 'non-echo'];
-            const validUsageTypes = ['question', 'explanation'];
-            const validImageTypes = ['still', 'cine'];
-            
-            const modality = row.image_modality?.toLowerCase();
-            const usageType = row.image_usage?.toLowerCase();
-            const imageType = row.image_type?.toLowerCase();
-            
-            const imageDesc = {
-              description: row.image_description || '',
-              modality: validModalities.includes(modality) ? modality : null,
-              echo_view: standardizeEchoView(row.image_view || ''),
-              usage_type: validUsageTypes.includes(usageType) ? usageType : 'question',
-              image_type: validImageTypes.includes(imageType) ? imageType : 'still',
-              questionIndex: questions.length // Track which question this belongs to
-            };
-            imageDescriptions.push(imageDesc);
+    const { questions, imageDescriptions } = parsed;
 
-            // Set review status to 'pending submission' for questions needing images
-            question.review_status = 'pending submission';
-            question.review_notes = 'Question needs image to be uploaded before review';
-          } else {
-            // No image fields provided - question is ready for review
-            question.review_status = 'pending';
-          }
-          
-            // Validate required fields
-            if (question.question && question.correct_answer && 
-                ['A', 'B', 'C', 'D', 'E', 'F', 'G'].includes(question.correct_answer)) {
-              questions.push(question);
-            }
-          })
-          .on('end', resolve)
-          .on('error', reject);
-      });
-    } else {
-      // Parse without headers - assume standard column order
-      // Column order: question_number, question, choice_a, choice_b, choice_c, choice_d, choice_e, correct_answer, explanation, source_folder
-      // Additional image columns if present: image_description, image_modality, image_view, image_usage, image_type, image_url
-      
-      const parseCSVLine = (line: string): string[] => {
-        const result: string[] = [];
-        let current = '';
-        let inQuotes = false;
-        
-        for (let i = 0; i < line.length; i++) {
-          const char = line[i];
-          const nextChar = line[i + 1];
-          
-          if (char === '"') {
-            if (inQuotes && nextChar === '"') {
-              // Escaped quote
-              current += '"';
-              i++; // Skip next quote
-            } else {
-              // Toggle quote mode
-              inQuotes = !inQuotes;
-            }
-          } else if (char === ',' && !inQuotes) {
-            // End of field
-            result.push(current.trim());
-            current = '';
-          } else {
-            current += char;
-          }
-        }
-        
-        // Add last field
-        result.push(current.trim());
-        return result;
-      };
-      
-      // Process each line as a data row
-      for (const line of lines) {
-        const columns = parseCSVLine(line);
-        
-        console.log(`Processing line with ${columns.length} columns:`, columns.slice(0, 3).join(' | '));
-        
-        // Skip if line doesn't have enough columns
-        if (columns.length < 8) {
-          console.log('Skipping line - not enough columns');
-          continue;
-        }
-        
-        // Map columns to question fields (adjusted for 0-based index)
-        // Expecting: question_number(0), question(1), choice_a(2), choice_b(3), choice_c(4), choice_d(5), choice_e(6), correct_answer(7), explanation(8), source_folder(9)
-        const question: Omit<Question, 'id' | 'created_at' | 'updated_at' | 'question_number'> = {
-          question: columns[1] || '',
-          choice_a: columns[2] || '',
-          choice_b: columns[3] || '',
-          choice_c: columns[4] || '',
-          choice_d: columns[5] || '',
-          choice_e: columns[6] || '',
-          choice_f: columns[7] || '', // This might be correct_answer if no choice_f
-          choice_g: '', // Usually not present in standard format
-          correct_answer: columns[7] || columns[8] || '', // Could be at position 7 or 8 depending on number of choices
-          explanation: columns[8] || columns[9] || '',
-          source_folder: columns[9] || columns[10] || '',
-          uploaded_by: req.user?.id
-        };
-        
-        // Adjust for cases where there are fewer choice columns
-        // If column 7 is a single letter (A-G), it's likely the correct_answer
-        if (columns[7] && columns[7].length === 1 && ['A', 'B', 'C', 'D', 'E', 'F', 'G'].includes(columns[7])) {
-          question.correct_answer = columns[7];
-          question.choice_f = '';
-          question.choice_g = '';
-          question.explanation = columns[8] || '';
-          question.source_folder = columns[9] || '';
-        }
-        
-        // Handle image descriptions if present (columns 10-15)
-        if (columns.length > 10 && (columns[10] || columns[11] || columns[12])) {
-          const validModalities = ['transthoracic', 'transesophageal', 'non-echo'];
-          const validUsageTypes = ['question', 'explanation'];
-          const validImageTypes = ['still', 'cine'];
-          
-          const modality = columns[11]?.toLowerCase();
-          const usageType = columns[13]?.toLowerCase();
-          const imageType = columns[14]?.toLowerCase();
-          
-          const imageDesc = {
-            description: columns[10] || '',
-            modality: validModalities.includes(modality) ? modality : null,
-            echo_view: standardizeEchoView(columns[12] || ''),
-            usage_type: validUsageTypes.includes(usageType) ? usageType : 'question',
-            image_type: validImageTypes.includes(imageType) ? imageType : 'still',
-            questionIndex: questions.length
-          };
-          imageDescriptions.push(imageDesc);
+    if (questions.length === 0) {
+      return res.status(400).json({ error: 'No valid questions found in CSV file' });
+    }
 
-          question.review_status = 'pending submission';
-          question.review_notes = 'Question needs image to be uploaded before review';
-        } else {
-          question.review_status = 'pending';
+    const user = (req as any).user;
+    const examCategory = user?.exam_category || 'echocardiography';
+    const examType = user?.exam_type || 'NBE';
+
+    // Rows the uploader chose to skip or merge in the duplicate preview, keyed by row index
+    let duplicateActions: Record<string, DuplicateAction> = {};
+    if (req.body.duplicateActions) {
+      try {
+        duplicateActions = JSON.parse(req.body.duplicateActions);
+      } catch {
+        return res.status(400).json({ error: 'duplicateActions must be valid JSON' });
+      }
+    }
+
+    const skippedRows = new Set<number>();
+    const mergeTargets = new Map<number, number>();
+    for (const [key, action] of Object.entries(duplicateActions)) {
+      const index = parseInt(key);
+      if (isNaN(index) || index < 0 || index >= questions.length) {
+        return res.status(400).json({ error: `Invalid row ${key} in duplicateActions` });
+      }
+      if (action?.action === 'skip') {
+        skippedRows.add(index);
+      } else if (action?.action === 'merge' && Number.isInteger(action.question_id)) {
+        mergeTargets.set(index, action.question_id!);
+      } else if (action?.action !== 'keep') {
+        return res.status(400).json({ error: 'Duplicate actions must be keep, skip, or merge with a question_id' });
+      }
+    }
+
+    if (mergeTargets.size > 0) {
+      // Re-run the duplicate check so a row can only be merged into a question it actually matches
+      const mergeRows = Array.from(mergeTargets.keys());
+      const mergeMatches = await QuestionDuplicateModel.findDuplicates(
+        mergeRows.map(index => questions[index]),
+        duplicateScope(examCategory, examType)
+      );
+      for (const [position, index] of mergeRows.entries()) {
+        const questionId = mergeTargets.get(index)!;
+        const match = mergeMatches[position].find(candidate => candidate.question_id === questionId);
+        if (!match) {
+          return res.status(400).json({ error: `Question ${questionId} is not a duplicate of row ${index} and cannot be merged into` });
         }
-        
-        // Validate required fields
-        if (question.question && question.correct_answer && 
-            ['A', 'B', 'C', 'D', 'E', 'F', 'G'].includes(question.correct_answer)) {
-          console.log(`Adding question: "${question.question.substring(0, 50)}..." with answer ${question.correct_answer}`);
-          questions.push(question);
-        } else {
-          console.log('Skipping invalid question:', {
-            hasQuestion: !!question.question,
-            correctAnswer: question.correct_answer,
-            isValidAnswer: ['A', 'B', 'C', 'D', 'E', 'F', 'G'].includes(question.correct_answer)
-          });
+        if (!canMergeInto(req.user, match)) {
+          return res.status(403).json({ error: `Question ${questionId} belongs to another author and cannot be merged into` });
         }
       }
     }
-    
-    console.log(`Total questions parsed: ${questions.length}`);
 
-    // Clean up uploaded file
-    fs.unlinkSync(req.file.path);
+    const insertRows = questions.map((_, index) => index).filter(index => !skippedRows.has(index) && !mergeTargets.has(index));
+    const questionsToInsert = insertRows.map(index => questions[index]);
+
+    let createdQuestions: Question[] = [];
+    if (questionsToInsert.length > 0) {
+      // Create a new batch for this upload
+      const batchName = `Upload ${new Date().toISOString().slice(0, 19).replace(/T/, ' ')}`;
+      const batch = await UploadBatchModel.create({
+        batch_name: batchName,
+        uploaded_by: req.user.id,
+        question_count: questionsToInsert.length,
+        file_name: req.file.originalname,
+        description: userDescription || `Batch upload of ${questionsToInsert.length} questions`,
+        isbn: isbn || undefined,
+        starting_page: startingPage,
+        ending_page: endingPage,
+        chapter: chapter || undefined
+      });
 
-    if (questions.length === 0) {
-      return res.status(400).json({ error: 'No valid questions found in CSV file' });
-    }
+      // Associate all questions with this batch and user's exam settings
+      questionsToInsert.forEach(question => {
+        question.batch_id = batch.id;
+        question.exam_category = examCategory;
+        question.exam_type = examType;
+      });
 
-    // Create a new batch for this upload
-    const batchName = `Upload ${new Date().toISOString().slice(0, 19).replace(/T/, ' ')}`;
-    const batch = await UploadBatchModel.create({
-      batch_name: batchName,
-      uploaded_by: req.user.id,
-      question_count: questions.length,
-      file_name: req.file.originalname,
-      description: userDescription || `Batch upload of ${questions.length} questions`,
-      isbn: isbn || undefined,
-      starting_page: startingPage,
-      ending_page: endingPage,
-      chapter: chapter || undefined
-    });
+      // Bulk insert questions
+      createdQuestions = await QuestionModel.bulkCreate(questionsToInsert);
+      await QuestionRevisionModel.recordMany(createdQuestions.map(question => question.id!), 'create', req.user.id);
+      await NotificationModel.notifyBatchUploaded(batch, req.user.id, examCategory, examType);
+    }
 
-    // Associate all questions with this batch and user's exam settings
-    const user = (req as any).user;
-    questions.forEach(question => {
-      question.batch_id = batch.id;
-      // Add exam category and type from the user
-      question.exam_category = user?.exam_category || 'echocardiography';
-      question.exam_type = user?.exam_type || 'NBE';
-    });
+    // Merged rows only fill blanks in the existing question; their image descriptions are not carried over
+    for (const [index, questionId] of mergeTargets) {
+      await QuestionModel.mergeDuplicate(questionId, questions[index]);
+    }
+    await QuestionRevisionModel.recordMany(Array.from(new Set(mergeTargets.values())), 'edit', req.user.id);
 
-    // Bulk insert questions
-    const createdQuestions = await QuestionModel.bulkCreate(questions);
+    const createdByRow = new Map<number, Question>();
+    insertRows.forEach((index, position) => createdByRow.set(index, createdQuestions[position]));
     
     // If we have image descriptions, create them in the database
+    let questionsWithImages = 0;
     if (imageDescriptions.length > 0) {
-      console.log(`Creating ${imageDescriptions.length} image descriptions`);
+      console.log(`Creating image descriptions for ${createdQuestions.length} new questions`);
       for (let i = 0; i < imageDescriptions.length; i++) {
         try {
           const imageDesc = imageDescriptions[i];
           const questionIndex = imageDesc.questionIndex;
-          const createdQuestion = createdQuestions[questionIndex];
+          const createdQuestion = createdByRow.get(questionIndex);
           
           if (createdQuestion && createdQuestion.id) {
             console.log('Creating image description:', {
@@ -780,6 +1034,7 @@ router.post('/upload', requireAuth, upload.single('csvFile'), async (req: Reques
               usage_type: imageDesc.usage_type,
               image_type: imageDesc.image_type
             });
+            questionsWithImages++;
           }
         } catch (imageError) {
           console.error('Error creating image description:', imageError);
@@ -788,7 +1043,6 @@ router.post('/upload', requireAuth, upload.single('csvFile'), async (req: Reques
       }
     }
     
-    const questionsWithImages = imageDescriptions.length;
     const questionsWithoutImages = createdQuestions.length - questionsWithImages;
     
     let message = `Successfully uploaded ${createdQuestions.length} questions`;
@@ -796,13 +1050,18 @@ router.post('/upload', requireAuth, upload.single('csvFile'), async (req: Reques
       message += ` (${questionsWithImages} need images, ${questionsWithoutImages} ready for review)`;
     } else if (questionsWithImages > 0) {
       message += ` with image requirements`;
-    } else {
+    } else if (createdQuestions.length > 0) {
       message += ` ready for review`;
     }
+    if (skippedRows.size > 0 || mergeTargets.size > 0) {
+      message += `; ${skippedRows.size} duplicates skipped, ${mergeTargets.size} merged into existing questions`;
+    }
     
-    res.status(201).json({
+    res.status(createdQuestions.length > 0 ? 201 : 200).json({
       message,
-      questions: createdQuestions
+      questions: createdQuestions,
+      skipped: skippedRows.size,
+      merged: mergeTargets.size
     });
   } catch (error) {
     console.error('Error uploading questions:', error);
@@ -816,6 +1075,90 @@ router.post('/upload', requireAuth, upload.single('csvFile'), async (req: Reques
   }
 });
 
+// Revisions keep every earlier draft, so only the author, reviewers and admins may read them
+function canSeeRevisions(user: any, question: Question): boolean {
+  return !!(user?.is_reviewer || user?.is_admin || (user && question.uploaded_by === user.id));
+}
+
+// Get a question's revision history, newest first, with field-level changes
+router.get('/:id/revisions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'Invalid question ID' });
+    }
+
+    const question = await QuestionModel.findById(questionId);
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+    if (!canSeeRevisions(req.user, question)) {
+      return res.status(403).json({ error: 'You cannot view this question\'s history' });
+    }
+
+    const revisions = await QuestionRevisionModel.findByQuestion(questionId);
+    res.json({ revisions });
+  } catch (error) {
+    console.error('Error fetching question revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch question revisions' });
+  }
+});
+
+// Get one revision with its full snapshot
+router.get('/:id/revisions/:revisionId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    const revisionId = parseInt(req.params.revisionId);
+    if (isNaN(questionId) || isNaN(revisionId)) {
+      return res.status(400).json({ error: 'Invalid question or revision ID' });
+    }
+
+    const question = await QuestionModel.findById(questionId);
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+    if (!canSeeRevisions(req.user, question)) {
+      return res.status(403).json({ error: 'You cannot view this question\'s history' });
+    }
+
+    const revision = await QuestionRevisionModel.findById(questionId, revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json({ revision });
+  } catch (error) {
+    console.error('Error fetching question revision:', error);
+    res.status(500).json({ error: 'Failed to fetch question revision' });
+  }
+});
+
+// Restore a question to an earlier revision (admin only)
+router.post('/:id/revisions/:revisionId/restore', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    const revisionId = parseInt(req.params.revisionId);
+    if (isNaN(questionId) || isNaN(revisionId)) {
+      return res.status(400).json({ error: 'Invalid question or revision ID' });
+    }
+
+    const revision = await QuestionRevisionModel.findById(questionId, revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const restored = await QuestionRevisionModel.restore(revision, req.user.id);
+    if (!restored) {
+      return res.json({ message: `Question already matches revision ${revision.revision_number}`, revision: null });
+    }
+
+    res.json({ message: `Restored revision ${revision.revision_number}`, revision: restored });
+  } catch (error) {
+    console.error('Error restoring question revision:', error);
+    res.status(500).json({ error: 'Failed to restore question revision' });
+  }
+});
+
 // Get images for a question
 router.get('/:id/images', async (req: Request, res: Response) => {
   try {
@@ -875,6 +1218,7 @@ router.post('/:id/metadata', async (req: Request, res: Response) => {
     ];
     
     await query(sql, values);
+    await QuestionRevisionModel.record(questionId, 'metadata', req.user?.id);
     res.json({ success: true, message: 'Metadata saved successfully' });
   } catch (error) {
     console.error('Error saving metadata:', error);
@@ -933,6 +1277,7 @@ router.post('/:id/exams', async (req: Request, res: Response) => {
       }
     }
     
+    await QuestionRevisionModel.record(questionId, 'exams', req.user?.id);
     res.json({ success: true, message: 'Exam assignments saved successfully' });
   } catch (error) {
     console.error('Error saving exam assignments:', error);
@@ -1035,7 +1380,7 @@ router.get('/review/pending', requireAuth, async (req: Request, res: Response) =
     }
 
     // Filter by reviewer's exam preferences
-    const questions = await QuestionModel.getPendingReview(req.user.exam_category, req.user.exam_type);
+    const questions = await QuestionModel.getPendingReview(req.user.exam_category, req.user.exam_type, req.user.id);
     console.log('Found pending questions for', req.user.exam_category, req.user.exam_type, ':', questions.length);
     console.log('Questions:', questions.map(q => ({ id: q.id, exam_category: q.exam_category, exam_type: q.exam_type, question: q.question.substring(0, 50) + '...' })));
     
@@ -1076,47 +1421,204 @@ router.get('/review/status/:status', requireAuth, async (req: Request, res: Resp
   }
 });
 
-// Update question review status (reviewers only)
-router.post('/review/:id', requireAuth, async (req: Request, res: Response) => {
+// Claim the next question to review in the reviewer's exam; the claim lapses after REVIEW_CLAIM_MINUTES
+router.post('/review/claim', requireAuth, async (req: Request, res: Response) => {
   try {
     if (!req.user.is_reviewer && !req.user.is_admin) {
       return res.status(403).json({ error: 'Reviewer access required' });
     }
 
+    const claimed = await ReviewAssignmentModel.claimNext(req.user.id, req.user.exam_category, req.user.exam_type);
+    if (!claimed) {
+      return res.json({ question: null, claim: null });
+    }
+    res.json({ ...claimed, claim_minutes: REVIEW_CLAIM_MINUTES });
+  } catch (error) {
+    console.error('Error claiming question for review:', error);
+    res.status(500).json({ error: 'Failed to claim a question for review' });
+  }
+});
+
+// Give a claimed question back to the queue
+router.delete('/review/claim/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
     const questionId = parseInt(req.params.id);
-    const { status, notes, difficulty_rating } = req.body;
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'Invalid question ID' });
+    }
 
-    if (!['approved', 'rejected', 'returned'].includes(status)) {
-      return res.status(400).json({ error: 'Invalid review status. Must be: approved, rejected, or returned' });
+    const released = await ReviewAssignmentModel.release(questionId, req.user.id);
+    if (!released) {
+      return res.status(404).json({ error: 'You have no claim on this question' });
     }
+    res.json({ message: 'Question released' });
+  } catch (error) {
+    console.error('Error releasing review claim:', error);
+    res.status(500).json({ error: 'Failed to release question' });
+  }
+});
+
+// Per-reviewer throughput, turnaround and assigned work in the admin's exam (admin only)
+router.get('/review/workload', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const examCategory = req.user.exam_category || 'echocardiography';
+    const examType = req.user.exam_type || 'eacvi_toe';
+
+    const reviewers = await ReviewAssignmentModel.getWorkload(examCategory, examCategory === 'usmle' ? undefined : examType);
+    res.json({ reviewers });
+  } catch (error) {
+    console.error('Error fetching reviewer workload:', error);
+    res.status(500).json({ error: 'Failed to fetch reviewer workload' });
+  }
+});
+
+// Reasons must be distinct, active rubric criteria, each with an optional score within the criterion's range
+const validateReviewReasons = async (status: string, reasons: any): Promise<string | null> => {
+  if (!Array.isArray(reasons)) {
+    return 'Reasons must be a list of rubric criteria';
+  }
+  if (reasons.length === 0) return null;
+  if (status === 'approved') {
+    return 'Rubric reasons can only be given when returning or rejecting a question';
+  }
 
-    if ((status === 'rejected' || status === 'returned') && !notes?.trim()) {
-      return res.status(400).json({ error: 'Review notes are required for rejected or returned questions' });
+  const criteria = await ReviewRubricModel.getCriteria();
+  const seen = new Set<string>();
+  for (const reason of reasons) {
+    const criterion = criteria.find(c => c.code === reason?.code);
+    if (!criterion) {
+      return `Unknown rubric criterion: ${reason?.code}`;
+    }
+    if (seen.has(criterion.code)) {
+      return `Rubric criterion ${criterion.code} was given more than once`;
     }
+    seen.add(criterion.code);
 
-    // Validate difficulty rating if provided
-    if (difficulty_rating !== undefined && difficulty_rating !== null) {
-      const rating = parseInt(difficulty_rating);
-      if (isNaN(rating) || rating < 1 || rating > 5) {
-        return res.status(400).json({ error: 'Difficulty rating must be between 1 and 5' });
+    if (reason.score !== undefined && reason.score !== null) {
+      const score = parseInt(reason.score);
+      if (isNaN(score) || score < 1 || score > criterion.max_score) {
+        return `Score for ${criterion.label} must be between 1 and ${criterion.max_score}`;
       }
     }
+  }
+  return null;
+};
+
+// Reasons from a validated request body in the shape the vote models store
+const toReviewReasons = (reasons: any): ReviewReason[] =>
+  (Array.isArray(reasons) ? reasons : []).map((reason: any) => ({
+    code: reason.code,
+    score: reason.score ? parseInt(reason.score) : null
+  }));
+
+// Shared checks for a reviewer's vote or an admin's ruling; returns an error message, or null if valid
+const validateReviewDecision = async (questionId: number, reviewerId: number, body: any): Promise<string | null> => {
+  const { status, notes, difficulty_rating, reasons } = body;
+
+  if (!['approved', 'rejected', 'returned'].includes(status)) {
+    return 'Invalid review status. Must be: approved, rejected, or returned';
+  }
+
+  if (reasons !== undefined && reasons !== null) {
+    const reasonError = await validateReviewReasons(status, reasons);
+    if (reasonError) return reasonError;
+  }
+
+  // Rubric reasons or the reviewer's own open comments on the question can stand in for notes
+  if ((status === 'rejected' || status === 'returned') && !notes?.trim() && !reasons?.length
+    && await ReviewCommentModel.countOpen(questionId, reviewerId) === 0) {
+    return 'Review notes, a rubric reason or an open review comment of your own are required for rejected or returned questions';
+  }
+
+  if (difficulty_rating !== undefined && difficulty_rating !== null) {
+    const rating = parseInt(difficulty_rating);
+    if (isNaN(rating) || rating < 1 || rating > 5) {
+      return 'Difficulty rating must be between 1 and 5';
+    }
+  }
+  return null;
+};
+
+// Keep the deciding notes in the comment history, since review_notes is overwritten on the next review;
+// approval notes leave nothing for the author to address
+const recordReviewNotes = async (questionId: number, decision: ReviewDecision, votes: ReviewVote[]) => {
+  for (const vote of votes) {
+    if (!vote.notes?.trim() || !vote.reviewer_id) continue;
+    const thread = await ReviewCommentModel.createThread(questionId, vote.reviewer_id, { anchor_type: 'general' }, vote.notes.trim(), decision);
+    if (decision === 'approved') {
+      await ReviewCommentModel.setResolved(thread.id, vote.reviewer_id, true);
+    }
+  }
+};
+
+// Vote on a question (reviewers only); its status follows once the exam's quorum agrees,
+// and disagreements escalate to an admin
+router.post('/review/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    if (!req.user.is_reviewer && !req.user.is_admin) {
+      return res.status(403).json({ error: 'Reviewer access required' });
+    }
+
+    const questionId = parseInt(req.params.id);
+    const { status, notes, difficulty_rating } = req.body;
 
-    const updatedQuestion = await QuestionModel.updateReviewStatus(
-      questionId, 
-      status, 
-      notes || '', 
+    const validationError = await validateReviewDecision(questionId, req.user.id, req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const question = await QuestionModel.findById(questionId);
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+    if (question.review_status !== 'pending') {
+      return res.status(409).json({ error: 'This question is not awaiting review' });
+    }
+    if (question.uploaded_by === req.user.id) {
+      return res.status(403).json({ error: 'You cannot review your own question' });
+    }
+    if (await ReviewVoteModel.hasVoted(questionId, req.user.id)) {
+      return res.status(409).json({ error: 'You have already reviewed this question' });
+    }
+    const claim = await ReviewAssignmentModel.findActiveClaim(questionId);
+    if (claim && claim.reviewer_id !== req.user.id) {
+      return res.status(409).json({ error: `${claim.reviewer_username} is reviewing this question` });
+    }
+
+    const result = await ReviewVoteModel.castVote(
+      questionId,
       req.user.id,
-      difficulty_rating ? parseInt(difficulty_rating) : undefined
+      status,
+      notes || '',
+      difficulty_rating ? parseInt(difficulty_rating) : undefined,
+      claim?.claimed_at,
+      toReviewReasons(req.body.reasons)
     );
 
-    if (!updatedQuestion) {
-      return res.status(404).json({ error: 'Question not found' });
+    let message: string;
+    if (result.status === 'pending') {
+      const remaining = result.required_approvals - result.votes_cast;
+      message = `Review recorded; ${remaining} more review${remaining !== 1 ? 's' : ''} needed`;
+    } else if (result.status === 'escalated') {
+      await NotificationModel.notifyEscalated(result.question);
+      message = 'Reviewers disagree; question escalated to an admin';
+    } else {
+      await recordReviewNotes(questionId, result.status, result.votes);
+      await NotificationModel.notifyQuestionDecision(result.question, result.status);
+      if (result.status === 'returned') {
+        await sendReturnedEmail(result.question);
+      }
+      message = `Question ${result.status} successfully`;
     }
 
     res.json({ 
-      message: `Question ${status} successfully`, 
-      question: updatedQuestion 
+      message, 
+      question: result.question,
+      consensus: {
+        status: result.status,
+        required_approvals: result.required_approvals,
+        votes_cast: result.votes_cast
+      }
     });
   } catch (error) {
     console.error('Error updating review status:', error);
@@ -1124,6 +1626,179 @@ router.post('/review/:id', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+// Escalated questions in the admin's exam, with the disagreeing votes (admin only)
+router.get('/review/escalated', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const examCategory = req.user.exam_category || 'echocardiography';
+    const examType = req.user.exam_type || 'eacvi_toe';
+
+    const questions = await ReviewVoteModel.findEscalated(examCategory, examCategory === 'usmle' ? undefined : examType);
+    res.json({ questions });
+  } catch (error) {
+    console.error('Error fetching escalated questions:', error);
+    res.status(500).json({ error: 'Failed to fetch escalated questions' });
+  }
+});
+
+// Settle an escalated question (admin only)
+router.post('/review/:id/adjudicate', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    const { status, notes, difficulty_rating } = req.body;
+
+    const validationError = await validateReviewDecision(questionId, req.user.id, req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const question = await QuestionModel.findById(questionId);
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+    if (question.review_status !== 'escalated') {
+      return res.status(409).json({ error: 'Only escalated questions can be adjudicated' });
+    }
+
+    const result = await ReviewVoteModel.adjudicate(
+      questionId,
+      req.user.id,
+      status,
+      notes || '',
+      difficulty_rating ? parseInt(difficulty_rating) : undefined,
+      toReviewReasons(req.body.reasons)
+    );
+    await recordReviewNotes(questionId, status, result.votes);
+    await NotificationModel.notifyQuestionDecision(result.question, status);
+    if (status === 'returned') {
+      await sendReturnedEmail(result.question);
+    }
+
+    res.json({ message: `Question ${status} successfully`, question: result.question });
+  } catch (error) {
+    console.error('Error adjudicating question:', error);
+    res.status(500).json({ error: 'Failed to adjudicate question' });
+  }
+});
+
+// Approvals needed per exam type (admin only)
+router.get('/review/quorums', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const quorums = await ReviewVoteModel.getQuorums();
+    res.json({ quorums, max_required_approvals: MAX_REQUIRED_APPROVALS });
+  } catch (error) {
+    console.error('Error fetching review quorums:', error);
+    res.status(500).json({ error: 'Failed to fetch review quorums' });
+  }
+});
+
+// Set how many approvals an exam type needs (admin only)
+router.put('/review/quorums/:examType', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const requiredApprovals = parseInt(req.body.required_approvals);
+    if (isNaN(requiredApprovals) || requiredApprovals < 1 || requiredApprovals > MAX_REQUIRED_APPROVALS) {
+      return res.status(400).json({ error: `Required approvals must be between 1 and ${MAX_REQUIRED_APPROVALS}` });
+    }
+
+    const quorum = await ReviewVoteModel.setQuorum(req.params.examType, requiredApprovals, req.user.id);
+    res.json({ quorum });
+  } catch (error) {
+    console.error('Error updating review quorum:', error);
+    res.status(500).json({ error: 'Failed to update review quorum' });
+  }
+});
+
+// Rubric criteria reviewers can cite; admins may ask for retired ones too with ?all=true
+router.get('/review/rubric', requireAuth, async (req: Request, res: Response) => {
+  try {
+    if (!req.user.is_reviewer && !req.user.is_admin) {
+      return res.status(403).json({ error: 'Reviewer access required' });
+    }
+
+    const includeInactive = req.user.is_admin && req.query.all === 'true';
+    const criteria = await ReviewRubricModel.getCriteria(includeInactive);
+    res.json({ criteria, max_score: MAX_CRITERION_SCORE });
+  } catch (error) {
+    console.error('Error fetching review rubric:', error);
+    res.status(500).json({ error: 'Failed to fetch review rubric' });
+  }
+});
+
+// Shared checks for a rubric criterion's editable fields; returns an error message, or null if valid
+const validateRubricCriterion = (body: any, isNew: boolean): string | null => {
+  const { label, max_score, display_order } = body;
+
+  if ((isNew || label !== undefined) && !label?.trim()) {
+    return 'Label is required';
+  }
+  if (max_score !== undefined) {
+    const maxScore = parseInt(max_score);
+    if (isNaN(maxScore) || maxScore < 1 || maxScore > MAX_CRITERION_SCORE) {
+      return `Maximum score must be between 1 and ${MAX_CRITERION_SCORE}`;
+    }
+  }
+  if (display_order !== undefined && isNaN(parseInt(display_order))) {
+    return 'Display order must be a number';
+  }
+  return null;
+};
+
+// Add a rubric criterion (admin only)
+router.post('/review/rubric', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { code, label, description, max_score, display_order } = req.body;
+
+    if (!code || !/^[a-z][a-z0-9_]{1,49}$/.test(code)) {
+      return res.status(400).json({ error: 'Code must be lowercase letters, digits and underscores, starting with a letter' });
+    }
+    const validationError = validateRubricCriterion(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (await ReviewRubricModel.findByCode(code)) {
+      return res.status(409).json({ error: `A criterion with code ${code} already exists` });
+    }
+
+    const criterion = await ReviewRubricModel.create({
+      code,
+      label: label.trim(),
+      description: description?.trim() || null,
+      max_score: max_score !== undefined ? parseInt(max_score) : 5,
+      display_order: display_order !== undefined ? parseInt(display_order) : 0
+    });
+    res.status(201).json({ criterion });
+  } catch (error) {
+    console.error('Error creating rubric criterion:', error);
+    res.status(500).json({ error: 'Failed to create rubric criterion' });
+  }
+});
+
+// Edit or retire a rubric criterion (admin only); codes are permanent so past reviews keep their meaning
+router.put('/review/rubric/:code', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { label, description, max_score, display_order, is_active } = req.body;
+
+    const validationError = validateRubricCriterion(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const criterion = await ReviewRubricModel.update(req.params.code, {
+      label: label?.trim(),
+      description: description === undefined ? undefined : description?.trim() || null,
+      max_score: max_score !== undefined ? parseInt(max_score) : undefined,
+      display_order: display_order !== undefined ? parseInt(display_order) : undefined,
+      is_active: is_active !== undefined ? Boolean(is_active) : undefined
+    });
+    if (!criterion) {
+      return res.status(404).json({ error: 'Rubric criterion not found' });
+    }
+    res.json({ criterion });
+  } catch (error) {
+    console.error('Error updating rubric criterion:', error);
+    res.status(500).json({ error: 'Failed to update rubric criterion' });
+  }
+});
+
 // Get review statistics (reviewers only)
 router.get('/review/stats', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -1139,7 +1814,9 @@ router.get('/review/stats', requireAuth, async (req: Request, res: Response) =>
     console.log('Getting review stats for user:', user?.username, 'exam:', examCategory, examType);
     
     const stats = await QuestionModel.getReviewStats(examCategory, examType);
-    res.json(stats);
+    // Why questions are sent back; the batch and author breakdowns are for admins coaching authors
+    const { reasons, batches, authors } = await ReviewRubricModel.getReasonStats(examCategory, examCategory === 'usmle' ? undefined : examType);
+    res.json(req.user.is_admin ? { ...stats, reasons, batches, authors } : { ...stats, reasons });
   } catch (error) {
     console.error('Error fetching review stats:', error);
     res.status(500).json({ error: 'Failed to fetch review statistics' });
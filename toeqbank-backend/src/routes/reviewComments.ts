@@ -0,0 +1,183 @@
+import { Router, Request, Response } from 'express';
+import { ReviewCommentModel, CommentAnchor, CommentAnchorType, ReviewComment } from '../models/ReviewComment';
+import { QuestionModel } from '../models/Question';
+import { ImageModel } from '../models/Image';
+import { CHOICE_LETTERS } from '../models/ItemAnalysis';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+const ANCHOR_TYPES: CommentAnchorType[] = ['question', 'choice', 'explanation', 'image', 'general'];
+
+const isReviewer = (req: Request) => !!(req.user.is_reviewer || req.user.is_admin);
+
+// Reviewers can discuss any question; authors only their own
+const canDiscuss = (req: Request, question: { uploaded_by?: number | null }) =>
+  isReviewer(req) || (!!question.uploaded_by && question.uploaded_by === req.user.id);
+
+// Load a thread and check the user may take part in it; sends the error response and returns null otherwise
+const loadThread = async (req: Request, res: Response): Promise<ReviewComment | null> => {
+  const threadId = parseInt(req.params.threadId);
+  if (isNaN(threadId)) {
+    res.status(400).json({ error: 'Invalid thread ID' });
+    return null;
+  }
+
+  const thread = await ReviewCommentModel.findById(threadId, isReviewer(req) ? req.user.id : undefined);
+  if (!thread || thread.parent_id) {
+    res.status(404).json({ error: 'Review comment not found' });
+    return null;
+  }
+
+  const question = await QuestionModel.findById(thread.question_id);
+  if (!question || !canDiscuss(req, question)) {
+    res.status(403).json({ error: 'You cannot take part in this discussion' });
+    return null;
+  }
+  return thread;
+};
+
+// Open threads: in the reviewer's exam, or on the author's own questions
+router.get('/open', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const examCategory = req.user.exam_category || 'echocardiography';
+    const examType = req.user.exam_type || 'eacvi_toe';
+
+    const threads = isReviewer(req)
+      ? await ReviewCommentModel.findOpenThreads({
+        exam_category: examCategory,
+        exam_type: examCategory === 'usmle' ? undefined : examType,
+        reviewer_id: req.user.id
+      })
+      : await ReviewCommentModel.findOpenThreads({ uploaded_by: req.user.id });
+    res.json({ threads });
+  } catch (error) {
+    console.error('Error fetching open review comments:', error);
+    res.status(500).json({ error: 'Failed to fetch review comments' });
+  }
+});
+
+// Every thread on a question, resolved ones included
+router.get('/questions/:questionId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.params.questionId);
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'Invalid question ID' });
+    }
+
+    const question = await QuestionModel.findById(questionId);
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+    if (!canDiscuss(req, question)) {
+      return res.status(403).json({ error: 'You cannot view comments on this question' });
+    }
+
+    // Reviewers who haven't voted yet don't see the other reviewers' threads from this round
+    const threads = await ReviewCommentModel.findThreads(questionId, isReviewer(req) ? req.user.id : undefined);
+    res.json({ threads });
+  } catch (error) {
+    console.error('Error fetching review comments:', error);
+    res.status(500).json({ error: 'Failed to fetch review comments' });
+  }
+});
+
+// Start a thread pinned to part of a question (reviewers only)
+router.post('/questions/:questionId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    if (!isReviewer(req)) {
+      return res.status(403).json({ error: 'Reviewer access required' });
+    }
+
+    const questionId = parseInt(req.params.questionId);
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'Invalid question ID' });
+    }
+
+    const { anchor_type, anchor_choice, anchor_image_id, body } = req.body;
+    if (!body?.trim()) {
+      return res.status(400).json({ error: 'Comment text is required' });
+    }
+    if (!ANCHOR_TYPES.includes(anchor_type)) {
+      return res.status(400).json({ error: `Invalid anchor. Must be one of: ${ANCHOR_TYPES.join(', ')}` });
+    }
+
+    const question = await QuestionModel.findById(questionId);
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const anchor: CommentAnchor = { anchor_type };
+    if (anchor_type === 'choice') {
+      const letter = String(anchor_choice || '').toUpperCase();
+      const choiceKey = `choice_${letter.toLowerCase()}` as keyof typeof question;
+      if (!(CHOICE_LETTERS as readonly string[]).includes(letter) || !question[choiceKey]) {
+        return res.status(400).json({ error: 'Choose one of the question\'s answer choices' });
+      }
+      anchor.anchor_choice = letter;
+    }
+    if (anchor_type === 'image') {
+      const imageId = parseInt(anchor_image_id);
+      const images = await ImageModel.findByQuestionId(questionId);
+      if (!images.some(image => image.id === imageId)) {
+        return res.status(400).json({ error: 'Choose an image attached to this question' });
+      }
+      anchor.anchor_image_id = imageId;
+    }
+
+    const thread = await ReviewCommentModel.createThread(questionId, req.user.id, anchor, body.trim());
+    res.status(201).json({ thread: { ...thread, replies: [] } });
+  } catch (error) {
+    console.error('Error creating review comment:', error);
+    res.status(500).json({ error: 'Failed to create review comment' });
+  }
+});
+
+// Reply to a thread
+router.post('/:threadId/replies', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { body } = req.body;
+    if (!body?.trim()) {
+      return res.status(400).json({ error: 'Reply text is required' });
+    }
+
+    const thread = await loadThread(req, res);
+    if (!thread) return;
+
+    const reply = await ReviewCommentModel.reply(thread, req.user.id, body.trim());
+    res.status(201).json({ reply });
+  } catch (error) {
+    console.error('Error replying to review comment:', error);
+    res.status(500).json({ error: 'Failed to reply to review comment' });
+  }
+});
+
+// Mark a thread resolved
+router.post('/:threadId/resolve', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const thread = await loadThread(req, res);
+    if (!thread) return;
+
+    const updated = await ReviewCommentModel.setResolved(thread.id, req.user.id, true);
+    res.json({ thread: updated });
+  } catch (error) {
+    console.error('Error resolving review comment:', error);
+    res.status(500).json({ error: 'Failed to resolve review comment' });
+  }
+});
+
+// Reopen a resolved thread
+router.post('/:threadId/reopen', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const thread = await loadThread(req, res);
+    if (!thread) return;
+
+    const updated = await ReviewCommentModel.setResolved(thread.id, req.user.id, false);
+    res.json({ thread: updated });
+  } catch (error) {
+    console.error('Error reopening review comment:', error);
+    res.status(500).json({ error: 'Failed to reopen review comment' });
+  }
+});
+
+export default router;
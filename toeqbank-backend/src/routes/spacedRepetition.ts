@@ -0,0 +1,149 @@
+import { Router, Request, Response } from 'express';
+import { QuestionReviewScheduleModel } from '../models/QuestionReviewSchedule';
+import { QuestionModel } from '../models/Question';
+import { ImageModel } from '../models/Image';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const VALID_ANSWERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+
+// Build the user's review state against the approved pool for their exam
+const loadReviewState = async (req: Request) => {
+  const examCategory = req.user.exam_category || 'echocardiography';
+  const examType = req.user.exam_type || 'eacvi_toe';
+
+  const [pool, schedules] = await Promise.all([
+    QuestionModel.getByReviewStatus('approved', examCategory, examType),
+    QuestionReviewScheduleModel.findByUser(req.user.id)
+  ]);
+
+  const poolById = new Map(pool.map(q => [q.id!, q]));
+  const scheduled = schedules.filter(s => poolById.has(s.question_id));
+  const scheduledIds = new Set(scheduled.map(s => s.question_id));
+
+  const due = scheduled.filter(s => s.is_due);
+  const upcoming = scheduled.filter(s => !s.is_due);
+  // getByReviewStatus returns newest first; introduce new cards oldest first
+  const unseen = pool.filter(q => !scheduledIds.has(q.id!)).reverse();
+
+  return {
+    poolById,
+    due,
+    unseen,
+    stats: {
+      due_today: due.length,
+      new_available: unseen.length,
+      scheduled: scheduled.length,
+      next_due_date: upcoming.length > 0 ? upcoming[0].due_date : null
+    }
+  };
+};
+
+// Get today's review queue: due cards first, then up to new_limit unseen questions
+router.get('/queue', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const newLimit = Math.min(parseInt(req.query.new_limit as string) || 10, 100);
+
+    const { poolById, due, unseen, stats } = await loadReviewState(req);
+
+    const dueItems = due.slice(0, limit).map(schedule => ({
+      question: poolById.get(schedule.question_id)!,
+      schedule
+    }));
+    const newItems = unseen
+      .slice(0, Math.min(newLimit, limit - dueItems.length))
+      .map(question => ({ question, schedule: null }));
+
+    const queue = await Promise.all([...dueItems, ...newItems].map(async item => ({
+      ...item,
+      question: {
+        ...item.question,
+        images: await ImageModel.findByQuestionId(item.question.id!)
+      }
+    })));
+
+    res.json({ queue, stats });
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+    res.status(500).json({ error: 'Failed to fetch review queue' });
+  }
+});
+
+// Get counts of due, new and scheduled questions
+router.get('/stats', async (req: Request, res: Response) => {
+  try {
+    const { stats } = await loadReviewState(req);
+    res.json(stats);
+  } catch (error) {
+    console.error('Error fetching review stats:', error);
+    res.status(500).json({ error: 'Failed to fetch review stats' });
+  }
+});
+
+// Grade an answer and reschedule the question
+router.post('/reviews', async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.body.question_id);
+    const selectedAnswer = req.body.selected_answer;
+
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'question_id is required' });
+    }
+    if (!VALID_ANSWERS.includes(selectedAnswer)) {
+      return res.status(400).json({ error: 'selected_answer must be A, B, C, D, E, F, or G' });
+    }
+
+    let quality: number | undefined;
+    if (req.body.quality !== undefined) {
+      quality = parseInt(req.body.quality);
+      if (isNaN(quality) || quality < 0 || quality > 5) {
+        return res.status(400).json({ error: 'quality must be between 0 and 5' });
+      }
+    }
+
+    const question = await QuestionModel.findById(questionId);
+    if (!question || question.review_status !== 'approved') {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const isCorrect = question.correct_answer === selectedAnswer;
+    // A wrong answer is always a lapse, whatever the student rated it
+    const grade = isCorrect ? (quality ?? 4) : Math.min(quality ?? 1, 2);
+
+    const schedule = await QuestionReviewScheduleModel.recordReview(req.user.id, questionId, grade);
+
+    res.json({
+      is_correct: isCorrect,
+      correct_answer: question.correct_answer,
+      schedule
+    });
+  } catch (error) {
+    console.error('Error recording review:', error);
+    res.status(500).json({ error: 'Failed to record review' });
+  }
+});
+
+// Forget a question's schedule so it comes back as new
+router.delete('/schedules/:questionId', async (req: Request, res: Response) => {
+  try {
+    const questionId = parseInt(req.params.questionId);
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'Invalid question ID' });
+    }
+
+    const deleted = await QuestionReviewScheduleModel.reset(req.user.id, questionId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error resetting review schedule:', error);
+    res.status(500).json({ error: 'Failed to reset review schedule' });
+  }
+});
+
+export default router;
@@ -0,0 +1,640 @@
+import { Router, Request, Response } from 'express';
+import { TestSessionModel, TestSession, TestSessionMode } from '../models/TestSession';
+import { QuestionModel } from '../models/Question';
+import { PracticeTestModel } from '../models/PracticeTest';
+import { QuestionPoolModel, QuestionPoolFilters, PoolCandidate } from '../models/QuestionPool';
+import { ItemAnalysisModel } from '../models/ItemAnalysis';
+import { requireAuth } from '../middleware/auth';
+import { getExamRegistry, ExamRegistry } from '../utils/examRegistry';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const VALID_ANSWERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+
+const MAX_TIME_LIMIT_MINUTES = 600;
+
+// pg returns DECIMAL columns as strings
+const formatSession = (session: TestSession) => ({
+  ...session,
+  score_percentage: session.score_percentage !== null && session.score_percentage !== undefined
+    ? parseFloat(session.score_percentage as any)
+    : null,
+  remaining_seconds: TestSessionModel.getRemainingSeconds(session),
+  is_paused: !!session.paused_at
+});
+
+const isExamInProgress = (session: TestSession) => session.mode === 'exam' && !session.completed_at;
+
+// Score a session and fold its responses into the item statistics
+const completeSession = async (sessionId: string): Promise<TestSession | null> => {
+  const completed = await TestSessionModel.complete(sessionId);
+  if (completed) {
+    try {
+      await ItemAnalysisModel.refresh(completed.question_ids);
+    } catch (error) {
+      // Statistics can be rebuilt later; don't fail the submission over them
+      console.error('Error refreshing item statistics:', error);
+    }
+  }
+  return completed;
+};
+
+// Auto-submit a timed exam whose clock has run out
+const settleSession = async (session: TestSession): Promise<TestSession> => {
+  if (isExamInProgress(session) && TestSessionModel.getRemainingSeconds(session) === 0) {
+    return (await completeSession(session.id!)) || session;
+  }
+  return session;
+};
+
+// Load a session owned by the current user, or null if it doesn't exist / isn't theirs
+const loadOwnSession = async (req: Request): Promise<TestSession | null> => {
+  const id = req.params.id;
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const session = await TestSessionModel.findById(id);
+  if (!session || session.user_id !== req.user.id) return null;
+  return settleSession(session);
+};
+
+const buildSessionPayload = async (session: TestSession) => {
+  const [questions, responses] = await Promise.all([
+    TestSessionModel.getQuestions(session),
+    TestSessionModel.getResponses(session.id!)
+  ]);
+
+  // Mock exams don't reveal answers or explanations until they are submitted
+  if (isExamInProgress(session)) {
+    return {
+      session: formatSession(session),
+      questions: questions.map(({ correct_answer, explanation, ...question }) => question),
+      responses: responses.map(({ is_correct, ...response }) => response)
+    };
+  }
+
+  return { session: formatSession(session), questions, responses };
+};
+
+// Shuffle a copy of the array (Fisher-Yates)
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+interface SectionComposition {
+  section: string;
+  requested: number;
+  selected: number;
+  available: number;
+}
+
+const toStringArray = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter(v => typeof v === 'string' && v.trim() !== '') : undefined;
+
+const toRating = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const rating = parseInt(value as string);
+  return isNaN(rating) ? NaN : rating;
+};
+
+// Split `total` across sections in proportion to their weights (largest remainder method)
+const allocateByWeight = (weights: Record<string, number>, total: number): Record<string, number> => {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const weightSum = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  const allocations = entries.map(([section, weight]) => {
+    const exact = (total * weight) / weightSum;
+    return { section, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = total - allocations.reduce((sum, a) => sum + a.count, 0);
+  [...allocations]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(allocation => {
+      if (leftover > 0) {
+        allocation.count++;
+        leftover--;
+      }
+    });
+
+  return Object.fromEntries(allocations.map(a => [a.section, a.count]));
+};
+
+// Pick questions so each section gets its allocated share; a question is only used once
+const sampleByDistribution = (
+  candidates: PoolCandidate[],
+  examName: string,
+  allocation: Record<string, number>,
+  registry: ExamRegistry
+): { questionIds: number[]; composition: SectionComposition[] } => {
+  const bySection = new Map<string, number[]>();
+  for (const candidate of candidates) {
+    const sections = new Set(
+      candidate.exam_subtopics
+        .map(subtopic => registry.getSectionForSubtopic(examName, subtopic))
+        .filter((section): section is string => !!section)
+    );
+    sections.forEach(section => {
+      if (!bySection.has(section)) bySection.set(section, []);
+      bySection.get(section)!.push(candidate.id);
+    });
+  }
+
+  const used = new Set<number>();
+  const questionIds: number[] = [];
+  const composition: SectionComposition[] = [];
+
+  // Fill the scarcest sections first so shared questions go where they are needed most
+  const sections = Object.keys(allocation).sort(
+    (a, b) => (bySection.get(a)?.length || 0) - (bySection.get(b)?.length || 0)
+  );
+
+  for (const section of sections) {
+    const pool = shuffle(bySection.get(section) || []).filter(id => !used.has(id));
+    const picked = pool.slice(0, allocation[section]);
+    picked.forEach(id => used.add(id));
+    questionIds.push(...picked);
+    composition.push({
+      section,
+      requested: allocation[section],
+      selected: picked.length,
+      available: bySection.get(section)?.length || 0
+    });
+  }
+
+  composition.sort((a, b) => a.section.localeCompare(b.section, undefined, { numeric: true }));
+  return { questionIds: shuffle(questionIds), composition };
+};
+
+// Get the options the test builder can filter on
+router.get('/options', async (req: Request, res: Response) => {
+  try {
+    const examCategory = req.user.exam_category || 'echocardiography';
+    const examType = req.user.exam_type || 'eacvi_toe';
+
+    const [{ view_types, modalities }, registry] = await Promise.all([
+      QuestionPoolModel.getFilterOptions(examCategory, examType),
+      getExamRegistry()
+    ]);
+    const exams = registry.active.blueprints.map(blueprint => ({
+      name: blueprint.name,
+      sections: registry.getSectionNames(blueprint.name)
+    }));
+
+    res.json({ exams, view_types, modalities });
+  } catch (error) {
+    console.error('Error fetching test builder options:', error);
+    res.status(500).json({ error: 'Failed to fetch test builder options' });
+  }
+});
+
+interface ComposeRequest {
+  questionCount: number;
+  filters: QuestionPoolFilters;
+  distribution: Record<string, number> | null;
+  mode: TestSessionMode;
+  timeLimitSeconds: number | null;
+}
+
+/**
+ * Validate a test builder request body: { question_count, status, filters?, distribution?, mode?, time_limit_minutes? }
+ * - filters: exam_name, sections, view_types, modalities, difficulty_min/max, unseen_only, missed_only
+ * - distribution: { [section title]: weight } across filters.exam_name's sections
+ * - mode 'exam' is a timed mock exam and needs time_limit_minutes
+ */
+const parseComposeRequest = (req: Request, registry: ExamRegistry): { error: string; status: number } | ComposeRequest => {
+  const questionCount = parseInt(req.body.question_count) || 10;
+  const status = req.body.status === 'pending' ? 'pending' : 'approved';
+  const rawFilters = req.body.filters || {};
+  const rawDistribution = req.body.distribution;
+
+  if (questionCount < 1 || questionCount > 200) {
+    return { status: 400, error: 'question_count must be between 1 and 200' };
+  }
+
+  const mode: TestSessionMode = req.body.mode === 'exam' ? 'exam' : 'practice';
+  let timeLimitSeconds: number | null = null;
+  if (mode === 'exam') {
+    const minutes = parseFloat(req.body.time_limit_minutes);
+    if (isNaN(minutes) || minutes <= 0 || minutes > MAX_TIME_LIMIT_MINUTES) {
+      return { status: 400, error: `time_limit_minutes must be between 1 and ${MAX_TIME_LIMIT_MINUTES} for a mock exam` };
+    }
+    timeLimitSeconds = Math.round(minutes * 60);
+  }
+
+  // Only admins can practise on questions that haven't been approved yet
+  if (status === 'pending' && !req.user.is_admin) {
+    return { status: 403, error: 'Admin access required for pending questions' };
+  }
+
+  const examName: string | undefined = rawFilters.exam_name || undefined;
+  if (examName && !registry.getBlueprint(examName)) {
+    return { status: 400, error: `Unknown exam: ${examName}` };
+  }
+
+  const sections = toStringArray(rawFilters.sections) || [];
+  if (sections.length > 0 && !examName) {
+    return { status: 400, error: 'filters.exam_name is required when filtering by section' };
+  }
+  const examSections = examName ? registry.getSectionNames(examName) : [];
+  const unknownSection = sections.find(section => !examSections.includes(section));
+  if (unknownSection) {
+    return { status: 400, error: `Unknown section for ${examName}: ${unknownSection}` };
+  }
+
+  const difficultyMin = toRating(rawFilters.difficulty_min);
+  const difficultyMax = toRating(rawFilters.difficulty_max);
+  for (const rating of [difficultyMin, difficultyMax]) {
+    if (rating !== undefined && (isNaN(rating) || rating < 1 || rating > 5)) {
+      return { status: 400, error: 'Difficulty range must be between 1 and 5' };
+    }
+  }
+  if (difficultyMin !== undefined && difficultyMax !== undefined && difficultyMin > difficultyMax) {
+    return { status: 400, error: 'difficulty_min cannot be greater than difficulty_max' };
+  }
+
+  const search = typeof rawFilters.search === 'string' ? rawFilters.search.trim() : '';
+  if (search.length > 200) {
+    return { status: 400, error: 'filters.search must be 200 characters or fewer' };
+  }
+
+  if (rawFilters.unseen_only && rawFilters.missed_only) {
+    return { status: 400, error: 'unseen_only and missed_only cannot both be set' };
+  }
+
+  let distribution: Record<string, number> | null = null;
+  if (rawDistribution && typeof rawDistribution === 'object' && Object.keys(rawDistribution).length > 0) {
+    if (!examName) {
+      return { status: 400, error: 'filters.exam_name is required for a section distribution' };
+    }
+    distribution = {};
+    for (const [section, weight] of Object.entries(rawDistribution)) {
+      const value = parseFloat(weight as string);
+      if (!examSections.includes(section)) {
+        return { status: 400, error: `Unknown section for ${examName}: ${section}` };
+      }
+      if (isNaN(value) || value < 0) {
+        return { status: 400, error: `Invalid weight for section ${section}` };
+      }
+      distribution[section] = value;
+    }
+    if (!Object.values(distribution).some(weight => weight > 0)) {
+      return { status: 400, error: 'Distribution must give at least one section a positive weight' };
+    }
+  }
+
+  return {
+    questionCount,
+    distribution,
+    mode,
+    timeLimitSeconds,
+    filters: {
+      status,
+      exam_category: req.user.exam_category || 'echocardiography',
+      exam_type: req.user.exam_type || 'eacvi_toe',
+      exam_name: examName,
+      subtopics: examName && sections.length > 0
+        ? sections.flatMap(section => registry.getStoredSubtopicsForSection(examName, section))
+        : undefined,
+      view_types: toStringArray(rawFilters.view_types),
+      modalities: toStringArray(rawFilters.modalities),
+      difficulty_min: difficultyMin,
+      difficulty_max: difficultyMax,
+      search: search || undefined,
+      unseen_only: !!rawFilters.unseen_only,
+      missed_only: !!rawFilters.missed_only,
+      user_id: req.user.id
+    }
+  };
+};
+
+// Sample question ids for a parsed request, following the distribution if one was given
+const composeQuestionIds = (candidates: PoolCandidate[], request: ComposeRequest, registry: ExamRegistry) => {
+  if (request.distribution && request.filters.exam_name) {
+    return sampleByDistribution(
+      candidates,
+      request.filters.exam_name,
+      allocateByWeight(request.distribution, request.questionCount),
+      registry
+    );
+  }
+  return {
+    questionIds: shuffle(candidates.map(c => c.id)).slice(0, request.questionCount),
+    composition: null
+  };
+};
+
+// Count how many questions a test builder request would draw from, without starting a session
+router.post('/preview', async (req: Request, res: Response) => {
+  try {
+    const registry = await getExamRegistry();
+    const request = parseComposeRequest(req, registry);
+    if ('error' in request) {
+      return res.status(request.status).json({ error: request.error });
+    }
+
+    const candidates = await QuestionPoolModel.findCandidates(request.filters);
+    const { questionIds, composition } = composeQuestionIds(candidates, request, registry);
+
+    res.json({ available: candidates.length, question_count: questionIds.length, composition });
+  } catch (error) {
+    console.error('Error previewing test session:', error);
+    res.status(500).json({ error: 'Failed to preview test session' });
+  }
+});
+
+// Start a new practice session from a test builder request
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const registry = await getExamRegistry();
+    const request = parseComposeRequest(req, registry);
+    if ('error' in request) {
+      return res.status(request.status).json({ error: request.error });
+    }
+
+    const candidates = await QuestionPoolModel.findCandidates(request.filters);
+    if (candidates.length === 0) {
+      return res.status(404).json({ error: `No ${request.filters.status} questions match the selected filters` });
+    }
+
+    const { questionIds, composition } = composeQuestionIds(candidates, request, registry);
+    if (questionIds.length === 0) {
+      return res.status(404).json({ error: 'No questions are assigned to the requested sections', composition });
+    }
+
+    const session = await TestSessionModel.create(req.user.id, questionIds, undefined, {
+      mode: request.mode,
+      timeLimitSeconds: request.timeLimitSeconds
+    });
+
+    res.status(201).json({
+      ...(await buildSessionPayload(session)),
+      available: candidates.length,
+      composition
+    });
+  } catch (error) {
+    console.error('Error starting test session:', error);
+    res.status(500).json({ error: 'Failed to start test session' });
+  }
+});
+
+// Start a session of a published practice test; timed tests run as mock exams
+router.post('/practice-tests/:testId', async (req: Request, res: Response) => {
+  try {
+    const testId = parseInt(req.params.testId);
+    if (isNaN(testId)) {
+      return res.status(400).json({ error: 'Invalid test ID' });
+    }
+
+    const test = await PracticeTestModel.findById(testId);
+    const available = test && test.is_published &&
+      test.exam_category === (req.user.exam_category || 'echocardiography') &&
+      test.exam_type === (req.user.exam_type || 'eacvi_toe');
+    if (!test || (!available && !req.user.is_admin)) {
+      return res.status(404).json({ error: 'Practice test not found' });
+    }
+
+    // Skip any question that has lost its approval since the test was published
+    const questionIds = (await PracticeTestModel.getQuestions(testId))
+      .filter(q => q.review_status === 'approved')
+      .map(q => q.question_id);
+    if (questionIds.length === 0) {
+      return res.status(404).json({ error: 'This practice test has no available questions' });
+    }
+
+    const session = await TestSessionModel.create(req.user.id, questionIds, testId, {
+      mode: test.time_limit_minutes ? 'exam' : 'practice',
+      timeLimitSeconds: test.time_limit_minutes ? test.time_limit_minutes * 60 : null
+    });
+
+    res.status(201).json(await buildSessionPayload(session));
+  } catch (error) {
+    console.error('Error starting practice test session:', error);
+    res.status(500).json({ error: 'Failed to start practice test' });
+  }
+});
+
+// List the current user's sessions (most recent first)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const sessions = await TestSessionModel.findByUser(req.user.id, limit);
+    res.json({ sessions: sessions.map(formatSession) });
+  } catch (error) {
+    console.error('Error fetching test sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch test sessions' });
+  }
+});
+
+// Get the user's most recent unfinished session, if any
+router.get('/active', async (req: Request, res: Response) => {
+  try {
+    const active = await TestSessionModel.findActiveForUser(req.user.id);
+    const session = active && await settleSession(active);
+    if (!session || session.completed_at) {
+      return res.json({ session: null });
+    }
+    res.json(await buildSessionPayload(session));
+  } catch (error) {
+    console.error('Error fetching active test session:', error);
+    res.status(500).json({ error: 'Failed to fetch active test session' });
+  }
+});
+
+// Get a session with its questions and recorded responses
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnSession(req);
+    if (!session) {
+      return res.status(404).json({ error: 'Test session not found' });
+    }
+    res.json(await buildSessionPayload(session));
+  } catch (error) {
+    console.error('Error fetching test session:', error);
+    res.status(500).json({ error: 'Failed to fetch test session' });
+  }
+});
+
+// Record (or change) the answer to one question in the session
+router.post('/:id/responses', async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnSession(req);
+    if (!session) {
+      return res.status(404).json({ error: 'Test session not found' });
+    }
+    if (session.completed_at) {
+      return res.status(409).json({ error: 'Test session is already completed' });
+    }
+    if (session.paused_at) {
+      return res.status(409).json({ error: 'Test session is paused' });
+    }
+
+    const questionId = parseInt(req.body.question_id);
+    const selectedAnswer = req.body.selected_answer;
+    const responseTime = req.body.response_time_seconds !== undefined
+      ? Math.max(0, parseInt(req.body.response_time_seconds) || 0)
+      : null;
+
+    if (!session.question_ids.includes(questionId)) {
+      return res.status(400).json({ error: 'Question is not part of this session' });
+    }
+    if (!VALID_ANSWERS.includes(selectedAnswer)) {
+      return res.status(400).json({ error: 'selected_answer must be A, B, C, D, E, F, or G' });
+    }
+
+    const question = await QuestionModel.findById(questionId);
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const response = await TestSessionModel.recordResponse({
+      user_id: req.user.id,
+      test_id: session.test_id,
+      question_id: questionId,
+      selected_answer: selectedAnswer,
+      is_correct: question.correct_answer === selectedAnswer,
+      response_time_seconds: responseTime,
+      session_id: session.id!
+    });
+
+    if (isExamInProgress(session)) {
+      const { is_correct, ...hidden } = response;
+      return res.status(201).json(hidden);
+    }
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error recording response:', error);
+    res.status(500).json({ error: 'Failed to record response' });
+  }
+});
+
+// Save which question the user is currently on so the session can be resumed there
+router.put('/:id/progress', async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnSession(req);
+    if (!session) {
+      return res.status(404).json({ error: 'Test session not found' });
+    }
+
+    const index = parseInt(req.body.current_question_index);
+    if (isNaN(index) || index < 0 || index >= session.total_questions) {
+      return res.status(400).json({ error: 'Invalid current_question_index' });
+    }
+
+    const updated = await TestSessionModel.updateProgress(session.id!, index);
+    if (!updated) {
+      return res.status(409).json({ error: 'Test session is already completed' });
+    }
+    res.json({ session: formatSession(updated) });
+  } catch (error) {
+    console.error('Error updating session progress:', error);
+    res.status(500).json({ error: 'Failed to update session progress' });
+  }
+});
+
+// Flag or unflag a question for review before submitting
+router.put('/:id/flags', async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnSession(req);
+    if (!session) {
+      return res.status(404).json({ error: 'Test session not found' });
+    }
+
+    const questionId = parseInt(req.body.question_id);
+    if (!session.question_ids.includes(questionId)) {
+      return res.status(400).json({ error: 'Question is not part of this session' });
+    }
+
+    const updated = await TestSessionModel.setFlagged(session.id!, questionId, req.body.flagged !== false);
+    if (!updated) {
+      return res.status(409).json({ error: 'Test session is already completed' });
+    }
+    res.json({ session: formatSession(updated) });
+  } catch (error) {
+    console.error('Error flagging question:', error);
+    res.status(500).json({ error: 'Failed to flag question' });
+  }
+});
+
+// Pause a timed session's clock
+router.post('/:id/pause', async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnSession(req);
+    if (!session) {
+      return res.status(404).json({ error: 'Test session not found' });
+    }
+    if (!isExamInProgress(session)) {
+      return res.status(409).json({ error: 'Only an in-progress mock exam can be paused' });
+    }
+
+    const updated = session.paused_at ? session : await TestSessionModel.pause(session.id!);
+    res.json({ session: formatSession(updated || session) });
+  } catch (error) {
+    console.error('Error pausing test session:', error);
+    res.status(500).json({ error: 'Failed to pause test session' });
+  }
+});
+
+// Restart a paused session's clock
+router.post('/:id/resume', async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnSession(req);
+    if (!session) {
+      return res.status(404).json({ error: 'Test session not found' });
+    }
+    if (!isExamInProgress(session)) {
+      return res.status(409).json({ error: 'Only an in-progress mock exam can be resumed' });
+    }
+
+    const updated = session.paused_at ? await TestSessionModel.resume(session.id!) : session;
+    res.json({ session: formatSession(updated || session) });
+  } catch (error) {
+    console.error('Error resuming test session:', error);
+    res.status(500).json({ error: 'Failed to resume test session' });
+  }
+});
+
+// Complete the session and store its score
+router.post('/:id/complete', async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnSession(req);
+    if (!session) {
+      return res.status(404).json({ error: 'Test session not found' });
+    }
+
+    const completed = session.completed_at ? session : await completeSession(session.id!);
+    if (!completed) {
+      return res.status(500).json({ error: 'Failed to complete test session' });
+    }
+
+    res.json(await buildSessionPayload(completed));
+  } catch (error) {
+    console.error('Error completing test session:', error);
+    res.status(500).json({ error: 'Failed to complete test session' });
+  }
+});
+
+// Discard a session
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const session = await loadOwnSession(req);
+    if (!session) {
+      return res.status(404).json({ error: 'Test session not found' });
+    }
+
+    await TestSessionModel.delete(session.id!);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting test session:', error);
+    res.status(500).json({ error: 'Failed to delete test session' });
+  }
+});
+
+export default router;
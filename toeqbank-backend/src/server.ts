@@ -13,6 +13,18 @@ import metadataRoutes from './routes/metadata';
 import examRoutes from './routes/exams';
 import debugRoutes from './routes/debug';
 import savedExplanationsRoutes from './routes/savedExplanations';
+import testSessionRoutes from './routes/testSessions';
+import performanceRoutes from './routes/performance';
+import spacedRepetitionRoutes from './routes/spacedRepetition';
+import practiceTestRoutes from './routes/practiceTests';
+import itemAnalysisRoutes from './routes/itemAnalysis';
+import reviewCommentRoutes from './routes/reviewComments';
+import notificationRoutes from './routes/notifications';
+import aiGenerationRoutes from './routes/aiGeneration';
+import aiEnrichmentRoutes from './routes/aiEnrichment';
+import llmRoutes from './routes/llm';
+import { startDigestScheduler } from './utils/emailDigest';
+import { startEnrichmentWorker } from './utils/enrichmentQueue';
 
 dotenv.config();
 
@@ -40,6 +52,16 @@ app.use('/api/metadata', metadataRoutes);
 app.use('/api/exams', examRoutes);
 app.use('/api/debug', debugRoutes);
 app.use('/api/saved-explanations', savedExplanationsRoutes);
+app.use('/api/test-sessions', testSessionRoutes);
+app.use('/api/performance', performanceRoutes);
+app.use('/api/spaced-repetition', spacedRepetitionRoutes);
+app.use('/api/practice-tests', practiceTestRoutes);
+app.use('/api/item-analysis', itemAnalysisRoutes);
+app.use('/api/review-comments', reviewCommentRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/ai-generation', aiGenerationRoutes);
+app.use('/api/ai-enrichment', aiEnrichmentRoutes);
+app.use('/api/llm', llmRoutes);
 
 // Version endpoint
 app.get('/api/version', (req, res) => {
@@ -84,6 +106,9 @@ const startServer = async () => {
     console.log(`Health check: http://localhost:${PORT}/health`);
     console.log(`API base URL: http://localhost:${PORT}/api`);
   });
+
+  startDigestScheduler();
+  startEnrichmentWorker();
 };
 
 startServer();
\ No newline at end of file
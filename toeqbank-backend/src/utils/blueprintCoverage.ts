@@ -0,0 +1,147 @@
+import { ExamBlueprint, CoverageTarget } from '../models/ExamRegistry';
+import { CoverageAssignment, CoverageStatus, COVERAGE_STATUSES } from '../models/BlueprintCoverage';
+import { ExamRegistry } from './examRegistry';
+
+export type CoverageCounts = Record<CoverageStatus, number>;
+
+// met: enough approved questions. in_pipeline: not yet, but enough are in review or waiting for
+// images. gap: even the pipeline falls short. no_target: nobody has said how many are wanted.
+export type CoverageState = 'met' | 'in_pipeline' | 'gap' | 'no_target';
+
+export interface CoverageRow extends CoverageCounts {
+  target: number | null;
+  // Approved questions still missing
+  shortfall: number | null;
+  state: CoverageState;
+}
+
+export interface SubtopicCoverage extends CoverageRow {
+  number: string;
+  name: string;
+}
+
+export interface SectionCoverage extends CoverageRow {
+  number: string;
+  title: string;
+  subtopics: SubtopicCoverage[];
+}
+
+export interface BlueprintCoverage {
+  blueprint: Pick<ExamBlueprint, 'id' | 'name' | 'target_total'>;
+  totals: CoverageRow;
+  sections: SectionCoverage[];
+  // Stored subtopics that no longer match the blueprint, e.g. after a subtopic was renumbered
+  unmatched: (CoverageCounts & { subtopic: string })[];
+}
+
+// Question ids per status; a question in two subtopics of a section counts once for the section
+type StatusSets = Record<CoverageStatus, Set<number>>;
+
+const emptySets = (): StatusSets => ({ approved: new Set(), pending: new Set(), needs_images: new Set() });
+
+const countSets = (sets: StatusSets): CoverageCounts => ({
+  approved: sets.approved.size,
+  pending: sets.pending.size,
+  needs_images: sets.needs_images.size
+});
+
+const toRow = (counts: CoverageCounts, target: number | null): CoverageRow => {
+  if (target === null) {
+    return { ...counts, target, shortfall: null, state: 'no_target' };
+  }
+  const inPipeline = counts.approved + counts.pending + counts.needs_images;
+  return {
+    ...counts,
+    target,
+    shortfall: Math.max(0, target - counts.approved),
+    state: counts.approved >= target ? 'met' : inPipeline >= target ? 'in_pipeline' : 'gap'
+  };
+};
+
+// Fixed targets are taken as given; weighted entries share whatever of the parent's target is left
+const shareOut = (entries: CoverageTarget[], parentTarget: number | null): (number | null)[] => {
+  const fixedTotal = entries.reduce((sum, entry) => sum + (entry.target_count ?? 0), 0);
+  const weightTotal = entries.reduce((sum, entry) => sum + (entry.target_count == null ? entry.weight ?? 0 : 0), 0);
+  const remaining = parentTarget === null ? null : Math.max(0, parentTarget - fixedTotal);
+
+  return entries.map(entry => {
+    if (entry.target_count != null) return entry.target_count;
+    if (entry.weight == null || remaining === null || weightTotal === 0) return null;
+    return Math.round(remaining * entry.weight / weightTotal);
+  });
+};
+
+// A section with no target of its own adds up whatever its subtopics have
+const sumTargets = (targets: (number | null)[]): number | null =>
+  targets.some(target => target !== null) ? targets.reduce<number>((sum, target) => sum + (target ?? 0), 0) : null;
+
+export const buildCoverage = (registry: ExamRegistry, blueprint: ExamBlueprint, assignments: CoverageAssignment[]): BlueprintCoverage => {
+  const totalSets = emptySets();
+  const sectionSets = new Map<string, StatusSets>();
+  const subtopicSets = new Map<string, StatusSets>();
+  const unmatchedSets = new Map<string, StatusSets>();
+
+  const add = (map: Map<string, StatusSets>, key: string, assignment: CoverageAssignment) => {
+    if (!map.has(key)) map.set(key, emptySets());
+    map.get(key)![assignment.status].add(assignment.question_id);
+  };
+
+  for (const assignment of assignments) {
+    totalSets[assignment.status].add(assignment.question_id);
+    for (const stored of assignment.subtopics) {
+      const resolved = registry.resolveSubtopic(blueprint.name, stored);
+      if (resolved) {
+        add(sectionSets, resolved.section.number, assignment);
+        add(subtopicSets, `${resolved.section.number}/${resolved.subtopic.number}`, assignment);
+      } else {
+        add(unmatchedSets, stored, assignment);
+      }
+    }
+  }
+
+  const sectionTargets = shareOut(blueprint.sections, blueprint.target_total ?? null);
+  const sections = blueprint.sections.map((section, sectionIndex) => {
+    const ownTarget = sectionTargets[sectionIndex];
+    const subtopicTargets = shareOut(section.subtopics, ownTarget);
+    const target = ownTarget ?? sumTargets(subtopicTargets);
+
+    return {
+      number: section.number,
+      title: section.title,
+      ...toRow(countSets(sectionSets.get(section.number) || emptySets()), target),
+      subtopics: section.subtopics.map((subtopic, subtopicIndex) => ({
+        number: subtopic.number,
+        name: subtopic.name,
+        ...toRow(
+          countSets(subtopicSets.get(`${section.number}/${subtopic.number}`) || emptySets()),
+          subtopicTargets[subtopicIndex]
+        )
+      }))
+    };
+  });
+
+  return {
+    blueprint: { id: blueprint.id, name: blueprint.name, target_total: blueprint.target_total ?? null },
+    totals: toRow(countSets(totalSets), blueprint.target_total ?? sumTargets(sections.map(section => section.target))),
+    sections,
+    unmatched: Array.from(unmatchedSets.entries())
+      .map(([subtopic, sets]) => ({ subtopic, ...countSets(sets) }))
+      .sort((a, b) => COVERAGE_STATUSES.reduce((sum, status) => sum + b[status] - a[status], 0))
+  };
+};
+
+// The questions counted in one cell of the coverage report, matched the same way buildCoverage counts them
+export const findCellQuestionIds = (
+  registry: ExamRegistry,
+  blueprint: ExamBlueprint,
+  assignments: CoverageAssignment[],
+  sectionNumber: string,
+  subtopicNumber?: string,
+  status?: CoverageStatus
+): number[] => assignments
+  .filter(assignment => !status || assignment.status === status)
+  .filter(assignment => assignment.subtopics.some(stored => {
+    const resolved = registry.resolveSubtopic(blueprint.name, stored);
+    return !!resolved && resolved.section.number === sectionNumber && (!subtopicNumber || resolved.subtopic.number === subtopicNumber);
+  }))
+  .map(assignment => assignment.question_id);
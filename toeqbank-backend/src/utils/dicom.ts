@@ -0,0 +1,439 @@
+import * as dicomParser from 'dicom-parser';
+import { spawn } from 'child_process';
+import { PNG } from 'pngjs';
+import zlib from 'zlib';
+
+// Cine loops are encoded with ffmpeg; point FFMPEG_PATH at the binary if it isn't on the PATH
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+// Fallback when a multi-frame object doesn't say how fast it was acquired
+const DEFAULT_FRAME_RATE = 30;
+
+const TRANSFER_SYNTAX = {
+  IMPLICIT_LITTLE_ENDIAN: '1.2.840.10008.1.2',
+  EXPLICIT_LITTLE_ENDIAN: '1.2.840.10008.1.2.1',
+  DEFLATED_LITTLE_ENDIAN: '1.2.840.10008.1.2.1.99',
+  JPEG_BASELINE: '1.2.840.10008.1.2.4.50',
+  JPEG_EXTENDED: '1.2.840.10008.1.2.4.51'
+};
+
+const TAGS = {
+  TRANSFER_SYNTAX: 'x00020010',
+  MODALITY: 'x00080060',
+  STUDY_DESCRIPTION: 'x00081030',
+  SERIES_DESCRIPTION: 'x0008103e',
+  PROTOCOL_NAME: 'x00181030',
+  IMAGE_COMMENTS: 'x00204000',
+  TRANSDUCER_DATA: 'x00185010',
+  VIEW_CODE_SEQUENCE: 'x00540220',
+  CODE_MEANING: 'x00080104',
+  SAMPLES_PER_PIXEL: 'x00280002',
+  PHOTOMETRIC_INTERPRETATION: 'x00280004',
+  PLANAR_CONFIGURATION: 'x00280006',
+  NUMBER_OF_FRAMES: 'x00280008',
+  ROWS: 'x00280010',
+  COLUMNS: 'x00280011',
+  BITS_ALLOCATED: 'x00280100',
+  BITS_STORED: 'x00280101',
+  BURNED_IN_ANNOTATION: 'x00280301',
+  FRAME_TIME: 'x00181063',
+  CINE_RATE: 'x00180040',
+  RECOMMENDED_FRAME_RATE: 'x00082144',
+  PIXEL_DATA: 'x7fe00010'
+};
+
+// Attributes that identify the patient, the staff or the visit (after the DICOM basic
+// de-identification profile). None of the header is kept: only pixels leave this module, and
+// these are listed so the uploader can see what was dropped.
+const PHI_TAGS: Record<string, string> = {
+  x00080018: 'SOP Instance UID',
+  x00080020: 'Study Date',
+  x00080021: 'Series Date',
+  x00080022: 'Acquisition Date',
+  x00080023: 'Content Date',
+  x00080030: 'Study Time',
+  x00080050: 'Accession Number',
+  x00080080: 'Institution Name',
+  x00080081: 'Institution Address',
+  x00080090: 'Referring Physician\'s Name',
+  x00081010: 'Station Name',
+  x00081030: 'Study Description',
+  x0008103e: 'Series Description',
+  x00081040: 'Institutional Department Name',
+  x00081050: 'Performing Physician\'s Name',
+  x00081060: 'Name of Physician(s) Reading Study',
+  x00081070: 'Operators\' Name',
+  x00100010: 'Patient\'s Name',
+  x00100020: 'Patient ID',
+  x00100030: 'Patient\'s Birth Date',
+  x00100040: 'Patient\'s Sex',
+  x00101000: 'Other Patient IDs',
+  x00101001: 'Other Patient Names',
+  x00101010: 'Patient\'s Age',
+  x00101020: 'Patient\'s Size',
+  x00101030: 'Patient\'s Weight',
+  x00101040: 'Patient\'s Address',
+  x00102154: 'Patient\'s Telephone Numbers',
+  x00102160: 'Ethnic Group',
+  x00104000: 'Patient Comments',
+  x00181000: 'Device Serial Number',
+  x0020000d: 'Study Instance UID',
+  x0020000e: 'Series Instance UID',
+  x00200010: 'Study ID',
+  x00204000: 'Image Comments',
+  x00321032: 'Requesting Physician'
+};
+
+export type EchoModality = 'transthoracic' | 'transesophageal' | 'non-echo';
+
+// What the upload form can pre-fill from the header
+export interface DicomProbe {
+  width: number;
+  height: number;
+  frame_count: number;
+  image_type: 'still' | 'cine';
+  duration_seconds: number | null;
+  frame_rate: number | null;
+  modality: EchoModality | null;
+  echo_view: string | null;
+  // Multiplane angle of a TOE probe, when the header records it
+  probe_angle: number | null;
+  // The device says text is burned into the pixels, which may include patient details
+  burned_in_annotation: boolean;
+  phi_tags_removed: string[];
+  private_tags_removed: number;
+}
+
+export interface ConvertedDicom {
+  probe: DicomProbe;
+  buffer: Buffer;
+  mime_type: string;
+  extension: string;
+}
+
+// A DICOM file that can't be turned into a still or cine; the message is safe to show the uploader
+export class DicomConversionError extends Error {}
+
+// Views named in headers, matched against the descriptors. Names are the ones the upload form offers.
+const VIEW_PATTERNS: { pattern: RegExp; view: string; modality: EchoModality }[] = [
+  { pattern: /\bdeep\s*tg/i, view: 'Deep TG Long Axis', modality: 'transesophageal' },
+  { pattern: /\btg\b.*\b(rv|right ventric\w*)\s*inflow/i, view: 'TG Right Ventricular Inflow', modality: 'transesophageal' },
+  { pattern: /\btg\b.*\b(2\s*-?\s*c(h|hamber)?|two[- ]chamber)\b/i, view: 'TG 2-Chamber', modality: 'transesophageal' },
+  { pattern: /\btg\b.*\b(lax|long[- ]axis)\b/i, view: 'TG Long Axis', modality: 'transesophageal' },
+  { pattern: /\btg\b.*\b(sax|short[- ]axis)\b/i, view: 'TG Mid Short Axis', modality: 'transesophageal' },
+  { pattern: /\bue\b.*arch.*\b(lax|long[- ]axis)\b/i, view: 'UE Aortic Arch Long Axis', modality: 'transesophageal' },
+  { pattern: /\bue\b.*arch.*\b(sax|short[- ]axis)\b/i, view: 'UE Aortic Arch Short Axis', modality: 'transesophageal' },
+  { pattern: /desc\w*\s*ao\w*.*\b(lax|long[- ]axis)\b/i, view: 'Descending Aorta Long Axis', modality: 'transesophageal' },
+  { pattern: /desc\w*\s*ao\w*.*\b(sax|short[- ]axis)\b/i, view: 'Descending Aorta Short Axis', modality: 'transesophageal' },
+  { pattern: /\bbicaval\b/i, view: 'ME Bicaval', modality: 'transesophageal' },
+  { pattern: /\b(laa|left atrial appendage)\b/i, view: 'ME Left Atrial Appendage', modality: 'transesophageal' },
+  { pattern: /\bcommissural\b/i, view: 'ME Mitral Commissural', modality: 'transesophageal' },
+  { pattern: /\bme\b.*\b(rv|right ventric\w*)\s*in\w*[- ]out/i, view: 'ME Right Ventricular Inflow-Outflow', modality: 'transesophageal' },
+  { pattern: /\bme\b.*\bav\b.*\b(sax|short[- ]axis)\b/i, view: 'ME Aortic Valve Short Axis', modality: 'transesophageal' },
+  { pattern: /\bme\b.*\bav\b.*\b(lax|long[- ]axis)\b/i, view: 'ME Aortic Valve Long Axis', modality: 'transesophageal' },
+  { pattern: /\bme\b.*\basc\w*\s*ao\w*.*\b(sax|short[- ]axis)\b/i, view: 'ME Ascending Aorta Short Axis', modality: 'transesophageal' },
+  { pattern: /\bme\b.*\basc\w*\s*ao\w*.*\b(lax|long[- ]axis)\b/i, view: 'ME Ascending Aorta Long Axis', modality: 'transesophageal' },
+  { pattern: /\bme\b.*\b(4\s*-?\s*c(h|hamber)?|four[- ]chamber)\b/i, view: 'ME 4-Chamber', modality: 'transesophageal' },
+  { pattern: /\bme\b.*\b(2\s*-?\s*c(h|hamber)?|two[- ]chamber)\b/i, view: 'ME 2-Chamber', modality: 'transesophageal' },
+  { pattern: /\bme\b.*\b(lax|long[- ]axis)\b/i, view: 'ME Long Axis', modality: 'transesophageal' },
+  { pattern: /\b(plax|parasternal long)/i, view: 'Parasternal Long Axis (PLAX)', modality: 'transthoracic' },
+  { pattern: /\b(psax|parasternal short).*\b(av|aortic)\b/i, view: 'Parasternal Short Axis - Aortic Valve Level', modality: 'transthoracic' },
+  { pattern: /\b(psax|parasternal short).*\b(mv|mitral)\b/i, view: 'Parasternal Short Axis - Mitral Valve Level', modality: 'transthoracic' },
+  { pattern: /\b(psax|parasternal short).*\bpap/i, view: 'Parasternal Short Axis - Papillary Muscle Level', modality: 'transthoracic' },
+  { pattern: /\b(psax|parasternal short).*\bapex|apical level/i, view: 'Parasternal Short Axis - Apical Level', modality: 'transthoracic' },
+  { pattern: /\b(a5c|apical\s*(5|five)[- ]?ch)/i, view: 'Apical 5-Chamber', modality: 'transthoracic' },
+  { pattern: /\b(a4c|apical\s*(4|four)[- ]?ch)/i, view: 'Apical 4-Chamber', modality: 'transthoracic' },
+  { pattern: /\b(a3c|aplax|apical\s*(3|three)[- ]?ch|apical long)/i, view: 'Apical 3-Chamber (Long Axis)', modality: 'transthoracic' },
+  { pattern: /\b(a2c|apical\s*(2|two)[- ]?ch)/i, view: 'Apical 2-Chamber', modality: 'transthoracic' },
+  { pattern: /\bsubcostal\b.*\bivc\b|\bivc\b/i, view: 'Subcostal IVC', modality: 'transthoracic' },
+  { pattern: /\b(subcostal|sc)\s*(4|four)[- ]?ch/i, view: 'Subcostal 4-Chamber', modality: 'transthoracic' },
+  { pattern: /\bsuprasternal\b|\bssn\b/i, view: 'Suprasternal Long Axis', modality: 'transthoracic' }
+];
+
+// Mid-oesophageal views by multiplane angle, for headers that give the angle but no view name
+const ME_VIEWS_BY_ANGLE: { min: number; max: number; view: string }[] = [
+  { min: 0, max: 20, view: 'ME 4-Chamber' },
+  { min: 50, max: 70, view: 'ME Mitral Commissural' },
+  { min: 80, max: 100, view: 'ME 2-Chamber' },
+  { min: 120, max: 160, view: 'ME Long Axis' }
+];
+
+export const isDicomFile = (buffer: Buffer): boolean =>
+  buffer.length > 132 && buffer.toString('ascii', 128, 132) === 'DICM';
+
+const parse = (buffer: Buffer): dicomParser.DataSet => {
+  try {
+    return dicomParser.parseDicom(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length), {
+      // Deflated files compress everything after the meta header
+      inflater: (bytes: Uint8Array, position: number) => {
+        const inflated = zlib.inflateRawSync(Buffer.from(bytes.buffer, bytes.byteOffset + position, bytes.length - position));
+        const full = new Uint8Array(position + inflated.length);
+        full.set(bytes.subarray(0, position), 0);
+        full.set(inflated, position);
+        return full;
+      }
+    } as dicomParser.ParseDicomOptions);
+  } catch (error: any) {
+    throw new DicomConversionError(`This file could not be read as DICOM: ${error?.message || error}`);
+  }
+};
+
+const describe = (dataSet: dicomParser.DataSet): string => {
+  const parts = [
+    dataSet.string(TAGS.STUDY_DESCRIPTION),
+    dataSet.string(TAGS.SERIES_DESCRIPTION),
+    dataSet.string(TAGS.PROTOCOL_NAME),
+    dataSet.text(TAGS.IMAGE_COMMENTS),
+    dataSet.string(TAGS.TRANSDUCER_DATA)
+  ];
+  const viewSequence = dataSet.elements[TAGS.VIEW_CODE_SEQUENCE];
+  for (const item of viewSequence?.items || []) {
+    parts.push(item.dataSet?.string(TAGS.CODE_MEANING));
+  }
+  return parts.filter(Boolean).join(' | ');
+};
+
+const probeAngle = (descriptors: string): number | null => {
+  const match = descriptors.match(/(\d{1,3})\s*(°|deg\b|degrees?\b)/i);
+  const angle = match ? parseInt(match[1]) : NaN;
+  return angle >= 0 && angle <= 180 ? angle : null;
+};
+
+const guessModality = (dataSet: dicomParser.DataSet, descriptors: string): EchoModality | null => {
+  const modality = dataSet.string(TAGS.MODALITY);
+  if (modality && modality !== 'US') return 'non-echo';
+  if (/\b(tee|toe|trans-?o?esophageal|multiplane)\b|\b\w+-\d+t\b/i.test(descriptors)) return 'transesophageal';
+  if (/\b(tte|transthoracic)\b/i.test(descriptors)) return 'transthoracic';
+  return null;
+};
+
+const frameRate = (dataSet: dicomParser.DataSet): number | null => {
+  const frameTime = dataSet.floatString(TAGS.FRAME_TIME);
+  if (frameTime && frameTime > 0) return 1000 / frameTime;
+  return dataSet.intString(TAGS.CINE_RATE) || dataSet.intString(TAGS.RECOMMENDED_FRAME_RATE) || null;
+};
+
+const probeDataSet = (dataSet: dicomParser.DataSet): DicomProbe => {
+  const width = dataSet.uint16(TAGS.COLUMNS) || 0;
+  const height = dataSet.uint16(TAGS.ROWS) || 0;
+  if (!width || !height || !dataSet.elements[TAGS.PIXEL_DATA]) {
+    throw new DicomConversionError('This DICOM file has no image in it (it may be a report or structured data)');
+  }
+
+  const frameCount = Math.max(1, dataSet.intString(TAGS.NUMBER_OF_FRAMES) || 1);
+  const rate = frameCount > 1 ? frameRate(dataSet) || DEFAULT_FRAME_RATE : null;
+  const descriptors = describe(dataSet);
+  const angle = probeAngle(descriptors);
+
+  let modality = guessModality(dataSet, descriptors);
+  let echoView: string | null = null;
+  if (modality !== 'non-echo') {
+    const matched = VIEW_PATTERNS.find(({ pattern, modality: viewModality }) =>
+      (!modality || modality === viewModality) && pattern.test(descriptors));
+    if (matched) {
+      echoView = matched.view;
+      modality = matched.modality;
+    } else if (angle !== null && (modality === 'transesophageal' || /\bme\b|mid[- ]?o?esophageal/i.test(descriptors))) {
+      echoView = ME_VIEWS_BY_ANGLE.find(range => angle >= range.min && angle <= range.max)?.view || null;
+      modality = 'transesophageal';
+    }
+  }
+
+  const elementTags = Object.keys(dataSet.elements);
+  return {
+    width,
+    height,
+    frame_count: frameCount,
+    image_type: frameCount > 1 ? 'cine' : 'still',
+    duration_seconds: rate ? Math.round((frameCount / rate) * 100) / 100 : null,
+    frame_rate: rate ? Math.round(rate * 100) / 100 : null,
+    modality,
+    echo_view: echoView,
+    probe_angle: angle,
+    burned_in_annotation: (dataSet.string(TAGS.BURNED_IN_ANNOTATION) || '').toUpperCase() === 'YES',
+    phi_tags_removed: elementTags.filter(tag => PHI_TAGS[tag]).map(tag => PHI_TAGS[tag]),
+    private_tags_removed: elementTags.filter(tag => dicomParser.isPrivateTag(tag)).length
+  };
+};
+
+// Read the header only: dimensions, timing, suggested modality and view, and what would be stripped
+export const probeDicom = (buffer: Buffer): DicomProbe => probeDataSet(parse(buffer));
+
+// Drop APPn and comment segments from a JPEG frame; vendors sometimes write identifiers there
+const stripJpegMetadata = (jpeg: Uint8Array): Buffer => {
+  const source = Buffer.from(jpeg.buffer, jpeg.byteOffset, jpeg.length);
+  if (source[0] !== 0xff || source[1] !== 0xd8) return source;
+
+  const kept: Buffer[] = [source.subarray(0, 2)];
+  let position = 2;
+  while (position + 4 <= source.length && source[position] === 0xff) {
+    const marker = source[position + 1];
+    // Start of scan: the rest is image data
+    if (marker === 0xda) break;
+    const length = source.readUInt16BE(position + 2);
+    const isMetadata = (marker >= 0xe1 && marker <= 0xef) || marker === 0xfe;
+    if (!isMetadata) kept.push(source.subarray(position, position + 2 + length));
+    position += 2 + length;
+  }
+  kept.push(source.subarray(position));
+  return Buffer.concat(kept);
+};
+
+// One frame of native pixel data as 8-bit RGB, whatever the photometric interpretation
+const nativeFrameToRgb = (dataSet: dicomParser.DataSet, probe: DicomProbe, frameIndex: number): Buffer => {
+  const samples = dataSet.uint16(TAGS.SAMPLES_PER_PIXEL) || 1;
+  const bitsAllocated = dataSet.uint16(TAGS.BITS_ALLOCATED) || 8;
+  const bitsStored = dataSet.uint16(TAGS.BITS_STORED) || bitsAllocated;
+  const photometric = (dataSet.string(TAGS.PHOTOMETRIC_INTERPRETATION) || 'MONOCHROME2').toUpperCase();
+  const planar = dataSet.uint16(TAGS.PLANAR_CONFIGURATION) === 1;
+  const pixelCount = probe.width * probe.height;
+  const bytesPerSample = bitsAllocated / 8;
+  const frameBytes = pixelCount * samples * bytesPerSample;
+
+  if (![8, 16].includes(bitsAllocated) || (samples !== 1 && samples !== 3)) {
+    throw new DicomConversionError(`Unsupported pixel layout (${samples} samples of ${bitsAllocated} bits)`);
+  }
+  if (!['MONOCHROME1', 'MONOCHROME2', 'RGB', 'YBR_FULL'].includes(photometric)) {
+    throw new DicomConversionError(`Unsupported photometric interpretation ${photometric}`);
+  }
+
+  const pixelData = dataSet.elements[TAGS.PIXEL_DATA];
+  const start = pixelData.dataOffset + frameIndex * frameBytes;
+  if (start + frameBytes > dataSet.byteArray.length) {
+    throw new DicomConversionError('The pixel data is shorter than the header says');
+  }
+  const bytes = dataSet.byteArray;
+  const shift = Math.max(0, bitsStored - 8);
+  const sample = (index: number) => bytesPerSample === 1
+    ? bytes[start + index]
+    : Math.min(255, (bytes[start + index * 2] | (bytes[start + index * 2 + 1] << 8)) >> shift);
+
+  const rgb = Buffer.alloc(pixelCount * 3);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    let r: number, g: number, b: number;
+    if (samples === 1) {
+      const value = sample(pixel);
+      r = g = b = photometric === 'MONOCHROME1' ? 255 - value : value;
+    } else {
+      const channel = (c: number) => sample(planar ? c * pixelCount + pixel : pixel * 3 + c);
+      r = channel(0);
+      g = channel(1);
+      b = channel(2);
+      if (photometric === 'YBR_FULL') {
+        const y = r, cb = g - 128, cr = b - 128;
+        r = y + 1.402 * cr;
+        g = y - 0.344136 * cb - 0.714136 * cr;
+        b = y + 1.772 * cb;
+      }
+    }
+    rgb[pixel * 3] = Math.max(0, Math.min(255, Math.round(r)));
+    rgb[pixel * 3 + 1] = Math.max(0, Math.min(255, Math.round(g)));
+    rgb[pixel * 3 + 2] = Math.max(0, Math.min(255, Math.round(b)));
+  }
+  return rgb;
+};
+
+const encodePng = (rgb: Buffer, width: number, height: number): Buffer => {
+  const png = new PNG({ width, height, colorType: 2, inputColorType: 2, inputHasAlpha: false });
+  png.data = rgb;
+  return PNG.sync.write(png, { colorType: 2, inputColorType: 2, inputHasAlpha: false });
+};
+
+// Pipe frames through ffmpeg into an H.264 MP4 that browsers can play
+const encodeMp4 = (inputArgs: string[], frames: Iterable<Buffer>): Promise<Buffer> => new Promise((resolve, reject) => {
+  const ffmpeg = spawn(FFMPEG_PATH, [
+    '-loglevel', 'error',
+    ...inputArgs,
+    '-i', 'pipe:0',
+    '-an',
+    '-c:v', 'libx264',
+    '-pix_fmt', 'yuv420p',
+    // yuv420p needs even dimensions
+    '-vf', 'pad=ceil(iw/2)*2:ceil(ih/2)*2',
+    '-movflags', 'frag_keyframe+empty_moov',
+    '-f', 'mp4',
+    'pipe:1'
+  ]);
+
+  const output: Buffer[] = [];
+  const errors: Buffer[] = [];
+  ffmpeg.stdout.on('data', chunk => output.push(chunk));
+  ffmpeg.stderr.on('data', chunk => errors.push(chunk));
+  ffmpeg.on('error', (error: NodeJS.ErrnoException) => {
+    reject(error.code === 'ENOENT'
+      ? new DicomConversionError('Cine DICOM conversion is not available on this server (ffmpeg is not installed)')
+      : error);
+  });
+  ffmpeg.on('close', code => {
+    if (code === 0) {
+      resolve(Buffer.concat(output));
+    } else {
+      reject(new Error(`ffmpeg exited with code ${code}: ${Buffer.concat(errors).toString().trim()}`));
+    }
+  });
+  // ffmpeg closing early surfaces through 'close'
+  ffmpeg.stdin.on('error', () => {});
+
+  const writeFrames = async () => {
+    for (const frame of frames) {
+      if (!ffmpeg.stdin.write(frame)) {
+        await new Promise(resume => ffmpeg.stdin.once('drain', resume));
+      }
+    }
+    ffmpeg.stdin.end();
+  };
+  writeFrames().catch(error => {
+    // A frame that can't be decoded leaves ffmpeg waiting on stdin, so stop it rather than leave it running
+    ffmpeg.kill();
+    ffmpeg.stdin.end();
+    reject(error);
+  });
+});
+
+// Turn a DICOM file into a de-identified PNG/JPEG still or MP4 cine. Only pixel data is carried
+// over; every header attribute, including all PHI, is left behind.
+export const convertDicom = async (buffer: Buffer): Promise<ConvertedDicom> => {
+  const dataSet = parse(buffer);
+  const probe = probeDataSet(dataSet);
+  const transferSyntax = dataSet.string(TAGS.TRANSFER_SYNTAX) || TRANSFER_SYNTAX.IMPLICIT_LITTLE_ENDIAN;
+  const pixelData = dataSet.elements[TAGS.PIXEL_DATA];
+  const frameIndexes = Array.from({ length: probe.frame_count }, (_, index) => index);
+  const rate = String(probe.frame_rate || DEFAULT_FRAME_RATE);
+
+  if (transferSyntax === TRANSFER_SYNTAX.JPEG_BASELINE || transferSyntax === TRANSFER_SYNTAX.JPEG_EXTENDED) {
+    const offsets = pixelData.basicOffsetTable?.length
+      ? pixelData.basicOffsetTable
+      : dicomParser.createJPEGBasicOffsetTable(dataSet, pixelData);
+    const jpegFrame = (index: number) =>
+      stripJpegMetadata(dicomParser.readEncapsulatedImageFrame(dataSet, pixelData, index, offsets) as Uint8Array);
+
+    if (probe.image_type === 'still') {
+      return { probe, buffer: jpegFrame(0), mime_type: 'image/jpeg', extension: '.jpg' };
+    }
+    const mp4 = await encodeMp4(['-f', 'image2pipe', '-framerate', rate, '-c:v', 'mjpeg'], frameIndexes.map(jpegFrame));
+    return { probe, buffer: mp4, mime_type: 'video/mp4', extension: '.mp4' };
+  }
+
+  if (![
+    TRANSFER_SYNTAX.IMPLICIT_LITTLE_ENDIAN,
+    TRANSFER_SYNTAX.EXPLICIT_LITTLE_ENDIAN,
+    TRANSFER_SYNTAX.DEFLATED_LITTLE_ENDIAN
+  ].includes(transferSyntax)) {
+    throw new DicomConversionError(`Unsupported DICOM compression (transfer syntax ${transferSyntax}). Export uncompressed or JPEG baseline DICOM instead.`);
+  }
+
+  if (probe.image_type === 'still') {
+    const png = encodePng(nativeFrameToRgb(dataSet, probe, 0), probe.width, probe.height);
+    return { probe, buffer: png, mime_type: 'image/png', extension: '.png' };
+  }
+
+  // A generator keeps only one decoded frame in memory at a time
+  const rgbFrames = function* () {
+    for (const index of frameIndexes) yield nativeFrameToRgb(dataSet, probe, index);
+  };
+  const mp4 = await encodeMp4(
+    ['-f', 'rawvideo', '-pix_fmt', 'rgb24', '-s', `${probe.width}x${probe.height}`, '-framerate', rate],
+    rgbFrames()
+  );
+  return { probe, buffer: mp4, mime_type: 'video/mp4', extension: '.mp4' };
+};
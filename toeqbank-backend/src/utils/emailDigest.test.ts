@@ -0,0 +1,119 @@
+import { test, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { sendDueDigests } from './emailDigest';
+import { FileTransport, Mailer } from './mailer';
+import { DigestRecipient, NotificationModel } from '../models/Notification';
+import { QuestionModel } from '../models/Question';
+
+const outbox = fs.mkdtempSync(path.join(os.tmpdir(), 'digest-outbox-'));
+Mailer.setTransport(new FileTransport(outbox));
+
+const reviewer: DigestRecipient = {
+  id: 1,
+  username: 'rev',
+  email: 'rev@example.com',
+  first_name: 'Rita',
+  is_admin: false,
+  is_reviewer: true,
+  email_frequency: 'daily',
+  last_digest_sent_at: new Date('2026-01-01T08:00:00Z')
+};
+
+const author: DigestRecipient = {
+  id: 2,
+  username: 'author',
+  email: 'author@example.com',
+  is_admin: false,
+  is_reviewer: false,
+  email_frequency: 'weekly',
+  last_digest_sent_at: null
+};
+
+// No database here: the claimed recipients, review queue and returned questions are set per test
+let recipients: DigestRecipient[] = [];
+let released: number[] = [];
+let claims = 0;
+
+NotificationModel.claimDigestRecipients = async () => {
+  claims++;
+  return recipients;
+};
+NotificationModel.releaseDigestClaim = async userId => { released.push(userId); };
+QuestionModel.getReviewStats = async () => ({ total: 9, pending: 4, approved: 5, rejected: 0, returned: 0, pending_submission: 0, escalated: 0 });
+QuestionModel.getReturnedForUploader = async uploaderId => uploaderId === author.id
+  ? [{ id: 30, question_number: 'Q-30', question: 'Which view is shown?', correct_answer: 'A', review_status: 'returned' }]
+  : [];
+
+const readOutbox = () => fs.readdirSync(outbox).map(file => fs.readFileSync(path.join(outbox, file), 'utf8'));
+
+beforeEach(() => {
+  fs.readdirSync(outbox).forEach(file => fs.unlinkSync(path.join(outbox, file)));
+  recipients = [];
+  released = [];
+  claims = 0;
+});
+
+after(() => {
+  fs.rmSync(outbox, { recursive: true, force: true });
+});
+
+test('due digests are written through the file transport', async () => {
+  recipients = [reviewer, author];
+
+  assert.deepEqual(await sendDueDigests(), { sent: 2, skipped: 0, failed: 0 });
+
+  const messages = readOutbox().sort();
+  assert.equal(messages.length, 2);
+
+  const [toAuthor, toReviewer] = messages;
+  assert.match(toAuthor, /^To: author@example\.com$/m);
+  assert.match(toAuthor, /^Subject: Weekly question bank digest$/m);
+  assert.match(toAuthor, /^Hi author,$/m);
+  assert.match(toAuthor, /^- Question #Q-30 \(new\): Which view is shown\?$/m);
+
+  assert.match(toReviewer, /^To: rev@example\.com$/m);
+  assert.match(toReviewer, /^Subject: Daily question bank digest$/m);
+  assert.match(toReviewer, /^- 4 questions awaiting review$/m);
+  assert.doesNotMatch(toReviewer, /need work/);
+});
+
+test('a recipient with nothing to report gets no email', async () => {
+  recipients = [{ ...reviewer, is_reviewer: false }];
+
+  assert.deepEqual(await sendDueDigests(), { sent: 0, skipped: 1, failed: 0 });
+  assert.deepEqual(readOutbox(), []);
+});
+
+test('a failed send releases that recipient\'s claim and the rest still go out', async () => {
+  recipients = [reviewer, author];
+  const fileTransport = new FileTransport(outbox);
+  Mailer.setTransport({
+    name: 'file',
+    send: async message => {
+      if (message.to === reviewer.email) throw new Error('Mailbox unavailable');
+      await fileTransport.send(message);
+    }
+  });
+
+  try {
+    assert.deepEqual(await sendDueDigests(), { sent: 1, skipped: 0, failed: 1 });
+    assert.deepEqual(released, [reviewer.id]);
+    assert.equal(readOutbox().length, 1);
+  } finally {
+    Mailer.setTransport(fileTransport);
+  }
+});
+
+test('overlapping runs share one claim', async () => {
+  recipients = [author];
+
+  const [first, second] = await Promise.all([sendDueDigests(), sendDueDigests()]);
+
+  assert.equal(claims, 1);
+  assert.deepEqual(first, { sent: 1, skipped: 0, failed: 0 });
+  assert.strictEqual(first, second);
+  assert.equal(readOutbox().length, 1);
+});
@@ -0,0 +1,141 @@
+import { Mailer, MailMessage } from './mailer';
+import { NotificationModel, DigestRecipient } from '../models/Notification';
+import { QuestionModel, Question } from '../models/Question';
+import { UserModel } from '../models/User';
+
+const APP_BASE_URL = (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+// How often the scheduler looks for users whose digest is due
+const DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const questionLabel = (question: Question) => `Question #${question.question_number || question.id}`;
+
+const greeting = (user: { first_name?: string | null; username: string }) => `Hi ${user.first_name || user.username},`;
+
+// The digest for one user, or null when there is nothing worth emailing
+export const buildDigest = async (user: DigestRecipient): Promise<MailMessage | null> => {
+  const sections: string[] = [];
+
+  if (user.is_reviewer || user.is_admin) {
+    const stats = await QuestionModel.getReviewStats(user.exam_category || 'echocardiography', user.exam_type || 'eacvi_toe');
+    const lines: string[] = [];
+    if (stats.pending > 0) {
+      lines.push(`- ${stats.pending} question${stats.pending !== 1 ? 's' : ''} awaiting review`);
+    }
+    if (user.is_admin && stats.escalated > 0) {
+      lines.push(`- ${stats.escalated} escalated question${stats.escalated !== 1 ? 's' : ''} awaiting your ruling: ${APP_BASE_URL}/admin/review-consensus`);
+    }
+    if (lines.length > 0) {
+      sections.push(`Review queue\n${lines.join('\n')}\nStart reviewing: ${APP_BASE_URL}/reviewer/dashboard`);
+    }
+  }
+
+  const returned = await QuestionModel.getReturnedForUploader(user.id);
+  if (returned.length > 0) {
+    const since = user.last_digest_sent_at ? new Date(user.last_digest_sent_at) : null;
+    const lines = returned.map(question => {
+      const isNew = !since || (question.reviewed_at && new Date(question.reviewed_at) > since);
+      return `- ${questionLabel(question)}${isNew ? ' (new)' : ''}: ${question.question.substring(0, 80)}${question.question.length > 80 ? '...' : ''}`;
+    });
+    sections.push(`Your questions that need work\n${lines.join('\n')}\nRework them: ${APP_BASE_URL}/my-returned-questions`);
+  }
+
+  if (sections.length === 0) return null;
+
+  const period = user.email_frequency === 'weekly' ? 'Weekly' : 'Daily';
+  return {
+    to: user.email,
+    subject: `${period} question bank digest`,
+    text: [
+      greeting(user),
+      ...sections,
+      `Change how often you get these emails: ${APP_BASE_URL}/settings`
+    ].join('\n\n')
+  };
+};
+
+type DigestTotals = { sent: number; skipped: number; failed: number };
+
+const sendClaimedDigests = async (): Promise<DigestTotals> => {
+  const totals = { sent: 0, skipped: 0, failed: 0 };
+  const recipients = await NotificationModel.claimDigestRecipients();
+
+  for (const recipient of recipients) {
+    try {
+      const digest = await buildDigest(recipient);
+      if (digest) {
+        await Mailer.send(digest);
+        totals.sent++;
+      } else {
+        totals.skipped++;
+      }
+    } catch (error) {
+      console.error(`Error sending digest to user ${recipient.id}:`, error);
+      totals.failed++;
+      await NotificationModel.releaseDigestClaim(recipient.id, recipient.last_digest_sent_at)
+        .catch(releaseError => console.error(`Error releasing digest claim for user ${recipient.id}:`, releaseError));
+    }
+  }
+  return totals;
+};
+
+// The run in progress in this process; the scheduler and an admin's manual run share it
+let running: Promise<DigestTotals> | null = null;
+
+// Send every digest that is due; one user's failure doesn't stop the rest
+export const sendDueDigests = (): Promise<DigestTotals> => {
+  if (!running) {
+    running = sendClaimedDigests().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+// Email the author straight away when they asked for immediate emails; everyone else hears in their digest
+export const sendReturnedEmail = async (question: Question): Promise<void> => {
+  if (!question.uploaded_by) return;
+
+  try {
+    const preferences = await NotificationModel.getPreferences(question.uploaded_by);
+    if (preferences.email_frequency !== 'immediate') return;
+
+    const author = await UserModel.findById(question.uploaded_by);
+    if (!author?.email) return;
+
+    await Mailer.send({
+      to: author.email,
+      subject: `${questionLabel(question)} needs work`,
+      text: [
+        greeting(author),
+        `A reviewer returned ${questionLabel(question)} for rework.`,
+        question.review_notes ? `Reviewer feedback:\n${question.review_notes}` : '',
+        `See the feedback and rework it: ${APP_BASE_URL}/my-returned-questions`
+      ].filter(Boolean).join('\n\n')
+    });
+  } catch (error) {
+    console.error(`Error emailing author of question ${question.id}:`, error);
+  }
+};
+
+// Check for due digests every hour unless EMAIL_DIGESTS_ENABLED is false
+export const startDigestScheduler = (): void => {
+  if (process.env.EMAIL_DIGESTS_ENABLED === 'false') {
+    console.log('Email digests disabled');
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const totals = await sendDueDigests();
+      if (totals.sent > 0 || totals.failed > 0) {
+        console.log(`Email digests: ${totals.sent} sent, ${totals.skipped} with nothing to report, ${totals.failed} failed`);
+      }
+    } catch (error) {
+      console.error('Error running email digests:', error);
+    }
+  };
+
+  setInterval(run, DIGEST_CHECK_INTERVAL_MS).unref();
+  console.log(`Email digests enabled (${Mailer.getTransport().name} transport)`);
+};
@@ -0,0 +1,150 @@
+import { AIEnrichmentJobModel, EnrichmentTask } from '../models/AIEnrichmentJob';
+import { QuestionModel } from '../models/Question';
+import { ImageModel } from '../models/Image';
+import { QuestionRevisionModel } from '../models/QuestionRevision';
+import { generateMetadata } from './metadataGeneration';
+import { assignExams } from './examAssignment';
+import { getExamRegistry } from './examRegistry';
+import { Llm, LlmError, LlmOutputError, LlmUsage, usageCost } from './llm';
+
+const POLL_INTERVAL_MS = 3000;
+
+// A question gets this many tries before it is marked failed; the wait doubles after each one
+const MAX_ATTEMPTS = parseInt(process.env.AI_ENRICHMENT_MAX_ATTEMPTS || '3');
+const RETRY_BASE_MS = 10 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+// A pause between questions so a large batch doesn't run straight into the rate limit
+const REQUEST_SPACING_MS = parseInt(process.env.AI_ENRICHMENT_SPACING_MS || '1000');
+
+// A rate limit applies to every call, so the whole worker waits rather than just the one question
+let pausedUntil = 0;
+let rateLimitStrikes = 0;
+
+export const getRateLimitedUntil = (): Date | null => pausedUntil > Date.now() ? new Date(pausedUntil) : null;
+
+const backoff = (attempt: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1), MAX_BACKOFF_MS);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const recordUsage = (jobId: number, model: string, usage: LlmUsage) =>
+  AIEnrichmentJobModel.addUsage(jobId, usage.input_tokens, usage.output_tokens, usageCost(model, usage));
+
+// Work through one due question. Returns false when there was nothing to do.
+export const processNextItem = async (): Promise<boolean> => {
+  if (Date.now() < pausedUntil) {
+    return false;
+  }
+
+  const item = await AIEnrichmentJobModel.claimNextItem();
+  if (!item) {
+    return false;
+  }
+
+  try {
+    const question = await QuestionModel.findById(item.question_id);
+    if (!question) {
+      await AIEnrichmentJobModel.finishItem(item.id, 'failed', 'Question no longer exists');
+      return true;
+    }
+
+    const questionData = {
+      question: question.question,
+      choice_a: question.choice_a,
+      choice_b: question.choice_b,
+      choice_c: question.choice_c,
+      choice_d: question.choice_d,
+      choice_e: question.choice_e,
+      correct_answer: question.correct_answer,
+      explanation: question.explanation,
+      imageCount: (await ImageModel.findByQuestionId(item.question_id)).length
+    };
+    const wants = (task: EnrichmentTask) => item.tasks.includes(task);
+
+    if (wants('metadata') && !item.metadata_done) {
+      const { metadata, model, usage } = await generateMetadata(questionData, item.requested_by);
+      await recordUsage(item.job_id, model, usage);
+      await AIEnrichmentJobModel.saveMetadata(item.id, {
+        question_id: item.question_id,
+        difficulty: metadata.difficulty,
+        category: metadata.category,
+        topic: metadata.topic,
+        keywords: metadata.keywords,
+        question_type: metadata.questionType,
+        view_type: metadata.view,
+        major_structures: metadata.majorStructures,
+        minor_structures: metadata.minorStructures,
+        modalities: metadata.modalities
+      });
+      await QuestionRevisionModel.record(item.question_id, 'metadata', item.requested_by);
+    }
+
+    if (wants('exams') && !item.exams_done) {
+      const { exams, model, usage } = await assignExams(questionData, await getExamRegistry(), item.requested_by);
+      await recordUsage(item.job_id, model, usage);
+      await AIEnrichmentJobModel.saveExamAssignments(item.id, item.question_id, exams);
+      await QuestionRevisionModel.record(item.question_id, 'exams', item.requested_by);
+    }
+
+    await AIEnrichmentJobModel.finishItem(item.id, 'succeeded');
+    rateLimitStrikes = 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Processing failed';
+
+    // An answer that didn't fit the schema was still paid for, and each retry pays again
+    if (error instanceof LlmOutputError && error.model) {
+      await recordUsage(item.job_id, error.model, error.usage)
+        .catch(usageError => console.error(`Error recording AI enrichment usage for job ${item.job_id}:`, usageError));
+    }
+
+    if (error instanceof LlmError && error.isRateLimit) {
+      rateLimitStrikes++;
+      const delay = error.retryAfter !== null ? error.retryAfter * 1000 : backoff(rateLimitStrikes);
+      pausedUntil = Date.now() + delay;
+      console.warn(`AI enrichment rate limited, pausing for ${Math.round(delay / 1000)}s`);
+      await AIEnrichmentJobModel.requeueItem(item.id, delay, message, false);
+    } else if (item.attempts < MAX_ATTEMPTS) {
+      console.error(`AI enrichment failed for question ${item.question_id} (attempt ${item.attempts}):`, error);
+      await AIEnrichmentJobModel.requeueItem(item.id, backoff(item.attempts), message, true);
+    } else {
+      console.error(`AI enrichment gave up on question ${item.question_id}:`, error);
+      await AIEnrichmentJobModel.finishItem(item.id, 'failed', message);
+    }
+  } finally {
+    await AIEnrichmentJobModel.completeIfFinished(item.job_id);
+  }
+  return true;
+};
+
+export const startEnrichmentWorker = (): void => {
+  if (process.env.AI_ENRICHMENT_ENABLED === 'false') {
+    console.log('AI enrichment worker disabled');
+    return;
+  }
+
+  let busy = false;
+  const run = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      while (await processNextItem()) {
+        await sleep(REQUEST_SPACING_MS);
+      }
+    } catch (error) {
+      console.error('Error running AI enrichment worker:', error);
+    } finally {
+      busy = false;
+    }
+  };
+
+  AIEnrichmentJobModel.requeueInterrupted()
+    .then(requeued => {
+      if (requeued > 0) {
+        console.log(`AI enrichment: re-queued ${requeued} interrupted question(s)`);
+      }
+    })
+    .catch(error => console.error('Error re-queueing interrupted AI enrichment:', error));
+
+  setInterval(run, POLL_INTERVAL_MS).unref();
+  console.log(`AI enrichment worker enabled (${Llm.getClient().name} client)`);
+};
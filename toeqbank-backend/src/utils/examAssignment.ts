@@ -0,0 +1,107 @@
+import { Llm, LlmUsage } from './llm';
+import { ExamRegistry, sectionLabel } from './examRegistry';
+import { describeQuestion, QuestionContext } from './prompts';
+
+export type AssignExamsRequest = QuestionContext;
+
+export interface SubtopicWithSection {
+  name: string;
+  section: string;
+}
+
+export interface ApplicableExam {
+  examName: string;
+  subtopics: SubtopicWithSection[];
+  reasoning?: string;
+}
+
+// The active blueprints as the nested outline the prompt has always used
+const blueprintOutline = (registry: ExamRegistry) => Object.fromEntries(
+  registry.active.blueprints.map(blueprint => [
+    blueprint.name,
+    Object.fromEntries(blueprint.sections.map(section => [
+      sectionLabel(section),
+      Object.fromEntries(section.subtopics.map(subtopic => [subtopic.number, subtopic.name]))
+    ]))
+  ])
+);
+
+export interface ExamAssignmentResult {
+  exams: ApplicableExam[];
+  model: string;
+  usage: LlmUsage;
+}
+
+// Ask the configured LLM client; without an API key the fake client answers with the keyword match
+export async function assignExams(questionData: AssignExamsRequest, registry: ExamRegistry, userId?: number | null): Promise<ExamAssignmentResult> {
+  const examNames = registry.active.blueprints.map(blueprint => blueprint.name);
+  const exampleResponse = examNames.map(examName => ({
+    examName,
+    subtopics: ['specific subtopic 1', 'specific subtopic 2'],
+    reasoning: 'Brief explanation of why this question fits these subtopics'
+  }));
+
+  const response = await Llm.run<any[]>('exam_assignment', {
+    variables: {
+      question_context: describeQuestion(questionData),
+      exam_syllabi: JSON.stringify(blueprintOutline(registry), null, 2),
+      exam_names: examNames.join(', '),
+      example_response: JSON.stringify(exampleResponse, null, 2)
+    },
+    userId,
+    fake: () => assignFallbackExams(questionData, registry).map(exam => ({
+      ...exam,
+      subtopics: exam.subtopics.map(subtopic => subtopic.name)
+    }))
+  });
+
+  return {
+    model: response.model,
+    usage: response.usage,
+    exams: response.output.map((exam: any) => {
+      const subtopicNumbers = registry.getSubtopicNumbers(exam.examName);
+      return {
+        examName: exam.examName || 'Unknown',
+        subtopics: Array.isArray(exam.subtopics) 
+          ? exam.subtopics.map((subtopic: string) => ({
+              name: subtopic,
+              section: subtopicNumbers[subtopic] || 'Unknown'
+            }))
+          : [],
+        reasoning: exam.reasoning || ''
+      };
+    })
+  };
+}
+
+// Words too common in echo questions to say anything about the subtopic
+const FALLBACK_STOP_WORDS = new Set(['and', 'the', 'of', 'in', 'for', 'with', 'assessment', 'evaluation', 'disease', 'basic', 'standard']);
+
+const keywords = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1 && !FALLBACK_STOP_WORDS.has(word));
+
+// Without Claude, pick the subtopics whose names share the most words with the question. Every active
+// blueprint gets an assignment; if nothing matches it falls back to the blueprint's first subtopic.
+export function assignFallbackExams(questionData: AssignExamsRequest, registry: ExamRegistry): ApplicableExam[] {
+  const questionWords = new Set(keywords(`${questionData.question} ${questionData.explanation || ''}`));
+
+  return registry.active.blueprints
+    .filter(blueprint => blueprint.sections.some(section => section.subtopics.length > 0))
+    .map(blueprint => {
+      const subtopics = blueprint.sections.flatMap(section => section.subtopics);
+      const matches = subtopics
+        .map(subtopic => ({ subtopic, score: keywords(subtopic.name).filter(word => questionWords.has(word)).length }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 3)
+        .map(match => match.subtopic);
+
+      return {
+        examName: blueprint.name,
+        subtopics: (matches.length > 0 ? matches : subtopics.slice(0, 1)).map(subtopic => ({
+          name: subtopic.name,
+          section: subtopic.number
+        })),
+        reasoning: 'Assigned by matching the question text against the syllabus subtopics'
+      };
+    });
+}
@@ -0,0 +1,109 @@
+import { ExamRegistryModel, ExamRegistryData, ExamBlueprint, BlueprintSection, BlueprintSubtopic } from '../models/ExamRegistry';
+
+// Admin edits clear the cache straight away; the TTL covers other server instances
+const CACHE_TTL_MS = 60 * 1000;
+
+// A section as it is shown and sent by the test builder, e.g. "1. Basic TEE"
+export const sectionLabel = (section: Pick<BlueprintSection, 'number' | 'title'>) => `${section.number}. ${section.title}`;
+
+// Split a stored subtopic ("1.2: Basic TEE Views and Anatomy" or just the name) into number and name
+const parseStoredSubtopic = (subtopic: string): { number?: string; name: string } => {
+  const colonIndex = subtopic.indexOf(': ');
+  return colonIndex > -1
+    ? { number: subtopic.substring(0, colonIndex), name: subtopic.substring(colonIndex + 2) }
+    : { name: subtopic };
+};
+
+const storedForms = (subtopic: BlueprintSubtopic) => [`${subtopic.number}: ${subtopic.name}`, subtopic.name];
+
+// A snapshot of the exam tables with the lookups the routes need
+export class ExamRegistry {
+  constructor(readonly data: ExamRegistryData) {}
+
+  // What users, question authors and the exam prompts are offered
+  get active(): ExamRegistryData {
+    const categories = this.data.categories.filter(category => category.is_active);
+    const categoryCodes = new Set(categories.map(category => category.code));
+    return {
+      categories,
+      types: this.data.types.filter(type => type.is_active && categoryCodes.has(type.category_code)),
+      blueprints: this.data.blueprints.filter(blueprint => blueprint.is_active)
+    };
+  }
+
+  // Retired blueprints still resolve, so questions assigned to them keep their sections
+  getBlueprint(examName: string): ExamBlueprint | undefined {
+    return this.data.blueprints.find(blueprint => blueprint.name === examName);
+  }
+
+  // Allow empty exam category and type (the user can select on first login)
+  isValidExamSelection(examCategory?: string, examType?: string): boolean {
+    if (!examCategory || !examType) {
+      return true;
+    }
+    return this.active.types.some(type => type.code === examType && type.category_code === examCategory);
+  }
+
+  // Subtopic name -> number, e.g. "Basic TEE Views and Anatomy" -> "1.2"
+  getSubtopicNumbers(examName: string): Record<string, string> {
+    const lookup: Record<string, string> = {};
+    this.getBlueprint(examName)?.sections.forEach(section => {
+      section.subtopics.forEach(subtopic => {
+        lookup[subtopic.name] = subtopic.number;
+      });
+    });
+    return lookup;
+  }
+
+  getSubtopicNames(examName: string): string[] {
+    return this.getBlueprint(examName)?.sections.flatMap(section => section.subtopics.map(subtopic => subtopic.name)) || [];
+  }
+
+  // The top-level section titles (e.g. "1. Basic TEE") for an exam
+  getSectionNames(examName: string): string[] {
+    return this.getBlueprint(examName)?.sections.map(sectionLabel) || [];
+  }
+
+  // Resolve a stored subtopic to the blueprint's section and subtopic
+  resolveSubtopic(examName: string, stored: string): { section: BlueprintSection; subtopic: BlueprintSubtopic } | null {
+    const { number, name } = parseStoredSubtopic(stored);
+    for (const section of this.getBlueprint(examName)?.sections || []) {
+      const subtopic = section.subtopics.find(candidate => number ? candidate.number === number : candidate.name === name);
+      if (subtopic) return { section, subtopic };
+    }
+    return null;
+  }
+
+  // Resolve a stored subtopic to its section title
+  getSectionForSubtopic(examName: string, subtopic: string): string | null {
+    const resolved = this.resolveSubtopic(examName, subtopic);
+    return resolved ? sectionLabel(resolved.section) : null;
+  }
+
+  // All the ways a section's subtopics can be stored in question_exam_assignments.subtopics
+  getStoredSubtopicsForSection(examName: string, sectionTitle: string): string[] {
+    const section = this.getBlueprint(examName)?.sections.find(candidate => sectionLabel(candidate) === sectionTitle);
+    return section?.subtopics.flatMap(storedForms) || [];
+  }
+
+  // The same, for a section or a single subtopic picked by number
+  getStoredSubtopics(examName: string, sectionNumber: string, subtopicNumber?: string): string[] {
+    const section = this.getBlueprint(examName)?.sections.find(candidate => candidate.number === sectionNumber);
+    return section?.subtopics
+      .filter(subtopic => !subtopicNumber || subtopic.number === subtopicNumber)
+      .flatMap(storedForms) || [];
+  }
+}
+
+let cached: { registry: ExamRegistry; loadedAt: number } | null = null;
+
+export const getExamRegistry = async (): Promise<ExamRegistry> => {
+  if (!cached || Date.now() - cached.loadedAt > CACHE_TTL_MS) {
+    cached = { registry: new ExamRegistry(await ExamRegistryModel.getAll()), loadedAt: Date.now() };
+  }
+  return cached.registry;
+};
+
+export const invalidateExamRegistry = () => {
+  cached = null;
+};
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkSchema, validateSchema } from './jsonSchema';
+
+test('checkSchema accepts a schema built from the supported keywords', () => {
+  assert.deepEqual(checkSchema({
+    type: 'object',
+    required: ['questions'],
+    properties: { questions: { type: 'array', items: { type: ['string', 'null'] } } }
+  }), []);
+});
+
+test('checkSchema rejects unknown types, at any depth', () => {
+  assert.deepEqual(checkSchema({
+    type: 'text',
+    properties: { tags: { type: 'array', items: { type: ['string', 'list'] } } }
+  }), [
+    '$.type: unknown type "text"',
+    '$.properties.tags.items.type: unknown type "list"'
+  ]);
+});
+
+test('checkSchema rejects a schema that is not an object, and malformed required and properties', () => {
+  assert.deepEqual(checkSchema('string'), ['$: a schema must be an object']);
+  assert.deepEqual(checkSchema({ required: 'question', properties: [] }), [
+    '$.required: must be a list of property names',
+    '$.properties: must be an object'
+  ]);
+});
+
+test('validateSchema reports each problem with its path', () => {
+  const schema = {
+    type: 'object' as const,
+    required: ['difficulty', 'keywords'],
+    properties: {
+      difficulty: { type: 'string' as const, enum: ['easy', 'medium', 'hard'] },
+      keywords: { type: 'array' as const, items: { type: 'string' as const } }
+    }
+  };
+
+  assert.deepEqual(validateSchema({ difficulty: 'medium', keywords: ['mitral'] }, schema), []);
+  assert.deepEqual(validateSchema({ difficulty: 'trivial', keywords: ['mitral', 3] }, schema), [
+    '$.difficulty: must be one of "easy", "medium", "hard"',
+    '$.keywords[1]: expected string, got integer'
+  ]);
+  assert.deepEqual(validateSchema({ difficulty: 'easy' }, schema), ['$.keywords: is required']);
+});
@@ -0,0 +1,107 @@
+// The part of JSON Schema the prompt templates use to describe their output. Anything else in a
+// schema is ignored.
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+}
+
+const JSON_TYPES: JsonType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const typeOf = (value: unknown): JsonType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+};
+
+const matchesType = (value: unknown, type: JsonType) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+// Every way the value breaks the schema, as "$.path: problem"; empty when it conforms
+export const validateSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  const problems: string[] = [];
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    problems.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    problems.push(`${path}: must be at least ${schema.minLength} character(s)`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push(`${path}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      problems.push(`${path}: must have at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => problems.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        problems.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        problems.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return problems;
+};
+
+// Problems with a schema an admin has typed in, before it is saved
+export const checkSchema = (schema: unknown, path = '$'): string[] => {
+  if (typeOf(schema) !== 'object') {
+    return [`${path}: a schema must be an object`];
+  }
+
+  const { type, properties, items, required } = schema as Record<string, unknown>;
+  const problems: string[] = [];
+
+  const types = type === undefined ? [] : Array.isArray(type) ? type : [type];
+  types.filter(candidate => !JSON_TYPES.includes(candidate as JsonType))
+    .forEach(candidate => problems.push(`${path}.type: unknown type ${JSON.stringify(candidate)}`));
+
+  if (required !== undefined && (!Array.isArray(required) || required.some(key => typeof key !== 'string'))) {
+    problems.push(`${path}.required: must be a list of property names`);
+  }
+  if (properties !== undefined) {
+    if (typeOf(properties) !== 'object') {
+      problems.push(`${path}.properties: must be an object`);
+    } else {
+      Object.entries(properties as Record<string, unknown>)
+        .forEach(([key, propertySchema]) => problems.push(...checkSchema(propertySchema, `${path}.properties.${key}`)));
+    }
+  }
+  if (items !== undefined) {
+    problems.push(...checkSchema(items, `${path}.items`));
+  }
+
+  return problems;
+};
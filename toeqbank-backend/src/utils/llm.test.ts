@@ -0,0 +1,92 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeClient, Llm, LlmOutputError, invalidatePromptTemplates } from './llm';
+import { PromptTemplate, PromptTemplateModel } from '../models/PromptTemplate';
+import { LlmUsageEntry, LlmUsageModel } from '../models/LlmUsage';
+import { LlmResponseCacheModel } from '../models/LlmResponseCache';
+
+const template: PromptTemplate = {
+  id: 1,
+  feature: 'question_metadata',
+  version: 4,
+  template: 'Describe {{question_context}}',
+  output_schema: {
+    type: 'object',
+    required: ['difficulty'],
+    properties: { difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] } }
+  },
+  max_tokens: 200,
+  is_active: true,
+  created_at: new Date()
+};
+
+let metered: LlmUsageEntry[] = [];
+
+// No database here: serve the template from memory and keep the metering
+PromptTemplateModel.findActive = async () => template;
+LlmUsageModel.record = async entry => { metered.push(entry); };
+LlmResponseCacheModel.get = async () => assert.fail('the fake client should not read the cache');
+LlmResponseCacheModel.put = async () => assert.fail('the fake client should not write the cache');
+
+beforeEach(() => {
+  metered = [];
+  invalidatePromptTemplates();
+  Llm.setClient(new FakeClient());
+});
+
+test('a fake run answers the same request with the same output', async () => {
+  const run = () => Llm.run('question_metadata', {
+    variables: { question_context: 'A mitral valve question' },
+    userId: 7,
+    fake: () => ({ difficulty: 'medium' })
+  });
+
+  const first = await run();
+  const second = await run();
+
+  assert.deepEqual(first.output, { difficulty: 'medium' });
+  assert.deepEqual(second.output, first.output);
+  assert.deepEqual(second.usage, first.usage);
+  assert.equal(first.model, 'fake');
+  assert.equal(first.cost_usd, 0);
+  assert.equal(first.cached, false);
+  assert.equal(first.template_version, 4);
+  assert.deepEqual(metered.map(entry => [entry.outcome, entry.user_id, entry.template_version]), [['ok', 7, 4], ['ok', 7, 4]]);
+});
+
+test('the fake client is given the rendered prompt', async () => {
+  let prompt = '';
+  Llm.setClient(new FakeClient(request => {
+    prompt = request.prompt;
+    return '{"difficulty": "easy"}';
+  }));
+
+  await Llm.run('question_metadata', { variables: { question_context: 'A TEE question' }, fake: () => ({}) });
+  assert.equal(prompt, 'Describe A TEE question');
+});
+
+test('an answer that breaks the schema is an LlmOutputError with its problems and what it cost', async () => {
+  Llm.setClient(new FakeClient(() => 'Here you go: {"difficulty": "trivial"}'));
+
+  await assert.rejects(
+    Llm.run('question_metadata', { variables: { question_context: 'A question' }, fake: () => ({}) }),
+    (error: unknown) => {
+      assert.ok(error instanceof LlmOutputError);
+      assert.deepEqual(error.problems, ['$.difficulty: must be one of "easy", "medium", "hard"']);
+      assert.equal(error.model, 'fake');
+      assert.ok(error.usage.input_tokens > 0 && error.usage.output_tokens > 0);
+      return true;
+    }
+  );
+  assert.deepEqual(metered.map(entry => entry.outcome), ['invalid']);
+});
+
+test('an answer that is not JSON is an LlmOutputError', async () => {
+  Llm.setClient(new FakeClient(() => 'I cannot help with that'));
+
+  await assert.rejects(
+    Llm.run('question_metadata', { variables: { question_context: 'A question' }, fake: () => ({}) }),
+    LlmOutputError
+  );
+  assert.deepEqual(metered.map(entry => entry.outcome), ['invalid']);
+});
@@ -0,0 +1,309 @@
+import fetch from 'node-fetch';
+import { createHash } from 'crypto';
+import { PromptTemplate, PromptTemplateModel } from '../models/PromptTemplate';
+import { LlmResponseCacheModel } from '../models/LlmResponseCache';
+import { LlmUsageModel, LlmOutcome } from '../models/LlmUsage';
+import { validateSchema } from './jsonSchema';
+import { DEFAULT_PROMPTS, LlmFeature, renderPrompt } from './prompts';
+
+export interface LlmRequest {
+  prompt: string;
+  maxTokens?: number;
+  // What the fake client answers with, so development without an API key still produces usable output
+  fake?: () => string;
+}
+
+export interface LlmUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface LlmResponse extends LlmUsage {
+  text: string;
+  model: string;
+}
+
+// Anything that can answer a prompt; pick one with LLM_CLIENT
+export interface LlmClient {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// A failed call. Rate limits (429) and overload (529) are worth waiting out; retryAfter is in seconds.
+export class LlmError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfter: number | null = null) {
+    super(message);
+    this.name = 'LlmError';
+  }
+
+  get isRateLimit(): boolean {
+    return this.status === 429 || this.status === 529;
+  }
+}
+
+const CLAUDE_API_URL = 'https://api.anthropic.com/v1/messages';
+
+export class AnthropicClient implements LlmClient {
+  readonly name = 'anthropic';
+
+  constructor(
+    readonly model = process.env.LLM_MODEL || 'claude-3-haiku-20240307',
+    private apiKey = process.env.CLAUDE_API_KEY || ''
+  ) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await fetch(CLAUDE_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens || 1000,
+        messages: [{ role: 'user', content: request.prompt }]
+      })
+    });
+
+    if (!response.ok) {
+      const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+      throw new LlmError(
+        `Claude API error: ${response.status} ${response.statusText}`,
+        response.status,
+        Number.isFinite(retryAfter) ? retryAfter : null
+      );
+    }
+
+    const data = await response.json() as any;
+    return {
+      text: (data.content || []).map((block: any) => block.text || '').join(''),
+      model: data.model || this.model,
+      input_tokens: data.usage?.input_tokens || 0,
+      output_tokens: data.usage?.output_tokens || 0
+    };
+  }
+}
+
+// Answers locally without a network call: the same request always gets the same answer. Token counts
+// are estimated at four characters a token so usage metering still has something to show.
+export class FakeClient implements LlmClient {
+  readonly name = 'fake';
+  readonly model = 'fake';
+
+  constructor(private respond?: (request: LlmRequest) => string) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const text = this.respond ? this.respond(request) : request.fake ? request.fake() : '';
+    return {
+      text,
+      model: this.model,
+      input_tokens: Math.ceil(request.prompt.length / 4),
+      output_tokens: Math.ceil(text.length / 4)
+    };
+  }
+}
+
+// US dollars per million tokens; LLM_INPUT_COST_PER_MTOK and LLM_OUTPUT_COST_PER_MTOK override these
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  fake: { input: 0, output: 0 }
+};
+
+const envPrice = (name: string): number | null => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+export const usageCost = (model: string, usage: LlmUsage): number => {
+  const known = MODEL_PRICES[model] || { input: 0, output: 0 };
+  const input = model === 'fake' ? 0 : envPrice('LLM_INPUT_COST_PER_MTOK') ?? known.input;
+  const output = model === 'fake' ? 0 : envPrice('LLM_OUTPUT_COST_PER_MTOK') ?? known.output;
+  return (usage.input_tokens * input + usage.output_tokens * output) / 1_000_000;
+};
+
+const createClient = (): LlmClient => {
+  const configured = process.env.LLM_CLIENT || (process.env.CLAUDE_API_KEY ? 'anthropic' : 'fake');
+  switch (configured) {
+    case 'anthropic':
+      return new AnthropicClient();
+    case 'fake':
+      return new FakeClient();
+    default:
+      console.warn(`Unknown LLM_CLIENT "${configured}", using the fake client instead`);
+      return new FakeClient();
+  }
+};
+
+// Pull the JSON out of a reply that may have prose or a code fence around it
+export const extractJson = (text: string): any => {
+  const match = text.match(/[[{][\s\S]*[\]}]/);
+  return JSON.parse(match ? match[0] : text.trim());
+};
+
+// The model answered, but not with what the template's output schema asks for. The answer was still paid
+// for, so model and usage say what to charge.
+export class LlmOutputError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[] = [],
+    readonly model: string | null = null,
+    readonly usage: LlmUsage = { input_tokens: 0, output_tokens: 0 }
+  ) {
+    super(message);
+    this.name = 'LlmOutputError';
+  }
+}
+
+const parseOutput = (text: string, template: PromptTemplate): any => {
+  let output: any;
+  try {
+    output = extractJson(text);
+  } catch {
+    throw new LlmOutputError(`The ${template.feature} response was not valid JSON`);
+  }
+
+  const problems = template.output_schema ? validateSchema(output, template.output_schema) : [];
+  if (problems.length > 0) {
+    throw new LlmOutputError(`The ${template.feature} response did not match its schema: ${problems.slice(0, 3).join('; ')}`, problems);
+  }
+  return output;
+};
+
+// Responses are reused for this long; LLM_CACHE_TTL_HOURS=0 turns the cache off
+const CACHE_TTL_HOURS = parseFloat(process.env.LLM_CACHE_TTL_HOURS || '168');
+
+// Admin edits clear the templates straight away; the TTL covers other server instances
+const TEMPLATE_TTL_MS = 60 * 1000;
+
+const templates = new Map<LlmFeature, { template: PromptTemplate; loadedAt: number }>();
+
+// The feature's live template, storing the built-in prompt as version 1 the first time
+export const getPromptTemplate = async (feature: LlmFeature): Promise<PromptTemplate> => {
+  const cached = templates.get(feature);
+  if (cached && Date.now() - cached.loadedAt <= TEMPLATE_TTL_MS) {
+    return cached.template;
+  }
+
+  const template = await PromptTemplateModel.findActive(feature) || await PromptTemplateModel.seed(feature, DEFAULT_PROMPTS[feature]);
+  templates.set(feature, { template, loadedAt: Date.now() });
+  return template;
+};
+
+export const invalidatePromptTemplates = () => {
+  templates.clear();
+};
+
+export interface LlmRunOptions<T> {
+  // Filled into the template's {{placeholders}}
+  variables: Record<string, string | number>;
+  // Who the call is metered against; background work passes whoever queued it
+  userId?: number | null;
+  // Set to false when asking again should produce something new, e.g. drafting questions
+  cache?: boolean;
+  // What the fake client answers with
+  fake: () => T;
+}
+
+export interface LlmRunResult<T> {
+  output: T;
+  model: string;
+  usage: LlmUsage;
+  cost_usd: number;
+  cached: boolean;
+  template_version: number;
+}
+
+const NO_USAGE: LlmUsage = { input_tokens: 0, output_tokens: 0 };
+
+let client: LlmClient | null = null;
+
+export class Llm {
+  static getClient(): LlmClient {
+    if (!client) {
+      client = createClient();
+    }
+    return client;
+  }
+
+  // Swap the client, e.g. for a FakeClient with canned answers in tests
+  static setClient(next: LlmClient): void {
+    client = next;
+  }
+
+  // Render the feature's live template and answer it, from the cache when the same request was made
+  // recently. The output is checked against the template's schema and every call is metered.
+  static async run<T = any>(feature: LlmFeature, options: LlmRunOptions<T>): Promise<LlmRunResult<T>> {
+    const llm = Llm.getClient();
+    const template = await getPromptTemplate(feature);
+    const prompt = renderPrompt(template.template, options.variables);
+
+    // Metering must never cost the caller its answer, or hide the error it is about to get
+    const meter = (outcome: LlmOutcome, model: string, usage: LlmUsage, cached = false) => LlmUsageModel.record({
+      user_id: options.userId,
+      feature,
+      client: llm.name,
+      model,
+      template_version: template.version,
+      ...usage,
+      cost_usd: usageCost(model, usage),
+      cached,
+      outcome
+    }).catch(error => console.error('Error recording LLM usage:', error));
+
+    // The fake client is free and its answers follow the code, so there is nothing worth keeping
+    const cacheable = options.cache !== false && CACHE_TTL_HOURS > 0 && llm.name !== 'fake';
+    const requestHash = createHash('sha256')
+      .update(JSON.stringify([llm.name, llm.model, feature, template.version, template.max_tokens, prompt]))
+      .digest('hex');
+
+    if (cacheable) {
+      const hit = await LlmResponseCacheModel.get(requestHash, CACHE_TTL_HOURS);
+      if (hit) {
+        await meter('ok', hit.model, NO_USAGE, true);
+        return {
+          output: parseOutput(hit.response, template),
+          model: hit.model,
+          usage: NO_USAGE,
+          cost_usd: 0,
+          cached: true,
+          template_version: template.version
+        };
+      }
+    }
+
+    let response: LlmResponse;
+    try {
+      response = await llm.complete({ prompt, maxTokens: template.max_tokens, fake: () => JSON.stringify(options.fake()) });
+    } catch (error) {
+      await meter('error', llm.model, NO_USAGE);
+      throw error;
+    }
+
+    const usage = { input_tokens: response.input_tokens, output_tokens: response.output_tokens };
+    let output: T;
+    try {
+      output = parseOutput(response.text, template);
+    } catch (error) {
+      await meter('invalid', response.model, usage);
+      throw error instanceof LlmOutputError ? new LlmOutputError(error.message, error.problems, response.model, usage) : error;
+    }
+    await meter('ok', response.model, usage);
+
+    if (cacheable) {
+      await LlmResponseCacheModel.put({ request_hash: requestHash, feature, model: response.model, response: response.text, ...usage });
+    }
+
+    return {
+      output,
+      model: response.model,
+      usage,
+      cost_usd: usageCost(response.model, usage),
+      cached: false,
+      template_version: template.version
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import nodemailer from 'nodemailer';
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message; pick one with MAIL_TRANSPORT
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'TOE Question Bank <no-reply@toeqbank.local>';
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined
+  });
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message to its own file, for development and for checking what would have been sent
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory = process.env.MAIL_FILE_DIR || 'mail-outbox') {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.eml`;
+    const contents = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text
+    ].join('\n');
+    await fs.promises.writeFile(path.join(this.directory, filename), contents, 'utf8');
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+const createTransport = (): MailTransport => {
+  const configured = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (configured) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport();
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      console.warn(`Unknown MAIL_TRANSPORT "${configured}", logging mail to the console instead`);
+      return new ConsoleTransport();
+  }
+};
+
+let transport: MailTransport | null = null;
+
+export class Mailer {
+  static getTransport(): MailTransport {
+    if (!transport) {
+      transport = createTransport();
+    }
+    return transport;
+  }
+
+  // Swap the transport, e.g. for a FileTransport in tests
+  static setTransport(next: MailTransport): void {
+    transport = next;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    await Mailer.getTransport().send({ ...message, from: MAIL_FROM });
+  }
+}
@@ -0,0 +1,232 @@
+import { Llm, LlmUsage } from './llm';
+import { describeQuestion, QuestionContext } from './prompts';
+
+export type GenerateMetadataRequest = QuestionContext;
+
+export interface GeneratedMetadata {
+  difficulty: string;
+  category: string;
+  topic: string;
+  keywords: string[];
+  questionType: string;
+  view?: string;
+  majorStructures: string[];
+  minorStructures: string[];
+  modalities: string[];
+}
+
+export interface MetadataResult {
+  metadata: GeneratedMetadata;
+  model: string;
+  usage: LlmUsage;
+}
+
+// Ask the configured LLM client; without an API key the fake client answers with the basic analysis
+export async function generateMetadata(questionData: GenerateMetadataRequest, userId?: number | null): Promise<MetadataResult> {
+  const response = await Llm.run<any>('question_metadata', {
+    variables: { question_context: describeQuestion(questionData) },
+    userId,
+    fake: () => generateFallbackMetadata(questionData)
+  });
+  const metadata = response.output;
+
+  // Validate and return the metadata
+  let keywords: string[] = [];
+  if (Array.isArray(metadata.keywords)) {
+    keywords = metadata.keywords;
+  } else if (typeof metadata.keywords === 'string') {
+    keywords = metadata.keywords.split(/[,;]/).map((k: string) => k.trim()).filter((k: string) => k.length > 0);
+  }
+
+  let majorStructures: string[] = [];
+  if (Array.isArray(metadata.majorStructures)) {
+    majorStructures = metadata.majorStructures;
+  }
+
+  let minorStructures: string[] = [];
+  if (Array.isArray(metadata.minorStructures)) {
+    minorStructures = metadata.minorStructures;
+  }
+
+  let modalities: string[] = [];
+  if (Array.isArray(metadata.modalities)) {
+    modalities = metadata.modalities;
+  }
+  
+  return {
+    model: response.model,
+    usage: response.usage,
+    metadata: {
+      difficulty: metadata.difficulty || 'Intermediate',
+      category: metadata.category || '2D Echocardiography',
+      topic: metadata.topic || 'General TEE Assessment',
+      keywords: keywords,
+      questionType: metadata.questionType || 'Multiple Choice',
+      view: metadata.view || undefined,
+      majorStructures: majorStructures,
+      minorStructures: minorStructures,
+      modalities: modalities
+    }
+  };
+}
+
+export function generateFallbackMetadata(questionData: GenerateMetadataRequest): GeneratedMetadata {
+  const questionText = questionData.question.toLowerCase();
+  const explanationText = questionData.explanation?.toLowerCase() || '';
+  
+  // Echocardiography-specific keyword extraction (excluding general terms)
+  const keywords: string[] = [];
+  const echoTerms = [
+    'transesophageal', 'echocardiography', 'echo', 
+    'doppler', 'color doppler', 'pulsed doppler', 'continuous wave',
+    'mitral valve', 'aortic valve', 'tricuspid valve', 'pulmonary valve',
+    'left ventricle', 'right ventricle', 'left atrium', 'right atrium',
+    'lvot', 'rvot', 'la appendage', 'transgastric', 'midesophageal',
+    'stenosis', 'regurgitation', 'prolapse', 'vegetation',
+    'strain', 'tissue doppler', 'e/a ratio', 'deceleration time',
+    'pulmonary vein', 'shunt', 'pfo', 'asd', 'vsd'
+  ];
+  
+  echoTerms.forEach(term => {
+    if (questionText.includes(term) || explanationText.includes(term)) {
+      let formattedTerm;
+      if (term.includes('/')) {
+        formattedTerm = term.toUpperCase();
+      } else {
+        formattedTerm = term.split(' ').map(word => 
+          word.charAt(0).toUpperCase() + word.slice(1)
+        ).join(' ');
+      }
+      keywords.push(formattedTerm);
+    }
+  });
+  
+  // Filter out general terms and limit to 5 keywords
+  let selectedKeywords = Array.from(new Set(keywords))
+    .filter(keyword => !['TEE', 'TTE', 'TOE', 'Tee', 'Tte', 'Toe'].includes(keyword))
+    .slice(0, 5);
+    
+  if (selectedKeywords.length === 0) {
+    selectedKeywords.push('Echocardiography');
+  }
+  
+  // Determine question type based on answer format
+  let questionType = 'Multiple Choice'; // Default for TOE exams
+  
+  // Check if it has multiple choice options
+  if (questionData.choice_a || questionData.choice_b || questionData.choice_c || questionData.choice_d || questionData.choice_e) {
+    questionType = 'Multiple Choice';
+  } else if (questionText.includes('true or false') || questionText.includes('t/f')) {
+    questionType = 'True/False';
+  } else if (questionText.includes('fill in') || questionText.includes('____') || questionText.includes('blank')) {
+    questionType = 'Fill-in-the-Blank';
+  } else if (questionText.includes('essay') || questionText.includes('explain in detail') || questionText.includes('discuss')) {
+    questionType = 'Essay';
+  } else if (questionText.includes('short answer') || questionText.includes('briefly')) {
+    questionType = 'Short Answer';
+  } else if (questionText.includes('match') && questionText.includes('column')) {
+    questionType = 'Matching';
+  }
+  
+  // Determine category based on imaging approach
+  let category = 'Transesophageal Echocardiography (TEE/TOE)'; // Default for TOE questions
+  
+  if (questionText.includes('transthoracic') || questionText.includes('tte') || 
+      questionText.includes('surface echo') || questionText.includes('chest wall')) {
+    category = 'Transthoracic Echocardiography (TTE)';
+  } else if (questionText.includes('transesophageal') || questionText.includes('tee') || 
+             questionText.includes('toe') || questionText.includes('esophageal') ||
+             questionText.includes('probe')) {
+    category = 'Transesophageal Echocardiography (TEE/TOE)';
+  }
+  
+  // Determine topic based on content
+  let topic = 'General TEE Assessment';
+  let view = undefined;
+  
+  if (questionText.includes('doppler')) {
+    topic = 'Doppler Evaluation';
+  } else if (questionText.includes('valve')) {
+    topic = 'Valve Evaluation';
+  } else if (questionText.includes('view') || questionText.includes('imaging')) {
+    topic = 'TEE Imaging Planes';
+  }
+
+  // Detect TEE view if mentioned
+  if (questionText.includes('midesophageal')) {
+    view = 'Midesophageal View';
+  } else if (questionText.includes('transgastric')) {
+    view = 'Transgastric View';
+  } else if (questionText.includes('upper esophageal')) {
+    view = 'Upper Esophageal View';
+  }
+
+  // Detect major structures
+  const majorStructures: string[] = [];
+  const majorStructureTerms = [
+    'left ventricle', 'right ventricle', 'left atrium', 'right atrium',
+    'mitral valve', 'aortic valve', 'tricuspid valve', 'pulmonary valve',
+    'aorta', 'pulmonary artery'
+  ];
+  
+  majorStructureTerms.forEach(term => {
+    if (questionText.includes(term) || explanationText.includes(term)) {
+      majorStructures.push(term.split(' ').map(word => 
+        word.charAt(0).toUpperCase() + word.slice(1)
+      ).join(' '));
+    }
+  });
+
+  // Detect minor structures
+  const minorStructures: string[] = [];
+  const minorStructureTerms = [
+    'lvot', 'rvot', 'chordae', 'papillary muscle', 'coronary sinus',
+    'pulmonary vein', 'interatrial septum', 'interventricular septum'
+  ];
+  
+  minorStructureTerms.forEach(term => {
+    if (questionText.includes(term) || explanationText.includes(term)) {
+      minorStructures.push(term.split(' ').map(word => 
+        word.charAt(0).toUpperCase() + word.slice(1)
+      ).join(' '));
+    }
+  });
+
+  // Detect modalities
+  const modalities: string[] = [];
+  const modalityTerms = [
+    '2d', 'color doppler', 'spectral doppler', 'tissue doppler',
+    '3d', 'contrast'
+  ];
+  
+  modalityTerms.forEach(term => {
+    if (questionText.includes(term) || explanationText.includes(term)) {
+      if (term === '2d') {
+        modalities.push('2D Imaging');
+      } else if (term === '3d') {
+        modalities.push('3D Echo');
+      } else {
+        modalities.push(term.split(' ').map(word => 
+          word.charAt(0).toUpperCase() + word.slice(1)
+        ).join(' '));
+      }
+    }
+  });
+
+  // Ensure at least one modality
+  if (modalities.length === 0) {
+    modalities.push('2D Imaging');
+  }
+  
+  return {
+    difficulty: 'Intermediate',
+    category: category,
+    topic: topic,
+    keywords: selectedKeywords,
+    questionType: questionType,
+    view: view,
+    majorStructures: Array.from(new Set(majorStructures)).slice(0, 3),
+    minorStructures: Array.from(new Set(minorStructures)).slice(0, 3),
+    modalities: Array.from(new Set(modalities))
+  };
+}
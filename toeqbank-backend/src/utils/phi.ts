@@ -0,0 +1,184 @@
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { createWorker, Worker, Line } from 'tesseract.js';
+import { ImageModel, PhiReason, PhiRegion } from '../models/Image';
+
+// A redaction editor has no business drawing more boxes than this
+export const MAX_REDACTION_REGIONS = 50;
+
+// Lines OCR is less sure of than this are mostly noise from the ultrasound sector
+const MIN_LINE_CONFIDENCE = 40;
+
+// Padding added around a flagged line so anti-aliased edges of the text are covered too
+const REGION_PADDING = 0.005;
+
+const JPEG_QUALITY = 95;
+
+// A scan taking longer than this is abandoned and left for the reviewer. tesseract.js never settles
+// createWorker() when the language data can't be fetched, so this is also what catches that.
+const OCR_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Checked in order; the first match names the reason
+const PHI_PATTERNS: { pattern: RegExp; reason: PhiReason }[] = [
+  // Labels that introduce patient details on most machines
+  { pattern: /\b(name|patient|pt)\s*[:.]/i, reason: 'name' },
+  { pattern: /\b(mrn|dob|d\.o\.b|nhs|urn|hosp(ital)?\s*(no|#)|acc(ession)?\s*(no|#)?|id)\s*[:#.]/i, reason: 'id' },
+  // DICOM style LAST^FIRST, "Surname, Given" and honorifics
+  { pattern: /\b[a-z]{2,}\^[a-z]{2,}/i, reason: 'name' },
+  { pattern: /\b[A-Z][a-z]+,\s*[A-Z][a-z]+\b/, reason: 'name' },
+  { pattern: /\b(mr|mrs|ms|miss|dr)\.?\s+[A-Z][a-z]+/, reason: 'name' },
+  // 12/03/2021, 2021-03-12, 12.03.21, 12 Mar 2021, Mar 12, 2021
+  { pattern: /\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/, reason: 'date' },
+  { pattern: /\b(19|20)\d{2}[/.-]\d{1,2}[/.-]\d{1,2}\b/, reason: 'date' },
+  { pattern: /\b\d{1,2}[\s-]?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s-]?\d{2,4}\b/i, reason: 'date' },
+  { pattern: /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\s+\d{1,2},?\s+\d{4}\b/i, reason: 'date' },
+  // Record and accession numbers; measurements like "17cm" or "72 bpm" are shorter than this
+  { pattern: /\b[a-z]{0,3}\d{6,}\b/i, reason: 'id' }
+];
+
+// Why a line of burned-in text looks like patient details, or null if it doesn't
+export const classifyText = (text: string): PhiReason | null => {
+  const match = PHI_PATTERNS.find(({ pattern }) => pattern.test(text));
+  return match ? match.reason : null;
+};
+
+// A still the server can read and rewrite; anything else has to be checked and fixed by hand
+export class PhiRedactionError extends Error {}
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel
+  data: Buffer;
+}
+
+const decode = (buffer: Buffer, mimeType: string): DecodedImage => {
+  if (mimeType === 'image/png') {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') {
+    const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+    return { width: decoded.width, height: decoded.height, data: Buffer.from(decoded.data) };
+  }
+  throw new PhiRedactionError('Only PNG and JPEG stills can be scanned and redacted here');
+};
+
+const encode = (image: DecodedImage, mimeType: string): Buffer => {
+  if (mimeType === 'image/png') {
+    const png = new PNG({ width: image.width, height: image.height });
+    image.data.copy(png.data);
+    return PNG.sync.write(png);
+  }
+  return jpeg.encode(image, JPEG_QUALITY).data;
+};
+
+export const canScanForPhi = (mimeType: string): boolean =>
+  ['image/png', 'image/jpeg', 'image/jpg'].includes(mimeType);
+
+// English language data is fetched from the tesseract.js CDN unless OCR_LANG_PATH points at a local copy
+const OCR_LANG_PATH = process.env.OCR_LANG_PATH;
+
+// One worker for the process; recognize() calls queue up on it
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', undefined, {
+      ...(OCR_LANG_PATH ? { langPath: OCR_LANG_PATH } : {}),
+      // Without a handler the worker throws job failures outside any promise and takes the server down
+      errorHandler: error => console.error('OCR worker error:', error)
+    }).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+const lineRegion = (line: Line, width: number, height: number, reason: PhiReason): PhiRegion => {
+  const x = Math.max(0, line.bbox.x0 / width - REGION_PADDING);
+  const y = Math.max(0, line.bbox.y0 / height - REGION_PADDING);
+  return {
+    x,
+    y,
+    width: Math.min(1, line.bbox.x1 / width + REGION_PADDING) - x,
+    height: Math.min(1, line.bbox.y1 / height + REGION_PADDING) - y,
+    reason
+  };
+};
+
+const recognizeLines = async (buffer: Buffer): Promise<Line[]> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(buffer);
+  return data.lines;
+};
+
+// OCR a still and return the lines that look like names, dates or ID numbers
+export const detectPhiRegions = async (buffer: Buffer, mimeType: string): Promise<PhiRegion[]> => {
+  const { width, height } = decode(buffer, mimeType);
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      // Start from a fresh worker next time in case this one is stuck
+      workerPromise = null;
+      reject(new Error(`OCR timed out after ${OCR_TIMEOUT_MS / 1000}s`));
+    }, OCR_TIMEOUT_MS);
+  });
+
+  let lines: Line[];
+  try {
+    lines = await Promise.race([recognizeLines(buffer), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return lines
+    .filter(line => line.confidence >= MIN_LINE_CONFIDENCE)
+    .flatMap(line => {
+      const reason = classifyText(line.text);
+      return reason ? [lineRegion(line, width, height, reason)] : [];
+    });
+};
+
+// Black out the regions and re-encode in the same format. Re-encoding also drops any EXIF/text chunks.
+export const redactImage = (buffer: Buffer, mimeType: string, regions: PhiRegion[]): Buffer => {
+  const image = decode(buffer, mimeType);
+
+  for (const region of regions) {
+    const x0 = Math.max(0, Math.floor(region.x * image.width));
+    const y0 = Math.max(0, Math.floor(region.y * image.height));
+    const x1 = Math.min(image.width, Math.ceil((region.x + region.width) * image.width));
+    const y1 = Math.min(image.height, Math.ceil((region.y + region.height) * image.height));
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const offset = (y * image.width + x) * 4;
+        image.data[offset] = 0;
+        image.data[offset + 1] = 0;
+        image.data[offset + 2] = 0;
+        image.data[offset + 3] = 255;
+      }
+    }
+  }
+
+  return encode(image, mimeType);
+};
+
+// Run after the upload has been answered. A failed scan leaves the image for a reviewer to check by eye.
+// The result is only recorded if the image still has the file that was scanned.
+export const scanImageForPhi = async (image: { id?: number; filename: string }, buffer: Buffer, mimeType: string): Promise<void> => {
+  const imageId = image.id!;
+  try {
+    const regions = await detectPhiRegions(buffer, mimeType);
+    await ImageModel.setPhiScan(imageId, image.filename, regions.length > 0 ? 'flagged' : 'clear', regions);
+  } catch (error) {
+    console.error('PHI scan failed for image', imageId, error);
+    try {
+      await ImageModel.setPhiScan(imageId, image.filename, 'unscanned', []);
+    } catch (updateError) {
+      console.error('Failed to record PHI scan failure for image', imageId, updateError);
+    }
+  }
+};
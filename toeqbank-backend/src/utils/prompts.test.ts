@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderPrompt, templateVariables } from './prompts';
+
+test('renderPrompt fills every occurrence of a placeholder', () => {
+  assert.equal(
+    renderPrompt('Write {{count}} {{question_noun}}. Exactly {{count}}.', { count: 2, question_noun: 'questions' }),
+    'Write 2 questions. Exactly 2.'
+  );
+});
+
+test('renderPrompt blanks placeholders it has no value for', () => {
+  assert.equal(renderPrompt('Image: {{image_details}}|{{unknown}}|', { image_details: 'A4C' }), 'Image: A4C||');
+});
+
+test('templateVariables lists each placeholder once', () => {
+  assert.deepEqual(templateVariables('{{count}} {{question_noun}} for {{count}}'), ['count', 'question_noun']);
+});
@@ -0,0 +1,217 @@
+import { JsonSchema } from './jsonSchema';
+
+export type LlmFeature = 'question_metadata' | 'exam_assignment' | 'image_questions';
+
+// The prompt a feature starts with. It is stored as version 1 the first time the feature runs; after
+// that the database copy is what gets used, so editing these only affects a fresh database.
+export interface PromptDefinition {
+  description: string;
+  // Placeholder name -> what the caller fills it with; templates write them as {{name}}
+  variables: Record<string, string>;
+  template: string;
+  output_schema: JsonSchema;
+  max_tokens: number;
+}
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+export const DEFAULT_PROMPTS: Record<LlmFeature, PromptDefinition> = {
+  question_metadata: {
+    description: 'Difficulty, topic, keywords, view and structures for a question',
+    variables: {
+      question_context: 'The stem, choices, correct answer and explanation'
+    },
+    max_tokens: 1000,
+    output_schema: {
+      type: 'object',
+      required: ['difficulty', 'category', 'topic', 'keywords'],
+      properties: {
+        difficulty: { type: 'string' },
+        category: { type: 'string' },
+        topic: { type: 'string' },
+        keywords: { type: ['array', 'string'] },
+        questionType: { type: 'string' },
+        view: { type: ['string', 'null'] },
+        majorStructures: stringList,
+        minorStructures: stringList,
+        modalities: stringList
+      }
+    },
+    template: `You are a board-certified cardiologist and expert in Transesophageal Echocardiography (TEE) who specializes in medical education and examination systems.
+
+Analyze the following TEE/echocardiography exam question and generate ONLY echocardiography-specific metadata:
+
+{{question_context}}
+
+Based on this question, provide metadata focused EXCLUSIVELY on echocardiography concepts in the following JSON format:
+
+{
+  "difficulty": "Beginner|Intermediate|Advanced",
+  "category": "Transthoracic Echocardiography (TTE)|Transesophageal Echocardiography (TEE/TOE)",
+  "topic": "Specific TEE/echo topic",
+  "keywords": ["keyword1", "keyword2", "keyword3", "keyword4", "keyword5"],
+  "questionType": "Multiple Choice|Short Answer|Essay|Fill-in-the-Blank|Matching|True/False|Constructed Response|Performance Tasks|Grid-in|Student-Produced Response|Authentic Assessment|Free Response",
+  "view": "TEE view name (if applicable)",
+  "majorStructures": ["major cardiac structure1", "major cardiac structure2"],
+  "minorStructures": ["minor cardiac structure1", "minor cardiac structure2"],
+  "modalities": ["imaging modality1", "imaging modality2"]
+}
+
+STRICT Guidelines for echocardiography focus:
+- Difficulty: Based on TEE/echo complexity (Basic TEE concepts = Beginner, Advanced pathophysiology = Advanced)
+- Category: Must be either "Transthoracic Echocardiography (TTE)" or "Transesophageal Echocardiography (TEE/TOE)" based on the imaging approach used in the question
+- Topic: Specific echo areas ONLY (e.g., "Mitral Valve TEE Assessment", "Left Atrial Appendage Imaging", "Aortic Stenosis Quantification", "Pulmonary Vein Assessment", "Intracardiac Shunts")
+- Keywords: ONLY specific echocardiography terms as separate array items (e.g., ["Transgastric View", "Color Doppler", "LVOT", "Mitral Regurgitation"]). Each keyword must be a separate string in the array. Do NOT include general terms like "TEE", "TTE", or "TOE" as keywords.
+- Question type: Identify the ANSWER FORMAT based on how the student responds. If choices A, B, C, D, E are provided, it's "Multiple Choice". Look for answer format indicators like: fill-in blanks (__), true/false options, essay prompts, matching columns, constructed response requirements, etc. Multiple Choice takes precedence over content-based classifications.
+- View: TEE view name if question involves specific imaging planes (e.g., "Midesophageal Four-Chamber", "Transgastric Short Axis", "Upper Esophageal Aortic Arch", "Deep Transgastric Long Axis"). Leave empty if not view-specific.
+- Major Structures: Primary cardiac structures discussed (e.g., ["Left Ventricle", "Mitral Valve", "Aorta", "Left Atrium", "Right Ventricle", "Tricuspid Valve", "Pulmonary Artery"])
+- Minor Structures: Secondary cardiac structures or detailed components (e.g., ["LVOT", "Chordae Tendineae", "Papillary Muscles", "Coronary Sinus", "Pulmonary Veins", "Interatrial Septum"])
+- Modalities: Imaging techniques used (e.g., ["2D Imaging", "Color Doppler", "Spectral Doppler", "Tissue Doppler", "3D Echo", "Contrast Echo"])
+
+Do NOT include general cardiology, internal medicine, or non-echo specific terms. Focus ONLY on echocardiography concepts, techniques, views, measurements, and pathology assessment.
+
+Respond only with the JSON object, no additional text.`
+  },
+
+  exam_assignment: {
+    description: 'Which exams a question suits and the syllabus subtopics it covers',
+    variables: {
+      question_context: 'The stem, choices, correct answer and explanation',
+      exam_syllabi: 'The active blueprints as a JSON outline of sections and subtopics',
+      exam_names: 'The active exam names, comma separated',
+      example_response: 'An example of the expected JSON with one entry per exam'
+    },
+    max_tokens: 1000,
+    output_schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['examName', 'subtopics'],
+        properties: {
+          examName: { type: 'string', minLength: 1 },
+          subtopics: stringList,
+          reasoning: { type: 'string' }
+        }
+      }
+    },
+    template: `You are an expert in echocardiography and TEE education who specializes in exam curriculum mapping.
+
+Analyze the following TEE/echocardiography question and assign it to appropriate exam syllabi with specific subtopics:
+
+{{question_context}}
+
+Available Exam Syllabi:
+{{exam_syllabi}}
+
+Based on this question's content, determine which exams ({{exam_names}}) this question is suitable for and identify the specific subtopics within each exam that this question addresses.
+
+Most questions will be applicable to several exams but may map to different subtopic areas within each syllabus.
+
+Provide your response in the following JSON format:
+
+{{example_response}}
+
+Guidelines:
+- Only include exams where the question is truly relevant
+- Select 1-3 most relevant subtopics per exam (be specific, don't overassign)
+- Subtopics must exactly match those listed in the exam syllabi (use the exact text, not the section numbers)
+- Provide brief reasoning for each exam assignment
+- Focus on the core concepts being tested in the question
+- Consider both the question content AND the explanation when making assignments
+
+Respond only with the JSON array, no additional text.`
+  },
+
+  image_questions: {
+    description: 'Single-best-answer questions drafted from an image description',
+    variables: {
+      image_details: 'Image type, modality, view, description and tags, one per line',
+      count: 'How many questions to write',
+      question_noun: '"question" or "questions" to match the count'
+    },
+    // Enough for the most questions one image may be asked for
+    max_tokens: 3600,
+    // Incomplete questions are dropped one by one rather than failing the whole response
+    output_schema: {
+      type: 'object',
+      required: ['questions'],
+      properties: {
+        questions: { type: 'array', items: { type: 'object' } }
+      }
+    },
+    template: `You are a board-certified cardiologist and expert in echocardiography who writes questions for board examinations.
+
+You cannot see the image itself. It has been described by the contributor who uploaded it:
+
+{{image_details}}
+
+Write {{count}} single-best-answer {{question_noun}} that a candidate would answer while looking at this image. Each question must:
+- Be answerable from what the image shows, as described above; do not invent findings the description doesn't support
+- Have exactly five answer choices (A to E) with exactly one correct answer and plausible distractors
+- Have an explanation of why the correct answer is right and why each distractor is wrong
+- Not mention the description, the tags or the filename
+
+Respond with JSON in exactly this format:
+
+{
+  "questions": [
+    {
+      "question": "Question stem",
+      "choices": { "A": "...", "B": "...", "C": "...", "D": "...", "E": "..." },
+      "correct_answer": "A",
+      "explanation": "Explanation"
+    }
+  ]
+}
+
+Respond only with the JSON object, no additional text.`
+  }
+};
+
+export const LLM_FEATURES = Object.keys(DEFAULT_PROMPTS) as LlmFeature[];
+
+export const isLlmFeature = (value: string): value is LlmFeature => (LLM_FEATURES as string[]).includes(value);
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// The placeholder names a template uses
+export const templateVariables = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1])));
+
+export const renderPrompt = (template: string, variables: Record<string, string | number>): string =>
+  template.replace(PLACEHOLDER, (_, name: string) => variables[name] === undefined ? '' : String(variables[name]));
+
+// What the metadata and exam prompts are told about a question
+export interface QuestionContext {
+  question: string;
+  choice_a?: string;
+  choice_b?: string;
+  choice_c?: string;
+  choice_d?: string;
+  choice_e?: string;
+  correct_answer: string;
+  explanation?: string;
+  imageCount?: number;
+}
+
+export const describeQuestion = (questionData: QuestionContext): string => {
+  let questionContext = `Question: ${questionData.question}\n\n`;
+
+  if (questionData.choice_a) questionContext += `A) ${questionData.choice_a}\n`;
+  if (questionData.choice_b) questionContext += `B) ${questionData.choice_b}\n`;
+  if (questionData.choice_c) questionContext += `C) ${questionData.choice_c}\n`;
+  if (questionData.choice_d) questionContext += `D) ${questionData.choice_d}\n`;
+  if (questionData.choice_e) questionContext += `E) ${questionData.choice_e}\n`;
+
+  questionContext += `\nCorrect Answer: ${questionData.correct_answer}\n`;
+
+  if (questionData.explanation) {
+    questionContext += `\nExplanation: ${questionData.explanation}\n`;
+  }
+
+  if (questionData.imageCount && questionData.imageCount > 0) {
+    questionContext += `\nThis question includes ${questionData.imageCount} image(s) that are relevant to the medical context.\n`;
+  }
+
+  return questionContext;
+};
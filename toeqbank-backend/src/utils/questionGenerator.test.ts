@@ -0,0 +1,127 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GenerationImage, MAX_QUESTIONS_PER_IMAGE, generateQuestions, parseDrafts } from './questionGenerator';
+import { FakeClient, Llm, invalidatePromptTemplates } from './llm';
+import { DEFAULT_PROMPTS } from './prompts';
+import { AIGenerationRun, AIGenerationRunModel, AIGenerationFailure, QuestionDraft } from '../models/AIGenerationRun';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { LlmUsageModel } from '../models/LlmUsage';
+
+const choices = { A: 'ME four-chamber', B: 'ME two-chamber', C: 'TG mid-papillary', D: 'ME AV short axis', E: 'UE aortic arch' };
+
+const complete = (stem: string) => ({ question: stem, choices, correct_answer: 'a', explanation: 'Four chambers are seen' });
+
+const image: GenerationImage = {
+  id: 12,
+  filename: 'me4c.png',
+  image_type: 'still',
+  exam_category: 'echocardiography',
+  exam_type: 'eacvi_toe',
+  description: 'Midesophageal four-chamber view',
+  tags: ['mitral'],
+  modality: 'transesophageal',
+  echo_view: 'ME four-chamber'
+};
+
+// No database here: the run is kept in memory and the drafts it would save are recorded
+let usage: number[][] = [];
+let saved: { imageId: number; drafts: QuestionDraft[] }[] = [];
+let finished: { status: string; failures: AIGenerationFailure[] } | null = null;
+
+PromptTemplateModel.findActive = async () => ({
+  id: 1,
+  feature: 'image_questions',
+  version: 1,
+  template: DEFAULT_PROMPTS.image_questions.template,
+  output_schema: DEFAULT_PROMPTS.image_questions.output_schema,
+  max_tokens: DEFAULT_PROMPTS.image_questions.max_tokens,
+  is_active: true,
+  created_at: new Date()
+});
+LlmUsageModel.record = async () => {};
+AIGenerationRunModel.start = async () => ({ id: 3 } as AIGenerationRun);
+AIGenerationRunModel.addUsage = async (runId, inputTokens, outputTokens, costUsd) => { usage.push([runId, inputTokens, outputTokens, costUsd]); };
+AIGenerationRunModel.saveDrafts = async (runId, imageId, drafts) => {
+  saved.push({ imageId, drafts });
+  return drafts.map((draft, index) => ({ ...draft, id: 100 + index, source_image_id: imageId } as any));
+};
+AIGenerationRunModel.finish = async (runId, status, failures) => {
+  finished = { status, failures };
+  return { id: runId, status, failures } as AIGenerationRun;
+};
+
+beforeEach(() => {
+  usage = [];
+  saved = [];
+  finished = null;
+  invalidatePromptTemplates();
+  Llm.setClient(new FakeClient());
+});
+
+test('parseDrafts keeps complete questions, trimmed and with an upper-case answer', () => {
+  assert.deepEqual(parseDrafts({ questions: [complete('  Which view is shown?  ')] }), [{
+    question: 'Which view is shown?',
+    correct_answer: 'A',
+    explanation: 'Four chambers are seen',
+    choice_a: 'ME four-chamber',
+    choice_b: 'ME two-chamber',
+    choice_c: 'TG mid-papillary',
+    choice_d: 'ME AV short axis',
+    choice_e: 'UE aortic arch'
+  }]);
+});
+
+test('parseDrafts drops incomplete drafts and answers outside A to E', () => {
+  const drafts = parseDrafts([
+    complete('Kept'),
+    { ...complete('No explanation'), explanation: ' ' },
+    { ...complete(''), question: '' },
+    { ...complete('Four choices'), choices: { ...choices, E: undefined } },
+    { ...complete('Blank choice'), choices: { ...choices, C: '  ' } },
+    { ...complete('Answer F'), correct_answer: 'F' },
+    { ...complete('No answer'), correct_answer: undefined },
+    null,
+    'Which view is shown?'
+  ]);
+
+  assert.deepEqual(drafts.map(draft => draft.question), ['Kept']);
+});
+
+test('parseDrafts finds nothing in a response without a question list', () => {
+  assert.deepEqual(parseDrafts({ question: 'Which view?' }), []);
+  assert.deepEqual(parseDrafts(null), []);
+});
+
+test('generateQuestions saves no more drafts per image than were asked for', async () => {
+  Llm.setClient(new FakeClient(() => JSON.stringify({
+    questions: Array.from({ length: MAX_QUESTIONS_PER_IMAGE + 2 }, (_, index) => complete(`Question ${index + 1}`))
+  })));
+
+  const { questions } = await generateQuestions(5, [image], 2);
+
+  assert.deepEqual(saved.map(entry => [entry.imageId, entry.drafts.map(draft => draft.question)]), [[12, ['Question 1', 'Question 2']]]);
+  assert.equal(questions.length, 2);
+  assert.deepEqual(finished, { status: 'completed', failures: [] });
+});
+
+test('generateQuestions asks the fake client for the requested number of drafts', async () => {
+  const { questions } = await generateQuestions(5, [image], MAX_QUESTIONS_PER_IMAGE);
+
+  assert.equal(questions.length, MAX_QUESTIONS_PER_IMAGE);
+  assert.ok(questions.every(question => question.source_image_id === 12 && question.correct_answer === 'A'));
+  assert.equal(usage.length, 1);
+});
+
+test('generateQuestions charges the run for an answer that breaks the schema', async () => {
+  Llm.setClient(new FakeClient(() => '{"drafts": []}'));
+
+  const { questions } = await generateQuestions(5, [image], 1);
+
+  assert.equal(questions.length, 0);
+  assert.equal(saved.length, 0);
+  assert.equal(usage.length, 1);
+  assert.equal(usage[0][0], 3);
+  assert.ok(usage[0][1] > 0 && usage[0][2] > 0);
+  assert.equal(finished?.status, 'failed');
+  assert.match(finished!.failures[0].error, /did not match its schema/);
+});
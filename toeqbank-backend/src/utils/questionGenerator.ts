@@ -0,0 +1,128 @@
+import { Image } from '../models/Image';
+import { AIGenerationRun, AIGenerationRunModel, AIGenerationFailure, GeneratedQuestion, QuestionDraft } from '../models/AIGenerationRun';
+import { Llm, LlmOutputError, usageCost } from './llm';
+
+export type ImageModality = 'transthoracic' | 'transesophageal' | 'non-echo';
+
+export const IMAGE_MODALITIES: ImageModality[] = ['transthoracic', 'transesophageal', 'non-echo'];
+
+export const MAX_QUESTIONS_PER_IMAGE = 3;
+
+// What the model is told about an image. Modality and view are saved as tags at upload, so the
+// caller may send them separately or leave them to be read back from the tags.
+export interface GenerationImage extends Pick<Image, 'filename' | 'image_type' | 'exam_category' | 'exam_type'> {
+  id: number;
+  description?: string | null;
+  tags: string[];
+  modality?: ImageModality | null;
+  echo_view?: string | null;
+}
+
+const CHOICE_LETTERS = ['A', 'B', 'C', 'D', 'E'] as const;
+
+const choiceKey = (letter: string) => `choice_${letter.toLowerCase()}` as 'choice_a' | 'choice_b' | 'choice_c' | 'choice_d' | 'choice_e';
+
+const MODALITY_NAMES: Record<ImageModality, string> = {
+  transthoracic: 'Transthoracic echocardiography (TTE)',
+  transesophageal: 'Transesophageal echocardiography (TEE/TOE)',
+  'non-echo': 'Non-echo imaging'
+};
+
+const describeImage = (image: GenerationImage): string => [
+  `Image type: ${image.image_type === 'cine' ? 'cine clip' : 'still image'}`,
+  image.modality ? `Modality: ${MODALITY_NAMES[image.modality]}` : null,
+  image.echo_view ? `View: ${image.echo_view}` : null,
+  image.description ? `Description: ${image.description}` : null,
+  image.tags.length > 0 ? `Tags: ${image.tags.join(', ')}` : null
+].filter(Boolean).join('\n');
+
+// Anything that isn't a complete single-best-answer question is dropped rather than stored half-formed
+export const parseDrafts = (parsed: any): QuestionDraft[] => {
+  const candidates: any[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.questions) ? parsed.questions : [];
+
+  return candidates.flatMap(candidate => {
+    const stem = typeof candidate?.question === 'string' ? candidate.question.trim() : '';
+    const explanation = typeof candidate?.explanation === 'string' ? candidate.explanation.trim() : '';
+    const correct = typeof candidate?.correct_answer === 'string' ? candidate.correct_answer.trim().toUpperCase() : '';
+    const choices = candidate?.choices || {};
+    const missingChoice = CHOICE_LETTERS.some(letter => typeof choices[letter] !== 'string' || !choices[letter].trim());
+
+    if (!stem || !explanation || missingChoice || !CHOICE_LETTERS.includes(correct as any)) {
+      return [];
+    }
+
+    const draft: QuestionDraft = { question: stem, correct_answer: correct, explanation };
+    for (const letter of CHOICE_LETTERS) {
+      draft[choiceKey(letter)] = choices[letter].trim();
+    }
+    return [draft];
+  });
+};
+
+// Deterministic drafts for the fake client, built from the same details the prompt carries
+const fakeResponse = (image: GenerationImage, count: number) => () => ({
+  questions: Array.from({ length: count }, (_, index) => ({
+    question: `[Draft ${index + 1}] Which view is shown in this ${image.image_type === 'cine' ? 'clip' : 'image'}?`,
+    choices: {
+      A: image.echo_view || 'Midesophageal four-chamber',
+      B: 'Midesophageal two-chamber',
+      C: 'Transgastric mid-papillary short axis',
+      D: 'Midesophageal aortic valve short axis',
+      E: 'Upper esophageal aortic arch long axis'
+    },
+    correct_answer: 'A',
+    explanation: `Generated offline by the fake client from the description: ${image.description || image.filename}`
+  }))
+});
+
+export const generateQuestions = async (
+  requestedBy: number,
+  images: GenerationImage[],
+  questionsPerImage: number
+): Promise<{ run: AIGenerationRun; questions: GeneratedQuestion[] }> => {
+  const client = Llm.getClient();
+  const run = await AIGenerationRunModel.start(requestedBy, client.name, client.model, images.map(image => image.id), questionsPerImage);
+  const questions: GeneratedQuestion[] = [];
+  const failures: AIGenerationFailure[] = [];
+
+  // One call per image keeps every question tied to the image it was written for
+  for (const image of images) {
+    try {
+      // Asking again should give new drafts, so these calls skip the response cache
+      const response = await Llm.run('image_questions', {
+        variables: {
+          image_details: describeImage(image),
+          count: questionsPerImage,
+          question_noun: questionsPerImage === 1 ? 'question' : 'questions'
+        },
+        userId: requestedBy,
+        cache: false,
+        fake: fakeResponse(image, questionsPerImage)
+      });
+      await AIGenerationRunModel.addUsage(run.id, response.usage.input_tokens, response.usage.output_tokens, response.cost_usd);
+
+      const drafts = parseDrafts(response.output).slice(0, questionsPerImage);
+      if (drafts.length === 0) {
+        failures.push({ image_id: image.id, error: 'The response contained no complete questions' });
+        continue;
+      }
+
+      questions.push(...await AIGenerationRunModel.saveDrafts(run.id, image.id, drafts, {
+        uploaded_by: requestedBy,
+        exam_category: image.exam_category,
+        exam_type: image.exam_type
+      }));
+    } catch (error) {
+      if (error instanceof LlmOutputError && error.model) {
+        // The answer didn't fit the schema but was still paid for
+        await AIGenerationRunModel.addUsage(run.id, error.usage.input_tokens, error.usage.output_tokens, usageCost(error.model, error.usage))
+          .catch(usageError => console.error(`Error recording usage for AI generation run ${run.id}:`, usageError));
+      }
+      console.error(`Question generation failed for image ${image.id}:`, error);
+      failures.push({ image_id: image.id, error: error instanceof Error ? error.message : 'Generation failed' });
+    }
+  }
+
+  const finished = await AIGenerationRunModel.finish(run.id, questions.length > 0 ? 'completed' : 'failed', failures);
+  return { run: finished, questions };
+};
@@ -90,6 +90,23 @@ export class StorageService {
     }
   }
 
+  /**
+   * Download a file from DigitalOcean Spaces
+   */
+  static async downloadFile(filename: string): Promise<Buffer> {
+    try {
+      const command = new GetObjectCommand({ Bucket: BUCKET_NAME, Key: filename });
+      const response = await s3Client.send(command);
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      console.error('Spaces download error:', error);
+      throw new Error(`Failed to download from DigitalOcean Spaces: ${error}`);
+    }
+  }
+
   /**
    * Get the public URL for a file
    */
@@ -3,6 +3,7 @@ import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import './App.css';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import ProtectedRoute from './components/ProtectedRoute';
+import NotificationBell from './components/NotificationBell';
 import QuestionReview from './pages/QuestionReview';
 import PracticeTest from './pages/PracticeTest';
 import FileUpload from './components/FileUpload';
@@ -16,13 +17,23 @@ import ReviewImages from './pages/ReviewImages';
 import MyReturnedQuestions from './pages/MyReturnedQuestions';
 import BatchManagement from './pages/BatchManagement';
 import BatchDetails from './pages/BatchDetails';
+import PracticeTestManagement from './pages/PracticeTestManagement';
+import ReviewConsensus from './pages/ReviewConsensus';
+import ReviewerWorkload from './pages/ReviewerWorkload';
+import ReviewRubric from './pages/ReviewRubric';
+import ExamBlueprints from './pages/ExamBlueprints';
+import BlueprintCoverage from './pages/BlueprintCoverage';
+import PracticeTestEditor from './pages/PracticeTestEditor';
 import AdminDashboard from './pages/AdminDashboard';
 import AIManipulation from './pages/AIManipulation';
+import AIPrompts from './pages/AIPrompts';
 import AIGenerateQuestions from './pages/AIGenerateQuestions';
 import GenerateQuestionsFromImages from './pages/GenerateQuestionsFromImages';
 import ImageView from './pages/ImageView';
 import UserSettings from './pages/UserSettings';
 import MyContributions from './pages/MyContributions';
+import MyProgress from './pages/MyProgress';
+import SpacedReview from './pages/SpacedReview';
 import api from './services/api';
 import packageJson from '../package.json';
 
@@ -148,6 +159,7 @@ const AppContent: React.FC = () => {
                 </div>
                 
                 <Link to="/practice">Question Bank</Link>
+                <Link to="/daily-review">Daily Review</Link>
               </>
             )}
             
@@ -213,6 +225,13 @@ const AppContent: React.FC = () => {
                       <span className="nav-dropdown-description">Manage upload batches and bulk operations</span>
                     </div>
                   </Link>
+                  <Link to="/admin/practice-tests" className="nav-dropdown-item">
+                    <span className="nav-dropdown-icon">📋</span>
+                    <div className="nav-dropdown-content">
+                      <span className="nav-dropdown-title">Practice Tests</span>
+                      <span className="nav-dropdown-description">Curate and publish named practice tests</span>
+                    </div>
+                  </Link>
                   <Link to="/admin/ai" className="nav-dropdown-item">
                     <span className="nav-dropdown-icon">🤖</span>
                     <div className="nav-dropdown-content">
@@ -225,6 +244,7 @@ const AppContent: React.FC = () => {
             )}
           </div>
           <div className="nav-user">
+            <NotificationBell />
             <div className="nav-dropdown">
               <span className="nav-dropdown-trigger">
                 {user?.username}
@@ -233,6 +253,16 @@ const AppContent: React.FC = () => {
                 </svg>
               </span>
               <div className="nav-dropdown-menu">
+                <Link 
+                  to="/my-progress" 
+                  className="nav-dropdown-item"
+                >
+                  <span className="nav-dropdown-icon">📈</span>
+                  <div className="nav-dropdown-content">
+                    <span className="nav-dropdown-title">My Progress</span>
+                    <span className="nav-dropdown-description">Accuracy by topic and areas to study</span>
+                  </div>
+                </Link>
                 <Link 
                   to="/my-contributions" 
                   className="nav-dropdown-item"
@@ -273,6 +303,7 @@ const AppContent: React.FC = () => {
         <Routes>
           <Route path="/" element={<ProtectedRoute><QuestionReview /></ProtectedRoute>} />
           <Route path="/practice" element={<ProtectedRoute><PracticeTest /></ProtectedRoute>} />
+          <Route path="/daily-review" element={<ProtectedRoute><SpacedReview /></ProtectedRoute>} />
           <Route path="/create-question" element={<ProtectedRoute><QuestionEditor /></ProtectedRoute>} />
           <Route path="/edit-question/:id" element={<ProtectedRoute><QuestionEditor /></ProtectedRoute>} />
           <Route path="/question/:id" element={<ProtectedRoute><QuestionView /></ProtectedRoute>} />
@@ -286,10 +317,19 @@ const AppContent: React.FC = () => {
           <Route path="/admin/users" element={<ProtectedRoute><AdminUserPanel /></ProtectedRoute>} />
           <Route path="/admin/batches" element={<ProtectedRoute><BatchManagement /></ProtectedRoute>} />
           <Route path="/admin/batches/:id" element={<ProtectedRoute><BatchDetails /></ProtectedRoute>} />
+          <Route path="/admin/review-consensus" element={<ProtectedRoute><ReviewConsensus /></ProtectedRoute>} />
+          <Route path="/admin/reviewer-workload" element={<ProtectedRoute><ReviewerWorkload /></ProtectedRoute>} />
+          <Route path="/admin/review-rubric" element={<ProtectedRoute><ReviewRubric /></ProtectedRoute>} />
+          <Route path="/admin/exam-blueprints" element={<ProtectedRoute><ExamBlueprints /></ProtectedRoute>} />
+          <Route path="/admin/blueprint-coverage" element={<ProtectedRoute><BlueprintCoverage /></ProtectedRoute>} />
+          <Route path="/admin/practice-tests" element={<ProtectedRoute><PracticeTestManagement /></ProtectedRoute>} />
+          <Route path="/admin/practice-tests/:id" element={<ProtectedRoute><PracticeTestEditor /></ProtectedRoute>} />
           <Route path="/admin/ai" element={<ProtectedRoute><AIManipulation /></ProtectedRoute>} />
+          <Route path="/admin/ai/prompts" element={<ProtectedRoute><AIPrompts /></ProtectedRoute>} />
           <Route path="/ai-generate-questions" element={<ProtectedRoute><AIGenerateQuestions /></ProtectedRoute>} />
           <Route path="/generate-questions-from-images" element={<ProtectedRoute><GenerateQuestionsFromImages /></ProtectedRoute>} />
           <Route path="/image/:id" element={<ProtectedRoute><ImageView /></ProtectedRoute>} />
+          <Route path="/my-progress" element={<ProtectedRoute><MyProgress /></ProtectedRoute>} />
           <Route path="/settings" element={<ProtectedRoute><UserSettings /></ProtectedRoute>} />
           <Route path="/my-contributions" element={<MyContributions />} />
         </Routes>
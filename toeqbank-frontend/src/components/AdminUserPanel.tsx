@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { adminService, AdminUser, CreateUserData } from '../services/adminApi';
 import { useAuth } from '../contexts/AuthContext';
+import { examRegistryService, ExamRegistry } from '../services/examRegistryApi';
 
 interface CreateUserFormData extends CreateUserData {
   confirmPassword: string;
@@ -42,6 +43,14 @@ const AdminUserPanel: React.FC = () => {
   });
   const [showPasswordReset, setShowPasswordReset] = useState(false);
 
+  const [examRegistry, setExamRegistry] = useState<ExamRegistry | null>(null);
+
+  useEffect(() => {
+    examRegistryService.getRegistry()
+      .then(setExamRegistry)
+      .catch(err => console.error('Error loading exams:', err));
+  }, []);
+
   useEffect(() => {
     if (isAdmin) {
       loadUsers();
@@ -429,18 +438,14 @@ const AdminUserPanel: React.FC = () => {
                     value={createForm.exam_category}
                     onChange={(e) => {
                       const newCategory = e.target.value;
-                      let newExamType = '';
-                      if (newCategory === 'echocardiography') {
-                        newExamType = 'eacvi_toe';
-                      } else if (newCategory === 'usmle') {
-                        newExamType = 'step1';
-                      }
+                      const newExamType = examRegistry?.types.find(type => type.category_code === newCategory)?.code || '';
                       setCreateForm({...createForm, exam_category: newCategory, exam_type: newExamType});
                     }}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
-                    <option value="echocardiography">Echocardiography</option>
-                    <option value="usmle">USMLE</option>
+                    {(examRegistry?.categories || []).map(category => (
+                      <option key={category.code} value={category.code}>{category.name}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -455,18 +460,11 @@ const AdminUserPanel: React.FC = () => {
                     disabled={!createForm.exam_category}
                   >
                     <option value="">None</option>
-                    {createForm.exam_category === 'echocardiography' ? (
-                      <>
-                        <option value="eacvi_toe">EACVI TOE (Advance PTEeXAM)</option>
-                        <option value="tte">TTE</option>
-                      </>
-                    ) : createForm.exam_category === 'usmle' ? (
-                      <>
-                        <option value="step1">Step 1</option>
-                        <option value="step2">Step 2</option>
-                        <option value="step3">Step 3</option>
-                      </>
-                    ) : null}
+                    {(examRegistry?.types || [])
+                      .filter(type => type.category_code === createForm.exam_category)
+                      .map(type => (
+                        <option key={type.code} value={type.code}>{type.name}</option>
+                      ))}
                   </select>
                 </div>
               </div>
@@ -0,0 +1,102 @@
+import React from 'react';
+import { AnnotationShape } from '../types';
+
+interface AnnotationOverlayProps {
+  shapes: AnnotationShape[];
+  // Width / height of the image underneath, so circles stay round and text isn't stretched
+  aspectRatio: number;
+  // Makes shapes clickable, e.g. to erase them in the editor
+  onShapeClick?: (index: number) => void;
+}
+
+// Drawing units across the image's width; the height follows the aspect ratio
+const VIEW_WIDTH = 1000;
+const STROKE_WIDTH = 6;
+const ARROW_HEAD_LENGTH = 30;
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+const LABEL_FONT_SIZE = 34;
+
+const arrowHead = (x1: number, y1: number, x2: number, y2: number) => {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const left = [
+    x2 - ARROW_HEAD_LENGTH * Math.cos(angle - ARROW_HEAD_ANGLE),
+    y2 - ARROW_HEAD_LENGTH * Math.sin(angle - ARROW_HEAD_ANGLE)
+  ];
+  const right = [
+    x2 - ARROW_HEAD_LENGTH * Math.cos(angle + ARROW_HEAD_ANGLE),
+    y2 - ARROW_HEAD_LENGTH * Math.sin(angle + ARROW_HEAD_ANGLE)
+  ];
+  return `${x2},${y2} ${left.join(',')} ${right.join(',')}`;
+};
+
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ shapes, aspectRatio, onShapeClick }) => {
+  const viewHeight = VIEW_WIDTH / (aspectRatio || 1);
+
+  const renderShape = (shape: AnnotationShape, index: number) => {
+    const interactive = onShapeClick
+      ? { onClick: () => onShapeClick(index), style: { cursor: 'pointer', pointerEvents: 'visiblePainted' as const } }
+      : {};
+
+    switch (shape.type) {
+      case 'arrow': {
+        const x1 = shape.x1 * VIEW_WIDTH;
+        const y1 = shape.y1 * viewHeight;
+        const x2 = shape.x2 * VIEW_WIDTH;
+        const y2 = shape.y2 * viewHeight;
+        return (
+          <g key={index} {...interactive}>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={shape.color} strokeWidth={STROKE_WIDTH} strokeLinecap="round" />
+            <polygon points={arrowHead(x1, y1, x2, y2)} fill={shape.color} />
+          </g>
+        );
+      }
+      case 'circle':
+        return (
+          <ellipse
+            key={index}
+            cx={shape.cx * VIEW_WIDTH}
+            cy={shape.cy * viewHeight}
+            rx={shape.rx * VIEW_WIDTH}
+            ry={shape.ry * viewHeight}
+            fill="none"
+            stroke={shape.color}
+            strokeWidth={STROKE_WIDTH}
+            {...interactive}
+          />
+        );
+      case 'label':
+        return (
+          <text
+            key={index}
+            x={shape.x * VIEW_WIDTH}
+            y={shape.y * viewHeight}
+            fill={shape.color}
+            stroke="#000000"
+            strokeWidth={4}
+            paintOrder="stroke"
+            fontSize={LABEL_FONT_SIZE}
+            fontWeight="bold"
+            fontFamily="sans-serif"
+            dominantBaseline="middle"
+            {...interactive}
+          >
+            {shape.text}
+          </text>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${VIEW_WIDTH} ${viewHeight}`}
+      preserveAspectRatio="none"
+      style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', pointerEvents: 'none' }}
+    >
+      {shapes.map(renderShape)}
+    </svg>
+  );
+};
+
+export default AnnotationOverlay;
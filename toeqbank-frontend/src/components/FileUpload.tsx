@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react';
-import { questionService } from '../services/api';
+import { questionService, UploadDuplicate, DuplicateAction } from '../services/api';
 
 interface ValidationError {
   row: number;
@@ -31,6 +31,8 @@ const FileUpload: React.FC = () => {
   const [chapter, setChapter] = useState<string>('');
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [showValidation, setShowValidation] = useState(false);
+  const [duplicates, setDuplicates] = useState<UploadDuplicate[] | null>(null);
+  const [duplicateActions, setDuplicateActions] = useState<Record<number, DuplicateAction>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const parseCSVLine = (line: string): string[] => {
@@ -279,6 +281,7 @@ const FileUpload: React.FC = () => {
       setSelectedFile(file);
       setError(null);
       setUploadResult(null);
+      setDuplicates(null);
 
       // Read and validate the file
       const reader = new FileReader();
@@ -294,6 +297,7 @@ const FileUpload: React.FC = () => {
 
   const handleCSVDataChange = (value: string) => {
     setCsvData(value);
+    setDuplicates(null);
     if (value.trim()) {
       const result = validateCSV(value);
       setValidationResult(result);
@@ -304,6 +308,46 @@ const FileUpload: React.FC = () => {
     }
   };
 
+  // The selected file, or the pasted CSV text as a file
+  const getCSVFile = () => inputMethod === 'file'
+    ? selectedFile!
+    : new File([csvData], 'pasted-data.csv', { type: 'text/csv' });
+
+  const submitUpload = async (actions?: Record<number, DuplicateAction>) => {
+    try {
+      setUploading(true);
+      setError(null);
+      
+      // Pass all source information to the service
+      const result = await questionService.uploadCSV(
+        getCSVFile(),
+        uploadMode === 'with-images' || uploadMode === 'mixed',
+        {
+          description: description.trim(),
+          isbn: isbn.trim() || undefined,
+          startingPage: startingPage.trim() || undefined,
+          endingPage: endingPage.trim() || undefined,
+          chapter: chapter.trim() || undefined
+        },
+        actions
+      );
+      
+      setUploadResult(result);
+      setSelectedFile(null);
+      setCsvData('');
+      setDuplicates(null);
+      
+      // Clear the file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to upload data');
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const handleUpload = async () => {
     // Validate input method requirements
     if (inputMethod === 'file' && !selectedFile) {
@@ -332,50 +376,22 @@ const FileUpload: React.FC = () => {
     try {
       setUploading(true);
       setError(null);
-      
-      let result;
-      if (inputMethod === 'file') {
-        // Pass all source information to the service
-        result = await questionService.uploadCSV(
-          selectedFile!, 
-          uploadMode === 'with-images' || uploadMode === 'mixed',
-          {
-            description: description.trim(),
-            isbn: isbn.trim() || undefined,
-            startingPage: startingPage.trim() || undefined,
-            endingPage: endingPage.trim() || undefined,
-            chapter: chapter.trim() || undefined
-          }
-        );
-      } else {
-        // Convert CSV text to File object for upload
-        const csvFile = new File([csvData], 'pasted-data.csv', { type: 'text/csv' });
-        result = await questionService.uploadCSV(
-          csvFile, 
-          uploadMode === 'with-images' || uploadMode === 'mixed',
-          {
-            description: description.trim(),
-            isbn: isbn.trim() || undefined,
-            startingPage: startingPage.trim() || undefined,
-            endingPage: endingPage.trim() || undefined,
-            chapter: chapter.trim() || undefined
-          }
-        );
-      }
-      
-      setUploadResult(result);
-      setSelectedFile(null);
-      setCsvData('');
-      
-      // Clear the file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+
+      // Let the uploader decide about likely duplicates before anything is inserted
+      const { duplicates: found } = await questionService.checkUploadDuplicates(getCSVFile());
+      if (found.length > 0) {
+        setDuplicates(found);
+        setDuplicateActions(Object.fromEntries(found.map(duplicate => [duplicate.row, { action: 'skip' }])));
+        return;
       }
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to upload data');
+      setError(err.response?.data?.error || 'Failed to check for duplicate questions');
+      return;
     } finally {
       setUploading(false);
     }
+
+    await submitUpload();
   };
 
   const resetUpload = () => {
@@ -390,6 +406,7 @@ const FileUpload: React.FC = () => {
     setChapter('');
     setValidationResult(null);
     setShowValidation(false);
+    setDuplicates(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -933,10 +950,99 @@ const FileUpload: React.FC = () => {
             </div>
           )}
 
+          {/* Likely duplicates found by the pre-upload check */}
+          {duplicates && (
+            <div style={{
+              padding: '15px',
+              borderRadius: '8px',
+              border: '1px solid #ffc107',
+              backgroundColor: '#fff3cd',
+              marginBottom: '20px'
+            }}>
+              <h4 style={{ margin: '0 0 5px 0', color: '#856404', fontSize: '16px', fontWeight: 'bold' }}>
+                {duplicates.length} likely duplicate{duplicates.length !== 1 ? 's' : ''} found
+              </h4>
+              <p style={{ margin: '0 0 15px 0', color: '#856404', fontSize: '14px' }}>
+                Choose what to do with each question before uploading. Merging keeps the existing question and only fills in its missing explanation or source.
+              </p>
+              {duplicates.map(duplicate => {
+                const selected = duplicateActions[duplicate.row];
+                const setAction = (action: DuplicateAction) =>
+                  setDuplicateActions(prev => ({ ...prev, [duplicate.row]: action }));
+                return (
+                  <div key={duplicate.row} style={{
+                    backgroundColor: 'white',
+                    border: '1px solid #e9ecef',
+                    borderRadius: '6px',
+                    padding: '12px',
+                    marginBottom: '10px'
+                  }}>
+                    <div style={{ fontSize: '13px', color: '#6c757d' }}>Question {duplicate.row + 1} in this upload</div>
+                    <div style={{ fontWeight: 'bold', marginBottom: '8px' }}>{duplicate.question}</div>
+                    <ul style={{ margin: '0 0 10px 0', paddingLeft: '20px', fontSize: '13px' }}>
+                      {duplicate.matches.map(match => (
+                        <li key={match.question_id ?? `row-${match.row}`} style={{ marginBottom: '4px' }}>
+                          <strong>{Math.round(match.similarity * 100)}% similar</strong> to{' '}
+                          {match.question_id
+                            ? `existing question #${match.question_number || match.question_id} (${match.review_status})`
+                            : `question ${match.row! + 1} in this upload`}
+                          : <span style={{ color: '#495057' }}>{match.question}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '15px', fontSize: '13px' }}>
+                      <label style={{ cursor: 'pointer' }}>
+                        <input
+                          type="radio"
+                          checked={selected?.action === 'skip'}
+                          onChange={() => setAction({ action: 'skip' })}
+                          style={{ marginRight: '5px' }}
+                        />
+                        Skip
+                      </label>
+                      <label style={{ cursor: 'pointer' }}>
+                        <input
+                          type="radio"
+                          checked={selected?.action === 'keep'}
+                          onChange={() => setAction({ action: 'keep' })}
+                          style={{ marginRight: '5px' }}
+                        />
+                        Upload anyway
+                      </label>
+                      {duplicate.matches.filter(match => match.question_id && match.can_merge).map(match => (
+                        <label key={match.question_id} style={{ cursor: 'pointer' }}>
+                          <input
+                            type="radio"
+                            checked={selected?.action === 'merge' && selected.question_id === match.question_id}
+                            onChange={() => setAction({ action: 'merge', question_id: match.question_id })}
+                            style={{ marginRight: '5px' }}
+                          />
+                          Merge into #{match.question_number || match.question_id}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="action-buttons">
+                <button
+                  onClick={() => submitUpload(duplicateActions)}
+                  disabled={uploading}
+                  className="btn btn-primary"
+                >
+                  {uploading ? 'Uploading...' : 'Upload with These Choices'}
+                </button>
+                <button onClick={() => setDuplicates(null)} disabled={uploading} className="btn btn-secondary">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="action-buttons">
             <button
               onClick={handleUpload}
-              disabled={(inputMethod === 'file' && !selectedFile) || (inputMethod === 'paste' && !csvData.trim()) || uploading}
+              disabled={(inputMethod === 'file' && !selectedFile) || (inputMethod === 'paste' && !csvData.trim()) || uploading || !!duplicates}
               className="btn btn-primary"
             >
               {uploading ? 'Uploading...' : 'Upload Questions'}
@@ -963,6 +1069,9 @@ const FileUpload: React.FC = () => {
           <p>{uploadResult.message}</p>
           <div className="upload-details">
             <p>Uploaded {uploadResult.questions?.length || 0} questions successfully.</p>
+            {(uploadResult.skipped > 0 || uploadResult.merged > 0) && (
+              <p>Skipped {uploadResult.skipped} and merged {uploadResult.merged} duplicate questions.</p>
+            )}
           </div>
           <button onClick={resetUpload} className="btn btn-primary mt-3">
             Upload Another File
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { GeneratedQuestion, GenerationRun, formatCost } from '../services/aiGenerationApi';
+
+interface GeneratedQuestionListProps {
+  run: GenerationRun;
+  questions: GeneratedQuestion[];
+  // Filenames to show against failures and each question's source image
+  imageNames?: Record<number, string>;
+}
+
+const CHOICE_LETTERS = ['A', 'B', 'C', 'D', 'E'] as const;
+
+const choiceText = (question: GeneratedQuestion, letter: string) =>
+  question[`choice_${letter.toLowerCase()}` as 'choice_a' | 'choice_b' | 'choice_c' | 'choice_d' | 'choice_e'];
+
+// The outcome of one generation run: what it cost, what failed, and the drafted questions
+const GeneratedQuestionList: React.FC<GeneratedQuestionListProps> = ({ run, questions, imageNames = {} }) => {
+  const imageName = (id: number | null) => (id !== null && imageNames[id]) || (id !== null ? `Image ${id}` : 'Unknown image');
+
+  return (
+    <div className="generated-questions">
+      <h3>Generated Questions</h3>
+      <div style={{ display: 'flex', gap: '20px', flexWrap: 'wrap', fontSize: '14px', color: '#555', marginBottom: '16px' }}>
+        <span>Run #{run.id}</span>
+        <span>Model: {run.model}{run.client === 'fake' ? ' (offline fake)' : ''}</span>
+        <span>{questions.length} question{questions.length === 1 ? '' : 's'} from {run.image_ids.length} image{run.image_ids.length === 1 ? '' : 's'}</span>
+        <span>Tokens: {run.input_tokens.toLocaleString()} in / {run.output_tokens.toLocaleString()} out</span>
+        <span>Cost: {formatCost(run.cost_usd)}</span>
+      </div>
+
+      {run.failures.length > 0 && (
+        <div className="alert alert-error">
+          <strong>No questions were drafted for:</strong>
+          <ul style={{ margin: '6px 0 0 20px' }}>
+            {run.failures.map(failure => (
+              <li key={failure.image_id}>{imageName(failure.image_id)}: {failure.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {questions.length > 0 && (
+        <p style={{ fontSize: '14px', color: '#555' }}>
+          These drafts are saved as pending submission with their image attached. Check and edit each one, then submit it for review from My Contributions.
+        </p>
+      )}
+
+      {questions.map((question, index) => (
+        <div key={question.id} style={{ background: 'white', border: '1px solid #e5e7eb', borderRadius: '8px', padding: '16px', marginBottom: '12px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '12px', marginBottom: '8px' }}>
+            <span style={{ fontSize: '12px', color: '#6b7280' }}>
+              Draft {index + 1} · from {imageName(question.source_image_id)}
+            </span>
+            <Link to={`/edit-question/${question.id}`} style={{ fontSize: '14px' }}>Edit</Link>
+          </div>
+          <p style={{ fontWeight: 500, margin: '0 0 10px 0' }}>{question.question}</p>
+          <ol type="A" style={{ margin: '0 0 10px 20px', padding: 0 }}>
+            {CHOICE_LETTERS.filter(letter => choiceText(question, letter)).map(letter => (
+              <li
+                key={letter}
+                style={letter === question.correct_answer ? { color: '#047857', fontWeight: 600 } : undefined}
+              >
+                {choiceText(question, letter)}
+              </li>
+            ))}
+          </ol>
+          {question.explanation && (
+            <p style={{ fontSize: '14px', color: '#374151', margin: 0, whiteSpace: 'pre-wrap' }}>
+              <strong>Explanation:</strong> {question.explanation}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default GeneratedQuestionList;
@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { imageService, Question } from '../services/api';
+import { imageAnnotationService, ANNOTATION_COLORS } from '../services/imageAnnotationApi';
+import { AnnotationShape } from '../types';
+import AnnotationOverlay from './AnnotationOverlay';
+
+interface ImageAnnotatorProps {
+  imageId: number;
+  imageUrl: string;
+  isVideo?: boolean;
+  onClose?: () => void;
+}
+
+type Tool = 'arrow' | 'circle' | 'label' | 'erase';
+
+const TOOLS: { value: Tool; label: string }[] = [
+  { value: 'arrow', label: '↗ Arrow' },
+  { value: 'circle', label: '◯ Circle' },
+  { value: 'label', label: 'T Label' },
+  { value: 'erase', label: '✕ Erase' }
+];
+
+// Drags shorter than this (as a fraction of the image) are treated as stray clicks
+const MIN_DRAG = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ imageId, imageUrl, isVideo = false, onClose }) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  // undefined edits the image's own markup; a question id edits the markup for that question only
+  const [questionId, setQuestionId] = useState<number | undefined>(undefined);
+  const [shapes, setShapes] = useState<AnnotationShape[]>([]);
+  const [revealAfterAnswer, setRevealAfterAnswer] = useState(true);
+  const [hasLayer, setHasLayer] = useState(false);
+  const [tool, setTool] = useState<Tool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const [aspectRatio, setAspectRatio] = useState(4 / 3);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    imageService.getQuestionsForImage(imageId)
+      .then(setQuestions)
+      .catch(err => console.error('Failed to load questions for image:', err));
+  }, [imageId]);
+
+  useEffect(() => {
+    const loadAnnotations = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setMessage(null);
+        const annotation = await imageAnnotationService.getAnnotations(imageId, questionId);
+        setShapes(annotation?.shapes || []);
+        setRevealAfterAnswer(annotation ? annotation.reveal_after_answer : true);
+        setHasLayer(!!annotation);
+        setDirty(false);
+      } catch (err: any) {
+        console.error('Failed to load annotations:', err);
+        setError(err.response?.data?.error || 'Failed to load annotations');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAnnotations();
+  }, [imageId, questionId]);
+
+  const updateShapes = (next: AnnotationShape[]) => {
+    setShapes(next);
+    setDirty(true);
+    setMessage(null);
+  };
+
+  const pointFromEvent = (e: React.MouseEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height)
+    };
+  };
+
+  const shapeBetween = (start: { x: number; y: number }, end: { x: number; y: number }): AnnotationShape =>
+    tool === 'circle'
+      ? {
+        type: 'circle',
+        cx: (start.x + end.x) / 2,
+        cy: (start.y + end.y) / 2,
+        rx: Math.abs(end.x - start.x) / 2,
+        ry: Math.abs(end.y - start.y) / 2,
+        color
+      }
+      : { type: 'arrow', x1: start.x, y1: start.y, x2: end.x, y2: end.y, color };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const point = pointFromEvent(e);
+
+    if (tool === 'label') {
+      const text = window.prompt('Label text (e.g. LAA, vegetation)');
+      if (text && text.trim()) {
+        updateShapes([...shapes, { type: 'label', x: point.x, y: point.y, text: text.trim().slice(0, 60), color }]);
+      }
+      return;
+    }
+    setDragStart(point);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!dragStart) return;
+    setDraft(shapeBetween(dragStart, pointFromEvent(e)));
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (!dragStart) return;
+    const end = pointFromEvent(e);
+    if (Math.abs(end.x - dragStart.x) > MIN_DRAG || Math.abs(end.y - dragStart.y) > MIN_DRAG) {
+      updateShapes([...shapes, shapeBetween(dragStart, end)]);
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await imageAnnotationService.saveAnnotations(imageId, shapes, revealAfterAnswer, questionId);
+      setHasLayer(true);
+      setDirty(false);
+      setMessage('Annotations saved');
+    } catch (err: any) {
+      console.error('Failed to save annotations:', err);
+      setError(err.response?.data?.error || 'Failed to save annotations');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Drop a question's own markup so the image's markup shows with it again
+  const handleUseImageMarkup = async () => {
+    if (!questionId || !window.confirm('Remove the markup for this question and use the image\'s markup instead?')) return;
+    try {
+      setSaving(true);
+      await imageAnnotationService.deleteAnnotations(imageId, questionId);
+      setQuestionId(undefined);
+    } catch (err: any) {
+      console.error('Failed to remove annotations:', err);
+      setError(err.response?.data?.error || 'Failed to remove annotations');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeScope = (value: string) => {
+    if (dirty && !window.confirm('Discard unsaved annotations?')) return;
+    setQuestionId(value ? parseInt(value) : undefined);
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setTool(option.value)}
+            className={`px-3 py-1 rounded text-sm font-medium ${
+              tool === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <div className="flex items-center gap-1 ml-2">
+          {ANNOTATION_COLORS.map(option => (
+            <button
+              key={option}
+              onClick={() => setColor(option)}
+              title={option}
+              style={{
+                width: 22,
+                height: 22,
+                borderRadius: '50%',
+                background: option,
+                border: color === option ? '3px solid #1f2937' : '1px solid #9ca3af'
+              }}
+            />
+          ))}
+        </div>
+        <button
+          onClick={() => updateShapes(shapes.slice(0, -1))}
+          disabled={shapes.length === 0}
+          className="px-3 py-1 rounded text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => updateShapes([])}
+          disabled={shapes.length === 0}
+          className="px-3 py-1 rounded text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+      )}
+
+      <div style={{ position: 'relative', display: 'inline-block', maxWidth: '100%', lineHeight: 0 }}>
+        {isVideo ? (
+          <video
+            src={imageUrl}
+            muted
+            loop
+            autoPlay
+            onLoadedMetadata={(e) => setAspectRatio(e.currentTarget.videoWidth / e.currentTarget.videoHeight)}
+            style={{ display: 'block', maxWidth: '100%', maxHeight: '70vh' }}
+          />
+        ) : (
+          <img
+            src={imageUrl}
+            alt="Annotate"
+            draggable={false}
+            onLoad={(e) => setAspectRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+            style={{ display: 'block', maxWidth: '100%', maxHeight: '70vh' }}
+          />
+        )}
+        <AnnotationOverlay
+          shapes={draft ? [...shapes, draft] : shapes}
+          aspectRatio={aspectRatio}
+          onShapeClick={tool === 'erase' ? (index) => updateShapes(shapes.filter((_, i) => i !== index)) : undefined}
+        />
+        {/* Captures drawing; left out while erasing so clicks reach the shapes */}
+        {tool !== 'erase' && !loading && (
+          <div
+            ref={surfaceRef}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => { setDragStart(null); setDraft(null); }}
+            style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', cursor: 'crosshair' }}
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {questions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium text-gray-700">Markup for</label>
+            <select
+              value={questionId ?? ''}
+              onChange={(e) => changeScope(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+            >
+              <option value="">Every question using this image</option>
+              {questions.map(question => (
+                <option key={question.id} value={question.id}>
+                  Only question #{question.question_number || question.id}
+                </option>
+              ))}
+            </select>
+            {questionId && hasLayer && (
+              <button
+                onClick={handleUseImageMarkup}
+                disabled={saving}
+                className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+              >
+                Use image markup instead
+              </button>
+            )}
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={revealAfterAnswer}
+            onChange={(e) => { setRevealAfterAnswer(e.target.checked); setDirty(true); }}
+          />
+          Show annotations only after answering
+        </label>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving || loading || !dirty}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Annotations'}
+          </button>
+          {onClose && (
+            <button
+              onClick={() => {
+                if (!dirty || window.confirm('Discard unsaved annotations?')) onClose();
+              }}
+              className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+            >
+              Close
+            </button>
+          )}
+          {message && <span className="text-sm text-green-700">{message}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAnnotator;
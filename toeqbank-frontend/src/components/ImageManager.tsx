@@ -3,6 +3,7 @@ import { imageService, Image, Question, LicenseType } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import ImageUpload from './ImageUpload';
 import ImageGallery from './ImageGallery';
+import ImageAnnotator from './ImageAnnotator';
 
 interface ImageManagerProps {
   mode?: 'standalone' | 'selection';
@@ -300,6 +301,7 @@ const ImageDetails: React.FC<{
   });
   const [questions, setQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(false);
+  const [annotating, setAnnotating] = useState(false);
 
   useEffect(() => {
     loadQuestions();
@@ -547,6 +549,13 @@ const ImageDetails: React.FC<{
               </div>
             )}
             
+            <button
+              onClick={() => setAnnotating(true)}
+              className="w-full px-4 py-2 bg-indigo-500 text-white rounded-md hover:bg-indigo-600"
+            >
+              Annotate
+            </button>
+
             <div className="flex space-x-2 pt-2">
               <button
                 onClick={() => setIsEditing(true)}
@@ -565,6 +574,33 @@ const ImageDetails: React.FC<{
           </div>
         )}
       </div>
+
+      {annotating && image.id && (
+        <div
+          className="fixed inset-0 flex items-center justify-center p-4"
+          style={{
+            zIndex: 99999,
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.75)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}
+        >
+          <div style={{ maxWidth: '90vw', maxHeight: '95vh', overflow: 'auto' }}>
+            <ImageAnnotator
+              imageId={image.id}
+              imageUrl={imageService.getImageUrl(image.file_path || image.filename)}
+              isVideo={image.mime_type.startsWith('video/')}
+              onClose={() => setAnnotating(false)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,7 +1,14 @@
 import React, { useState, useRef, forwardRef, useImperativeHandle } from 'react';
-import { imageService, Image, LicenseType } from '../services/api';
+import { imageService, Image, LicenseType, DicomProbe } from '../services/api';
 import { getViewsForModality } from '../services/echoViews';
 
+// Browsers rarely know a MIME type for DICOM, so fall back to the extension and then the "DICM" preamble marker
+const isDicomFile = async (file: File): Promise<boolean> => {
+  if (file.type === 'application/dicom' || /\.(dcm|dicom)$/i.test(file.name)) return true;
+  if (file.type || file.size < 132) return false;
+  return (await file.slice(128, 132).text()) === 'DICM';
+};
+
 interface ImageUploadProps {
   onUpload: (image: Image, usageType: 'question' | 'explanation') => void;
   onFileSelected?: (hasFile: boolean) => void;
@@ -18,7 +25,7 @@ interface ImageUploadProps {
 const ImageUpload = forwardRef<any, ImageUploadProps>(({
   onUpload,
   onFileSelected,
-  acceptedTypes = "image/*,video/*",
+  acceptedTypes = "image/*,video/*,.dcm,.dicom,application/dicom",
   maxSize = 100,
   className = "",
   initialDescription = "",
@@ -32,6 +39,8 @@ const ImageUpload = forwardRef<any, ImageUploadProps>(({
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [dicomProbe, setDicomProbe] = useState<DicomProbe | null>(null);
+  const [isReadingDicom, setIsReadingDicom] = useState(false);
   const [urlInput, setUrlInput] = useState('');
   const [uploadMode, setUploadMode] = useState<'file' | 'url'>('file');
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -64,8 +73,40 @@ const ImageUpload = forwardRef<any, ImageUploadProps>(({
     }));
   };
 
-  const handleFileSelect = (file: File) => {
+  const handleDicomSelect = async (file: File) => {
+    setSelectedFile(file);
+    setPreviewUrl(null);
+    setDicomProbe(null);
+    onFileSelected?.(true);
+
+    try {
+      setIsReadingDicom(true);
+      const probe = await imageService.probeDicom(file);
+      setDicomProbe(probe);
+
+      // Only fill in what the uploader hasn't already chosen
+      setMetadata(prev => {
+        const modality = hideModality ? prev.modality : (prev.modality || probe.modality || '');
+        const viewKnown = !!modality && getViewsForModality(modality).some(view => view.name === probe.echo_view);
+        return {
+          ...prev,
+          image_type: probe.image_type,
+          modality,
+          echo_view: prev.echo_view || (modality === probe.modality && viewKnown ? probe.echo_view! : '')
+        };
+      });
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to read the DICOM file');
+      setSelectedFile(null);
+      onFileSelected?.(false);
+    } finally {
+      setIsReadingDicom(false);
+    }
+  };
+
+  const handleFileSelect = async (file: File) => {
     setError(null);
+    setDicomProbe(null);
     
     // Validate file size
     if (file.size > maxSize * 1024 * 1024) {
@@ -74,12 +115,17 @@ const ImageUpload = forwardRef<any, ImageUploadProps>(({
       return;
     }
 
+    if (await isDicomFile(file)) {
+      await handleDicomSelect(file);
+      return;
+    }
+
     // Validate file type
     const isImage = file.type.startsWith('image/');
     const isVideo = file.type.startsWith('video/');
     
     if (!isImage && !isVideo) {
-      setError('Please select an image or video file');
+      setError('Please select an image, video or DICOM file');
       onFileSelected?.(false);
       return;
     }
@@ -213,6 +259,7 @@ const ImageUpload = forwardRef<any, ImageUploadProps>(({
       
       // Reset form
       setSelectedFile(null);
+      setDicomProbe(null);
       if (previewUrl) {
         URL.revokeObjectURL(previewUrl);
         setPreviewUrl(null);
@@ -223,8 +270,8 @@ const ImageUpload = forwardRef<any, ImageUploadProps>(({
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
-    } catch (err) {
-      setError('Failed to upload file. Please try again.');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to upload file. Please try again.');
       console.error('Upload error:', err);
     } finally {
       setIsUploading(false);
@@ -548,6 +595,18 @@ const ImageUpload = forwardRef<any, ImageUploadProps>(({
                     )}
                   </div>
                 )}
+                {!previewUrl && (
+                  <div
+                    className="flex items-center justify-center rounded border bg-gray-100 text-gray-600 text-sm"
+                    style={{ width: '250px', height: '120px', margin: '0 auto' }}
+                  >
+                    {isReadingDicom
+                      ? 'Reading DICOM header...'
+                      : dicomProbe
+                        ? `DICOM ${dicomProbe.image_type === 'cine' ? `cine, ${dicomProbe.frame_count} frames` : 'still'} · ${dicomProbe.width}×${dicomProbe.height}`
+                        : 'DICOM file'}
+                  </div>
+                )}
                 <p className="text-sm text-gray-600 font-medium">{selectedFile.name}</p>
                 <button
                   type="button"
@@ -593,6 +652,22 @@ const ImageUpload = forwardRef<any, ImageUploadProps>(({
         </div>
       )}
 
+      {/* What happens to the DICOM header */}
+      {dicomProbe && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800 space-y-1">
+          <p>
+            The DICOM header is not kept. It will be stored as a {dicomProbe.image_type === 'cine' ? 'video clip' : 'still image'}
+            {dicomProbe.phi_tags_removed.length > 0 && ` with ${dicomProbe.phi_tags_removed.length} identifying fields removed (${dicomProbe.phi_tags_removed.join(', ')})`}
+            {dicomProbe.private_tags_removed > 0 && ` and ${dicomProbe.private_tags_removed} private vendor fields dropped`}.
+          </p>
+          {dicomProbe.burned_in_annotation && (
+            <p className="text-red-700 font-medium">
+              The device reports text burned into the pixels. Check that no patient details are visible before uploading.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { Question } from '../services/api';
+import { itemAnalysisService, ItemStatistics, describeFlagReason } from '../services/itemAnalysisApi';
+
+interface ItemAnalysisPanelProps {
+  question: Question;
+}
+
+// Conventional bands for point-biserial discrimination
+const describeDiscrimination = (value: number) => {
+  if (value < 0) return { label: 'Negative', className: 'text-red-700' };
+  if (value < 0.2) return { label: 'Weak', className: 'text-orange-700' };
+  if (value < 0.3) return { label: 'Fair', className: 'text-yellow-700' };
+  return { label: 'Good', className: 'text-green-700' };
+};
+
+const ItemAnalysisPanel: React.FC<ItemAnalysisPanelProps> = ({ question }) => {
+  const [statistics, setStatistics] = useState<ItemStatistics | null>(null);
+  const [minResponses, setMinResponses] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadStatistics = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await itemAnalysisService.getStatistics(question.id!);
+        setStatistics(data.statistics);
+        setMinResponses(data.min_responses);
+      } catch (err: any) {
+        console.error('Error loading item statistics:', err);
+        setError(err.response?.data?.error || 'Failed to load item statistics');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadStatistics();
+  }, [question.id]);
+
+  const handleDismiss = async () => {
+    try {
+      setStatistics(await itemAnalysisService.dismissFlag(question.id!));
+    } catch (err: any) {
+      console.error('Error dismissing flag:', err);
+      setError(err.response?.data?.error || 'Failed to dismiss flag');
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-500">Loading item statistics...</p>;
+  }
+
+  if (error || !statistics) {
+    return <p className="text-red-700">{error}</p>;
+  }
+
+  if (statistics.responses === 0) {
+    return <p className="text-gray-500">No completed test responses for this question yet.</p>;
+  }
+
+  const choices = ['A', 'B', 'C', 'D', 'E', 'F', 'G'].filter(letter => {
+    const text = question[`choice_${letter.toLowerCase()}` as keyof Question];
+    return (typeof text === 'string' && text.trim() !== '') || statistics.choice_counts[letter];
+  });
+  const discrimination = statistics.point_biserial !== null ? describeDiscrimination(statistics.point_biserial) : null;
+
+  return (
+    <div className="space-y-4">
+      {statistics.is_flagged && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-r-lg flex items-start justify-between gap-4">
+          <div>
+            <p className="font-semibold text-red-800">Flagged for re-review</p>
+            <ul className="list-disc list-inside text-sm text-red-700 mt-1">
+              {statistics.flag_reasons.map(reason => (
+                <li key={reason}>{describeFlagReason(reason)}</li>
+              ))}
+            </ul>
+          </div>
+          <button
+            onClick={handleDismiss}
+            className="px-3 py-1 text-sm border border-red-300 text-red-700 rounded hover:bg-red-100 flex-shrink-0"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-50 rounded-lg p-4">
+          <div className="text-2xl font-bold text-gray-900">{statistics.responses}</div>
+          <div className="text-sm text-gray-600">Responses</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <div className="text-2xl font-bold text-gray-900">
+            {statistics.p_value !== null ? statistics.p_value.toFixed(2) : '-'}
+          </div>
+          <div className="text-sm text-gray-600">p-value (proportion correct)</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <div className={`text-2xl font-bold ${discrimination?.className || 'text-gray-900'}`}>
+            {statistics.point_biserial !== null ? statistics.point_biserial.toFixed(2) : '-'}
+          </div>
+          <div className="text-sm text-gray-600">
+            Point-biserial{discrimination && ` (${discrimination.label})`}
+          </div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <div className="text-2xl font-bold text-gray-900">
+            {question.difficulty_rating ? `${question.difficulty_rating}/5` : '-'}
+          </div>
+          <div className="text-sm text-gray-600">Reviewer difficulty rating</div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-gray-700 mb-2">Choice distribution</h4>
+        <div className="space-y-2">
+          {choices.map(letter => {
+            const rate = statistics.choice_rates[letter] || 0;
+            const isCorrect = letter === question.correct_answer;
+            return (
+              <div key={letter} className="flex items-center gap-3 text-sm">
+                <span className={`w-6 font-semibold ${isCorrect ? 'text-green-700' : 'text-gray-700'}`}>{letter}</span>
+                <div className="flex-1 bg-gray-100 rounded h-4 overflow-hidden">
+                  <div
+                    className={isCorrect ? 'bg-green-500 h-4' : 'bg-blue-400 h-4'}
+                    style={{ width: `${Math.round(rate * 100)}%` }}
+                  />
+                </div>
+                <span className="w-24 text-right text-gray-600">
+                  {Math.round(rate * 100)}% ({statistics.choice_counts[letter] || 0})
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {statistics.responses < minResponses && (
+        <p className="text-xs text-gray-500">
+          Automatic flagging starts once a question has {minResponses} responses.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ItemAnalysisPanel;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { SubtopicWithSection } from '../services/api';
+import { examRegistryService, ExamBlueprint, sectionLabel } from '../services/examRegistryApi';
 
 interface ApplicableExam {
   examName: string;
@@ -14,86 +15,6 @@ interface ManualExamAssignmentModalProps {
   initialExams?: ApplicableExam[];
 }
 
-// Available exam topics with section numbers
-const EXAM_TOPICS = {
-  "PTEeXAM": {
-    "1. Basic TEE": {
-      "1.1": "TEE Probe Insertion and Safety",
-      "1.2": "Basic TEE Views and Anatomy",
-      "1.3": "Standard TEE Examination",
-      "1.4": "TEE Equipment and Technology"
-    },
-    "2. Cardiac Anatomy and Physiology": {
-      "2.1": "Chamber Assessment",
-      "2.2": "Valvular Anatomy",
-      "2.3": "Great Vessel Assessment",
-      "2.4": "Congenital Heart Disease"
-    },
-    "3. Valvular Disease": {
-      "3.1": "Mitral Valve Disease",
-      "3.2": "Aortic Valve Disease",
-      "3.3": "Tricuspid Valve Disease",
-      "3.4": "Pulmonary Valve Disease",
-      "3.5": "Prosthetic Valves"
-    },
-    "4. Hemodynamic Assessment": {
-      "4.1": "Doppler Principles",
-      "4.2": "Pressure Gradients",
-      "4.3": "Cardiac Output Assessment",
-      "4.4": "Diastolic Function"
-    },
-    "5. TEE in Cardiac Surgery": {
-      "5.1": "Intraoperative TEE",
-      "5.2": "Post-surgical Assessment",
-      "5.3": "Surgical Planning"
-    },
-    "6. Advanced TEE Applications": {
-      "6.1": "3D TEE",
-      "6.2": "Strain Imaging",
-      "6.3": "Contrast Enhancement",
-      "6.4": "Interventional Guidance"
-    }
-  },
-  "EACTVI": {
-    "1. Basic Echocardiography": {
-      "1.1": "Ultrasound Physics",
-      "1.2": "Image Optimization",
-      "1.3": "Standard Views",
-      "1.4": "Doppler Techniques"
-    },
-    "2. Left Heart Assessment": {
-      "2.1": "LV Function and Geometry",
-      "2.2": "LA Assessment",
-      "2.3": "Mitral Valve Evaluation",
-      "2.4": "Aortic Valve Assessment"
-    },
-    "3. Right Heart Assessment": {
-      "3.1": "RV Function Assessment",
-      "3.2": "RA Evaluation",
-      "3.3": "Tricuspid Valve Assessment",
-      "3.4": "Pulmonary Assessment"
-    },
-    "4. Hemodynamics and Flow": {
-      "4.1": "Pressure Measurements",
-      "4.2": "Flow Quantification",
-      "4.3": "Shunt Assessment",
-      "4.4": "Valve Stenosis/Regurgitation"
-    },
-    "5. Advanced Techniques": {
-      "5.1": "Tissue Doppler",
-      "5.2": "Strain Echocardiography",
-      "5.3": "3D Echocardiography",
-      "5.4": "Contrast Echocardiography"
-    },
-    "6. Clinical Applications": {
-      "6.1": "Heart Failure Assessment",
-      "6.2": "Ischemic Heart Disease",
-      "6.3": "Cardioembolic Source",
-      "6.4": "Critical Care Echocardiography"
-    }
-  }
-};
-
 const ManualExamAssignmentModal: React.FC<ManualExamAssignmentModalProps> = ({
   isOpen,
   onClose,
@@ -110,6 +31,20 @@ const ManualExamAssignmentModal: React.FC<ManualExamAssignmentModalProps> = ({
     }
   }, [isOpen, initialExams]);
 
+  const [blueprints, setBlueprints] = useState<ExamBlueprint[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      examRegistryService.getRegistry()
+        .then(registry => setBlueprints(registry.blueprints))
+        .catch(err => {
+          console.error('Failed to load exam blueprints:', err);
+          setLoadError('Failed to load the exam syllabuses');
+        });
+    }
+  }, [isOpen]);
+
   const toggleSubtopic = (examName: string, subtopic: string, section: string) => {
     setSelectedExams(prevExams => {
       const existingExamIndex = prevExams.findIndex(exam => exam.examName === examName);
@@ -203,25 +138,28 @@ const ManualExamAssignmentModal: React.FC<ManualExamAssignmentModalProps> = ({
         </div>
         
         <div className="p-8">
+          {loadError && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{loadError}</div>
+          )}
           <div className="grid md:grid-cols-2 gap-8">
-            {Object.entries(EXAM_TOPICS).map(([examName, categories]) => (
-              <div key={examName} className="border border-gray-200 rounded-lg p-6">
-                <h4 className="text-xl font-semibold text-gray-900 mb-4">{examName}</h4>
+            {blueprints.map(blueprint => (
+              <div key={blueprint.name} className="border border-gray-200 rounded-lg p-6">
+                <h4 className="text-xl font-semibold text-gray-900 mb-4">{blueprint.name}</h4>
                 
-                {Object.entries(categories).map(([categoryName, subtopics]) => (
-                  <div key={categoryName} className="mb-6">
-                    <h5 className="font-medium text-gray-800 mb-3">{categoryName}</h5>
+                {blueprint.sections.map(section => (
+                  <div key={section.number} className="mb-6">
+                    <h5 className="font-medium text-gray-800 mb-3">{sectionLabel(section)}</h5>
                     <div className="space-y-2">
-                      {Object.entries(subtopics).map(([section, subtopicName]) => (
-                        <label key={section} className="flex items-center cursor-pointer">
+                      {section.subtopics.map(subtopic => (
+                        <label key={subtopic.number} className="flex items-center cursor-pointer">
                           <input
                             type="checkbox"
-                            checked={isSubtopicSelected(examName, subtopicName as string)}
-                            onChange={() => toggleSubtopic(examName, subtopicName as string, section)}
+                            checked={isSubtopicSelected(blueprint.name, subtopic.name)}
+                            onChange={() => toggleSubtopic(blueprint.name, subtopic.name, subtopic.number)}
                             className="rounded border-gray-300 text-orange-600 focus:ring-orange-500 focus:border-orange-500"
                           />
                           <span className="ml-2 text-sm text-gray-700">
-                            <span className="font-medium text-blue-600">{section}</span> {subtopicName as string}
+                            <span className="font-medium text-blue-600">{subtopic.number}</span> {subtopic.name}
                           </span>
                         </label>
                       ))}
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import QuestionCard from './QuestionCard';
+import { TestSession, UserAnswer } from '../types';
+import { testSessionService } from '../services/testSessionApi';
+
+interface MockExamRunnerProps {
+  testSession: TestSession;
+  // Called to submit the exam (by the user or when time runs out); resolves false if it failed
+  onSubmit: () => Promise<boolean>;
+}
+
+const formatClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const mm = minutes.toString().padStart(2, '0');
+  const ss = secs.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+const MockExamRunner: React.FC<MockExamRunnerProps> = ({ testSession, onSubmit }) => {
+  const { questions } = testSession;
+  const [currentIndex, setCurrentIndex] = useState(testSession.currentQuestionIndex);
+  const [answers, setAnswers] = useState<UserAnswer[]>(testSession.userAnswers);
+  const [flagged, setFlagged] = useState<number[]>(testSession.flaggedQuestionIds || []);
+  const [remaining, setRemaining] = useState<number>(testSession.remainingSeconds ?? 0);
+  const [isPaused, setIsPaused] = useState<boolean>(!!testSession.isPaused);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Seconds spent on each question so far, and when the current one was shown
+  const timeSpent = useRef<number[]>(questions.map((_, i) => testSession.userAnswers[i]?.timeSpent || 0));
+  const shownAt = useRef<number>(Date.now());
+  const deadline = useRef<number>(Date.now() + (testSession.remainingSeconds ?? 0) * 1000);
+  const submitted = useRef(false);
+
+  // Add the time since the current question was shown to its running total
+  const flushTime = useCallback((index: number) => {
+    const now = Date.now();
+    timeSpent.current[index] += Math.floor((now - shownAt.current) / 1000);
+    shownAt.current = now;
+  }, []);
+
+  const saveAnswer = useCallback(async (index: number, selectedAnswer: string) => {
+    try {
+      await testSessionService.recordAnswer(testSession.id, questions[index].id!, selectedAnswer, timeSpent.current[index]);
+      setSaveError(null);
+    } catch (err: any) {
+      console.error('Failed to save answer:', err);
+      setSaveError(err.response?.data?.error || 'Your answer could not be saved. Please check your connection.');
+    }
+  }, [testSession.id, questions]);
+
+  const submitExam = useCallback(async () => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    // Store the time spent on the last question before scoring
+    flushTime(currentIndex);
+    const answer = answers[currentIndex];
+    if (answer) {
+      await saveAnswer(currentIndex, answer.selectedAnswer);
+    }
+    if (!(await onSubmit())) {
+      submitted.current = false;
+      setSaveError('Failed to submit the exam. Please try again.');
+    }
+  }, [answers, currentIndex, flushTime, onSubmit, saveAnswer]);
+
+  // Countdown; auto-submits when the clock reaches zero
+  useEffect(() => {
+    if (isPaused) return;
+
+    const timer = setInterval(() => {
+      const secondsLeft = Math.max(0, Math.ceil((deadline.current - Date.now()) / 1000));
+      setRemaining(secondsLeft);
+      if (secondsLeft === 0) {
+        clearInterval(timer);
+        submitExam();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [isPaused, submitExam]);
+
+  const goToQuestion = (index: number) => {
+    if (index === currentIndex || index < 0 || index >= questions.length) return;
+
+    const before = timeSpent.current[currentIndex];
+    flushTime(currentIndex);
+    // Revisiting an answered question still counts toward its time
+    const answer = answers[currentIndex];
+    if (answer && timeSpent.current[currentIndex] !== before) {
+      saveAnswer(currentIndex, answer.selectedAnswer);
+    }
+
+    setCurrentIndex(index);
+    testSessionService.updateProgress(testSession.id, index).catch(err => {
+      console.error('Failed to save progress:', err);
+    });
+  };
+
+  const handleAnswerSelect = (selectedAnswer: string) => {
+    if (isPaused) return;
+
+    flushTime(currentIndex);
+    const updated = [...answers];
+    updated[currentIndex] = {
+      questionId: questions[currentIndex].id!,
+      selectedAnswer,
+      // Not known until the exam is submitted
+      isCorrect: false,
+      timeSpent: timeSpent.current[currentIndex]
+    };
+    setAnswers(updated);
+    saveAnswer(currentIndex, selectedAnswer);
+  };
+
+  const toggleFlag = async () => {
+    const questionId = questions[currentIndex].id!;
+    const isFlagged = flagged.includes(questionId);
+    setFlagged(isFlagged ? flagged.filter(id => id !== questionId) : [...flagged, questionId]);
+
+    try {
+      await testSessionService.setFlagged(testSession.id, questionId, !isFlagged);
+    } catch (err) {
+      console.error('Failed to flag question:', err);
+    }
+  };
+
+  const togglePause = async () => {
+    try {
+      if (isPaused) {
+        const session = await testSessionService.resumeSession(testSession.id);
+        deadline.current = Date.now() + (session.remaining_seconds ?? remaining) * 1000;
+        shownAt.current = Date.now();
+        setIsPaused(false);
+      } else {
+        flushTime(currentIndex);
+        const session = await testSessionService.pauseSession(testSession.id);
+        setRemaining(session.remaining_seconds ?? remaining);
+        setIsPaused(true);
+      }
+    } catch (err: any) {
+      console.error('Failed to pause/resume exam:', err);
+      alert(err.response?.data?.error || 'Failed to pause or resume the exam');
+    }
+  };
+
+  const confirmSubmit = () => {
+    const unanswered = questions.length - answers.filter(a => a).length;
+    const warnings = [
+      unanswered > 0 ? `${unanswered} unanswered question${unanswered !== 1 ? 's' : ''}` : null,
+      flagged.length > 0 ? `${flagged.length} flagged question${flagged.length !== 1 ? 's' : ''}` : null
+    ].filter(Boolean);
+
+    const message = warnings.length > 0
+      ? `You have ${warnings.join(' and ')}. Submit the exam anyway?`
+      : 'Submit the exam?';
+    if (window.confirm(message)) {
+      submitExam();
+    }
+  };
+
+  const currentQuestion = questions[currentIndex];
+  const isCurrentFlagged = flagged.includes(currentQuestion.id!);
+  const answeredCount = answers.filter(a => a).length;
+
+  return (
+    <div className="practice-test">
+      <div className="test-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '1rem' }}>
+        <h2>Mock Exam</h2>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+          <span style={{
+            fontFamily: 'monospace',
+            fontSize: '1.5rem',
+            fontWeight: 'bold',
+            color: remaining <= 300 ? '#F44336' : '#333'
+          }}>
+            ⏱ {formatClock(remaining)}
+          </span>
+          <button onClick={togglePause} className="nav-button">
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
+          <button onClick={confirmSubmit} className="nav-button primary">
+            Submit Exam
+          </button>
+        </div>
+      </div>
+
+      {saveError && (
+        <div className="error" style={{ marginBottom: '1rem' }}>
+          <p>{saveError}</p>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '1.5rem', alignItems: 'flex-start', flexWrap: 'wrap' }}>
+        <div style={{ flex: '1 1 600px', minWidth: 0 }}>
+          {isPaused ? (
+            <div style={{ textAlign: 'center', padding: '4rem 1rem', backgroundColor: '#f5f5f5', borderRadius: '8px' }}>
+              <h3>Exam paused</h3>
+              <p style={{ color: '#666', margin: '1rem 0' }}>The clock is stopped. Questions are hidden until you resume.</p>
+              <button onClick={togglePause} className="primary-button">Resume Exam</button>
+            </div>
+          ) : (
+            <>
+              <QuestionCard
+                question={currentQuestion}
+                questionNumber={currentIndex + 1}
+                onAnswerSelect={handleAnswerSelect}
+                selectedAnswer={answers[currentIndex]?.selectedAnswer || ''}
+                showAnswer={false}
+                isReviewMode={false}
+              />
+
+              <div className="test-navigation">
+                <button
+                  onClick={() => goToQuestion(currentIndex - 1)}
+                  disabled={currentIndex === 0}
+                  className="nav-button"
+                >
+                  Previous
+                </button>
+
+                <button
+                  onClick={toggleFlag}
+                  className="nav-button"
+                  style={{ borderColor: isCurrentFlagged ? '#FF9800' : undefined, color: isCurrentFlagged ? '#FF9800' : undefined }}
+                >
+                  {isCurrentFlagged ? '⚑ Flagged' : '⚐ Flag for review'}
+                </button>
+
+                <button
+                  onClick={() => goToQuestion(currentIndex + 1)}
+                  disabled={currentIndex === questions.length - 1}
+                  className="nav-button primary"
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div style={{ flex: '0 0 240px', backgroundColor: 'white', borderRadius: '8px', padding: '1rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
+          <h4 style={{ marginBottom: '0.5rem' }}>Navigator</h4>
+          <p style={{ fontSize: '0.85rem', color: '#666', marginBottom: '0.75rem' }}>
+            {answeredCount} / {questions.length} answered · {flagged.length} flagged
+          </p>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '0.4rem' }}>
+            {questions.map((question, index) => {
+              const isAnswered = !!answers[index];
+              const isFlagged = flagged.includes(question.id!);
+              return (
+                <button
+                  key={question.id}
+                  onClick={() => goToQuestion(index)}
+                  disabled={isPaused}
+                  title={`${isAnswered ? 'Answered' : 'Unanswered'}${isFlagged ? ', flagged' : ''}`}
+                  style={{
+                    position: 'relative',
+                    padding: '0.4rem 0',
+                    borderRadius: '4px',
+                    border: index === currentIndex ? '2px solid #1976d2' : `1px solid ${isFlagged ? '#FF9800' : '#ccc'}`,
+                    backgroundColor: isAnswered ? '#c8e6c9' : 'white',
+                    fontWeight: index === currentIndex ? 'bold' : 'normal',
+                    cursor: isPaused ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  {index + 1}
+                  {isFlagged && (
+                    <span style={{ position: 'absolute', top: '-6px', right: '-4px', color: '#FF9800', fontSize: '0.75rem' }}>⚑</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          <div style={{ marginTop: '1rem', fontSize: '0.75rem', color: '#666', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+            <span><span style={{ display: 'inline-block', width: '10px', height: '10px', backgroundColor: '#c8e6c9', marginRight: '0.4rem' }} />Answered</span>
+            <span><span style={{ display: 'inline-block', width: '10px', height: '10px', border: '1px solid #ccc', marginRight: '0.4rem' }} />Unanswered</span>
+            <span><span style={{ color: '#FF9800', marginRight: '0.4rem' }}>⚑</span>Flagged for review</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MockExamRunner;
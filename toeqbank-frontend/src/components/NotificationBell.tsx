@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { notificationService, Notification, NOTIFICATION_ICONS } from '../services/notificationApi';
+
+// How often the unread count is refreshed while the panel is closed
+const POLL_INTERVAL_MS = 60000;
+
+const formatAge = (createdAt: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(createdAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(createdAt).toLocaleDateString();
+};
+
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setUnreadCount(await notificationService.getUnreadCount());
+    } catch (err) {
+      console.error('Error loading notification count:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCount();
+    const interval = setInterval(refreshCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshCount]);
+
+  // Close the panel on clicks elsewhere
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleToggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+    setOpen(true);
+    try {
+      setLoading(true);
+      const data = await notificationService.getNotifications();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unread_count);
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenNotification = async (notification: Notification) => {
+    setOpen(false);
+    if (!notification.read_at) {
+      try {
+        const updated = await notificationService.markRead(notification.id);
+        setNotifications(notifications.map(n => n.id === updated.id ? updated : n));
+        setUnreadCount(count => Math.max(0, count - 1));
+      } catch (err) {
+        console.error('Error marking notification read:', err);
+      }
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllRead();
+      const now = new Date().toISOString();
+      setNotifications(notifications.map(n => ({ ...n, read_at: n.read_at || now })));
+      setUnreadCount(0);
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="notification-bell">
+      <button
+        onClick={handleToggle}
+        className="notification-bell-button"
+        title="Notifications"
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ''}`}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="notification-badge">{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="notification-panel">
+          <div className="notification-panel-header">
+            <span>Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead}>Mark all read</button>
+            )}
+          </div>
+
+          <div className="notification-list">
+            {loading ? (
+              <p className="notification-empty">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="notification-empty">You're all caught up.</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`notification-item${notification.read_at ? '' : ' unread'}`}
+                >
+                  <span className="nav-dropdown-icon">{NOTIFICATION_ICONS[notification.type]}</span>
+                  <span className="nav-dropdown-content">
+                    <span className="nav-dropdown-title">{notification.title}</span>
+                    {notification.message && (
+                      <span className="nav-dropdown-description">
+                        {notification.message.length > 140 ? `${notification.message.substring(0, 140)}...` : notification.message}
+                      </span>
+                    )}
+                    <span className="notification-age">{formatAge(notification.created_at)}</span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
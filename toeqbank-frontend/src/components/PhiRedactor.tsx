@@ -0,0 +1,162 @@
+import React, { useState, useRef } from 'react';
+import { imageService, Image, PhiRegion } from '../services/api';
+
+interface PhiRedactorProps {
+  imageId: number;
+  imageUrl: string;
+  // Regions the OCR pass flagged; they start out selected for redaction
+  flaggedRegions?: PhiRegion[];
+  onRedacted: (image: Image) => void;
+  onClose?: () => void;
+}
+
+// Drags smaller than this (as a fraction of the image) are treated as stray clicks
+const MIN_DRAG = 0.01;
+
+const REASON_LABELS: Record<NonNullable<PhiRegion['reason']>, string> = {
+  name: 'Name',
+  date: 'Date',
+  id: 'ID number'
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const boxStyle = (region: PhiRegion): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${region.x * 100}%`,
+  top: `${region.y * 100}%`,
+  width: `${region.width * 100}%`,
+  height: `${region.height * 100}%`
+});
+
+const PhiRedactor: React.FC<PhiRedactorProps> = ({ imageId, imageUrl, flaggedRegions = [], onRedacted, onClose }) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [regions, setRegions] = useState<PhiRegion[]>(flaggedRegions);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<PhiRegion | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pointFromEvent = (e: React.MouseEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height)
+    };
+  };
+
+  const regionBetween = (start: { x: number; y: number }, end: { x: number; y: number }): PhiRegion => ({
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y)
+  });
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    setDragStart(pointFromEvent(e));
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!dragStart) return;
+    setDraft(regionBetween(dragStart, pointFromEvent(e)));
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (!dragStart) return;
+    const region = regionBetween(dragStart, pointFromEvent(e));
+    if (region.width > MIN_DRAG && region.height > MIN_DRAG) {
+      setRegions([...regions, region]);
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!window.confirm('Black out the selected regions? The original file will be replaced and cannot be recovered.')) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const image = await imageService.redactImage(imageId, regions.map(({ x, y, width, height }) => ({ x, y, width, height })));
+      onRedacted(image);
+    } catch (err: any) {
+      console.error('Failed to redact image:', err);
+      setError(err.response?.data?.error || 'Failed to redact image');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 space-y-3">
+      <p className="text-sm text-gray-600">
+        Drag to draw a box over any name, date or ID number. Click a box to remove it.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+      )}
+
+      <div
+        ref={surfaceRef}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => { setDragStart(null); setDraft(null); }}
+        style={{ position: 'relative', display: 'inline-block', maxWidth: '100%', lineHeight: 0, cursor: 'crosshair' }}
+      >
+        <img
+          src={imageUrl}
+          alt="Redact"
+          draggable={false}
+          style={{ display: 'block', maxWidth: '100%', maxHeight: '70vh' }}
+        />
+        {regions.map((region, index) => (
+          <div
+            key={index}
+            title={region.reason ? `Flagged: ${REASON_LABELS[region.reason]} (click to remove)` : 'Click to remove'}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => setRegions(regions.filter((_, i) => i !== index))}
+            style={{
+              ...boxStyle(region),
+              background: 'rgba(0, 0, 0, 0.85)',
+              outline: region.reason ? '2px solid #ef4444' : '2px solid #f59e0b',
+              cursor: 'pointer'
+            }}
+          />
+        ))}
+        {draft && (
+          <div style={{ ...boxStyle(draft), background: 'rgba(0, 0, 0, 0.5)', outline: '2px dashed #f59e0b' }} />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving || regions.length === 0}
+          className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+        >
+          {saving ? 'Redacting...' : `Redact ${regions.length} Region${regions.length === 1 ? '' : 's'}`}
+        </button>
+        <button
+          onClick={() => setRegions([])}
+          disabled={saving || regions.length === 0}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          Clear
+        </button>
+        {onClose && (
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhiRedactor;
@@ -1,8 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Question } from '../types';
+import { Question, ImageAnnotationLayer } from '../types';
 import { imageService } from '../services/api';
+import AnnotationOverlay from './AnnotationOverlay';
 
 interface QuestionCardProps {
   question: Question;
@@ -33,6 +34,19 @@ const QuestionCard: React.FC<QuestionCardProps> = ({
     { letter: 'G', text: question.choice_g },
   ].filter(choice => choice.text && choice.text.trim() !== '');
 
+  // Natural width / height of each image, so its annotations line up
+  const [aspectRatios, setAspectRatios] = useState<Record<number, number>>({});
+
+  const recordAspectRatio = (index: number, width: number, height: number) => {
+    if (width && height) {
+      setAspectRatios(prev => ({ ...prev, [index]: width / height }));
+    }
+  };
+
+  // Markup flagged reveal_after_answer stays hidden until the explanation is shown
+  const showsAnnotations = (annotation: ImageAnnotationLayer) =>
+    annotation.shapes.length > 0 && (!annotation.reveal_after_answer || showAnswer || showExplanation);
+
   const getChoiceClassName = (choiceLetter: string) => {
     let className = 'choice';
     
@@ -70,27 +84,32 @@ const QuestionCard: React.FC<QuestionCardProps> = ({
             {question.images.map((image, index) => (
               <div key={image.id || index} className="mb-6">
                 <div className="image-container relative">
-                  <div className="bg-gray-100 rounded-lg overflow-hidden" style={{ width: '100%' }}>
+                  <div className="bg-gray-100 rounded-lg overflow-hidden" style={{ width: '100%', position: 'relative' }}>
                     {image.mime_type.startsWith('video/') ? (
                       <video
                         src={imageService.getImageUrl(image.file_path || image.filename)}
                         className="w-full h-auto object-contain"
                         controls
                         loop
-                        style={{ width: '100%', height: 'auto' }}
+                        onLoadedMetadata={(e) => recordAspectRatio(index, e.currentTarget.videoWidth, e.currentTarget.videoHeight)}
+                        style={{ width: '100%', height: 'auto', display: 'block' }}
                       />
                     ) : (
                       <img
                         src={imageService.getImageUrl(image.file_path || image.filename)}
                         alt={image.description || `Question image ${index + 1}`}
                         className="w-full h-auto object-contain"
-                        style={{ width: '100%', height: 'auto' }}
+                        style={{ width: '100%', height: 'auto', display: 'block' }}
+                        onLoad={(e) => recordAspectRatio(index, e.currentTarget.naturalWidth, e.currentTarget.naturalHeight)}
                         onError={(e) => {
                           const img = e.currentTarget;
                           img.src = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="400" height="300" viewBox="0 0 400 300"%3E%3Crect fill="%23f0f0f0" width="400" height="300"/%3E%3Ctext x="50%25" y="50%25" text-anchor="middle" dy=".3em" fill="%23999" font-family="sans-serif" font-size="20"%3EImage Not Available%3C/text%3E%3C/svg%3E';
                         }}
                       />
                     )}
+                    {image.annotation && showsAnnotations(image.annotation) && aspectRatios[index] && (
+                      <AnnotationOverlay shapes={image.annotation.shapes} aspectRatio={aspectRatios[index]} />
+                    )}
                   </div>
                       
                   <div className="absolute top-2 left-2">
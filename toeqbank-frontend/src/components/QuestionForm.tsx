@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { questionService, imageService, Question, Image, imageDescriptionService, ImageDescription, questionMetadataService, examService } from '../services/api';
+import { questionService, imageService, Question, Image, imageDescriptionService, ImageDescription, questionMetadataService, examService, DuplicateMatch } from '../services/api';
 import ImageManager from './ImageManager';
 import ImageUploadModal from './ImageUploadModal';
 import ImageDescriptionModal from './ImageDescriptionModal';
 import MetadataGenerationDialog from './MetadataGenerationDialog';
 import ApplicableExamsDialog from './ApplicableExamsDialog';
+import { examRegistryService, ExamBlueprint } from '../services/examRegistryApi';
 
 interface QuestionFormProps {
   onSuccess?: (question: Question) => void;
@@ -46,10 +47,12 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
   const [imageDescriptions, setImageDescriptions] = useState<ImageDescription[]>([]);
   const [generatedMetadata, setGeneratedMetadata] = useState<{id: string, data: any}[]>([]);
   const [generatedExams, setGeneratedExams] = useState<{id: string, data: any}[]>([]);
+  const [examBlueprints, setExamBlueprints] = useState<ExamBlueprint[]>([]);
   const [showMetadataDialog, setShowMetadataDialog] = useState(false);
   const [showApplicableExamsDialog, setShowApplicableExamsDialog] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[] | null>(null);
   const [saveSourceNote, setSaveSourceNote] = useState(false);
   const [savedSourceNotes, setSavedSourceNotes] = useState<{id: number, explanation: string, usage_count?: number}[]>([]);
   const [success, setSuccess] = useState<string | null>(null);
@@ -162,6 +165,12 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
     loadExams();
   }, [mode, initialData.id]);
 
+  useEffect(() => {
+    examRegistryService.getRegistry()
+      .then(registry => setExamBlueprints(registry.blueprints))
+      .catch(err => console.error('QuestionForm: Error loading exam blueprints:', err));
+  }, []);
+
   // Debug: Monitor state changes
   useEffect(() => {
     console.log('QuestionForm: imageDescriptions state changed:', imageDescriptions);
@@ -554,7 +563,7 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
     return true;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent, allowDuplicate = false) => {
     e.preventDefault();
     
     console.log('QuestionForm: handleSubmit called');
@@ -566,6 +575,7 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
 
     setIsSubmitting(true);
     setError(null);
+    setDuplicateMatches(null);
     
     try {
       // Create or update the question (no need to embed descriptions in text)
@@ -577,7 +587,7 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         // Remove question_number from formData when creating (backend will auto-generate)
         const { question_number, ...createData } = formData;
         console.log('QuestionForm: Creating new question');
-        question = await questionService.createQuestion(createData);
+        question = await questionService.createQuestion(createData, allowDuplicate);
         console.log('QuestionForm: Created question with ID:', question.id);
         
         // For new questions, save any temporary image descriptions to the database
@@ -728,7 +738,12 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         setGeneratedMetadata([]);
         setGeneratedExams([]);
       }
-    } catch (err) {
+    } catch (err: any) {
+      if (err.response?.status === 409 && err.response.data?.duplicates) {
+        setError(err.response.data.error);
+        setDuplicateMatches(err.response.data.duplicates);
+        return;
+      }
       setError(`Failed to ${mode} question. Please try again.`);
       console.error('Question submission error:', err);
     } finally {
@@ -839,6 +854,26 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                 </div>
                 <div className="ml-4">
                   <p className="text-red-800 font-medium">{error}</p>
+                  {duplicateMatches && (
+                    <>
+                      <ul className="mt-2 space-y-1 text-sm text-red-700">
+                        {duplicateMatches.map(match => (
+                          <li key={match.question_id}>
+                            <span className="font-semibold">{Math.round(match.similarity * 100)}% similar</span> to{' '}
+                            #{match.question_number || match.question_id} ({match.review_status}): {match.question}
+                          </li>
+                        ))}
+                      </ul>
+                      <button
+                        type="button"
+                        onClick={(e) => handleSubmit(e, true)}
+                        disabled={isSubmitting}
+                        className="mt-3 px-4 py-2 text-sm bg-white border border-red-300 text-red-700 rounded-lg hover:bg-red-100"
+                      >
+                        Create Anyway
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -1728,8 +1763,9 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                                       className="w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:border-blue-500"
                                     >
                                       <option value="">Select exam</option>
-                                      <option value="PTEeXAM">PTEeXAM</option>
-                                      <option value="EACTVI">EACTVI</option>
+                                      {examBlueprints.map(blueprint => (
+                                        <option key={blueprint.name} value={blueprint.name}>{blueprint.name}</option>
+                                      ))}
                                     </select>
                                   </div>
                                   <div>
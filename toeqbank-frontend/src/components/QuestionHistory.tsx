@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  questionRevisionService,
+  QuestionRevision,
+  RevisionChangeType,
+  describeRevisionField,
+  formatRevisionValue
+} from '../services/questionRevisionApi';
+
+interface QuestionHistoryProps {
+  questionId: number;
+  onRestored?: () => void;
+}
+
+const CHANGE_LABELS: Record<RevisionChangeType, string> = {
+  initial: 'Initial version',
+  create: 'Created',
+  edit: 'Question edited',
+  metadata: 'Metadata updated',
+  exams: 'Exam assignments updated',
+  images: 'Images updated',
+  restore: 'Restored'
+};
+
+const QuestionHistory: React.FC<QuestionHistoryProps> = ({ questionId, onRestored }) => {
+  const { isAdmin } = useAuth();
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRevisions(await questionRevisionService.getRevisions(questionId));
+    } catch (err: any) {
+      console.error('Error loading revisions:', err);
+      setError(err.response?.data?.error || 'Failed to load revision history');
+    } finally {
+      setLoading(false);
+    }
+  }, [questionId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const handleRestore = async (revision: QuestionRevision) => {
+    if (!window.confirm(`Restore revision ${revision.revision_number}? The current version stays in the history.`)) {
+      return;
+    }
+
+    try {
+      setRestoringId(revision.id);
+      setError(null);
+      const result = await questionRevisionService.restoreRevision(questionId, revision.id);
+      setMessage(result.message);
+      await loadRevisions();
+      if (result.revision && onRestored) {
+        onRestored();
+      }
+    } catch (err: any) {
+      console.error('Error restoring revision:', err);
+      setError(err.response?.data?.error || 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-500">Loading revision history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-red-700">{error}</p>}
+      {message && <p className="text-green-700">{message}</p>}
+
+      {revisions.length === 0 && !error && (
+        <p className="text-gray-500">No revisions have been recorded for this question yet.</p>
+      )}
+
+      {revisions.map((revision, index) => (
+        <div key={revision.id} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-gray-900">Revision {revision.revision_number}</span>
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                  {CHANGE_LABELS[revision.change_type]}
+                  {revision.change_type === 'restore' && revision.restored_from_number && ` revision ${revision.restored_from_number}`}
+                </span>
+                {index === 0 && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    Current
+                  </span>
+                )}
+              </div>
+              <div className="text-sm text-gray-600 mt-1">
+                {revision.created_by_username || 'Unknown user'} · {new Date(revision.created_at).toLocaleString()}
+              </div>
+            </div>
+            {isAdmin && index > 0 && (
+              <button
+                onClick={() => handleRestore(revision)}
+                disabled={restoringId !== null}
+                className="px-3 py-1 text-sm border border-blue-300 text-blue-700 rounded hover:bg-blue-50 disabled:opacity-50 flex-shrink-0"
+              >
+                {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+              </button>
+            )}
+          </div>
+
+          {revision.changes.length > 0 && (
+            <table className="w-full mt-3 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 pr-4 font-medium w-40">Field</th>
+                  <th className="py-1 pr-4 font-medium">Before</th>
+                  <th className="py-1 font-medium">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {revision.changes.map(change => (
+                  <tr key={change.field} className="border-t border-gray-100 align-top">
+                    <td className="py-2 pr-4 font-medium text-gray-700">{describeRevisionField(change.field)}</td>
+                    <td className="py-2 pr-4">
+                      {formatRevisionValue(change.before)
+                        ? <span className="bg-red-50 text-red-800 line-through whitespace-pre-wrap">{formatRevisionValue(change.before)}</span>
+                        : <span className="text-gray-400 italic">empty</span>}
+                    </td>
+                    <td className="py-2">
+                      {formatRevisionValue(change.after)
+                        ? <span className="bg-green-50 text-green-800 whitespace-pre-wrap">{formatRevisionValue(change.after)}</span>
+                        : <span className="text-gray-400 italic">empty</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QuestionHistory;
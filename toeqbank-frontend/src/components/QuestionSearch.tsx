@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import {
+  questionService,
+  QuestionSearchResponse,
+  QuestionSearchSnippet,
+  SearchFacet
+} from '../services/api';
+
+const PAGE_SIZE = 20;
+
+const FIELD_LABELS: Record<QuestionSearchSnippet['field'], string> = {
+  question: 'Question',
+  choices: 'Choices',
+  explanation: 'Explanation',
+  keywords: 'Keywords',
+  image_descriptions: 'Image description'
+};
+
+const FACET_LABELS: Record<SearchFacet, string> = {
+  review_status: 'Status',
+  category: 'Category',
+  view_type: 'View'
+};
+
+// Render a ts_headline snippet, turning <mark> tags into highlights without injecting HTML
+const HighlightedText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+        <mark key={index} className="bg-yellow-200 rounded px-0.5">{part.slice(6, -7)}</mark>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const QuestionSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchText, setSearchText] = useState('');
+  const [submittedText, setSubmittedText] = useState('');
+  const [facetFilters, setFacetFilters] = useState<Partial<Record<SearchFacet, string>>>({});
+  const [response, setResponse] = useState<QuestionSearchResponse | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSearch = async (text: string, filters: Partial<Record<SearchFacet, string>>, newOffset: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await questionService.searchQuestions({
+        q: text,
+        status: filters.review_status,
+        category: filters.category,
+        view_type: filters.view_type,
+        limit: PAGE_SIZE,
+        offset: newOffset
+      });
+      setResponse(data);
+      setOffset(newOffset);
+    } catch (err: any) {
+      console.error('Search error:', err);
+      setError(err.response?.data?.error || 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = searchText.trim();
+    if (!text) return;
+    setSubmittedText(text);
+    setFacetFilters({});
+    runSearch(text, {}, 0);
+  };
+
+  const toggleFacet = (facet: SearchFacet, value: string) => {
+    const updated = { ...facetFilters, [facet]: facetFilters[facet] === value ? undefined : value };
+    setFacetFilters(updated);
+    runSearch(submittedText, updated, 0);
+  };
+
+  const clearSearch = () => {
+    setSearchText('');
+    setSubmittedText('');
+    setFacetFilters({});
+    setResponse(null);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+      <form onSubmit={handleSubmit} className="flex items-center space-x-3">
+        <input
+          type="search"
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          placeholder='Search questions, choices, explanations and image descriptions (e.g. "mitral valve" -stenosis)'
+          maxLength={200}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={loading || !searchText.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Search
+        </button>
+        {response && (
+          <button
+            type="button"
+            onClick={clearSearch}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Clear
+          </button>
+        )}
+      </form>
+
+      {error && <p className="mt-4 text-red-700">{error}</p>}
+
+      {response && (
+        <div className="mt-6">
+          <div className="flex flex-wrap gap-6 mb-4">
+            {(Object.keys(FACET_LABELS) as SearchFacet[]).map(facet => response.facets[facet].length > 0 && (
+              <div key={facet}>
+                <div className="text-xs font-medium text-gray-500 uppercase mb-1">{FACET_LABELS[facet]}</div>
+                <div className="flex flex-wrap gap-2">
+                  {response.facets[facet].map(({ value, count }) => (
+                    <button
+                      key={value}
+                      onClick={() => toggleFacet(facet, value)}
+                      className={`px-2.5 py-0.5 rounded-full text-xs font-medium border ${
+                        facetFilters[facet] === value
+                          ? 'bg-blue-600 text-white border-blue-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400'
+                      }`}
+                    >
+                      {value} ({count})
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-sm text-gray-600 mb-3">
+            {response.total} result{response.total !== 1 ? 's' : ''} for “{submittedText}”
+          </div>
+
+          <div className="space-y-3">
+            {response.results.map(result => (
+              <div
+                key={result.id}
+                onClick={() => navigate(`/question/${result.id}`, { state: { from: location.pathname } })}
+                className="border border-gray-200 rounded-lg p-4 hover:bg-blue-50 cursor-pointer"
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-blue-600 font-medium">#{result.question_number || result.id}</span>
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {result.review_status}
+                  </span>
+                  {result.category && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      {result.category}
+                    </span>
+                  )}
+                  {result.view_type && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                      {result.view_type}
+                    </span>
+                  )}
+                </div>
+                {result.snippets.map(snippet => (
+                  <p key={snippet.field} className="text-sm text-gray-800">
+                    {snippet.field !== 'question' && (
+                      <span className="font-medium text-gray-500 mr-1">{FIELD_LABELS[snippet.field]}:</span>
+                    )}
+                    <HighlightedText text={snippet.text} />
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {response.total > PAGE_SIZE && (
+            <div className="mt-4 flex justify-center items-center space-x-4">
+              <button
+                onClick={() => runSearch(submittedText, facetFilters, Math.max(0, offset - PAGE_SIZE))}
+                disabled={loading || offset === 0}
+                className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, response.total)} of {response.total}
+              </span>
+              <button
+                onClick={() => runSearch(submittedText, facetFilters, offset + PAGE_SIZE)}
+                disabled={loading || offset + PAGE_SIZE >= response.total}
+                className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionSearch;
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Question, Image, imageService } from '../services/api';
+import {
+  reviewCommentService,
+  ReviewThread,
+  CommentAnchorType,
+  describeAnchor
+} from '../services/reviewCommentApi';
+
+interface ReviewThreadsProps {
+  questionId: number;
+  // Reviewers can start threads; authors can only reply and resolve
+  canCreate?: boolean;
+  // Needed to offer choice anchors when starting threads
+  question?: Question;
+  onThreadsChange?: (threads: ReviewThread[]) => void;
+}
+
+const CHOICE_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+
+const ANCHOR_LABELS: Record<CommentAnchorType, string> = {
+  question: 'Question stem',
+  choice: 'Answer choice',
+  explanation: 'Explanation',
+  image: 'Image',
+  general: 'General'
+};
+
+const DECISION_LABELS: Record<string, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  returned: 'Returned'
+};
+
+const ReviewThreads: React.FC<ReviewThreadsProps> = ({ questionId, canCreate = false, question, onThreadsChange }) => {
+  const [threads, setThreads] = useState<ReviewThread[]>([]);
+  const [images, setImages] = useState<Image[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [replyDrafts, setReplyDrafts] = useState<Record<number, string>>({});
+  const [busyThreadId, setBusyThreadId] = useState<number | null>(null);
+
+  const [anchorType, setAnchorType] = useState<CommentAnchorType>('question');
+  const [anchorChoice, setAnchorChoice] = useState('');
+  const [anchorImageId, setAnchorImageId] = useState('');
+  const [newComment, setNewComment] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const loadThreads = useCallback(async () => {
+    try {
+      setError(null);
+      const loaded = await reviewCommentService.getThreads(questionId);
+      setThreads(loaded);
+      onThreadsChange?.(loaded);
+    } catch (err: any) {
+      console.error('Error loading review comments:', err);
+      setError(err.response?.data?.error || 'Failed to load review comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [questionId, onThreadsChange]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadThreads();
+  }, [loadThreads]);
+
+  useEffect(() => {
+    if (!canCreate) return;
+    imageService.getImagesForQuestion(questionId)
+      .then(setImages)
+      .catch(err => console.error('Error loading question images:', err));
+  }, [questionId, canCreate]);
+
+  const choiceLetters = CHOICE_LETTERS.filter(letter =>
+    question?.[`choice_${letter.toLowerCase()}` as keyof Question]
+  );
+
+  const handleCreate = async () => {
+    if (!newComment.trim()) return;
+    try {
+      setCreating(true);
+      setError(null);
+      await reviewCommentService.createThread(questionId, {
+        anchor_type: anchorType,
+        anchor_choice: anchorType === 'choice' ? anchorChoice : null,
+        anchor_image_id: anchorType === 'image' ? parseInt(anchorImageId) : null
+      }, newComment.trim());
+      setNewComment('');
+      await loadThreads();
+    } catch (err: any) {
+      console.error('Error creating review comment:', err);
+      setError(err.response?.data?.error || 'Failed to add comment');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleReply = async (threadId: number) => {
+    const body = replyDrafts[threadId]?.trim();
+    if (!body) return;
+    try {
+      setBusyThreadId(threadId);
+      setError(null);
+      await reviewCommentService.reply(threadId, body);
+      setReplyDrafts({ ...replyDrafts, [threadId]: '' });
+      await loadThreads();
+    } catch (err: any) {
+      console.error('Error replying to review comment:', err);
+      setError(err.response?.data?.error || 'Failed to post reply');
+    } finally {
+      setBusyThreadId(null);
+    }
+  };
+
+  const handleResolve = async (thread: ReviewThread) => {
+    try {
+      setBusyThreadId(thread.id);
+      setError(null);
+      if (thread.resolved_at) {
+        await reviewCommentService.reopen(thread.id);
+      } else {
+        await reviewCommentService.resolve(thread.id);
+      }
+      await loadThreads();
+    } catch (err: any) {
+      console.error('Error updating review comment:', err);
+      setError(err.response?.data?.error || 'Failed to update comment');
+    } finally {
+      setBusyThreadId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-500 text-sm">Loading review comments...</p>;
+  }
+
+  const openThreads = threads.filter(thread => !thread.resolved_at);
+  const resolvedThreads = threads.filter(thread => thread.resolved_at);
+  const visibleThreads = showResolved ? threads : openThreads;
+  const canSubmitNew = newComment.trim() && !creating
+    && (anchorType !== 'choice' || anchorChoice)
+    && (anchorType !== 'image' || anchorImageId);
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-red-700 text-sm">{error}</p>}
+
+      {threads.length === 0 && (
+        <p className="text-gray-500 text-sm">No review comments on this question.</p>
+      )}
+
+      {visibleThreads.map(thread => (
+        <div
+          key={thread.id}
+          className={`border rounded-lg p-4 bg-white ${thread.resolved_at ? 'border-gray-200 opacity-75' : 'border-orange-300'}`}
+        >
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                {describeAnchor(thread)}
+              </span>
+              {thread.review_decision && (
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                  {DECISION_LABELS[thread.review_decision]} notes
+                </span>
+              )}
+              {thread.resolved_at ? (
+                <span className="text-xs text-green-700">
+                  Resolved by {thread.resolved_by_username || 'unknown user'} on {new Date(thread.resolved_at).toLocaleDateString()}
+                </span>
+              ) : (
+                <span className="text-xs font-medium text-orange-700">Open</span>
+              )}
+            </div>
+            <button
+              onClick={() => handleResolve(thread)}
+              disabled={busyThreadId !== null}
+              className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-100 disabled:opacity-50 flex-shrink-0"
+            >
+              {thread.resolved_at ? 'Reopen' : 'Resolve'}
+            </button>
+          </div>
+
+          {[thread, ...thread.replies].map(comment => (
+            <div key={comment.id} className={`mt-3 ${comment.id !== thread.id ? 'ml-6 pl-3 border-l-2 border-gray-200' : ''}`}>
+              <div className="text-xs text-gray-500">
+                <span className="font-medium text-gray-700">{comment.author_username || 'Unknown user'}</span>
+                {comment.author_is_reviewer && ' (reviewer)'}
+                {' · '}{new Date(comment.created_at).toLocaleString()}
+              </div>
+              <p className="text-sm text-gray-800 whitespace-pre-wrap">{comment.body}</p>
+            </div>
+          ))}
+
+          {!thread.resolved_at && (
+            <div className="mt-3 ml-6 flex gap-2">
+              <input
+                type="text"
+                value={replyDrafts[thread.id] || ''}
+                onChange={(e) => setReplyDrafts({ ...replyDrafts, [thread.id]: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && handleReply(thread.id)}
+                placeholder="Reply..."
+                className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+              />
+              <button
+                onClick={() => handleReply(thread.id)}
+                disabled={busyThreadId !== null || !replyDrafts[thread.id]?.trim()}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                Reply
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {resolvedThreads.length > 0 && (
+        <button
+          onClick={() => setShowResolved(!showResolved)}
+          className="text-sm text-blue-700 hover:underline"
+        >
+          {showResolved ? 'Hide' : 'Show'} {resolvedThreads.length} resolved comment{resolvedThreads.length !== 1 ? 's' : ''}
+        </button>
+      )}
+
+      {canCreate && (
+        <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+          <div className="flex flex-wrap gap-2 mb-2">
+            <select
+              value={anchorType}
+              onChange={(e) => setAnchorType(e.target.value as CommentAnchorType)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+            >
+              {(Object.keys(ANCHOR_LABELS) as CommentAnchorType[])
+                .filter(type => type !== 'image' || images.length > 0)
+                .map(type => (
+                  <option key={type} value={type}>{ANCHOR_LABELS[type]}</option>
+                ))}
+            </select>
+            {anchorType === 'choice' && (
+              <select
+                value={anchorChoice}
+                onChange={(e) => setAnchorChoice(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                <option value="">Choose...</option>
+                {choiceLetters.map(letter => (
+                  <option key={letter} value={letter}>Choice {letter}</option>
+                ))}
+              </select>
+            )}
+            {anchorType === 'image' && (
+              <select
+                value={anchorImageId}
+                onChange={(e) => setAnchorImageId(e.target.value)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                <option value="">Choose...</option>
+                {images.map(image => (
+                  <option key={image.id} value={image.id}>{image.original_name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <textarea
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            rows={2}
+            placeholder="Add a comment on this part of the question..."
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!canSubmitNew}
+            className="mt-2 px-4 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {creating ? 'Adding...' : 'Add Comment'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewThreads;
@@ -0,0 +1,367 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  testSessionService,
+  TestBuilderOptions,
+  TestBuilderPreview,
+  TestBuilderRequest
+} from '../services/testSessionApi';
+
+interface TestBuilderProps {
+  status: 'approved' | 'pending';
+  onStart: (request: TestBuilderRequest) => void;
+}
+
+type HistoryFilter = 'all' | 'unseen' | 'missed';
+
+const MAX_QUESTIONS = 200;
+// Default mock exam pace when the user hasn't set a time limit
+const SECONDS_PER_QUESTION = 90;
+
+const sectionStyle: React.CSSProperties = {
+  textAlign: 'left',
+  marginBottom: '1rem'
+};
+
+const labelStyle: React.CSSProperties = {
+  fontWeight: 'bold',
+  display: 'block',
+  marginBottom: '0.4rem'
+};
+
+const chipStyle = (selected: boolean): React.CSSProperties => ({
+  padding: '0.25rem 0.75rem',
+  borderRadius: '999px',
+  border: `1px solid ${selected ? '#1976d2' : '#ccc'}`,
+  backgroundColor: selected ? '#e3f2fd' : 'white',
+  color: selected ? '#1976d2' : '#333',
+  cursor: 'pointer',
+  fontSize: '0.85rem'
+});
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const TestBuilder: React.FC<TestBuilderProps> = ({ status, onStart }) => {
+  const [options, setOptions] = useState<TestBuilderOptions | null>(null);
+  const [questionCount, setQuestionCount] = useState<number>(10);
+  const [searchText, setSearchText] = useState<string>('');
+  const [examName, setExamName] = useState<string>('');
+  const [sections, setSections] = useState<string[]>([]);
+  const [viewTypes, setViewTypes] = useState<string[]>([]);
+  const [modalities, setModalities] = useState<string[]>([]);
+  const [difficultyMin, setDifficultyMin] = useState<string>('');
+  const [difficultyMax, setDifficultyMax] = useState<string>('');
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>('all');
+  const [useDistribution, setUseDistribution] = useState(false);
+  const [weights, setWeights] = useState<Record<string, number>>({});
+  const [mode, setMode] = useState<'practice' | 'exam'>('practice');
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number | null>(null);
+  const [preview, setPreview] = useState<TestBuilderPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    testSessionService.getBuilderOptions()
+      .then(setOptions)
+      .catch(err => console.error('Failed to load test builder options:', err));
+  }, []);
+
+  const examSections = useMemo(
+    () => options?.exams.find(exam => exam.name === examName)?.sections || [],
+    [options, examName]
+  );
+
+  // Reset section choices when the exam changes; default to an even blueprint
+  useEffect(() => {
+    setSections([]);
+    setWeights(Object.fromEntries(examSections.map(section => [section, 1])));
+    if (examSections.length === 0) {
+      setUseDistribution(false);
+    }
+  }, [examSections]);
+
+  const request = useMemo<TestBuilderRequest>(() => ({
+    question_count: questionCount,
+    status,
+    filters: {
+      exam_name: examName || undefined,
+      sections: sections.length > 0 ? sections : undefined,
+      view_types: viewTypes.length > 0 ? viewTypes : undefined,
+      modalities: modalities.length > 0 ? modalities : undefined,
+      difficulty_min: difficultyMin ? parseInt(difficultyMin) : undefined,
+      difficulty_max: difficultyMax ? parseInt(difficultyMax) : undefined,
+      search: searchText.trim() || undefined,
+      unseen_only: historyFilter === 'unseen',
+      missed_only: historyFilter === 'missed'
+    },
+    distribution: useDistribution && examName ? weights : undefined
+  }), [questionCount, status, searchText, examName, sections, viewTypes, modalities, difficultyMin, difficultyMax, historyFilter, useDistribution, weights]);
+
+  const defaultTimeLimit = Math.ceil(((preview?.question_count || questionCount) * SECONDS_PER_QUESTION) / 60);
+  const effectiveTimeLimit = timeLimitMinutes ?? defaultTimeLimit;
+
+  const handleStart = () => {
+    onStart(mode === 'exam'
+      ? { ...request, mode, time_limit_minutes: effectiveTimeLimit }
+      : request);
+  };
+
+  // Re-count matching questions shortly after the filters stop changing
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        setPreview(await testSessionService.previewSession(request));
+        setPreviewError(null);
+      } catch (err: any) {
+        setPreview(null);
+        setPreviewError(err.response?.data?.error || 'Failed to count matching questions');
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [request]);
+
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + (weight || 0), 0);
+  const canStart = !!preview && preview.question_count > 0;
+
+  return (
+    <div className="test-options" style={{ maxWidth: '720px', margin: '0 auto' }}>
+      <h3>Test Configuration:</h3>
+
+      <div style={{ ...sectionStyle, marginTop: '1.5rem' }}>
+        <label style={labelStyle}>Search <span style={{ fontWeight: 'normal', color: '#666' }}>(only questions matching these words)</span></label>
+        <input
+          type="search"
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          placeholder='e.g. "aortic dissection" or mitral -stenosis'
+          maxLength={200}
+          style={{ padding: '0.5rem', borderRadius: '4px', border: '1px solid #ccc', width: '100%', boxSizing: 'border-box' }}
+        />
+      </div>
+
+      <div style={sectionStyle}>
+        <label style={labelStyle}>Exam</label>
+        <select
+          value={examName}
+          onChange={(e) => setExamName(e.target.value)}
+          style={{ padding: '0.5rem', borderRadius: '4px', border: '1px solid #ccc', minWidth: '220px' }}
+        >
+          <option value="">Any exam</option>
+          {options?.exams.map(exam => (
+            <option key={exam.name} value={exam.name}>{exam.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {examSections.length > 0 && !useDistribution && (
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Sections <span style={{ fontWeight: 'normal', color: '#666' }}>(none selected = all)</span></label>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+            {examSections.map(section => (
+              <button key={section} type="button" style={chipStyle(sections.includes(section))} onClick={() => setSections(toggle(sections, section))}>
+                {section}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {options && options.view_types.length > 0 && (
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Echo Views</label>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+            {options.view_types.map(view => (
+              <button key={view} type="button" style={chipStyle(viewTypes.includes(view))} onClick={() => setViewTypes(toggle(viewTypes, view))}>
+                {view}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {options && options.modalities.length > 0 && (
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Modalities</label>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+            {options.modalities.map(modality => (
+              <button key={modality} type="button" style={chipStyle(modalities.includes(modality))} onClick={() => setModalities(toggle(modalities, modality))}>
+                {modality}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div style={{ ...sectionStyle, display: 'flex', gap: '2rem', flexWrap: 'wrap' }}>
+        <div>
+          <label style={labelStyle}>Difficulty</label>
+          <select value={difficultyMin} onChange={(e) => setDifficultyMin(e.target.value)} style={{ padding: '0.4rem' }}>
+            <option value="">Min</option>
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          <span style={{ margin: '0 0.5rem' }}>to</span>
+          <select value={difficultyMax} onChange={(e) => setDifficultyMax(e.target.value)} style={{ padding: '0.4rem' }}>
+            <option value="">Max</option>
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label style={labelStyle}>Question History</label>
+          {([
+            ['all', 'All questions'],
+            ['unseen', 'Only unseen'],
+            ['missed', 'Only previously missed']
+          ] as [HistoryFilter, string][]).map(([value, label]) => (
+            <label key={value} style={{ marginRight: '1rem', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                name="history-filter"
+                checked={historyFilter === value}
+                onChange={() => setHistoryFilter(value)}
+                style={{ marginRight: '0.3rem' }}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {examSections.length > 0 && (
+        <div style={{ ...sectionStyle, backgroundColor: '#f8f9fa', padding: '1rem', borderRadius: '8px' }}>
+          <label style={{ cursor: 'pointer', fontWeight: 'bold' }}>
+            <input
+              type="checkbox"
+              checked={useDistribution}
+              onChange={(e) => setUseDistribution(e.target.checked)}
+              style={{ marginRight: '0.5rem' }}
+            />
+            Match a section distribution (mock {examName})
+          </label>
+          {useDistribution && (
+            <table style={{ width: '100%', marginTop: '0.75rem', fontSize: '0.9rem' }}>
+              <thead>
+                <tr style={{ textAlign: 'left' }}>
+                  <th>Section</th>
+                  <th>Weight</th>
+                  <th>Share</th>
+                  <th>Selected</th>
+                </tr>
+              </thead>
+              <tbody>
+                {examSections.map(section => {
+                  const composed = preview?.composition?.find(c => c.section === section);
+                  return (
+                    <tr key={section}>
+                      <td>{section}</td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          value={weights[section] ?? 0}
+                          onChange={(e) => setWeights({ ...weights, [section]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          style={{ width: '70px', padding: '0.25rem' }}
+                        />
+                      </td>
+                      <td>{totalWeight > 0 ? `${Math.round(((weights[section] || 0) / totalWeight) * 100)}%` : '-'}</td>
+                      <td style={{ color: composed && composed.selected < composed.requested ? '#F44336' : '#333' }}>
+                        {composed ? `${composed.selected} / ${composed.requested}` : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      <div style={{ ...sectionStyle, display: 'flex', gap: '2rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        <div>
+          <label style={labelStyle}>Mode</label>
+          <label style={{ marginRight: '1rem', cursor: 'pointer' }}>
+            <input type="radio" name="test-mode" checked={mode === 'practice'} onChange={() => setMode('practice')} style={{ marginRight: '0.3rem' }} />
+            Practice
+          </label>
+          <label style={{ cursor: 'pointer' }}>
+            <input type="radio" name="test-mode" checked={mode === 'exam'} onChange={() => setMode('exam')} style={{ marginRight: '0.3rem' }} />
+            Timed mock exam
+          </label>
+        </div>
+        {mode === 'exam' && (
+          <div>
+            <label htmlFor="time-limit" style={labelStyle}>Time Limit (minutes)</label>
+            <input
+              id="time-limit"
+              type="number"
+              min="1"
+              max="600"
+              value={effectiveTimeLimit}
+              onChange={(e) => setTimeLimitMinutes(Math.min(Math.max(1, parseInt(e.target.value) || 1), 600))}
+              style={{ padding: '0.4rem', width: '80px', borderRadius: '4px', border: '1px solid #ccc' }}
+            />
+          </div>
+        )}
+      </div>
+      {mode === 'exam' && (
+        <p style={{ textAlign: 'left', color: '#666', fontSize: '0.9rem' }}>
+          Answers and explanations stay hidden until you submit. You can flag questions and pause the clock; the exam submits itself when time runs out.
+        </p>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '0.75rem', marginTop: '1.5rem' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+          <label htmlFor="question-count" style={{ fontWeight: 'bold' }}>
+            Number of Questions:
+          </label>
+          <input
+            id="question-count"
+            type="number"
+            min="1"
+            max={MAX_QUESTIONS}
+            value={questionCount}
+            onChange={(e) => {
+              const value = parseInt(e.target.value) || 1;
+              setQuestionCount(Math.min(Math.max(1, value), MAX_QUESTIONS));
+            }}
+            style={{
+              padding: '0.5rem',
+              fontSize: '1rem',
+              width: '80px',
+              borderRadius: '4px',
+              border: '1px solid #ccc'
+            }}
+          />
+        </div>
+
+        {previewError ? (
+          <span style={{ color: '#F44336' }}>{previewError}</span>
+        ) : preview && (
+          <span style={{ color: preview.available > 0 ? '#27ae60' : '#F44336', fontWeight: 'bold' }}>
+            {preview.available} {status} question{preview.available !== 1 ? 's' : ''} match
+            {preview.question_count < questionCount && preview.available > 0 && ` — the test will have ${preview.question_count}`}
+          </span>
+        )}
+
+        <button
+          onClick={handleStart}
+          disabled={!canStart}
+          className="test-option"
+          style={{
+            marginTop: '0.5rem',
+            padding: '0.75rem 2rem',
+            fontSize: '1.1rem',
+            backgroundColor: canStart ? '#4CAF50' : '#9e9e9e',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            cursor: canStart ? 'pointer' : 'not-allowed'
+          }}
+        >
+          Start {mode === 'exam' ? 'Mock Exam' : 'Test'} ({preview ? preview.question_count : questionCount} question{(preview ? preview.question_count : questionCount) !== 1 ? 's' : ''})
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TestBuilder;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { TestSession } from '../types';
 import QuestionCard from './QuestionCard';
 
@@ -9,11 +10,12 @@ interface TestResultsProps {
 
 const TestResults: React.FC<TestResultsProps> = ({ testSession, onRestartTest }) => {
   const { questions, userAnswers } = testSession;
-  const correctAnswers = userAnswers.filter(answer => answer?.isCorrect).length;
+  // Prefer the score stored when the session was completed on the server
+  const correctAnswers = testSession.correctAnswers ?? userAnswers.filter(answer => answer?.isCorrect).length;
   const totalQuestions = questions.length;
-  const scorePercentage = Math.round((correctAnswers / totalQuestions) * 100);
+  const scorePercentage = Math.round(testSession.scorePercentage ?? (correctAnswers / totalQuestions) * 100);
   
-  const totalTime = Math.floor((Date.now() - testSession.startTime.getTime()) / 1000);
+  const totalTime = testSession.totalTimeSeconds ?? Math.floor((Date.now() - testSession.startTime.getTime()) / 1000);
   const averageTimePerQuestion = Math.round(totalTime / totalQuestions);
 
   const getScoreColor = () => {
@@ -68,6 +70,9 @@ const TestResults: React.FC<TestResultsProps> = ({ testSession, onRestartTest })
         <button onClick={onRestartTest} className="primary-button">
           Take Another Test
         </button>
+        <Link to="/my-progress" style={{ marginLeft: '1rem' }}>
+          View My Progress
+        </Link>
       </div>
 
       <div className="question-review">
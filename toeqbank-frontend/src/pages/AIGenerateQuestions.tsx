@@ -2,12 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { imageService } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
+import GeneratedQuestionList from '../components/GeneratedQuestionList';
+import { aiGenerationService, generationDetails, formatCost, GeneratedQuestion, GenerationRun, GenerationTotals } from '../services/aiGenerationApi';
 import './AIGenerateQuestions.css';
 
 interface SelectedImage {
   id: number;
   filename: string;
   description?: string;
+  tags?: string[];
   file_path?: string;
   has_questions?: boolean;
   uploader_username?: string;
@@ -28,7 +31,10 @@ const AIGenerateQuestions: React.FC = () => {
   const [selectedImages, setSelectedImages] = useState<number[]>([]);
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
-  const [generatedQuestions, setGeneratedQuestions] = useState<any[]>([]);
+  const [generatedQuestions, setGeneratedQuestions] = useState<GeneratedQuestion[]>([]);
+  const [lastRun, setLastRun] = useState<GenerationRun | null>(null);
+  const [questionsPerImage, setQuestionsPerImage] = useState(1);
+  const [usage, setUsage] = useState<{ totals: GenerationTotals; model: string } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedDescriptions, setExpandedDescriptions] = useState<ExpandedDescriptions>({});
@@ -45,6 +51,7 @@ const AIGenerateQuestions: React.FC = () => {
     }
     loadImages();
     loadUploaders();
+    loadUsage();
   }, [isAdmin, navigate]);
 
   // Reload images when uploader filter changes
@@ -80,6 +87,15 @@ const AIGenerateQuestions: React.FC = () => {
     }
   };
 
+  const loadUsage = async () => {
+    try {
+      const { totals, client } = await aiGenerationService.getRuns(1);
+      setUsage({ totals, model: client.model });
+    } catch (err) {
+      console.error('Failed to load generation usage:', err);
+    }
+  };
+
   const handleImageToggle = (imageId: number) => {
     setSelectedImages(prev =>
       prev.includes(imageId)
@@ -117,16 +133,24 @@ const AIGenerateQuestions: React.FC = () => {
     setGenerating(true);
     setError(null);
     setGeneratedQuestions([]);
+    setLastRun(null);
 
     try {
-      // TODO: Implement API call to generate questions from images
-      // This would call a new endpoint that uses AI to analyze images and generate questions
-      // For now, showing a placeholder message
-      setError('AI question generation endpoint not yet implemented. This feature will analyze selected images and generate relevant questions.');
-    } catch (err) {
-      setError('Failed to generate questions');
+      const selected = images.filter(img => selectedImages.includes(img.id));
+      const { run, questions } = await aiGenerationService.generateQuestions(selected.map(generationDetails), questionsPerImage);
+      setLastRun(run);
+      setGeneratedQuestions(questions);
+      setSelectedImages([]);
+      loadImages();
+    } catch (err: any) {
+      // A run that produced nothing still comes back with its usage and failures
+      if (err.response?.data?.run) {
+        setLastRun(err.response.data.run);
+      }
+      setError(err.response?.data?.error || 'Failed to generate questions');
       console.error(err);
     } finally {
+      loadUsage();
       setGenerating(false);
     }
   };
@@ -147,6 +171,11 @@ const AIGenerateQuestions: React.FC = () => {
       <div className="page-header">
         <h2>AI Generate Questions from Images</h2>
         <p>Select images to automatically generate questions using AI analysis</p>
+        {usage && (
+          <div className="filter-stats" style={{ marginLeft: images.length > 0 ? '10px' : 0 }}>
+            Model: {usage.model} · {usage.totals.runs} run{usage.totals.runs === 1 ? '' : 's'}, {usage.totals.questions} questions, {formatCost(usage.totals.cost_usd)} spent so far
+          </div>
+        )}
         {images.length > 0 && (
           <div className="filter-stats">
             Showing {filteredImages.length} of {images.length} images
@@ -211,6 +240,18 @@ const AIGenerateQuestions: React.FC = () => {
         </div>
 
         <div className="action-buttons">
+          <select
+            value={questionsPerImage}
+            onChange={(e) => setQuestionsPerImage(parseInt(e.target.value))}
+            className="filter-select"
+            style={{ minWidth: 0 }}
+            disabled={generating}
+            title="How many questions to draft from each selected image"
+          >
+            {[1, 2, 3].map(count => (
+              <option key={count} value={count}>{count} per image</option>
+            ))}
+          </select>
           <button
             onClick={handleSelectAll}
             className="btn btn-secondary"
@@ -228,6 +269,14 @@ const AIGenerateQuestions: React.FC = () => {
         </div>
       </div>
 
+      {lastRun && (
+        <GeneratedQuestionList
+          run={lastRun}
+          questions={generatedQuestions}
+          imageNames={Object.fromEntries(images.map(img => [img.id, img.filename]))}
+        />
+      )}
+
       {loading ? (
         <div className="loading-container">
           <div className="spinner"></div>
@@ -320,13 +369,6 @@ const AIGenerateQuestions: React.FC = () => {
           ))}
         </div>
       )}
-
-      {generatedQuestions.length > 0 && (
-        <div className="generated-questions">
-          <h3>Generated Questions</h3>
-          {/* TODO: Display generated questions here */}
-        </div>
-      )}
     </div>
   );
 };
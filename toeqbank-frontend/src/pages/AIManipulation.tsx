@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { questionService, questionMetadataService, examService } from '../services/api';
+import { aiEnrichmentService, isJobActive, EnrichmentJob, EnrichmentFailure, EnrichmentItemStatus } from '../services/aiEnrichmentApi';
 
 interface QuestionStatus {
   id: number;
@@ -9,68 +9,106 @@ interface QuestionStatus {
   hasMetadata: boolean;
   hasExamMapping: boolean;
   needsProcessing: boolean;
+  lastStatus?: EnrichmentItemStatus | null;
+  lastError?: string | null;
 }
 
+const JOB_POLL_INTERVAL_MS = 3000;
+
 const AIManipulation: React.FC = () => {
   const { isAdmin } = useAuth();
   const [questions, setQuestions] = useState<QuestionStatus[]>([]);
   const [loading, setLoading] = useState(true);
-  const [processing, setProcessing] = useState(false);
-  const [processingProgress, setProcessingProgress] = useState({ current: 0, total: 0 });
+  const [job, setJob] = useState<EnrichmentJob | null>(null);
+  const [failures, setFailures] = useState<EnrichmentFailure[]>([]);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [selectedQuestions, setSelectedQuestions] = useState<Set<number>>(new Set());
   const [showOnlyPending, setShowOnlyPending] = useState(true);
   const [costEstimate, setCostEstimate] = useState({ input: 0, output: 0, total: 0 });
-  
-  // Store processed questions in localStorage for persistence (simulation only)
-  const [processedQuestionIds, setProcessedQuestionIds] = useState<Set<number>>(() => {
-    const stored = localStorage.getItem('processedQuestions');
-    return stored ? new Set(JSON.parse(stored)) : new Set();
-  });
 
-  useEffect(() => {
-    loadQuestions();
-  }, []);
+  const processing = !!job && isJobActive(job);
 
-  useEffect(() => {
-    calculateCost();
-  }, [selectedQuestions, questions]);
-
-  const loadQuestions = async () => {
+  const loadQuestions = useCallback(async (selectPending: boolean) => {
     try {
       setLoading(true);
-      const response = await questionService.getQuestions(1000); // Get up to 1000 questions
-      
-      // Check which questions have been processed (simulation)
-      // In production, this would check actual metadata/exam mapping status from the database
-      const questionsWithStatus: QuestionStatus[] = response.questions.map(q => {
-        const questionId = q.id || 0;
-        const isProcessed = processedQuestionIds.has(questionId);
-        
-        return {
-          id: questionId,
-          question_number: q.question_number || `Q${questionId}`,
-          question: q.question.substring(0, 100) + (q.question.length > 100 ? '...' : ''),
-          hasMetadata: isProcessed, // Processed questions have both metadata and exam mapping
-          hasExamMapping: isProcessed,
-          needsProcessing: !isProcessed
-        };
-      });
+      const statuses = await aiEnrichmentService.getQuestions(1000); // Get up to 1000 questions
+
+      const questionsWithStatus: QuestionStatus[] = statuses.map(q => ({
+        id: q.id,
+        question_number: q.question_number || `Q${q.id}`,
+        question: q.question.substring(0, 100) + (q.question.length > 100 ? '...' : ''),
+        hasMetadata: q.has_metadata,
+        hasExamMapping: q.has_exam_mapping,
+        needsProcessing: !q.has_metadata || !q.has_exam_mapping,
+        lastStatus: q.last_status,
+        lastError: q.last_error
+      }));
 
       setQuestions(questionsWithStatus);
-      
+
       // Auto-select questions that need processing (if not currently processing)
-      if (!processing) {
+      if (selectPending) {
         const needsWork = questionsWithStatus
-          .filter(q => q.needsProcessing)
+          .filter(q => q.needsProcessing && q.lastStatus !== 'pending' && q.lastStatus !== 'running')
           .map(q => q.id);
         setSelectedQuestions(new Set(needsWork));
       }
     } catch (error) {
       console.error('Error loading questions:', error);
+      setError('Failed to load questions');
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
+
+  // Pick up the latest job, so a batch started earlier (or by another admin) keeps showing its progress
+  useEffect(() => {
+    if (!isAdmin) return;
+    const loadLatestJob = async () => {
+      try {
+        const { jobs } = await aiEnrichmentService.getJobs(1);
+        const latest = jobs[0] || null;
+        setJob(latest);
+        await loadQuestions(!latest || !isJobActive(latest));
+        if (latest) {
+          const details = await aiEnrichmentService.getJob(latest.id);
+          setFailures(details.failures);
+        }
+      } catch (error) {
+        console.error('Error loading enrichment jobs:', error);
+        await loadQuestions(true);
+      }
+    };
+    loadLatestJob();
+  }, [isAdmin, loadQuestions]);
+
+  // Follow the active job until it finishes, then refresh the flags it changed
+  useEffect(() => {
+    if (!job || !isJobActive(job)) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const details = await aiEnrichmentService.getJob(job.id);
+        setJob(details.job);
+        setFailures(details.failures);
+        setRateLimitedUntil(details.rate_limited_until);
+        if (!isJobActive(details.job)) {
+          setRateLimitedUntil(null);
+          setSelectedQuestions(new Set());
+          loadQuestions(false);
+        }
+      } catch (error) {
+        console.error('Error checking job progress:', error);
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [job, loadQuestions]);
+
+  useEffect(() => {
+    calculateCost();
+  }, [selectedQuestions, questions]);
 
   const calculateCost = () => {
     // Claude 3 Opus pricing (as of 2024)
@@ -119,61 +157,48 @@ const AIManipulation: React.FC = () => {
       return;
     }
 
-    const confirmMessage = `Process ${selectedQuestions.size} questions?\n\nEstimated cost: $${costEstimate.total.toFixed(4)}\n\nThis will generate metadata and exam mappings using Claude AI.`;
+    const confirmMessage = `Process ${selectedQuestions.size} questions?\n\nEstimated cost: $${costEstimate.total.toFixed(4)}\n\nThis will generate metadata and exam mappings using Claude AI. The questions are processed on the server, so you can leave this page while it runs.`;
     
     if (!window.confirm(confirmMessage)) {
       return;
     }
 
-    setProcessing(true);
-    const questionIds = Array.from(selectedQuestions);
-    setProcessingProgress({ current: 0, total: questionIds.length });
-    
     try {
-      const newProcessedIds = new Set(processedQuestionIds);
-      
-      // Process each question with realistic delays
-      for (let i = 0; i < questionIds.length; i++) {
-        const questionId = questionIds[i];
-        setProcessingProgress({ current: i + 1, total: questionIds.length });
-        
-        console.log(`Processing question ${questionId}... (${i + 1}/${questionIds.length})`);
-        
-        // Simulate realistic processing time (2-4 seconds per question)
-        await new Promise(resolve => setTimeout(resolve, Math.random() * 2000 + 2000));
-        
-        // Here you would call the actual AI processing endpoints:
-        // try {
-        //   await questionMetadataService.generateMetadata(questionId);
-        //   await examService.generateExamMapping(questionId);
-        // } catch (error) {
-        //   console.error(`Error processing question ${questionId}:`, error);
-        //   continue; // Skip this question but continue with others
-        // }
-        
-        // Mark question as processed (simulation)
-        newProcessedIds.add(questionId);
-        
-        // Update localStorage with processed questions
-        localStorage.setItem('processedQuestions', JSON.stringify(Array.from(newProcessedIds)));
-      }
-      
-      // Update state with newly processed questions
-      setProcessedQuestionIds(newProcessedIds);
-      
-      alert(`Successfully processed ${selectedQuestions.size} questions!`);
-      
-      // Clear selection since these questions are now processed
-      setSelectedQuestions(new Set());
-      
-      // Reload questions to show updated status
-      await loadQuestions();
-    } catch (error) {
-      console.error('Error processing questions:', error);
-      alert('Error processing questions. Check console for details.');
-    } finally {
-      setProcessing(false);
-      setProcessingProgress({ current: 0, total: 0 });
+      setError(null);
+      const created = await aiEnrichmentService.createJob(Array.from(selectedQuestions));
+      setJob(created);
+      setFailures([]);
+      await loadQuestions(false);
+    } catch (err: any) {
+      console.error('Error queueing questions:', err);
+      setError(err.response?.data?.error || 'Failed to queue questions for processing');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job || !window.confirm('Stop processing? The question in progress will finish first.')) {
+      return;
+    }
+    try {
+      setJob(await aiEnrichmentService.cancelJob(job.id));
+      setRateLimitedUntil(null);
+      await loadQuestions(false);
+    } catch (err: any) {
+      console.error('Error cancelling job:', err);
+      setError(err.response?.data?.error || 'Failed to cancel processing');
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!job) return;
+    try {
+      setError(null);
+      setJob(await aiEnrichmentService.retryJob(job.id));
+      setFailures([]);
+      await loadQuestions(false);
+    } catch (err: any) {
+      console.error('Error retrying job:', err);
+      setError(err.response?.data?.error || 'Failed to retry processing');
     }
   };
 
@@ -188,7 +213,7 @@ const AIManipulation: React.FC = () => {
     );
   }
 
-  if (loading) {
+  if (loading && questions.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -212,6 +237,13 @@ const AIManipulation: React.FC = () => {
           <p className="text-xl text-gray-600">Generate metadata and exam mappings for questions using AI</p>
         </div>
 
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800 flex justify-between items-center">
+            <span>{error}</span>
+            <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">×</button>
+          </div>
+        )}
+
         {/* Cost Estimate Panel */}
         <div className="bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl shadow-lg p-6 text-white mb-8">
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -286,29 +318,75 @@ const AIManipulation: React.FC = () => {
               >
                 {processing ? 'Processing...' : `Process ${selectedQuestions.size} Questions`}
               </button>
+              {processing && (
+                <button
+                  onClick={handleCancel}
+                  className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
             </div>
           </div>
 
           {/* Progress Bar */}
-          {processing && processingProgress.total > 0 && (
+          {job && job.total > 0 && (
             <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm font-medium text-blue-800">
-                  Processing Questions...
+                  {processing
+                    ? 'Processing Questions...'
+                    : job.status === 'cancelled' ? 'Processing cancelled' : 'Processing complete'}
                 </span>
                 <span className="text-sm text-blue-600">
-                  {processingProgress.current} of {processingProgress.total}
+                  {job.succeeded + job.failed + job.cancelled} of {job.total}
+                  {job.failed > 0 && ` (${job.failed} failed)`}
                 </span>
               </div>
               <div className="w-full bg-blue-200 rounded-full h-2 mb-2">
                 <div 
                   className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
-                  style={{ width: `${(processingProgress.current / processingProgress.total) * 100}%` }}
+                  style={{ width: `${((job.succeeded + job.failed + job.cancelled) / job.total) * 100}%` }}
                 ></div>
               </div>
               <p className="text-xs text-blue-600">
-                Generating metadata and exam mappings using Claude AI...
+                {rateLimitedUntil
+                  ? `Rate limited by the AI provider; resuming at ${new Date(rateLimitedUntil).toLocaleTimeString()}`
+                  : processing
+                    ? 'Generating metadata and exam mappings using Claude AI...'
+                    : `Spent $${job.cost_usd.toFixed(4)} (${job.input_tokens.toLocaleString()} input / ${job.output_tokens.toLocaleString()} output tokens)`}
               </p>
+
+              {failures.length > 0 && (
+                <div className="mt-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-red-800">Failed after {failures[0].attempts} attempt{failures[0].attempts === 1 ? '' : 's'}:</span>
+                    {!processing && (
+                      <button
+                        onClick={handleRetry}
+                        className="px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                      >
+                        Retry Failed
+                      </button>
+                    )}
+                  </div>
+                  <ul className="text-xs text-red-700 space-y-1">
+                    {failures.map(failure => (
+                      <li key={failure.id}>
+                        {failure.question_number || `Q${failure.question_id}`}: {failure.last_error || 'Unknown error'}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {failures.length === 0 && job.status === 'cancelled' && job.cancelled > 0 && (
+                <button
+                  onClick={handleRetry}
+                  className="mt-3 px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                >
+                  Resume {job.cancelled} Cancelled
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -375,7 +453,18 @@ const AIManipulation: React.FC = () => {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      {question.needsProcessing ? (
+                      {question.lastStatus === 'pending' || question.lastStatus === 'running' ? (
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-purple-100 text-purple-800">
+                          {question.lastStatus === 'running' ? 'Processing' : 'Queued'}
+                        </span>
+                      ) : question.needsProcessing && question.lastStatus === 'failed' ? (
+                        <span
+                          className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800"
+                          title={question.lastError || undefined}
+                        >
+                          Failed
+                        </span>
+                      ) : question.needsProcessing ? (
                         <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
                           Pending
                         </span>
@@ -413,7 +502,7 @@ const AIManipulation: React.FC = () => {
                   <li>Metadata generation includes: difficulty level, categories, topics, and keywords</li>
                   <li>Exam mapping associates questions with specific exam objectives and learning outcomes</li>
                   <li>Cost estimates are based on Claude 3 Opus pricing (~500 input tokens, ~200 output tokens per question)</li>
-                  <li>Processing happens in batches for efficiency</li>
+                  <li>Questions are processed on the server one at a time, with retries and a pause when the AI provider rate-limits us</li>
                 </ul>
               </div>
             </div>
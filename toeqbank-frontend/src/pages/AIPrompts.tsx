@@ -0,0 +1,392 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { llmService, FEATURE_NAMES, LlmFeature, LlmFeatureInfo, LlmUsageSummary, LlmUsageTotals, PromptTemplate } from '../services/llmApi';
+import { formatCost } from '../services/aiGenerationApi';
+
+interface Draft {
+  template: string;
+  schema: string;
+  maxTokens: string;
+  notes: string;
+}
+
+const USAGE_PERIODS = [7, 30, 90];
+
+const toDraft = (template: PromptTemplate): Draft => ({
+  template: template.template,
+  schema: template.output_schema ? JSON.stringify(template.output_schema, null, 2) : '',
+  maxTokens: String(template.max_tokens),
+  notes: ''
+});
+
+const AIPrompts: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [features, setFeatures] = useState<LlmFeatureInfo[]>([]);
+  const [client, setClient] = useState<{ name: string; model: string } | null>(null);
+  const [selected, setSelected] = useState<LlmFeature>('question_metadata');
+  const [versions, setVersions] = useState<PromptTemplate[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [usage, setUsage] = useState<LlmUsageSummary | null>(null);
+  const [usageDays, setUsageDays] = useState(30);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const feature = features.find(candidate => candidate.feature === selected);
+
+  const loadFeatures = useCallback(async () => {
+    try {
+      const data = await llmService.getFeatures();
+      setFeatures(data.features);
+      setClient(data.client);
+    } catch (err: any) {
+      console.error('Error loading prompt templates:', err);
+      setError(err.response?.data?.error || 'Failed to load prompt templates');
+    }
+  }, []);
+
+  const loadVersions = useCallback(async (target: LlmFeature) => {
+    try {
+      setVersions(await llmService.getVersions(target));
+    } catch (err: any) {
+      console.error('Error loading prompt versions:', err);
+      setError(err.response?.data?.error || 'Failed to load prompt versions');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadFeatures();
+    }
+  }, [isAdmin, loadFeatures]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadVersions(selected);
+      setDraft(null);
+    }
+  }, [isAdmin, selected, loadVersions]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    llmService.getUsage(usageDays)
+      .then(setUsage)
+      .catch((err: any) => {
+        console.error('Error loading LLM usage:', err);
+        setError(err.response?.data?.error || 'Failed to load usage');
+      });
+  }, [isAdmin, usageDays]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    let outputSchema: Record<string, any> | null = null;
+    if (draft.schema.trim()) {
+      try {
+        outputSchema = JSON.parse(draft.schema);
+      } catch {
+        setError('The output schema is not valid JSON');
+        return;
+      }
+    }
+
+    try {
+      setSaving(true);
+      const created = await llmService.createVersion(selected, {
+        template: draft.template,
+        output_schema: outputSchema,
+        max_tokens: parseInt(draft.maxTokens),
+        notes: draft.notes || undefined
+      });
+      setDraft(null);
+      setNotice(`Saved version ${created.version}; it is now live`);
+      await Promise.all([loadFeatures(), loadVersions(selected)]);
+    } catch (err: any) {
+      console.error('Error saving prompt template:', err);
+      setError(err.response?.data?.error || 'Failed to save prompt template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async (version: number) => {
+    try {
+      await llmService.activateVersion(selected, version);
+      setNotice(`Version ${version} is now live`);
+      await Promise.all([loadFeatures(), loadVersions(selected)]);
+    } catch (err: any) {
+      console.error('Error activating prompt template:', err);
+      setError(err.response?.data?.error || 'Failed to activate prompt template');
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm(`Forget cached ${FEATURE_NAMES[selected]} responses? The next requests will be sent to the model again.`)) {
+      return;
+    }
+    try {
+      const cleared = await llmService.clearCache(selected);
+      setNotice(`Cleared ${cleared} cached response${cleared === 1 ? '' : 's'}`);
+    } catch (err: any) {
+      console.error('Error clearing LLM cache:', err);
+      setError(err.response?.data?.error || 'Failed to clear cache');
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const headerCell = 'px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  const usageCells = (totals: LlmUsageTotals) => (
+    <>
+      <td className="px-4 py-2 text-sm text-right">{totals.calls.toLocaleString()}</td>
+      <td className="px-4 py-2 text-sm text-right">{totals.cached_calls.toLocaleString()}</td>
+      <td className="px-4 py-2 text-sm text-right">{totals.failed_calls.toLocaleString()}</td>
+      <td className="px-4 py-2 text-sm text-right">{(totals.input_tokens + totals.output_tokens).toLocaleString()}</td>
+      <td className="px-4 py-2 text-sm text-right font-medium">{formatCost(totals.cost_usd)}</td>
+    </>
+  );
+
+  const usageHeader = (label: string) => (
+    <thead className="bg-gray-50">
+      <tr>
+        <th className={`${headerCell} text-left`}>{label}</th>
+        <th className={`${headerCell} text-right`}>Calls</th>
+        <th className={`${headerCell} text-right`}>Cached</th>
+        <th className={`${headerCell} text-right`}>Failed</th>
+        <th className={`${headerCell} text-right`}>Tokens</th>
+        <th className={`${headerCell} text-right`}>Cost</th>
+      </tr>
+    </thead>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">AI Prompts & Usage</h1>
+          <button
+            onClick={() => navigate('/admin')}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Back to Admin Dashboard
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 text-red-500 hover:text-red-700">×</button>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded mb-4">
+            {notice}
+            <button onClick={() => setNotice(null)} className="ml-2 text-green-500 hover:text-green-700">×</button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Usage</h2>
+          <select
+            value={usageDays}
+            onChange={(e) => setUsageDays(parseInt(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {USAGE_PERIODS.map(days => <option key={days} value={days}>Last {days} days</option>)}
+          </select>
+          {client && (
+            <span className="text-sm text-gray-600">
+              Client: {client.name} ({client.model}){client.name === 'fake' ? ' — offline, nothing is billed' : ''}
+            </span>
+          )}
+        </div>
+
+        {usage && (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(420px, 1fr))', gap: '1.5rem' }}>
+            <table className="min-w-full divide-y divide-gray-300">
+              {usageHeader('Feature')}
+              <tbody className="bg-white divide-y divide-gray-200">
+                {usage.by_feature.map(row => (
+                  <tr key={row.feature}>
+                    <td className="px-4 py-2 text-sm">{FEATURE_NAMES[row.feature] || row.feature}</td>
+                    {usageCells(row)}
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-semibold">
+                  <td className="px-4 py-2 text-sm">All features</td>
+                  {usageCells(usage.totals)}
+                </tr>
+              </tbody>
+            </table>
+            <table className="min-w-full divide-y divide-gray-300">
+              {usageHeader('User')}
+              <tbody className="bg-white divide-y divide-gray-200">
+                {usage.by_user.map(row => (
+                  <tr key={row.user_id ?? 'anonymous'}>
+                    <td className="px-4 py-2 text-sm">{row.username || (row.user_id ? `User ${row.user_id}` : 'Not signed in')}</td>
+                    {usageCells(row)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Prompts</h2>
+          <select
+            value={selected}
+            onChange={(e) => setSelected(e.target.value as LlmFeature)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {features.map(candidate => (
+              <option key={candidate.feature} value={candidate.feature}>{FEATURE_NAMES[candidate.feature] || candidate.feature}</option>
+            ))}
+          </select>
+          <div className="flex-1" />
+          <button
+            onClick={handleClearCache}
+            className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm"
+          >
+            Clear Cached Responses
+          </button>
+          {!draft && feature && (
+            <button
+              onClick={() => setDraft(toDraft(feature.active))}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm"
+            >
+              Edit Prompt
+            </button>
+          )}
+        </div>
+
+        {feature && (
+          <>
+            <p className="text-sm text-gray-600 mb-2">
+              {feature.description}. Version {feature.active.version} is live. Placeholders:{' '}
+              {Object.entries(feature.variables).map(([name, description], index) => (
+                <span key={name} title={description}>
+                  {index > 0 && ', '}
+                  <code className="bg-gray-100 px-1 rounded">{`{{${name}}}`}</code>
+                </span>
+              ))}
+            </p>
+
+            {draft ? (
+              <div className="space-y-3">
+                <textarea
+                  value={draft.template}
+                  onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                  rows={18}
+                  style={{ width: '100%', fontFamily: 'monospace' }}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+                />
+                <label className="block text-sm font-medium text-gray-700">
+                  Output schema (JSON; responses that don't match it are rejected)
+                  <textarea
+                    value={draft.schema}
+                    onChange={(e) => setDraft({ ...draft, schema: e.target.value })}
+                    rows={8}
+                    style={{ width: '100%', fontFamily: 'monospace' }}
+                    className="mt-1 px-3 py-2 text-sm border border-gray-300 rounded-md"
+                  />
+                </label>
+                <div className="flex flex-wrap items-center gap-4">
+                  <label className="text-sm text-gray-700">
+                    Max tokens{' '}
+                    <input
+                      type="number"
+                      min={1}
+                      value={draft.maxTokens}
+                      onChange={(e) => setDraft({ ...draft, maxTokens: e.target.value })}
+                      style={{ width: '6rem' }}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded"
+                    />
+                  </label>
+                  <input
+                    type="text"
+                    value={draft.notes}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    placeholder="What changed in this version"
+                    style={{ flex: 1, minWidth: '16rem' }}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded"
+                  />
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || !draft.template.trim()}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save as New Version'}
+                  </button>
+                  <button
+                    onClick={() => setDraft(null)}
+                    disabled={saving}
+                    className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs" style={{ whiteSpace: 'pre-wrap', maxHeight: '24rem', overflowY: 'auto' }}>
+                {feature.active.template}
+              </pre>
+            )}
+          </>
+        )}
+
+        {versions.length > 0 && (
+          <table className="min-w-full divide-y divide-gray-300 mt-6">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={`${headerCell} text-left`}>Version</th>
+                <th className={`${headerCell} text-left`}>Notes</th>
+                <th className={`${headerCell} text-left`}>Saved</th>
+                <th className={`${headerCell} text-right`}></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {versions.map(version => (
+                <tr key={version.id}>
+                  <td className="px-4 py-2 text-sm font-medium">
+                    v{version.version}
+                    {version.is_active && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Live</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{version.notes || (version.version === 1 ? 'Built-in prompt' : '')}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">
+                    {new Date(version.created_at).toLocaleString()}{version.created_by_username ? ` by ${version.created_by_username}` : ''}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {!version.is_active && (
+                      <button onClick={() => handleActivate(version.version)} className="text-blue-600 hover:underline">
+                        Make Live
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AIPrompts;
@@ -66,6 +66,70 @@ const AdminDashboard: React.FC = () => {
         }
       ]
     },
+    {
+      title: 'Practice Tests',
+      description: 'Curate named practice tests and publish them to students',
+      icon: (
+        <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+        </svg>
+      ),
+      options: [
+        {
+          name: 'View All Practice Tests',
+          description: 'Edit, publish and review results of practice tests',
+          path: '/admin/practice-tests',
+          color: 'green'
+        },
+        {
+          name: 'Create Practice Test',
+          description: 'Build a new test from approved questions',
+          path: '/admin/practice-tests/new',
+          color: 'blue'
+        },
+        {
+          name: 'Exams & Blueprints',
+          description: 'Exam categories, exam types and the syllabus sections questions are assigned to',
+          path: '/admin/exam-blueprints',
+          color: 'purple'
+        },
+        {
+          name: 'Blueprint Coverage',
+          description: 'Questions per exam section and subtopic against targets, with the gaps highlighted',
+          path: '/admin/blueprint-coverage',
+          color: 'red'
+        }
+      ]
+    },
+    {
+      title: 'Question Review',
+      description: 'Approval quorums, reviewer disagreements and workload',
+      icon: (
+        <svg className="w-8 h-8 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+      ),
+      options: [
+        {
+          name: 'Review Consensus',
+          description: 'Set required approvals and settle escalated questions',
+          path: '/admin/review-consensus',
+          color: 'yellow'
+        },
+        {
+          name: 'Reviewer Workload',
+          description: 'Throughput, turnaround and assigned batches per reviewer',
+          path: '/admin/reviewer-workload',
+          color: 'indigo'
+        },
+        {
+          name: 'Review Rubric',
+          description: 'Rejection reasons reviewers can cite, and why batches are sent back',
+          path: '/admin/review-rubric',
+          color: 'purple'
+        }
+      ]
+    },
     {
       title: 'AI Tools',
       description: 'AI-powered question analysis and enhancement tools',
@@ -80,6 +144,12 @@ const AdminDashboard: React.FC = () => {
           description: 'AI-powered question enhancement and analysis',
           path: '/admin/ai',
           color: 'cyan'
+        },
+        {
+          name: 'AI Prompts & Usage',
+          description: 'Versioned prompts for each AI feature, and tokens spent per feature and user',
+          path: '/admin/ai/prompts',
+          color: 'blue'
         }
       ]
     },
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { batchService } from '../services/api';
+import { adminService, AdminUser } from '../services/adminApi';
+import { reviewAssignmentService } from '../services/reviewAssignmentApi';
 
 interface UploadBatch {
   id: number;
@@ -11,6 +13,8 @@ interface UploadBatch {
   actual_question_count: number;
   file_name: string;
   description: string;
+  assigned_reviewer_id?: number | null;
+  assigned_reviewer_username?: string | null;
 }
 
 const BatchManagement: React.FC = () => {
@@ -18,10 +22,15 @@ const BatchManagement: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deletingBatchId, setDeletingBatchId] = useState<number | null>(null);
+  const [reviewers, setReviewers] = useState<AdminUser[]>([]);
+  const [assigningBatchId, setAssigningBatchId] = useState<number | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
     loadBatches();
+    adminService.getUsers()
+      .then(users => setReviewers(users.filter(user => user.is_reviewer || user.is_admin)))
+      .catch(err => console.error('Error loading reviewers:', err));
   }, []);
 
   const loadBatches = async () => {
@@ -62,6 +71,19 @@ const BatchManagement: React.FC = () => {
     }
   };
 
+  const handleAssignReviewer = async (batch: UploadBatch, reviewerId: number | null) => {
+    try {
+      setAssigningBatchId(batch.id);
+      const updated = await reviewAssignmentService.assignBatch(batch.id, reviewerId);
+      setBatches(batches.map(b => b.id === batch.id ? { ...b, ...updated } : b));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to assign batch');
+      console.error('Error assigning batch:', err);
+    } finally {
+      setAssigningBatchId(null);
+    }
+  };
+
   const handleViewBatch = (batchId: number) => {
     navigate(`/admin/batches/${batchId}`);
   };
@@ -124,6 +146,9 @@ const BatchManagement: React.FC = () => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Upload Date
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reviewer
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
@@ -132,7 +157,7 @@ const BatchManagement: React.FC = () => {
               <tbody className="bg-white divide-y divide-gray-300">
                 {batches.length === 0 ? (
                   <tr>
-                    <td colSpan={6} className="px-6 py-12 text-center">
+                    <td colSpan={7} className="px-6 py-12 text-center">
                       <div className="text-gray-500">
                         <h3 className="text-lg font-medium text-gray-900 mb-2">No Upload Batches</h3>
                         <p className="text-gray-500">No upload batches have been created yet.</p>
@@ -175,6 +200,19 @@ const BatchManagement: React.FC = () => {
                           {new Date(batch.upload_date).toLocaleTimeString()}
                         </span>
                       </td>
+                      <td className="px-6 py-8 whitespace-nowrap text-sm">
+                        <select
+                          value={batch.assigned_reviewer_id || ''}
+                          onChange={(e) => handleAssignReviewer(batch, e.target.value ? parseInt(e.target.value) : null)}
+                          disabled={assigningBatchId === batch.id}
+                          className="px-2 py-1 border border-gray-300 rounded text-sm"
+                        >
+                          <option value="">Shared queue</option>
+                          {reviewers.filter(reviewer => reviewer.username !== batch.uploader_username).map(reviewer => (
+                            <option key={reviewer.id} value={reviewer.id}>{reviewer.username}</option>
+                          ))}
+                        </select>
+                      </td>
                       <td className="px-6 py-8 whitespace-nowrap text-sm font-medium space-x-2">
                         <button
                           onClick={() => handleViewBatch(batch.id)}
@@ -0,0 +1,368 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  examRegistryService,
+  ExamBlueprint,
+  BlueprintCoverage as Coverage,
+  BlueprintTargets,
+  CoverageRow,
+  CoverageState,
+  CoverageStatus,
+  CoverageTarget,
+  sectionLabel
+} from '../services/examRegistryApi';
+
+const STATE_STYLES: Record<CoverageState, { label: string; badge: string; row?: string }> = {
+  met: { label: 'Met', badge: 'bg-green-100 text-green-800' },
+  in_pipeline: { label: 'In pipeline', badge: 'bg-yellow-100 text-yellow-800', row: '#fffbeb' },
+  gap: { label: 'Gap', badge: 'bg-red-100 text-red-800', row: '#fef2f2' },
+  no_target: { label: 'No target', badge: 'bg-gray-100 text-gray-600' }
+};
+
+const toTargets = (blueprint: ExamBlueprint): BlueprintTargets => ({
+  target_total: blueprint.target_total ?? null,
+  sections: blueprint.sections.map(section => ({
+    number: section.number,
+    target_count: section.target_count ?? null,
+    weight: section.weight ?? null,
+    subtopics: section.subtopics.map(subtopic => ({
+      number: subtopic.number,
+      target_count: subtopic.target_count ?? null,
+      weight: subtopic.weight ?? null
+    }))
+  }))
+});
+
+const parseInput = (value: string) => value === '' ? null : Number(value);
+
+const BlueprintCoverage: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [blueprints, setBlueprints] = useState<ExamBlueprint[]>([]);
+  const [coverage, setCoverage] = useState<Coverage | null>(null);
+  const [targets, setTargets] = useState<BlueprintTargets | null>(null);
+  const [gapsOnly, setGapsOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedId = searchParams.get('blueprint') ? parseInt(searchParams.get('blueprint')!) : blueprints[0]?.id;
+  const blueprint = blueprints.find(candidate => candidate.id === selectedId);
+
+  const loadBlueprints = useCallback(async () => {
+    try {
+      const registry = await examRegistryService.getRegistry();
+      setBlueprints(registry.blueprints);
+      if (registry.blueprints.length === 0) {
+        setLoading(false);
+      }
+    } catch (err: any) {
+      console.error('Error loading exam blueprints:', err);
+      setError(err.response?.data?.error || 'Failed to load exam blueprints');
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadBlueprints();
+    }
+  }, [isAdmin, loadBlueprints]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    const loadCoverage = async () => {
+      try {
+        setLoading(true);
+        setCoverage(await examRegistryService.getCoverage(selectedId));
+        setError(null);
+      } catch (err: any) {
+        console.error('Error loading blueprint coverage:', err);
+        setError(err.response?.data?.error || 'Failed to load coverage');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadCoverage();
+    setTargets(null);
+  }, [selectedId]);
+
+  const handleSaveTargets = async () => {
+    if (!targets || !selectedId) return;
+    try {
+      setSaving(true);
+      setCoverage(await examRegistryService.updateTargets(selectedId, targets));
+      setTargets(null);
+      await loadBlueprints();
+    } catch (err: any) {
+      console.error('Error saving targets:', err);
+      setError(err.response?.data?.error || 'Failed to save targets');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Replace one section's or subtopic's target while editing
+  const setTarget = (sectionNumber: string, subtopicNumber: string | null, updates: CoverageTarget) => {
+    if (!targets) return;
+    setTargets({
+      ...targets,
+      sections: targets.sections.map(section => {
+        if (section.number !== sectionNumber) return section;
+        if (subtopicNumber === null) return { ...section, ...updates };
+        return {
+          ...section,
+          subtopics: section.subtopics.map(subtopic => subtopic.number === subtopicNumber ? { ...subtopic, ...updates } : subtopic)
+        };
+      })
+    });
+  };
+
+  const questionsLink = (section: string, subtopic: string | null, status: CoverageStatus) => {
+    const params = new URLSearchParams({ blueprint: String(selectedId), exam: coverage?.blueprint.name || '', section, status });
+    if (subtopic) params.set('subtopic', subtopic);
+    return `/?${params.toString()}`;
+  };
+
+  const neededImagesLink = (section: string, subtopic: string | null) => {
+    const params = new URLSearchParams({ exam: coverage?.blueprint.name || '', section });
+    if (subtopic) params.set('subtopic', subtopic);
+    return `/needed-images?${params.toString()}`;
+  };
+
+  const countCell = (count: number, link: string) => (
+    <td className="px-4 py-2 text-sm text-right">
+      {count > 0 ? <Link to={link} className="text-blue-600 hover:underline">{count}</Link> : <span className="text-gray-400">0</span>}
+    </td>
+  );
+
+  const targetInputs = (sectionNumber: string, subtopicNumber: string | null) => {
+    const section = targets?.sections.find(candidate => candidate.number === sectionNumber);
+    const target = subtopicNumber === null ? section : section?.subtopics.find(candidate => candidate.number === subtopicNumber);
+    return (
+      <div className="flex gap-1 justify-end">
+        <input
+          type="number"
+          min={0}
+          value={target?.target_count ?? ''}
+          onChange={(e) => setTarget(sectionNumber, subtopicNumber, { target_count: parseInput(e.target.value) })}
+          placeholder="count"
+          title="Fixed number of approved questions"
+          style={{ width: '4.5rem' }}
+          className="px-1 py-0.5 text-sm border border-gray-300 rounded"
+        />
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={target?.weight ?? ''}
+          onChange={(e) => setTarget(sectionNumber, subtopicNumber, { weight: parseInput(e.target.value) })}
+          placeholder="weight"
+          title="Share of the parent's target, used when there is no fixed count"
+          style={{ width: '4.5rem' }}
+          className="px-1 py-0.5 text-sm border border-gray-300 rounded"
+        />
+      </div>
+    );
+  };
+
+  const renderRow = (
+    key: string,
+    label: React.ReactNode,
+    row: CoverageRow,
+    sectionNumber: string,
+    subtopicNumber: string | null
+  ) => (
+    <tr key={key} style={{ backgroundColor: STATE_STYLES[row.state].row }}>
+      <td className={`px-4 py-2 text-sm ${subtopicNumber === null ? 'font-semibold text-gray-900' : 'text-gray-700'}`}
+        style={subtopicNumber === null ? undefined : { paddingLeft: '2.5rem' }}>
+        {label}
+      </td>
+      <td className="px-4 py-2 text-sm text-right">
+        {targets ? targetInputs(sectionNumber, subtopicNumber) : row.target ?? '—'}
+      </td>
+      {countCell(row.approved, questionsLink(sectionNumber, subtopicNumber, 'approved'))}
+      {countCell(row.pending, questionsLink(sectionNumber, subtopicNumber, 'pending'))}
+      {countCell(row.needs_images, neededImagesLink(sectionNumber, subtopicNumber))}
+      <td className="px-4 py-2 text-sm text-right font-medium">{row.shortfall ? row.shortfall : row.shortfall === 0 ? '—' : ''}</td>
+      <td className="px-4 py-2">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATE_STYLES[row.state].badge}`}>
+          {STATE_STYLES[row.state].label}
+        </span>
+      </td>
+    </tr>
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isGap = (row: CoverageRow) => row.state === 'gap' || row.state === 'in_pipeline';
+  const headerCell = 'px-4 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Blueprint Coverage</h1>
+          <button
+            onClick={() => navigate('/admin')}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Back to Admin Dashboard
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+            <button
+              onClick={() => setError(null)}
+              className="ml-2 text-red-500 hover:text-red-700"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <select
+            value={selectedId || ''}
+            onChange={(e) => setSearchParams({ blueprint: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {blueprints.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={gapsOnly} onChange={(e) => setGapsOnly(e.target.checked)} />
+            Only show gaps
+          </label>
+          <div className="flex-1" />
+          {targets ? (
+            <>
+              <label className="text-sm text-gray-700">
+                Blueprint total{' '}
+                <input
+                  type="number"
+                  min={0}
+                  value={targets.target_total ?? ''}
+                  onChange={(e) => setTargets({ ...targets, target_total: parseInput(e.target.value) })}
+                  style={{ width: '6rem' }}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded"
+                />
+              </label>
+              <button
+                onClick={handleSaveTargets}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Targets'}
+              </button>
+              <button
+                onClick={() => setTargets(null)}
+                disabled={saving}
+                className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => blueprint && setTargets(toTargets(blueprint))}
+              disabled={!blueprint}
+              className="bg-blue-100 text-blue-800 px-4 py-2 rounded-lg hover:bg-blue-200 text-sm disabled:opacity-50"
+            >
+              Edit Targets
+            </button>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Targets are approved questions wanted. A section or subtopic takes either a fixed count or a weight; weights share out
+          what is left of the blueprint total (for sections) or the section's target (for subtopics). Counts link to the questions behind them.
+        </p>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : coverage && (
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={`${headerCell} text-left`}>Section / Subtopic</th>
+                <th className={`${headerCell} text-right`}>{targets ? 'Count / Weight' : 'Target'}</th>
+                <th className={`${headerCell} text-right`}>Approved</th>
+                <th className={`${headerCell} text-right`}>In Review</th>
+                <th className={`${headerCell} text-right`}>Needs Images</th>
+                <th className={`${headerCell} text-right`}>Short By</th>
+                <th className={`${headerCell} text-left`}>Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {coverage.sections
+                .filter(section => targets || !gapsOnly || isGap(section) || section.subtopics.some(isGap))
+                .flatMap(section => [
+                  renderRow(section.number, sectionLabel(section), section, section.number, null),
+                  ...section.subtopics
+                    .filter(subtopic => targets || !gapsOnly || isGap(subtopic))
+                    .map(subtopic => renderRow(
+                      `${section.number}/${subtopic.number}`,
+                      <><span className="text-blue-600 font-medium">{subtopic.number}</span> {subtopic.name}</>,
+                      subtopic,
+                      section.number,
+                      subtopic.number
+                    ))
+                ])}
+              <tr className="bg-gray-50 font-semibold">
+                <td className="px-4 py-2 text-sm">All questions in {coverage.blueprint.name}</td>
+                <td className="px-4 py-2 text-sm text-right">{coverage.totals.target ?? '—'}</td>
+                <td className="px-4 py-2 text-sm text-right">{coverage.totals.approved}</td>
+                <td className="px-4 py-2 text-sm text-right">{coverage.totals.pending}</td>
+                <td className="px-4 py-2 text-sm text-right">{coverage.totals.needs_images}</td>
+                <td className="px-4 py-2 text-sm text-right">{coverage.totals.shortfall || ''}</td>
+                <td className="px-4 py-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATE_STYLES[coverage.totals.state].badge}`}>
+                    {STATE_STYLES[coverage.totals.state].label}
+                  </span>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {coverage && coverage.unmatched.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-1">Unmatched Subtopics</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Subtopics stored on questions that no longer match this blueprint, usually after a subtopic was renamed or renumbered.
+            These questions aren't counted above until they are reassigned.
+          </p>
+          <ul className="text-sm space-y-1">
+            {coverage.unmatched.map(entry => (
+              <li key={entry.subtopic}>
+                <span className="font-medium">{entry.subtopic}</span>
+                <span className="text-gray-500"> — {entry.approved} approved, {entry.pending} in review, {entry.needs_images} needing images</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlueprintCoverage;
@@ -0,0 +1,533 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  examRegistryService,
+  ExamRegistry,
+  ExamBlueprint,
+  BlueprintSection,
+  sectionLabel
+} from '../services/examRegistryApi';
+
+const EMPTY_CATEGORY = { code: '', name: '', description: '', icon: '', display_order: 0 };
+const EMPTY_TYPE = { code: '', category_code: '', name: '', description: '', display_order: 0 };
+const EMPTY_BLUEPRINT = { name: '', description: '', category_code: '', display_order: 0, outline: '' };
+
+const OUTLINE_HELP = 'One line per section ("1. Basic TEE") followed by its subtopics ("1.1: Principles of Ultrasound").';
+
+// Sections and subtopics as editable text, one per line
+const toOutline = (sections: BlueprintSection[]) => sections
+  .map(section => [sectionLabel(section), ...section.subtopics.map(subtopic => `${subtopic.number}: ${subtopic.name}`)].join('\n'))
+  .join('\n\n');
+
+// Parse the outline text back into sections; the server checks numbering is unique
+const parseOutline = (outline: string): BlueprintSection[] => {
+  const sections: BlueprintSection[] = [];
+  outline.split('\n').map(line => line.trim()).filter(Boolean).forEach((line, index) => {
+    const subtopic = line.match(/^(\S+?):\s+(.+)$/);
+    if (subtopic) {
+      if (sections.length === 0) {
+        throw new Error(`Line ${index + 1}: subtopic "${line}" comes before any section`);
+      }
+      sections[sections.length - 1].subtopics.push({ number: subtopic[1], name: subtopic[2] });
+      return;
+    }
+    const section = line.match(/^(\S+?)\.\s+(.+)$/);
+    if (!section) {
+      throw new Error(`Line ${index + 1}: "${line}" is neither a section nor a subtopic`);
+    }
+    sections.push({ number: section[1], title: section[2], subtopics: [] });
+  });
+  return sections;
+};
+
+// Coverage targets aren't part of the outline text, so carry them over to sections and subtopics whose numbers survive
+const keepTargets = (sections: BlueprintSection[], existing: BlueprintSection[]): BlueprintSection[] => sections.map(section => {
+  const previous = existing.find(candidate => candidate.number === section.number);
+  return {
+    ...section,
+    target_count: previous?.target_count,
+    weight: previous?.weight,
+    subtopics: section.subtopics.map(subtopic => {
+      const previousSubtopic = previous?.subtopics.find(candidate => candidate.number === subtopic.number);
+      return { ...subtopic, target_count: previousSubtopic?.target_count, weight: previousSubtopic?.weight };
+    })
+  };
+});
+
+const ExamBlueprints: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [registry, setRegistry] = useState<ExamRegistry>({ categories: [], types: [], blueprints: [] });
+  const [newCategory, setNewCategory] = useState(EMPTY_CATEGORY);
+  const [newType, setNewType] = useState(EMPTY_TYPE);
+  const [newBlueprint, setNewBlueprint] = useState(EMPTY_BLUEPRINT);
+  const [editingBlueprint, setEditingBlueprint] = useState<{ id: number; outline: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadData();
+    }
+  }, [isAdmin]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setRegistry(await examRegistryService.getFullRegistry());
+    } catch (err: any) {
+      console.error('Error loading exam registry:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to load exams');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Every change goes through here so errors are shown the same way
+  const runChange = async (key: string, action: () => Promise<void>, failure: string) => {
+    try {
+      setBusyKey(key);
+      setError(null);
+      await action();
+    } catch (err: any) {
+      console.error(`${failure}:`, err);
+      setError(err.response?.data?.error || err.message || failure);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleCreateCategory = (e: React.FormEvent) => {
+    e.preventDefault();
+    runChange('new-category', async () => {
+      const category = await examRegistryService.createCategory(newCategory);
+      setRegistry({ ...registry, categories: [...registry.categories, category].sort((a, b) => a.display_order - b.display_order) });
+      setNewCategory(EMPTY_CATEGORY);
+    }, 'Failed to add category');
+  };
+
+  const handleCreateType = (e: React.FormEvent) => {
+    e.preventDefault();
+    runChange('new-type', async () => {
+      const type = await examRegistryService.createType(newType);
+      setRegistry({ ...registry, types: [...registry.types, type].sort((a, b) => a.display_order - b.display_order) });
+      setNewType(EMPTY_TYPE);
+    }, 'Failed to add exam type');
+  };
+
+  const handleCreateBlueprint = (e: React.FormEvent) => {
+    e.preventDefault();
+    runChange('new-blueprint', async () => {
+      const { outline, ...details } = newBlueprint;
+      const blueprint = await examRegistryService.createBlueprint({
+        ...details,
+        category_code: details.category_code || null,
+        sections: parseOutline(outline)
+      });
+      setRegistry({ ...registry, blueprints: [...registry.blueprints, blueprint] });
+      setNewBlueprint(EMPTY_BLUEPRINT);
+    }, 'Failed to add blueprint');
+  };
+
+  const updateBlueprint = (id: number, updates: Partial<Omit<ExamBlueprint, 'id' | 'name'>>) =>
+    runChange(`blueprint-${id}`, async () => {
+      const updated = await examRegistryService.updateBlueprint(id, updates);
+      setRegistry({ ...registry, blueprints: registry.blueprints.map(b => b.id === id ? updated : b) });
+      setEditingBlueprint(null);
+    }, 'Failed to update blueprint');
+
+  const handleSaveOutline = () => {
+    if (!editingBlueprint) return;
+    try {
+      const existing = registry.blueprints.find(b => b.id === editingBlueprint.id)?.sections || [];
+      const sections = keepTargets(parseOutline(editingBlueprint.outline), existing);
+      if (!window.confirm('Replace this blueprint\'s sections? Questions keep the subtopics they were assigned, even if renamed here.')) return;
+      updateBlueprint(editingBlueprint.id, { sections });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const statusButton = (isActive: boolean, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      disabled={busyKey !== null}
+      className={`px-3 py-1 rounded text-sm disabled:opacity-50 ${
+        isActive
+          ? 'bg-green-100 text-green-800 hover:bg-green-200'
+          : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+      }`}
+    >
+      {isActive ? 'Active' : 'Retired'}
+    </button>
+  );
+
+  const categoryName = (code?: string | null) =>
+    registry.categories.find(category => category.code === code)?.name || code || '—';
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  const headerCell = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded';
+  const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Exams &amp; Blueprints</h1>
+          <button
+            onClick={() => navigate('/admin')}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Back to Admin Dashboard
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+            <button
+              onClick={() => setError(null)}
+              className="ml-2 text-red-500 hover:text-red-700"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mb-4">
+          Exams users choose when they sign up. Codes are stored on user profiles and can't be changed; retire an entry to stop offering it.
+        </p>
+
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Categories</h2>
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerCell}>Code</th>
+              <th className={headerCell}>Name</th>
+              <th className={headerCell}>Order</th>
+              <th className={headerCell}>Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-300">
+            {registry.categories.map(category => (
+              <tr key={category.code} className={category.is_active ? '' : 'bg-gray-50 text-gray-400'}>
+                <td className="px-4 py-3 text-sm font-mono">{category.code}</td>
+                <td className="px-4 py-3 text-sm">
+                  <div className="font-medium">{category.icon} {category.name}</div>
+                  {category.description && <div className="text-xs text-gray-500">{category.description}</div>}
+                </td>
+                <td className="px-4 py-3 text-sm">{category.display_order}</td>
+                <td className="px-4 py-3">
+                  {statusButton(category.is_active, () => runChange(`category-${category.code}`, async () => {
+                    const updated = await examRegistryService.updateCategory(category.code, { is_active: !category.is_active });
+                    setRegistry({ ...registry, categories: registry.categories.map(c => c.code === category.code ? updated : c) });
+                  }, 'Failed to update category'))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <form onSubmit={handleCreateCategory} className="grid grid-cols-1 md:grid-cols-6 gap-3 mt-4 mb-8 items-end">
+          <div>
+            <label className={labelClass}>Code</label>
+            <input
+              value={newCategory.code}
+              onChange={(e) => setNewCategory({ ...newCategory, code: e.target.value })}
+              placeholder="e.g. anaesthesia"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              value={newCategory.name}
+              onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Icon</label>
+            <input
+              value={newCategory.icon}
+              onChange={(e) => setNewCategory({ ...newCategory, icon: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Description</label>
+            <input
+              value={newCategory.description}
+              onChange={(e) => setNewCategory({ ...newCategory, description: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Order</label>
+            <input
+              type="number"
+              value={newCategory.display_order}
+              onChange={(e) => setNewCategory({ ...newCategory, display_order: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busyKey !== null}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            Add Category
+          </button>
+        </form>
+
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Exam Types</h2>
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerCell}>Code</th>
+              <th className={headerCell}>Name</th>
+              <th className={headerCell}>Category</th>
+              <th className={headerCell}>Order</th>
+              <th className={headerCell}>Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-300">
+            {registry.types.map(type => (
+              <tr key={type.code} className={type.is_active ? '' : 'bg-gray-50 text-gray-400'}>
+                <td className="px-4 py-3 text-sm font-mono">{type.code}</td>
+                <td className="px-4 py-3 text-sm font-medium">{type.name}</td>
+                <td className="px-4 py-3 text-sm">{categoryName(type.category_code)}</td>
+                <td className="px-4 py-3 text-sm">{type.display_order}</td>
+                <td className="px-4 py-3">
+                  {statusButton(type.is_active, () => runChange(`type-${type.code}`, async () => {
+                    const updated = await examRegistryService.updateType(type.code, { is_active: !type.is_active });
+                    setRegistry({ ...registry, types: registry.types.map(t => t.code === type.code ? updated : t) });
+                  }, 'Failed to update exam type'))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <form onSubmit={handleCreateType} className="grid grid-cols-1 md:grid-cols-6 gap-3 mt-4 items-end">
+          <div>
+            <label className={labelClass}>Code</label>
+            <input
+              value={newType.code}
+              onChange={(e) => setNewType({ ...newType, code: e.target.value })}
+              placeholder="e.g. step2_cs"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              value={newType.name}
+              onChange={(e) => setNewType({ ...newType, name: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Category</label>
+            <select
+              value={newType.category_code}
+              onChange={(e) => setNewType({ ...newType, category_code: e.target.value })}
+              className={inputClass}
+              required
+            >
+              <option value="">Select category</option>
+              {registry.categories.map(category => (
+                <option key={category.code} value={category.code}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Description</label>
+            <input
+              value={newType.description}
+              onChange={(e) => setNewType({ ...newType, description: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Order</label>
+            <input
+              type="number"
+              value={newType.display_order}
+              onChange={(e) => setNewType({ ...newType, display_order: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busyKey !== null}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            Add Exam Type
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 mb-1">Blueprints</h2>
+          <p className="text-sm text-gray-600">
+            Syllabuses questions are assigned to, used by exam assignment, the test builder and the manual assignment dialog.
+            Blueprint names are stored on question assignments and can't be changed.
+          </p>
+        </div>
+
+        {registry.blueprints.map(blueprint => (
+          <div key={blueprint.id} className={`border border-gray-200 rounded-lg p-4 ${blueprint.is_active ? '' : 'bg-gray-50 text-gray-400'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <div>
+                <h3 className="text-lg font-semibold">{blueprint.name}</h3>
+                <div className="text-xs text-gray-500">
+                  {categoryName(blueprint.category_code)} · {blueprint.sections.length} sections ·{' '}
+                  {blueprint.sections.reduce((total, section) => total + section.subtopics.length, 0)} subtopics
+                </div>
+                {blueprint.description && <div className="text-sm text-gray-600">{blueprint.description}</div>}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setEditingBlueprint(
+                    editingBlueprint?.id === blueprint.id ? null : { id: blueprint.id, outline: toOutline(blueprint.sections) }
+                  )}
+                  disabled={busyKey !== null}
+                  className="px-3 py-1 rounded text-sm bg-blue-100 text-blue-800 hover:bg-blue-200 disabled:opacity-50"
+                >
+                  {editingBlueprint?.id === blueprint.id ? 'Close' : 'Edit Sections'}
+                </button>
+                <button
+                  onClick={() => navigate(`/admin/blueprint-coverage?blueprint=${blueprint.id}`)}
+                  className="px-3 py-1 rounded text-sm bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Coverage
+                </button>
+                {statusButton(blueprint.is_active, () => updateBlueprint(blueprint.id, { is_active: !blueprint.is_active }))}
+              </div>
+            </div>
+
+            {editingBlueprint?.id === blueprint.id ? (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-500">{OUTLINE_HELP}</p>
+                <textarea
+                  value={editingBlueprint.outline}
+                  onChange={(e) => setEditingBlueprint({ ...editingBlueprint, outline: e.target.value })}
+                  rows={16}
+                  className="w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded"
+                />
+                <button
+                  onClick={handleSaveOutline}
+                  disabled={busyKey !== null}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+                >
+                  Save Sections
+                </button>
+              </div>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {blueprint.sections.map(section => (
+                  <li key={section.number}>
+                    <span className="font-medium">{sectionLabel(section)}</span>
+                    <span className="text-gray-500"> — {section.subtopics.length} subtopics</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+
+        <form onSubmit={handleCreateBlueprint} className="border-t border-gray-200 pt-4 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900">Add Blueprint</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input
+                value={newBlueprint.name}
+                onChange={(e) => setNewBlueprint({ ...newBlueprint, name: e.target.value })}
+                placeholder="e.g. NBE"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Category</label>
+              <select
+                value={newBlueprint.category_code}
+                onChange={(e) => setNewBlueprint({ ...newBlueprint, category_code: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {registry.categories.map(category => (
+                  <option key={category.code} value={category.code}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <input
+                value={newBlueprint.description}
+                onChange={(e) => setNewBlueprint({ ...newBlueprint, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Order</label>
+              <input
+                type="number"
+                value={newBlueprint.display_order}
+                onChange={(e) => setNewBlueprint({ ...newBlueprint, display_order: parseInt(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Sections</label>
+            <p className="text-xs text-gray-500 mb-1">{OUTLINE_HELP}</p>
+            <textarea
+              value={newBlueprint.outline}
+              onChange={(e) => setNewBlueprint({ ...newBlueprint, outline: e.target.value })}
+              rows={8}
+              className="w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busyKey !== null}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            Add Blueprint
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ExamBlueprints;
@@ -2,12 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { imageService } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
+import GeneratedQuestionList from '../components/GeneratedQuestionList';
+import { aiGenerationService, generationDetails, GeneratedQuestion, GenerationRun } from '../services/aiGenerationApi';
 import './GenerateQuestionsFromImages.css';
 
 interface SelectedImage {
   id: number;
   filename: string;
   description?: string;
+  tags?: string[];
   file_path?: string;
   has_questions?: boolean;
   uploader_username?: string;
@@ -27,6 +30,9 @@ const GenerateQuestionsFromImages: React.FC = () => {
   const [images, setImages] = useState<SelectedImage[]>([]);
   const [selectedImages, setSelectedImages] = useState<number[]>([]);
   const [loading, setLoading] = useState(false);
+  const [drafting, setDrafting] = useState(false);
+  const [draftRun, setDraftRun] = useState<GenerationRun | null>(null);
+  const [draftedQuestions, setDraftedQuestions] = useState<GeneratedQuestion[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedDescriptions, setExpandedDescriptions] = useState<ExpandedDescriptions>({});
@@ -125,6 +131,36 @@ const GenerateQuestionsFromImages: React.FC = () => {
     });
   };
 
+  // Let the AI write a first draft for each selected image instead of starting from a blank form
+  const handleDraftWithAI = async () => {
+    if (selectedImages.length === 0) {
+      setError('Please select at least one image');
+      return;
+    }
+
+    setDrafting(true);
+    setError(null);
+    setDraftRun(null);
+    setDraftedQuestions([]);
+
+    try {
+      const selected = images.filter(img => selectedImages.includes(img.id));
+      const { run, questions } = await aiGenerationService.generateQuestions(selected.map(generationDetails));
+      setDraftRun(run);
+      setDraftedQuestions(questions);
+      setSelectedImages([]);
+      loadImages();
+    } catch (err: any) {
+      if (err.response?.data?.run) {
+        setDraftRun(err.response.data.run);
+      }
+      setError(err.response?.data?.error || 'Failed to draft questions');
+      console.error(err);
+    } finally {
+      setDrafting(false);
+    }
+  };
+
   const filteredImages = images.filter(img => {
     // Filter by search term
     const matchesSearch = img.filename.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -226,13 +262,29 @@ const GenerateQuestionsFromImages: React.FC = () => {
           <button
             onClick={handleGenerateQuestions}
             className="btn btn-primary"
-            disabled={loading || selectedImages.length === 0}
+            disabled={loading || drafting || selectedImages.length === 0}
           >
             {`Create Question (${selectedImages.length} selected)`}
           </button>
+          <button
+            onClick={handleDraftWithAI}
+            className="btn btn-primary"
+            disabled={loading || drafting || selectedImages.length === 0}
+            title="Draft one question per selected image with AI; drafts are saved as pending submission"
+          >
+            {drafting ? 'Drafting...' : '🤖 Draft with AI'}
+          </button>
         </div>
       </div>
 
+      {draftRun && (
+        <GeneratedQuestionList
+          run={draftRun}
+          questions={draftedQuestions}
+          imageNames={Object.fromEntries(images.map(img => [img.id, img.filename]))}
+        />
+      )}
+
       {loading ? (
         <div className="loading-container">
           <div className="spinner"></div>
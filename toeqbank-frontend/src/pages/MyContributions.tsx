@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { questionService, imageService, Image } from '../services/api';
+import { questionService, imageService, Image, IMAGE_REVIEW_CRITERIA } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import './MyContributions.css';
 
@@ -28,6 +28,7 @@ const MyContributions: React.FC = () => {
   const [myReturnedImages, setMyReturnedImages] = useState<MyImage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [replacingImageId, setReplacingImageId] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState<'questions' | 'images'>('questions');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [dateFilter, setDateFilter] = useState<string>('all');
@@ -80,6 +81,8 @@ const MyContributions: React.FC = () => {
         return 'bg-red-100 text-red-800';
       case 'returned':
         return 'bg-orange-100 text-orange-800';
+      case 'escalated':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -116,6 +119,21 @@ const MyContributions: React.FC = () => {
     }
   };
 
+  // Upload a fixed file for a returned image; it keeps its id and goes back for review
+  const handleReplaceImage = async (imageId: number, file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setReplacingImageId(imageId);
+      const replaced = await imageService.replaceImage(imageId, file);
+      setMyImages(myImages.map(img => img.id === imageId ? { ...img, ...replaced, latest_review: img.latest_review } : img));
+    } catch (err: any) {
+      alert(err.response?.data?.error || 'Failed to upload replacement');
+    } finally {
+      setReplacingImageId(null);
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     const sizes = ['Bytes', 'KB', 'MB', 'GB'];
     if (bytes === 0) return '0 Bytes';
@@ -231,6 +249,7 @@ const MyContributions: React.FC = () => {
               <option value="all">All Statuses</option>
               <option value="pending submission">Pending Submission</option>
               <option value="pending">Pending Review</option>
+              <option value="escalated">Awaiting Admin Decision</option>
               <option value="approved">Approved</option>
               <option value="returned">Needs Revision</option>
               <option value="rejected">Rejected</option>
@@ -310,7 +329,7 @@ const MyContributions: React.FC = () => {
             ) : (
               <div className="space-y-8">
                 {/* Group questions by status */}
-                {['returned', 'rejected', 'pending submission', 'pending', 'approved'].map(status => {
+                {['returned', 'rejected', 'pending submission', 'pending', 'escalated', 'approved'].map(status => {
                   const statusQuestions = getFilteredQuestions().filter(q => {
                     if (statusFilter === 'all') {
                       return q.review_status === status;
@@ -325,6 +344,7 @@ const MyContributions: React.FC = () => {
                     rejected: { icon: '❌', title: 'Rejected', color: 'red', bgColor: 'bg-red-50', borderColor: 'border-red-200' },
                     'pending submission': { icon: '📝', title: 'Pending Submission', color: 'blue', bgColor: 'bg-blue-50', borderColor: 'border-blue-200' },
                     pending: { icon: '⏳', title: 'Pending Review', color: 'yellow', bgColor: 'bg-yellow-50', borderColor: 'border-yellow-200' },
+                    escalated: { icon: '⚖️', title: 'Awaiting Admin Decision', color: 'purple', bgColor: 'bg-purple-50', borderColor: 'border-purple-200' },
                     approved: { icon: '✅', title: 'Approved', color: 'green', bgColor: 'bg-green-50', borderColor: 'border-green-200' }
                   };
 
@@ -510,6 +530,32 @@ const MyContributions: React.FC = () => {
                                     </div>
                                   )}
 
+                                  {image.review_status === 'returned' && (
+                                    <div className="text-left bg-orange-50 border border-orange-200 rounded p-2 mb-1">
+                                      {image.review_notes && (
+                                        <div className="text-orange-800 mb-1">{image.review_notes}</div>
+                                      )}
+                                      {image.latest_review && (
+                                        <div className="text-gray-600 mb-1">
+                                          {IMAGE_REVIEW_CRITERIA.map(criterion => (
+                                            <div key={criterion.key}>{criterion.label}: {image.latest_review![criterion.key]}/10</div>
+                                          ))}
+                                        </div>
+                                      )}
+                                      <label className="block text-center bg-orange-600 text-white px-2 py-1 rounded cursor-pointer hover:bg-orange-700">
+                                        {replacingImageId === image.id ? 'Uploading...' : 'Upload Replacement'}
+                                        <input
+                                          type="file"
+                                          accept="image/*,video/*,.dcm,.dicom,application/dicom"
+                                          className="hidden"
+                                          style={{ display: 'none' }}
+                                          disabled={replacingImageId !== null}
+                                          onChange={(e) => handleReplaceImage(image.id!, e.target.files?.[0])}
+                                        />
+                                      </label>
+                                    </div>
+                                  )}
+
                                   {image.tags && image.tags.length > 0 && (
                                     <div className="mb-1">
                                       <span className="bg-blue-100 text-blue-800 px-1 rounded text-xs">
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { performanceService, PerformanceReport, AreaPerformance, PerformanceDimension } from '../services/performanceApi';
+
+const DIMENSION_LABELS: Record<PerformanceDimension, string> = {
+  category: 'Category',
+  view_type: 'Echo View',
+  major_structure: 'Structure',
+  subtopic: 'Exam Subtopic'
+};
+
+const getAccuracyColor = (accuracy: number) => {
+  if (accuracy >= 80) return '#4CAF50'; // Green
+  if (accuracy >= 60) return '#FF9800'; // Orange
+  return '#F44336'; // Red
+};
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return '-';
+  return `${Math.round(seconds)}s`;
+};
+
+const BreakdownTable: React.FC<{ title: string; rows: AreaPerformance[] }> = ({ title, rows }) => (
+  <div style={{ backgroundColor: 'white', borderRadius: '8px', padding: '1rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
+    <h3 style={{ marginBottom: '0.75rem' }}>{title}</h3>
+    {rows.length === 0 ? (
+      <p style={{ color: '#666' }}>No answered questions in this breakdown yet.</p>
+    ) : (
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+        <thead>
+          <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+            <th style={{ padding: '0.4rem' }}>Area</th>
+            <th style={{ padding: '0.4rem' }}>Answered</th>
+            <th style={{ padding: '0.4rem' }}>Accuracy</th>
+            <th style={{ padding: '0.4rem' }}>Avg. Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={`${row.exam_name || ''}-${row.area}`} style={{ borderBottom: '1px solid #eee' }}>
+              <td style={{ padding: '0.4rem' }}>
+                {row.area}
+                {row.exam_name && <span style={{ color: '#888', fontSize: '0.8rem' }}> ({row.exam_name})</span>}
+              </td>
+              <td style={{ padding: '0.4rem' }}>{row.correct} / {row.attempts}</td>
+              <td style={{ padding: '0.4rem' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <div style={{ flex: 1, height: '8px', backgroundColor: '#eee', borderRadius: '4px', minWidth: '60px' }}>
+                    <div style={{ width: `${row.accuracy}%`, height: '100%', backgroundColor: getAccuracyColor(row.accuracy), borderRadius: '4px' }} />
+                  </div>
+                  <span style={{ fontWeight: 'bold', color: getAccuracyColor(row.accuracy) }}>{Math.round(row.accuracy)}%</span>
+                </div>
+              </td>
+              <td style={{ padding: '0.4rem' }}>{formatSeconds(row.avg_time_seconds)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const MyProgress: React.FC = () => {
+  const [report, setReport] = useState<PerformanceReport | null>(null);
+  const [trendInterval, setTrendInterval] = useState<'day' | 'week'>('week');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setReport(await performanceService.getMyPerformance(trendInterval));
+      } catch (err: any) {
+        console.error('Error loading performance report:', err);
+        setError(err.response?.data?.error || 'Failed to load your progress');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadReport();
+  }, [trendInterval]);
+
+  if (loading) {
+    return <div className="loading">Loading your progress...</div>;
+  }
+
+  if (error || !report) {
+    return (
+      <div className="error">
+        <p>{error || 'Failed to load your progress'}</p>
+      </div>
+    );
+  }
+
+  const { summary, trend, weakest_areas } = report;
+
+  if (summary.total_attempts === 0) {
+    return (
+      <div style={{ maxWidth: '900px', margin: '0 auto', padding: '2rem' }}>
+        <h2>My Progress</h2>
+        <p style={{ marginTop: '1rem' }}>
+          You haven't answered any questions yet. <Link to="/practice">Take a practice test</Link> to start tracking your progress.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: '1100px', margin: '0 auto', padding: '2rem' }}>
+      <h2 style={{ marginBottom: '1.5rem' }}>My Progress</h2>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '1rem', marginBottom: '2rem' }}>
+        {[
+          { label: 'Overall Accuracy', value: `${Math.round(summary.accuracy)}%`, color: getAccuracyColor(summary.accuracy) },
+          { label: 'Questions Answered', value: summary.total_attempts },
+          { label: 'Unique Questions Seen', value: summary.questions_seen },
+          { label: 'Tests Completed', value: summary.completed_sessions },
+          { label: 'Avg. Time/Question', value: formatSeconds(summary.avg_time_seconds) }
+        ].map(card => (
+          <div key={card.label} style={{ backgroundColor: 'white', borderRadius: '8px', padding: '1rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', textAlign: 'center' }}>
+            <div style={{ fontSize: '1.75rem', fontWeight: 'bold', color: card.color || '#333' }}>{card.value}</div>
+            <div style={{ color: '#666', fontSize: '0.85rem' }}>{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ backgroundColor: '#fff5f5', border: '1px solid #f5c6cb', borderRadius: '8px', padding: '1rem', marginBottom: '2rem' }}>
+        <h3 style={{ marginBottom: '0.75rem' }}>What to Study Next</h3>
+        {weakest_areas.length === 0 ? (
+          <p style={{ color: '#666' }}>Answer a few more questions in each area to see where you need the most work.</p>
+        ) : (
+          <ol style={{ paddingLeft: '1.25rem' }}>
+            {weakest_areas.map(area => (
+              <li key={`${area.dimension}-${area.exam_name || ''}-${area.area}`} style={{ marginBottom: '0.4rem' }}>
+                <strong>{area.area}</strong>
+                <span style={{ color: '#888' }}> — {DIMENSION_LABELS[area.dimension]}</span>
+                : <span style={{ color: getAccuracyColor(area.accuracy), fontWeight: 'bold' }}>{Math.round(area.accuracy)}%</span>
+                <span style={{ color: '#666' }}> ({area.correct} of {area.attempts} correct)</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div style={{ backgroundColor: 'white', borderRadius: '8px', padding: '1rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)', marginBottom: '2rem' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+          <h3>Accuracy Over Time</h3>
+          <select value={trendInterval} onChange={(e) => setTrendInterval(e.target.value as 'day' | 'week')} style={{ padding: '0.25rem 0.5rem' }}>
+            <option value="week">By week</option>
+            <option value="day">By day</option>
+          </select>
+        </div>
+        {trend.length === 0 ? (
+          <p style={{ color: '#666' }}>No recent activity.</p>
+        ) : (
+          <div style={{ display: 'flex', alignItems: 'flex-end', gap: '0.5rem', height: '180px', overflowX: 'auto' }}>
+            {trend.map(point => (
+              <div
+                key={point.period_start}
+                title={`${point.correct} of ${point.attempts} correct`}
+                style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'flex-end', height: '100%', minWidth: '48px', flex: 1 }}
+              >
+                <span style={{ fontSize: '0.75rem', fontWeight: 'bold' }}>{Math.round(point.accuracy)}%</span>
+                <div style={{ width: '70%', height: `${Math.max(point.accuracy, 2)}%`, backgroundColor: getAccuracyColor(point.accuracy), borderRadius: '4px 4px 0 0' }} />
+                <span style={{ fontSize: '0.7rem', color: '#666', marginTop: '0.25rem', whiteSpace: 'nowrap' }}>
+                  {new Date(point.period_start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(480px, 1fr))', gap: '1.5rem' }}>
+        <BreakdownTable title="By Category" rows={report.by_category} />
+        <BreakdownTable title="By Echo View" rows={report.by_view_type} />
+        <BreakdownTable title="By Structure" rows={report.by_major_structure} />
+        <BreakdownTable title="By Exam Subtopic" rows={report.by_subtopic} />
+      </div>
+    </div>
+  );
+};
+
+export default MyProgress;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { questionService } from '../services/api';
+import ReviewThreads from '../components/ReviewThreads';
 
 interface ReturnedQuestion {
   id: number;
@@ -10,6 +11,8 @@ interface ReturnedQuestion {
   review_status: string;
   review_notes: string;
   reviewer_name: string;
+  // Rubric criteria the reviewers cited
+  review_reasons: { code: string; label: string }[];
   reviewed_at: string;
   created_at: string;
 }
@@ -102,9 +105,26 @@ const MyReturnedQuestions: React.FC = () => {
                       {question.question}
                     </p>
                     
-                    <div className="bg-white border-l-4 border-red-500 p-4 mb-4 rounded">
-                      <h4 className="font-medium text-gray-900 mb-2">Reviewer Feedback:</h4>
-                      <p className="text-gray-700 text-sm">{question.review_notes}</p>
+                    {question.review_reasons?.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-3">
+                        {question.review_reasons.map(reason => (
+                          <span key={reason.code} className="text-xs text-orange-800 bg-orange-100 px-2 py-1 rounded-full font-medium">
+                            {reason.label}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    
+                    {question.review_notes && (
+                      <div className="bg-white border-l-4 border-red-500 p-4 mb-4 rounded">
+                        <h4 className="font-medium text-gray-900 mb-2">Reviewer Feedback:</h4>
+                        <p className="text-gray-700 text-sm">{question.review_notes}</p>
+                      </div>
+                    )}
+
+                    <div className="mb-4">
+                      <h4 className="font-medium text-gray-900 mb-2">Review Comments:</h4>
+                      <ReviewThreads questionId={question.id} />
                     </div>
                   </div>
                   
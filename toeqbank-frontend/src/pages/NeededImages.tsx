@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { imageDescriptionService, imageService, batchService, questionService, ImageDescription, Image } from '../services/api';
 import ImageUploadModal from '../components/ImageUploadModal';
 import { useAuth } from '../contexts/AuthContext';
@@ -10,6 +11,14 @@ interface ImageDescriptionWithQuestion extends ImageDescription {
 
 const NeededImages: React.FC = () => {
   const { isAdmin } = useAuth();
+  // Set by links from the blueprint coverage report, e.g. ?exam=PTEeXAM&section=3&subtopic=3.2
+  const [searchParams, setSearchParams] = useSearchParams();
+  const examFilter = searchParams.get('exam') && searchParams.get('section') ? {
+    examName: searchParams.get('exam')!,
+    section: searchParams.get('section')!,
+    subtopic: searchParams.get('subtopic') || undefined
+  } : null;
+  const examFilterKey = searchParams.toString();
   const [imageDescriptions, setImageDescriptions] = useState<ImageDescriptionWithQuestion[]>([]);
   const [batches, setBatches] = useState<any[]>([]);
   const [echoViews, setEchoViews] = useState<string[]>([]);
@@ -35,7 +44,7 @@ const NeededImages: React.FC = () => {
 
   useEffect(() => {
     loadImageDescriptions();
-  }, [selectedBatchId, selectedEchoView]);
+  }, [selectedBatchId, selectedEchoView, examFilterKey]);
 
   const loadBatches = async () => {
     try {
@@ -65,9 +74,9 @@ const NeededImages: React.FC = () => {
       
       // Fetch image descriptions with filters
       let descriptions;
-      if (selectedBatchId || selectedEchoView) {
-        // Use filters - batch is admin only, echo view is for all users
-        const filters: { batchId?: number; echoView?: string } = {};
+      if (selectedBatchId || selectedEchoView || examFilter) {
+        // Use filters - batch is admin only, echo view and exam subtopic are for all users
+        const filters: { batchId?: number; echoView?: string; examName?: string; section?: string; subtopic?: string } = { ...examFilter };
         if (selectedBatchId && isAdmin) {
           filters.batchId = selectedBatchId;
         }
@@ -220,6 +229,21 @@ const NeededImages: React.FC = () => {
           </p>
         </div>
 
+        {examFilter && (
+          <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg mb-8 flex items-center justify-between">
+            <span>
+              Showing images needed for {examFilter.examName}{' '}
+              {examFilter.subtopic ? `subtopic ${examFilter.subtopic}` : `section ${examFilter.section}`}
+            </span>
+            <button
+              onClick={() => setSearchParams({})}
+              className="px-3 py-1 text-sm bg-white border border-blue-300 rounded hover:bg-blue-100"
+            >
+              Show All
+            </button>
+          </div>
+        )}
+
         {/* Filter Selectors */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import { questionService } from '../services/api';
+import React, { useState, useEffect, useRef } from 'react';
+import { testSessionService, StoredTestSession, TestBuilderRequest } from '../services/testSessionApi';
+import { practiceTestService, PracticeTest as NamedPracticeTest } from '../services/practiceTestApi';
 import QuestionCard from '../components/QuestionCard';
+import TestBuilder from '../components/TestBuilder';
+import MockExamRunner from '../components/MockExamRunner';
 import TestResults from '../components/TestResults';
 import { UserAnswer, TestSession } from '../types';
 import { useAuth } from '../contexts/AuthContext';
@@ -10,84 +13,129 @@ const PracticeTest: React.FC = () => {
   const [testSession, setTestSession] = useState<TestSession | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [testCompleted, setTestCompleted] = useState(false);
-  const [approvedCount, setApprovedCount] = useState<number>(0);
-  const [pendingCount, setPendingCount] = useState<number>(0);
-  const [checkingQuestions, setCheckingQuestions] = useState(true);
   const [showPendingQuestions, setShowPendingQuestions] = useState(false);
-  const [questionCount, setQuestionCount] = useState<number>(2);
+  const [activeSession, setActiveSession] = useState<TestSession | null>(null);
+  const [sessionHistory, setSessionHistory] = useState<StoredTestSession[]>([]);
+  const [publishedTests, setPublishedTests] = useState<NamedPracticeTest[]>([]);
+  // When the current question was shown, used for response_time_seconds
+  const questionShownAt = useRef<number>(Date.now());
 
   useEffect(() => {
-    // Check for approved and pending questions on component mount
-    const checkQuestions = async () => {
+    // Look for an unfinished session to resume and load recent history
+    const loadSessions = async () => {
       try {
-        const approvedResponse = await questionService.getQuestionsByReviewStatus('approved');
-        setApprovedCount(approvedResponse.questions.length);
-        
-        if (isAdmin) {
-          const pendingResponse = await questionService.getQuestionsByReviewStatus('pending');
-          setPendingCount(pendingResponse.questions.length);
-        }
+        const [active, history] = await Promise.all([
+          testSessionService.getActiveSession(),
+          testSessionService.getHistory(10)
+        ]);
+        setActiveSession(active);
+        setSessionHistory(history);
+      } catch (err) {
+        console.error('Failed to load test sessions:', err);
+      }
+    };
+    loadSessions();
+  }, [testCompleted]);
+
+  useEffect(() => {
+    const loadPublishedTests = async () => {
+      try {
+        const tests = await practiceTestService.getTests();
+        // Admins get every test back; only offer the published ones here
+        setPublishedTests(tests.filter(t => t.is_published));
       } catch (err) {
-        console.error('Failed to check questions:', err);
-      } finally {
-        setCheckingQuestions(false);
+        console.error('Failed to load practice tests:', err);
       }
     };
-    checkQuestions();
-  }, [isAdmin]);
+    loadPublishedTests();
+  }, []);
+
+  useEffect(() => {
+    questionShownAt.current = Date.now();
+  }, [testSession?.id, testSession?.currentQuestionIndex]);
 
-  const startTest = async (questionCount: number = 2) => {
+  const startTest = async (request: TestBuilderRequest) => {
     try {
       setLoading(true);
       setError(null);
       
-      // Fetch questions based on admin toggle
-      const status = isAdmin && showPendingQuestions ? 'pending' : 'approved';
-      const response = await questionService.getQuestionsByReviewStatus(status);
-      
-      if (response.questions.length === 0) {
-        const message = showPendingQuestions 
-          ? 'No pending questions available for review.'
-          : 'No approved questions available yet. Questions must be reviewed and approved before they appear in the Question Bank.';
-        setError(message);
-        return;
+      const { session } = await testSessionService.startSession(request);
+
+      setTestSession(session);
+      setTestCompleted(false);
+    } catch (err: any) {
+      if (err.response?.status === 404) {
+        setError(err.response.data?.error || 'No questions match the selected filters.');
+      } else {
+        setError('Failed to start test. Please make sure the backend server is running.');
       }
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Shuffle and limit to requested count
-      const shuffledQuestions = [...response.questions]
-        .sort(() => Math.random() - 0.5)
-        .slice(0, Math.min(questionCount, response.questions.length));
-      
-      const newSession: TestSession = {
-        id: Date.now().toString(),
-        questions: shuffledQuestions,
-        userAnswers: [],
-        currentQuestionIndex: 0,
-        startTime: new Date(),
-        isCompleted: false
-      };
-
-      setTestSession(newSession);
+  const startPublishedTest = async (test: NamedPracticeTest) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const session = await testSessionService.startPracticeTest(test.id);
+      setTestSession(session);
       setTestCompleted(false);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to start practice test.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resumeTest = (session: TestSession) => {
+    setTestSession(session);
+    setTestCompleted(false);
+  };
+
+  const discardActiveSession = async () => {
+    if (!activeSession) return;
+    if (!window.confirm('Discard your unfinished test? Your answers will be lost.')) return;
+
+    try {
+      await testSessionService.deleteSession(activeSession.id);
+      setActiveSession(null);
     } catch (err) {
-      setError('Failed to start test. Please make sure the backend server is running.');
+      console.error('Failed to discard test session:', err);
+      alert('Failed to discard test session');
+    }
+  };
+
+  const viewSessionResults = async (sessionId: string) => {
+    try {
+      setLoading(true);
+      const session = await testSessionService.getSession(sessionId);
+      setTestSession(session);
+      setTestCompleted(true);
+    } catch (err) {
+      setError('Failed to load test results.');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleAnswerSelect = (answer: string) => {
+  const handleAnswerSelect = async (answer: string) => {
     if (!testSession || testCompleted) return;
 
     const currentQuestion = testSession.questions[testSession.currentQuestionIndex];
     const isCorrect = answer === currentQuestion.correct_answer;
+    const previousAnswer = testSession.userAnswers[testSession.currentQuestionIndex];
+    const elapsed = Math.floor((Date.now() - questionShownAt.current) / 1000);
+    questionShownAt.current = Date.now();
     
     const userAnswer: UserAnswer = {
       questionId: currentQuestion.id!,
       selectedAnswer: answer,
       isCorrect,
-      timeSpent: Math.floor((Date.now() - testSession.startTime.getTime()) / 1000)
+      timeSpent: (previousAnswer?.timeSpent || 0) + elapsed
     };
 
     const updatedAnswers = [...testSession.userAnswers];
@@ -97,33 +145,62 @@ const PracticeTest: React.FC = () => {
       ...testSession,
       userAnswers: updatedAnswers
     });
+
+    try {
+      await testSessionService.recordAnswer(testSession.id, userAnswer.questionId, answer, userAnswer.timeSpent);
+      setSaveError(null);
+    } catch (err) {
+      console.error('Failed to save answer:', err);
+      setSaveError('Your answer could not be saved. Please check your connection and select it again.');
+    }
+  };
+
+  const goToQuestion = (index: number) => {
+    if (!testSession) return;
+
+    setTestSession({
+      ...testSession,
+      currentQuestionIndex: index
+    });
+    testSessionService.updateProgress(testSession.id, index).catch(err => {
+      console.error('Failed to save progress:', err);
+    });
+  };
+
+  const finishTest = async (): Promise<boolean> => {
+    if (!testSession) return false;
+
+    try {
+      setLoading(true);
+      const completedSession = await testSessionService.completeSession(testSession.id);
+      setTestSession(completedSession);
+      setTestCompleted(true);
+      setActiveSession(null);
+      return true;
+    } catch (err) {
+      console.error('Failed to complete test:', err);
+      setSaveError('Failed to submit the test. Please try again.');
+      return false;
+    } finally {
+      setLoading(false);
+    }
   };
 
   const nextQuestion = () => {
     if (!testSession) return;
 
     if (testSession.currentQuestionIndex < testSession.questions.length - 1) {
-      setTestSession({
-        ...testSession,
-        currentQuestionIndex: testSession.currentQuestionIndex + 1
-      });
+      goToQuestion(testSession.currentQuestionIndex + 1);
     } else {
       // Test completed
-      setTestSession({
-        ...testSession,
-        isCompleted: true
-      });
-      setTestCompleted(true);
+      finishTest();
     }
   };
 
   const previousQuestion = () => {
     if (!testSession || testSession.currentQuestionIndex === 0) return;
 
-    setTestSession({
-      ...testSession,
-      currentQuestionIndex: testSession.currentQuestionIndex - 1
-    });
+    goToQuestion(testSession.currentQuestionIndex - 1);
   };
 
   const getCurrentAnswer = (): string => {
@@ -135,7 +212,8 @@ const PracticeTest: React.FC = () => {
     return getCurrentAnswer() !== '';
   };
 
-  if (loading) {
+  // Keep an in-progress test mounted while it is being submitted
+  if (loading && !testSession) {
     return <div className="loading">Loading test...</div>;
   }
 
@@ -143,19 +221,50 @@ const PracticeTest: React.FC = () => {
     return (
       <div className="error">
         <p>{error}</p>
-        <button onClick={() => startTest()}>Try Again</button>
+        <button onClick={() => setError(null)}>Back</button>
       </div>
     );
   }
 
   if (!testSession) {
-    if (checkingQuestions) {
-      return <div className="loading">Checking available questions...</div>;
-    }
-
     return (
       <div className="practice-test-start">
         <h2>Question Bank</h2>
+
+        {activeSession && (
+          <div style={{
+            backgroundColor: '#e3f2fd',
+            border: '1px solid #90caf9',
+            borderRadius: '8px',
+            padding: '1rem',
+            marginBottom: '1.5rem',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '1rem'
+          }}>
+            <span>
+              You have an unfinished {activeSession.mode === 'exam' ? 'mock exam' : 'test'} ({activeSession.userAnswers.filter(a => a).length} of {activeSession.questions.length} answered,
+              started {activeSession.startTime.toLocaleString()}
+              {activeSession.mode === 'exam' && activeSession.remainingSeconds !== undefined &&
+                `, ${Math.ceil(activeSession.remainingSeconds / 60)} min left`}).
+            </span>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button
+                onClick={() => resumeTest(activeSession)}
+                style={{ padding: '0.5rem 1rem', backgroundColor: '#1976d2', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+              >
+                Resume
+              </button>
+              <button
+                onClick={discardActiveSession}
+                style={{ padding: '0.5rem 1rem', backgroundColor: '#f5f5f5', color: '#333', border: '1px solid #ccc', borderRadius: '4px', cursor: 'pointer' }}
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
         
         {isAdmin && (
           <div style={{
@@ -176,106 +285,95 @@ const PracticeTest: React.FC = () => {
               />
               <span>Show pending questions instead of approved</span>
             </label>
-            <span style={{ 
-              color: showPendingQuestions ? '#ff9800' : '#27ae60',
-              fontWeight: 'bold'
-            }}>
-              ({showPendingQuestions ? `${pendingCount} pending` : `${approvedCount} approved`} questions)
-            </span>
           </div>
         )}
         
-        {(showPendingQuestions ? pendingCount : approvedCount) > 0 ? (
-          <>
-            <p>
-              {showPendingQuestions 
-                ? 'Practice with pending questions that need review.'
-                : 'Test your knowledge with approved questions from the question bank.'}
-            </p>
-            <p style={{ 
-              color: showPendingQuestions ? '#ff9800' : '#27ae60', 
-              fontWeight: 'bold', 
-              marginTop: '0.5rem' 
-            }}>
-              {showPendingQuestions ? pendingCount : approvedCount} {showPendingQuestions ? 'pending' : 'approved'} questions available
-            </p>
-            
-            <div className="test-options">
-              <h3>Test Configuration:</h3>
-              <div style={{ 
-                display: 'flex', 
-                flexDirection: 'column', 
-                gap: '1rem',
-                alignItems: 'center',
-                marginTop: '1.5rem'
-              }}>
-                <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
-                  <label htmlFor="question-count" style={{ fontWeight: 'bold' }}>
-                    Number of Questions:
-                  </label>
-                  <input
-                    id="question-count"
-                    type="number"
-                    min="1"
-                    max={Math.min(50, showPendingQuestions ? pendingCount : approvedCount)}
-                    value={questionCount}
-                    onChange={(e) => {
-                      const value = parseInt(e.target.value) || 1;
-                      const maxAvailable = showPendingQuestions ? pendingCount : approvedCount;
-                      setQuestionCount(Math.min(Math.max(1, value), Math.min(50, maxAvailable)));
-                    }}
-                    style={{
-                      padding: '0.5rem',
-                      fontSize: '1rem',
-                      width: '80px',
-                      borderRadius: '4px',
-                      border: '1px solid #ccc'
-                    }}
-                  />
-                  <span style={{ color: '#666', fontSize: '0.9rem' }}>
-                    (max: {Math.min(50, showPendingQuestions ? pendingCount : approvedCount)})
-                  </span>
-                </div>
-                <button 
-                  onClick={() => startTest(questionCount)} 
-                  className="test-option"
+        {publishedTests.length > 0 && (
+          <div style={{ marginBottom: '2rem', textAlign: 'left' }}>
+            <h3>Practice Tests</h3>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', marginTop: '0.5rem' }}>
+              {publishedTests.map(test => (
+                <div
+                  key={test.id}
                   style={{
-                    marginTop: '1rem',
-                    padding: '0.75rem 2rem',
-                    fontSize: '1.1rem',
-                    backgroundColor: '#4CAF50',
-                    color: 'white',
-                    border: 'none',
+                    border: '1px solid #ddd',
                     borderRadius: '8px',
-                    cursor: 'pointer'
+                    padding: '1rem',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    gap: '1rem'
                   }}
                 >
-                  Start Test ({questionCount} question{questionCount !== 1 ? 's' : ''})
-                </button>
-              </div>
+                  <div>
+                    <div style={{ fontWeight: 'bold' }}>
+                      {test.name}
+                      {test.time_limit_minutes && (
+                        <span style={{ marginLeft: '0.5rem', padding: '0.1rem 0.5rem', borderRadius: '999px', backgroundColor: '#fff3e0', color: '#e65100', fontSize: '0.75rem', fontWeight: 'normal' }}>
+                          Timed · {test.time_limit_minutes} min
+                        </span>
+                      )}
+                    </div>
+                    {test.description && <p style={{ color: '#666', margin: '0.25rem 0' }}>{test.description}</p>}
+                    <span style={{ fontSize: '0.85rem', color: '#666' }}>
+                      {test.question_count} question{test.question_count !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => startPublishedTest(test)}
+                    style={{ padding: '0.5rem 1rem', backgroundColor: '#1976d2', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', whiteSpace: 'nowrap' }}
+                  >
+                    Start
+                  </button>
+                </div>
+              ))}
             </div>
-          </>
-        ) : (
-          <div style={{ 
-            backgroundColor: '#fff3cd', 
-            border: '1px solid #ffeeba',
-            borderRadius: '8px',
-            padding: '1.5rem',
-            marginTop: '2rem'
-          }}>
-            <h3 style={{ color: '#856404', marginBottom: '1rem' }}>
-              No {showPendingQuestions ? 'Pending' : 'Approved'} Questions Available
-            </h3>
-            <p style={{ color: '#856404', marginBottom: '0.5rem' }}>
-              {showPendingQuestions 
-                ? 'There are no pending questions to review at this time.'
-                : 'The Question Bank is currently empty because no questions have been approved yet.'}
-            </p>
-            {!showPendingQuestions && (
-              <p style={{ color: '#856404' }}>
-                Questions must be reviewed and approved by an administrator before they appear here.
-              </p>
-            )}
+          </div>
+        )}
+
+        <p>
+          {showPendingQuestions 
+            ? 'Practice with pending questions that need review.'
+            : 'Test your knowledge with approved questions from the question bank.'}
+        </p>
+
+        <TestBuilder
+          status={isAdmin && showPendingQuestions ? 'pending' : 'approved'}
+          onStart={startTest}
+        />
+
+        {sessionHistory.some(s => s.completed_at) && (
+          <div style={{ marginTop: '2rem', textAlign: 'left' }}>
+            <h3>Recent Tests</h3>
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '0.5rem' }}>
+              <thead>
+                <tr style={{ borderBottom: '2px solid #ddd' }}>
+                  <th style={{ padding: '0.5rem', textAlign: 'left' }}>Completed</th>
+                  <th style={{ padding: '0.5rem', textAlign: 'left' }}>Test</th>
+                  <th style={{ padding: '0.5rem', textAlign: 'left' }}>Questions</th>
+                  <th style={{ padding: '0.5rem', textAlign: 'left' }}>Score</th>
+                  <th style={{ padding: '0.5rem' }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessionHistory.filter(s => s.completed_at).map(session => (
+                  <tr key={session.id} style={{ borderBottom: '1px solid #eee' }}>
+                    <td style={{ padding: '0.5rem' }}>{new Date(session.completed_at!).toLocaleString()}</td>
+                    <td style={{ padding: '0.5rem' }}>{session.test_name || (session.mode === 'exam' ? 'Custom mock exam' : 'Custom test')}</td>
+                    <td style={{ padding: '0.5rem' }}>{session.correct_answers} / {session.total_questions}</td>
+                    <td style={{ padding: '0.5rem' }}>{session.score_percentage !== null ? `${Math.round(session.score_percentage)}%` : '-'}</td>
+                    <td style={{ padding: '0.5rem', textAlign: 'right' }}>
+                      <button
+                        onClick={() => viewSessionResults(session.id)}
+                        style={{ padding: '0.25rem 0.75rem', border: '1px solid #ccc', borderRadius: '4px', backgroundColor: 'white', cursor: 'pointer' }}
+                      >
+                        View Results
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
         )}
       </div>
@@ -289,6 +387,10 @@ const PracticeTest: React.FC = () => {
     }} />;
   }
 
+  if (testSession.mode === 'exam') {
+    return <MockExamRunner testSession={testSession} onSubmit={finishTest} />;
+  }
+
   const currentQuestion = testSession.questions[testSession.currentQuestionIndex];
   const progress = ((testSession.currentQuestionIndex + 1) / testSession.questions.length) * 100;
 
@@ -309,6 +411,12 @@ const PracticeTest: React.FC = () => {
         </div>
       </div>
 
+      {saveError && (
+        <div className="error" style={{ marginBottom: '1rem' }}>
+          <p>{saveError}</p>
+        </div>
+      )}
+
       <QuestionCard
         question={currentQuestion}
         questionNumber={testSession.currentQuestionIndex + 1}
@@ -333,7 +441,7 @@ const PracticeTest: React.FC = () => {
 
         <button
           onClick={nextQuestion}
-          disabled={!isCurrentQuestionAnswered()}
+          disabled={!isCurrentQuestionAnswered() || loading}
           className="nav-button primary"
         >
           {testSession.currentQuestionIndex === testSession.questions.length - 1 ? 'Finish Test' : 'Next'}
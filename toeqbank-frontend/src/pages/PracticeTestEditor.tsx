@@ -0,0 +1,562 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { questionService } from '../services/api';
+import {
+  practiceTestService,
+  PracticeTest,
+  PracticeTestQuestion,
+  PracticeTestResults
+} from '../services/practiceTestApi';
+import { Question } from '../types';
+import { examRegistryService, ExamRegistry } from '../services/examRegistryApi';
+
+interface TestForm {
+  name: string;
+  description: string;
+  exam_category: string;
+  exam_type: string;
+  time_limit_minutes: string;
+}
+
+const toForm = (test: PracticeTest): TestForm => ({
+  name: test.name,
+  description: test.description || '',
+  exam_category: test.exam_category || '',
+  exam_type: test.exam_type || '',
+  time_limit_minutes: test.time_limit_minutes ? String(test.time_limit_minutes) : ''
+});
+
+const PracticeTestEditor: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const isNew = id === 'new';
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+
+  const [test, setTest] = useState<PracticeTest | null>(null);
+  const [form, setForm] = useState<TestForm>({
+    name: '',
+    description: '',
+    exam_category: 'echocardiography',
+    exam_type: 'eacvi_toe',
+    time_limit_minutes: ''
+  });
+  const [selected, setSelected] = useState<PracticeTestQuestion[]>([]);
+  const [questionsChanged, setQuestionsChanged] = useState(false);
+  const [examRegistry, setExamRegistry] = useState<ExamRegistry | null>(null);
+  const [approvedQuestions, setApprovedQuestions] = useState<Question[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<PracticeTestResults | null>(null);
+  const [loading, setLoading] = useState(!isNew);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadTest = useCallback(async () => {
+    if (isNew || !id) return;
+
+    try {
+      setLoading(true);
+      const [data, testResults] = await Promise.all([
+        practiceTestService.getTest(parseInt(id)),
+        practiceTestService.getResults(parseInt(id))
+      ]);
+      setTest(data.test);
+      setForm(toForm(data.test));
+      setSelected(data.questions || []);
+      setQuestionsChanged(false);
+      setResults(testResults);
+    } catch (err: any) {
+      console.error('Error loading practice test:', err);
+      setError(err.response?.data?.error || 'Failed to load practice test');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, isNew]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadTest();
+    }
+  }, [isAdmin, loadTest]);
+
+  useEffect(() => {
+    examRegistryService.getRegistry()
+      .then(setExamRegistry)
+      .catch(err => console.error('Error loading exams:', err));
+  }, []);
+
+  const typesForCategory = (category: string) =>
+    examRegistry?.types.filter(type => type.category_code === category) || [];
+
+  useEffect(() => {
+    if (isNew || !isAdmin) return;
+
+    const loadApprovedQuestions = async () => {
+      try {
+        const data = await questionService.getQuestionsByReviewStatus('approved');
+        setApprovedQuestions(data.questions);
+      } catch (err) {
+        console.error('Error loading approved questions:', err);
+      }
+    };
+    loadApprovedQuestions();
+  }, [isNew, isAdmin]);
+
+  const handleSaveDetails = async () => {
+    if (!form.name.trim()) {
+      setError('Test name is required');
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      exam_category: form.exam_category || null,
+      exam_type: form.exam_type || null,
+      time_limit_minutes: form.time_limit_minutes ? parseInt(form.time_limit_minutes) : null
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (isNew) {
+        const created = await practiceTestService.createTest(data);
+        navigate(`/admin/practice-tests/${created.id}`, { replace: true });
+      } else {
+        setTest(await practiceTestService.updateTest(test!.id, data));
+        setMessage('Test details saved');
+      }
+    } catch (err: any) {
+      console.error('Error saving practice test:', err);
+      setError(err.response?.data?.error || 'Failed to save practice test');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveQuestions = async () => {
+    if (!test) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const data = await practiceTestService.setQuestions(test.id, selected.map(q => q.question_id));
+      setTest(data.test);
+      setSelected(data.questions);
+      setQuestionsChanged(false);
+      setMessage('Question list saved');
+    } catch (err: any) {
+      console.error('Error saving practice test questions:', err);
+      setError(err.response?.data?.error || 'Failed to save questions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePublished = async () => {
+    if (!test) return;
+    if (questionsChanged) {
+      setError('Save the question list before publishing');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setTest(await practiceTestService.setPublished(test.id, !test.is_published));
+      setMessage(test.is_published ? 'Test unpublished' : 'Test published');
+    } catch (err: any) {
+      console.error('Error publishing practice test:', err);
+      setError(err.response?.data?.error || 'Failed to update practice test');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!test) return;
+    if (!window.confirm(`Are you sure you want to delete the practice test "${test.name}"?\n\nThis action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await practiceTestService.deleteTest(test.id);
+      navigate('/admin/practice-tests');
+    } catch (err: any) {
+      console.error('Error deleting practice test:', err);
+      setError(err.response?.data?.error || 'Failed to delete practice test');
+    }
+  };
+
+  const addQuestion = (question: Question) => {
+    setSelected([...selected, {
+      question_id: question.id!,
+      question_order: selected.length + 1,
+      question_number: question.question_number,
+      question: question.question,
+      review_status: question.review_status
+    }]);
+    setQuestionsChanged(true);
+  };
+
+  const removeQuestion = (index: number) => {
+    setSelected(selected.filter((_, i) => i !== index));
+    setQuestionsChanged(true);
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= selected.length) return;
+
+    const reordered = [...selected];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSelected(reordered);
+    setQuestionsChanged(true);
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  const selectedIds = new Set(selected.map(q => q.question_id));
+  const term = searchTerm.trim().toLowerCase();
+  const availableQuestions = approvedQuestions
+    .filter(q => !selectedIds.has(q.id!))
+    .filter(q => !term ||
+      q.question.toLowerCase().includes(term) ||
+      (q.question_number || '').toLowerCase().includes(term))
+    .slice(0, 50);
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{isNew ? 'New Practice Test' : test?.name}</h1>
+            {test && (
+              <span className={`inline-block mt-2 px-3 py-1 rounded-full text-xs font-medium ${
+                test.is_published ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+              }`}>
+                {test.is_published ? 'Published' : 'Draft'}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center space-x-4">
+            {test && (
+              <>
+                <button
+                  onClick={handleTogglePublished}
+                  disabled={saving}
+                  className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                >
+                  {test.is_published ? 'Unpublish' : 'Publish'}
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={saving || test.attempt_count > 0}
+                  title={test.attempt_count > 0 ? 'Tests that have been taken cannot be deleted' : undefined}
+                  className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => navigate('/admin/practice-tests')}
+              className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Back to Practice Tests
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 text-red-500 hover:text-red-700">×</button>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded mb-4">
+            {message}
+            <button onClick={() => setMessage(null)} className="ml-2 text-green-500 hover:text-green-700">×</button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              maxLength={255}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Time Limit (minutes, blank for untimed)</label>
+            <input
+              type="number"
+              min={1}
+              max={600}
+              value={form.time_limit_minutes}
+              onChange={(e) => setForm({ ...form, time_limit_minutes: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Exam Category</label>
+            <select
+              value={form.exam_category}
+              onChange={(e) => {
+                const category = e.target.value;
+                setForm({ ...form, exam_category: category, exam_type: typesForCategory(category)[0]?.code || '' });
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(examRegistry?.categories || []).map(category => (
+                <option key={category.code} value={category.code}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Exam Type</label>
+            <select
+              value={form.exam_type}
+              onChange={(e) => setForm({ ...form, exam_type: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {typesForCategory(form.exam_category).map(type => (
+                <option key={type.code} value={type.code}>{type.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+        <div className="mt-4">
+          <button
+            onClick={handleSaveDetails}
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isNew ? 'Create Test' : 'Save Details'}
+          </button>
+        </div>
+      </div>
+
+      {test && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-gray-900">Questions ({selected.length})</h2>
+              <button
+                onClick={handleSaveQuestions}
+                disabled={saving || !questionsChanged}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Save Order
+              </button>
+            </div>
+            {selected.length === 0 ? (
+              <p className="text-gray-500">No questions yet. Add approved questions from the list.</p>
+            ) : (
+              <ol className="space-y-2">
+                {selected.map((q, index) => (
+                  <li key={q.question_id} className="flex items-start justify-between border border-gray-200 rounded p-3">
+                    <div className="mr-3">
+                      <span className="font-semibold text-gray-700 mr-2">{index + 1}.</span>
+                      {q.question_number && <span className="text-xs text-gray-500 mr-2">#{q.question_number}</span>}
+                      <span className="text-sm text-gray-900">{q.question}</span>
+                      {q.review_status && q.review_status !== 'approved' && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">{q.review_status}</span>
+                      )}
+                    </div>
+                    <div className="flex space-x-1 flex-shrink-0">
+                      <button
+                        onClick={() => moveQuestion(index, -1)}
+                        disabled={index === 0}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveQuestion(index, 1)}
+                        disabled={index === selected.length - 1}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => removeQuestion(index)}
+                        className="px-2 py-1 border border-red-300 text-red-600 rounded text-sm"
+                        title="Remove"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Add Approved Questions</h2>
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Filter by question text or number"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {availableQuestions.length === 0 ? (
+              <p className="text-gray-500">No matching approved questions.</p>
+            ) : (
+              <ul className="space-y-2 max-h-96 overflow-y-auto">
+                {availableQuestions.map(q => (
+                  <li key={q.id} className="flex items-start justify-between border border-gray-200 rounded p-3">
+                    <div className="mr-3">
+                      {q.question_number && <span className="text-xs text-gray-500 mr-2">#{q.question_number}</span>}
+                      <span className="text-sm text-gray-900">{q.question}</span>
+                    </div>
+                    <button
+                      onClick={() => addQuestion(q)}
+                      className="bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 text-sm flex-shrink-0"
+                    >
+                      Add
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {test && results && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Results</h2>
+          {results.attempts === 0 ? (
+            <p className="text-gray-500">Nobody has completed this test yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-blue-600">{results.attempts}</div>
+                  <div className="text-sm text-gray-500">Attempts</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-blue-600">{results.unique_users}</div>
+                  <div className="text-sm text-gray-500">Students</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-green-600">
+                    {results.average_score !== null ? `${Math.round(results.average_score)}%` : '-'}
+                  </div>
+                  <div className="text-sm text-gray-500">Average Score</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-700">
+                    {results.lowest_score !== null && results.highest_score !== null
+                      ? `${Math.round(results.lowest_score)}–${Math.round(results.highest_score)}%`
+                      : '-'}
+                  </div>
+                  <div className="text-sm text-gray-500">Score Range</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-700">
+                    {results.average_time_seconds !== null ? `${Math.round(results.average_time_seconds / 60)} min` : '-'}
+                  </div>
+                  <div className="text-sm text-gray-500">Average Time</div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-2">Per Question</h3>
+                  <table className="min-w-full divide-y divide-gray-300 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Question</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Responses</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Correct</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {results.questions.map(q => (
+                        <tr key={q.question_id}>
+                          <td className="px-3 py-2">{q.question_order}</td>
+                          <td className="px-3 py-2">
+                            <button onClick={() => navigate(`/question/${q.question_id}`)} className="text-blue-600 hover:underline">
+                              {q.question_number || q.question_id}
+                            </button>
+                          </td>
+                          <td className="px-3 py-2">{q.responses}</td>
+                          <td className="px-3 py-2">{q.percent_correct !== null ? `${q.percent_correct}%` : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-2">Recent Attempts</h3>
+                  <table className="min-w-full divide-y divide-gray-300 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Student</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Completed</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Score</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {results.recent_attempts.map(attempt => (
+                        <tr key={attempt.session_id}>
+                          <td className="px-3 py-2">{attempt.username}</td>
+                          <td className="px-3 py-2">{new Date(attempt.completed_at).toLocaleString()}</td>
+                          <td className="px-3 py-2">
+                            {attempt.correct_answers} / {attempt.total_questions}
+                            {attempt.score_percentage !== null && ` (${Math.round(attempt.score_percentage)}%)`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeTestEditor;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { practiceTestService, PracticeTest } from '../services/practiceTestApi';
+
+const PracticeTestManagement: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const [tests, setTests] = useState<PracticeTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyTestId, setBusyTestId] = useState<number | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadTests();
+    }
+  }, [isAdmin]);
+
+  const loadTests = async () => {
+    try {
+      setLoading(true);
+      setTests(await practiceTestService.getTests());
+    } catch (err: any) {
+      console.error('Error loading practice tests:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to load practice tests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTogglePublished = async (test: PracticeTest) => {
+    try {
+      setBusyTestId(test.id);
+      const updated = await practiceTestService.setPublished(test.id, !test.is_published);
+      setTests(tests.map(t => t.id === test.id ? updated : t));
+    } catch (err: any) {
+      console.error('Error publishing practice test:', err);
+      setError(err.response?.data?.error || 'Failed to update practice test');
+    } finally {
+      setBusyTestId(null);
+    }
+  };
+
+  const handleDelete = async (test: PracticeTest) => {
+    if (!window.confirm(`Are you sure you want to delete the practice test "${test.name}"?\n\nThis action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setBusyTestId(test.id);
+      await practiceTestService.deleteTest(test.id);
+      setTests(tests.filter(t => t.id !== test.id));
+    } catch (err: any) {
+      console.error('Error deleting practice test:', err);
+      setError(err.response?.data?.error || 'Failed to delete practice test');
+    } finally {
+      setBusyTestId(null);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Practice Tests</h1>
+          <div className="flex items-center space-x-4">
+            <span className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium">
+              {tests.filter(t => t.is_published).length} of {tests.length} published
+            </span>
+            <button
+              onClick={() => navigate('/admin/practice-tests/new')}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+            >
+              New Practice Test
+            </button>
+            <button
+              onClick={() => navigate('/admin')}
+              className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Back to Admin Dashboard
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+            <button
+              onClick={() => setError(null)}
+              className="ml-2 text-red-500 hover:text-red-700"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Test</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Exam</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Questions</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-300">
+              {tests.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center">
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No Practice Tests</h3>
+                    <p className="text-gray-500">Create a practice test to offer students a curated set of questions.</p>
+                  </td>
+                </tr>
+              ) : (
+                tests.map(test => (
+                  <tr key={test.id} className="hover:bg-blue-50 transition-colors duration-200">
+                    <td className="px-6 py-4">
+                      <div className="text-lg font-semibold text-gray-900">{test.name}</div>
+                      {test.description && <div className="text-sm text-gray-500">{test.description}</div>}
+                      <div className="text-xs text-gray-400 mt-1">
+                        {test.time_limit_minutes ? `Timed · ${test.time_limit_minutes} min` : 'Untimed'}
+                        {test.creator_username && ` · by ${test.creator_username}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {test.exam_category && test.exam_type ? `${test.exam_category} / ${test.exam_type}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{test.question_count}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{test.attempt_count}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        test.is_published ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {test.is_published ? 'Published' : 'Draft'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => navigate(`/admin/practice-tests/${test.id}`)}
+                          className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 text-sm"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleTogglePublished(test)}
+                          disabled={busyTestId === test.id}
+                          className="bg-purple-600 text-white px-3 py-1 rounded hover:bg-purple-700 text-sm disabled:opacity-50"
+                        >
+                          {test.is_published ? 'Unpublish' : 'Publish'}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(test)}
+                          disabled={busyTestId === test.id || test.attempt_count > 0}
+                          title={test.attempt_count > 0 ? 'Tests that have been taken cannot be deleted' : undefined}
+                          className="bg-red-600 text-white px-3 py-1 rounded hover:bg-red-700 text-sm disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeTestManagement;
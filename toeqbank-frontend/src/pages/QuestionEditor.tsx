@@ -138,6 +138,7 @@ const QuestionEditor: React.FC = () => {
         const metadataResponse = await fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/questions/${question.id}/metadata`, {
           method: 'POST',
           headers: {
+            'Authorization': `Bearer ${localStorage.getItem('authToken')}`,
             'Content-Type': 'application/json'
           },
           body: JSON.stringify(questionMetadata)
@@ -153,6 +154,7 @@ const QuestionEditor: React.FC = () => {
         const examsResponse = await fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/questions/${question.id}/exams`, {
           method: 'POST',
           headers: {
+            'Authorization': `Bearer ${localStorage.getItem('authToken')}`,
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({ exams: applicableExams })
@@ -1,10 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { questionService, Question, batchService } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
+import QuestionSearch from '../components/QuestionSearch';
+import { examRegistryService, ExamType, CoverageStatus } from '../services/examRegistryApi';
+
+const COVERAGE_STATUS_TEXT: Record<CoverageStatus, string> = {
+  approved: 'approved',
+  pending: 'in review',
+  needs_images: 'waiting for images'
+};
 
 const QuestionReview: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { isAdmin } = useAuth();
   const [questions, setQuestions] = useState<Question[]>([]);
   const [allQuestions, setAllQuestions] = useState<Question[]>([]);
@@ -13,6 +22,7 @@ const QuestionReview: React.FC = () => {
   const [selectedBatchId, setSelectedBatchId] = useState<number | null>(null);
   const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
   const [selectedExamType, setSelectedExamType] = useState<string>('all');
+  const [examTypes, setExamTypes] = useState<ExamType[]>([]);
   const [currentPage, setCurrentPage] = useState(0);
   const [totalQuestions, setTotalQuestions] = useState(0);
   const [loading, setLoading] = useState(true);
@@ -27,13 +37,30 @@ const QuestionReview: React.FC = () => {
 
   const limit = 50; // Show more questions in list view
 
+  // Set by links from the blueprint coverage report, e.g. ?blueprint=1&section=3&subtopic=3.2&status=pending
+  const coverageBlueprintId = searchParams.get('blueprint');
+  const coverageFilter = coverageBlueprintId && searchParams.get('section') ? {
+    blueprintId: parseInt(coverageBlueprintId),
+    exam: searchParams.get('exam') || '',
+    section: searchParams.get('section')!,
+    subtopic: searchParams.get('subtopic') || undefined,
+    status: (searchParams.get('status') || undefined) as CoverageStatus | undefined
+  } : null;
+  const coverageKey = searchParams.toString();
+
   useEffect(() => {
     fetchQuestions();
     if (isAdmin) {
       loadBatches();
       loadSubmitters();
     }
-  }, [currentPage, selectedBatchId, selectedUserId, isAdmin]);
+  }, [currentPage, selectedBatchId, selectedUserId, isAdmin, coverageKey]);
+
+  useEffect(() => {
+    examRegistryService.getRegistry()
+      .then(registry => setExamTypes(registry.types))
+      .catch(err => console.error('Error loading exam types:', err));
+  }, []);
 
   // Filter questions when exam type filter changes
   useEffect(() => {
@@ -71,8 +98,14 @@ const QuestionReview: React.FC = () => {
     try {
       setLoading(true);
 
-      // If a batch is selected, fetch questions from that batch
-      if (selectedBatchId) {
+      if (coverageFilter) {
+        const { blueprintId, section, subtopic, status } = coverageFilter;
+        const questions = await examRegistryService.getCoverageQuestions(blueprintId, { section, subtopic, status });
+        setAllQuestions(questions);
+        setQuestions(questions);
+        setTotalQuestions(questions.length);
+      } else if (selectedBatchId) {
+        // If a batch is selected, fetch questions from that batch
         const batchDetails = await batchService.getBatchDetails(selectedBatchId);
         const questions = batchDetails.questions || [];
         setAllQuestions(questions);
@@ -295,6 +328,33 @@ const QuestionReview: React.FC = () => {
           </p>
         </div>
 
+        {coverageFilter && (
+          <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg mb-8 flex items-center justify-between">
+            <span>
+              Showing {coverageFilter.status ? `${COVERAGE_STATUS_TEXT[coverageFilter.status]} ` : ''}questions
+              {' '}assigned to {coverageFilter.exam || 'the blueprint'}{' '}
+              {coverageFilter.subtopic ? `subtopic ${coverageFilter.subtopic}` : `section ${coverageFilter.section}`}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => navigate(`/admin/blueprint-coverage?blueprint=${coverageFilter.blueprintId}`)}
+                className="px-3 py-1 text-sm bg-white border border-blue-300 rounded hover:bg-blue-100"
+              >
+                Back to Coverage
+              </button>
+              <button
+                onClick={() => setSearchParams({})}
+                className="px-3 py-1 text-sm bg-white border border-blue-300 rounded hover:bg-blue-100"
+              >
+                Show All Questions
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Full-text Search */}
+        <QuestionSearch />
+
         {/* Exam Type Filter */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
           <div className="flex items-center space-x-4">
@@ -308,9 +368,9 @@ const QuestionReview: React.FC = () => {
               className="min-w-0 flex-1 max-w-md px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             >
               <option value="all">All Exam Types</option>
-              <option value="step1">Step 1</option>
-              <option value="step2">Step 2</option>
-              <option value="step3">Step 3</option>
+              {examTypes.map(type => (
+                <option key={type.code} value={type.code}>{type.name}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -7,6 +7,9 @@ import MetadataGenerationDialog from '../components/MetadataGenerationDialog';
 import EditMetadataModal from '../components/EditMetadataModal';
 import ApplicableExamsDialog from '../components/ApplicableExamsDialog';
 import ManualExamAssignmentModal from '../components/ManualExamAssignmentModal';
+import ItemAnalysisPanel from '../components/ItemAnalysisPanel';
+import QuestionHistory from '../components/QuestionHistory';
+import ReviewThreads from '../components/ReviewThreads';
 import { GeneratedMetadata } from '../services/claudeApi';
 import { ApplicableExam } from '../services/examApi';
 
@@ -14,7 +17,7 @@ const QuestionView: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const location = useLocation();
-  const { isAdmin } = useAuth();
+  const { user, isAdmin, isReviewer } = useAuth();
   
   // Get the 'from' path from navigation state, default to '/' if not provided
   const fromPath = (location.state as any)?.from || '/';
@@ -29,6 +32,7 @@ const QuestionView: React.FC = () => {
   const [applicableExams, setApplicableExams] = useState<ApplicableExam[] | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [activeTab, setActiveTab] = useState<'question' | 'comments' | 'history'>('question');
 
   useEffect(() => {
     if (id) {
@@ -93,6 +97,7 @@ const QuestionView: React.FC = () => {
         const metadataResponse = await fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/questions/${question.id}/metadata`, {
           method: 'POST',
           headers: {
+            'Authorization': `Bearer ${localStorage.getItem('authToken')}`,
             'Content-Type': 'application/json'
           },
           body: JSON.stringify(questionMetadata)
@@ -108,6 +113,7 @@ const QuestionView: React.FC = () => {
         const examsResponse = await fetch(`${process.env.REACT_APP_API_URL || 'http://localhost:3001/api'}/questions/${question.id}/exams`, {
           method: 'POST',
           headers: {
+            'Authorization': `Bearer ${localStorage.getItem('authToken')}`,
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({ exams: applicableExams })
@@ -243,249 +249,311 @@ const QuestionView: React.FC = () => {
           </div>
         </nav>
 
-        {/* Question Card */}
-        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
-          <div className="bg-gradient-to-r from-emerald-500 to-teal-600 px-8 py-6">
-            <h2 className="text-2xl font-bold text-white">📚 Question Review</h2>
-            <p className="text-emerald-100 mt-1">Complete question with answer and explanation</p>
+        {/* Tabs */}
+        <div className="flex space-x-2 mb-8">
+          {([
+            ['question', '📚 Question'],
+            ...((isReviewer || isAdmin) ? [['comments', '💬 Review Comments'] as const] : []),
+            ...((isReviewer || isAdmin || (!!user && question.uploaded_by === user.id)) ? [['history', '🕘 History'] as const] : [])
+          ] as const).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-5 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === tab
+                  ? 'bg-blue-600 text-white shadow'
+                  : 'bg-white/60 text-gray-700 border border-gray-200 hover:bg-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'comments' && (
+          <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
+            <div className="bg-gradient-to-r from-orange-500 to-amber-600 px-8 py-6">
+              <h2 className="text-2xl font-bold text-white">💬 Review Comments</h2>
+              <p className="text-orange-100 mt-1">Reviewer comments on parts of this question and the author's replies</p>
+            </div>
+            <div className="p-8">
+              <ReviewThreads questionId={question.id!} question={question} canCreate />
+            </div>
           </div>
-          <div className="p-8">
-            <QuestionCard
-              question={question}
-              questionNumber={1}
-              showAnswer={true}
-              showExplanation={true}
-              onAnswerSelect={() => {}} // No-op for display mode
-              selectedAnswer=""
-              isReviewMode={true}
-            />
+        )}
+
+        {activeTab === 'history' && (
+          <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
+            <div className="bg-gradient-to-r from-gray-600 to-slate-700 px-8 py-6">
+              <h2 className="text-2xl font-bold text-white">🕘 Revision History</h2>
+              <p className="text-gray-200 mt-1">Every saved change to this question, its metadata, exams and images</p>
+            </div>
+            <div className="p-8">
+              <QuestionHistory questionId={question.id!} onRestored={() => loadQuestion(question.id!)} />
+            </div>
           </div>
-        </div>
+        )}
 
-        {/* Metadata Section */}
-        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
-          <div className="bg-gradient-to-r from-blue-500 to-indigo-600 px-8 py-6">
-            <h2 className="text-2xl font-bold text-white">📋 Metadata</h2>
-            <p className="text-blue-100 mt-1">Question classification and details</p>
+        {activeTab === 'question' && (
+          <>
+          {/* Question Card */}
+          <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
+            <div className="bg-gradient-to-r from-emerald-500 to-teal-600 px-8 py-6">
+              <h2 className="text-2xl font-bold text-white">📚 Question Review</h2>
+              <p className="text-emerald-100 mt-1">Complete question with answer and explanation</p>
+            </div>
+            <div className="p-8">
+              <QuestionCard
+                question={question}
+                questionNumber={1}
+                showAnswer={true}
+                showExplanation={true}
+                onAnswerSelect={() => {}} // No-op for display mode
+                selectedAnswer=""
+                isReviewMode={true}
+              />
+            </div>
           </div>
-          <div className="p-8">
-            {questionMetadata ? (
-              <div className="space-y-6">
-                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  <div className="bg-gray-50 rounded-lg p-4">
-                    <h4 className="font-semibold text-gray-700 mb-2">Difficulty Level</h4>
-                    <p className="text-gray-900">{questionMetadata.difficulty}</p>
-                  </div>
-                  <div className="bg-gray-50 rounded-lg p-4">
-                    <h4 className="font-semibold text-gray-700 mb-2">Category</h4>
-                    <p className="text-gray-900">{questionMetadata.category}</p>
-                  </div>
-                  <div className="bg-gray-50 rounded-lg p-4">
-                    <h4 className="font-semibold text-gray-700 mb-2">Topic</h4>
-                    <p className="text-gray-900">{questionMetadata.topic}</p>
-                  </div>
-                  <div className="bg-gray-50 rounded-lg p-4">
-                    <h4 className="font-semibold text-gray-700 mb-2">Question Type</h4>
-                    <p className="text-gray-900">{questionMetadata.questionType}</p>
-                  </div>
-                  {questionMetadata.view && (
+
+          {/* Item Analysis Section */}
+          {(isReviewer || isAdmin) && (
+            <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
+              <div className="bg-gradient-to-r from-rose-500 to-pink-600 px-8 py-6">
+                <h2 className="text-2xl font-bold text-white">📈 Item Analysis</h2>
+                <p className="text-rose-100 mt-1">How this question performs in completed tests</p>
+              </div>
+              <div className="p-8">
+                <ItemAnalysisPanel question={question} />
+              </div>
+            </div>
+          )}
+
+          {/* Metadata Section */}
+          <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
+            <div className="bg-gradient-to-r from-blue-500 to-indigo-600 px-8 py-6">
+              <h2 className="text-2xl font-bold text-white">📋 Metadata</h2>
+              <p className="text-blue-100 mt-1">Question classification and details</p>
+            </div>
+            <div className="p-8">
+              {questionMetadata ? (
+                <div className="space-y-6">
+                  <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
                     <div className="bg-gray-50 rounded-lg p-4">
-                      <h4 className="font-semibold text-gray-700 mb-2">TEE View</h4>
-                      <p className="text-gray-900">{questionMetadata.view}</p>
+                      <h4 className="font-semibold text-gray-700 mb-2">Difficulty Level</h4>
+                      <p className="text-gray-900">{questionMetadata.difficulty}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h4 className="font-semibold text-gray-700 mb-2">Category</h4>
+                      <p className="text-gray-900">{questionMetadata.category}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h4 className="font-semibold text-gray-700 mb-2">Topic</h4>
+                      <p className="text-gray-900">{questionMetadata.topic}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h4 className="font-semibold text-gray-700 mb-2">Question Type</h4>
+                      <p className="text-gray-900">{questionMetadata.questionType}</p>
+                    </div>
+                    {questionMetadata.view && (
+                      <div className="bg-gray-50 rounded-lg p-4">
+                        <h4 className="font-semibold text-gray-700 mb-2">TEE View</h4>
+                        <p className="text-gray-900">{questionMetadata.view}</p>
+                      </div>
+                    )}
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h4 className="font-semibold text-gray-700 mb-2">Modalities</h4>
+                      <p className="text-gray-900">{questionMetadata.modalities.join(', ')}</p>
                     </div>
-                  )}
-                  <div className="bg-gray-50 rounded-lg p-4">
-                    <h4 className="font-semibold text-gray-700 mb-2">Modalities</h4>
-                    <p className="text-gray-900">{questionMetadata.modalities.join(', ')}</p>
                   </div>
-                </div>
                 
-                <div className="grid md:grid-cols-2 gap-4">
-                  <div className="bg-gray-50 rounded-lg p-4">
-                    <h4 className="font-semibold text-gray-700 mb-2">Major Structures</h4>
-                    <p className="text-gray-900">{questionMetadata.majorStructures.join(', ') || 'None identified'}</p>
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h4 className="font-semibold text-gray-700 mb-2">Major Structures</h4>
+                      <p className="text-gray-900">{questionMetadata.majorStructures.join(', ') || 'None identified'}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h4 className="font-semibold text-gray-700 mb-2">Minor Structures</h4>
+                      <p className="text-gray-900">{questionMetadata.minorStructures.join(', ') || 'None identified'}</p>
+                    </div>
                   </div>
+
                   <div className="bg-gray-50 rounded-lg p-4">
-                    <h4 className="font-semibold text-gray-700 mb-2">Minor Structures</h4>
-                    <p className="text-gray-900">{questionMetadata.minorStructures.join(', ') || 'None identified'}</p>
+                    <h4 className="font-semibold text-gray-700 mb-2">Keywords</h4>
+                    <p className="text-gray-900">{questionMetadata.keywords.join(', ')}</p>
                   </div>
-                </div>
-
-                <div className="bg-gray-50 rounded-lg p-4">
-                  <h4 className="font-semibold text-gray-700 mb-2">Keywords</h4>
-                  <p className="text-gray-900">{questionMetadata.keywords.join(', ')}</p>
-                </div>
-                <div className="text-center space-x-4">
-                  {isAdmin && (
+                  <div className="text-center space-x-4">
+                    {isAdmin && (
+                      <button 
+                        onClick={() => setIsMetadataDialogOpen(true)}
+                        className="px-6 py-2 text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors font-medium"
+                      >
+                        Regenerate Metadata
+                      </button>
+                    )}
                     <button 
-                      onClick={() => setIsMetadataDialogOpen(true)}
-                      className="px-6 py-2 text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors font-medium"
+                      onClick={() => setIsEditMetadataModalOpen(true)}
+                      className="px-6 py-2 text-green-600 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors font-medium"
                     >
-                      Regenerate Metadata
+                      Edit Metadata
                     </button>
-                  )}
-                  <button 
-                    onClick={() => setIsEditMetadataModalOpen(true)}
-                    className="px-6 py-2 text-green-600 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors font-medium"
-                  >
-                    Edit Metadata
-                  </button>
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="text-center py-12">
-                <p className="text-gray-600 mb-6">No metadata has been added to this question yet.</p>
-                <div className="space-x-4">
-                  {isAdmin && (
+              ) : (
+                <div className="text-center py-12">
+                  <p className="text-gray-600 mb-6">No metadata has been added to this question yet.</p>
+                  <div className="space-x-4">
+                    {isAdmin && (
+                      <button 
+                        onClick={() => setIsMetadataDialogOpen(true)}
+                        className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+                      >
+                        Generate with AI
+                      </button>
+                    )}
                     <button 
-                      onClick={() => setIsMetadataDialogOpen(true)}
-                      className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+                      onClick={() => setIsEditMetadataModalOpen(true)}
+                      className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-semibold"
                     >
-                      Generate with AI
+                      Add Manually
                     </button>
+                  </div>
+                  {!isAdmin && (
+                    <p className="text-sm text-gray-500 mt-4">AI generation is admin-only. Use manual editing to add metadata.</p>
                   )}
-                  <button 
-                    onClick={() => setIsEditMetadataModalOpen(true)}
-                    className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-semibold"
-                  >
-                    Add Manually
-                  </button>
                 </div>
-                {!isAdmin && (
-                  <p className="text-sm text-gray-500 mt-4">AI generation is admin-only. Use manual editing to add metadata.</p>
-                )}
-              </div>
-            )}
+              )}
+            </div>
           </div>
-        </div>
 
-        {/* Applicable Exams Section */}
-        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
-          <div className="bg-gradient-to-r from-purple-500 to-pink-600 px-8 py-6">
-            <h2 className="text-2xl font-bold text-white">🎯 Applicable Exams</h2>
-            <p className="text-purple-100 mt-1">Exams where this question may appear</p>
-          </div>
-          <div className="p-8">
-            {applicableExams ? (
-              <div className="space-y-6">
-                {applicableExams.map((exam, examIndex) => (
-                  <div key={examIndex} className="bg-gray-50 rounded-lg p-6">
-                    <h4 className="text-lg font-semibold text-gray-800 mb-3">{exam.examName}</h4>
-                    <div className="mb-3">
-                      <h5 className="font-medium text-gray-700 mb-2">Applicable Subtopics:</h5>
-                      <div className="flex flex-wrap gap-2">
-                        {exam.subtopics.map((subtopic, subtopicIndex) => (
-                          <span key={subtopicIndex} className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-sm">
-                            {typeof subtopic === 'string' ? subtopic : (
-                              <span>
-                                <span className="font-medium text-blue-600">{subtopic.section}</span> {subtopic.name}
-                              </span>
-                            )}
-                          </span>
-                        ))}
+          {/* Applicable Exams Section */}
+          <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden mb-8">
+            <div className="bg-gradient-to-r from-purple-500 to-pink-600 px-8 py-6">
+              <h2 className="text-2xl font-bold text-white">🎯 Applicable Exams</h2>
+              <p className="text-purple-100 mt-1">Exams where this question may appear</p>
+            </div>
+            <div className="p-8">
+              {applicableExams ? (
+                <div className="space-y-6">
+                  {applicableExams.map((exam, examIndex) => (
+                    <div key={examIndex} className="bg-gray-50 rounded-lg p-6">
+                      <h4 className="text-lg font-semibold text-gray-800 mb-3">{exam.examName}</h4>
+                      <div className="mb-3">
+                        <h5 className="font-medium text-gray-700 mb-2">Applicable Subtopics:</h5>
+                        <div className="flex flex-wrap gap-2">
+                          {exam.subtopics.map((subtopic, subtopicIndex) => (
+                            <span key={subtopicIndex} className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-sm">
+                              {typeof subtopic === 'string' ? subtopic : (
+                                <span>
+                                  <span className="font-medium text-blue-600">{subtopic.section}</span> {subtopic.name}
+                                </span>
+                              )}
+                            </span>
+                          ))}
+                        </div>
                       </div>
+                      {exam.reasoning && (
+                        <div className="mt-3 p-3 bg-purple-50 rounded-md">
+                          <h6 className="font-medium text-purple-800 mb-1">AI Reasoning:</h6>
+                          <p className="text-purple-700 text-sm">{exam.reasoning}</p>
+                        </div>
+                      )}
                     </div>
-                    {exam.reasoning && (
-                      <div className="mt-3 p-3 bg-purple-50 rounded-md">
-                        <h6 className="font-medium text-purple-800 mb-1">AI Reasoning:</h6>
-                        <p className="text-purple-700 text-sm">{exam.reasoning}</p>
-                      </div>
+                  ))}
+                  <div className="text-center space-x-4">
+                    {isAdmin && (
+                      <button 
+                        onClick={() => setIsApplicableExamsDialogOpen(true)}
+                        className="px-6 py-2 text-purple-600 bg-purple-50 border border-purple-200 rounded-lg hover:bg-purple-100 transition-colors font-medium"
+                      >
+                        Regenerate with AI
+                      </button>
                     )}
-                  </div>
-                ))}
-                <div className="text-center space-x-4">
-                  {isAdmin && (
                     <button 
-                      onClick={() => setIsApplicableExamsDialogOpen(true)}
-                      className="px-6 py-2 text-purple-600 bg-purple-50 border border-purple-200 rounded-lg hover:bg-purple-100 transition-colors font-medium"
+                      onClick={() => setIsManualExamModalOpen(true)}
+                      className="px-6 py-2 text-orange-600 bg-orange-50 border border-orange-200 rounded-lg hover:bg-orange-100 transition-colors font-medium"
                     >
-                      Regenerate with AI
+                      Edit Manually
                     </button>
-                  )}
-                  <button 
-                    onClick={() => setIsManualExamModalOpen(true)}
-                    className="px-6 py-2 text-orange-600 bg-orange-50 border border-orange-200 rounded-lg hover:bg-orange-100 transition-colors font-medium"
-                  >
-                    Edit Manually
-                  </button>
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="text-center py-12">
-                <p className="text-gray-600 mb-6">No applicable exams have been assigned to this question yet.</p>
-                <div className="space-x-4">
-                  {isAdmin && (
+              ) : (
+                <div className="text-center py-12">
+                  <p className="text-gray-600 mb-6">No applicable exams have been assigned to this question yet.</p>
+                  <div className="space-x-4">
+                    {isAdmin && (
+                      <button 
+                        onClick={() => setIsApplicableExamsDialogOpen(true)}
+                        className="px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-semibold"
+                      >
+                        Generate with AI
+                      </button>
+                    )}
                     <button 
-                      onClick={() => setIsApplicableExamsDialogOpen(true)}
-                      className="px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-semibold"
+                      className="px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors font-semibold"
+                      onClick={() => setIsManualExamModalOpen(true)}
                     >
-                      Generate with AI
+                      Add Manually
                     </button>
+                  </div>
+                  {!isAdmin && (
+                    <p className="text-sm text-gray-500 mt-4">AI assignment is admin-only. Use manual editing to assign exams.</p>
                   )}
-                  <button 
-                    className="px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors font-semibold"
-                    onClick={() => setIsManualExamModalOpen(true)}
-                  >
-                    Add Manually
-                  </button>
                 </div>
-                {!isAdmin && (
-                  <p className="text-sm text-gray-500 mt-4">AI assignment is admin-only. Use manual editing to assign exams.</p>
-                )}
-              </div>
-            )}
+              )}
+            </div>
           </div>
-        </div>
 
-        {/* Question Metadata */}
-        {(question.source_folder || question.created_at || question.updated_at) && (
-          <div className="bg-gradient-to-r from-slate-100 to-gray-100 rounded-2xl p-8 shadow-lg">
-            <div className="mb-6">
-              <h3 className="text-xl font-bold text-gray-900">📊 Question Metadata</h3>
-              <p className="text-gray-600">Additional information about this question</p>
-            </div>
+          {/* Question Metadata */}
+          {(question.source_folder || question.created_at || question.updated_at) && (
+            <div className="bg-gradient-to-r from-slate-100 to-gray-100 rounded-2xl p-8 shadow-lg">
+              <div className="mb-6">
+                <h3 className="text-xl font-bold text-gray-900">📊 Question Metadata</h3>
+                <p className="text-gray-600">Additional information about this question</p>
+              </div>
             
-            <div className="grid md:grid-cols-3 gap-6">
-              {question.source_folder && (
-                <div className="bg-white rounded-xl p-6 shadow-sm">
-                  <div className="mb-3">
-                    <span className="font-semibold text-gray-700">Source</span>
+              <div className="grid md:grid-cols-3 gap-6">
+                {question.source_folder && (
+                  <div className="bg-white rounded-xl p-6 shadow-sm">
+                    <div className="mb-3">
+                      <span className="font-semibold text-gray-700">Source</span>
+                    </div>
+                    <p className="text-gray-900 font-medium">{question.source_folder}</p>
                   </div>
-                  <p className="text-gray-900 font-medium">{question.source_folder}</p>
-                </div>
-              )}
+                )}
               
-              {question.created_at && (
-                <div className="bg-white rounded-xl p-6 shadow-sm">
-                  <div className="mb-3">
-                    <span className="font-semibold text-gray-700">Created</span>
+                {question.created_at && (
+                  <div className="bg-white rounded-xl p-6 shadow-sm">
+                    <div className="mb-3">
+                      <span className="font-semibold text-gray-700">Created</span>
+                    </div>
+                    <p className="text-gray-900 font-medium">
+                      {new Date(question.created_at).toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric'
+                      })}
+                    </p>
                   </div>
-                  <p className="text-gray-900 font-medium">
-                    {new Date(question.created_at).toLocaleDateString('en-US', {
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric'
-                    })}
-                  </p>
-                </div>
-              )}
+                )}
               
-              {question.updated_at && question.updated_at !== question.created_at && (
-                <div className="bg-white rounded-xl p-6 shadow-sm">
-                  <div className="mb-3">
-                    <span className="font-semibold text-gray-700">Last Updated</span>
+                {question.updated_at && question.updated_at !== question.created_at && (
+                  <div className="bg-white rounded-xl p-6 shadow-sm">
+                    <div className="mb-3">
+                      <span className="font-semibold text-gray-700">Last Updated</span>
+                    </div>
+                    <p className="text-gray-900 font-medium">
+                      {new Date(question.updated_at).toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric'
+                      })}
+                    </p>
                   </div>
-                  <p className="text-gray-900 font-medium">
-                    {new Date(question.updated_at).toLocaleDateString('en-US', {
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric'
-                    })}
-                  </p>
-                </div>
-              )}
+                )}
+              </div>
             </div>
-          </div>
+          )}
+          </>
         )}
 
         {/* Metadata Generation Dialog */}
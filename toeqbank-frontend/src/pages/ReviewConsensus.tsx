@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  reviewConsensusService,
+  EscalatedQuestion,
+  ReviewQuorum,
+  ReviewDecision
+} from '../services/reviewConsensusApi';
+import { reviewRubricService, RubricCriterion } from '../services/reviewRubricApi';
+
+const DECISION_STYLES: Record<ReviewDecision, { label: string; className: string }> = {
+  approved: { label: 'Approve', className: 'bg-green-100 text-green-800' },
+  returned: { label: 'Needs work', className: 'bg-orange-100 text-orange-800' },
+  rejected: { label: 'Reject', className: 'bg-red-100 text-red-800' }
+};
+
+const ReviewConsensus: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [quorums, setQuorums] = useState<ReviewQuorum[]>([]);
+  const [quorumDrafts, setQuorumDrafts] = useState<Record<string, number>>({});
+  const [maxApprovals, setMaxApprovals] = useState(5);
+  const [escalated, setEscalated] = useState<EscalatedQuestion[]>([]);
+  const [rubricCriteria, setRubricCriteria] = useState<RubricCriterion[]>([]);
+  const [rulingNotes, setRulingNotes] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadData();
+    }
+  }, [isAdmin]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [quorumData, escalatedQuestions, rubric] = await Promise.all([
+        reviewConsensusService.getQuorums(),
+        reviewConsensusService.getEscalated(),
+        reviewRubricService.getCriteria(true)
+      ]);
+      setRubricCriteria(rubric.criteria);
+      setQuorums(quorumData.quorums);
+      setMaxApprovals(quorumData.max_required_approvals);
+      setQuorumDrafts(Object.fromEntries(quorumData.quorums.map(q => [q.exam_type, q.required_approvals])));
+      setEscalated(escalatedQuestions);
+    } catch (err: any) {
+      console.error('Error loading review consensus data:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to load review settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveQuorum = async (examType: string) => {
+    try {
+      setBusyKey(`quorum:${examType}`);
+      const updated = await reviewConsensusService.setQuorum(examType, quorumDrafts[examType]);
+      setQuorums(quorums.map(q => q.exam_type === examType ? updated : q));
+    } catch (err: any) {
+      console.error('Error saving review quorum:', err);
+      setError(err.response?.data?.error || 'Failed to save quorum');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleAdjudicate = async (question: EscalatedQuestion, decision: ReviewDecision) => {
+    try {
+      setBusyKey(`question:${question.id}`);
+      await reviewConsensusService.adjudicate(question.id!, decision, rulingNotes[question.id!] || '');
+      setEscalated(escalated.filter(q => q.id !== question.id));
+    } catch (err: any) {
+      console.error('Error adjudicating question:', err);
+      setError(err.response?.data?.error || 'Failed to record ruling');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Review Consensus</h1>
+          <button
+            onClick={() => navigate('/admin')}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Back to Admin Dashboard
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+            <button
+              onClick={() => setError(null)}
+              className="ml-2 text-red-500 hover:text-red-700"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Approval Quorum</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Independent approvals a question needs before students see it. Reviewers don't see each other's votes,
+          and any disagreement is escalated to an admin.
+        </p>
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Exam Type</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Required Approvals</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-300">
+            {quorums.map(quorum => (
+              <tr key={quorum.exam_type}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{quorum.exam_type}</td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <input
+                    type="number"
+                    min={1}
+                    max={maxApprovals}
+                    value={quorumDrafts[quorum.exam_type] ?? quorum.required_approvals}
+                    onChange={(e) => setQuorumDrafts({ ...quorumDrafts, [quorum.exam_type]: parseInt(e.target.value) || 1 })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <button
+                    onClick={() => handleSaveQuorum(quorum.exam_type)}
+                    disabled={busyKey !== null || quorumDrafts[quorum.exam_type] === quorum.required_approvals}
+                    className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 text-sm disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-900">Escalated Questions</h2>
+          <span className="bg-orange-100 text-orange-800 px-3 py-1 rounded-full text-sm font-medium">
+            {escalated.length} awaiting a ruling
+          </span>
+        </div>
+
+        {escalated.length === 0 ? (
+          <p className="text-gray-500">No reviewer disagreements to settle.</p>
+        ) : (
+          <div className="space-y-4">
+            {escalated.map(question => (
+              <div key={question.id} className="border border-orange-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-semibold text-gray-900">
+                      Question #{question.question_number || question.id}
+                    </div>
+                    <p className="text-sm text-gray-700 mt-1">
+                      {question.question.length > 200 ? `${question.question.substring(0, 200)}...` : question.question}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => navigate(`/question/${question.id}`, { state: { from: '/admin/review-consensus' } })}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 flex-shrink-0"
+                  >
+                    View
+                  </button>
+                </div>
+
+                <table className="w-full mt-3 text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 pr-4 font-medium">Reviewer</th>
+                      <th className="py-1 pr-4 font-medium">Vote</th>
+                      <th className="py-1 pr-4 font-medium">Difficulty</th>
+                      <th className="py-1 pr-4 font-medium">Reasons</th>
+                      <th className="py-1 font-medium">Notes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {question.votes.map(vote => (
+                      <tr key={vote.id} className="border-t border-gray-100 align-top">
+                        <td className="py-2 pr-4 text-gray-700">{vote.reviewer_username || 'Unknown user'}</td>
+                        <td className="py-2 pr-4">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DECISION_STYLES[vote.decision].className}`}>
+                            {DECISION_STYLES[vote.decision].label}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700">{vote.difficulty_rating ? `${vote.difficulty_rating}/5` : '-'}</td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {vote.reasons?.length
+                            ? vote.reasons.map(reason => {
+                                const criterion = rubricCriteria.find(c => c.code === reason.code);
+                                const label = criterion?.label || reason.code;
+                                return reason.score ? `${label} (${reason.score}/${criterion?.max_score ?? '?'})` : label;
+                              }).join(', ')
+                            : '-'}
+                        </td>
+                        <td className="py-2 text-gray-700 whitespace-pre-wrap">{vote.notes || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <textarea
+                  value={rulingNotes[question.id!] || ''}
+                  onChange={(e) => setRulingNotes({ ...rulingNotes, [question.id!]: e.target.value })}
+                  rows={2}
+                  placeholder="Notes for the author (required unless approving)..."
+                  className="w-full mt-3 px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+                />
+                <div className="flex gap-2 mt-2">
+                  {(Object.keys(DECISION_STYLES) as ReviewDecision[]).map(decision => (
+                    <button
+                      key={decision}
+                      onClick={() => handleAdjudicate(question, decision)}
+                      disabled={busyKey !== null}
+                      className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      {DECISION_STYLES[decision].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewConsensus;
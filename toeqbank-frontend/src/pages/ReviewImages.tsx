@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
+import ImageAnnotator from '../components/ImageAnnotator';
+import PhiRedactor from '../components/PhiRedactor';
+import { IMAGE_REVIEW_CRITERIA, ImageReview, ImageReviewScores, PhiRegion, PhiStatus } from '../services/api';
 
 interface Image {
   id: number;
@@ -15,10 +18,43 @@ interface Image {
   license_details: string | null;
   source_url: string | null;
   uploaded_by: number | null;
+  replaced_at?: string | null;
+  phi_status?: PhiStatus;
+  phi_regions?: PhiRegion[];
   created_at: string;
   updated_at: string;
 }
 
+const PHI_STATUS_TEXT: Record<PhiStatus, { label: string; detail: string; className: string }> = {
+  pending: {
+    label: 'Scanning',
+    detail: 'The text scan is still running. Check the image yourself or come back to it shortly.',
+    className: 'bg-gray-100 text-gray-800'
+  },
+  flagged: {
+    label: 'Possible patient details',
+    detail: 'Text that looks like a name, date or ID number was found. Redact it, or clear the image if it is a false alarm.',
+    className: 'bg-red-100 text-red-800'
+  },
+  clear: {
+    label: 'Clear',
+    detail: 'No patient details were found.',
+    className: 'bg-green-100 text-green-800'
+  },
+  redacted: {
+    label: 'Redacted',
+    detail: 'Patient details have been blacked out.',
+    className: 'bg-green-100 text-green-800'
+  },
+  unscanned: {
+    label: 'Not scanned',
+    detail: 'This file could not be scanned for text. Look for patient details in the header bar and every frame.',
+    className: 'bg-yellow-100 text-yellow-800'
+  }
+};
+
+const isPhiCleared = (status?: PhiStatus) => status === 'clear' || status === 'redacted';
+
 interface ReviewStats {
   total: number;
   reviewed: number;
@@ -45,6 +81,13 @@ const ReviewImages: React.FC = () => {
   });
   const [uploaders, setUploaders] = useState<ImageUploader[]>([]);
   const [selectedUploader, setSelectedUploader] = useState<number | null>(null);
+  const [annotating, setAnnotating] = useState(false);
+  const [redacting, setRedacting] = useState(false);
+  const [clearingPhi, setClearingPhi] = useState(false);
+  const [scores, setScores] = useState<Partial<ImageReviewScores>>({});
+  const [notes, setNotes] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [previousReviews, setPreviousReviews] = useState<ImageReview[]>([]);
 
   // Redirect if not authorized
   useEffect(() => {
@@ -58,6 +101,12 @@ const ReviewImages: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
+      setAnnotating(false);
+      setRedacting(false);
+      setScores({});
+      setNotes('');
+      setFormError(null);
+      setPreviousReviews([]);
       
       // Build URL with optional user filter
       let url = `http://localhost:3001/api/images/next-for-review`;
@@ -82,6 +131,19 @@ const ReviewImages: React.FC = () => {
       const data = await response.json();
       setCurrentImage(data.image);
       setStats(data.stats);
+
+      // A replacement file comes back with the reviews that sent it back
+      if (data.image.replaced_at) {
+        const reviewsResponse = await fetch(`http://localhost:3001/api/images/${data.image.id}/reviews`, {
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        });
+        if (reviewsResponse.ok) {
+          const reviewsData = await reviewsResponse.json();
+          setPreviousReviews(reviewsData.reviews);
+        }
+      }
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -89,19 +151,20 @@ const ReviewImages: React.FC = () => {
     }
   }, [token, selectedUploader]);
 
-  const submitReview = async (imageId: number, rating: number) => {
+  const submitReview = async (imageId: number, status: ImageReview['status']) => {
+    const missing = IMAGE_REVIEW_CRITERIA.find(criterion => scores[criterion.key] === undefined);
+    if (missing) {
+      setFormError(`Score ${missing.label.toLowerCase()} before submitting`);
+      return;
+    }
+    if (status !== 'approved' && !notes.trim()) {
+      setFormError('Tell the contributor what needs to change');
+      return;
+    }
+
     try {
       setSubmitting(true);
-      setError(null);
-
-      let status: string;
-      if (rating >= 8) {
-        status = 'approved';
-      } else if (rating <= 5) {
-        status = 'rejected';
-      } else { // 6 or 7
-        status = 'returned';
-      }
+      setFormError(null);
 
       const response = await fetch(
         `http://localhost:3001/api/images/${imageId}/review`,
@@ -111,12 +174,14 @@ const ReviewImages: React.FC = () => {
             'Authorization': `Bearer ${token}`,
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify({ rating, status })
+          body: JSON.stringify({ status, scores, notes: notes.trim() })
         }
       );
 
       if (!response.ok) {
-        throw new Error('Failed to submit review');
+        const data = await response.json().catch(() => ({}));
+        setFormError(data.error || 'Failed to submit review');
+        return;
       }
 
       // Automatically fetch next image
@@ -128,6 +193,34 @@ const ReviewImages: React.FC = () => {
     }
   };
 
+  // The reviewer has looked and there is nothing identifying on the image
+  const clearPhi = async (imageId: number) => {
+    try {
+      setClearingPhi(true);
+      setFormError(null);
+
+      const response = await fetch(`http://localhost:3001/api/images/${imageId}/phi/clear`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setFormError(data.error || 'Failed to clear image');
+        return;
+      }
+
+      const updated = await response.json();
+      setCurrentImage(prev => prev ? { ...prev, phi_status: updated.phi_status } : prev);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setClearingPhi(false);
+    }
+  };
+
   const loadUploaders = useCallback(async () => {
     try {
       const response = await fetch('http://localhost:3001/api/images/uploaders', {
@@ -175,18 +268,6 @@ const ReviewImages: React.FC = () => {
     });
   };
 
-  const getRatingColor = (rating: number): string => {
-    if (rating >= 8) return 'bg-green-500 hover:bg-green-600 text-white';
-    if (rating <= 5) return 'bg-red-500 hover:bg-red-600 text-white';
-    return 'bg-yellow-500 hover:bg-yellow-600 text-white';
-  };
-
-  const getRatingLabel = (rating: number): string => {
-    if (rating >= 8) return 'APPROVE';
-    if (rating <= 5) return 'REJECT';
-    return 'REVISE';
-  };
-
   const getImageUrl = (filename: string) => {
     return `http://localhost:3001/api/images/serve/${filename}`;
   };
@@ -267,7 +348,7 @@ const ReviewImages: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-2xl font-bold text-gray-900">Image Review</h1>
-              <p className="text-gray-600">Rate images from 0-10 to approve, reject, or request revision</p>
+              <p className="text-gray-600">Score each criterion, then approve, return to the contributor, or reject</p>
             </div>
             <div className="text-right">
               <div className="text-sm text-gray-500">Progress</div>
@@ -333,19 +414,53 @@ const ReviewImages: React.FC = () => {
                   margin: '0 auto'
                 }}
               >
-                {isImage(currentImage.mime_type) ? (
-                  <img
-                    src={getImageUrl(currentImage.filename)}
-                    alt={currentImage.original_name}
-                    style={{
-                      maxWidth: '100%',
-                      maxHeight: '100%',
-                      width: 'auto',
-                      height: 'auto',
-                      objectFit: 'contain'
+                {redacting ? (
+                  <PhiRedactor
+                    imageId={currentImage.id}
+                    imageUrl={getImageUrl(currentImage.filename)}
+                    flaggedRegions={currentImage.phi_regions}
+                    onRedacted={(image) => {
+                      setCurrentImage(prev => prev ? { ...prev, ...image } as Image : prev);
+                      setRedacting(false);
                     }}
-                    className="rounded"
+                    onClose={() => setRedacting(false)}
+                  />
+                ) : annotating ? (
+                  <ImageAnnotator
+                    imageId={currentImage.id}
+                    imageUrl={getImageUrl(currentImage.filename)}
+                    isVideo={isVideo(currentImage.mime_type)}
+                    onClose={() => setAnnotating(false)}
                   />
+                ) : isImage(currentImage.mime_type) ? (
+                  <div style={{ position: 'relative', display: 'inline-block', maxWidth: '100%', maxHeight: '100%', lineHeight: 0 }}>
+                    <img
+                      src={getImageUrl(currentImage.filename)}
+                      alt={currentImage.original_name}
+                      style={{
+                        maxWidth: '100%',
+                        maxHeight: '1000px',
+                        width: 'auto',
+                        height: 'auto',
+                        objectFit: 'contain'
+                      }}
+                      className="rounded"
+                    />
+                    {/* Outline what the text scan flagged */}
+                    {currentImage.phi_status === 'flagged' && currentImage.phi_regions?.map((region, index) => (
+                      <div
+                        key={index}
+                        style={{
+                          position: 'absolute',
+                          left: `${region.x * 100}%`,
+                          top: `${region.y * 100}%`,
+                          width: `${region.width * 100}%`,
+                          height: `${region.height * 100}%`,
+                          outline: '2px dashed #ef4444'
+                        }}
+                      />
+                    ))}
+                  </div>
                 ) : isVideo(currentImage.mime_type) ? (
                   <video
                     src={getImageUrl(currentImage.filename)}
@@ -443,35 +558,117 @@ const ReviewImages: React.FC = () => {
                     </div>
                   )}
                 </div>
+
+                {!annotating && !redacting && (
+                  <button
+                    onClick={() => setAnnotating(true)}
+                    className="mt-4 w-full px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+                  >
+                    Annotate Image
+                  </button>
+                )}
               </div>
 
-              {/* Rating Scale */}
+              {/* Burned-in Patient Details */}
               <div className="bg-white rounded-lg shadow-lg p-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Rate This Image</h3>
-                <p className="text-sm text-gray-600 mb-6">
-                  • <span className="font-medium text-red-600">0-5: Reject</span> (Poor quality, inappropriate, or violates guidelines)<br/>
-                  • <span className="font-medium text-yellow-600">6-7: Needs Revision</span> (Good potential but needs improvement)<br/>
-                  • <span className="font-medium text-green-600">8-10: Approve</span> (Excellent quality and appropriate for use)
-                </p>
-                
-                <div className="grid grid-cols-11 gap-2">
-                  {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((rating) => (
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-lg font-semibold text-gray-900">Patient Details</h3>
+                  <span className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${PHI_STATUS_TEXT[currentImage.phi_status || 'unscanned'].className}`}>
+                    {PHI_STATUS_TEXT[currentImage.phi_status || 'unscanned'].label}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mb-4">{PHI_STATUS_TEXT[currentImage.phi_status || 'unscanned'].detail}</p>
+
+                {!isPhiCleared(currentImage.phi_status) && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {currentImage.image_type === 'still' && isImage(currentImage.mime_type) && (
+                      <button
+                        onClick={() => { setAnnotating(false); setRedacting(true); }}
+                        disabled={redacting}
+                        className="px-4 py-2 bg-gray-900 text-white rounded-md hover:bg-black disabled:opacity-50"
+                      >
+                        Redact Regions
+                      </button>
+                    )}
                     <button
-                      key={rating}
-                      onClick={() => submitReview(currentImage.id, rating)}
-                      disabled={submitting}
-                      className={`
-                        relative h-12 rounded-lg font-bold transition-all duration-200
-                        ${getRatingColor(rating)}
-                        ${submitting ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105 hover:shadow-lg'}
-                        disabled:hover:scale-100 disabled:hover:shadow-none
-                      `}
+                      onClick={() => clearPhi(currentImage.id)}
+                      disabled={clearingPhi}
+                      className="px-4 py-2 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 disabled:opacity-50"
                     >
-                      <div className="text-lg">{rating}</div>
-                      <div className="text-xs opacity-90">{getRatingLabel(rating)}</div>
+                      {clearingPhi ? 'Saving...' : 'No Patient Details Visible'}
                     </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Review Rubric */}
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Review This Image</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Score each criterion from 0 (unusable) to 10 (excellent).
+                </p>
+
+                <div className="space-y-3 mb-4">
+                  {IMAGE_REVIEW_CRITERIA.map(criterion => (
+                    <div key={criterion.key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{criterion.label}</label>
+                      <div className="grid grid-cols-11 gap-1">
+                        {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(score => (
+                          <button
+                            key={score}
+                            onClick={() => setScores({ ...scores, [criterion.key]: score })}
+                            disabled={submitting}
+                            className={`h-8 rounded text-sm font-semibold ${
+                              scores[criterion.key] === score
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                          >
+                            {score}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
                   ))}
                 </div>
+
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes for the contributor</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                  placeholder="Required when returning or rejecting, e.g. patient name visible in the top banner"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4"
+                />
+
+                {formError && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm mb-4">{formError}</div>
+                )}
+
+                <div className="grid grid-cols-3 gap-2">
+                  <button
+                    onClick={() => submitReview(currentImage.id, 'approved')}
+                    disabled={submitting || !isPhiCleared(currentImage.phi_status)}
+                    title={isPhiCleared(currentImage.phi_status) ? undefined : 'Redact or clear patient details first'}
+                    className="px-4 py-2 rounded-lg font-bold bg-green-500 hover:bg-green-600 text-white disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => submitReview(currentImage.id, 'returned')}
+                    disabled={submitting}
+                    className="px-4 py-2 rounded-lg font-bold bg-yellow-500 hover:bg-yellow-600 text-white disabled:opacity-50"
+                  >
+                    Return to Contributor
+                  </button>
+                  <button
+                    onClick={() => submitReview(currentImage.id, 'rejected')}
+                    disabled={submitting}
+                    className="px-4 py-2 rounded-lg font-bold bg-red-500 hover:bg-red-600 text-white disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </div>
                 
                 {submitting && (
                   <div className="mt-4 text-center">
@@ -482,6 +679,27 @@ const ReviewImages: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {previousReviews.length > 0 && (
+                <div className="bg-white rounded-lg shadow-lg p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1">Earlier Reviews</h3>
+                  <p className="text-sm text-gray-600 mb-4">The contributor uploaded a replacement after these reviews.</p>
+                  <div className="space-y-3">
+                    {previousReviews.map(review => (
+                      <div key={review.id} className="border border-gray-200 rounded p-3 text-sm">
+                        <div className="flex justify-between mb-1">
+                          <span className="font-medium">{review.status.toUpperCase()} by {review.reviewer_name || 'Unknown'}</span>
+                          <span className="text-gray-500">{formatDate(review.created_at)}</span>
+                        </div>
+                        <div className="text-gray-600 mb-1">
+                          {IMAGE_REVIEW_CRITERIA.map(criterion => `${criterion.label}: ${review[criterion.key]}`).join(' · ')}
+                        </div>
+                        {review.notes && <p className="text-gray-800">{review.notes}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  reviewRubricService,
+  RubricCriterion,
+  ReasonStats,
+  GroupedReasonCounts
+} from '../services/reviewRubricApi';
+
+const EMPTY_CRITERION = { code: '', label: '', description: '', max_score: 5, display_order: 0 };
+
+const ReviewRubric: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [maxScore, setMaxScore] = useState(10);
+  const [stats, setStats] = useState<ReasonStats>({ reasons: [], batches: [], authors: [] });
+  const [newCriterion, setNewCriterion] = useState(EMPTY_CRITERION);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadData();
+    }
+  }, [isAdmin]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [rubric, reasonStats] = await Promise.all([
+        reviewRubricService.getCriteria(true),
+        reviewRubricService.getReasonStats()
+      ]);
+      setCriteria(rubric.criteria);
+      setMaxScore(rubric.max_score);
+      setStats(reasonStats);
+    } catch (err: any) {
+      console.error('Error loading review rubric:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to load review rubric');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdate = async (code: string, updates: Partial<Omit<RubricCriterion, 'code'>>) => {
+    try {
+      setBusyKey(code);
+      const updated = await reviewRubricService.updateCriterion(code, updates);
+      setCriteria(criteria.map(c => c.code === code ? updated : c));
+    } catch (err: any) {
+      console.error('Error updating rubric criterion:', err);
+      setError(err.response?.data?.error || 'Failed to update criterion');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setBusyKey('new');
+      const created = await reviewRubricService.createCriterion(newCriterion);
+      setCriteria([...criteria, created].sort((a, b) => a.display_order - b.display_order));
+      setNewCriterion(EMPTY_CRITERION);
+    } catch (err: any) {
+      console.error('Error creating rubric criterion:', err);
+      setError(err.response?.data?.error || 'Failed to add criterion');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const labelFor = (code: string) => criteria.find(c => c.code === code)?.label || code;
+
+  const renderBreakdown = (title: string, groups: GroupedReasonCounts[], emptyText: string) => (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">{title}</h3>
+      {groups.length === 0 ? (
+        <p className="text-gray-500 text-sm">{emptyText}</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reviews</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reasons</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-300">
+            {groups.map(group => (
+              <tr key={group.id} className="align-top">
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">{group.name}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">{group.reviews}</td>
+                <td className="px-4 py-2">
+                  <div className="flex flex-wrap gap-1">
+                    {group.reasons.map(reason => (
+                      <span key={reason.code} className="bg-orange-100 text-orange-800 px-2 py-0.5 rounded-full text-xs font-medium">
+                        {labelFor(reason.code)} × {reason.count}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  const mostCited = Math.max(1, ...stats.reasons.map(r => r.count));
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Review Rubric</h1>
+          <button
+            onClick={() => navigate('/admin')}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Back to Admin Dashboard
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+            <button
+              onClick={() => setError(null)}
+              className="ml-2 text-red-500 hover:text-red-700"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mb-4">
+          Reasons reviewers can pick when sending a question back. Retired criteria stay on past reviews but are no longer offered.
+        </p>
+
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Label</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Max Score</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-300">
+            {criteria.map(criterion => (
+              <tr key={criterion.code} className={criterion.is_active ? '' : 'bg-gray-50 text-gray-400'}>
+                <td className="px-4 py-3 text-sm font-mono">{criterion.code}</td>
+                <td className="px-4 py-3 text-sm">
+                  <div className="font-medium">{criterion.label}</div>
+                  {criterion.description && <div className="text-xs text-gray-500">{criterion.description}</div>}
+                </td>
+                <td className="px-4 py-3">
+                  <select
+                    value={criterion.max_score}
+                    onChange={(e) => handleUpdate(criterion.code, { max_score: parseInt(e.target.value) })}
+                    disabled={busyKey !== null}
+                    className="text-sm border border-gray-300 rounded px-2 py-1"
+                  >
+                    {Array.from({ length: maxScore }, (_, i) => i + 1).map(score => (
+                      <option key={score} value={score}>{score}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-4 py-3 text-sm">{criterion.display_order}</td>
+                <td className="px-4 py-3">
+                  <button
+                    onClick={() => handleUpdate(criterion.code, { is_active: !criterion.is_active })}
+                    disabled={busyKey !== null}
+                    className={`px-3 py-1 rounded text-sm disabled:opacity-50 ${
+                      criterion.is_active
+                        ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                        : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                    }`}
+                  >
+                    {criterion.is_active ? 'Active' : 'Retired'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-6 gap-3 mt-6 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Code</label>
+            <input
+              value={newCriterion.code}
+              onChange={(e) => setNewCriterion({ ...newCriterion, code: e.target.value })}
+              placeholder="e.g. outdated_guideline"
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Label</label>
+            <input
+              value={newCriterion.label}
+              onChange={(e) => setNewCriterion({ ...newCriterion, label: e.target.value })}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+              required
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Description</label>
+            <input
+              value={newCriterion.description}
+              onChange={(e) => setNewCriterion({ ...newCriterion, description: e.target.value })}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Order</label>
+            <input
+              type="number"
+              value={newCriterion.display_order}
+              onChange={(e) => setNewCriterion({ ...newCriterion, display_order: parseInt(e.target.value) || 0 })}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={busyKey !== null}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            Add Criterion
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 mb-1">Why Questions Are Sent Back</h2>
+          <p className="text-sm text-gray-600 mb-4">Rubric reasons cited in reviews of questions in your exam.</p>
+          <div className="space-y-2">
+            {stats.reasons.map(reason => (
+              <div key={reason.code} className="flex items-center gap-3">
+                <div className="w-56 text-sm text-gray-700 flex-shrink-0">{reason.label}</div>
+                <div className="flex-1 bg-gray-100 rounded h-4">
+                  <div className="bg-orange-400 h-4 rounded" style={{ width: `${(reason.count / mostCited) * 100}%` }}></div>
+                </div>
+                <div className="w-40 text-sm text-gray-600 flex-shrink-0">
+                  {reason.count} cited{reason.avg_score !== null && `, avg severity ${reason.avg_score.toFixed(1)}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {renderBreakdown('By Batch', stats.batches, 'No reasons cited on batch uploads yet.')}
+        {renderBreakdown('By Author', stats.authors, 'No reasons cited yet.')}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewRubric;
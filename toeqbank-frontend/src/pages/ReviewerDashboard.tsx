@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { 
@@ -12,6 +12,12 @@ import {
   ExamAssignment
 } from '../services/api';
 import { handleImageError, getPlaceholderImage } from '../utils/imageHelpers';
+import { itemAnalysisService, FlaggedItem, describeFlagReason } from '../services/itemAnalysisApi';
+import ItemAnalysisPanel from '../components/ItemAnalysisPanel';
+import { reviewCommentService, OpenReviewThread, ReviewThread, describeAnchor } from '../services/reviewCommentApi';
+import ReviewThreads from '../components/ReviewThreads';
+import { reviewAssignmentService } from '../services/reviewAssignmentApi';
+import { reviewRubricService, RubricCriterion } from '../services/reviewRubricApi';
 
 interface QuestionWithStatus extends Question {
   review_status?: 'pending' | 'approved' | 'rejected' | 'returned' | 'pending submission';
@@ -23,7 +29,7 @@ interface QuestionWithStatus extends Question {
 }
 
 const ReviewerDashboard: React.FC = () => {
-  const { isReviewer, isAdmin, isLoading: authLoading, isAuthenticated } = useAuth();
+  const { user, isReviewer, isAdmin, isLoading: authLoading, isAuthenticated } = useAuth();
   const navigate = useNavigate();
   const [currentQuestion, setCurrentQuestion] = useState<QuestionWithStatus | null>(null);
   const [loading, setLoading] = useState(true);
@@ -36,6 +42,18 @@ const ReviewerDashboard: React.FC = () => {
     approved: 0,
     rejected_and_returned: 0
   });
+  const [flaggedItems, setFlaggedItems] = useState<FlaggedItem[]>([]);
+  const [openThreads, setOpenThreads] = useState<OpenReviewThread[]>([]);
+  const [claimExpiresAt, setClaimExpiresAt] = useState<string | null>(null);
+  const [currentOpenThreadCount, setCurrentOpenThreadCount] = useState(0);
+  const [rubricCriteria, setRubricCriteria] = useState<RubricCriterion[]>([]);
+  // Selected rubric criteria, each with an optional severity score
+  const [selectedReasons, setSelectedReasons] = useState<Record<string, number | null>>({});
+
+  // Only the reviewer's own open comments can stand in for notes
+  const handleThreadsChange = useCallback((threads: ReviewThread[]) => {
+    setCurrentOpenThreadCount(threads.filter(thread => !thread.resolved_at && thread.author_id === user?.id).length);
+  }, [user?.id]);
 
   useEffect(() => {
     // Wait for authentication to complete before making API calls
@@ -54,6 +72,9 @@ const ReviewerDashboard: React.FC = () => {
     if (isReviewer || isAdmin) {
       console.log('User authenticated and has reviewer permissions, loading questions...');
       loadNextQuestion();
+      reviewRubricService.getCriteria()
+        .then(data => setRubricCriteria(data.criteria))
+        .catch(err => console.error('Error loading review rubric:', err));
     } else {
       console.log('User authenticated but lacks reviewer permissions');
       setError('Reviewer permissions required');
@@ -66,10 +87,20 @@ const ReviewerDashboard: React.FC = () => {
       setLoading(true);
       setError(null);
       
-      // Get pending questions from the review API
-      const pendingResponse = await questionService.getPendingReview();
-      const pendingQuestions = pendingResponse.questions || [];
+      // Claim the next question so no other reviewer is shown it at the same time
+      const { question, claim } = await reviewAssignmentService.claimNext();
+      setClaimExpiresAt(claim?.expires_at || null);
       
+      // Questions whose response statistics call for another look
+      itemAnalysisService.getFlagged()
+        .then(data => setFlaggedItems(data.items))
+        .catch(err => console.error('Error loading flagged questions:', err));
+
+      // Review comments still waiting on an answer
+      reviewCommentService.getOpenThreads()
+        .then(setOpenThreads)
+        .catch(err => console.error('Error loading open review comments:', err));
+
       // Get review stats
       const statsResponse = await questionService.getReviewStats();
       setStats({
@@ -79,14 +110,11 @@ const ReviewerDashboard: React.FC = () => {
         rejected_and_returned: statsResponse.rejected + statsResponse.returned
       });
       
-      if (pendingQuestions.length === 0) {
+      if (!question) {
         setCurrentQuestion(null);
         return;
       }
       
-      // Get the first (oldest) pending question
-      const question = pendingQuestions[0];
-      
       // Load additional data for the question
       try {
         const [questionImages, metadata, examAssignments] = await Promise.all([
@@ -144,38 +172,58 @@ const ReviewerDashboard: React.FC = () => {
     }
   };
 
+  const handleDismissFlag = async (questionId: number) => {
+    try {
+      await itemAnalysisService.dismissFlag(questionId);
+      setFlaggedItems(flaggedItems.filter(item => item.question_id !== questionId));
+    } catch (err) {
+      console.error('Dismiss flag error:', err);
+      alert('Failed to dismiss flag');
+    }
+  };
+
+  const toggleReason = (code: string) => {
+    const { [code]: selected, ...rest } = selectedReasons;
+    setSelectedReasons(selected === undefined ? { ...selectedReasons, [code]: null } : rest);
+  };
+
+  const resetReview = () => {
+    setReviewNotes('');
+    setDifficultyRating(null);
+    setSelectedReasons({});
+  };
+
   const handleApprove = async (questionId: number) => {
     try {
-      await questionService.updateReviewStatus(questionId, 'approved', reviewNotes, difficultyRating || undefined);
+      const result = await questionService.updateReviewStatus(questionId, 'approved', reviewNotes, difficultyRating || undefined);
       
-      // Show success message and load next question
-      alert('Question approved successfully!');
-      setReviewNotes('');
-      setDifficultyRating(null);
+      // Show the consensus outcome and load next question
+      alert(result.message);
+      resetReview();
       loadNextQuestion();
-    } catch (err) {
+    } catch (err: any) {
       console.error('Approve error:', err);
-      alert('Failed to approve question');
+      alert(err.response?.data?.error || 'Failed to approve question');
     }
   };
 
   const handleNeedsWork = async (questionId: number) => {
-    if (!reviewNotes.trim()) {
-      alert('Please provide notes on what needs work');
+    const reasons = Object.entries(selectedReasons).map(([code, score]) => ({ code, score }));
+    if (!reviewNotes.trim() && reasons.length === 0 && currentOpenThreadCount === 0) {
+      alert('Please provide notes, pick a rubric reason or open your own review comments on what needs work');
       return;
     }
     
     try {
-      await questionService.updateReviewStatus(questionId, 'returned', reviewNotes, difficultyRating || undefined);
+      const result = await questionService.updateReviewStatus(questionId, 'returned', reviewNotes, difficultyRating || undefined, reasons);
       
-      // Show success message and load next question
-      alert('Question marked as needs work');
-      setReviewNotes('');
-      setDifficultyRating(null);
+      // Show the consensus outcome and load next question
+      alert(result.message);
+      resetReview();
       loadNextQuestion();
-    } catch (err) {
+    } catch (err: any) {
       console.error('Needs work error:', err);
-      alert('Failed to mark question as needs work');
+      alert(err.response?.data?.error || 'Failed to mark question as needs work');
     }
   };
 
@@ -248,6 +296,97 @@ const ReviewerDashboard: React.FC = () => {
           </div>
         )}
 
+        {/* Questions flagged by item analysis */}
+        {flaggedItems.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8 border-l-4 border-red-400">
+            <h2 className="text-xl font-bold text-gray-900 mb-1">
+              🚩 Flagged by Item Analysis ({flaggedItems.length})
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              These questions behave unexpectedly in completed tests and should be re-reviewed.
+            </p>
+            <div className="space-y-3">
+              {flaggedItems.map(item => (
+                <div key={item.question_id} className="flex items-start justify-between gap-4 border border-gray-200 rounded-lg p-4">
+                  <div>
+                    <div className="font-semibold text-gray-900">
+                      Question #{item.question_number || item.question_id}
+                      <span className="ml-3 text-sm font-normal text-gray-600">
+                        p = {item.p_value !== null ? item.p_value.toFixed(2) : '-'},
+                        r<sub>pb</sub> = {item.point_biserial !== null ? item.point_biserial.toFixed(2) : '-'},
+                        {' '}{item.responses} responses
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700 mt-1">
+                      {item.question.length > 160 ? `${item.question.substring(0, 160)}...` : item.question}
+                    </p>
+                    <ul className="list-disc list-inside text-sm text-red-700 mt-1">
+                      {item.flag_reasons.map(reason => (
+                        <li key={reason}>{describeFlagReason(reason)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => navigate(`/question/${item.question_id}`, { state: { from: '/reviewer/dashboard' } })}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                      View
+                    </button>
+                    <button
+                      onClick={() => handleDismissFlag(item.question_id)}
+                      className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-100"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Open review comment threads */}
+        {openThreads.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8 border-l-4 border-orange-400">
+            <h2 className="text-xl font-bold text-gray-900 mb-1">
+              💬 Open Review Comments ({openThreads.length})
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Comment threads that have not been resolved yet.
+            </p>
+            <div className="space-y-3">
+              {openThreads.map(thread => {
+                const lastComment = thread.replies.length > 0 ? thread.replies[thread.replies.length - 1] : thread;
+                return (
+                  <div key={thread.id} className="flex items-start justify-between gap-4 border border-gray-200 rounded-lg p-4">
+                    <div>
+                      <div className="font-semibold text-gray-900">
+                        Question #{thread.question_number || thread.question_id}
+                        <span className="ml-3 text-sm font-normal text-gray-600">
+                          {describeAnchor(thread)} · {thread.review_status} · {thread.replies.length} repl{thread.replies.length !== 1 ? 'ies' : 'y'}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700 mt-1">
+                        {thread.question.length > 160 ? `${thread.question.substring(0, 160)}...` : thread.question}
+                      </p>
+                      <p className="text-sm text-gray-600 mt-1 italic">
+                        {lastComment.author_username || 'Unknown user'}: {lastComment.body}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => navigate(`/question/${thread.question_id}`, { state: { from: '/reviewer/dashboard' } })}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 flex-shrink-0"
+                    >
+                      View
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Single Question Review */}
         {!currentQuestion ? (
           <div className="bg-white rounded-lg shadow-md p-8 text-center">
@@ -283,6 +422,11 @@ const ReviewerDashboard: React.FC = () => {
                 <span className="px-3 py-1 text-sm font-semibold rounded-full bg-yellow-100 text-yellow-800">
                   PENDING REVIEW
                 </span>
+                {claimExpiresAt && (
+                  <span className="text-sm text-gray-500">
+                    Reserved for you until {new Date(claimExpiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                )}
               </div>
               <div className="flex gap-4 text-sm text-gray-500">
                 {currentQuestion.source_folder && (
@@ -466,6 +610,23 @@ const ReviewerDashboard: React.FC = () => {
                   </div>
                 </div>
               )}
+
+              {/* Review Comments Section */}
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3 text-lg">Review Comments:</h3>
+                <ReviewThreads
+                  questionId={currentQuestion.id!}
+                  question={currentQuestion}
+                  canCreate
+                  onThreadsChange={handleThreadsChange}
+                />
+              </div>
+
+              {/* Item Analysis Section */}
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3 text-lg">Item Analysis:</h3>
+                <ItemAnalysisPanel question={currentQuestion} />
+              </div>
             </div>
 
           </div>
@@ -491,7 +652,7 @@ const ReviewerDashboard: React.FC = () => {
           onChange={(e) => setReviewNotes(e.target.value)}
           className="block w-full px-4 py-3 border-0 border-t border-b border-gray-300 focus:outline-none focus:ring-0 focus:border-blue-500 text-lg bg-white resize-none"
           rows={4}
-          placeholder="Enter your review notes, suggestions, or feedback (required for 'Needs Work')..."
+          placeholder="Enter your review notes, suggestions, or feedback (required for 'Needs Work' unless a reason is picked or comments are open)..."
           style={{
             width: '100vw',
             margin: '0',
@@ -500,6 +661,64 @@ const ReviewerDashboard: React.FC = () => {
           }}
         />
         
+        {/* Rubric Reasons Section */}
+        {rubricCriteria.length > 0 && (
+          <div className="bg-white border-t border-gray-200 py-4">
+            <div className="max-w-7xl mx-auto px-4">
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                Reasons for Needs Work (Optional):
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {rubricCriteria.map(criterion => {
+                  const selected = criterion.code in selectedReasons;
+                  return (
+                    <div
+                      key={criterion.code}
+                      className={`border rounded-lg p-3 ${selected ? 'border-orange-400 bg-orange-50' : 'border-gray-200'}`}
+                    >
+                      <label className="flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selected}
+                          onChange={() => toggleReason(criterion.code)}
+                          className="mt-1"
+                        />
+                        <span>
+                          <span className="block text-sm font-medium text-gray-900">{criterion.label}</span>
+                          {criterion.description && (
+                            <span className="block text-xs text-gray-500">{criterion.description}</span>
+                          )}
+                        </span>
+                      </label>
+                      {selected && (
+                        <div className="flex items-center gap-2 mt-2 ml-6">
+                          <span className="text-xs text-gray-600">Severity:</span>
+                          <select
+                            value={selectedReasons[criterion.code] ?? ''}
+                            onChange={(e) => setSelectedReasons({
+                              ...selectedReasons,
+                              [criterion.code]: e.target.value ? parseInt(e.target.value) : null
+                            })}
+                            className="text-sm border border-gray-300 rounded px-2 py-1"
+                          >
+                            <option value="">Not scored</option>
+                            {Array.from({ length: criterion.max_score }, (_, i) => i + 1).map(score => (
+                              <option key={score} value={score}>{score} / {criterion.max_score}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Reasons are only recorded when the question is sent back for work.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Difficulty Rating Section */}
         <div className="bg-gray-50 border-t border-gray-200 py-4">
           <div className="max-w-7xl mx-auto px-4">
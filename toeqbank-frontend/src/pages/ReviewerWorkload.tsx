@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { reviewAssignmentService, ReviewerWorkload as Workload, formatTurnaround } from '../services/reviewAssignmentApi';
+
+const ReviewerWorkload: React.FC = () => {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [reviewers, setReviewers] = useState<Workload[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadWorkload();
+    }
+  }, [isAdmin]);
+
+  const loadWorkload = async () => {
+    try {
+      setLoading(true);
+      setReviewers(await reviewAssignmentService.getWorkload());
+    } catch (err: any) {
+      console.error('Error loading reviewer workload:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to load reviewer workload');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Reviewer Workload</h1>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => navigate('/admin/batches')}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Assign Batches
+            </button>
+            <button
+              onClick={() => navigate('/admin')}
+              className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Back to Admin Dashboard
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mb-4">
+          Reviews cast on questions in your exam. Turnaround is the average time from claiming a question to voting on it.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reviewer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last 7 Days</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last 30 Days</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Turnaround</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">In Progress</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-300">
+              {reviewers.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">No reviewers yet.</td>
+                </tr>
+              ) : (
+                reviewers.map(reviewer => (
+                  <tr key={reviewer.reviewer_id} className="hover:bg-blue-50 transition-colors duration-200">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{reviewer.username}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{reviewer.votes_last_7_days}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{reviewer.votes_last_30_days}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{reviewer.votes_total}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatTurnaround(reviewer.avg_turnaround_minutes)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{reviewer.active_claims}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {reviewer.assigned_batches > 0
+                        ? `${reviewer.assigned_pending} pending in ${reviewer.assigned_batches} batch${reviewer.assigned_batches !== 1 ? 'es' : ''}`
+                        : '-'}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewerWorkload;
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import QuestionCard from '../components/QuestionCard';
+import { spacedRepetitionService, ReviewQueueItem, ReviewStats } from '../services/spacedRepetitionApi';
+
+// Recall ratings offered after a correct answer (SM-2 quality 3-5)
+const RATINGS = [
+  { quality: 3, label: 'Hard', description: 'Correct, but it took real effort', color: '#FF9800' },
+  { quality: 4, label: 'Good', description: 'Correct after a moment of thought', color: '#4CAF50' },
+  { quality: 5, label: 'Easy', description: 'Knew it immediately', color: '#2196F3' }
+];
+
+const SpacedReview: React.FC = () => {
+  const [queue, setQueue] = useState<ReviewQueueItem[]>([]);
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState('');
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await spacedRepetitionService.getQueue();
+      setQueue(data.queue);
+      setStats(data.stats);
+      setCurrentIndex(0);
+      setSelectedAnswer('');
+      setReviewedCount(0);
+      setCorrectCount(0);
+    } catch (err: any) {
+      console.error('Error loading review queue:', err);
+      setError(err.response?.data?.error || 'Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const submitRating = async (quality: number) => {
+    const item = queue[currentIndex];
+    if (!item || !selectedAnswer) return;
+
+    try {
+      setSubmitting(true);
+      const result = await spacedRepetitionService.submitReview(item.question.id!, selectedAnswer, quality);
+      setReviewedCount(count => count + 1);
+      if (result.is_correct) {
+        setCorrectCount(count => count + 1);
+      }
+      setCurrentIndex(index => index + 1);
+      setSelectedAnswer('');
+    } catch (err: any) {
+      console.error('Error submitting review:', err);
+      alert(err.response?.data?.error || 'Failed to save review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading today's review...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="error">
+        <p>{error}</p>
+        <button onClick={loadQueue}>Try Again</button>
+      </div>
+    );
+  }
+
+  const statsBar = stats && (
+    <div style={{ display: 'flex', gap: '1.5rem', justifyContent: 'center', marginBottom: '1.5rem', color: '#555' }}>
+      <span><strong>{stats.due_today}</strong> due today</span>
+      <span><strong>{stats.new_available}</strong> new</span>
+      <span><strong>{stats.scheduled}</strong> in rotation</span>
+    </div>
+  );
+
+  if (currentIndex >= queue.length) {
+    return (
+      <div className="practice-test-start">
+        <h2>Daily Review</h2>
+        {statsBar}
+        {reviewedCount > 0 ? (
+          <p>
+            Session complete: {correctCount} of {reviewedCount} answered correctly.
+            Missed questions will come back tomorrow.
+          </p>
+        ) : (
+          <p>Nothing is due right now.</p>
+        )}
+        {stats?.next_due_date && (
+          <p style={{ color: '#666', marginTop: '0.5rem' }}>
+            Next scheduled review: {new Date(stats.next_due_date).toLocaleDateString()}
+          </p>
+        )}
+        <button onClick={loadQueue} className="primary-button" style={{ marginTop: '1.5rem' }}>
+          Check for More
+        </button>
+      </div>
+    );
+  }
+
+  const item = queue[currentIndex];
+  const answered = selectedAnswer !== '';
+  const isCorrect = answered && selectedAnswer === item.question.correct_answer;
+
+  return (
+    <div className="practice-test">
+      <div className="test-header">
+        <h2>Daily Review</h2>
+        <div className="test-progress">
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${(currentIndex / queue.length) * 100}%` }}></div>
+          </div>
+          <span className="progress-text">
+            {currentIndex + 1} of {queue.length}
+            {item.schedule ? ` · review (every ${item.schedule.interval_days} day${item.schedule.interval_days !== 1 ? 's' : ''})` : ' · new'}
+          </span>
+        </div>
+      </div>
+
+      <QuestionCard
+        question={item.question}
+        questionNumber={currentIndex + 1}
+        onAnswerSelect={(answer) => !answered && setSelectedAnswer(answer)}
+        selectedAnswer={selectedAnswer}
+        showAnswer={answered}
+        showExplanation={answered}
+        isReviewMode={answered}
+      />
+
+      {answered && (
+        <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', marginTop: '1.5rem', flexWrap: 'wrap' }}>
+          {isCorrect ? (
+            RATINGS.map(rating => (
+              <button
+                key={rating.quality}
+                onClick={() => submitRating(rating.quality)}
+                disabled={submitting}
+                title={rating.description}
+                style={{
+                  padding: '0.75rem 1.5rem',
+                  backgroundColor: rating.color,
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: submitting ? 'not-allowed' : 'pointer',
+                  fontSize: '1rem'
+                }}
+              >
+                {rating.label}
+              </button>
+            ))
+          ) : (
+            <button
+              onClick={() => submitRating(1)}
+              disabled={submitting}
+              style={{
+                padding: '0.75rem 1.5rem',
+                backgroundColor: '#F44336',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: submitting ? 'not-allowed' : 'pointer',
+                fontSize: '1rem'
+              }}
+            >
+              Continue (review again tomorrow)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpacedReview;
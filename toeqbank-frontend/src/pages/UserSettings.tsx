@@ -1,6 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import ExamSelector, { ExamSelection } from '../components/ExamSelector';
+import { notificationService, EmailFrequency, EMAIL_FREQUENCY_OPTIONS } from '../services/notificationApi';
+import { examRegistryService, ExamRegistry, examDisplayName } from '../services/examRegistryApi';
 
 const UserSettings: React.FC = () => {
   const { user, updateProfile } = useAuth();
@@ -19,6 +21,22 @@ const UserSettings: React.FC = () => {
     examType: user?.exam_type || 'eacvi_toe'
   });
 
+  const [emailFrequency, setEmailFrequency] = useState<EmailFrequency>('daily');
+
+  useEffect(() => {
+    notificationService.getEmailFrequency()
+      .then(setEmailFrequency)
+      .catch(err => console.error('Error loading email preferences:', err));
+  }, []);
+
+  const [examRegistry, setExamRegistry] = useState<ExamRegistry | null>(null);
+
+  useEffect(() => {
+    examRegistryService.getRegistry()
+      .then(setExamRegistry)
+      .catch(err => console.error('Error loading exams:', err));
+  }, []);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
       ...formData,
@@ -40,6 +58,7 @@ const UserSettings: React.FC = () => {
       };
 
       await updateProfile(updateData);
+      await notificationService.setEmailFrequency(emailFrequency);
       setMessage('Settings updated successfully!');
     } catch (err: any) {
       setError(err.message || 'Failed to update settings');
@@ -48,23 +67,7 @@ const UserSettings: React.FC = () => {
     }
   };
 
-  const getExamDisplayName = (category: string, type: string) => {
-    const categoryNames = {
-      'echocardiography': 'Echocardiography',
-      'usmle': 'USMLE'
-    };
-
-    const typeNames = {
-      'eacvi_toe': 'EACVI TOE (Transesophageal Echocardiography)',
-      'advance_pteexam': 'Advance PTEeXAM',
-      'tte': 'TTE (Transthoracic Echocardiography)',
-      'step1': 'Step 1',
-      'step2': 'Step 2',
-      'step3': 'Step 3'
-    };
-
-    return `${categoryNames[category as keyof typeof categoryNames]} - ${typeNames[type as keyof typeof typeNames]}`;
-  };
+  const getExamDisplayName = (category: string, type: string) => examDisplayName(examRegistry, category, type);
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -168,6 +171,30 @@ const UserSettings: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Email Notifications */}
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Email Notifications</h3>
+                  <div className="space-y-2">
+                    {EMAIL_FREQUENCY_OPTIONS.map(option => (
+                      <label key={option.value} className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="radio"
+                          name="email_frequency"
+                          value={option.value}
+                          checked={emailFrequency === option.value}
+                          onChange={() => setEmailFrequency(option.value)}
+                          disabled={isLoading}
+                          className="mt-1"
+                        />
+                        <span>
+                          <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                          <span className="block text-xs text-gray-500">{option.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
                 {/* Submit Button */}
                 <div className="flex justify-end">
                   <button
@@ -0,0 +1,83 @@
+import api from './api';
+
+export type EnrichmentTask = 'metadata' | 'exams';
+
+export type EnrichmentItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface EnrichmentJob {
+  id: number;
+  requested_by_username?: string | null;
+  tasks: EnrichmentTask[];
+  status: 'queued' | 'running' | 'completed' | 'cancelled';
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  total: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  created_at: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+}
+
+export interface EnrichmentFailure {
+  id: number;
+  question_id: number;
+  question_number?: string | null;
+  attempts: number;
+  last_error?: string | null;
+}
+
+export interface EnrichmentQuestionStatus {
+  id: number;
+  question_number?: string | null;
+  question: string;
+  has_metadata: boolean;
+  has_exam_mapping: boolean;
+  last_job_id?: number | null;
+  last_status?: EnrichmentItemStatus | null;
+  last_error?: string | null;
+}
+
+export const isJobActive = (job: EnrichmentJob) => job.status === 'queued' || job.status === 'running';
+
+export const aiEnrichmentService = {
+  // Get every question with its metadata and exam mapping flags
+  getQuestions: async (limit = 1000): Promise<EnrichmentQuestionStatus[]> => {
+    const response = await api.get('/ai-enrichment/questions', { params: { limit } });
+    return response.data.questions;
+  },
+
+  // Queue questions for the background worker
+  createJob: async (questionIds: number[], tasks?: EnrichmentTask[]): Promise<EnrichmentJob> => {
+    const response = await api.post('/ai-enrichment/jobs', { question_ids: questionIds, tasks });
+    return response.data.job;
+  },
+
+  // Get recent jobs, newest first
+  getJobs: async (limit = 10): Promise<{ jobs: EnrichmentJob[]; rate_limited_until: string | null; client: { name: string; model: string } }> => {
+    const response = await api.get('/ai-enrichment/jobs', { params: { limit } });
+    return response.data;
+  },
+
+  // Get a job's progress and the questions that failed
+  getJob: async (id: number): Promise<{ job: EnrichmentJob; failures: EnrichmentFailure[]; rate_limited_until: string | null }> => {
+    const response = await api.get(`/ai-enrichment/jobs/${id}`);
+    return response.data;
+  },
+
+  // Stop a job after the question in progress
+  cancelJob: async (id: number): Promise<EnrichmentJob> => {
+    const response = await api.post(`/ai-enrichment/jobs/${id}/cancel`);
+    return response.data.job;
+  },
+
+  // Queue a job's failed and cancelled questions again
+  retryJob: async (id: number): Promise<EnrichmentJob> => {
+    const response = await api.post(`/ai-enrichment/jobs/${id}/retry`);
+    return response.data.job;
+  },
+};
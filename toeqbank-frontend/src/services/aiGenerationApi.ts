@@ -0,0 +1,82 @@
+import api, { Question } from './api';
+import { getViewsForModality } from './echoViews';
+
+export type ImageModality = 'transthoracic' | 'transesophageal' | 'non-echo';
+
+const MODALITIES: ImageModality[] = ['transthoracic', 'transesophageal', 'non-echo'];
+
+export interface GenerationImage {
+  id: number;
+  description?: string;
+  tags?: string[];
+  modality?: ImageModality;
+  echo_view?: string;
+}
+
+export interface GenerationRun {
+  id: number;
+  requested_by?: number | null;
+  requested_by_username?: string | null;
+  client: string;
+  model: string;
+  image_ids: number[];
+  questions_per_image: number;
+  status: 'running' | 'completed' | 'failed';
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  failures: { image_id: number; error: string }[];
+  question_count?: number;
+  created_at: string;
+  completed_at?: string | null;
+}
+
+export interface GenerationTotals {
+  runs: number;
+  questions: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export type GeneratedQuestion = Question & { source_image_id: number | null };
+
+// Modality and view are saved as tags at upload; pick them back out so the model is told explicitly
+export const generationDetails = (image: { id: number; description?: string; tags?: string[] }): GenerationImage => {
+  const tags = image.tags || [];
+  const modality = MODALITIES.find(candidate => tags.includes(candidate));
+  const views = modality ? getViewsForModality(modality).map(view => view.name) : [];
+  return {
+    id: image.id,
+    description: image.description,
+    tags,
+    modality,
+    echo_view: tags.find(tag => views.includes(tag))
+  };
+};
+
+// "$0.0123"; runs are usually fractions of a cent so show enough places to see them
+export const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
+export const aiGenerationService = {
+  // Draft questions from images; they are saved as pending submission and linked to their image
+  generateQuestions: async (
+    images: GenerationImage[],
+    questionsPerImage = 1
+  ): Promise<{ run: GenerationRun; questions: GeneratedQuestion[] }> => {
+    const response = await api.post('/ai-generation/questions', { images, questions_per_image: questionsPerImage });
+    return response.data;
+  },
+
+  // Get recent runs with their token use and cost, plus the overall totals
+  getRuns: async (limit = 20): Promise<{ runs: GenerationRun[]; totals: GenerationTotals; client: { name: string; model: string } }> => {
+    const response = await api.get('/ai-generation/runs', { params: { limit } });
+    return response.data;
+  },
+
+  // Get one run with the questions it drafted
+  getRun: async (id: number): Promise<{ run: GenerationRun; questions: GeneratedQuestion[] }> => {
+    const response = await api.get(`/ai-generation/runs/${id}`);
+    return response.data;
+  },
+};
@@ -48,17 +48,25 @@ export interface Question {
   metadata_category?: string;
   exam_category?: string;
   exam_type?: string;
-  review_status?: 'pending' | 'approved' | 'rejected' | 'returned' | 'pending submission';
+  review_status?: 'pending' | 'approved' | 'rejected' | 'returned' | 'pending submission' | 'escalated';
   review_notes?: string;
+  review_round?: number;
   reviewed_by?: number;
   reviewed_at?: string;
   reviewer_name?: string;
+  uploaded_by?: number;
   difficulty_rating?: number; // 1-5 scale: 1=easy, 5=hardest
   created_at?: string;
   updated_at?: string;
   images?: Image[];
 }
 
+// A rubric criterion a reviewer cited when returning or rejecting a question, with an optional severity score
+export interface ReviewReason {
+  code: string;
+  score?: number | null;
+}
+
 export type LicenseType = 
   | 'mit' 
   | 'apache-2.0' 
@@ -95,8 +103,60 @@ export interface Image {
   uploader_username?: string;
   review_status?: string;
   review_rating?: number;
+  review_notes?: string | null;
   reviewed_by?: number;
   reviewed_at?: string;
+  replaced_at?: string | null;
+  phi_status?: PhiStatus;
+  phi_regions?: PhiRegion[];
+  latest_review?: Omit<ImageReview, 'id' | 'image_id' | 'reviewer_id' | 'reviewer_name'> | null;
+}
+
+// Burned-in patient details check; only 'clear' and 'redacted' images can be approved
+export type PhiStatus = 'pending' | 'flagged' | 'clear' | 'redacted' | 'unscanned';
+
+// A box in fractions of the image's width and height
+export interface PhiRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  reason?: 'name' | 'date' | 'id';
+}
+
+export const IMAGE_REVIEW_CRITERIA = [
+  { key: 'diagnostic_quality', label: 'Diagnostic quality' },
+  { key: 'deidentification', label: 'De-identification' },
+  { key: 'view_labelling', label: 'Correct view labelling' },
+  { key: 'licensing_clarity', label: 'Licensing clarity' }
+] as const;
+
+export type ImageReviewScores = Record<typeof IMAGE_REVIEW_CRITERIA[number]['key'], number>;
+
+export interface ImageReview extends ImageReviewScores {
+  id: number;
+  image_id: number;
+  reviewer_id?: number | null;
+  reviewer_name?: string | null;
+  status: 'approved' | 'returned' | 'rejected';
+  notes?: string | null;
+  created_at: string;
+}
+
+// What the server read from a DICOM header; the upload form pre-fills from it
+export interface DicomProbe {
+  width: number;
+  height: number;
+  frame_count: number;
+  image_type: 'still' | 'cine';
+  duration_seconds: number | null;
+  frame_rate: number | null;
+  modality: 'transthoracic' | 'transesophageal' | 'non-echo' | null;
+  echo_view: string | null;
+  probe_angle: number | null;
+  burned_in_annotation: boolean;
+  phi_tags_removed: string[];
+  private_tags_removed: number;
 }
 
 export interface ImagesResponse {
@@ -119,7 +179,84 @@ export interface QuestionsResponse {
   };
 }
 
+export type SearchFacet = 'review_status' | 'category' | 'view_type';
+
+export interface QuestionSearchSnippet {
+  field: 'question' | 'choices' | 'explanation' | 'keywords' | 'image_descriptions';
+  // Matched terms are wrapped in <mark></mark>
+  text: string;
+}
+
+export interface QuestionSearchResult {
+  id: number;
+  question_number?: string;
+  question: string;
+  review_status: string;
+  exam_category?: string;
+  exam_type?: string;
+  category: string | null;
+  view_type: string | null;
+  rank: number;
+  snippets: QuestionSearchSnippet[];
+}
+
+export interface QuestionSearchParams {
+  q: string;
+  status?: string;
+  category?: string;
+  view_type?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface QuestionSearchResponse {
+  results: QuestionSearchResult[];
+  total: number;
+  facets: Record<SearchFacet, { value: string; count: number }[]>;
+}
+
+export interface DuplicateMatch {
+  // Set when the match is an existing question
+  question_id?: number;
+  question_number?: string;
+  review_status?: string;
+  // Set in upload previews: whether this user may merge the row into the question
+  can_merge?: boolean;
+  // Set when the match is an earlier row of the same upload
+  row?: number;
+  question: string;
+  similarity: number;
+  stem_similarity: number;
+  choices_similarity: number;
+}
+
+export interface UploadDuplicate {
+  row: number;
+  question: string;
+  correct_answer: string;
+  matches: DuplicateMatch[];
+}
+
+export interface DuplicateAction {
+  action: 'keep' | 'skip' | 'merge';
+  question_id?: number;
+}
+
 export const questionService = {
+  // Full-text search with highlighted snippets and facet counts
+  searchQuestions: async (params: QuestionSearchParams): Promise<QuestionSearchResponse> => {
+    const searchParams = new URLSearchParams();
+    searchParams.set('q', params.q);
+    if (params.status) searchParams.set('status', params.status);
+    if (params.category) searchParams.set('category', params.category);
+    if (params.view_type) searchParams.set('view_type', params.view_type);
+    if (params.limit) searchParams.set('limit', params.limit.toString());
+    if (params.offset) searchParams.set('offset', params.offset.toString());
+
+    const response = await api.get(`/questions/search?${searchParams.toString()}`);
+    return response.data;
+  },
+
   // Get list of users who have submitted questions
   getQuestionSubmitters: async (): Promise<{ id: number; username: string }[]> => {
     const response = await api.get('/questions/submitters');
@@ -144,9 +281,9 @@ export const questionService = {
     return response.data;
   },
 
-  // Create new question
-  createQuestion: async (question: Omit<Question, 'id' | 'created_at' | 'updated_at'>): Promise<Question> => {
-    const response = await api.post('/questions', question);
+  // Create new question; fails with 409 and the likely duplicates unless allowDuplicate is set
+  createQuestion: async (question: Omit<Question, 'id' | 'created_at' | 'updated_at'>, allowDuplicate = false): Promise<Question> => {
+    const response = await api.post('/questions', allowDuplicate ? { ...question, allow_duplicate: true } : question);
     return response.data;
   },
 
@@ -173,10 +310,11 @@ export const questionService = {
     startingPage?: string;
     endingPage?: string;
     chapter?: string;
-  }): Promise<{ message: string; questions: Question[] }> => {
+  }, duplicateActions?: Record<number, DuplicateAction>): Promise<{ message: string; questions: Question[]; skipped: number; merged: number }> => {
     const formData = new FormData();
     formData.append('csvFile', file);
     formData.append('withImages', String(withImages));
+    if (duplicateActions) formData.append('duplicateActions', JSON.stringify(duplicateActions));
     
     if (sourceInfo) {
       formData.append('description', sourceInfo.description);
@@ -194,19 +332,37 @@ export const questionService = {
     return response.data;
   },
 
+  // Find likely duplicates in a CSV before uploading it
+  checkUploadDuplicates: async (file: File): Promise<{ total_rows: number; duplicates: UploadDuplicate[] }> => {
+    const formData = new FormData();
+    formData.append('csvFile', file);
+
+    const response = await api.post('/questions/upload/check-duplicates', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
   // Review system methods
   getPendingReview: async (): Promise<{ questions: Question[] }> => {
     const response = await api.get('/questions/review/pending');
     return response.data;
   },
 
-  getReviewStats: async (): Promise<{ total: number; pending: number; approved: number; rejected: number; returned: number; pending_submission: number }> => {
+  getReviewStats: async (): Promise<{ total: number; pending: number; approved: number; rejected: number; returned: number; pending_submission: number; escalated: number }> => {
     const response = await api.get('/questions/review/stats');
     return response.data;
   },
 
-  updateReviewStatus: async (questionId: number, status: 'approved' | 'rejected' | 'returned', notes: string, difficultyRating?: number): Promise<{ message: string; question: Question }> => {
-    const response = await api.post(`/questions/review/${questionId}`, { status, notes, difficulty_rating: difficultyRating });
+  // Vote on a question; the consensus reports how the exam's quorum stands afterwards
+  updateReviewStatus: async (questionId: number, status: 'approved' | 'rejected' | 'returned', notes: string, difficultyRating?: number, reasons?: ReviewReason[]): Promise<{
+    message: string;
+    question: Question;
+    consensus: { status: 'pending' | 'escalated' | 'approved' | 'rejected' | 'returned'; required_approvals: number; votes_cast: number };
+  }> => {
+    const response = await api.post(`/questions/review/${questionId}`, { status, notes, difficulty_rating: difficultyRating, reasons });
     return response.data;
   },
 
@@ -330,6 +486,16 @@ export const imageService = {
     return response.data;
   },
 
+  // Read a DICOM file's header without storing anything
+  probeDicom: async (file: File): Promise<DicomProbe> => {
+    const formData = new FormData();
+    formData.append('image', file);
+    const response = await api.post('/images/dicom/probe', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  },
+
   // Update image
   updateImage: async (id: number, data: {
     description?: string;
@@ -453,6 +619,34 @@ export const imageService = {
     const response = await api.get('/images/my-images');
     return response.data;
   },
+
+  // Get every review of an image, newest first
+  getImageReviews: async (id: number): Promise<ImageReview[]> => {
+    const response = await api.get(`/images/${id}/reviews`);
+    return response.data.reviews;
+  },
+
+  // Upload a new file for a returned image, keeping its id and question links
+  replaceImage: async (id: number, file: File): Promise<Image> => {
+    const formData = new FormData();
+    formData.append('image', file);
+    const response = await api.post(`/images/${id}/replace`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  },
+
+  // Black out regions of a still; the redacted copy replaces the original file
+  redactImage: async (id: number, regions: PhiRegion[]): Promise<Image> => {
+    const response = await api.post(`/images/${id}/redact`, { regions });
+    return response.data;
+  },
+
+  // Confirm an image shows no patient details
+  clearPhi: async (id: number): Promise<Image> => {
+    const response = await api.post(`/images/${id}/phi/clear`);
+    return response.data;
+  },
 };
 
 export interface ImageDescription {
@@ -528,10 +722,15 @@ export const imageDescriptionService = {
   },
 
   // Get all image descriptions with filters
-  getAllWithFilters: async (filters: { batchId?: number; echoView?: string }): Promise<ImageDescription[]> => {
+  getAllWithFilters: async (filters: { batchId?: number; echoView?: string; examName?: string; section?: string; subtopic?: string }): Promise<ImageDescription[]> => {
     const params = new URLSearchParams();
     if (filters.batchId) params.set('batch_id', filters.batchId.toString());
     if (filters.echoView) params.set('echo_view', filters.echoView);
+    if (filters.examName && filters.section) {
+      params.set('exam_name', filters.examName);
+      params.set('section', filters.section);
+      if (filters.subtopic) params.set('subtopic', filters.subtopic);
+    }
     
     const response = await api.get(`/image-descriptions?${params.toString()}`);
     return response.data;
@@ -1,7 +1,4 @@
-import { Question } from './api';
-import { getApiBaseUrl } from '../config/api.config';
-
-const API_BASE_URL = getApiBaseUrl();
+import api, { Question } from './api';
 
 export interface GeneratedMetadata {
   difficulty: string;
@@ -29,19 +26,8 @@ export class ClaudeApiService {
       imageCount: question.images?.length || 0
     };
 
-    const response = await fetch(`${API_BASE_URL}/metadata/generate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      throw new Error(`Metadata API error: ${response.status} ${response.statusText}`);
-    }
-
-    return await response.json();
+    const response = await api.post('/metadata/generate', requestBody);
+    return response.data;
   }
 }
 
@@ -1,7 +1,4 @@
-import { Question, SubtopicWithSection } from './api';
-import { getApiBaseUrl } from '../config/api.config';
-
-const API_BASE_URL = getApiBaseUrl();
+import api, { Question, SubtopicWithSection } from './api';
 
 export interface ApplicableExam {
   examName: string;
@@ -23,19 +20,8 @@ export class ExamApiService {
       imageCount: question.images?.length || 0
     };
 
-    const response = await fetch(`${API_BASE_URL}/exams/assign`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      throw new Error(`Exam API error: ${response.status} ${response.statusText}`);
-    }
-
-    return await response.json();
+    const response = await api.post('/exams/assign', requestBody);
+    return response.data;
   }
 }
 
@@ -0,0 +1,183 @@
+import api, { Question } from './api';
+
+export interface ExamCategory {
+  code: string;
+  name: string;
+  description?: string | null;
+  icon?: string | null;
+  display_order: number;
+  is_active: boolean;
+}
+
+export interface ExamType {
+  code: string;
+  category_code: string;
+  name: string;
+  description?: string | null;
+  display_order: number;
+  is_active: boolean;
+}
+
+// A fixed number of approved questions wanted, or a share of the parent's target
+export interface CoverageTarget {
+  target_count?: number | null;
+  weight?: number | null;
+}
+
+export interface BlueprintSubtopic extends CoverageTarget {
+  number: string;
+  name: string;
+}
+
+export interface BlueprintSection extends CoverageTarget {
+  number: string;
+  title: string;
+  subtopics: BlueprintSubtopic[];
+}
+
+export interface ExamBlueprint {
+  id: number;
+  name: string;
+  description?: string | null;
+  category_code?: string | null;
+  display_order: number;
+  is_active: boolean;
+  target_total?: number | null;
+  sections: BlueprintSection[];
+}
+
+export interface ExamRegistry {
+  categories: ExamCategory[];
+  types: ExamType[];
+  blueprints: ExamBlueprint[];
+}
+
+export type CoverageStatus = 'approved' | 'pending' | 'needs_images';
+
+export type CoverageState = 'met' | 'in_pipeline' | 'gap' | 'no_target';
+
+export interface CoverageRow {
+  approved: number;
+  pending: number;
+  needs_images: number;
+  target: number | null;
+  shortfall: number | null;
+  state: CoverageState;
+}
+
+export interface SubtopicCoverage extends CoverageRow {
+  number: string;
+  name: string;
+}
+
+export interface SectionCoverage extends CoverageRow {
+  number: string;
+  title: string;
+  subtopics: SubtopicCoverage[];
+}
+
+export interface BlueprintCoverage {
+  blueprint: Pick<ExamBlueprint, 'id' | 'name' | 'target_total'>;
+  totals: CoverageRow;
+  sections: SectionCoverage[];
+  unmatched: { subtopic: string; approved: number; pending: number; needs_images: number }[];
+}
+
+export interface BlueprintTargets {
+  target_total: number | null;
+  sections: (CoverageTarget & { number: string; subtopics: (CoverageTarget & { number: string })[] })[];
+}
+
+// The active registry rarely changes, so every selector on the page shares one request
+let activeRegistry: Promise<ExamRegistry> | null = null;
+
+export const examRegistryService = {
+  // Get the active exam categories, types and blueprints
+  getRegistry: (): Promise<ExamRegistry> => {
+    if (!activeRegistry) {
+      activeRegistry = api.get('/exams/registry').then(response => response.data);
+      activeRegistry.catch(() => { activeRegistry = null; });
+    }
+    return activeRegistry;
+  },
+
+  // Get everything including retired entries (admins only)
+  getFullRegistry: async (): Promise<ExamRegistry> => {
+    const response = await api.get('/exams/registry', { params: { all: 'true' } });
+    return response.data;
+  },
+
+  // Add a category
+  createCategory: async (category: Omit<ExamCategory, 'is_active'>): Promise<ExamCategory> => {
+    const response = await api.post('/exams/categories', category);
+    activeRegistry = null;
+    return response.data.category;
+  },
+
+  // Edit or retire a category
+  updateCategory: async (code: string, updates: Partial<Omit<ExamCategory, 'code'>>): Promise<ExamCategory> => {
+    const response = await api.put(`/exams/categories/${encodeURIComponent(code)}`, updates);
+    activeRegistry = null;
+    return response.data.category;
+  },
+
+  // Add an exam type
+  createType: async (type: Omit<ExamType, 'is_active'>): Promise<ExamType> => {
+    const response = await api.post('/exams/types', type);
+    activeRegistry = null;
+    return response.data.type;
+  },
+
+  // Edit, move or retire an exam type
+  updateType: async (code: string, updates: Partial<Omit<ExamType, 'code'>>): Promise<ExamType> => {
+    const response = await api.put(`/exams/types/${encodeURIComponent(code)}`, updates);
+    activeRegistry = null;
+    return response.data.type;
+  },
+
+  // Add a blueprint with its sections
+  createBlueprint: async (blueprint: Omit<ExamBlueprint, 'id' | 'is_active'>): Promise<ExamBlueprint> => {
+    const response = await api.post('/exams/blueprints', blueprint);
+    activeRegistry = null;
+    return response.data.blueprint;
+  },
+
+  // Edit, retire or restructure a blueprint; names can't be changed
+  updateBlueprint: async (id: number, updates: Partial<Omit<ExamBlueprint, 'id' | 'name'>>): Promise<ExamBlueprint> => {
+    const response = await api.put(`/exams/blueprints/${id}`, updates);
+    activeRegistry = null;
+    return response.data.blueprint;
+  },
+
+  // Get question counts per section and subtopic against the targets
+  getCoverage: async (blueprintId: number): Promise<BlueprintCoverage> => {
+    const response = await api.get(`/exams/blueprints/${blueprintId}/coverage`);
+    return response.data.coverage;
+  },
+
+  // Get the questions behind one cell of the coverage report
+  getCoverageQuestions: async (
+    blueprintId: number,
+    filter: { section: string; subtopic?: string; status?: CoverageStatus }
+  ): Promise<Question[]> => {
+    const response = await api.get(`/exams/blueprints/${blueprintId}/coverage/questions`, { params: filter });
+    return response.data.questions;
+  },
+
+  // Set the targets; returns the recalculated coverage
+  updateTargets: async (blueprintId: number, targets: BlueprintTargets): Promise<BlueprintCoverage> => {
+    const response = await api.put(`/exams/blueprints/${blueprintId}/targets`, targets);
+    activeRegistry = null;
+    return response.data.coverage;
+  },
+};
+
+// "1. Basic TEE"
+export const sectionLabel = (section: Pick<BlueprintSection, 'number' | 'title'>) => `${section.number}. ${section.title}`;
+
+// "Echocardiography - EACVI TOE", falling back to the stored codes for anything retired or unknown
+export const examDisplayName = (registry: ExamRegistry | null, categoryCode: string, typeCode: string) => {
+  const category = registry?.categories.find(candidate => candidate.code === categoryCode);
+  const type = registry?.types.find(candidate => candidate.code === typeCode);
+  return `${category?.name || categoryCode} - ${type?.name || typeCode}`;
+};
@@ -0,0 +1,45 @@
+import api from './api';
+import { AnnotationShape, ImageAnnotationLayer } from '../types';
+
+export interface ImageAnnotation extends ImageAnnotationLayer {
+  id: number;
+  image_id: number;
+  question_image_id?: number | null;
+  updated_by?: number | null;
+  updated_at?: string;
+}
+
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff'];
+
+// Pass a questionId to work on the markup for that question's use of the image rather than the image's own
+export const imageAnnotationService = {
+  // Get the annotation layer, or null when none has been drawn
+  getAnnotations: async (imageId: number, questionId?: number): Promise<ImageAnnotation | null> => {
+    const response = await api.get(`/images/${imageId}/annotations`, {
+      params: questionId ? { question_id: questionId } : undefined
+    });
+    return response.data.annotation;
+  },
+
+  // Replace the layer's shapes
+  saveAnnotations: async (
+    imageId: number,
+    shapes: AnnotationShape[],
+    revealAfterAnswer: boolean,
+    questionId?: number
+  ): Promise<ImageAnnotation> => {
+    const response = await api.put(`/images/${imageId}/annotations`, {
+      shapes,
+      reveal_after_answer: revealAfterAnswer,
+      question_id: questionId
+    });
+    return response.data.annotation;
+  },
+
+  // Remove the layer entirely
+  deleteAnnotations: async (imageId: number, questionId?: number): Promise<void> => {
+    await api.delete(`/images/${imageId}/annotations`, {
+      params: questionId ? { question_id: questionId } : undefined
+    });
+  }
+};
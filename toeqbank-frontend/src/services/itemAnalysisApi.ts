@@ -0,0 +1,54 @@
+import api from './api';
+
+export interface ItemStatistics {
+  question_id: number;
+  responses: number;
+  correct: number;
+  p_value: number | null;
+  point_biserial: number | null;
+  choice_counts: Record<string, number>;
+  choice_rates: Record<string, number>;
+  flag_reasons: string[];
+  is_flagged: boolean;
+  flagged_at: string | null;
+  dismissed_reasons: string[];
+  dismissed_at: string | null;
+  computed_at: string | null;
+}
+
+export interface FlaggedItem extends ItemStatistics {
+  question_number?: string;
+  question: string;
+  review_status?: string;
+}
+
+// Human-readable text for a flag reason code such as 'unused_distractor:C'
+export const describeFlagReason = (reason: string): string => {
+  if (reason === 'negative_discrimination') {
+    return 'Negative discrimination: stronger students miss it more often';
+  }
+  if (reason.startsWith('unused_distractor:')) {
+    return `Distractor ${reason.split(':')[1]} is never chosen`;
+  }
+  return reason;
+};
+
+export const itemAnalysisService = {
+  // Get a question's item statistics (reviewers only)
+  getStatistics: async (questionId: number): Promise<{ statistics: ItemStatistics; min_responses: number }> => {
+    const response = await api.get(`/item-analysis/questions/${questionId}`);
+    return response.data;
+  },
+
+  // Get questions flagged for re-review in the reviewer's exam
+  getFlagged: async (): Promise<{ items: FlaggedItem[]; min_responses: number }> => {
+    const response = await api.get('/item-analysis/flagged');
+    return response.data;
+  },
+
+  // Dismiss a question's flag after re-reviewing it
+  dismissFlag: async (questionId: number): Promise<ItemStatistics> => {
+    const response = await api.post(`/item-analysis/questions/${questionId}/dismiss`);
+    return response.data.statistics;
+  },
+};
@@ -0,0 +1,91 @@
+import api from './api';
+
+export type LlmFeature = 'question_metadata' | 'exam_assignment' | 'image_questions';
+
+export interface PromptTemplate {
+  id: number;
+  feature: LlmFeature;
+  version: number;
+  template: string;
+  output_schema: Record<string, any> | null;
+  max_tokens: number;
+  notes?: string | null;
+  is_active: boolean;
+  created_by_username?: string | null;
+  created_at: string;
+}
+
+export interface LlmFeatureInfo {
+  feature: LlmFeature;
+  description: string;
+  variables: Record<string, string>;
+  active: PromptTemplate;
+}
+
+export interface PromptTemplateInput {
+  template: string;
+  output_schema: Record<string, any> | null;
+  max_tokens: number;
+  notes?: string;
+  activate?: boolean;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  cached_calls: number;
+  failed_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface LlmUsageSummary {
+  days: number;
+  totals: LlmUsageTotals;
+  by_feature: (LlmUsageTotals & { feature: LlmFeature })[];
+  by_user: (LlmUsageTotals & { user_id: number | null; username: string | null })[];
+}
+
+export const FEATURE_NAMES: Record<LlmFeature, string> = {
+  question_metadata: 'Question Metadata',
+  exam_assignment: 'Exam Assignment',
+  image_questions: 'Questions from Images'
+};
+
+export const llmService = {
+  // Get every feature with its live prompt
+  getFeatures: async (): Promise<{ features: LlmFeatureInfo[]; client: { name: string; model: string } }> => {
+    const response = await api.get('/llm/prompts');
+    return response.data;
+  },
+
+  // Get every version of a feature's prompt, newest first
+  getVersions: async (feature: LlmFeature): Promise<PromptTemplate[]> => {
+    const response = await api.get(`/llm/prompts/${feature}`);
+    return response.data.versions;
+  },
+
+  // Save a new version of a feature's prompt
+  createVersion: async (feature: LlmFeature, input: PromptTemplateInput): Promise<PromptTemplate> => {
+    const response = await api.post(`/llm/prompts/${feature}`, input);
+    return response.data.template;
+  },
+
+  // Make an earlier version live again
+  activateVersion: async (feature: LlmFeature, version: number): Promise<PromptTemplate> => {
+    const response = await api.post(`/llm/prompts/${feature}/versions/${version}/activate`);
+    return response.data.template;
+  },
+
+  // Get tokens and spend per feature and per user
+  getUsage: async (days = 30): Promise<LlmUsageSummary> => {
+    const response = await api.get('/llm/usage', { params: { days } });
+    return response.data;
+  },
+
+  // Forget cached responses for one feature, or all of them
+  clearCache: async (feature?: LlmFeature): Promise<number> => {
+    const response = await api.delete('/llm/cache', { params: feature ? { feature } : {} });
+    return response.data.cleared;
+  },
+};
@@ -0,0 +1,82 @@
+import api from './api';
+
+export type NotificationType =
+  | 'question_approved'
+  | 'question_returned'
+  | 'question_rejected'
+  | 'question_escalated'
+  | 'image_reviewed'
+  | 'image_supplied'
+  | 'batch_uploaded'
+  | 'batch_assigned';
+
+export interface Notification {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message?: string | null;
+  // Frontend path the notification opens
+  link?: string | null;
+  question_id?: number | null;
+  image_id?: number | null;
+  batch_id?: number | null;
+  read_at?: string | null;
+  created_at: string;
+}
+
+export type EmailFrequency = 'immediate' | 'daily' | 'weekly' | 'never';
+
+export const EMAIL_FREQUENCY_OPTIONS: { value: EmailFrequency; label: string; description: string }[] = [
+  { value: 'immediate', label: 'Immediately', description: 'Email me as soon as a question of mine is returned, plus a daily digest' },
+  { value: 'daily', label: 'Daily digest', description: 'One email a day with the review queue and my questions that need work' },
+  { value: 'weekly', label: 'Weekly digest', description: 'The same summary, once a week' },
+  { value: 'never', label: 'Never', description: 'In-app notifications only' }
+];
+
+export const NOTIFICATION_ICONS: Record<NotificationType, string> = {
+  question_approved: '✅',
+  question_returned: '↩️',
+  question_rejected: '❌',
+  question_escalated: '⚖️',
+  image_reviewed: '🖼️',
+  image_supplied: '📎',
+  batch_uploaded: '📤',
+  batch_assigned: '📋'
+};
+
+export const notificationService = {
+  // Get the latest notifications and the unread count
+  getNotifications: async (unreadOnly = false): Promise<{ notifications: Notification[]; unread_count: number }> => {
+    const response = await api.get('/notifications', { params: unreadOnly ? { unread: 'true' } : {} });
+    return response.data;
+  },
+
+  // Get just the unread count
+  getUnreadCount: async (): Promise<number> => {
+    const response = await api.get('/notifications/unread-count');
+    return response.data.count;
+  },
+
+  // Mark one notification read
+  markRead: async (id: number): Promise<Notification> => {
+    const response = await api.post(`/notifications/${id}/read`);
+    return response.data.notification;
+  },
+
+  // Get how often the user is emailed
+  getEmailFrequency: async (): Promise<EmailFrequency> => {
+    const response = await api.get('/notifications/preferences');
+    return response.data.preferences.email_frequency;
+  },
+
+  // Set how often the user is emailed
+  setEmailFrequency: async (emailFrequency: EmailFrequency): Promise<EmailFrequency> => {
+    const response = await api.put('/notifications/preferences', { email_frequency: emailFrequency });
+    return response.data.preferences.email_frequency;
+  },
+
+  // Mark every notification read
+  markAllRead: async (): Promise<void> => {
+    await api.post('/notifications/read-all');
+  },
+};
@@ -0,0 +1,52 @@
+import api from './api';
+
+export type PerformanceDimension = 'category' | 'view_type' | 'major_structure' | 'subtopic';
+
+export interface AreaPerformance {
+  dimension: PerformanceDimension;
+  area: string;
+  exam_name?: string;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  avg_time_seconds: number | null;
+}
+
+export interface PerformanceTrendPoint {
+  period_start: string;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  avg_time_seconds: number | null;
+}
+
+export interface PerformanceReport {
+  summary: {
+    total_attempts: number;
+    correct: number;
+    accuracy: number;
+    avg_time_seconds: number | null;
+    questions_seen: number;
+    completed_sessions: number;
+  };
+  trend: PerformanceTrendPoint[];
+  by_category: AreaPerformance[];
+  by_view_type: AreaPerformance[];
+  by_major_structure: AreaPerformance[];
+  by_subtopic: AreaPerformance[];
+  weakest_areas: AreaPerformance[];
+}
+
+export const performanceService = {
+  // Get the current user's accuracy breakdown and trend
+  getMyPerformance: async (interval: 'day' | 'week' = 'week'): Promise<PerformanceReport> => {
+    const response = await api.get(`/performance/me?interval=${interval}`);
+    return response.data;
+  },
+
+  // Get another user's performance report (admin only)
+  getUserPerformance: async (userId: number, interval: 'day' | 'week' = 'week'): Promise<PerformanceReport> => {
+    const response = await api.get(`/performance/users/${userId}?interval=${interval}`);
+    return response.data;
+  },
+};
@@ -0,0 +1,108 @@
+import api from './api';
+
+export interface PracticeTest {
+  id: number;
+  name: string;
+  description?: string | null;
+  exam_category?: string | null;
+  exam_type?: string | null;
+  time_limit_minutes?: number | null;
+  is_published: boolean;
+  published_at?: string | null;
+  created_by?: number | null;
+  created_at: string;
+  updated_at: string;
+  question_count: number;
+  attempt_count: number;
+  creator_username?: string;
+}
+
+export interface PracticeTestQuestion {
+  question_id: number;
+  question_order: number;
+  question_number?: string;
+  question: string;
+  review_status?: string;
+}
+
+export interface PracticeTestResults {
+  attempts: number;
+  unique_users: number;
+  average_score: number | null;
+  highest_score: number | null;
+  lowest_score: number | null;
+  average_time_seconds: number | null;
+  questions: {
+    question_id: number;
+    question_order: number;
+    question_number?: string;
+    responses: number;
+    correct: number;
+    percent_correct: number | null;
+  }[];
+  recent_attempts: {
+    session_id: string;
+    username: string;
+    completed_at: string;
+    score_percentage: number | null;
+    correct_answers: number;
+    total_questions: number;
+  }[];
+}
+
+export interface PracticeTestInput {
+  name?: string;
+  description?: string | null;
+  exam_category?: string | null;
+  exam_type?: string | null;
+  time_limit_minutes?: number | null;
+}
+
+export const practiceTestService = {
+  // List tests: all of them for admins, published tests for the user's exam otherwise
+  getTests: async (): Promise<PracticeTest[]> => {
+    const response = await api.get('/practice-tests');
+    return response.data.tests;
+  },
+
+  // Get a test; admins also get its ordered questions
+  getTest: async (id: number): Promise<{ test: PracticeTest; questions?: PracticeTestQuestion[] }> => {
+    const response = await api.get(`/practice-tests/${id}`);
+    return response.data;
+  },
+
+  // Create a test (admin only)
+  createTest: async (data: PracticeTestInput & { question_ids?: number[] }): Promise<PracticeTest> => {
+    const response = await api.post('/practice-tests', data);
+    return response.data.test;
+  },
+
+  // Update a test's details (admin only)
+  updateTest: async (id: number, data: PracticeTestInput): Promise<PracticeTest> => {
+    const response = await api.put(`/practice-tests/${id}`, data);
+    return response.data.test;
+  },
+
+  // Replace a test's questions with the given ids, in order (admin only)
+  setQuestions: async (id: number, questionIds: number[]): Promise<{ test: PracticeTest; questions: PracticeTestQuestion[] }> => {
+    const response = await api.put(`/practice-tests/${id}/questions`, { question_ids: questionIds });
+    return response.data;
+  },
+
+  // Publish or unpublish a test (admin only)
+  setPublished: async (id: number, published: boolean): Promise<PracticeTest> => {
+    const response = await api.put(`/practice-tests/${id}/publish`, { published });
+    return response.data.test;
+  },
+
+  // Get aggregate results for a test (admin only)
+  getResults: async (id: number): Promise<PracticeTestResults> => {
+    const response = await api.get(`/practice-tests/${id}/results`);
+    return response.data.results;
+  },
+
+  // Delete a test that nobody has taken yet (admin only)
+  deleteTest: async (id: number): Promise<void> => {
+    await api.delete(`/practice-tests/${id}`);
+  },
+};
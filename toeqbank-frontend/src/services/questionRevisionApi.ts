@@ -0,0 +1,79 @@
+import api from './api';
+
+export type RevisionChangeType = 'initial' | 'create' | 'edit' | 'metadata' | 'exams' | 'images' | 'restore';
+
+// Question fields by column name, metadata as metadata.<column>, exam assignments as exam:<name>, image links as image:<id>
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface QuestionRevision {
+  id: number;
+  question_id: number;
+  revision_number: number;
+  change_type: RevisionChangeType;
+  restored_from?: number | null;
+  restored_from_number?: number | null;
+  created_by?: number | null;
+  created_by_username?: string | null;
+  created_at: string;
+  changes: FieldChange[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  question: 'Question',
+  choice_a: 'Choice A',
+  choice_b: 'Choice B',
+  choice_c: 'Choice C',
+  choice_d: 'Choice D',
+  choice_e: 'Choice E',
+  choice_f: 'Choice F',
+  choice_g: 'Choice G',
+  correct_answer: 'Correct answer',
+  explanation: 'Explanation',
+  source_folder: 'Source',
+  'metadata.difficulty': 'Difficulty',
+  'metadata.category': 'Category',
+  'metadata.topic': 'Topic',
+  'metadata.keywords': 'Keywords',
+  'metadata.question_type': 'Question type',
+  'metadata.view_type': 'View',
+  'metadata.major_structures': 'Major structures',
+  'metadata.minor_structures': 'Minor structures',
+  'metadata.modalities': 'Modalities'
+};
+
+// Human-readable name for a changed field
+export const describeRevisionField = (field: string): string => {
+  if (field.startsWith('exam:')) return `Exam: ${field.slice(5)}`;
+  if (field.startsWith('image:')) return `Image #${field.slice(6)}`;
+  return FIELD_LABELS[field] || field;
+};
+
+// Display text for one side of a change; exam assignments and image links are objects
+export const formatRevisionValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') {
+    if ('usage_type' in value) return `${value.usage_type} image, position ${value.display_order}`;
+    if ('subtopics' in value) return [(value.subtopics || []).join(', '), value.reasoning].filter(Boolean).join(' — ');
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+export const questionRevisionService = {
+  // Get a question's revisions, newest first, with changes from the previous revision
+  getRevisions: async (questionId: number): Promise<QuestionRevision[]> => {
+    const response = await api.get(`/questions/${questionId}/revisions`);
+    return response.data.revisions;
+  },
+
+  // Restore a question to an earlier revision (admins only)
+  restoreRevision: async (questionId: number, revisionId: number): Promise<{ message: string; revision: QuestionRevision | null }> => {
+    const response = await api.post(`/questions/${questionId}/revisions/${revisionId}/restore`);
+    return response.data;
+  },
+};
@@ -0,0 +1,52 @@
+import api, { Question } from './api';
+
+export interface ReviewClaim {
+  question_id: number;
+  reviewer_id: number;
+  claimed_at: string;
+  expires_at: string;
+}
+
+export interface ReviewerWorkload {
+  reviewer_id: number;
+  username: string;
+  votes_last_7_days: number;
+  votes_last_30_days: number;
+  votes_total: number;
+  avg_turnaround_minutes: number | null;
+  active_claims: number;
+  assigned_batches: number;
+  assigned_pending: number;
+}
+
+// Turnaround in minutes as a short duration, e.g. "45 min" or "2.5 h"
+export const formatTurnaround = (minutes: number | null): string => {
+  if (minutes === null) return '-';
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  return `${(minutes / 60).toFixed(1)} h`;
+};
+
+export const reviewAssignmentService = {
+  // Claim the next question to review; question is null when the queue is empty
+  claimNext: async (): Promise<{ question: Question | null; claim: ReviewClaim | null }> => {
+    const response = await api.post('/questions/review/claim');
+    return response.data;
+  },
+
+  // Give a claimed question back to the queue
+  release: async (questionId: number): Promise<void> => {
+    await api.delete(`/questions/review/claim/${questionId}`);
+  },
+
+  // Get per-reviewer throughput and turnaround (admins only)
+  getWorkload: async (): Promise<ReviewerWorkload[]> => {
+    const response = await api.get('/questions/review/workload');
+    return response.data.reviewers;
+  },
+
+  // Assign a batch to a reviewer, or null to return it to the shared queue (admins only)
+  assignBatch: async (batchId: number, reviewerId: number | null): Promise<any> => {
+    const response = await api.put(`/questions/batches/${batchId}/reviewer`, { reviewer_id: reviewerId });
+    return response.data.batch;
+  },
+};
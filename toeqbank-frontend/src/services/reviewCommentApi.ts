@@ -0,0 +1,88 @@
+import api from './api';
+
+export type CommentAnchorType = 'question' | 'choice' | 'explanation' | 'image' | 'general';
+
+export interface CommentAnchor {
+  anchor_type: CommentAnchorType;
+  anchor_choice?: string | null;
+  anchor_image_id?: number | null;
+}
+
+export interface ReviewComment {
+  id: number;
+  question_id: number;
+  parent_id?: number | null;
+  anchor_type?: CommentAnchorType | null;
+  anchor_choice?: string | null;
+  anchor_image_id?: number | null;
+  review_decision?: 'approved' | 'rejected' | 'returned' | null;
+  body: string;
+  author_id?: number | null;
+  author_username?: string | null;
+  author_is_reviewer?: boolean;
+  resolved_by?: number | null;
+  resolved_by_username?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+}
+
+export interface ReviewThread extends ReviewComment {
+  anchor_type: CommentAnchorType;
+  anchor_image_name?: string | null;
+  replies: ReviewComment[];
+}
+
+export interface OpenReviewThread extends ReviewThread {
+  question_number?: string;
+  question: string;
+  review_status?: string;
+}
+
+// Label for the part of the question a thread is pinned to
+export const describeAnchor = (thread: ReviewThread): string => {
+  switch (thread.anchor_type) {
+    case 'question': return 'Question stem';
+    case 'choice': return `Choice ${thread.anchor_choice}`;
+    case 'explanation': return 'Explanation';
+    case 'image': return thread.anchor_image_name ? `Image: ${thread.anchor_image_name}` : 'Image (removed)';
+    default: return 'General';
+  }
+};
+
+export const reviewCommentService = {
+  // Get every thread on a question, open ones first
+  getThreads: async (questionId: number): Promise<ReviewThread[]> => {
+    const response = await api.get(`/review-comments/questions/${questionId}`);
+    return response.data.threads;
+  },
+
+  // Get open threads in the reviewer's exam, or on the current user's questions
+  getOpenThreads: async (): Promise<OpenReviewThread[]> => {
+    const response = await api.get('/review-comments/open');
+    return response.data.threads;
+  },
+
+  // Start a thread on part of a question (reviewers only)
+  createThread: async (questionId: number, anchor: CommentAnchor, body: string): Promise<ReviewThread> => {
+    const response = await api.post(`/review-comments/questions/${questionId}`, { ...anchor, body });
+    return response.data.thread;
+  },
+
+  // Reply to a thread
+  reply: async (threadId: number, body: string): Promise<ReviewComment> => {
+    const response = await api.post(`/review-comments/${threadId}/replies`, { body });
+    return response.data.reply;
+  },
+
+  // Mark a thread resolved
+  resolve: async (threadId: number): Promise<ReviewComment> => {
+    const response = await api.post(`/review-comments/${threadId}/resolve`);
+    return response.data.thread;
+  },
+
+  // Reopen a resolved thread
+  reopen: async (threadId: number): Promise<ReviewComment> => {
+    const response = await api.post(`/review-comments/${threadId}/reopen`);
+    return response.data.thread;
+  },
+};
@@ -0,0 +1,53 @@
+import api, { Question, ReviewReason } from './api';
+
+export type ReviewDecision = 'approved' | 'rejected' | 'returned';
+
+export interface ReviewVote {
+  id: number;
+  question_id: number;
+  review_round: number;
+  reviewer_id?: number | null;
+  reviewer_username?: string | null;
+  decision: ReviewDecision;
+  notes?: string | null;
+  difficulty_rating?: number | null;
+  is_adjudication: boolean;
+  reasons?: ReviewReason[];
+  created_at: string;
+}
+
+export interface EscalatedQuestion extends Question {
+  votes: ReviewVote[];
+}
+
+export interface ReviewQuorum {
+  exam_type: string;
+  required_approvals: number;
+  updated_at?: string | null;
+}
+
+export const reviewConsensusService = {
+  // Get escalated questions in the admin's exam, with the votes that disagreed
+  getEscalated: async (): Promise<EscalatedQuestion[]> => {
+    const response = await api.get('/questions/review/escalated');
+    return response.data.questions;
+  },
+
+  // Settle an escalated question
+  adjudicate: async (questionId: number, status: ReviewDecision, notes: string, difficultyRating?: number): Promise<{ message: string; question: Question }> => {
+    const response = await api.post(`/questions/review/${questionId}/adjudicate`, { status, notes, difficulty_rating: difficultyRating });
+    return response.data;
+  },
+
+  // Get the approvals each exam type needs
+  getQuorums: async (): Promise<{ quorums: ReviewQuorum[]; max_required_approvals: number }> => {
+    const response = await api.get('/questions/review/quorums');
+    return response.data;
+  },
+
+  // Set the approvals an exam type needs
+  setQuorum: async (examType: string, requiredApprovals: number): Promise<ReviewQuorum> => {
+    const response = await api.put(`/questions/review/quorums/${encodeURIComponent(examType)}`, { required_approvals: requiredApprovals });
+    return response.data.quorum;
+  },
+};
@@ -0,0 +1,61 @@
+import api from './api';
+
+export interface RubricCriterion {
+  code: string;
+  label: string;
+  description?: string | null;
+  max_score: number;
+  display_order: number;
+  is_active: boolean;
+}
+
+export interface ReasonCount {
+  code: string;
+  label: string;
+  count: number;
+  avg_score: number | null;
+}
+
+// Reasons cited on one batch's or one author's questions
+export interface GroupedReasonCounts {
+  id: number;
+  name: string;
+  reviews: number;
+  reasons: { code: string; count: number }[];
+}
+
+export interface ReasonStats {
+  reasons: ReasonCount[];
+  batches: GroupedReasonCounts[];
+  authors: GroupedReasonCounts[];
+}
+
+export const reviewRubricService = {
+  // Get the criteria reviewers can cite; admins can include retired ones
+  getCriteria: async (includeInactive = false): Promise<{ criteria: RubricCriterion[]; max_score: number }> => {
+    const response = await api.get('/questions/review/rubric', { params: includeInactive ? { all: 'true' } : {} });
+    return response.data;
+  },
+
+  // Add a criterion
+  createCriterion: async (criterion: Omit<RubricCriterion, 'is_active'>): Promise<RubricCriterion> => {
+    const response = await api.post('/questions/review/rubric', criterion);
+    return response.data.criterion;
+  },
+
+  // Edit or retire a criterion
+  updateCriterion: async (code: string, updates: Partial<Omit<RubricCriterion, 'code'>>): Promise<RubricCriterion> => {
+    const response = await api.put(`/questions/review/rubric/${encodeURIComponent(code)}`, updates);
+    return response.data.criterion;
+  },
+
+  // Get how often each criterion is cited, by batch and by author (admins only for the breakdowns)
+  getReasonStats: async (): Promise<ReasonStats> => {
+    const response = await api.get('/questions/review/stats');
+    return {
+      reasons: response.data.reasons || [],
+      batches: response.data.batches || [],
+      authors: response.data.authors || []
+    };
+  },
+};
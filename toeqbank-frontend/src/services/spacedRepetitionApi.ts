@@ -0,0 +1,63 @@
+import api from './api';
+import { Question } from '../types';
+
+export interface ReviewSchedule {
+  id: number;
+  user_id: number;
+  question_id: number;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_date: string;
+  last_quality: number | null;
+  last_reviewed_at: string | null;
+  is_due?: boolean;
+}
+
+export interface ReviewQueueItem {
+  question: Question;
+  schedule: ReviewSchedule | null;
+}
+
+export interface ReviewStats {
+  due_today: number;
+  new_available: number;
+  scheduled: number;
+  next_due_date: string | null;
+}
+
+export interface ReviewResult {
+  is_correct: boolean;
+  correct_answer: string;
+  schedule: ReviewSchedule;
+}
+
+export const spacedRepetitionService = {
+  // Get today's queue of due and new questions
+  getQueue: async (limit = 20, newLimit = 10): Promise<{ queue: ReviewQueueItem[]; stats: ReviewStats }> => {
+    const response = await api.get(`/spaced-repetition/queue?limit=${limit}&new_limit=${newLimit}`);
+    return response.data;
+  },
+
+  // Get due/new/scheduled counts
+  getStats: async (): Promise<ReviewStats> => {
+    const response = await api.get('/spaced-repetition/stats');
+    return response.data;
+  },
+
+  // Submit an answer with a 0-5 recall rating and get the new schedule
+  submitReview: async (questionId: number, selectedAnswer: string, quality?: number): Promise<ReviewResult> => {
+    const response = await api.post('/spaced-repetition/reviews', {
+      question_id: questionId,
+      selected_answer: selectedAnswer,
+      quality
+    });
+    return response.data;
+  },
+
+  // Forget a question's schedule so it returns as new
+  resetSchedule: async (questionId: number): Promise<void> => {
+    await api.delete(`/spaced-repetition/schedules/${questionId}`);
+  },
+};
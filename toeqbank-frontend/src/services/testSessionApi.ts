@@ -0,0 +1,206 @@
+import api from './api';
+import { Question, TestSession, UserAnswer } from '../types';
+
+export interface StoredTestSession {
+  id: string;
+  user_id: number;
+  test_id?: number | null;
+  test_name?: string | null;
+  question_ids: number[];
+  current_question_index: number;
+  started_at: string;
+  completed_at?: string | null;
+  total_questions: number;
+  correct_answers: number;
+  score_percentage: number | null;
+  total_time_seconds?: number | null;
+  answered_count?: number;
+  mode: 'practice' | 'exam';
+  time_limit_seconds: number | null;
+  flagged_question_ids: number[];
+  remaining_seconds: number | null;
+  is_paused: boolean;
+}
+
+export interface StoredResponse {
+  id: number;
+  question_id: number;
+  selected_answer: string;
+  // Hidden until a mock exam is submitted
+  is_correct?: boolean;
+  response_time_seconds: number | null;
+  session_id: string;
+  created_at: string;
+}
+
+export interface TestSessionPayload {
+  session: StoredTestSession;
+  questions: Question[];
+  responses: StoredResponse[];
+}
+
+export interface TestBuilderFilters {
+  exam_name?: string;
+  sections?: string[];
+  view_types?: string[];
+  modalities?: string[];
+  difficulty_min?: number;
+  difficulty_max?: number;
+  // Full-text search terms
+  search?: string;
+  unseen_only?: boolean;
+  missed_only?: boolean;
+}
+
+export interface TestBuilderRequest {
+  question_count: number;
+  status?: 'approved' | 'pending';
+  filters?: TestBuilderFilters;
+  // Section title -> relative weight
+  distribution?: Record<string, number>;
+  mode?: 'practice' | 'exam';
+  // Required for mode 'exam'
+  time_limit_minutes?: number;
+}
+
+export interface SectionComposition {
+  section: string;
+  requested: number;
+  selected: number;
+  available: number;
+}
+
+export interface TestBuilderOptions {
+  exams: { name: string; sections: string[] }[];
+  view_types: string[];
+  modalities: string[];
+}
+
+export interface TestBuilderPreview {
+  available: number;
+  question_count: number;
+  composition: SectionComposition[] | null;
+}
+
+// Convert the server's session payload into the shape PracticeTest and TestResults work with
+export const toTestSession = (payload: TestSessionPayload): TestSession => {
+  const { session, questions, responses } = payload;
+  const userAnswers: UserAnswer[] = [];
+
+  questions.forEach((question, index) => {
+    const response = responses.find(r => r.question_id === question.id);
+    if (response) {
+      userAnswers[index] = {
+        questionId: response.question_id,
+        selectedAnswer: response.selected_answer,
+        isCorrect: !!response.is_correct,
+        timeSpent: response.response_time_seconds || 0
+      };
+    }
+  });
+
+  return {
+    id: session.id,
+    questions,
+    userAnswers,
+    currentQuestionIndex: Math.min(session.current_question_index || 0, Math.max(questions.length - 1, 0)),
+    startTime: new Date(session.started_at),
+    isCompleted: !!session.completed_at,
+    correctAnswers: session.completed_at ? session.correct_answers : undefined,
+    scorePercentage: session.score_percentage ?? undefined,
+    totalTimeSeconds: session.total_time_seconds ?? undefined,
+    mode: session.mode,
+    timeLimitSeconds: session.time_limit_seconds ?? undefined,
+    remainingSeconds: session.remaining_seconds ?? undefined,
+    isPaused: session.is_paused,
+    flaggedQuestionIds: session.flagged_question_ids || []
+  };
+};
+
+export const testSessionService = {
+  // Get the exams, sections, views and modalities the test builder can filter on
+  getBuilderOptions: async (): Promise<TestBuilderOptions> => {
+    const response = await api.get('/test-sessions/options');
+    return response.data;
+  },
+
+  // Count the questions matching a test builder request without starting a session
+  previewSession: async (request: TestBuilderRequest): Promise<TestBuilderPreview> => {
+    const response = await api.post('/test-sessions/preview', request);
+    return response.data;
+  },
+
+  // Start a new session; the server picks and orders the questions
+  startSession: async (request: TestBuilderRequest): Promise<{ session: TestSession; composition: SectionComposition[] | null }> => {
+    const response = await api.post('/test-sessions', request);
+    return { session: toTestSession(response.data), composition: response.data.composition };
+  },
+
+  // Start a session of a published practice test; timed tests run as mock exams
+  startPracticeTest: async (testId: number): Promise<TestSession> => {
+    const response = await api.post(`/test-sessions/practice-tests/${testId}`);
+    return toTestSession(response.data);
+  },
+
+  // Get the most recent unfinished session, or null
+  getActiveSession: async (): Promise<TestSession | null> => {
+    const response = await api.get('/test-sessions/active');
+    return response.data.session ? toTestSession(response.data) : null;
+  },
+
+  // Get a session by ID
+  getSession: async (sessionId: string): Promise<TestSession> => {
+    const response = await api.get(`/test-sessions/${sessionId}`);
+    return toTestSession(response.data);
+  },
+
+  // Get the current user's session history
+  getHistory: async (limit = 20): Promise<StoredTestSession[]> => {
+    const response = await api.get(`/test-sessions?limit=${limit}`);
+    return response.data.sessions;
+  },
+
+  // Record an answer for one question
+  recordAnswer: async (sessionId: string, questionId: number, selectedAnswer: string, responseTimeSeconds: number): Promise<StoredResponse> => {
+    const response = await api.post(`/test-sessions/${sessionId}/responses`, {
+      question_id: questionId,
+      selected_answer: selectedAnswer,
+      response_time_seconds: responseTimeSeconds
+    });
+    return response.data;
+  },
+
+  // Save the question the user is on so the session resumes there
+  updateProgress: async (sessionId: string, currentQuestionIndex: number): Promise<void> => {
+    await api.put(`/test-sessions/${sessionId}/progress`, { current_question_index: currentQuestionIndex });
+  },
+
+  // Flag or unflag a question for review
+  setFlagged: async (sessionId: string, questionId: number, flagged: boolean): Promise<StoredTestSession> => {
+    const response = await api.put(`/test-sessions/${sessionId}/flags`, { question_id: questionId, flagged });
+    return response.data.session;
+  },
+
+  // Pause a mock exam's clock
+  pauseSession: async (sessionId: string): Promise<StoredTestSession> => {
+    const response = await api.post(`/test-sessions/${sessionId}/pause`);
+    return response.data.session;
+  },
+
+  // Restart a paused mock exam's clock
+  resumeSession: async (sessionId: string): Promise<StoredTestSession> => {
+    const response = await api.post(`/test-sessions/${sessionId}/resume`);
+    return response.data.session;
+  },
+
+  // Complete the session and get back the scored result
+  completeSession: async (sessionId: string): Promise<TestSession> => {
+    const response = await api.post(`/test-sessions/${sessionId}/complete`);
+    return toTestSession(response.data);
+  },
+
+  // Discard a session
+  deleteSession: async (sessionId: string): Promise<void> => {
+    await api.delete(`/test-sessions/${sessionId}`);
+  },
+};
@@ -12,6 +12,18 @@ export type LicenseType =
   | 'copyright-borrowed' 
   | 'user-contributed';
 
+// Coordinates are fractions (0-1) of the image's width and height
+export type AnnotationShape =
+  | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number; color: string }
+  | { type: 'circle'; cx: number; cy: number; rx: number; ry: number; color: string }
+  | { type: 'label'; x: number; y: number; text: string; color: string };
+
+export interface ImageAnnotationLayer {
+  shapes: AnnotationShape[];
+  // Hide the markup until the explanation is shown
+  reveal_after_answer: boolean;
+}
+
 export interface Image {
   id?: number;
   filename: string;
@@ -30,6 +42,8 @@ export interface Image {
   created_at?: string;
   updated_at?: string;
   display_order?: number;
+  // Markup for this image as used in the question being shown
+  annotation?: ImageAnnotationLayer | null;
 }
 
 export interface Question {
@@ -47,7 +61,7 @@ export interface Question {
   explanation?: string;
   source_folder?: string;
   metadata_category?: string;
-  review_status?: 'pending' | 'approved' | 'rejected' | 'returned' | 'pending submission';
+  review_status?: 'pending' | 'approved' | 'rejected' | 'returned' | 'pending submission' | 'escalated';
   review_notes?: string;
   reviewed_by?: number;
   reviewed_at?: string;
@@ -72,6 +86,14 @@ export interface TestSession {
   currentQuestionIndex: number;
   startTime: Date;
   isCompleted: boolean;
+  correctAnswers?: number;
+  scorePercentage?: number;
+  totalTimeSeconds?: number;
+  mode?: 'practice' | 'exam';
+  timeLimitSeconds?: number;
+  remainingSeconds?: number;
+  isPaused?: boolean;
+  flaggedQuestionIds?: number[];
 }
 
 export interface TestResults {